@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { User, UserRole, Lead, Brokerage, Task, LeadNote, Deal, OpenHouse, EmailMessage, TrashedMetadata, YearlyGoal, SharedFolder, SharedDocument } from './types.ts';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AssignmentOrigin, User, UserRole, Lead, Brokerage, Task, LeadNote, Deal, OpenHouse, EmailMessage, TrashedMetadata, YearlyGoal, SharedFolder, SharedDocument, CustomFieldDefinition, LeadRelationship } from './types.ts';
 import Layout from './components/Layout.tsx';
 import Dashboard from './components/Dashboard.tsx';
 import LeadList from './components/LeadList.tsx';
@@ -12,7 +12,7 @@ import SettingsView from './components/SettingsView.tsx';
 import ReportsView from './components/ReportsView.tsx';
 import TrashView from './components/TrashView.tsx';
 import OpenHouseView from './components/OpenHouseView.tsx';
-import OpenHousePublicForm from './components/OpenHousePublicForm.tsx';
+import OpenHouseCheckIn from './components/OpenHouseCheckIn.tsx';
 import TeamView from './components/TeamView.tsx';
 import ProfileView from './components/ProfileView.tsx';
 import LoginView from './components/LoginView.tsx';
@@ -20,14 +20,46 @@ import SignupView from './components/SignupView.tsx';
 import JoinView from './components/JoinView.tsx';
 import EmailDashboard from './components/EmailDashboard.tsx';
 import DocumentsView from './components/DocumentsView.tsx';
+import DuplicateQueue from './components/DuplicateQueue.tsx';
+import CommandPalette from './components/CommandPalette.tsx';
 import { supabase } from './lib/supabase.ts';
 import { authService } from './services/authService.ts';
+import { leadService } from './services/leadService.ts';
+import { leadScoringService } from './services/leadScoringService.ts';
+import { leadRoutingService } from './services/leadRoutingService.ts';
+import { leadDuplicateService } from './services/leadDuplicateService.ts';
+import { dealService } from './services/dealService.ts';
+import { customFieldService } from './services/customFieldService.ts';
+import { leadRelationshipService } from './services/leadRelationshipService.ts';
+import { documentService } from './services/documentService.ts';
+import { taskService } from './services/taskService.ts';
+import { openHouseService } from './services/openHouseService.ts';
 import { invitationService, BrokerageInvite } from './services/invitationService.ts';
+import { useRoute, navigate, buildPath } from './lib/router.ts';
+import { DuplicatePair, findDuplicatePairs, pairKey } from './lib/leadDuplicates.ts';
+import { RelatedLeadDraft, groupRelatedContacts, newLinksOnly } from './lib/relationships.ts';
+import { FocusRequest } from './lib/commandPalette.ts';
+import { formatPhone } from './lib/phone.ts';
 import BrokerAdminPanel from './components/BrokerAdminPanel.tsx';
 
 const TZ = 'America/Los_Angeles';
 
-const INITIAL_NAV_ITEMS = [
+export interface NavItemConfig {
+  id: string;
+  label: string;
+  icon: string;
+  roleRestriction?: UserRole;
+}
+
+export interface NotificationItem {
+  id: string;
+  type: 'TASK' | 'EVENT';
+  title: string;
+  description: string;
+  view: string;
+}
+
+const INITIAL_NAV_ITEMS: NavItemConfig[] = [
   { id: 'dashboard', label: 'Dashboard', icon: 'fa-gauge-high' },
   { id: 'email', label: 'Email Center', icon: 'fa-envelope' },
   { id: 'leads', label: 'Leads', icon: 'fa-users' },
@@ -44,20 +76,46 @@ const INITIAL_NAV_ITEMS = [
   { id: 'settings', label: 'Settings', icon: 'fa-cog' },
 ];
 
+const INITIAL_SOURCES = ['Zillow', 'Realtor.com', 'Facebook', 'Google', 'Referral', 'Open House', 'Past Client'];
+const INITIAL_TAGS = ['Buyer', 'Seller', 'Investor', 'Past Client', 'First-Time Buyer', 'Luxury'];
+
 const App: React.FC = () => {
+  const route = useRoute();
+  const view = route.view;
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
   const [authView, setAuthView] = useState<'login' | 'signup'>('login');
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [brokerage, setBrokerage] = useState<Brokerage | null>(null);
   const [users, setUsers] = useState<User[]>([]);
-  const [view, setView] = useState<string>('dashboard');
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [openHouses, setOpenHouses] = useState<OpenHouse[]>([]);
+  const [emails, setEmails] = useState<EmailMessage[]>([]);
+  const [folders, setFolders] = useState<SharedFolder[]>([]);
+  const [documents, setDocuments] = useState<SharedDocument[]>([]);
+  const [goals, setGoals] = useState<YearlyGoal[]>([]);
+  const [availableSources, setAvailableSources] = useState<string[]>(INITIAL_SOURCES);
+  const [availableTags, setAvailableTags] = useState<string[]>(INITIAL_TAGS);
+  const [trashedSources, setTrashedSources] = useState<TrashedMetadata[]>([]);
+  const [trashedTags, setTrashedTags] = useState<TrashedMetadata[]>([]);
+  const [navItems, setNavItems] = useState<NavItemConfig[]>(INITIAL_NAV_ITEMS);
+  const [dashboardFilterId, setDashboardFilterId] = useState<string>('TEAM');
   const [activeInvitation, setActiveInvitation] = useState<BrokerageInvite | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(() => localStorage.getItem('theme') === 'dark');
+  const [dismissedDuplicateKeys, setDismissedDuplicateKeys] = useState<Set<string>>(new Set());
+  const [isDuplicateQueueOpen, setIsDuplicateQueueOpen] = useState(false);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [relationships, setRelationships] = useState<LeadRelationship[]>([]);
+  // While scoring is on, the hourly rescore owns temperature, so it is not edited by hand
+  const [isScoringEnabled, setIsScoringEnabled] = useState(false);
 
   // Load live data from the database
   const loadTeamData = async (bId: string) => {
-    const { data } = await supabase.from('user_profiles').select('*').eq('brokerage_id', bId).eq('is_deleted', false);
+    const { data } = await supabase.from('user_profiles').select('*').eq('brokerage_id', bId);
     if (data) {
       setUsers(data.map(u => ({
         id: u.id,
@@ -66,52 +124,800 @@ const App: React.FC = () => {
         lastName: u.last_name,
         email: u.email,
         role: u.role as UserRole,
-        isDeleted: u.is_deleted
+        phone: u.phone ? formatPhone(u.phone, u.phone_extension) : undefined,
+        licenseNumber: u.license_number || undefined,
+        avatar: u.avatar_url || undefined,
+        isDeleted: u.is_deleted,
+        deletedAt: u.deleted_at || undefined
       })));
     }
   };
 
+  const loadLeads = async (bId: string) => {
+    const loaded = await leadService.getLeads(bId);
+    setLeads(loaded);
+  };
+
+  const loadDeals = async (bId: string) => {
+    setDeals(await dealService.getDeals(bId));
+  };
+
+  const loadTasks = async (bId: string) => {
+    setTasks(await taskService.getTasks(bId));
+  };
+
+  const loadOpenHouses = async (bId: string) => {
+    setOpenHouses(await openHouseService.getOpenHouses(bId));
+  };
+
   useEffect(() => {
     const init = async () => {
       const user = await authService.getCurrentUser();
       if (user) {
         setCurrentUser(user);
+        setDashboardFilterId(user.role === UserRole.BROKER ? 'TEAM' : user.id);
         const b = await authService.getBrokerage(user.brokerageId);
         setBrokerage(b);
         setIsAuthenticated(true);
-        await loadTeamData(user.brokerageId);
+        await Promise.all([
+          loadTeamData(user.brokerageId),
+          loadLeads(user.brokerageId),
+          loadDeals(user.brokerageId),
+          loadTasks(user.brokerageId),
+          loadOpenHouses(user.brokerageId),
+          leadDuplicateService.getDismissedKeys(user.brokerageId).then(setDismissedDuplicateKeys),
+          customFieldService.getDefinitions(user.brokerageId).then(setCustomFields),
+          leadScoringService.getConfig(user.brokerageId).then(config => setIsScoringEnabled(config.isEnabled)),
+          leadRelationshipService.getRelationships(user.brokerageId).then(setRelationships),
+          documentService.getFolders(user.brokerageId).then(setFolders),
+          documentService.getDocuments(user.brokerageId).then(setDocuments)
+        ]);
       }
       setIsCheckingAuth(false);
     };
     init();
   }, []);
 
+  const setView = (nextView: string) => navigate(buildPath(nextView));
+
+  // Command palette: opens a record in the view that owns it
+  const handleOpenRecord = (nextView: string, id: string) => {
+    setFocusRequest({ view: nextView, id, at: Date.now() });
+    setView(nextView);
+  };
+
+  useEffect(() => {
+    setFocusRequest(prev => prev && prev.view !== view ? null : prev);
+  }, [view]);
+
+  const focusFor = (target: string) => focusRequest?.view === target ? focusRequest : undefined;
+
+  const toggleDarkMode = () => {
+    setIsDarkMode(prev => {
+      localStorage.setItem('theme', prev ? 'light' : 'dark');
+      return !prev;
+    });
+  };
+
   const activeUsers = useMemo(() => users.filter(u => !u.isDeleted), [users]);
-  
-  // FIXED: Added notifications object to stop 'hasEvents' crash
-  const notifications = useMemo(() => ({
-    items: [],
-    hasTasks: false,
-    hasEvents: false,
-    totalCount: 0
-  }), []);
+  const visibleNavItems = useMemo(
+    () => navItems.filter(item => !item.roleRestriction || item.roleRestriction === currentUser?.role),
+    [navItems, currentUser]
+  );
+  const relatedByLead = useMemo(() => groupRelatedContacts(relationships, leads), [relationships, leads]);
+  // Linked people (e.g. spouses sharing a phone) are known to be distinct
+  const duplicatePairs = useMemo(
+    () => findDuplicatePairs(leads, new Set([...dismissedDuplicateKeys, ...relationships.map(r => pairKey(r.leadId, r.relatedLeadId))]), relatedByLead),
+    [leads, dismissedDuplicateKeys, relationships, relatedByLead]
+  );
+  const selectedLead = useMemo(
+    () => view === 'lead-detail' ? leads.find(l => l.id === route.params.id) || null : null,
+    [leads, view, route.params.id]
+  );
+
+  // Lead persistence: state is updated optimistically, then reconciled with the saved row
+  // `origin` labels any routing the new leads get in the assignment history
+  const handleAddLeads = async (newLeads: Lead[], origin: AssignmentOrigin): Promise<Lead[]> => {
+    if (!currentUser || !brokerage) return [];
+    // Imports leave the agent blank for the routing engine; forms keep the agent they picked
+    const unroutedIndexes = newLeads.flatMap((l, i) => l.assignedAgentId ? [] : [i]);
+    const routing = unroutedIndexes.length > 0
+      ? await leadRoutingService.routeLeads(brokerage.id, unroutedIndexes.map(i => newLeads[i]), {
+          fallbackAgentId: currentUser.id,
+          activeAgentIds: activeUsers.map(u => u.id)
+        })
+      : null;
+
+    const scoped = newLeads.map((l, i) => {
+      const routedIndex = unroutedIndexes.indexOf(i);
+      const agentId = routing && routedIndex >= 0 ? routing.leads[routedIndex].assignedAgentId : l.assignedAgentId;
+      return {
+        ...l,
+        brokerageId: brokerage.id,
+        // Forms and imports fall back to placeholder agent ids; keep only real team members
+        assignedAgentId: users.some(u => u.id === agentId) ? agentId : currentUser.id
+      };
+    });
+    try {
+      const created = await leadService.createLeads(scoped);
+      setLeads(prev => [...created, ...prev]);
+      if (routing) {
+        leadRoutingService.recordAssignments(brokerage.id, unroutedIndexes.map((i, routedIndex) => ({
+          leadId: created[i].id,
+          decision: routing.decisions[routedIndex],
+          origin
+        })));
+      }
+      return created;
+    } catch (error) {
+      alert('Unable to save the new lead(s). Please try again.');
+      return [];
+    }
+  };
+
+  // New people among the drafts are saved first, with their lead's agent, then every pair is linked
+  const handleAddRelatedLeads = async (drafts: RelatedLeadDraft[]) => {
+    if (!currentUser || !brokerage) return;
+    const fresh = drafts.filter(d => d.isNew);
+    const created = fresh.length > 0 ? await handleAddLeads(fresh.map(d => d.related), 'MANUAL') : [];
+    if (created.length < fresh.length) return;
+
+    const links = newLinksOnly(drafts.map(d => ({
+      leadId: d.lead.id,
+      relatedLeadId: d.isNew ? created[fresh.indexOf(d)].id : d.related.id,
+      type: d.type
+    })), relationships);
+    const saved = await leadRelationshipService.createRelationships(brokerage.id, currentUser.id, links);
+    if (saved.length < links.length) alert('Unable to link every contact. Please try again.');
+    setRelationships(prev => [...prev, ...saved]);
+  };
+
+  const handleRemoveRelationship = async (id: string) => {
+    if (await leadRelationshipService.deleteRelationship(id)) {
+      setRelationships(prev => prev.filter(r => r.id !== id));
+    }
+  };
+
+  const recordManualReassignments = (changed: Lead[]) => {
+    if (!currentUser || !brokerage) return;
+    const reassigned = changed.filter(l => leads.find(p => p.id === l.id)?.assignedAgentId !== l.assignedAgentId);
+    leadRoutingService.recordAssignments(brokerage.id, reassigned.map(l => ({
+      leadId: l.id,
+      decision: {
+        agentId: l.assignedAgentId,
+        ruleName: 'Manual reassignment',
+        reason: `Reassigned by ${currentUser.firstName} ${currentUser.lastName}`
+      },
+      origin: 'MANUAL'
+    })));
+  };
+
+  // The database stamps status_changed_at too; mirror it so time-in-stage updates right away
+  const stampStageChange = (updated: Lead): Lead => {
+    const previous = leads.find(l => l.id === updated.id);
+    return previous && previous.status !== updated.status
+      ? { ...updated, statusChangedAt: new Date().toISOString() }
+      : updated;
+  };
+
+  // Only fields that differ from the loaded lead are saved, so a form holding an older copy
+  // does not overwrite what others changed since (such as notes from the SLA enforcer)
+  const changedFields = (updated: Lead): Partial<Lead> => {
+    const previous = leads.find(l => l.id === updated.id);
+    if (!previous) return updated;
+    return (Object.keys(updated) as (keyof Lead)[])
+      .filter(key => key !== 'updatedAt' && JSON.stringify(updated[key]) !== JSON.stringify(previous[key]))
+      .reduce<Partial<Lead>>((changes, key) => ({ ...changes, [key]: updated[key] }), {});
+  };
+
+  const handleUpdateLead = (lead: Lead) => {
+    const updated = stampStageChange(lead);
+    const changes = changedFields(updated);
+    recordManualReassignments([updated]);
+    setLeads(prev => prev.map(l => l.id === updated.id ? updated : l));
+    if (Object.keys(changes).length === 0) return;
+    leadService.updateLead(updated.id, changes).then(saved => {
+      if (!saved) {
+        loadLeads(updated.brokerageId);
+        return;
+      }
+      // The address is parsed and geocoded on save; pick that up unless it was edited again meanwhile
+      setLeads(prev => prev.map(l => l.id === saved.id && l.propertyAddress === saved.propertyAddress && JSON.stringify(l.propertyLocation) !== JSON.stringify(saved.propertyLocation)
+        ? { ...l, propertyAddressComponents: saved.propertyAddressComponents, propertyLocation: saved.propertyLocation }
+        : l));
+    });
+  };
+
+  const handleBulkUpdateLeads = (bulkLeads: Lead[]) => {
+    const updatedLeads = bulkLeads.map(l => leads.find(p => p.id === l.id) === l ? l : stampStageChange(l));
+    const changed = updatedLeads.filter(l => leads.find(p => p.id === l.id) !== l);
+    recordManualReassignments(changed);
+    setLeads(updatedLeads);
+    changed.forEach(l => leadService.updateLead(l.id, changedFields(l)));
+  };
+
+
+  const handleAddNote = (leadId: string, content: string) => {
+    const lead = leads.find(l => l.id === leadId);
+    if (!lead || !currentUser) return;
+    const note: LeadNote = {
+      id: `note_${Date.now()}`,
+      content,
+      createdAt: new Date().toISOString(),
+      authorId: currentUser.id,
+      authorName: `${currentUser.firstName} ${currentUser.lastName}`
+    };
+    setLeads(prev => prev.map(l => l.id === leadId ? { ...l, notes: [note, ...l.notes], updatedAt: note.createdAt } : l));
+    leadService.addNote(leadId, note).then(saved => {
+      if (!saved) loadLeads(lead.brokerageId);
+    });
+  };
+
+  const handleMergeLeads = async (survivorId: string, duplicateId: string, changes: Partial<Lead>, note: LeadNote) => {
+    const saved = await leadService.mergeLeads(survivorId, duplicateId, changes, note);
+    const deletedAt = new Date().toISOString();
+    setLeads(prev => prev.map(l =>
+      l.id === saved.id ? saved
+        : l.id === duplicateId ? { ...l, isDeleted: true, deletedAt, mergedIntoId: saved.id }
+        : l
+    ));
+    setTasks(prev => prev.map(t => t.leadId === duplicateId ? { ...t, leadId: saved.id } : t));
+    setDeals(prev => prev.map(d => d.leadId === duplicateId ? { ...d, leadId: saved.id } : d));
+  };
+
+  const handleDismissDuplicate = async (pair: DuplicatePair) => {
+    if (!currentUser || !brokerage) return;
+    if (await leadDuplicateService.dismiss(brokerage.id, pair.a.id, pair.b.id, currentUser.id)) {
+      setDismissedDuplicateKeys(prev => new Set(prev).add(pair.key));
+    }
+  };
+
+  const handleRestoreLeads = (ids: string[]) => {
+    setLeads(prev => prev.map(l => ids.includes(l.id) ? { ...l, isDeleted: false, deletedAt: undefined } : l));
+    ids.forEach(id => leadService.restoreLead(id));
+  };
+
+  const handlePermanentDeleteLeads = (ids: string[]) => {
+    setLeads(prev => prev.filter(l => !ids.includes(l.id)));
+    ids.forEach(id => leadService.permanentlyDeleteLead(id));
+  };
+
+  // Deal persistence
+  const handleAddDeal = async (deal: Deal) => {
+    if (!currentUser || !brokerage) return;
+    try {
+      const created = await dealService.createDeal({
+        ...deal,
+        brokerageId: brokerage.id,
+        assignedUserId: users.some(u => u.id === deal.assignedUserId) ? deal.assignedUserId : currentUser.id
+      });
+      setDeals(prev => [created, ...prev]);
+    } catch (error) {
+      alert('Unable to save the transaction. Please try again.');
+    }
+  };
+
+  const handleUpdateDeal = async (id: string, updates: Partial<Deal>) => {
+    setDeals(prev => prev.map(d => d.id === id ? { ...d, ...updates } : d));
+    const saved = await dealService.updateDeal(id, updates);
+    if (saved) {
+      setDeals(prev => prev.map(d => d.id === id ? saved : d));
+    } else if (brokerage) {
+      loadDeals(brokerage.id);
+    }
+  };
+
+  const handleDeleteDeal = (id: string) => {
+    handleUpdateDeal(id, { isDeleted: true, deletedAt: new Date().toISOString() });
+  };
+
+  const handleRestoreDeals = (ids: string[]) => {
+    setDeals(prev => prev.map(d => ids.includes(d.id) ? { ...d, isDeleted: false, deletedAt: undefined } : d));
+    ids.forEach(id => dealService.restoreDeal(id));
+  };
+
+  const handlePermanentDeleteDeals = (ids: string[]) => {
+    setDeals(prev => prev.filter(d => !ids.includes(d.id)));
+    ids.forEach(id => dealService.permanentlyDeleteDeal(id));
+  };
+
+  // Tasks: completing a recurring task rolls it forward to the next occurrence
+  const handleAddTask = async (task: Task) => {
+    if (!currentUser || !brokerage) return;
+    try {
+      const created = await taskService.createTask({
+        ...task,
+        brokerageId: brokerage.id,
+        assignedUserId: users.some(u => u.id === task.assignedUserId) ? task.assignedUserId : currentUser.id
+      });
+      setTasks(prev => [...prev, created]);
+    } catch (error) {
+      alert('Unable to save the task. Please try again.');
+    }
+  };
+
+  const handleUpdateTask = async (id: string, updates: Partial<Task>) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
+
+    if (updates.isCompleted === true && !task.isCompleted) {
+      const { task: saved, nextTask } = await taskService.completeTask({ ...task, ...updates });
+      setTasks(prev => [...prev.map(t => t.id === id && saved ? saved : t), ...(nextTask ? [nextTask] : [])]);
+      return;
+    }
+
+    if (updates.isCompleted === false && task.isCompleted) {
+      const { task: saved, removedTaskIds } = await taskService.reopenTask(task);
+      setTasks(prev => prev.filter(t => !removedTaskIds.includes(t.id)).map(t => t.id === id && saved ? saved : t));
+      return;
+    }
+
+    const saved = await taskService.updateTask(id, updates);
+    if (saved) {
+      setTasks(prev => prev.map(t => t.id === id ? saved : t));
+    } else if (brokerage) {
+      loadTasks(brokerage.id);
+    }
+  };
+
+  const handleDeleteTask = (id: string) => {
+    setTasks(prev => prev.filter(t => t.id !== id));
+    taskService.deleteTask(id);
+  };
+
+  // Open houses
+  const handleCreateOpenHouse = async (oh: OpenHouse) => {
+    if (!currentUser || !brokerage) return;
+    try {
+      const created = await openHouseService.createOpenHouse({
+        ...oh,
+        brokerageId: brokerage.id,
+        assignedAgentId: users.some(u => u.id === oh.assignedAgentId) ? oh.assignedAgentId : currentUser.id
+      });
+      setOpenHouses(prev => [created, ...prev]);
+    } catch (error) {
+      alert('Unable to save the open house. Please try again.');
+    }
+  };
+
+  const handleUpdateOpenHouse = async (oh: OpenHouse) => {
+    setOpenHouses(prev => prev.map(o => o.id === oh.id ? oh : o));
+    const saved = await openHouseService.updateOpenHouse(oh.id, oh);
+    if (saved) {
+      setOpenHouses(prev => prev.map(o => o.id === oh.id ? saved : o));
+    } else if (brokerage) {
+      loadOpenHouses(brokerage.id);
+    }
+  };
+
+  const handleDeleteOpenHouse = (id: string) => {
+    setOpenHouses(prev => prev.map(o => o.id === id ? { ...o, isDeleted: true, deletedAt: new Date().toISOString() } : o));
+    openHouseService.softDeleteOpenHouse(id);
+  };
+
+  const handleRestoreOpenHouses = (ids: string[]) => {
+    setOpenHouses(prev => prev.map(o => ids.includes(o.id) ? { ...o, isDeleted: false, deletedAt: undefined } : o));
+    ids.forEach(id => openHouseService.restoreOpenHouse(id));
+  };
+
+  const handlePermanentDeleteOpenHouses = (ids: string[]) => {
+    setOpenHouses(prev => prev.filter(o => !ids.includes(o.id)));
+    ids.forEach(id => openHouseService.permanentlyDeleteOpenHouse(id));
+  };
+
+  const handleLaunchSignIn = (oh: OpenHouse) => {
+    if (oh.signInToken) navigate(buildPath('open-house-check-in', { token: oh.signInToken }));
+  };
+
+  // In-app kiosk links forward to the public check-in page so visitors never touch the agent's session
+  useEffect(() => {
+    if (view !== 'open-house-sign-in') return;
+    const openHouse = openHouses.find(o => o.id === route.params.id);
+    if (openHouse?.signInToken) {
+      navigate(buildPath('open-house-check-in', { token: openHouse.signInToken }), { replace: true });
+    }
+  }, [view, route.params.id, openHouses]);
+
+  // Team members
+  const handleUpdateUser = (updated: User) => {
+    setUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+    if (updated.id === currentUser?.id) setCurrentUser(updated);
+    authService.updateProfile(updated.id, updated);
+  };
+
+  const handleDeleteUser = (id: string) => {
+    const user = users.find(u => u.id === id);
+    if (user) handleUpdateUser({ ...user, isDeleted: true, deletedAt: new Date().toISOString() });
+  };
+
+  const handleRestoreUser = (id: string) => {
+    const user = users.find(u => u.id === id);
+    if (user) handleUpdateUser({ ...user, isDeleted: false, deletedAt: '' });
+  };
+
+  const handlePermanentDeleteUsers = async (ids: string[]) => {
+    setUsers(prev => prev.filter(u => !ids.includes(u.id)));
+    const { error } = await supabase.from('user_profiles').delete().in('id', ids);
+    if (error) console.error('Error deleting team members:', error);
+  };
+
+  // Training documents: the Training Center hands back whole lists, so only entries it replaced are saved
+  const handleUpdateFolders = (next: SharedFolder[]) => {
+    const changed = next.filter(f => !folders.includes(f));
+    setFolders(next);
+    if (brokerage) documentService.saveFolders(brokerage.id, changed);
+  };
+
+  const handleUpdateDocuments = (next: SharedDocument[]) => {
+    const changed = next.filter(d => !documents.includes(d));
+    setDocuments(next);
+    if (brokerage) documentService.saveDocuments(brokerage.id, changed);
+  };
+
+  // Bulk restores call these once per id, so state updates stay functional
+  const handleRestoreDocument = (id: string) => {
+    const doc = documents.find(d => d.id === id);
+    if (!doc) return;
+    const restored = { ...doc, isDeleted: false, deletedAt: undefined };
+    setDocuments(prev => prev.map(d => d.id === id ? restored : d));
+    if (brokerage) documentService.saveDocuments(brokerage.id, [restored]);
+  };
+
+  const handleRestoreFolder = (id: string) => {
+    const folder = folders.find(f => f.id === id);
+    if (!folder) return;
+    const restored = { ...folder, isDeleted: false, deletedAt: undefined };
+    setFolders(prev => prev.map(f => f.id === id ? restored : f));
+    if (brokerage) documentService.saveFolders(brokerage.id, [restored]);
+  };
+
+  const handlePermanentDeleteDocuments = (ids: string[]) => {
+    setDocuments(prev => prev.filter(d => !ids.includes(d.id)));
+    documentService.deleteDocuments(ids);
+  };
+
+  const handlePermanentDeleteFolders = (ids: string[]) => {
+    setFolders(prev => prev.filter(f => !ids.includes(f.id)));
+    setDocuments(prev => prev.filter(d => !ids.includes(d.folderId)));
+    documentService.deleteFolders(ids);
+  };
+
+  // Sources and tags
+  const handleTrashSource = (source: string) => {
+    setAvailableSources(prev => prev.filter(s => s !== source));
+    setTrashedSources(prev => [...prev, { name: source, deletedAt: new Date().toISOString() }]);
+  };
+
+  const handleTrashTag = (tag: string) => {
+    setAvailableTags(prev => prev.filter(t => t !== tag));
+    setTrashedTags(prev => [...prev, { name: tag, deletedAt: new Date().toISOString() }]);
+  };
+
+  const handleRestoreSource = (name: string) => {
+    setTrashedSources(prev => prev.filter(s => s.name !== name));
+    setAvailableSources(prev => prev.includes(name) ? prev : [...prev, name]);
+  };
+
+  const handleRestoreTag = (name: string) => {
+    setTrashedTags(prev => prev.filter(t => t.name !== name));
+    setAvailableTags(prev => prev.includes(name) ? prev : [...prev, name]);
+  };
+
+  const handleUpdateGoal = (goal: YearlyGoal) => {
+    setGoals(prev => [...prev.filter(g => g.userId !== goal.userId || g.year !== goal.year), goal]);
+  };
+
+  const handleUpdateNavItems = (items: NavItemConfig[]) => {
+    // Settings only sees the items visible to the current role; keep the hidden ones at the end
+    setNavItems(prev => [...items, ...prev.filter(p => !items.some(i => i.id === p.id))]);
+  };
+
+  const handleSwitchUser = (userId: string) => {
+    setDashboardFilterId(userId);
+    setView('dashboard');
+  };
+
+  // Smart list and query of the lead list, restored when leaving a lead's detail page
+  const leadListSearchRef = useRef('');
+
+  const handleSelectLead = (lead: Lead) => {
+    if (view === 'leads') leadListSearchRef.current = window.location.search;
+    navigate(buildPath('lead-detail', { id: lead.id }));
+  };
+
+  const notifications = useMemo(() => {
+    const today = new Date().toLocaleDateString('en-CA', { timeZone: TZ });
+    const isToday = (date: string) => new Date(date).toLocaleDateString('en-CA', { timeZone: TZ }) === today;
+
+    const taskItems: NotificationItem[] = tasks
+      .filter(t => !t.isCompleted && t.assignedUserId === currentUser?.id && isToday(t.dueDate))
+      .map(t => ({ id: t.id, type: 'TASK', title: t.title, description: 'Due today', view: 'tasks' }));
+
+    const eventItems: NotificationItem[] = openHouses
+      .filter(o => !o.isDeleted && o.assignedAgentId === currentUser?.id && o.date === today)
+      .map(o => ({ id: o.id, type: 'EVENT', title: o.address, description: `Open house ${o.startTime} - ${o.endTime}`, view: 'open-house' }));
+
+    return {
+      items: [...taskItems, ...eventItems],
+      hasTasks: taskItems.length > 0,
+      hasEvents: eventItems.length > 0,
+      totalCount: taskItems.length + eventItems.length
+    };
+  }, [tasks, openHouses, currentUser]);
 
   const renderContent = () => {
     if (!currentUser || !brokerage) return null;
-    
+
+    const dashboard = (
+      <Dashboard
+        leads={leads.filter(l => !l.isDeleted)}
+        user={currentUser}
+        agents={activeUsers}
+        deals={deals.filter(d => !d.isDeleted)}
+        tasks={tasks}
+        openHouses={openHouses.filter(o => !o.isDeleted)}
+        onNavigate={setView}
+        isDarkMode={isDarkMode}
+        toggleDarkMode={toggleDarkMode}
+        viewingAgentId={dashboardFilterId}
+        onSetViewingAgentId={setDashboardFilterId}
+        goals={goals}
+        onUpdateGoal={handleUpdateGoal}
+      />
+    );
+
     // SECURITY: Blocks Agents from accessing restricted views
-    if (currentUser.role === UserRole.AGENT && (view === 'team' || view === 'reports')) {
-      return <Dashboard user={currentUser} agents={activeUsers} />;
+    const restricted = INITIAL_NAV_ITEMS.find(item => item.id === view)?.roleRestriction;
+    if (restricted && restricted !== currentUser.role) {
+      return dashboard;
     }
 
     switch (view) {
-      case 'dashboard': return <Dashboard user={currentUser} agents={activeUsers} />;
-      case 'team': return <TeamView users={activeUsers} currentUser={currentUser} />;
-      case 'profile': return <ProfileView user={currentUser} brokerage={brokerage} onUpdate={setCurrentUser} />;
-      default: return <Dashboard user={currentUser} agents={activeUsers} />;
+      case 'dashboard': return dashboard;
+      case 'team':
+        return (
+          <TeamView
+            users={activeUsers}
+            currentUser={currentUser}
+            onAddUser={user => setUsers(prev => [...prev, user])}
+            onUpdateUser={handleUpdateUser}
+            onDeleteUser={handleDeleteUser}
+            isDarkMode={isDarkMode}
+          />
+        );
+      case 'profile':
+        return <ProfileView user={currentUser} brokerage={brokerage} onUpdate={setCurrentUser} isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} />;
+      case 'email':
+        return (
+          <EmailDashboard
+            emails={emails}
+            currentUser={currentUser}
+            leads={leads.filter(l => !l.isDeleted)}
+            relatedByLead={relatedByLead}
+            onSendEmail={email => setEmails(prev => [email, ...prev])}
+            onUpdateEmail={(id, updates) => setEmails(prev => prev.map(e => e.id === id ? { ...e, ...updates } : e))}
+            onDeleteEmail={id => setEmails(prev => prev.filter(e => e.id !== id))}
+            isDarkMode={isDarkMode}
+          />
+        );
+      case 'leads':
+        return (
+          <LeadList
+            brokerageId={brokerage.id}
+            currentUser={currentUser}
+            leads={leads}
+            onSelectLead={handleSelectLead}
+            onAddLeads={handleAddLeads}
+            onUpdateLead={handleUpdateLead}
+            onBulkUpdateLeads={handleBulkUpdateLeads}
+            availableSources={availableSources}
+            availableTags={availableTags}
+            onUpdateSources={setAvailableSources}
+            onUpdateTags={setAvailableTags}
+            duplicateCount={duplicatePairs.length}
+            onReviewDuplicates={() => setIsDuplicateQueueOpen(true)}
+            customFields={customFields}
+            relatedByLead={relatedByLead}
+            onAddRelatedLeads={handleAddRelatedLeads}
+            isTemperatureScored={isScoringEnabled}
+            isDarkMode={isDarkMode}
+          />
+        );
+      case 'contacts':
+        return (
+          <ContactList
+            brokerageId={brokerage.id}
+            currentUser={currentUser}
+            leads={leads}
+            onSelectLead={handleSelectLead}
+            onUpdateLead={handleUpdateLead}
+            onAddLeads={handleAddLeads}
+            onBulkUpdateLeads={handleBulkUpdateLeads}
+            availableSources={availableSources}
+            availableTags={availableTags}
+            onUpdateSources={setAvailableSources}
+            onUpdateTags={setAvailableTags}
+            duplicateCount={duplicatePairs.length}
+            onReviewDuplicates={() => setIsDuplicateQueueOpen(true)}
+            customFields={customFields}
+            relatedByLead={relatedByLead}
+            onAddRelatedLeads={handleAddRelatedLeads}
+            isDarkMode={isDarkMode}
+          />
+        );
+      case 'open-house':
+        return (
+          <OpenHouseView
+            openHouses={openHouses.filter(o => !o.isDeleted)}
+            agents={activeUsers}
+            currentUser={currentUser}
+            onCreate={handleCreateOpenHouse}
+            onUpdate={handleUpdateOpenHouse}
+            onDelete={handleDeleteOpenHouse}
+            onPreviewPublic={handleLaunchSignIn}
+            focus={focusFor('open-house')}
+          />
+        );
+      case 'documents':
+        return (
+          <DocumentsView
+            currentUser={currentUser}
+            agents={activeUsers}
+            brokerage={brokerage}
+            initialFolders={folders}
+            initialDocuments={documents}
+            onUpdateFolders={handleUpdateFolders}
+            onUpdateDocuments={handleUpdateDocuments}
+            focus={focusFor('documents')}
+            isDarkMode={isDarkMode}
+          />
+        );
+      case 'pipeline':
+        return (
+          <PipelineView
+            deals={deals.filter(d => !d.isDeleted)}
+            leads={leads.filter(l => !l.isDeleted)}
+            onAddDeal={handleAddDeal}
+            onUpdateDeal={handleUpdateDeal}
+            onDeleteDeal={handleDeleteDeal}
+            availableSources={availableSources}
+            customFields={customFields}
+            focus={focusFor('pipeline')}
+          />
+        );
+      case 'reports':
+        return (
+          <ReportsView
+            leads={leads.filter(l => !l.isDeleted)}
+            deals={deals.filter(d => !d.isDeleted)}
+            agents={activeUsers}
+            currentUser={currentUser}
+            isDarkMode={isDarkMode}
+          />
+        );
+      case 'calendar':
+        return (
+          <CalendarView
+            leads={leads.filter(l => !l.isDeleted)}
+            tasks={tasks}
+            onSelectLead={handleSelectLead}
+            onAddTask={handleAddTask}
+            onUpdateTask={handleUpdateTask}
+            onDeleteTask={handleDeleteTask}
+            onUpdateLead={handleUpdateLead}
+            user={currentUser}
+            focus={focusFor('calendar')}
+            isDarkMode={isDarkMode}
+          />
+        );
+      case 'tasks':
+        return (
+          <TaskList
+            tasks={tasks}
+            leads={leads.filter(l => !l.isDeleted)}
+            user={currentUser}
+            onUpdateTask={handleUpdateTask}
+            onAddTask={handleAddTask}
+            onDeleteTask={handleDeleteTask}
+            focus={focusFor('tasks')}
+          />
+        );
+      case 'trash':
+        return (
+          <TrashView
+            leads={leads}
+            deals={deals}
+            openHouses={openHouses}
+            users={users}
+            documents={documents}
+            folders={folders}
+            trashedSources={trashedSources}
+            trashedTags={trashedTags}
+            onRestoreLead={id => handleRestoreLeads([id])}
+            onRestoreDeal={id => handleRestoreDeals([id])}
+            onRestoreOpenHouse={id => handleRestoreOpenHouses([id])}
+            onRestoreUser={handleRestoreUser}
+            onRestoreDocument={handleRestoreDocument}
+            onRestoreFolder={handleRestoreFolder}
+            onRestoreSource={handleRestoreSource}
+            onRestoreTag={handleRestoreTag}
+            onBulkRestoreLeads={handleRestoreLeads}
+            onBulkRestoreDeals={handleRestoreDeals}
+            onBulkRestoreOpenHouses={handleRestoreOpenHouses}
+            onPermanentDeleteLead={id => handlePermanentDeleteLeads([id])}
+            onPermanentDeleteDeal={id => handlePermanentDeleteDeals([id])}
+            onPermanentDeleteOpenHouse={id => handlePermanentDeleteOpenHouses([id])}
+            onPermanentDeleteUser={id => handlePermanentDeleteUsers([id])}
+            onPermanentDeleteDocument={id => handlePermanentDeleteDocuments([id])}
+            onPermanentDeleteFolder={id => handlePermanentDeleteFolders([id])}
+            onPermanentDeleteSource={name => setTrashedSources(prev => prev.filter(s => s.name !== name))}
+            onPermanentDeleteTag={name => setTrashedTags(prev => prev.filter(t => t.name !== name))}
+            onBulkPermanentDeleteLeads={handlePermanentDeleteLeads}
+            onBulkPermanentDeleteDeals={handlePermanentDeleteDeals}
+            onBulkPermanentDeleteOpenHouses={handlePermanentDeleteOpenHouses}
+            onBulkPermanentDeleteFolders={handlePermanentDeleteFolders}
+            onBulkPermanentDeleteDocuments={handlePermanentDeleteDocuments}
+            onBulkPermanentDeleteUsers={handlePermanentDeleteUsers}
+          />
+        );
+      case 'settings':
+        return (
+          <SettingsView
+            availableSources={availableSources}
+            availableTags={availableTags}
+            onUpdateSources={setAvailableSources}
+            onUpdateTags={setAvailableTags}
+            onTrashSource={handleTrashSource}
+            onTrashTag={handleTrashTag}
+            navItems={visibleNavItems}
+            onUpdateNavItems={handleUpdateNavItems}
+            brokerage={brokerage}
+            isDarkMode={isDarkMode}
+            toggleDarkMode={toggleDarkMode}
+            canManageIntegrations={currentUser.role === UserRole.BROKER}
+            currentUserId={currentUser.id}
+            teamMembers={activeUsers}
+            onLeadIngested={lead => setLeads(prev => [lead, ...prev])}
+            onScoringSaved={async config => {
+              setIsScoringEnabled(config.isEnabled);
+              // Scores are saved by the server; reload to show them
+              if (await leadScoringService.rescoreLeads()) loadLeads(brokerage.id);
+            }}
+            customFields={customFields}
+            onUpdateCustomFields={setCustomFields}
+          />
+        );
+      case 'lead-detail':
+        // Deep links can arrive before leads have loaded, or point at a lead outside this user's scope
+        if (!selectedLead) return null;
+        return (
+          <LeadDetail
+            lead={selectedLead}
+            user={currentUser}
+            onBack={() => navigate(buildPath('leads') + leadListSearchRef.current)}
+            onAddNote={handleAddNote}
+            onUpdateLead={handleUpdateLead}
+            availableSources={availableSources}
+            availableTags={availableTags}
+            customFields={customFields}
+            leads={leads}
+            related={relatedByLead.get(selectedLead.id) || []}
+            onAddRelatedLeads={handleAddRelatedLeads}
+            onRemoveRelationship={handleRemoveRelationship}
+            onSelectLead={handleSelectLead}
+            isTemperatureScored={isScoringEnabled}
+            isDarkMode={isDarkMode}
+          />
+        );
+      default: return dashboard;
     }
   };
 
+  // The visitor check-in page is public and renders outside the app chrome
+  if (view === 'open-house-check-in') return <OpenHouseCheckIn token={route.params.token} />;
+
   if (isCheckingAuth) return <div className="fixed inset-0 bg-slate-900 flex items-center justify-center text-white">Loading Agent Desk 360...</div>;
 
   if (activeInvitation) return <JoinView invitation={activeInvitation} onComplete={() => window.location.reload()} />;
@@ -137,12 +943,52 @@ const App: React.FC = () => {
       onLogout={() => authService.signOut().then(() => setIsAuthenticated(false))}
       notifications={notifications}
       // SECURITY: Disables switching for Agents and filters sidebar
-      onSwitchUser={currentUser.role === UserRole.BROKER ? (id: string) => console.log('Switch to', id) : undefined}
-      navItems={INITIAL_NAV_ITEMS.filter(item => !item.roleRestriction || item.roleRestriction === currentUser.role)}
+      onSwitchUser={currentUser.role === UserRole.BROKER ? handleSwitchUser : undefined}
+      navItems={visibleNavItems}
+      onUpdateNavItems={handleUpdateNavItems}
+      isDarkMode={isDarkMode}
+      toggleDarkMode={toggleDarkMode}
+      dashboardFilterId={dashboardFilterId}
+      onSetDashboardFilterId={setDashboardFilterId}
+      onOpenCommandPalette={() => setIsCommandPaletteOpen(true)}
     >
       {renderContent()}
+      {isDuplicateQueueOpen && (
+        <DuplicateQueue
+          pairs={duplicatePairs}
+          agents={activeUsers}
+          tasks={tasks}
+          deals={deals}
+          currentUser={currentUser}
+          onMerge={handleMergeLeads}
+          onDismiss={handleDismissDuplicate}
+          onSelectLead={lead => { setIsDuplicateQueueOpen(false); handleSelectLead(lead); }}
+          onClose={() => setIsDuplicateQueueOpen(false)}
+          isDarkMode={isDarkMode}
+        />
+      )}
+      {isCommandPaletteOpen && (
+        <CommandPalette
+          user={currentUser}
+          leads={leads.filter(l => !l.isDeleted)}
+          deals={deals.filter(d => !d.isDeleted)}
+          tasks={tasks}
+          openHouses={openHouses.filter(o => !o.isDeleted)}
+          documents={documents}
+          folders={folders}
+          navItems={visibleNavItems}
+          currentLead={view === 'lead-detail' ? selectedLead || undefined : undefined}
+          onOpenLead={handleSelectLead}
+          onOpenRecord={handleOpenRecord}
+          onSetView={setView}
+          onAddTask={handleAddTask}
+          onAddNote={handleAddNote}
+          onClose={() => setIsCommandPaletteOpen(false)}
+          isDarkMode={isDarkMode}
+        />
+      )}
     </Layout>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
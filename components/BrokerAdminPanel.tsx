@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase.ts';
+import { formatPhone } from '../lib/phone.ts';
 import { User, UserRole } from '../types.ts';
 
 interface UserProfile {
@@ -333,7 +334,7 @@ const BrokerAdminPanel: React.FC<BrokerAdminPanelProps> = ({
                           </p>
                           {agent.phone && (
                             <p className={`text-xs font-medium ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
-                              {agent.phone}
+                              {formatPhone(agent.phone)}
                             </p>
                           )}
                         </div>
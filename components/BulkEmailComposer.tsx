@@ -1,6 +1,10 @@
 import React, { useState, useMemo } from 'react';
-import { Lead } from '../types.ts';
+import { CustomFieldDefinition, Lead, SmartList } from '../types.ts';
 import { supabase } from '../lib/supabase.ts';
+import { smartListService } from '../services/smartListService.ts';
+import { customFieldService } from '../services/customFieldService.ts';
+import { compileLeadQuery } from '../lib/leadQuery.ts';
+import { RelatedContact } from '../lib/relationships.ts';
 
 interface EmailTemplate {
   id: string;
@@ -17,14 +21,19 @@ interface EmailRecipient {
 }
 
 interface BulkEmailComposerProps {
+  brokerageId: string;
   leads: Lead[];
+  // Linked contacts per lead, for smart lists that filter on household or relationships
+  relatedByLead?: Map<string, RelatedContact[]>;
   onClose: () => void;
   onSuccess: () => void;
   isDarkMode: boolean;
 }
 
 const BulkEmailComposer: React.FC<BulkEmailComposerProps> = ({
+  brokerageId,
   leads,
+  relatedByLead = new Map(),
   onClose,
   onSuccess,
   isDarkMode
@@ -38,10 +47,15 @@ const BulkEmailComposer: React.FC<BulkEmailComposerProps> = ({
   const [body, setBody] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [showTemplates, setShowTemplates] = useState(false);
+  const [smartLists, setSmartLists] = useState<SmartList[]>([]);
+  const [smartListId, setSmartListId] = useState('');
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
 
   React.useEffect(() => {
     loadTemplates();
-  }, []);
+    smartListService.getLists(brokerageId).then(setSmartLists);
+    customFieldService.getDefinitions(brokerageId).then(setCustomFields);
+  }, [brokerageId]);
 
   const loadTemplates = async () => {
     try {
@@ -93,6 +107,21 @@ const BulkEmailComposer: React.FC<BulkEmailComposerProps> = ({
 
   const clearAll = () => {
     setSelectedLeadIds(new Set());
+    setSmartListId('');
+  };
+
+  // Replaces the selection with every emailable lead in the smart list
+  const selectSmartList = (listId: string) => {
+    setSmartListId(listId);
+    const list = smartLists.find(l => l.id === listId);
+    if (!list) return;
+    const compiled = compileLeadQuery(list.query, customFields);
+    if (!compiled.ok) {
+      console.error(`Smart list "${list.name}" has an invalid query:`, compiled.error);
+      return;
+    }
+    const now = new Date();
+    setSelectedLeadIds(new Set(leads.filter(l => !l.isDeleted && l.email && compiled.matches(l, now, relatedByLead.get(l.id))).map(l => l.id)));
   };
 
   const handleTemplateSelect = (template: EmailTemplate) => {
@@ -215,6 +244,23 @@ const BulkEmailComposer: React.FC<BulkEmailComposerProps> = ({
                 />
                 <i className={`fas fa-search absolute left-4 top-1/2 -translate-y-1/2 text-sm ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`} />
               </div>
+              {smartLists.length > 0 && (
+                <div className="space-y-2">
+                  <label className={`text-xs font-black uppercase tracking-widest ml-1 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                    Recipients From Smart List
+                  </label>
+                  <select
+                    value={smartListId}
+                    onChange={(e) => selectSmartList(e.target.value)}
+                    className={`w-full px-4 py-3 rounded-2xl border font-bold text-sm outline-none transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white focus:border-blue-500' : 'bg-slate-50 border-slate-200 focus:bg-white focus:border-blue-500'}`}
+                  >
+                    <option value="">Choose a list...</option>
+                    {smartLists.map(list => (
+                      <option key={list.id} value={list.id}>{list.name}{list.isShared ? ' (shared)' : ''}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="space-y-2">
                 <label className={`text-xs font-black uppercase tracking-widest ml-1 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
                   Add Manual Emails
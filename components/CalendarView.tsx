@@ -1,5 +1,8 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Lead, Task, User } from '../types.ts';
+import { isValidRRule, describeRRule } from '../lib/recurrence.ts';
+import RecurrenceSelect from './RecurrenceSelect.tsx';
+import { FocusRequest } from '../lib/commandPalette.ts';
 
 interface CalendarViewProps {
   leads: Lead[];
@@ -10,12 +13,16 @@ interface CalendarViewProps {
   onDeleteTask?: (id: string) => void;
   onUpdateLead?: (lead: Lead) => void;
   user?: User;
+  // Sent by the command palette; its id is the view mode to switch to
+  focus?: FocusRequest;
   isDarkMode?: boolean;
 }
 
 type EventCategory = 'APPOINTMENT' | 'TASK' | 'REMINDER' | 'BIRTHDAY' | 'WEDDING_ANNIVERSARY' | 'HOME_ANNIVERSARY';
 type ViewMode = 'MONTH' | 'WEEK' | 'DAY';
 
+const VIEW_MODES: ViewMode[] = ['MONTH', 'WEEK', 'DAY'];
+
 interface UnifiedEvent {
   id: string;
   category: EventCategory;
@@ -26,6 +33,7 @@ interface UnifiedEvent {
   priority: 'LOW' | 'MEDIUM' | 'HIGH';
   leadId?: string;
   isCompleted?: boolean;
+  recurrenceRule?: string;
 }
 
 const MOCKED_TODAY = new Date('2026-01-06T09:00:00');
@@ -51,6 +59,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
   onUpdateTask, 
   onDeleteTask, 
   user, 
+  focus,
   isDarkMode 
 }) => {
   const [currentDate, setCurrentDate] = useState(new Date(MOCKED_TODAY));
@@ -82,9 +91,15 @@ const CalendarView: React.FC<CalendarViewProps> = ({
     startTime: '10:00',
     endTime: '11:00',
     priority: 'MEDIUM' as 'LOW' | 'MEDIUM' | 'HIGH',
-    leadId: ''
+    leadId: '',
+    recurrenceRule: ''
   });
 
+  useEffect(() => {
+    const mode = VIEW_MODES.find(m => m === focus?.id);
+    if (mode) setViewMode(mode);
+  }, [focus?.at]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (monthPickerRef.current && !monthPickerRef.current.contains(event.target as Node)) {
@@ -118,7 +133,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
         end,
         priority: t.priority,
         leadId: t.leadId,
-        isCompleted: t.isCompleted
+        isCompleted: t.isCompleted,
+        recurrenceRule: t.recurrenceRule
       });
     });
 
@@ -241,7 +257,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
       startTime: '10:00',
       endTime: '11:00',
       priority: 'MEDIUM',
-      leadId: ''
+      leadId: '',
+      recurrenceRule: ''
     });
     setSelectedEventId(null);
     setIsCreateModalOpen(true);
@@ -265,7 +282,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
       startTime: getLocalTimeString(event.start),
       endTime: getLocalTimeString(event.end),
       priority: event.priority,
-      leadId: event.leadId || ''
+      leadId: event.leadId || '',
+      recurrenceRule: event.recurrenceRule || ''
     });
     setSelectedEventId(null);
     setIsCreateModalOpen(true);
@@ -274,6 +292,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title.trim()) return;
+    if (formData.recurrenceRule && !isValidRRule(formData.recurrenceRule)) return;
 
     const startIso = new Date(`${formData.date}T${formData.startTime}:00`).toISOString();
     const endIso = new Date(`${formData.date}T${formData.endTime}:00`).toISOString();
@@ -287,7 +306,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
           dueDate: startIso,
           endDate: endIso,
           priority: formData.priority,
-          leadId: formData.leadId || undefined
+          leadId: formData.leadId || undefined,
+          recurrenceRule: formData.recurrenceRule || undefined
         });
         addNotification("Event updated.");
       }
@@ -302,7 +322,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
         dueDate: startIso,
         endDate: endIso,
         isCompleted: false,
-        priority: formData.priority
+        priority: formData.priority,
+        recurrenceRule: formData.recurrenceRule || undefined
       });
       addNotification(`${formCategory} saved.`);
     }
@@ -657,6 +678,11 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                        <input type="time" value={formData.endTime} onChange={e => setFormData({...formData, endTime: e.target.value})} className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl px-6 py-5 font-bold text-lg outline-none" />
                     </div>
                  </div>
+                 <RecurrenceSelect
+                    value={formData.recurrenceRule}
+                    onChange={rule => setFormData({...formData, recurrenceRule: rule})}
+                    isDarkMode={isDarkMode}
+                 />
                  <div className="flex gap-4 pt-4">
                     <button type="button" onClick={() => setIsCreateModalOpen(false)} className="flex-1 py-6 bg-slate-100 dark:bg-slate-800 text-slate-500 rounded-[1.5rem] font-black uppercase text-[11px] tracking-widest hover:bg-slate-200 transition-all">Discard</button>
                     <button type="submit" className="flex-[2] py-6 bg-indigo-600 text-white rounded-[1.5rem] font-black uppercase text-[11px] tracking-widest shadow-xl hover:bg-indigo-700 transition-all">Save Event</button>
@@ -678,8 +704,17 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                     <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Schedule</span>
                     <span className="font-black text-[13px]">{currentEvent?.start.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'})}</span>
                  </div>
+                 {currentEvent?.recurrenceRule && (
+                   <div className="flex items-center justify-between p-6 bg-slate-50 dark:bg-slate-800 rounded-3xl">
+                      <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Repeats</span>
+                      <span className="font-black text-[13px]">{describeRRule(currentEvent.recurrenceRule)}</span>
+                   </div>
+                 )}
               </div>
               <div className="grid grid-cols-2 gap-4">
+                 {currentEvent?.category === 'TASK' && !currentEvent.isCompleted && onUpdateTask && (
+                   <button onClick={() => { onUpdateTask(currentEvent.id.replace('task-', ''), { isCompleted: true }); addNotification(currentEvent.recurrenceRule ? 'Completed. Next occurrence scheduled.' : 'Task completed.'); setSelectedEventId(null); }} className="col-span-2 py-5 bg-emerald-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest shadow-lg active:scale-95 transition-transform">Mark Complete</button>
+                 )}
                  {!['BIRTHDAY', 'WEDDING_ANNIVERSARY', 'HOME_ANNIVERSARY'].includes(currentEvent?.category || '') && (
                    <button onClick={() => handleOpenEdit(selectedEventId!)} className="py-5 bg-indigo-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest shadow-lg active:scale-95 transition-transform">Edit</button>
                  )}
@@ -0,0 +1,370 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Deal, Lead, OpenHouse, SharedDocument, SharedFolder, Task, User, UserRole } from '../types.ts';
+import { NavItemConfig } from '../App.tsx';
+import {
+  LEAD_COMMANDS,
+  LeadCommandType,
+  PaletteItem,
+  loadRecentKeys,
+  parseLeadCommand,
+  rankItems,
+  rememberRecentKey
+} from '../lib/commandPalette.ts';
+
+interface CommandPaletteProps {
+  user: User;
+  leads: Lead[];
+  deals: Deal[];
+  tasks: Task[];
+  openHouses: OpenHouse[];
+  documents: SharedDocument[];
+  folders: SharedFolder[];
+  navItems: NavItemConfig[];
+  // The lead on screen, which lead commands apply to without asking
+  currentLead?: Lead;
+  onOpenLead: (lead: Lead) => void;
+  onOpenRecord: (view: string, id: string) => void;
+  onSetView: (view: string) => void;
+  onAddTask: (task: Task) => void;
+  onAddNote: (leadId: string, content: string) => void;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+const TZ = 'America/Los_Angeles';
+
+const CALENDAR_MODES = ['MONTH', 'WEEK', 'DAY'];
+
+// The view that opens each kind of record
+const RECORD_VIEWS: Record<string, string> = {
+  DEAL: 'pipeline',
+  TASK: 'tasks',
+  OPEN_HOUSE: 'open-house',
+  DOCUMENT: 'documents',
+};
+
+const KIND_LABELS: Record<string, string> = {
+  LEAD: 'Contact',
+  DEAL: 'Deal',
+  TASK: 'Task',
+  OPEN_HOUSE: 'Open House',
+  DOCUMENT: 'Document',
+  VIEW: 'Go to',
+  COMMAND: 'Command',
+};
+
+const getLAToday = () => {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: TZ, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+  user,
+  leads,
+  deals,
+  tasks,
+  openHouses,
+  documents,
+  folders,
+  navItems,
+  currentLead,
+  onOpenLead,
+  onOpenRecord,
+  onSetView,
+  onAddTask,
+  onAddNote,
+  onClose,
+  isDarkMode
+}) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [recentKeys, setRecentKeys] = useState<string[]>(() => loadRecentKeys(user.id));
+  // A lead command waiting for its task title or note text
+  const [pending, setPending] = useState<{ type: LeadCommandType; lead: Lead } | null>(null);
+  const [argument, setArgument] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const leadName = (lead: Lead) => `${lead.firstName} ${lead.lastName}`.trim();
+
+  const leadItems = useMemo<PaletteItem[]>(() => leads.map(l => ({
+    key: `LEAD:${l.id}`,
+    kind: 'LEAD',
+    id: l.id,
+    title: leadName(l) || l.email || l.phone || 'Unnamed contact',
+    subtitle: [l.email, l.phone].filter(Boolean).join(' · '),
+    icon: 'fa-user',
+    keywords: [l.email, l.phone].filter(Boolean).join(' '),
+  })), [leads]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const isAdmin = user.role === UserRole.BROKER;
+    const canSee = (sharedWithAgentId?: string) => isAdmin || !sharedWithAgentId || sharedWithAgentId === user.id;
+    const visibleFolders = new Map<string, SharedFolder>(folders.filter(f => !f.isDeleted && canSee(f.sharedWithAgentId)).map((f): [string, SharedFolder] => [f.id, f]));
+
+    const records: PaletteItem[] = [
+      ...deals.map((d): PaletteItem => ({
+        key: `DEAL:${d.id}`,
+        kind: 'DEAL',
+        id: d.id,
+        title: d.address || d.leadName,
+        subtitle: `${d.leadName} · ${d.status}`,
+        icon: 'fa-handshake',
+        keywords: [d.leadName, d.escrowFileNumber].filter(Boolean).join(' '),
+      })),
+      ...tasks.filter(t => !t.isCompleted).map((t): PaletteItem => ({
+        key: `TASK:${t.id}`,
+        kind: 'TASK',
+        id: t.id,
+        title: t.title,
+        subtitle: `Due ${new Date(t.dueDate).toLocaleDateString('en-US', { timeZone: TZ, month: 'short', day: 'numeric' })}`,
+        icon: 'fa-check-circle',
+      })),
+      ...openHouses.map((o): PaletteItem => ({
+        key: `OPEN_HOUSE:${o.id}`,
+        kind: 'OPEN_HOUSE',
+        id: o.id,
+        title: o.address,
+        subtitle: `${o.date} · ${o.startTime} · ${o.assignedAgentName}`,
+        icon: 'fa-house-flag',
+      })),
+      ...documents
+        .filter(doc => !doc.isDeleted && canSee(doc.sharedWithAgentId) && visibleFolders.has(doc.folderId))
+        .map((doc): PaletteItem => ({
+          key: `DOCUMENT:${doc.id}`,
+          kind: 'DOCUMENT',
+          id: doc.id,
+          title: doc.name,
+          subtitle: visibleFolders.get(doc.folderId)?.name,
+          icon: 'fa-file-lines',
+        })),
+    ];
+
+    const views: PaletteItem[] = navItems.map(item => ({
+      key: `VIEW:${item.id}`,
+      kind: 'VIEW',
+      id: item.id,
+      title: `Go to ${item.label}`,
+      icon: item.icon,
+    }));
+
+    const commands: PaletteItem[] = [
+      ...CALENDAR_MODES.map((mode): PaletteItem => ({
+        key: `COMMAND:CALENDAR_${mode}`,
+        kind: 'COMMAND',
+        id: `CALENDAR_${mode}`,
+        title: `Switch to calendar ${mode.toLowerCase()} view`,
+        icon: 'fa-calendar-days',
+      })),
+      ...LEAD_COMMANDS.map((command): PaletteItem => ({
+        key: `COMMAND:${command.type}`,
+        kind: 'COMMAND',
+        id: command.type,
+        title: currentLead ? `${command.label} ${leadName(currentLead)}` : `${command.label}…`,
+        icon: command.icon,
+      })),
+    ];
+
+    return [...leadItems, ...records, ...views, ...commands];
+  }, [leadItems, deals, tasks, openHouses, documents, folders, navItems, currentLead, user]);
+
+  const leadCommand = pending ? null : parseLeadCommand(query);
+
+  const results = useMemo<PaletteItem[]>(() => {
+    if (!leadCommand) return rankItems(query, items, recentKeys);
+    // "new task for jim" lists the matching leads; with no name yet, the lead on screen and recent leads
+    const matches = rankItems(leadCommand.leadQuery, leadItems, recentKeys, 8);
+    if (leadCommand.leadQuery || !currentLead) return matches;
+    return [
+      ...leadItems.filter(item => item.id === currentLead.id),
+      ...matches.filter(item => item.id !== currentLead.id),
+    ];
+  }, [query, items, leadItems, recentKeys, leadCommand?.type, leadCommand?.leadQuery, currentLead]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [pending]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const remember = (key: string) => setRecentKeys(rememberRecentKey(user.id, key));
+
+  const startLeadCommand = (type: LeadCommandType, lead: Lead) => {
+    setPending({ type, lead });
+    setArgument('');
+  };
+
+  const handleSelect = (item: PaletteItem) => {
+    if (leadCommand) {
+      const lead = leads.find(l => l.id === item.id);
+      if (lead) startLeadCommand(leadCommand.type, lead);
+      return;
+    }
+
+    if (item.kind === 'COMMAND') {
+      const command = LEAD_COMMANDS.find(c => c.type === item.id);
+      if (command) {
+        // Without a lead on screen, ask for one by typing the command out
+        if (currentLead) startLeadCommand(command.type, currentLead);
+        else setQuery(command.prefix);
+        return;
+      }
+      remember(item.key);
+      onOpenRecord('calendar', item.id.replace('CALENDAR_', ''));
+      onClose();
+      return;
+    }
+
+    remember(item.key);
+    if (item.kind === 'LEAD') {
+      const lead = leads.find(l => l.id === item.id);
+      if (lead) onOpenLead(lead);
+    } else if (item.kind === 'VIEW') {
+      onSetView(item.id);
+    } else {
+      onOpenRecord(RECORD_VIEWS[item.kind], item.id);
+    }
+    onClose();
+  };
+
+  const handleSubmitArgument = () => {
+    const text = argument.trim();
+    if (!pending || !text) return;
+
+    if (pending.type === 'NEW_TASK') {
+      const date = getLAToday();
+      onAddTask({
+        id: `task_${Date.now()}`,
+        brokerageId: user.brokerageId,
+        assignedUserId: user.id,
+        leadId: pending.lead.id,
+        title: text,
+        description: '',
+        dueDate: new Date(`${date}T10:00:00`).toISOString(),
+        endDate: new Date(`${date}T11:00:00`).toISOString(),
+        isCompleted: false,
+        priority: 'MEDIUM'
+      });
+    } else {
+      onAddNote(pending.lead.id, text);
+    }
+    remember(`LEAD:${pending.lead.id}`);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      if (pending) setPending(null);
+      else onClose();
+      return;
+    }
+
+    if (pending) {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        handleSubmitArgument();
+      }
+      return;
+    }
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) handleSelect(results[activeIndex]);
+    }
+  };
+
+  const pendingCommand = pending ? LEAD_COMMANDS.find(c => c.type === pending.type) : undefined;
+  const commandLabel = leadCommand ? LEAD_COMMANDS.find(c => c.type === leadCommand.type) : undefined;
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-start justify-center p-4 pt-[12vh]">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}></div>
+      <div className={`rounded-[2rem] shadow-2xl border w-full max-w-2xl flex flex-col relative z-10 overflow-hidden animate-in zoom-in-95 duration-200 text-[12px] ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className={`flex items-center px-6 py-5 border-b space-x-4 ${isDarkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+          <i className={`fas ${pendingCommand ? pendingCommand.icon : 'fa-magnifying-glass'} text-slate-400 text-base`}></i>
+          {pending && pendingCommand && (
+            <span className="shrink-0 px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600 border border-indigo-100">
+              {pendingCommand.label} {leadName(pending.lead)}
+            </span>
+          )}
+          <input
+            ref={inputRef}
+            value={pending ? argument : query}
+            onChange={e => pending ? setArgument(e.target.value) : setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={pending ? (pending.type === 'NEW_TASK' ? 'Task title, then Enter' : 'Note, then Enter') : 'Jump to a contact, deal, task, open house or document…'}
+            className={`flex-1 bg-transparent outline-none text-base font-bold ${isDarkMode ? 'text-white placeholder:text-slate-600' : 'text-slate-800 placeholder:text-slate-400'}`}
+          />
+          <kbd className={`px-2 py-1 rounded-lg border text-[10px] font-black ${isDarkMode ? 'border-slate-700 text-slate-500' : 'border-slate-200 text-slate-400'}`}>ESC</kbd>
+        </div>
+
+        {!pending && (
+          <div ref={listRef} className="max-h-[50vh] overflow-y-auto p-2">
+            {!query.trim() && results.length > 0 && (
+              <p className="px-4 pt-2 pb-1 text-[9px] font-black text-slate-400 uppercase tracking-widest">Recent</p>
+            )}
+            {results.map((item, index) => {
+              const isActive = index === activeIndex;
+              return (
+                <button
+                  key={item.key}
+                  data-index={index}
+                  onClick={() => handleSelect(item)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={`w-full text-left px-4 py-3 rounded-xl flex items-center space-x-4 transition-colors ${isActive ? (isDarkMode ? 'bg-indigo-500/20' : 'bg-indigo-50') : ''}`}
+                >
+                  <div className={`w-9 h-9 rounded-xl flex items-center justify-center shrink-0 ${isActive ? 'bg-indigo-600 text-white' : (isDarkMode ? 'bg-slate-800 text-slate-400' : 'bg-slate-100 text-slate-500')}`}>
+                    <i className={`fas ${commandLabel ? commandLabel.icon : item.icon}`}></i>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className={`font-black truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>
+                      {commandLabel ? `${commandLabel.label} ${item.title}` : item.title}
+                    </p>
+                    {item.subtitle && <p className="text-[11px] font-bold text-slate-400 truncate">{item.subtitle}</p>}
+                  </div>
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0">
+                    {commandLabel ? 'Command' : KIND_LABELS[item.kind]}
+                  </span>
+                </button>
+              );
+            })}
+            {results.length === 0 && (
+              <p className="p-10 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                {query.trim() ? 'No matches' : 'Type to search, or try "new task for" a contact'}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className={`px-6 py-3 border-t flex items-center space-x-5 text-[9px] font-black text-slate-400 uppercase tracking-widest ${isDarkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+          {pending ? (
+            <>
+              <span><kbd>Enter</kbd> Save</span>
+              <span><kbd>Esc</kbd> Back</span>
+            </>
+          ) : (
+            <>
+              <span><kbd>↑↓</kbd> Move</span>
+              <span><kbd>Enter</kbd> Open</span>
+              <span><kbd>Esc</kbd> Close</span>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
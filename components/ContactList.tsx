@@ -1,16 +1,34 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Lead, LeadStatus, LeadTemperature } from '../types.ts';
+import { AssignmentOrigin, CustomFieldDefinition, Lead, LeadRelationshipType, LeadStatus, LeadTemperature, SearchResult, User } from '../types.ts';
+import DuplicateWarning from './DuplicateWarning.tsx';
+import ImportWizard from './ImportWizard.tsx';
+import { XLSX_MIME_TYPE, xlsxBlob } from '../lib/xlsx.ts';
+import { VCARD_MIME_TYPE, VCardVersion, leadsToVCard } from '../lib/vcard.ts';
+import { CONTACT_LAYOUTS, ContactLayout } from '../lib/contactLayouts.ts';
+import { toCsv } from '../lib/csv.ts';
+import { searchService } from '../services/searchService.ts';
+import SearchSnippet from './SearchSnippet.tsx';
+import { fieldsFor, formatCustomFieldValue, toXlsxValue, xlsxCellType } from '../lib/customFields.ts';
+import { RELATIONSHIP_TYPES, RelatedContact, RelatedLeadDraft, householdOf, newRelatedLead } from '../lib/relationships.ts';
+import { toTelUri } from '../lib/phone.ts';
 
 interface ContactListProps {
+  brokerageId: string;
+  currentUser: User;
   leads: Lead[];
   onSelectLead: (lead: Lead) => void;
   onUpdateLead: (lead: Lead) => void;
-  onAddLeads: (newLeads: Lead[]) => void;
+  onAddLeads: (newLeads: Lead[], origin: AssignmentOrigin) => Promise<Lead[]> | void;
   onBulkUpdateLeads?: (updatedLeads: Lead[]) => void;
   availableSources: string[];
   availableTags: string[];
   onUpdateSources: (sources: string[]) => void;
   onUpdateTags: (tags: string[]) => void;
+  duplicateCount?: number;
+  onReviewDuplicates?: () => void;
+  customFields?: CustomFieldDefinition[];
+  relatedByLead?: Map<string, RelatedContact[]>;
+  onAddRelatedLeads?: (drafts: RelatedLeadDraft[]) => Promise<unknown> | void;
   isDarkMode?: boolean;
 }
 
@@ -29,10 +47,11 @@ const sortLabels: Record<SortOption, string> = {
   PAST_CLIENTS_FIRST: 'Past Clients First'
 };
 
-const RELATIONSHIP_OPTIONS = ['Spouse', 'Sister', 'Brother', 'Friend', 'Partner', 'Other'];
 
 const INITIAL_COLUMN_ORDER: ColumnId[] = ['selection', 'name', 'email', 'phone', 'address', 'secondary', 'tags', 'source', 'actions'];
 
+const SEARCH_DEBOUNCE_MS = 250;
+
 const columnConfigs: Record<ColumnId, { label: string; align: 'left' | 'right' | 'center' }> = {
   selection: { label: '', align: 'center' },
   name: { label: 'Contact Name', align: 'left' },
@@ -46,6 +65,8 @@ const columnConfigs: Record<ColumnId, { label: string; align: 'left' | 'right' |
 };
 
 const ContactList: React.FC<ContactListProps> = ({ 
+  brokerageId,
+  currentUser,
   leads, 
   onSelectLead, 
   onUpdateLead,
@@ -55,15 +76,22 @@ const ContactList: React.FC<ContactListProps> = ({
   availableTags,
   onUpdateSources,
   onUpdateTags,
+  duplicateCount = 0,
+  onReviewDuplicates,
+  customFields = [],
+  relatedByLead = new Map(),
+  onAddRelatedLeads,
   isDarkMode
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [serverHits, setServerHits] = useState<Map<string, SearchResult>>(new Map());
   const [selectedSources, setSelectedSources] = useState<string[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [sortBy, setSortBy] = useState<SortOption>('NAME_ASC');
   const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isImportWizardOpen, setIsImportWizardOpen] = useState(false);
   
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
@@ -90,7 +118,6 @@ const ContactList: React.FC<ContactListProps> = ({
   const [overColumnIdx, setOverColumnIdx] = useState<number | null>(null);
 
   const topRef = useRef<HTMLDivElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const emptyLead: Partial<Lead> = {
     firstName: '',
@@ -106,16 +133,14 @@ const ContactList: React.FC<ContactListProps> = ({
     budget: 0,
     dob: '',
     weddingAnniversary: '',
-    homeAnniversary: '',
-    spouseFirstName: '',
-    spouseLastName: '',
-    spouseEmail: '',
-    spousePhone: '',
-    spouseDob: '',
-    secondaryContactRelationship: 'Spouse'
+    homeAnniversary: ''
   };
 
+  const emptyHousehold = { type: 'SPOUSE' as LeadRelationshipType, firstName: '', lastName: '', email: '', phone: '', dob: '' };
+
   const [leadFormData, setLeadFormData] = useState<Partial<Lead>>(emptyLead);
+  // Second person entered with a new contact; saved as a linked contact of their own
+  const [householdDraft, setHouseholdDraft] = useState(emptyHousehold);
 
   // Stats calculation
   const stats = useMemo(() => {
@@ -216,19 +241,36 @@ const ContactList: React.FC<ContactListProps> = ({
     }
   };
 
+  // Full-text search on the server also finds leads by note content and phone digits
+  useEffect(() => {
+    const term = searchTerm.trim();
+    if (term.length < 2) {
+      setServerHits(new Map());
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const results = await searchService.search(term, ['LEAD', 'NOTE'], 100);
+      if (cancelled) return;
+      const hits = new Map<string, SearchResult>();
+      results.forEach(r => { if (r.leadId && !hits.has(r.leadId)) hits.set(r.leadId, r); });
+      setServerHits(hits);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => { cancelled = true; window.clearTimeout(timer); };
+  }, [searchTerm]);
+
   const filteredAndSortedLeads = useMemo(() => {
     return leads
       .filter(lead => {
         const fullName = `${lead.firstName} ${lead.lastName}`.toLowerCase();
         const address = (lead.propertyAddress || '').toLowerCase();
-        const spouseName = `${lead.spouseFirstName || ''} ${lead.spouseLastName || ''}`.toLowerCase();
-        const spouseEmail = (lead.spouseEmail || '').toLowerCase();
+        const household = householdOf(relatedByLead.get(lead.id)).map(r => `${r.lead.firstName} ${r.lead.lastName} ${r.lead.email || ''}`).join(' ').toLowerCase();
         
         const matchesSearch = fullName.includes(searchTerm.toLowerCase()) || 
                              lead.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
                              address.includes(searchTerm.toLowerCase()) ||
-                             spouseName.includes(searchTerm.toLowerCase()) ||
-                             spouseEmail.includes(searchTerm.toLowerCase());
+                             household.includes(searchTerm.toLowerCase()) ||
+                             serverHits.has(lead.id);
         
         const matchesSource = selectedSources.length === 0 || selectedSources.includes(lead.source);
         const matchesTag = selectedTags.length === 0 || (lead.tags && selectedTags.some(tag => lead.tags.includes(tag)));
@@ -266,7 +308,7 @@ const ContactList: React.FC<ContactListProps> = ({
           default: return 0;
         }
       });
-  }, [leads, searchTerm, selectedSources, selectedTags, sortBy]);
+  }, [leads, searchTerm, serverHits, relatedByLead, selectedSources, selectedTags, sortBy]);
 
   const totalPages = Math.ceil(filteredAndSortedLeads.length / itemsPerPage);
   const paginatedLeads = filteredAndSortedLeads.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
@@ -344,8 +386,9 @@ const ContactList: React.FC<ContactListProps> = ({
     setIsTagDropdownOpen(false);
   };
 
-  const handleEditSubmit = (e: React.FormEvent) => {
+  const handleEditSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setIsEditModalOpen(false);
     if (editingLead) {
       onUpdateLead({ 
         ...editingLead, 
@@ -364,9 +407,12 @@ const ContactList: React.FC<ContactListProps> = ({
         brokerageId: 'brk_7721',
         assignedAgentId: 'agent_1'
       };
-      onAddLeads([newContact]);
+      const created = await onAddLeads([newContact], 'MANUAL');
+      if (created && created[0] && onAddRelatedLeads && householdDraft.firstName.trim()) {
+        const { type, ...person } = householdDraft;
+        onAddRelatedLeads([{ lead: created[0], related: newRelatedLead(created[0], person), isNew: true, type }]);
+      }
     }
-    setIsEditModalOpen(false);
   };
 
   const handleColumnDragStart = (e: React.DragEvent, index: number) => {
@@ -406,8 +452,8 @@ const ContactList: React.FC<ContactListProps> = ({
   };
 
   // Export Logic
-  const downloadBlob = (content: string, fileName: string, mimeType: string) => {
-    const blob = new Blob([content], { type: mimeType });
+  const downloadBlob = (content: string | Blob, fileName: string, mimeType: string) => {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
@@ -418,18 +464,24 @@ const ContactList: React.FC<ContactListProps> = ({
     document.body.removeChild(link);
   };
 
+  const leadCustomFields = fieldsFor(customFields, 'lead');
+
+  const householdNames = (lead: Lead) =>
+    householdOf(relatedByLead.get(lead.id)).map(r => `${r.lead.firstName} ${r.lead.lastName}`).join('; ');
+
   const handleExportCSV = () => {
-    const headers = ['First Name', 'Last Name', 'Email', 'Phone', 'Address', 'Secondary Contact', 'Tags', 'Source', 'Date Added'];
+    const headers = ['First Name', 'Last Name', 'Email', 'Phone', 'Address', 'Secondary Contact', 'Tags', 'Source', 'Date Added', ...leadCustomFields.map(d => d.label)];
     const rows = filteredAndSortedLeads.map(l => [
       l.firstName,
       l.lastName,
       l.email,
       l.phone,
       l.propertyAddress || '',
-      l.spouseFirstName ? `${l.spouseFirstName} ${l.spouseLastName}` : '',
+      householdNames(l),
       (l.tags || []).join(';'),
       l.source,
-      new Date(l.createdAt).toLocaleDateString()
+      new Date(l.createdAt).toLocaleDateString(),
+      ...leadCustomFields.map(d => formatCustomFieldValue(d, l.customFields?.[d.key]))
     ]);
 
     const csvContent = [headers.join(','), ...rows.map(r => r.map(c => `"${c}"`).join(','))].join('\n');
@@ -438,86 +490,45 @@ const ContactList: React.FC<ContactListProps> = ({
   };
 
   const handleExportExcel = () => {
-    const headers = ['First Name', 'Last Name', 'Email', 'Phone', 'Address', 'Secondary Contact', 'Tags', 'Source', 'Date Added'];
-    const rows = filteredAndSortedLeads.map(l => `
-      <tr>
-        <td>${l.firstName}</td>
-        <td>${l.lastName}</td>
-        <td>${l.email}</td>
-        <td>${l.phone}</td>
-        <td>${l.propertyAddress || ''}</td>
-        <td>${l.spouseFirstName ? `${l.spouseFirstName} ${l.spouseLastName}` : ''}</td>
-        <td>${(l.tags || []).join(', ')}</td>
-        <td>${l.source}</td>
-        <td>${new Date(l.createdAt).toLocaleDateString()}</td>
-      </tr>`).join('');
-
-    const excelContent = `
-      <html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel" xmlns="http://www.w3.org/TR/REC-html40">
-      <head><meta charset="UTF-8"></head>
-      <body>
-        <table border="1">
-          <tr style="background-color:#f3f4f6; font-weight:bold;">${headers.map(h => `<td>${h}</td>`).join('')}</tr>
-          ${rows}
-        </table>
-      </body>
-      </html>
-    `;
-    downloadBlob(excelContent, `contacts_export_${new Date().toISOString().split('T')[0]}.xls`, 'application/vnd.ms-excel');
+    const workbook = xlsxBlob([{
+      name: 'Contacts',
+      columns: [
+        { header: 'First Name' },
+        { header: 'Last Name' },
+        { header: 'Email' },
+        { header: 'Phone' },
+        { header: 'Address' },
+        { header: 'Secondary Contact' },
+        { header: 'Tags' },
+        { header: 'Source' },
+        { header: 'Date Added', type: 'date' },
+        ...leadCustomFields.map(d => ({ header: d.label, type: xlsxCellType(d.type) }))
+      ],
+      rows: filteredAndSortedLeads.map(l => [
+        l.firstName,
+        l.lastName,
+        l.email,
+        l.phone,
+        l.propertyAddress || '',
+        householdNames(l),
+        (l.tags || []).join('; '),
+        l.source,
+        l.createdAt,
+        ...leadCustomFields.map(d => toXlsxValue(d, l.customFields?.[d.key]))
+      ])
+    }]);
+    downloadBlob(workbook, `contacts_export_${new Date().toISOString().split('T')[0]}.xlsx`, XLSX_MIME_TYPE);
     setIsExportMenuOpen(false);
   };
 
-  const handleImportCSV = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const lines = text.split('\n');
-      const newLeads: Lead[] = [];
-      
-      const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, '').toLowerCase());
-      
-      for (let i = 1; i < lines.length; i++) {
-        if (!lines[i].trim()) continue;
-        const values = lines[i].split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(v => v.trim().replace(/"/g, ''));
-        const leadObj: any = {};
-        headers.forEach((h, idx) => {
-          const key = h.replace(/ /g, '');
-          leadObj[key] = values[idx];
-        });
-
-        const leadToAdd: Lead = {
-          id: `contact_imp_${Date.now()}_${i}`,
-          brokerageId: 'brk_7721',
-          assignedAgentId: 'agent_1',
-          firstName: leadObj.firstname || leadObj.name?.split(' ')[0] || 'Imported',
-          lastName: leadObj.lastname || leadObj.name?.split(' ').slice(1).join(' ') || 'Contact',
-          email: leadObj.email || `imported.${Date.now()}.${i}@example.com`,
-          phone: leadObj.phone || '000-000-0000',
-          status: LeadStatus.ACTIVE,
-          temperature: LeadTemperature.NORMAL,
-          source: leadObj.source || 'CSV Import',
-          tags: leadObj.tags ? leadObj.tags.split(';').map((t: string) => t.trim()) : ['Imported'],
-          propertyType: 'PRIMARY',
-          propertyAddress: leadObj.address || leadObj.propertyaddress || '',
-          budget: parseInt(leadObj.budget) || 0,
-          notes: [],
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          estimatedDealValue: 0
-        };
-        newLeads.push(leadToAdd);
-      }
-      
-      if (newLeads.length > 0) {
-        onAddLeads(newLeads);
-        alert(`Successfully imported ${newLeads.length} contacts.`);
-      }
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    };
-    reader.readAsText(file);
+  const handleExportVCard = (version: VCardVersion) => {
+    downloadBlob(leadsToVCard(filteredAndSortedLeads, version, relatedByLead), `contacts_${new Date().toISOString().split('T')[0]}.vcf`, VCARD_MIME_TYPE);
+    setIsExportMenuOpen(false);
+  };
+
+  const handleExportLayout = (layout: ContactLayout) => {
+    downloadBlob(toCsv(layout.fromLeads(filteredAndSortedLeads, relatedByLead)), `contacts_${layout.id}_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8;');
+    setIsExportMenuOpen(false);
   };
 
   const renderCell = (lead: Lead, columnId: ColumnId) => {
@@ -539,6 +550,7 @@ const ContactList: React.FC<ContactListProps> = ({
             <div className="w-11 h-11 rounded-xl bg-indigo-50 text-indigo-600 flex items-center justify-center text-sm font-black shadow-sm group-hover:scale-110 transition-transform">{lead.firstName[0]}{lead.lastName[0]}</div>
             <div className="flex flex-col">
               <span className={`text-lg font-bold ${isDarkMode ? 'text-slate-100' : 'text-slate-800'}`}>{lead.firstName} {lead.lastName}</span>
+              {serverHits.get(lead.id)?.kind === 'NOTE' && <SearchSnippet snippet={serverHits.get(lead.id)!.snippet} className="text-[11px] font-semibold text-slate-500 truncate max-w-[260px]" />}
             </div>
           </div>
         );
@@ -549,17 +561,18 @@ const ContactList: React.FC<ContactListProps> = ({
       case 'address':
         return <span className={`text-base font-semibold truncate block max-w-[250px] ${isDarkMode ? 'text-slate-400' : 'text-slate-400'}`}>{lead.propertyAddress || <span className="italic opacity-50">No address</span>}</span>;
       case 'secondary':
-        return lead.spouseFirstName ? (
+        const [member] = householdOf(relatedByLead.get(lead.id));
+        return member ? (
           <div className="flex items-center space-x-3">
             <div className="w-9 h-9 rounded-lg bg-indigo-50 flex items-center justify-center text-xs font-black text-indigo-400 shrink-0">
               <i className="fas fa-user-plus"></i>
             </div>
             <div className="flex flex-col min-w-0">
-              <span className={`text-base font-bold truncate ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{lead.spouseFirstName} {lead.spouseLastName}</span>
+              <span className={`text-base font-bold truncate ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{member.lead.firstName} {member.lead.lastName}</span>
               <div className="flex items-center space-x-2.5 mt-0.5">
-                <span className="text-[11px] font-black uppercase text-slate-400 tracking-tighter">{lead.secondaryContactRelationship}</span>
-                {lead.spouseEmail && <a href={`mailto:${lead.spouseEmail}`} className="text-indigo-400 hover:text-indigo-600 transition-colors"><i className="fas fa-envelope text-[10px]"></i></a>}
-                {lead.spousePhone && <a href={`tel:${lead.spousePhone}`} className="text-indigo-400 hover:text-indigo-600 transition-colors"><i className="fas fa-phone text-[10px]"></i></a>}
+                <span className="text-[11px] font-black uppercase text-slate-400 tracking-tighter">{member.label}</span>
+                {member.lead.email && <a href={`mailto:${member.lead.email}`} className="text-indigo-400 hover:text-indigo-600 transition-colors"><i className="fas fa-envelope text-[10px]"></i></a>}
+                {member.lead.phone && <a href={toTelUri(member.lead.phone)} className="text-indigo-400 hover:text-indigo-600 transition-colors"><i className="fas fa-phone text-[10px]"></i></a>}
               </div>
             </div>
           </div>
@@ -605,7 +618,7 @@ const ContactList: React.FC<ContactListProps> = ({
           <i className="fas fa-search absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 text-base"></i>
           <input 
             type="text" 
-            placeholder="Search by name, email, secondary contact or address..." 
+            placeholder="Search by name, email, phone, secondary contact, address or notes..." 
             value={searchTerm} 
             onChange={(e) => setSearchTerm(e.target.value)} 
             className={`w-full pl-12 pr-6 py-4 border rounded-2xl text-base focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all shadow-inner font-bold ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-100 text-slate-800'}`} 
@@ -615,13 +628,12 @@ const ContactList: React.FC<ContactListProps> = ({
         <div className="flex items-center space-x-3">
           <div className={`flex p-1.5 rounded-2xl border transition-colors ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-100 border-slate-200'}`}>
              <button 
-                onClick={() => fileInputRef.current?.click()}
+                onClick={() => setIsImportWizardOpen(true)}
                 className="w-12 h-12 flex items-center justify-center rounded-xl hover:bg-white text-slate-400 hover:text-indigo-600 transition-all shadow-sm"
-                title="Import Contacts (CSV)"
+                title="Import Contacts (CSV, Excel, vCard, Google or Outlook)"
              >
                 <i className="fas fa-upload"></i>
              </button>
-             <input type="file" ref={fileInputRef} className="hidden" accept=".csv" onChange={handleImportCSV} />
              
              <div className="relative">
                 <button 
@@ -635,16 +647,29 @@ const ContactList: React.FC<ContactListProps> = ({
                 {isExportMenuOpen && (
                   <>
                     <div className="fixed inset-0 z-[60]" onClick={() => setIsExportMenuOpen(false)}></div>
-                    <div className={`absolute right-0 mt-2 w-48 border rounded-2xl shadow-2xl z-[70] py-2 overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+                    <div className={`absolute right-0 mt-2 w-56 border rounded-2xl shadow-2xl z-[70] py-2 overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
                       <p className="px-4 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-50 dark:border-slate-700 mb-1">Select Format</p>
                       <button onClick={handleExportExcel} className={`w-full text-left px-5 py-3 transition-colors flex items-center space-x-3 group ${isDarkMode ? 'hover:bg-slate-700' : 'hover:bg-indigo-50'}`}>
                         <i className="fas fa-file-excel text-emerald-500 text-sm"></i>
-                        <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>Excel (.xls)</span>
+                        <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>Excel (.xlsx)</span>
                       </button>
                       <button onClick={handleExportCSV} className={`w-full text-left px-5 py-3 transition-colors flex items-center space-x-3 group ${isDarkMode ? 'hover:bg-slate-700' : 'hover:bg-indigo-50'}`}>
                         <i className="fas fa-file-csv text-blue-500 text-sm"></i>
                         <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>CSV (.csv)</span>
                       </button>
+                      <p className="px-4 pt-3 pb-2 text-[10px] font-black text-slate-400 uppercase tracking-widest border-t border-slate-50 dark:border-slate-700 mt-1">Phones &amp; Email Apps</p>
+                      {(['3.0', '4.0'] as VCardVersion[]).map(version => (
+                        <button key={version} onClick={() => handleExportVCard(version)} className={`w-full text-left px-5 py-3 transition-colors flex items-center space-x-3 group ${isDarkMode ? 'hover:bg-slate-700' : 'hover:bg-indigo-50'}`}>
+                          <i className="fas fa-address-card text-indigo-500 text-sm"></i>
+                          <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>vCard {version} (.vcf)</span>
+                        </button>
+                      ))}
+                      {CONTACT_LAYOUTS.map(layout => (
+                        <button key={layout.id} onClick={() => handleExportLayout(layout)} className={`w-full text-left px-5 py-3 transition-colors flex items-center space-x-3 group ${isDarkMode ? 'hover:bg-slate-700' : 'hover:bg-indigo-50'}`}>
+                          <i className={`${layout.id === 'google' ? 'fab fa-google text-[#4285F4]' : 'fab fa-microsoft text-sky-600'} text-sm`}></i>
+                          <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{layout.name} CSV</span>
+                        </button>
+                      ))}
                     </div>
                   </>
                 )}
@@ -679,7 +704,17 @@ const ContactList: React.FC<ContactListProps> = ({
             </button>
           )}
 
-          <button onClick={() => { setEditingLead(null); setLeadFormData(emptyLead); setIsEditModalOpen(true); }} className="flex items-center space-x-3 px-8 py-4 bg-indigo-600 text-white rounded-2xl text-base font-black uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-100 whitespace-nowrap"><i className="fas fa-plus"></i><span>New Contact</span></button>
+          {onReviewDuplicates && duplicateCount > 0 && (
+            <button
+              onClick={onReviewDuplicates}
+              className="flex items-center space-x-3 px-6 py-4 bg-amber-50 text-amber-600 border border-amber-200 rounded-2xl text-base font-black uppercase tracking-widest hover:bg-amber-100 transition-all shadow-sm whitespace-nowrap"
+              title="Review possible duplicates"
+            >
+              <i className="fas fa-clone"></i>
+              <span>Duplicates ({duplicateCount})</span>
+            </button>
+          )}
+          <button onClick={() => { setEditingLead(null); setLeadFormData(emptyLead); setHouseholdDraft(emptyHousehold); setIsEditModalOpen(true); }} className="flex items-center space-x-3 px-8 py-4 bg-indigo-600 text-white rounded-2xl text-base font-black uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-100 whitespace-nowrap"><i className="fas fa-plus"></i><span>New Contact</span></button>
         </div>
       </div>
 
@@ -1063,42 +1098,59 @@ const ContactList: React.FC<ContactListProps> = ({
                   <h4 className={`text-xl font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>Secondary Contact Details</h4>
                 </div>
 
-                <div className="grid grid-cols-3 gap-8">
-                  <div className="space-y-2.5">
-                    <label className="text-xs font-black text-slate-400 uppercase ml-1">Relationship</label>
-                    <select value={leadFormData.secondaryContactRelationship} onChange={e => setLeadFormData({...leadFormData, secondaryContactRelationship: e.target.value as any})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm cursor-pointer ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`}>
-                      {RELATIONSHIP_OPTIONS.map(opt => <option key={opt} value={opt} className={isDarkMode ? 'bg-slate-900 text-white' : ''}>{opt}</option>)}
-                    </select>
-                  </div>
-                  <div className="space-y-2.5">
-                    <label className="text-xs font-black text-slate-400 uppercase ml-1">First Name</label>
-                    <input type="text" value={leadFormData.spouseFirstName} onChange={e => setLeadFormData({...leadFormData, spouseFirstName: e.target.value})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
-                  </div>
-                  <div className="space-y-2.5">
-                    <label className="text-xs font-black text-slate-400 uppercase ml-1">Last Name</label>
-                    <input type="text" value={leadFormData.spouseLastName} onChange={e => setLeadFormData({...leadFormData, spouseLastName: e.target.value})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
-                  </div>
-                </div>
+                {editingLead ? (
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">
+                    {householdOf(relatedByLead.get(editingLead.id)).map(r => `${r.label}: ${r.lead.firstName} ${r.lead.lastName}`).join(' · ') || 'No linked contacts'} — manage relationships from the contact profile
+                  </p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-3 gap-8">
+                      <div className="space-y-2.5">
+                        <label className="text-xs font-black text-slate-400 uppercase ml-1">Relationship</label>
+                        <select value={householdDraft.type} onChange={e => setHouseholdDraft({...householdDraft, type: e.target.value as LeadRelationshipType})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm cursor-pointer ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`}>
+                          {RELATIONSHIP_TYPES.map(opt => <option key={opt.type} value={opt.type} className={isDarkMode ? 'bg-slate-900 text-white' : ''}>{opt.label}</option>)}
+                        </select>
+                      </div>
+                      <div className="space-y-2.5">
+                        <label className="text-xs font-black text-slate-400 uppercase ml-1">First Name</label>
+                        <input type="text" value={householdDraft.firstName} onChange={e => setHouseholdDraft({...householdDraft, firstName: e.target.value})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
+                      </div>
+                      <div className="space-y-2.5">
+                        <label className="text-xs font-black text-slate-400 uppercase ml-1">Last Name</label>
+                        <input type="text" value={householdDraft.lastName} onChange={e => setHouseholdDraft({...householdDraft, lastName: e.target.value})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder={leadFormData.lastName} />
+                      </div>
+                    </div>
 
-                <div className="grid grid-cols-2 gap-8">
-                  <div className="space-y-2.5">
-                    <label className="text-xs font-black text-slate-400 uppercase ml-1">Secondary Email</label>
-                    <input type="email" value={leadFormData.spouseEmail} onChange={e => setLeadFormData({...leadFormData, spouseEmail: e.target.value})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder="email@example.com" />
-                  </div>
-                  <div className="space-y-2.5">
-                    <label className="text-xs font-black text-slate-400 uppercase ml-1">Secondary Phone</label>
-                    <input type="tel" value={leadFormData.spousePhone} onChange={e => setLeadFormData({...leadFormData, spousePhone: formatPhone(e.target.value)})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder="(555) 000-0000" />
-                  </div>
-                </div>
+                    <div className="grid grid-cols-2 gap-8">
+                      <div className="space-y-2.5">
+                        <label className="text-xs font-black text-slate-400 uppercase ml-1">Secondary Email</label>
+                        <input type="email" value={householdDraft.email} onChange={e => setHouseholdDraft({...householdDraft, email: e.target.value})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder="email@example.com" />
+                      </div>
+                      <div className="space-y-2.5">
+                        <label className="text-xs font-black text-slate-400 uppercase ml-1">Secondary Phone</label>
+                        <input type="tel" value={householdDraft.phone} onChange={e => setHouseholdDraft({...householdDraft, phone: formatPhone(e.target.value)})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder="(555) 000-0000" />
+                      </div>
+                    </div>
 
-                <div className="grid grid-cols-3 gap-8">
-                  <div className="space-y-2.5">
-                    <label className="text-xs font-black text-slate-400 uppercase ml-1">Secondary Birthday</label>
-                    <input type="date" value={leadFormData.spouseDob} onChange={e => setLeadFormData({...leadFormData, spouseDob: e.target.value})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
-                  </div>
-                </div>
+                    <div className="grid grid-cols-3 gap-8">
+                      <div className="space-y-2.5">
+                        <label className="text-xs font-black text-slate-400 uppercase ml-1">Secondary Birthday</label>
+                        <input type="date" value={householdDraft.dob} onChange={e => setHouseholdDraft({...householdDraft, dob: e.target.value})} className={`w-full border rounded-[1.25rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
+                      </div>
+                    </div>
+                  </>
+                )}
               </div>
 
+              <DuplicateWarning
+                draft={leadFormData}
+                leads={leads}
+                editingId={editingLead?.id}
+                relatedByLead={relatedByLead}
+                onOpenLead={lead => { setIsEditModalOpen(false); onSelectLead(lead); }}
+                isDarkMode={isDarkMode}
+              />
+
               <div className="pt-10 flex items-center space-x-8">
                 <button type="button" onClick={() => setIsEditModalOpen(false)} className={`flex-1 py-7 rounded-[2rem] text-lg font-black uppercase tracking-widest transition-all ${isDarkMode ? 'bg-slate-800 text-slate-400 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>Cancel</button>
                 <button type="submit" className="flex-1 py-7 bg-indigo-600 text-white rounded-[2rem] text-lg font-black uppercase tracking-widest shadow-2xl shadow-indigo-100 hover:bg-indigo-700 transition-all">{editingLead ? 'Save Changes' : 'Create Profile'}</button>
@@ -1107,6 +1159,27 @@ const ContactList: React.FC<ContactListProps> = ({
           </div>
         </div>
       )}
+
+      {isImportWizardOpen && (
+        <ImportWizard
+          brokerageId={brokerageId}
+          currentUser={currentUser}
+          leads={leads}
+          entityLabel="Contacts"
+          defaults={{
+            status: LeadStatus.ACTIVE,
+            source: 'CSV Import',
+            tags: ['Imported'],
+            assignedAgentId: '', // Assigned by the lead routing engine
+            dealValueRate: 0
+          }}
+          customFields={customFields}
+          onImport={imported => onAddLeads(imported, 'IMPORT')}
+          onAddRelatedLeads={onAddRelatedLeads}
+          onClose={() => setIsImportWizardOpen(false)}
+          isDarkMode={isDarkMode}
+        />
+      )}
     </div>
   );
 };
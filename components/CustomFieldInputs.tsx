@@ -0,0 +1,84 @@
+import React from 'react';
+import { CustomFieldDefinition, CustomFieldValue } from '../types.ts';
+import { setCustomFieldValue } from '../lib/customFields.ts';
+
+interface CustomFieldInputsProps {
+  definitions: CustomFieldDefinition[];
+  values?: Record<string, CustomFieldValue>;
+  onChange: (values: Record<string, CustomFieldValue>) => void;
+  inputClass: string;
+  labelClass: string;
+  isDarkMode?: boolean;
+}
+
+const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ definitions, values = {}, onChange, inputClass, labelClass, isDarkMode }) => {
+  const set = (key: string, value: CustomFieldValue | undefined) => onChange(setCustomFieldValue(values, key, value));
+
+  const renderInput = (definition: CustomFieldDefinition) => {
+    const value = values[definition.key];
+
+    switch (definition.type) {
+      case 'number':
+        return (
+          <input
+            type="number"
+            step="any"
+            value={value === undefined ? '' : String(value)}
+            onChange={e => set(definition.key, e.target.value === '' ? undefined : Number(e.target.value))}
+            className={inputClass}
+          />
+        );
+      case 'date':
+        return <input type="date" value={String(value || '')} onChange={e => set(definition.key, e.target.value)} className={inputClass} />;
+      case 'select':
+        return (
+          <select value={String(value || '')} onChange={e => set(definition.key, e.target.value)} className={inputClass}>
+            <option value="">—</option>
+            {/* Keep a stored value that was since removed from the options */}
+            {[...definition.options, ...(value && !definition.options.includes(String(value)) ? [String(value)] : [])].map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'multiSelect': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {Array.from(new Set([...definition.options, ...selected])).map(option => {
+              const isSelected = selected.includes(option);
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => set(definition.key, isSelected ? selected.filter(o => o !== option) : [...selected, option])}
+                  className={`px-4 py-2 rounded-xl text-[11px] font-black uppercase tracking-widest border-2 transition-all ${
+                    isSelected
+                      ? 'bg-indigo-600 border-indigo-600 text-white shadow-md'
+                      : isDarkMode ? 'bg-slate-900 border-slate-800 text-slate-400 hover:border-indigo-400' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-400'
+                  }`}
+                >
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+        );
+      }
+      default:
+        return <input type="text" value={String(value || '')} onChange={e => set(definition.key, e.target.value)} className={inputClass} />;
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+      {definitions.map(definition => (
+        <div key={definition.id} className={`space-y-1 ${definition.type === 'multiSelect' ? 'md:col-span-2' : ''}`}>
+          <label className={labelClass}>{definition.label}</label>
+          {renderInput(definition)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CustomFieldInputs;
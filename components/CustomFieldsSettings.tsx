@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Brokerage, CustomFieldDefinition, CustomFieldEntity, CustomFieldType } from '../types.ts';
+import { customFieldService } from '../services/customFieldService.ts';
+import { CUSTOM_FIELD_TYPES, customFieldKey, fieldsFor, hasOptions } from '../lib/customFields.ts';
+
+interface CustomFieldsSettingsProps {
+  brokerage: Brokerage;
+  definitions: CustomFieldDefinition[];
+  onChange: (definitions: CustomFieldDefinition[]) => void;
+  isDarkMode?: boolean;
+}
+
+const ENTITIES: { entity: CustomFieldEntity; label: string; hint: string }[] = [
+  { entity: 'lead', label: 'Lead Fields', hint: 'Shown on the lead profile, filterable and importable' },
+  { entity: 'deal', label: 'Transaction Fields', hint: 'Shown in the transaction form and export' },
+];
+
+const parseOptions = (text: string) => Array.from(new Set(text.split(',').map(o => o.trim()).filter(Boolean)));
+
+const CustomFieldsSettings: React.FC<CustomFieldsSettingsProps> = ({ brokerage, definitions, onChange, isDarkMode }) => {
+  const [drafts, setDrafts] = useState<Record<CustomFieldEntity, { label: string; type: CustomFieldType; options: string }>>({
+    lead: { label: '', type: 'text', options: '' },
+    deal: { label: '', type: 'text', options: '' },
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const replace = (updated: CustomFieldDefinition[]) => {
+    const byId = new Map(updated.map(d => [d.id, d]));
+    onChange(definitions.map(d => byId.get(d.id) || d));
+  };
+
+  const handleAdd = async (entity: CustomFieldEntity) => {
+    const draft = drafts[entity];
+    const label = draft.label.trim();
+    const options = parseOptions(draft.options);
+    if (!label || (hasOptions(draft.type) && options.length === 0)) return;
+
+    const existing = fieldsFor(definitions, entity);
+    setIsSaving(true);
+    setError(null);
+    const created = await customFieldService.createDefinition({
+      brokerageId: brokerage.id,
+      entity,
+      key: customFieldKey(label, existing.map(d => d.key)),
+      label,
+      type: draft.type,
+      options: hasOptions(draft.type) ? options : [],
+      position: existing.length > 0 ? Math.max(...existing.map(d => d.position)) + 1 : 0,
+    });
+    setIsSaving(false);
+
+    if (!created) {
+      setError('Failed to add the field. Please try again.');
+      return;
+    }
+    onChange([...definitions, created]);
+    setDrafts(prev => ({ ...prev, [entity]: { label: '', type: 'text', options: '' } }));
+  };
+
+  const handleUpdate = async (definition: CustomFieldDefinition, updates: Partial<Pick<CustomFieldDefinition, 'label' | 'options'>>) => {
+    if (updates.label !== undefined && !updates.label.trim()) return;
+    const saved = await customFieldService.updateDefinition(definition.id, updates);
+    if (saved) replace([saved]);
+    else setError('Failed to save the field. Please try again.');
+  };
+
+  const handleMove = async (entity: CustomFieldEntity, index: number, direction: -1 | 1) => {
+    const ordered = fieldsFor(definitions, entity);
+    const target = index + direction;
+    if (target < 0 || target >= ordered.length) return;
+    const [moved] = ordered.splice(index, 1);
+    ordered.splice(target, 0, moved);
+
+    const changed = ordered
+      .map((d, position) => ({ ...d, position }))
+      .filter(d => d.position !== definitions.find(o => o.id === d.id)?.position);
+    replace(changed);
+    await Promise.all(changed.map(d => customFieldService.updateDefinition(d.id, { position: d.position })));
+  };
+
+  const handleDelete = async (definition: CustomFieldDefinition) => {
+    if (!window.confirm(`Remove the "${definition.label}" field? Values already entered are kept but no longer shown.`)) return;
+    if (await customFieldService.deleteDefinition(definition.id)) {
+      onChange(definitions.filter(d => d.id !== definition.id));
+    } else {
+      setError('Failed to remove the field. Please try again.');
+    }
+  };
+
+  const cardClass = `border rounded-[2rem] p-8 shadow-sm space-y-6 ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`;
+  const inputClass = `w-full border rounded-xl px-4 py-3 font-bold text-xs outline-none transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-200 focus:bg-white'}`;
+
+  return (
+    <div className={`space-y-8 animate-in fade-in duration-500 ${isDarkMode ? 'dark' : ''}`}>
+      <div className="flex flex-col space-y-1">
+        <h3 className={`text-xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Custom Fields</h3>
+        <p className="text-sm text-slate-500 font-medium">Track details the standard forms don't cover, such as pre-approval amount, HOA dues or referral partner.</p>
+        {error && <p className="text-[10px] font-black text-rose-500 uppercase tracking-widest pt-2">{error}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+        {ENTITIES.map(({ entity, label, hint }) => {
+          const fields = fieldsFor(definitions, entity);
+          const draft = drafts[entity];
+          const setDraft = (patch: Partial<typeof draft>) => setDrafts(prev => ({ ...prev, [entity]: { ...prev[entity], ...patch } }));
+
+          return (
+            <div key={entity} className={cardClass}>
+              <div>
+                <h4 className={`text-base font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{label}</h4>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{hint}</p>
+              </div>
+
+              <div className={`divide-y ${isDarkMode ? 'divide-slate-800' : 'divide-slate-100'}`}>
+                {fields.length === 0 && (
+                  <p className="py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">No custom fields yet</p>
+                )}
+                {fields.map((definition, index) => (
+                  <div key={definition.id} className="py-4 space-y-3">
+                    <div className="flex items-center gap-3">
+                      <i className={`fas ${CUSTOM_FIELD_TYPES.find(t => t.type === definition.type)?.icon} text-indigo-400 w-4`}></i>
+                      <input
+                        defaultValue={definition.label}
+                        onBlur={e => e.target.value.trim() !== definition.label && handleUpdate(definition, { label: e.target.value.trim() })}
+                        className={`${inputClass} flex-1`}
+                      />
+                      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest whitespace-nowrap font-mono" title="Use in filter queries">custom.{definition.key}</span>
+                      <button onClick={() => handleMove(entity, index, -1)} disabled={index === 0} className="w-8 h-8 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-20" title="Move up"><i className="fas fa-arrow-up text-[11px]"></i></button>
+                      <button onClick={() => handleMove(entity, index, 1)} disabled={index === fields.length - 1} className="w-8 h-8 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-20" title="Move down"><i className="fas fa-arrow-down text-[11px]"></i></button>
+                      <button onClick={() => handleDelete(definition)} className="w-8 h-8 rounded-lg text-slate-300 hover:bg-rose-50 hover:text-rose-500" title="Remove field"><i className="fas fa-trash-alt text-[11px]"></i></button>
+                    </div>
+                    {hasOptions(definition.type) && (
+                      <input
+                        defaultValue={definition.options.join(', ')}
+                        onBlur={e => {
+                          const options = parseOptions(e.target.value);
+                          if (options.length > 0 && options.join(',') !== definition.options.join(',')) handleUpdate(definition, { options });
+                        }}
+                        placeholder="Options, separated by commas"
+                        className={`${inputClass} ml-7 !w-[calc(100%-1.75rem)]`}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className={`pt-6 border-t space-y-3 ${isDarkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+                <div className="flex gap-3">
+                  <input value={draft.label} onChange={e => setDraft({ label: e.target.value })} placeholder="New field label..." className={`${inputClass} flex-1`} />
+                  <select value={draft.type} onChange={e => setDraft({ type: e.target.value as CustomFieldType })} className={`${inputClass} !w-40`}>
+                    {CUSTOM_FIELD_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                  </select>
+                </div>
+                {hasOptions(draft.type) && (
+                  <input value={draft.options} onChange={e => setDraft({ options: e.target.value })} placeholder="Options, separated by commas" className={inputClass} />
+                )}
+                <button
+                  onClick={() => handleAdd(entity)}
+                  disabled={isSaving || !draft.label.trim() || (hasOptions(draft.type) && parseOptions(draft.options).length === 0)}
+                  className="px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all disabled:opacity-40"
+                >
+                  <i className="fas fa-plus mr-2"></i>Add Field
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CustomFieldsSettings;
@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { Lead, User, Deal, UserRole, OpenHouse, Task, LeadStatus, YearlyGoal } from '../types.ts';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, Cell as PieCell } from 'recharts';
 import { invitationService } from '../services/invitationService.ts';
+import SpeedToLeadPanel from './SpeedToLeadPanel.tsx';
 
 interface DashboardProps {
   leads: Lead[];
@@ -544,6 +545,14 @@ const Dashboard: React.FC<DashboardProps> = ({
         </div>
       </section>
 
+      <SpeedToLeadPanel
+        brokerageId={user.brokerageId}
+        leads={dashboardLeads}
+        agents={agents}
+        viewingAgentId={viewingAgentId}
+        isDarkMode={isDarkMode}
+      />
+
       {/* Detailed Analytics & Ranking Section */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className={`lg:col-span-2 p-10 rounded-[3rem] border shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`}>
@@ -1,5 +1,6 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { User, UserRole, Brokerage, SharedFolder, SharedDocument, SharedDocumentType } from '../types.ts';
+import { FocusRequest } from '../lib/commandPalette.ts';
 
 interface DocumentsViewProps {
   currentUser: User;
@@ -9,6 +10,8 @@ interface DocumentsViewProps {
   initialDocuments: SharedDocument[];
   onUpdateFolders: (folders: SharedFolder[]) => void;
   onUpdateDocuments: (docs: SharedDocument[]) => void;
+  // A document picked in the command palette, shown in its folder
+  focus?: FocusRequest;
   isDarkMode?: boolean;
 }
 
@@ -20,6 +23,7 @@ const DocumentsView: React.FC<DocumentsViewProps> = ({
   initialDocuments,
   onUpdateFolders,
   onUpdateDocuments,
+  focus,
   isDarkMode 
 }) => {
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
@@ -84,6 +88,13 @@ const DocumentsView: React.FC<DocumentsViewProps> = ({
     setCurrentPage(1);
   }, [searchQuery, selectedFolderId, itemsPerPage]);
 
+  useEffect(() => {
+    const doc = focus && initialDocuments.find(d => d.id === focus.id);
+    if (!doc) return;
+    setSelectedFolderId(doc.folderId);
+    setSearchQuery(doc.name);
+  }, [focus?.at]);
+
   useEffect(() => {
     if (isUploadModalOpen && selectedFolderId) {
       setUploadData(prev => ({ ...prev, folderId: selectedFolderId }));
@@ -93,7 +104,7 @@ const DocumentsView: React.FC<DocumentsViewProps> = ({
   const handleCreateFolder = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newFolderName.trim()) return;
-    const newFolderId = `f_${Date.now()}`;
+    const newFolderId = crypto.randomUUID();
     const newFolder: SharedFolder = {
       id: newFolderId,
       name: newFolderName,
@@ -145,7 +156,7 @@ const DocumentsView: React.FC<DocumentsViewProps> = ({
     }
     
     const newDoc: SharedDocument = {
-      id: `d_${Date.now()}`,
+      id: crypto.randomUUID(),
       folderId: uploadData.folderId,
       name: uploadData.name,
       type: uploadData.type,
@@ -0,0 +1,456 @@
+import React, { useState, useEffect } from 'react';
+import { DripCampaign, DripStep, DripTriggerField, LeadStatus } from '../types.ts';
+import { dripCampaignService, DripTemplate } from '../services/dripCampaignService.ts';
+import { DRIP_PLACEHOLDERS, DRIP_TRIGGER_LABELS, sortSteps } from '../lib/dripCampaigns.ts';
+
+interface DripCampaignsManagerProps {
+  brokerageId: string;
+  userId: string;
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+interface CampaignForm {
+  name: string;
+  description: string;
+  triggerField: DripTriggerField | '';
+  triggerValue: string;
+  isActive: boolean;
+  steps: DripStep[];
+}
+
+const EMPTY_FORM: CampaignForm = {
+  name: '',
+  description: '',
+  triggerField: '',
+  triggerValue: '',
+  isActive: true,
+  steps: [],
+};
+
+const newStep = (delayDays: number): DripStep => ({
+  id: `step_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+  delayDays,
+  templateId: '',
+});
+
+const formatStatus = (status: string) =>
+  status.split('_').map(w => w.charAt(0) + w.slice(1).toLowerCase()).join(' ');
+
+const DripCampaignsManager: React.FC<DripCampaignsManagerProps> = ({
+  brokerageId,
+  userId,
+  onClose,
+  isDarkMode
+}) => {
+  const [campaigns, setCampaigns] = useState<DripCampaign[]>([]);
+  const [templates, setTemplates] = useState<DripTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<DripCampaign | null>(null);
+  const [formData, setFormData] = useState<CampaignForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [brokerageId]);
+
+  const loadCampaigns = async () => {
+    setIsLoading(true);
+    const [loadedCampaigns, loadedTemplates] = await Promise.all([
+      dripCampaignService.getCampaigns(brokerageId),
+      dripCampaignService.getTemplates(),
+    ]);
+    setCampaigns(loadedCampaigns);
+    setTemplates(loadedTemplates);
+    setIsLoading(false);
+  };
+
+  const templateName = (id: string) => templates.find(t => t.id === id)?.name || 'Missing template';
+
+  const handleCreate = () => {
+    setIsEditing(true);
+    setEditingCampaign(null);
+    setFormData({ ...EMPTY_FORM, steps: [newStep(0)] });
+  };
+
+  const handleEdit = (campaign: DripCampaign) => {
+    setIsEditing(true);
+    setEditingCampaign(campaign);
+    setFormData({
+      name: campaign.name,
+      description: campaign.description || '',
+      triggerField: campaign.trigger?.field || '',
+      triggerValue: campaign.trigger?.value || '',
+      isActive: campaign.isActive,
+      steps: campaign.steps,
+    });
+  };
+
+  const updateStep = (id: string, updates: Partial<DripStep>) => {
+    setFormData({ ...formData, steps: formData.steps.map(s => s.id === id ? { ...s, ...updates } : s) });
+  };
+
+  const addStep = () => {
+    const lastDelay = formData.steps.length > 0 ? Math.max(...formData.steps.map(s => s.delayDays)) : -3;
+    setFormData({ ...formData, steps: [...formData.steps, newStep(lastDelay + 3)] });
+  };
+
+  const removeStep = (id: string) => {
+    setFormData({ ...formData, steps: formData.steps.filter(s => s.id !== id) });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.steps.length === 0) {
+      alert('Add at least one step');
+      return;
+    }
+    if (formData.steps.some(s => !s.templateId)) {
+      alert('Choose a template for every step');
+      return;
+    }
+
+    const input = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      steps: sortSteps(formData.steps),
+      trigger: formData.triggerField && formData.triggerValue.trim()
+        ? { field: formData.triggerField, value: formData.triggerValue.trim() }
+        : undefined,
+      isActive: formData.isActive,
+    };
+
+    setIsSaving(true);
+    const saved = editingCampaign
+      ? await dripCampaignService.updateCampaign(editingCampaign.id, input)
+      : await dripCampaignService.createCampaign(brokerageId, userId, input);
+    setIsSaving(false);
+
+    if (!saved) {
+      alert('Failed to save campaign');
+      return;
+    }
+
+    setIsEditing(false);
+    setEditingCampaign(null);
+    loadCampaigns();
+  };
+
+  const handleToggleActive = async (campaign: DripCampaign) => {
+    const saved = await dripCampaignService.updateCampaign(campaign.id, { isActive: !campaign.isActive });
+    if (!saved) {
+      alert('Failed to update campaign');
+      return;
+    }
+    setCampaigns(prev => prev.map(c => c.id === saved.id ? saved : c));
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this campaign? Leads enrolled in it will stop receiving its emails.')) return;
+
+    if (!(await dripCampaignService.deleteCampaign(id))) {
+      alert('Failed to delete campaign');
+      return;
+    }
+    setCampaigns(prev => prev.filter(c => c.id !== id));
+  };
+
+  const inputClass = `w-full px-6 py-4 rounded-2xl border font-bold text-base outline-none transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white placeholder-slate-500 focus:border-purple-500' : 'bg-slate-50 border-slate-200 focus:bg-white focus:border-purple-500'}`;
+  const labelClass = `text-xs font-black uppercase tracking-widest ml-1 ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`;
+
+  if (isEditing) {
+    return (
+      <div className="fixed inset-0 z-[600] flex items-center justify-center p-4">
+        <div
+          className="absolute inset-0 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300"
+          onClick={() => setIsEditing(false)}
+        />
+
+        <div className={`relative z-10 w-full max-w-3xl max-h-[90vh] rounded-[3rem] shadow-2xl border overflow-hidden animate-in zoom-in-95 duration-200 ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+          <div className={`p-8 border-b flex items-center justify-between ${isDarkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+            <div className="flex items-center space-x-4">
+              <div className="w-12 h-12 bg-purple-600 text-white rounded-2xl flex items-center justify-center shadow-xl shadow-purple-100">
+                <i className="fas fa-stream" />
+              </div>
+              <h3 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+                {editingCampaign ? 'Edit Campaign' : 'Create Campaign'}
+              </h3>
+            </div>
+            <button
+              onClick={() => setIsEditing(false)}
+              className={`w-12 h-12 rounded-2xl transition-all active:scale-90 flex items-center justify-center ${isDarkMode ? 'text-slate-400 hover:bg-rose-900/20 hover:text-rose-400' : 'text-slate-400 hover:bg-rose-50 hover:text-rose-600'}`}
+            >
+              <i className="fas fa-times text-xl" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSave} className="p-8 space-y-6 overflow-y-auto max-h-[calc(90vh-12rem)]">
+            <div className="space-y-2">
+              <label className={labelClass}>Campaign Name</label>
+              <input
+                required
+                type="text"
+                placeholder="e.g., New Buyer Nurture"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className={labelClass}>Description</label>
+              <input
+                type="text"
+                placeholder="What this sequence is for..."
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className={labelClass}>Auto-Enroll Leads</label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <select
+                  value={formData.triggerField}
+                  onChange={(e) => setFormData({ ...formData, triggerField: e.target.value as DripTriggerField | '', triggerValue: '' })}
+                  className={inputClass}
+                >
+                  <option value="">Manually only</option>
+                  {(Object.keys(DRIP_TRIGGER_LABELS) as DripTriggerField[]).map(field => (
+                    <option key={field} value={field}>{DRIP_TRIGGER_LABELS[field]}</option>
+                  ))}
+                </select>
+                {formData.triggerField === 'status' ? (
+                  <select
+                    required
+                    value={formData.triggerValue}
+                    onChange={(e) => setFormData({ ...formData, triggerValue: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Choose a status</option>
+                    {Object.values(LeadStatus).map(status => (
+                      <option key={status} value={status}>{formatStatus(status)}</option>
+                    ))}
+                  </select>
+                ) : formData.triggerField ? (
+                  <input
+                    required
+                    type="text"
+                    placeholder={formData.triggerField === 'source' ? 'e.g., Zillow' : 'e.g., First-Time Buyer'}
+                    value={formData.triggerValue}
+                    onChange={(e) => setFormData({ ...formData, triggerValue: e.target.value })}
+                    className={inputClass}
+                  />
+                ) : null}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <label className={labelClass}>Steps</label>
+                <button
+                  type="button"
+                  onClick={addStep}
+                  className={`text-[11px] font-black uppercase tracking-widest ${isDarkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`}
+                >
+                  <i className="fas fa-plus mr-2" />
+                  Add Step
+                </button>
+              </div>
+              {formData.steps.map((step, index) => (
+                <div key={step.id} className={`flex items-center gap-3 p-4 rounded-2xl border ${isDarkMode ? 'bg-slate-800/40 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+                  <span className={`w-8 text-center font-black text-sm ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>{index + 1}</span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className={`text-[11px] font-black uppercase tracking-widest ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>Day</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={step.delayDays}
+                      onChange={(e) => updateStep(step.id, { delayDays: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      className={`w-20 px-3 py-2 rounded-xl border font-bold text-sm outline-none ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-slate-200'}`}
+                    />
+                  </div>
+                  <select
+                    required
+                    value={step.templateId}
+                    onChange={(e) => updateStep(step.id, { templateId: e.target.value })}
+                    className={`flex-1 min-w-0 px-3 py-2 rounded-xl border font-bold text-sm outline-none ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-slate-200'}`}
+                  >
+                    <option value="">Choose a template</option>
+                    {templates.map(t => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => removeStep(step.id)}
+                    className={`w-9 h-9 shrink-0 rounded-xl flex items-center justify-center transition-all ${isDarkMode ? 'text-slate-400 hover:bg-rose-900/20 hover:text-rose-400' : 'text-slate-400 hover:bg-rose-50 hover:text-rose-600'}`}
+                  >
+                    <i className="fas fa-trash text-sm" />
+                  </button>
+                </div>
+              ))}
+              <p className={`text-xs font-medium ml-1 ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                Days count from enrollment. Templates can use {DRIP_PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')}.
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="drip_is_active"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                className="w-5 h-5 rounded-md"
+              />
+              <label htmlFor="drip_is_active" className={`font-bold text-sm ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+                Campaign is active
+              </label>
+            </div>
+
+            <div className="flex items-center justify-end space-x-4 pt-4">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className={`px-8 py-4 font-black uppercase tracking-widest text-xs transition-colors ${isDarkMode ? 'text-slate-400 hover:text-slate-300' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-10 py-4 bg-purple-600 text-white rounded-2xl font-black uppercase tracking-widest text-xs shadow-xl shadow-purple-100 hover:bg-purple-700 transition-all active:scale-95 disabled:opacity-50"
+              >
+                {editingCampaign ? 'Update Campaign' : 'Create Campaign'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[600] flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300"
+        onClick={onClose}
+      />
+
+      <div className={`relative z-10 w-full max-w-5xl max-h-[90vh] rounded-[3rem] shadow-2xl border flex flex-col overflow-hidden animate-in zoom-in-95 duration-200 ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <div className={`p-8 border-b flex items-center justify-between ${isDarkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+          <div className="flex items-center space-x-4">
+            <div className="w-12 h-12 bg-purple-600 text-white rounded-2xl flex items-center justify-center shadow-xl shadow-purple-100">
+              <i className="fas fa-stream" />
+            </div>
+            <h3 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+              Drip Campaigns
+            </h3>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handleCreate}
+              className="px-6 py-3 bg-purple-600 text-white rounded-2xl font-black uppercase tracking-widest text-xs shadow-xl shadow-purple-100 hover:bg-purple-700 transition-all active:scale-95"
+            >
+              <i className="fas fa-plus mr-2" />
+              New Campaign
+            </button>
+            <button
+              onClick={onClose}
+              className={`w-12 h-12 rounded-2xl transition-all active:scale-90 flex items-center justify-center ${isDarkMode ? 'text-slate-400 hover:bg-rose-900/20 hover:text-rose-400' : 'text-slate-400 hover:bg-rose-50 hover:text-rose-600'}`}
+            >
+              <i className="fas fa-times text-xl" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <i className={`fas fa-spinner fa-spin text-4xl ${isDarkMode ? 'text-slate-600' : 'text-slate-300'}`} />
+            </div>
+          ) : campaigns.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-64 space-y-4 opacity-50">
+              <div className={`w-24 h-24 rounded-3xl flex items-center justify-center ${isDarkMode ? 'bg-slate-800' : 'bg-slate-50'}`}>
+                <i className={`fas fa-stream text-4xl ${isDarkMode ? 'text-slate-600' : 'text-slate-200'}`} />
+              </div>
+              <p className={`font-black text-lg ${isDarkMode ? 'text-slate-600' : 'text-slate-300'}`}>
+                No campaigns yet
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {campaigns.map(campaign => (
+                <div
+                  key={campaign.id}
+                  className={`p-6 rounded-2xl border transition-all hover:shadow-lg ${isDarkMode ? 'bg-slate-800 border-slate-700 hover:border-slate-600' : 'bg-white border-slate-200 hover:border-slate-300'}`}
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <h4 className={`font-black text-lg truncate ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+                          {campaign.name}
+                        </h4>
+                        <span className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider ${campaign.isActive
+                          ? (isDarkMode ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-700')
+                          : (isDarkMode ? 'bg-slate-700 text-slate-400' : 'bg-slate-100 text-slate-500')}`}>
+                          {campaign.isActive ? 'Active' : 'Off'}
+                        </span>
+                      </div>
+                      <p className={`text-xs font-bold uppercase tracking-wider ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                        {campaign.trigger
+                          ? `${DRIP_TRIGGER_LABELS[campaign.trigger.field]} ${campaign.trigger.field === 'status' ? formatStatus(campaign.trigger.value) : campaign.trigger.value}`
+                          : 'Manual enrollment'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleToggleActive(campaign)}
+                        title={campaign.isActive ? 'Turn off' : 'Turn on'}
+                        className={`w-9 h-9 rounded-xl flex items-center justify-center transition-all ${isDarkMode ? 'text-slate-400 hover:bg-purple-900/20 hover:text-purple-400' : 'text-slate-400 hover:bg-purple-50 hover:text-purple-600'}`}
+                      >
+                        <i className={`fas ${campaign.isActive ? 'fa-pause' : 'fa-play'} text-sm`} />
+                      </button>
+                      <button
+                        onClick={() => handleEdit(campaign)}
+                        className={`w-9 h-9 rounded-xl flex items-center justify-center transition-all ${isDarkMode ? 'text-slate-400 hover:bg-blue-900/20 hover:text-blue-400' : 'text-slate-400 hover:bg-blue-50 hover:text-blue-600'}`}
+                      >
+                        <i className="fas fa-edit text-sm" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(campaign.id)}
+                        className={`w-9 h-9 rounded-xl flex items-center justify-center transition-all ${isDarkMode ? 'text-slate-400 hover:bg-rose-900/20 hover:text-rose-400' : 'text-slate-400 hover:bg-rose-50 hover:text-rose-600'}`}
+                      >
+                        <i className="fas fa-trash text-sm" />
+                      </button>
+                    </div>
+                  </div>
+                  {campaign.description && (
+                    <p className={`text-sm font-medium mb-3 ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                      {campaign.description}
+                    </p>
+                  )}
+                  <ol className="space-y-1.5">
+                    {campaign.steps.map(step => (
+                      <li key={step.id} className={`flex items-center text-sm ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                        <span className={`w-16 shrink-0 text-[11px] font-black uppercase tracking-widest ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                          Day {step.delayDays}
+                        </span>
+                        <span className="font-bold truncate">{templateName(step.templateId)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DripCampaignsManager;
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import { DripCampaign, DripEnrollment, DripEnrollmentStatus, Lead, User } from '../types.ts';
+import { dripCampaignService } from '../services/dripCampaignService.ts';
+import { DRIP_PAUSE_LABELS } from '../lib/dripCampaigns.ts';
+
+interface DripEnrollmentsCardProps {
+  lead: Lead;
+  user: User;
+  isDarkMode?: boolean;
+}
+
+const STATUS_STYLES: Record<DripEnrollmentStatus, string> = {
+  ACTIVE: 'bg-green-50 text-green-600 border-green-100',
+  PAUSED: 'bg-amber-50 text-amber-600 border-amber-100',
+  COMPLETED: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  STOPPED: 'bg-slate-50 text-slate-500 border-slate-100',
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const DripEnrollmentsCard: React.FC<DripEnrollmentsCardProps> = ({ lead, user, isDarkMode }) => {
+  const [campaigns, setCampaigns] = useState<DripCampaign[]>([]);
+  const [enrollments, setEnrollments] = useState<DripEnrollment[]>([]);
+  const [selectedCampaignId, setSelectedCampaignId] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      dripCampaignService.getCampaigns(lead.brokerageId),
+      dripCampaignService.getEnrollments(lead.id),
+    ]).then(([loadedCampaigns, loadedEnrollments]) => {
+      if (cancelled) return;
+      setCampaigns(loadedCampaigns);
+      setEnrollments(loadedEnrollments);
+    });
+    return () => { cancelled = true; };
+  }, [lead.id, lead.status, lead.source, lead.tags?.length]);
+
+  const replaceEnrollment = (updated: DripEnrollment | null) => {
+    if (!updated) {
+      alert('Failed to update drip campaign');
+      return;
+    }
+    setEnrollments(prev => [updated, ...prev.filter(e => e.id !== updated.id)]);
+  };
+
+  const handleEnroll = async () => {
+    const campaign = campaigns.find(c => c.id === selectedCampaignId);
+    if (!campaign) return;
+    setBusyId(campaign.id);
+    replaceEnrollment(await dripCampaignService.enrollLead(campaign, lead.id, user.id));
+    setBusyId(null);
+    setSelectedCampaignId('');
+  };
+
+  const handleAction = async (enrollment: DripEnrollment, action: 'pause' | 'resume' | 'stop') => {
+    setBusyId(enrollment.id);
+    replaceEnrollment(
+      action === 'pause' ? await dripCampaignService.pauseEnrollment(enrollment.id)
+        : action === 'resume' ? await dripCampaignService.resumeEnrollment(enrollment)
+        : await dripCampaignService.stopEnrollment(enrollment.id)
+    );
+    setBusyId(null);
+  };
+
+  const running = new Set(enrollments.filter(e => e.status === 'ACTIVE' || e.status === 'PAUSED').map(e => e.campaignId));
+  const enrollable = campaigns.filter(c => c.isActive && c.steps.length > 0 && !running.has(c.id));
+
+  if (campaigns.length === 0 && enrollments.length === 0) return null;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between px-2">
+        <div className="flex items-center space-x-4">
+          <div className="w-10 h-10 bg-purple-50 text-purple-600 rounded-xl flex items-center justify-center text-base shadow-md">
+            <i className="fas fa-stream"></i>
+          </div>
+          <h4 className={`text-base font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Drip Campaigns</h4>
+        </div>
+        {!lead.email && (
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">No email on file</span>
+        )}
+      </div>
+
+      <div className={`rounded-[2.5rem] p-8 border space-y-4 ${isDarkMode ? 'bg-slate-800/40 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+        {enrollments.length === 0 && (
+          <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest">Not enrolled in any campaign</p>
+        )}
+
+        {enrollments.map(enrollment => {
+          const campaign = campaigns.find(c => c.id === enrollment.campaignId);
+          const totalSteps = campaign?.steps.length || 0;
+          const isBusy = busyId === enrollment.id;
+          return (
+            <div key={enrollment.id} className={`p-5 rounded-2xl border space-y-2 ${isDarkMode ? 'bg-slate-900/40 border-slate-700' : 'bg-white border-slate-100'}`}>
+              <div className="flex items-center justify-between gap-4">
+                <p className={`font-black text-sm truncate ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>{campaign?.name || 'Deleted campaign'}</p>
+                <span className={`shrink-0 text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border ${STATUS_STYLES[enrollment.status]}`}>
+                  {enrollment.status}
+                </span>
+              </div>
+              <p className="text-[11px] font-bold text-slate-400">
+                {enrollment.status === 'COMPLETED'
+                  ? `All ${totalSteps} steps sent`
+                  : `Step ${Math.min(enrollment.currentStep + 1, totalSteps)} of ${totalSteps}`}
+                {enrollment.status === 'ACTIVE' && enrollment.nextSendAt && ` · next email ${formatDate(enrollment.nextSendAt)}`}
+                {enrollment.status === 'PAUSED' && enrollment.pauseReason && ` · ${DRIP_PAUSE_LABELS[enrollment.pauseReason]}`}
+                {enrollment.origin === 'TRIGGER' && ' · auto-enrolled'}
+              </p>
+              {enrollment.lastError && (
+                <p className="text-[11px] font-bold text-rose-500">{enrollment.lastError}</p>
+              )}
+              {(enrollment.status === 'ACTIVE' || enrollment.status === 'PAUSED') && (
+                <div className="flex items-center gap-2 pt-1">
+                  {enrollment.status === 'ACTIVE' ? (
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => handleAction(enrollment, 'pause')}
+                      className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-50 text-amber-600 hover:bg-amber-100 transition-all disabled:opacity-50"
+                    >
+                      <i className="fas fa-pause mr-1.5"></i>Pause
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => handleAction(enrollment, 'resume')}
+                      className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-green-50 text-green-600 hover:bg-green-100 transition-all disabled:opacity-50"
+                    >
+                      <i className="fas fa-play mr-1.5"></i>Resume
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => handleAction(enrollment, 'stop')}
+                    className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-rose-50 text-rose-600 hover:bg-rose-100 transition-all disabled:opacity-50"
+                  >
+                    <i className="fas fa-stop mr-1.5"></i>Stop
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {enrollable.length > 0 && (
+          <div className="flex items-center gap-3 pt-2">
+            <select
+              value={selectedCampaignId}
+              disabled={!lead.email}
+              onChange={(e) => setSelectedCampaignId(e.target.value)}
+              className={`flex-1 min-w-0 px-4 py-3 rounded-xl border font-bold text-sm outline-none disabled:opacity-50 ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-slate-200'}`}
+            >
+              <option value="">Enroll in a campaign...</option>
+              {enrollable.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              disabled={!selectedCampaignId || busyId !== null}
+              onClick={handleEnroll}
+              className="px-5 py-3 bg-purple-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-purple-700 transition-all disabled:opacity-50"
+            >
+              Enroll
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default DripEnrollmentsCard;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Deal, Lead, LeadNote, Task, User } from '../types.ts';
+import { DuplicatePair } from '../lib/leadDuplicates.ts';
+import LeadMergeModal from './LeadMergeModal.tsx';
+
+interface DuplicateQueueProps {
+  pairs: DuplicatePair[];
+  agents: User[];
+  tasks: Task[];
+  deals: Deal[];
+  currentUser: User;
+  onMerge: (survivorId: string, duplicateId: string, changes: Partial<Lead>, note: LeadNote) => Promise<void>;
+  onDismiss: (pair: DuplicatePair) => Promise<void>;
+  onSelectLead: (lead: Lead) => void;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+const DuplicateQueue: React.FC<DuplicateQueueProps> = ({
+  pairs,
+  agents,
+  tasks,
+  deals,
+  currentUser,
+  onMerge,
+  onDismiss,
+  onSelectLead,
+  onClose,
+  isDarkMode
+}) => {
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  const merging = pairs.find(p => p.key === mergingKey) || null;
+
+  const renderLead = (lead: Lead) => (
+    <button onClick={() => onSelectLead(lead)} className="min-w-0 text-left group">
+      <p className={`font-black truncate group-hover:text-indigo-600 transition-colors ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{lead.firstName} {lead.lastName}</p>
+      <p className="text-[11px] font-bold text-slate-400 truncate">{lead.email || 'No email'} · {lead.phone || 'No phone'}</p>
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate">{lead.source} · {new Date(lead.createdAt).toLocaleDateString()}</p>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}></div>
+      <div className={`rounded-[2.5rem] shadow-2xl border w-full max-w-5xl max-h-[90vh] flex flex-col p-10 relative z-10 animate-in zoom-in-95 duration-200 text-[12px] ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <div className="w-14 h-14 bg-amber-50 text-amber-500 rounded-2xl flex items-center justify-center text-xl shadow-sm border border-amber-100">
+              <i className="fas fa-clone"></i>
+            </div>
+            <div>
+              <h3 className={`text-xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Possible Duplicates</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{pairs.length} pair{pairs.length === 1 ? '' : 's'} matched on email, phone or name</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 rounded-xl text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-all">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className={`flex-1 overflow-y-auto border rounded-2xl divide-y ${isDarkMode ? 'border-slate-800 divide-slate-800' : 'border-slate-200 divide-slate-100'}`}>
+          {pairs.length === 0 && (
+            <p className="p-10 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">No possible duplicates</p>
+          )}
+          {pairs.map(pair => (
+            <div key={pair.key} className="px-6 py-5 grid grid-cols-[1fr_1fr_auto] items-center gap-6">
+              {renderLead(pair.a)}
+              {renderLead(pair.b)}
+              <div className="flex flex-col items-end gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-[9px] font-black text-amber-600 uppercase tracking-widest">{pair.reasons.join(' · ')}</span>
+                  <span className="px-2 py-0.5 rounded-lg text-[9px] font-black bg-amber-50 text-amber-600 border border-amber-100">{pair.score}%</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onDismiss(pair)}
+                    className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${isDarkMode ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    Not a Duplicate
+                  </button>
+                  <button
+                    onClick={() => setMergingKey(pair.key)}
+                    className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-indigo-600 text-white hover:bg-indigo-700 transition-all"
+                  >
+                    Merge
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {merging && (
+        <LeadMergeModal
+          first={merging.a}
+          second={merging.b}
+          agents={agents}
+          tasks={tasks}
+          deals={deals}
+          currentUser={currentUser}
+          onMerge={onMerge}
+          onClose={() => setMergingKey(null)}
+          isDarkMode={isDarkMode}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DuplicateQueue;
@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import { Lead } from '../types.ts';
+import { findDuplicatesOf } from '../lib/leadDuplicates.ts';
+import { RelatedContact } from '../lib/relationships.ts';
+
+interface DuplicateWarningProps {
+  draft: Partial<Lead>;
+  leads: Lead[];
+  // The lead being edited, so it is not reported as its own duplicate
+  editingId?: string;
+  // Linked households, so a lead entered under the other spouse is caught too
+  relatedByLead?: Map<string, RelatedContact[]>;
+  onOpenLead: (lead: Lead) => void;
+  isDarkMode?: boolean;
+}
+
+const MAX_SHOWN = 3;
+
+const DuplicateWarning: React.FC<DuplicateWarningProps> = ({ draft, leads, editingId, relatedByLead, onOpenLead, isDarkMode }) => {
+  const matches = useMemo(
+    () => findDuplicatesOf({ tags: [], notes: [], ...draft, id: editingId || '__draft__' } as Lead, leads, relatedByLead),
+    [draft.firstName, draft.lastName, draft.email, draft.phone, leads, editingId, relatedByLead]
+  );
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className={`p-6 rounded-[2rem] border-2 space-y-4 animate-in fade-in duration-200 ${isDarkMode ? 'bg-amber-500/10 border-amber-500/30' : 'bg-amber-50 border-amber-200'}`}>
+      <div className="flex items-center space-x-3">
+        <i className="fas fa-clone text-amber-500 text-lg"></i>
+        <p className={`text-sm font-black uppercase tracking-widest ${isDarkMode ? 'text-amber-300' : 'text-amber-700'}`}>
+          Possible duplicate{matches.length > 1 ? 's' : ''} already in the CRM
+        </p>
+      </div>
+      <div className="space-y-2">
+        {matches.slice(0, MAX_SHOWN).map(match => (
+          <div key={match.lead.id} className={`flex items-center justify-between gap-4 px-5 py-3 rounded-2xl ${isDarkMode ? 'bg-slate-900/60' : 'bg-white'}`}>
+            <div className="min-w-0">
+              <p className={`font-black truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{match.lead.firstName} {match.lead.lastName}</p>
+              <p className="text-xs font-bold text-slate-400 truncate">
+                {[match.lead.email, match.lead.phone, match.lead.source].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3 shrink-0">
+              <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{match.reasons.join(', ')}</span>
+              <button
+                type="button"
+                onClick={() => onOpenLead(match.lead)}
+                className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-white hover:bg-amber-600 transition-all"
+              >
+                Open
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateWarning;
@@ -2,12 +2,15 @@ import React, { useState, useMemo } from 'react';
 import { EmailMessage, User, EmailFolder, Lead } from '../types.ts';
 import BulkEmailComposer from './BulkEmailComposer.tsx';
 import EmailTemplatesManager from './EmailTemplatesManager.tsx';
+import DripCampaignsManager from './DripCampaignsManager.tsx';
 import { supabase } from '../lib/supabase.ts';
+import { RelatedContact } from '../lib/relationships.ts';
 
 interface EmailDashboardProps {
   emails: EmailMessage[];
   currentUser: User;
   leads: Lead[];
+  relatedByLead?: Map<string, RelatedContact[]>;
   onSendEmail: (email: EmailMessage) => void;
   onUpdateEmail: (id: string, updates: Partial<EmailMessage>) => void;
   onDeleteEmail: (id: string) => void;
@@ -18,6 +21,7 @@ const EmailDashboard: React.FC<EmailDashboardProps> = ({
   emails,
   currentUser,
   leads,
+  relatedByLead,
   onSendEmail,
   onUpdateEmail,
   onDeleteEmail,
@@ -29,6 +33,7 @@ const EmailDashboard: React.FC<EmailDashboardProps> = ({
   const [isComposeOpen, setIsComposeOpen] = useState(false);
   const [isBulkEmailOpen, setIsBulkEmailOpen] = useState(false);
   const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isDripCampaignsOpen, setIsDripCampaignsOpen] = useState(false);
   const [composeData, setComposeData] = useState({
     to: '',
     cc: '',
@@ -185,6 +190,14 @@ const EmailDashboard: React.FC<EmailDashboardProps> = ({
           <span>Templates</span>
         </button>
 
+        <button
+          onClick={() => setIsDripCampaignsOpen(true)}
+          className={`w-full py-3 rounded-2xl font-black uppercase tracking-widest text-[11px] transition-all flex items-center justify-center space-x-3 active:scale-95 ${isDarkMode ? 'bg-slate-800 text-purple-400 hover:bg-slate-700' : 'bg-purple-50 text-purple-700 hover:bg-purple-100'}`}
+        >
+          <i className="fas fa-stream"></i>
+          <span>Drip Campaigns</span>
+        </button>
+
         <nav className="space-y-1.5">
           {(['INBOX', 'SENT', 'DRAFTS', 'ARCHIVE', 'TRASH'] as EmailFolder[]).map(folder => {
             const count = emails.filter(e => e.folder === folder && !e.isRead).length;
@@ -415,7 +428,9 @@ const EmailDashboard: React.FC<EmailDashboardProps> = ({
       {/* Bulk Email Modal */}
       {isBulkEmailOpen && (
         <BulkEmailComposer
+          brokerageId={currentUser.brokerageId}
           leads={leads}
+          relatedByLead={relatedByLead}
           onClose={() => setIsBulkEmailOpen(false)}
           onSuccess={() => {
             setIsBulkEmailOpen(false);
@@ -431,6 +446,16 @@ const EmailDashboard: React.FC<EmailDashboardProps> = ({
           isDarkMode={isDarkMode}
         />
       )}
+
+      {/* Drip Campaigns Modal */}
+      {isDripCampaignsOpen && (
+        <DripCampaignsManager
+          brokerageId={currentUser.brokerageId}
+          userId={currentUser.id}
+          onClose={() => setIsDripCampaignsOpen(false)}
+          isDarkMode={isDarkMode}
+        />
+      )}
     </div>
   );
 };
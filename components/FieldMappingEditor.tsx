@@ -0,0 +1,134 @@
+import React, { useState, useMemo } from 'react';
+import { LeadFieldMapping, MappableLeadField } from '../types.ts';
+import { leadIngestionService, DEFAULT_FIELD_MAPPING } from '../services/leadIngestionService.ts';
+
+interface FieldMappingEditorProps {
+  fieldMapping?: LeadFieldMapping;
+  samplePayload?: unknown;
+  onSave: (fieldMapping: LeadFieldMapping) => Promise<void>;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+const MAPPABLE_FIELDS: { field: MappableLeadField; label: string }[] = [
+  { field: 'firstName', label: 'First Name' },
+  { field: 'lastName', label: 'Last Name' },
+  { field: 'fullName', label: 'Full Name (split when first/last are blank)' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'propertyAddress', label: 'Property Address' },
+  { field: 'budget', label: 'Budget / Price' },
+  { field: 'message', label: 'Message' },
+  { field: 'externalId', label: 'Submission ID (deduplication)' }
+];
+
+// A flat form post that the default mapping reads as-is
+const SAMPLE_PAYLOAD = {
+  id: 'web-1042',
+  first_name: 'Theo',
+  last_name: 'Marchetti',
+  email: 'theo.marchetti@example.com',
+  phone: '555-0100',
+  budget: '650000',
+  message: 'Requested a home valuation'
+};
+
+const FieldMappingEditor: React.FC<FieldMappingEditorProps> = ({ fieldMapping, samplePayload: initialSample, onSave, onClose, isDarkMode }) => {
+  const [mapping, setMapping] = useState<LeadFieldMapping>({ ...DEFAULT_FIELD_MAPPING, ...fieldMapping });
+  const [samplePayload, setSamplePayload] = useState(JSON.stringify(initialSample ?? SAMPLE_PAYLOAD, null, 2));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const inputClass = `w-full border rounded-xl px-4 py-3 font-mono text-xs outline-none transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-200 focus:bg-white'}`;
+
+  // Runs the sample through the same transformer the ingest-lead endpoint uses
+  const preview = useMemo(() => {
+    try {
+      const lead = leadIngestionService.transformCustom(JSON.parse(samplePayload), 'preview', 'preview', mapping);
+      return { lead, error: null };
+    } catch (error: any) {
+      return { lead: null, error: error?.message || String(error) };
+    }
+  }, [samplePayload, mapping]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(mapping);
+      onClose();
+    } catch (error) {
+      alert('Failed to save the field mapping. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[210] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}></div>
+      <div className={`rounded-[2.5rem] shadow-2xl border w-full max-w-5xl max-h-[90vh] overflow-y-auto p-10 relative z-10 animate-in zoom-in-95 duration-200 text-[12px] ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className="flex items-center space-x-4 mb-8">
+          <div className="w-14 h-14 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center text-xl shadow-sm border border-indigo-100">
+            <i className="fas fa-code"></i>
+          </div>
+          <div>
+            <h3 className={`text-xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Custom Website Hook Mapping</h3>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Dot paths into your JSON, e.g. contact.email or answers.0.value</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            {MAPPABLE_FIELDS.map(({ field, label }) => (
+              <div key={field} className="space-y-1.5">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">{label}</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  placeholder="Not mapped"
+                  value={mapping[field] || ''}
+                  onChange={e => setMapping(prev => ({ ...prev, [field]: e.target.value.trim() }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Sample Payload</label>
+              <textarea
+                className={`${inputClass} h-64 resize-none`}
+                value={samplePayload}
+                onChange={e => setSamplePayload(e.target.value)}
+              />
+            </div>
+
+            <div className={`border rounded-2xl p-5 space-y-2 ${preview.error ? 'border-rose-200 bg-rose-50' : isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-emerald-100 bg-emerald-50/50'}`}>
+              <p className={`text-[10px] font-black uppercase tracking-widest ${preview.error ? 'text-rose-500' : 'text-emerald-600'}`}>
+                {preview.error ? `Rejected: ${preview.error}` : 'Lead Preview'}
+              </p>
+              {preview.lead && (
+                <dl className={`grid grid-cols-2 gap-x-4 gap-y-1 font-semibold ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                  <dt className="text-slate-400">Name</dt><dd>{preview.lead.firstName} {preview.lead.lastName}</dd>
+                  <dt className="text-slate-400">Email</dt><dd className="truncate">{preview.lead.email || '—'}</dd>
+                  <dt className="text-slate-400">Phone</dt><dd>{preview.lead.phone || '—'}</dd>
+                  <dt className="text-slate-400">Address</dt><dd className="truncate">{preview.lead.propertyAddress || '—'}</dd>
+                  <dt className="text-slate-400">Budget</dt><dd>${preview.lead.budget.toLocaleString()}</dd>
+                  <dt className="text-slate-400">Submission ID</dt><dd>{preview.lead.externalId || '—'}</dd>
+                </dl>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex space-x-4 mt-10">
+          <button onClick={onClose} className={`flex-1 py-5 rounded-2xl text-xs font-black uppercase tracking-widest transition-all ${isDarkMode ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>Cancel</button>
+          <button onClick={handleSave} disabled={isSaving} className="flex-1 py-5 bg-indigo-600 text-white rounded-2xl text-xs font-black uppercase tracking-widest shadow-xl shadow-indigo-200 hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50">
+            {isSaving ? 'Saving...' : 'Save Mapping'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FieldMappingEditor;
@@ -0,0 +1,386 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CustomFieldDefinition, ImportField, ImportMapping, Lead, LeadImportPreset, User } from '../types.ts';
+import { detectDelimiter, parseCsv } from '../lib/csv.ts';
+import { readXlsx } from '../lib/xlsx.ts';
+import { parseVCard } from '../lib/vcard.ts';
+import { detectContactLayout } from '../lib/contactLayouts.ts';
+import { RelatedLeadDraft, newRelatedLead } from '../lib/relationships.ts';
+import { findDuplicatesOf } from '../lib/leadDuplicates.ts';
+import {
+  IMPORT_FIELDS,
+  ImportDefaults,
+  ImportPreviewRow,
+  ImportRowStatus,
+  buildErrorReport,
+  customImportField,
+  guessMapping,
+  normalizeHeader,
+  previewImport,
+  toImportRows
+} from '../lib/leadImport.ts';
+import { importPresetService } from '../services/importPresetService.ts';
+
+interface ImportWizardProps {
+  brokerageId: string;
+  currentUser: User;
+  leads: Lead[];
+  // "Leads" or "Contacts"; used in headings and the report file name
+  entityLabel: string;
+  defaults: Omit<ImportDefaults, 'authorId' | 'authorName'>;
+  onImport: (newLeads: Lead[]) => Promise<Lead[]> | void;
+  // Creates and links the spouses found in spouse columns, once their leads are saved
+  onAddRelatedLeads?: (drafts: RelatedLeadDraft[]) => Promise<unknown> | void;
+  onClose: () => void;
+  // Lead custom fields offered as import targets
+  customFields?: CustomFieldDefinition[];
+  isDarkMode?: boolean;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'map', label: 'Map Columns' },
+  { id: 'preview', label: 'Dry Run' },
+  { id: 'done', label: 'Done' }
+];
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  READY: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  DUPLICATE: 'bg-amber-50 text-amber-600 border-amber-100',
+  INVALID: 'bg-rose-50 text-rose-600 border-rose-100'
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({
+  brokerageId,
+  currentUser,
+  leads,
+  entityLabel,
+  defaults,
+  onImport,
+  onAddRelatedLeads,
+  onClose,
+  customFields = [],
+  isDarkMode
+}) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  // Set when the file was recognized as vCard or a Google / Outlook contacts export
+  const [detectedFormat, setDetectedFormat] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [presets, setPresets] = useState<LeadImportPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | 'ALL'>('ALL');
+  const [importDuplicates, setImportDuplicates] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    importPresetService.getPresets(brokerageId).then(setPresets);
+  }, [brokerageId]);
+
+  const livePreview = useMemo<ImportPreviewRow[]>(
+    () => step === 'preview'
+      ? previewImport(rows, headers, mapping, { ...defaults, authorId: currentUser.id, authorName: `${currentUser.firstName} ${currentUser.lastName}` }, leads, customFields)
+      : [],
+    [step, rows, headers, mapping, leads]
+  );
+  // Frozen once imported; the new leads would otherwise show up as duplicates of themselves
+  const [importedRows, setImportedRows] = useState<ImportPreviewRow[]>([]);
+  const preview = step === 'done' ? importedRows : livePreview;
+
+  const counts = useMemo(() => ({
+    READY: preview.filter(r => r.status === 'READY').length,
+    DUPLICATE: preview.filter(r => r.status === 'DUPLICATE').length,
+    INVALID: preview.filter(r => r.status === 'INVALID').length
+  }), [preview]);
+
+  const toImport = preview.filter(r => r.status === 'READY' || (importDuplicates && r.status === 'DUPLICATE'));
+  const notImported = preview.filter(r => !toImport.includes(r));
+  const mappedFields = new Set(Object.values(mapping));
+
+  const loadRows = (parsed: string[][], name: string, format: string | null = null) => {
+    const layout = format ? null : detectContactLayout(parsed[0] || []);
+    const [headerRow, ...dataRows] = layout ? toImportRows(layout.toRecords(parsed[0], parsed.slice(1))) : parsed;
+    if (!headerRow || dataRows.length === 0) {
+      setError(format === 'vCard file' ? 'No contacts were found in that vCard file.' : 'That file has no data rows. The first row must contain column headers.');
+      return;
+    }
+    setError(null);
+    setFileName(name);
+    setDetectedFormat(layout ? `${layout.name} export` : format);
+    setHeaders(headerRow.map(h => h.trim()));
+    setRows(dataRows);
+    setMapping(guessMapping(headerRow, {}, customFields));
+    setStep('map');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      if (/\.xlsx$/i.test(file.name)) {
+        loadRows(await readXlsx(await file.arrayBuffer()), file.name);
+      } else if (/\.vcf$/i.test(file.name)) {
+        loadRows(toImportRows(parseVCard(await file.text())), file.name, 'vCard file');
+      } else {
+        const text = await file.text();
+        loadRows(parseCsv(text, detectDelimiter(text)), file.name);
+      }
+    } catch (err: any) {
+      setError(err?.message || 'Unable to read that file.');
+    }
+  };
+
+  const setColumnField = (header: string, field: ImportField | '') => {
+    const key = normalizeHeader(header);
+    setMapping(prev => {
+      // A field can only come from one column
+      const next = Object.fromEntries(Object.entries(prev).filter(([k, f]) => k !== key && f !== field)) as ImportMapping;
+      if (field) next[key] = field;
+      return next;
+    });
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) return;
+    setMapping(guessMapping(headers, preset.mapping, customFields));
+    setPresetName(preset.name);
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const saved = await importPresetService.savePreset(brokerageId, name, mapping, currentUser.id);
+    if (!saved) {
+      setError('Unable to save the mapping preset. Please try again.');
+      return;
+    }
+    setPresets(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const handleDeletePreset = async (preset: LeadImportPreset) => {
+    if (await importPresetService.deletePreset(preset.id)) {
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const created = await onImport(toImport.map(r => r.lead!));
+      if (created && onAddRelatedLeads) {
+        // A spouse who is already a lead, or has a row of their own in the file, is linked as is
+        const pool = [...leads, ...created];
+        const drafts = toImport.flatMap((row, i) => {
+          if (!row.householdMember || !created[i]) return [];
+          const spouse = newRelatedLead(created[i], row.householdMember);
+          const [match] = findDuplicatesOf(spouse, pool.filter(l => l.id !== created[i].id));
+          return [{ lead: created[i], related: match ? match.lead : spouse, isNew: !match, type: 'SPOUSE' as const }];
+        });
+        if (drafts.length > 0) await onAddRelatedLeads(drafts);
+      }
+      setImportedRows(livePreview);
+      setImportedCount(created ? created.length : toImport.length);
+      setStep('done');
+    } catch (err: any) {
+      setError(err?.message || `Unable to import ${entityLabel.toLowerCase()}. Please try again.`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    const blob = new Blob([buildErrorReport(headers, notImported)], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${entityLabel.toLowerCase()}_import_errors_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const inputClass = `w-full px-4 py-3 border rounded-xl font-bold focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-200 text-slate-800'}`;
+  const secondaryButton = `px-6 py-4 rounded-2xl text-xs font-black uppercase tracking-widest transition-all ${isDarkMode ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`;
+  const primaryButton = 'px-8 py-4 bg-indigo-600 text-white rounded-2xl text-xs font-black uppercase tracking-widest shadow-xl shadow-indigo-200 hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50';
+  const stepIndex = STEPS.findIndex(s => s.id === step);
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={isImporting ? undefined : onClose}></div>
+      <div className={`rounded-[2.5rem] shadow-2xl border w-full max-w-5xl max-h-[90vh] flex flex-col p-10 relative z-10 animate-in zoom-in-95 duration-200 text-[12px] ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-4">
+            <div className="w-14 h-14 bg-indigo-50 text-indigo-500 rounded-2xl flex items-center justify-center text-xl shadow-sm border border-indigo-100">
+              <i className="fas fa-file-import"></i>
+            </div>
+            <div>
+              <h3 className={`text-xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Import {entityLabel}</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{fileName || 'Spreadsheet, contacts export or vCard'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={isImporting} className="w-10 h-10 rounded-xl text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-all">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-8">
+          {STEPS.map((s, i) => (
+            <div key={s.id} className={`flex-1 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-center ${
+              i === stepIndex ? 'bg-indigo-600 text-white' : i < stepIndex ? 'bg-indigo-50 text-indigo-600' : isDarkMode ? 'bg-slate-800 text-slate-500' : 'bg-slate-100 text-slate-400'
+            }`}>
+              {i + 1}. {s.label}
+            </div>
+          ))}
+        </div>
+
+        {step === 'upload' && (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={`flex-1 min-h-[240px] border-2 border-dashed rounded-[2rem] flex flex-col items-center justify-center space-y-3 transition-all ${isDarkMode ? 'border-slate-700 hover:border-indigo-500' : 'border-slate-200 hover:border-indigo-400 hover:bg-indigo-50/40'}`}
+          >
+            <i className="fas fa-cloud-arrow-up text-4xl text-indigo-400"></i>
+            <span className={`text-sm font-black ${isDarkMode ? 'text-white' : 'text-slate-700'}`}>Choose a CSV, Excel (.xlsx) or vCard (.vcf) file</span>
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Spreadsheets need column headers in the first row · Google Contacts and Outlook exports are recognized</span>
+          </button>
+        )}
+        <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,.tsv,.txt,.xlsx,.vcf" className="hidden" />
+
+        {step === 'map' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            {detectedFormat && (
+              <p className="mb-4 rounded-xl px-4 py-3 bg-indigo-50 text-indigo-700 font-semibold">
+                <i className="fas fa-wand-magic-sparkles mr-2"></i>Recognized a {detectedFormat}; names, phones, addresses, spouses and dates have been mapped for you.
+              </p>
+            )}
+            <div className={`mb-4 p-4 rounded-2xl border flex flex-wrap items-center gap-3 ${isDarkMode ? 'bg-slate-800/50 border-slate-800' : 'bg-slate-50 border-slate-100'}`}>
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Preset</span>
+              <select onChange={(e) => applyPreset(e.target.value)} value={presets.find(p => p.name === presetName)?.id || ''} className={`${inputClass} !w-56`}>
+                <option value="">Auto-detected</option>
+                {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              {presets.some(p => p.name === presetName) && (
+                <button onClick={() => handleDeletePreset(presets.find(p => p.name === presetName)!)} className="w-10 h-10 rounded-xl text-rose-400 hover:bg-rose-50 transition-all" title="Delete preset">
+                  <i className="fas fa-trash-can"></i>
+                </button>
+              )}
+              <div className="flex-1"></div>
+              <input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name, e.g. Follow Up Boss export" className={`${inputClass} !w-72`} />
+              <button onClick={handleSavePreset} disabled={!presetName.trim()} className="px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all disabled:opacity-50">
+                <i className="fas fa-floppy-disk mr-2"></i>Save Mapping
+              </button>
+            </div>
+
+            <div className={`flex-1 overflow-y-auto border rounded-2xl divide-y ${isDarkMode ? 'border-slate-800 divide-slate-800' : 'border-slate-200 divide-slate-100'}`}>
+              {headers.map((header, col) => (
+                <div key={`${header}_${col}`} className="px-6 py-3 grid grid-cols-[1fr_1fr_240px] items-center gap-6">
+                  <span className={`font-black truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{header || `Column ${col + 1}`}</span>
+                  <span className="text-slate-400 font-bold truncate">{rows.slice(0, 3).map(r => r[col]).filter(Boolean).join(' · ') || '—'}</span>
+                  <select value={mapping[normalizeHeader(header)] || ''} onChange={(e) => setColumnField(header, e.target.value as ImportField | '')} className={inputClass}>
+                    <option value="">Don't import</option>
+                    {IMPORT_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+                    {customFields.some(d => d.entity === 'lead') && (
+                      <optgroup label="Custom Fields">
+                        {customFields.filter(d => d.entity === 'lead').map(d => <option key={d.id} value={customImportField(d)}>{d.label}</option>)}
+                      </optgroup>
+                    )}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {!mappedFields.has('firstName') && !mappedFields.has('fullName') && (
+              <p className="mt-4 rounded-xl px-4 py-3 bg-amber-50 text-amber-700 font-semibold">Map a First Name or Full Name column; rows without a name cannot be imported.</p>
+            )}
+          </div>
+        )}
+
+        {(step === 'preview' || step === 'done') && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <div className="grid grid-cols-3 gap-4 mb-4">
+              {(['READY', 'DUPLICATE', 'INVALID'] as ImportRowStatus[]).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(statusFilter === status ? 'ALL' : status)}
+                  className={`p-4 rounded-2xl border text-left transition-all ${STATUS_STYLES[status]} ${statusFilter === status ? 'ring-2 ring-indigo-500/30' : ''}`}
+                >
+                  <p className="text-2xl font-black">{counts[status]}</p>
+                  <p className="text-[10px] font-black uppercase tracking-widest">{status === 'READY' ? 'Ready' : status === 'DUPLICATE' ? 'Possible Duplicates' : 'Invalid'}</p>
+                </button>
+              ))}
+            </div>
+
+            {step === 'done' && (
+              <p className="mb-4 rounded-xl px-4 py-3 bg-emerald-50 text-emerald-700 font-semibold">
+                Imported {importedCount} {entityLabel.toLowerCase()}. {notImported.length > 0 ? `${notImported.length} row${notImported.length === 1 ? ' was' : 's were'} skipped; download the error report to fix and re-import them.` : ''}
+              </p>
+            )}
+
+            <div className={`flex-1 overflow-y-auto border rounded-2xl divide-y ${isDarkMode ? 'border-slate-800 divide-slate-800' : 'border-slate-200 divide-slate-100'}`}>
+              {preview.filter(r => statusFilter === 'ALL' || r.status === statusFilter).map(row => (
+                <div key={row.rowNumber} className="px-6 py-3 grid grid-cols-[60px_110px_1fr_1.4fr] items-center gap-4">
+                  <span className="text-[10px] font-black text-slate-400">Row {row.rowNumber}</span>
+                  <span className={`px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest border text-center ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                  <span className={`font-black truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>
+                    {row.lead ? `${row.lead.firstName} ${row.lead.lastName}` : row.cells.filter(Boolean).slice(0, 2).join(' ')}
+                    {row.lead && <span className="ml-2 font-bold text-slate-400">{row.lead.email || row.lead.phone}</span>}
+                  </span>
+                  <span className={`font-semibold truncate ${row.status === 'INVALID' ? 'text-rose-500' : 'text-amber-600'}`} title={row.errors.join('\n')}>{row.errors.join('; ')}</span>
+                </div>
+              ))}
+            </div>
+
+            {step === 'preview' && counts.DUPLICATE > 0 && (
+              <label className="mt-4 flex items-center space-x-3 cursor-pointer">
+                <input type="checkbox" checked={importDuplicates} onChange={(e) => setImportDuplicates(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                <span className="font-bold text-slate-500">Import possible duplicates anyway (they can be merged later from the duplicates queue)</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mt-4 rounded-xl px-4 py-3 bg-rose-50 text-rose-600 font-semibold">{error}</p>}
+
+        <div className="mt-6 flex items-center justify-end space-x-3">
+          {step === 'map' && (
+            <>
+              <button onClick={() => setStep('upload')} className={secondaryButton}>Back</button>
+              <button onClick={() => { setStatusFilter('ALL'); setStep('preview'); }} disabled={!mappedFields.has('firstName') && !mappedFields.has('fullName')} className={primaryButton}>
+                <i className="fas fa-flask mr-2"></i>Run Dry Run
+              </button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button onClick={() => setStep('map')} disabled={isImporting} className={secondaryButton}>Back</button>
+              {notImported.length > 0 && (
+                <button onClick={downloadErrorReport} className={secondaryButton}><i className="fas fa-file-csv mr-2"></i>Error Report</button>
+              )}
+              <button onClick={handleImport} disabled={isImporting || toImport.length === 0} className={primaryButton}>
+                <i className={`fas ${isImporting ? 'fa-circle-notch fa-spin' : 'fa-file-import'} mr-2`}></i>Import {toImport.length} {entityLabel}
+              </button>
+            </>
+          )}
+          {step === 'done' && (
+            <>
+              {notImported.length > 0 && (
+                <button onClick={downloadErrorReport} className={secondaryButton}><i className="fas fa-file-csv mr-2"></i>Download Error Report</button>
+              )}
+              <button onClick={onClose} className={primaryButton}>Close</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
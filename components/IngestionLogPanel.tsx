@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { IngestionLogEntry, IngestionStatus, IntegrationProvider, Lead, LeadFieldMapping } from '../types.ts';
+import { ingestionLogService } from '../services/ingestionLogService.ts';
+import FieldMappingEditor from './FieldMappingEditor.tsx';
+
+interface IngestionLogPanelProps {
+  brokerageId: string;
+  provider: IntegrationProvider;
+  fieldMapping?: LeadFieldMapping;
+  currentUserId: string;
+  activeAgentIds: string[];
+  onSaveFieldMapping?: (fieldMapping: LeadFieldMapping) => Promise<void>;
+  onLeadIngested?: (lead: Lead) => void;
+  onLogsChanged?: () => void;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+const STATUS_STYLES: Record<IngestionStatus, string> = {
+  SUCCESS: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  FAILED: 'bg-rose-50 text-rose-600 border-rose-100',
+  DUPLICATE: 'bg-amber-50 text-amber-600 border-amber-100',
+  PENDING: 'bg-slate-100 text-slate-500 border-slate-200'
+};
+
+// PENDING entries whose request never finished are dead-lettered just like failures
+const isReplayable = (entry: IngestionLogEntry) => entry.status === 'FAILED' || entry.status === 'PENDING';
+
+const IngestionLogPanel: React.FC<IngestionLogPanelProps> = ({
+  brokerageId,
+  provider,
+  fieldMapping,
+  currentUserId,
+  activeAgentIds,
+  onSaveFieldMapping,
+  onLeadIngested,
+  onLogsChanged,
+  onClose,
+  isDarkMode
+}) => {
+  const [entries, setEntries] = useState<IngestionLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showFailedOnly, setShowFailedOnly] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draftPayload, setDraftPayload] = useState('');
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  // Payload the mapping editor previews against; set while the editor is open
+  const [mappingSample, setMappingSample] = useState<unknown>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    ingestionLogService.getLogs(brokerageId, provider.id).then(rows => {
+      if (cancelled) return;
+      setEntries(rows);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [brokerageId, provider.id]);
+
+  const visibleEntries = showFailedOnly ? entries.filter(isReplayable) : entries;
+  const selected = entries.find(e => e.id === selectedId) || null;
+
+  const selectEntry = (entry: IngestionLogEntry) => {
+    setSelectedId(entry.id);
+    setDraftPayload(typeof entry.payload === 'string' ? entry.payload : JSON.stringify(entry.payload, null, 2));
+    setDraftError(null);
+  };
+
+  const parseDraft = (): unknown => {
+    try {
+      return JSON.parse(draftPayload);
+    } catch (error: any) {
+      setDraftError(`Payload is not valid JSON: ${error?.message || String(error)}`);
+      return undefined;
+    }
+  };
+
+  const handleReplay = async () => {
+    if (!selected) return;
+    const payload = parseDraft();
+    if (payload === undefined) return;
+
+    setIsReplaying(true);
+    try {
+      const { entry, lead } = await ingestionLogService.replay(
+        selected,
+        payload,
+        { fallbackAgentId: currentUserId, activeAgentIds },
+        fieldMapping
+      );
+      setEntries(prev => prev.map(e => e.id === entry.id ? entry : e));
+      setDraftError(entry.status === 'SUCCESS' ? null : entry.error || 'Replay failed');
+      if (lead) onLeadIngested?.(lead);
+      onLogsChanged?.();
+    } catch (error) {
+      setDraftError('Could not record the replay. Please try again.');
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!selected) return;
+    if (!confirm('Discard this payload? It will be removed from the ingestion log.')) return;
+
+    if (await ingestionLogService.deleteLog(selected.id)) {
+      setEntries(prev => prev.filter(e => e.id !== selected.id));
+      setSelectedId(null);
+      onLogsChanged?.();
+    }
+  };
+
+  const inputClass = `w-full border rounded-xl px-4 py-3 font-mono text-xs outline-none transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-200 focus:bg-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}></div>
+      <div className={`rounded-[2.5rem] shadow-2xl border w-full max-w-6xl max-h-[90vh] flex flex-col p-10 relative z-10 animate-in zoom-in-95 duration-200 text-[12px] ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <div className="w-14 h-14 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center text-xl shadow-sm border border-indigo-100">
+              <i className={provider.icon}></i>
+            </div>
+            <div>
+              <h3 className={`text-xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{provider.name} Ingestion Log</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Fix failed payloads and replay them into the CRM</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowFailedOnly(prev => !prev)}
+              className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${showFailedOnly ? 'bg-rose-50 text-rose-600 border-rose-100' : isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700' : 'bg-slate-100 text-slate-500 border-slate-200'}`}
+            >
+              {showFailedOnly ? 'Failures Only' : 'All Payloads'}
+            </button>
+            <button onClick={onClose} className="w-10 h-10 rounded-xl text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-all">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 min-h-0 flex-1">
+          <div className={`lg:col-span-2 border rounded-2xl overflow-y-auto ${isDarkMode ? 'border-slate-800 divide-slate-800' : 'border-slate-200 divide-slate-100'} divide-y`}>
+            {isLoading && (
+              <p className="p-6 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <i className="fas fa-circle-notch fa-spin mr-2"></i>Loading log
+              </p>
+            )}
+            {!isLoading && visibleEntries.length === 0 && (
+              <p className="p-6 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                {showFailedOnly ? 'No failed payloads' : 'No payloads received yet'}
+              </p>
+            )}
+            {visibleEntries.map(entry => (
+              <button
+                key={entry.id}
+                onClick={() => selectEntry(entry)}
+                className={`w-full text-left px-5 py-4 transition-all ${entry.id === selectedId ? isDarkMode ? 'bg-slate-800' : 'bg-indigo-50/60' : isDarkMode ? 'hover:bg-slate-800/60' : 'hover:bg-slate-50'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={`px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest border ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                  <span className="text-[10px] font-bold text-slate-400">{new Date(entry.createdAt).toLocaleString()}</span>
+                </div>
+                <p className={`mt-2 font-semibold truncate ${entry.error ? 'text-rose-500' : isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                  {entry.error || (entry.externalId ? `Inquiry ${entry.externalId}` : 'Lead created')}
+                </p>
+                {entry.attempts > 1 && (
+                  <p className="text-[10px] font-bold text-slate-400 mt-1">{entry.attempts} attempts</p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="lg:col-span-3 flex flex-col space-y-4 min-h-0">
+            {!selected ? (
+              <div className={`flex-1 border-2 border-dashed rounded-2xl flex items-center justify-center text-[10px] font-black text-slate-400 uppercase tracking-widest ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+                Select a payload to inspect it
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Payload</label>
+                  {selected.leadId && (
+                    <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">Lead {selected.leadId.slice(0, 8)}</span>
+                  )}
+                </div>
+                <textarea
+                  className={`${inputClass} flex-1 min-h-[260px] resize-none`}
+                  value={draftPayload}
+                  readOnly={!isReplayable(selected)}
+                  onChange={e => { setDraftPayload(e.target.value); setDraftError(null); }}
+                />
+                {draftError && (
+                  <p className="rounded-xl px-4 py-3 bg-rose-50 text-rose-600 font-semibold">{draftError}</p>
+                )}
+                {isReplayable(selected) && (
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      onClick={handleReplay}
+                      disabled={isReplaying}
+                      className="px-6 py-4 bg-indigo-600 text-white rounded-2xl text-xs font-black uppercase tracking-widest shadow-xl shadow-indigo-200 hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50"
+                    >
+                      <i className={`fas ${isReplaying ? 'fa-circle-notch fa-spin' : 'fa-rotate-right'} mr-2`}></i>Replay
+                    </button>
+                    {onSaveFieldMapping && (
+                      <button
+                        onClick={() => setMappingSample(parseDraft())}
+                        className={`px-6 py-4 rounded-2xl text-xs font-black uppercase tracking-widest transition-all ${isDarkMode ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                      >
+                        <i className="fas fa-sliders mr-2"></i>Fix Mapping
+                      </button>
+                    )}
+                    <button
+                      onClick={handleDiscard}
+                      className="px-6 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-rose-600 hover:bg-rose-50 transition-all"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {mappingSample !== undefined && onSaveFieldMapping && (
+        <FieldMappingEditor
+          fieldMapping={fieldMapping}
+          samplePayload={mappingSample}
+          onSave={onSaveFieldMapping}
+          onClose={() => setMappingSample(undefined)}
+          isDarkMode={isDarkMode}
+        />
+      )}
+    </div>
+  );
+};
+
+export default IngestionLogPanel;
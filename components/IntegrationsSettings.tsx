@@ -1,62 +1,98 @@
-import React, { useState } from 'react';
-import { IntegrationProvider, Brokerage } from '../types.ts';
+import React, { useState, useEffect } from 'react';
+import { IntegrationProvider, LeadIntegration, LeadFieldMapping, Brokerage, Lead } from '../types.ts';
+import { integrationService } from '../services/integrationService.ts';
+import { ingestionLogService } from '../services/ingestionLogService.ts';
+import FieldMappingEditor from './FieldMappingEditor.tsx';
+import IngestionLogPanel from './IngestionLogPanel.tsx';
 
 interface IntegrationsSettingsProps {
   brokerage: Brokerage;
+  currentUserId: string;
+  activeAgentIds: string[];
+  onLeadIngested?: (lead: Lead) => void;
   isDarkMode?: boolean;
 }
 
-const INITIAL_PROVIDERS: IntegrationProvider[] = [
-  {
-    id: 'zillow',
-    name: 'Zillow Tech Connect',
-    icon: 'fas fa-house-chimney',
-    status: 'ACTIVE',
-    webhookUrl: 'https://api.agentdesk360.com/v1/ingest/zillow/brk_7721',
-    apiKey: 'zk_live_55219928341',
-    lastIngestionAt: new Date().toISOString()
-  },
-  {
-    id: 'realtor',
-    name: 'Realtor.com Leads',
-    icon: 'fas fa-house-circle-check',
-    status: 'ACTIVE',
-    webhookUrl: 'https://api.agentdesk360.com/v1/ingest/realtor/brk_7721',
-    apiKey: 'rk_live_99211002345',
-    lastIngestionAt: new Date(Date.now() - 86400000).toISOString()
-  },
-  {
-    id: 'upnest',
-    name: 'UpNest Integration',
-    icon: 'fas fa-rocket',
-    status: 'INACTIVE',
-    webhookUrl: 'https://api.agentdesk360.com/v1/ingest/upnest/brk_7721'
-  },
-  {
-    id: 'fastexpert',
-    name: 'FastExpert',
-    icon: 'fas fa-bolt',
-    status: 'INACTIVE',
-    webhookUrl: 'https://api.agentdesk360.com/v1/ingest/fastexpert/brk_7721'
-  },
-  {
-    id: 'custom',
-    name: 'Custom Website Hook',
-    icon: 'fas fa-code',
-    status: 'ACTIVE',
-    webhookUrl: 'https://api.agentdesk360.com/v1/ingest/webhook/brk_7721',
-    apiKey: 'ck_live_1122334455'
-  }
+// Providers the ingest-lead endpoint accepts; connection state comes from lead_integrations
+const PROVIDER_CATALOG: Pick<IntegrationProvider, 'id' | 'name' | 'icon'>[] = [
+  { id: 'zillow', name: 'Zillow Tech Connect', icon: 'fas fa-house-chimney' },
+  { id: 'realtor', name: 'Realtor.com Leads', icon: 'fas fa-house-circle-check' },
+  { id: 'upnest', name: 'UpNest Integration', icon: 'fas fa-rocket' },
+  { id: 'fastexpert', name: 'FastExpert', icon: 'fas fa-bolt' },
+  { id: 'custom', name: 'Custom Website Hook', icon: 'fas fa-code' }
 ];
 
-const IntegrationsSettings: React.FC<IntegrationsSettingsProps> = ({ brokerage, isDarkMode }) => {
-  const [providers, setProviders] = useState<IntegrationProvider[]>(INITIAL_PROVIDERS);
+const IntegrationsSettings: React.FC<IntegrationsSettingsProps> = ({ brokerage, currentUserId, activeAgentIds, onLeadIngested, isDarkMode }) => {
+  const [integrations, setIntegrations] = useState<LeadIntegration[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [mappingProviderId, setMappingProviderId] = useState<string | null>(null);
+  const [logProviderId, setLogProviderId] = useState<string | null>(null);
+  const [failureCounts, setFailureCounts] = useState<Record<string, number>>({});
 
-  const toggleStatus = (id: string) => {
-    setProviders(prev => prev.map(p => 
-      p.id === id ? { ...p, status: p.status === 'ACTIVE' ? 'INACTIVE' : 'ACTIVE' } : p
-    ));
+  const loadFailureCounts = () => {
+    ingestionLogService.getFailureCounts(brokerage.id).then(setFailureCounts);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    integrationService.getIntegrations(brokerage.id).then(rows => {
+      if (cancelled) return;
+      setIntegrations(rows);
+      setIsLoading(false);
+    });
+    loadFailureCounts();
+    return () => { cancelled = true; };
+  }, [brokerage.id]);
+
+  const providers: IntegrationProvider[] = PROVIDER_CATALOG.map(entry => {
+    const integration = integrations.find(i => i.provider === entry.id);
+    return {
+      ...entry,
+      status: integration?.status || 'INACTIVE',
+      webhookUrl: integrationService.getWebhookUrl(entry.id, brokerage.id),
+      apiKey: integration?.apiKey,
+      lastIngestionAt: integration?.lastIngestionAt
+    };
+  });
+
+  const storeIntegration = (updated: LeadIntegration) => {
+    setIntegrations(prev => [...prev.filter(i => i.provider !== updated.provider), updated]);
+  };
+
+  const toggleStatus = async (provider: IntegrationProvider) => {
+    setPendingId(provider.id);
+    try {
+      const next = provider.status === 'ACTIVE' ? 'INACTIVE' : 'ACTIVE';
+      storeIntegration(await integrationService.setStatus(brokerage.id, provider.id, next));
+    } catch (error) {
+      alert('Failed to update the connection. Please try again.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const regenerateKey = async (provider: IntegrationProvider) => {
+    const integration = integrations.find(i => i.provider === provider.id);
+    if (!integration) return;
+    if (!confirm(`Generate a new API key for ${provider.name}? The current key will stop working immediately.`)) return;
+
+    setPendingId(provider.id);
+    try {
+      storeIntegration(await integrationService.regenerateApiKey(integration.id));
+    } catch (error) {
+      alert('Failed to regenerate the API key. Please try again.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const saveFieldMapping = async (providerId: string, fieldMapping: LeadFieldMapping) => {
+    const integration = integrations.find(i => i.provider === providerId);
+    if (!integration) return;
+    storeIntegration(await integrationService.updateFieldMapping(integration.id, fieldMapping));
   };
 
   const copyToClipboard = (text: string, id: string) => {
@@ -73,7 +109,13 @@ const IntegrationsSettings: React.FC<IntegrationsSettingsProps> = ({ brokerage,
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {providers.map(provider => (
+        {isLoading && (
+          <div className="md:col-span-2 py-10 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            <i className="fas fa-circle-notch fa-spin mr-2"></i>Loading connections
+          </div>
+        )}
+
+        {!isLoading && providers.map(provider => (
           <div key={provider.id} className={`border rounded-[2rem] p-8 shadow-sm transition-all flex flex-col group ${isDarkMode ? 'bg-slate-900 border-slate-800 hover:border-indigo-500' : 'bg-white border-slate-200 hover:border-indigo-300'}`}>
             <div className="flex items-center justify-between mb-6">
               <div className="flex items-center space-x-4">
@@ -83,13 +125,18 @@ const IntegrationsSettings: React.FC<IntegrationsSettingsProps> = ({ brokerage,
                 <div>
                   <h4 className={`text-lg font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{provider.name}</h4>
                   <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
-                    {provider.status === 'ACTIVE' ? `Last sync: ${new Date(provider.lastIngestionAt || '').toLocaleDateString()}` : 'Connection Pending'}
+                    {provider.status !== 'ACTIVE'
+                      ? 'Connection Pending'
+                      : provider.lastIngestionAt
+                        ? `Last sync: ${new Date(provider.lastIngestionAt).toLocaleString()}`
+                        : 'Awaiting first lead'}
                   </p>
                 </div>
               </div>
               <button 
-                onClick={() => toggleStatus(provider.id)}
-                className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                onClick={() => toggleStatus(provider)}
+                disabled={pendingId === provider.id}
+                className={`px-4 py-2 disabled:opacity-50 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
                   provider.status === 'ACTIVE' 
                     ? 'bg-emerald-50 text-emerald-600 border-emerald-100' 
                     : isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:bg-slate-700' : 'bg-slate-100 text-slate-500 border-slate-200 hover:bg-slate-200'
@@ -115,7 +162,16 @@ const IntegrationsSettings: React.FC<IntegrationsSettingsProps> = ({ brokerage,
 
               {provider.apiKey && (
                 <div className="space-y-2">
-                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">API Header Secret</label>
+                  <div className="flex items-center justify-between">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">X-Api-Key Header</label>
+                    <button
+                      onClick={() => regenerateKey(provider)}
+                      disabled={pendingId === provider.id}
+                      className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-400 transition-colors disabled:opacity-50"
+                    >
+                      <i className="fas fa-rotate mr-1"></i>Regenerate
+                    </button>
+                  </div>
                   <div className={`flex items-center space-x-2 border rounded-xl px-4 py-3 transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 group-hover:bg-slate-700' : 'bg-slate-50 border-slate-100 group-hover:bg-white group-hover:border-slate-200'}`}>
                     <code className="text-xs text-slate-500 font-bold truncate flex-1">••••••••••••••••••••</code>
                     <button 
@@ -129,10 +185,25 @@ const IntegrationsSettings: React.FC<IntegrationsSettingsProps> = ({ brokerage,
               )}
             </div>
 
-            <div className={`mt-8 pt-6 border-t ${isDarkMode ? 'border-slate-800' : 'border-slate-50'}`}>
-               <button className="text-[10px] font-black text-indigo-400 uppercase tracking-widest flex items-center hover:translate-x-1 transition-transform">
-                 View Ingestion Logs <i className="fas fa-arrow-right ml-2"></i>
+            <div className={`mt-8 pt-6 border-t flex flex-wrap items-center gap-x-6 gap-y-3 ${isDarkMode ? 'border-slate-800' : 'border-slate-50'}`}>
+               <button
+                 onClick={() => setLogProviderId(provider.id)}
+                 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest flex items-center hover:translate-x-1 transition-transform"
+               >
+                 View Ingestion Logs
+                 {failureCounts[provider.id] > 0 && (
+                   <span className="ml-2 px-2 py-0.5 rounded-lg bg-rose-50 text-rose-600 border border-rose-100">{failureCounts[provider.id]} failed</span>
+                 )}
+                 <i className="fas fa-arrow-right ml-2"></i>
                </button>
+               {provider.id === 'custom' && provider.apiKey && (
+                 <button
+                   onClick={() => setMappingProviderId(provider.id)}
+                   className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center hover:text-indigo-400 transition-colors"
+                 >
+                   <i className="fas fa-sliders mr-2"></i>Field Mapping
+                 </button>
+               )}
             </div>
           </div>
         ))}
@@ -163,6 +234,32 @@ const IntegrationsSettings: React.FC<IntegrationsSettingsProps> = ({ brokerage,
           </button>
         </div>
       </div>
+
+      {mappingProviderId && (
+        <FieldMappingEditor
+          fieldMapping={integrations.find(i => i.provider === mappingProviderId)?.fieldMapping}
+          onSave={fieldMapping => saveFieldMapping(mappingProviderId, fieldMapping)}
+          onClose={() => setMappingProviderId(null)}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
+      {logProviderId && (
+        <IngestionLogPanel
+          brokerageId={brokerage.id}
+          provider={providers.find(p => p.id === logProviderId)!}
+          fieldMapping={logProviderId === 'custom' ? integrations.find(i => i.provider === 'custom')?.fieldMapping : undefined}
+          currentUserId={currentUserId}
+          activeAgentIds={activeAgentIds}
+          onSaveFieldMapping={logProviderId === 'custom' && integrations.some(i => i.provider === 'custom')
+            ? fieldMapping => saveFieldMapping('custom', fieldMapping)
+            : undefined}
+          onLeadIngested={onLeadIngested}
+          onLogsChanged={loadFailureCounts}
+          onClose={() => setLogProviderId(null)}
+          isDarkMode={isDarkMode}
+        />
+      )}
     </div>
   );
 };
@@ -24,6 +24,7 @@ interface LayoutProps {
   dashboardFilterId?: string;
   onSetDashboardFilterId?: (id: string) => void;
   onShowBrokerAdmin?: () => void;
+  onOpenCommandPalette?: () => void;
 }
 
 const Layout: React.FC<LayoutProps> = ({
@@ -42,7 +43,8 @@ const Layout: React.FC<LayoutProps> = ({
   toggleDarkMode,
   dashboardFilterId,
   onSetDashboardFilterId,
-  onShowBrokerAdmin
+  onShowBrokerAdmin,
+  onOpenCommandPalette
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isProfileDropdownOpen, setIsProfileDropdownOpen] = useState(false);
@@ -69,6 +71,21 @@ const Layout: React.FC<LayoutProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Ctrl/Cmd-K opens the command palette from anywhere, including inside form fields
+  useEffect(() => {
+    if (!onOpenCommandPalette) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        onOpenCommandPalette();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onOpenCommandPalette]);
+
+  const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
   const adminUser = users.find(u => u.role === UserRole.BROKER);
   const otherAgents = users.filter(u => u.id !== user.id);
 
@@ -283,6 +300,17 @@ const Layout: React.FC<LayoutProps> = ({
             </div>
 
             <div className="flex items-center space-x-4">
+              {onOpenCommandPalette && (
+                <button
+                  onClick={onOpenCommandPalette}
+                  title="Search and commands"
+                  className={`h-12 px-4 flex items-center space-x-3 rounded-2xl border transition-all active:scale-95 shadow-sm ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                >
+                  <i className="fas fa-magnifying-glass text-base"></i>
+                  <kbd className={`hidden lg:inline px-2 py-0.5 rounded-lg border text-[10px] font-black ${isDarkMode ? 'border-slate-600' : 'border-slate-200'}`}>{isMac ? '⌘K' : 'Ctrl K'}</kbd>
+                </button>
+              )}
+
               <button 
                 onClick={toggleDarkMode}
                 className={`w-12 h-12 flex items-center justify-center rounded-2xl transition-all shadow-sm active:scale-95 border ${isDarkMode ? 'bg-indigo-600 border-indigo-500 text-white shadow-indigo-900/40' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
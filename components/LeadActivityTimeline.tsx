@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Lead, LeadActivity, LeadActivityType } from '../types.ts';
+import { leadActivityService, ActivityPage } from '../services/leadActivityService.ts';
+
+interface LeadActivityTimelineProps {
+  lead: Lead;
+  isDarkMode?: boolean;
+}
+
+const TZ = 'America/Los_Angeles';
+const PAGE_SIZE = 20;
+
+const TYPE_STYLES: Record<LeadActivityType, { label: string; icon: string; className: string }> = {
+  NOTE: { label: 'Notes', icon: 'fa-pen-nib', className: 'bg-indigo-50 text-indigo-600 border-indigo-100' },
+  EMAIL: { label: 'Emails', icon: 'fa-envelope', className: 'bg-sky-50 text-sky-600 border-sky-100' },
+  TASK: { label: 'Tasks', icon: 'fa-list-check', className: 'bg-amber-50 text-amber-600 border-amber-100' },
+  DEAL: { label: 'Deals', icon: 'fa-file-signature', className: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  OPEN_HOUSE: { label: 'Open Houses', icon: 'fa-door-open', className: 'bg-violet-50 text-violet-600 border-violet-100' },
+  STATUS: { label: 'Status', icon: 'fa-arrow-right-arrow-left', className: 'bg-slate-100 text-slate-600 border-slate-200' },
+};
+
+const ACTIVITY_TYPES = Object.keys(TYPE_STYLES) as LeadActivityType[];
+
+const formatStatus = (value: unknown) => typeof value === 'string' ? value.replace('_', ' ') : '';
+
+const formatMoney = (value: unknown) =>
+  typeof value === 'number' && value > 0 ? `$${value.toLocaleString()}` : '';
+
+// One-line heading for an entry, worded per type
+const describe = (item: LeadActivity): string => {
+  const { meta } = item;
+  switch (item.type) {
+    case 'EMAIL':
+      return `${meta.isBulk ? 'Bulk email' : 'Email'}: ${item.title || '(no subject)'}`;
+    case 'TASK':
+      return `${meta.event === 'COMPLETED' ? 'Task completed' : 'Task created'}: ${item.title}`;
+    case 'DEAL':
+      return [`${formatStatus(meta.side) || 'Deal'} transaction opened`, item.title].filter(Boolean).join(': ');
+    case 'OPEN_HOUSE':
+      return `Checked in at open house: ${item.title}`;
+    case 'STATUS': {
+      const field = meta.field === 'temperature' ? 'Temperature' : 'Status';
+      if (meta.from) return `${field} changed from ${formatStatus(meta.from)} to ${formatStatus(meta.to)}`;
+      return meta.field === 'temperature' ? `Temperature set to ${formatStatus(meta.to)}` : `Lead created as ${formatStatus(meta.to)}`;
+    }
+    default:
+      return item.title;
+  }
+};
+
+// Short type-specific facts shown under the heading
+const facts = (item: LeadActivity): string[] => {
+  const { meta } = item;
+  switch (item.type) {
+    case 'EMAIL':
+      return [
+        typeof meta.recipient === 'string' ? meta.recipient : '',
+        typeof meta.openedAt === 'string'
+          ? `Opened ${new Date(meta.openedAt).toLocaleString('en-US', { timeZone: TZ, month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+          : formatStatus(meta.status),
+      ];
+    case 'TASK':
+      return meta.event === 'CREATED'
+        ? [
+            typeof meta.dueDate === 'string' ? `Due ${new Date(meta.dueDate).toLocaleDateString('en-US', { timeZone: TZ, month: 'short', day: 'numeric' })}` : '',
+            typeof meta.priority === 'string' ? `${meta.priority} priority` : '',
+          ]
+        : [];
+    case 'DEAL':
+      return [formatStatus(meta.status), formatMoney(meta.salePrice)];
+    case 'OPEN_HOUSE':
+      return [formatStatus(meta.visitorType)];
+    default:
+      return [];
+  }
+};
+
+const dayKey = (iso: string) => new Date(iso).toLocaleDateString('en-CA', { timeZone: TZ });
+
+// Timeline order: newest first, ties broken by id the same way get_lead_activity pages
+const isOlder = (a: LeadActivity, b: LeadActivity) => {
+  const diff = Date.parse(a.occurredAt) - Date.parse(b.occurredAt);
+  return diff !== 0 ? diff < 0 : a.id < b.id;
+};
+
+/**
+ * Folds a freshly fetched first page into what is already loaded. The fresh page replaces
+ * the span it covers (picking up new, changed and removed entries) and older pages the
+ * user already loaded stay put. If more has happened than one page holds, the fresh page
+ * can't be stitched on without a gap, so it starts the list over.
+ */
+const mergeNewest = (loaded: ActivityPage, newest: ActivityPage): ActivityPage => {
+  const oldestFresh = newest.items[newest.items.length - 1];
+  if (!newest.hasMore || !oldestFresh) return newest;
+  const older = loaded.items.filter(item => isOlder(item, oldestFresh));
+  if (loaded.items.length > 0 && older.length === loaded.items.length) return newest;
+  return { items: [...newest.items, ...older], hasMore: loaded.hasMore };
+};
+
+const LeadActivityTimeline: React.FC<LeadActivityTimelineProps> = ({ lead, isDarkMode }) => {
+  const [timeline, setTimeline] = useState<ActivityPage>({ items: [], hasMore: false });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [activeTypes, setActiveTypes] = useState<LeadActivityType[]>([]);
+  // Bumped when the lead or type filter changes; responses for an older list are ignored
+  const generationRef = useRef(0);
+  const { items, hasMore } = timeline;
+
+  const load = useCallback(async () => {
+    const generation = ++generationRef.current;
+    const page = await leadActivityService.getActivity(lead.id, { types: activeTypes, limit: PAGE_SIZE });
+    if (generation !== generationRef.current) return;
+    setTimeline(page);
+    setIsLoading(false);
+  }, [lead.id, activeTypes]);
+
+  const refreshNewest = useCallback(async () => {
+    const generation = generationRef.current;
+    const page = await leadActivityService.getActivity(lead.id, { types: activeTypes, limit: PAGE_SIZE });
+    if (generation !== generationRef.current) return;
+    setTimeline(prev => mergeNewest(prev, page));
+  }, [lead.id, activeTypes]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    load();
+  }, [load]);
+
+  // Notes, status and temperature live on the lead row, so local edits refresh immediately too
+  useEffect(() => {
+    refreshNewest();
+  }, [lead.notes, lead.status, lead.temperature]);
+
+  useEffect(() => leadActivityService.subscribe(lead.id, () => refreshNewest()), [lead.id, refreshNewest]);
+
+  const loadOlder = async () => {
+    const last = items[items.length - 1];
+    if (!last) return;
+    setIsLoadingMore(true);
+    const generation = generationRef.current;
+    const page = await leadActivityService.getActivity(lead.id, {
+      types: activeTypes,
+      before: { at: last.occurredAt, id: last.id },
+      limit: PAGE_SIZE,
+    });
+    if (generation === generationRef.current) {
+      setTimeline(prev => ({ items: [...prev.items, ...page.items.filter(item => !prev.items.some(i => i.id === item.id))], hasMore: page.hasMore }));
+    }
+    setIsLoadingMore(false);
+  };
+
+  const toggleType = (type: LeadActivityType) => {
+    setActiveTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const groups = items.reduce<{ day: string; items: LeadActivity[] }[]>((acc, item) => {
+    const day = dayKey(item.occurredAt);
+    const group = acc[acc.length - 1];
+    if (group && group.day === day) group.items.push(item);
+    else acc.push({ day, items: [item] });
+    return acc;
+  }, []);
+
+  const chipClass = (active: boolean) => `px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all active:scale-95 ${
+    active
+      ? 'bg-indigo-600 text-white border-indigo-600 shadow-md'
+      : isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300'
+  }`;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between px-2">
+        <div className="flex items-center space-x-4">
+          <div className="w-10 h-10 bg-slate-900 text-white rounded-xl flex items-center justify-center text-base shadow-lg">
+            <i className="fas fa-timeline"></i>
+          </div>
+          <div>
+            <h4 className={`text-base font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Activity Timeline</h4>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Live across notes, email, tasks & deals</p>
+          </div>
+        </div>
+      </div>
+
+      <div className={`p-8 rounded-[3rem] border space-y-6 ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-100'}`}>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => setActiveTypes([])} className={chipClass(activeTypes.length === 0)}>All</button>
+          {ACTIVITY_TYPES.map(type => (
+            <button key={type} type="button" onClick={() => toggleType(type)} className={chipClass(activeTypes.includes(type))}>
+              <i className={`fas ${TYPE_STYLES[type].icon} mr-1.5`}></i>{TYPE_STYLES[type].label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="py-12 text-center text-slate-400">
+            <i className="fas fa-circle-notch fa-spin text-xl"></i>
+          </div>
+        ) : items.length === 0 ? (
+          <p className="py-12 text-center text-[11px] font-black uppercase tracking-widest text-slate-400">No activity yet</p>
+        ) : (
+          <div className="space-y-8 max-h-[600px] overflow-y-auto scrollbar-hide pr-2">
+            {groups.map(group => (
+              <div key={group.day} className="space-y-4">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  {new Date(group.items[0].occurredAt).toLocaleDateString('en-US', { timeZone: TZ, weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                </p>
+                <ol className={`relative border-l-2 ml-4 space-y-5 ${isDarkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+                  {group.items.map(item => {
+                    const style = TYPE_STYLES[item.type];
+                    const details = facts(item).filter(Boolean);
+                    return (
+                      <li key={item.id} className="pl-8 relative">
+                        <span className={`absolute -left-[17px] top-0 w-8 h-8 rounded-xl border flex items-center justify-center text-xs ${style.className}`}>
+                          <i className={`fas ${style.icon}`}></i>
+                        </span>
+                        <div className="flex items-start justify-between gap-4">
+                          <p className={`text-sm font-black leading-snug ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>{describe(item)}</p>
+                          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter whitespace-nowrap">
+                            {new Date(item.occurredAt).toLocaleTimeString('en-US', { timeZone: TZ, hour: 'numeric', minute: '2-digit' })}
+                          </span>
+                        </div>
+                        {item.detail && (
+                          <p className={`text-sm font-medium mt-1 line-clamp-3 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>{item.detail}</p>
+                        )}
+                        {(details.length > 0 || item.actorName) && (
+                          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                            {[...details, item.actorName ? `by ${item.actorName}` : ''].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            ))}
+
+            {hasMore && (
+              <div className="flex justify-center">
+                <button
+                  type="button"
+                  onClick={loadOlder}
+                  disabled={isLoadingMore}
+                  className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all disabled:opacity-50 ${isDarkMode ? 'border-slate-700 text-slate-300 hover:bg-slate-800' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                >
+                  {isLoadingMore ? <i className="fas fa-circle-notch fa-spin"></i> : 'Load older activity'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default LeadActivityTimeline;
@@ -1,15 +1,33 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Lead, User, LeadTemperature, LeadStatus, LeadNote } from '../types.ts';
+import { Lead, User, LeadTemperature, LeadStatus, LeadNote, LeadStatusChange, CustomFieldDefinition } from '../types.ts';
 import { getLeadInsight } from '../services/geminiService.ts';
+import LeadActivityTimeline from './LeadActivityTimeline.tsx';
+import StageAgingBadge from './StageAgingBadge.tsx';
+import LeadScoreCard from './LeadScoreCard.tsx';
+import DripEnrollmentsCard from './DripEnrollmentsCard.tsx';
+import CustomFieldInputs from './CustomFieldInputs.tsx';
+import LeadRelationshipsPanel from './LeadRelationshipsPanel.tsx';
+import { leadService } from '../services/leadService.ts';
+import { formatStageDuration, getStageStints, getTimeByStage, getTimeInStage } from '../lib/stageAging.ts';
+import { fieldsFor } from '../lib/customFields.ts';
+import { RelatedContact, RelatedLeadDraft } from '../lib/relationships.ts';
 
 interface LeadDetailProps {
   lead: Lead;
+  leads: Lead[];
+  related: RelatedContact[];
   user: User;
   onBack: () => void;
   onAddNote: (leadId: string, content: string) => void;
   onUpdateLead: (lead: Lead) => void;
+  onAddRelatedLeads: (drafts: RelatedLeadDraft[]) => Promise<unknown> | void;
+  onRemoveRelationship: (id: string) => void;
+  onSelectLead: (lead: Lead) => void;
   availableSources: string[];
   availableTags: string[];
+  customFields?: CustomFieldDefinition[];
+  // Lead scoring sets temperature, so the control is read-only
+  isTemperatureScored?: boolean;
   isDarkMode?: boolean;
 }
 
@@ -17,12 +35,19 @@ const TZ = 'America/Los_Angeles';
 
 const LeadDetail: React.FC<LeadDetailProps> = ({ 
   lead, 
+  leads,
+  related,
   user, 
   onBack, 
   onAddNote, 
   onUpdateLead,
+  onAddRelatedLeads,
+  onRemoveRelationship,
+  onSelectLead,
   availableSources,
   availableTags,
+  customFields = [],
+  isTemperatureScored = false,
   isDarkMode
 }) => {
   const [aiAdvice, setAiAdvice] = useState<string>('Generating tactical advice...');
@@ -32,8 +57,16 @@ const LeadDetail: React.FC<LeadDetailProps> = ({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
+  const [statusHistory, setStatusHistory] = useState<LeadStatusChange[]>([]);
+
   const topRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    leadService.getStatusHistory(lead.id).then(setStatusHistory);
+  }, [lead.id, lead.status]);
+
+  const timeByStage = getTimeByStage(getStageStints(lead, statusHistory));
+
   useEffect(() => {
     const fetchAdvice = async () => {
       const latestNoteContent = lead.notes.length > 0 ? lead.notes[0].content : '';
@@ -167,6 +200,7 @@ const LeadDetail: React.FC<LeadDetailProps> = ({
 
   const inputClass = `w-full border rounded-2xl px-6 py-4 text-base font-bold outline-none transition-all ${isDarkMode ? 'bg-slate-900 border-slate-700 text-white focus:ring-4 focus:ring-indigo-500/10' : 'bg-white border-slate-200 text-slate-800 focus:ring-4 focus:ring-indigo-500/10'}`;
   const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1 mb-2 block";
+  const leadCustomFields = fieldsFor(customFields, 'lead');
 
   return (
     <div className={`max-w-[1400px] mx-auto animate-in fade-in duration-500 pb-32 ${isDarkMode ? 'dark' : ''}`} ref={topRef}>
@@ -310,11 +344,13 @@ const LeadDetail: React.FC<LeadDetailProps> = ({
                       </select>
                     </div>
                     <div className="space-y-1">
-                      <label className={labelClass}>Temperature</label>
+                      <label className={labelClass}>Temperature{isTemperatureScored && ' · Set by lead scoring'}</label>
                       <select 
                         value={lead.temperature} 
                         onChange={(e) => updateField('temperature', e.target.value)}
-                        className={`${inputClass} font-black uppercase ${getTemperatureColor(lead.temperature)}`}
+                        disabled={isTemperatureScored}
+                        title={isTemperatureScored ? 'Lead scoring sets temperature from the score' : undefined}
+                        className={`${inputClass} font-black uppercase disabled:opacity-60 disabled:cursor-not-allowed ${getTemperatureColor(lead.temperature)}`}
                       >
                         {Object.values(LeadTemperature).map(t => <option key={t} value={t}>{t}</option>)}
                       </select>
@@ -338,50 +374,18 @@ const LeadDetail: React.FC<LeadDetailProps> = ({
                 </div>
               </section>
 
-              {/* SECONDARY CONTACT DETAILS SECTION */}
-              <section className="space-y-6">
-                <div className="flex items-center space-x-4 px-2">
-                  <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center text-base shadow-md">
-                    <i className="fas fa-user-plus"></i>
-                  </div>
-                  <h4 className={`text-base font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Secondary Contact Information</h4>
-                </div>
-
-                <div className={`rounded-[3rem] p-10 border space-y-8 ${isDarkMode ? 'bg-slate-800/40 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
-                  <div className="grid grid-cols-1 md:grid-cols-12 gap-8">
-                    <div className="md:col-span-3 space-y-1">
-                      <label className={labelClass}>Relationship</label>
-                      <select value={lead.secondaryContactRelationship || 'Spouse'} onChange={e => updateField('secondaryContactRelationship', e.target.value)} className={inputClass}>
-                        {RELATIONSHIP_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}
-                      </select>
-                    </div>
-                    <div className="md:col-span-9 grid grid-cols-2 gap-4">
-                      <div className="space-y-1">
-                        <label className={labelClass}>First Name</label>
-                        <input type="text" value={lead.spouseFirstName || ''} onChange={e => updateField('spouseFirstName', e.target.value)} className={inputClass} placeholder="Jane" />
-                      </div>
-                      <div className="space-y-1">
-                        <label className={labelClass}>Last Name</label>
-                        <input type="text" value={lead.spouseLastName || ''} onChange={e => updateField('spouseLastName', e.target.value)} className={inputClass} placeholder="Doe" />
-                      </div>
-                    </div>
-                  </div>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-                    <div className="space-y-1">
-                      <label className={labelClass}>Secondary Email</label>
-                      <input type="email" value={lead.spouseEmail || ''} onChange={e => updateField('spouseEmail', e.target.value)} className={inputClass} placeholder="email@address.com" />
-                    </div>
-                    <div className="space-y-1">
-                      <label className={labelClass}>Direct Phone</label>
-                      <input type="tel" value={lead.spousePhone || ''} onChange={e => updateField('spousePhone', formatPhone(e.target.value))} className={inputClass} placeholder="(555) 000-0000" />
-                    </div>
-                    <div className="space-y-1">
-                      <label className={labelClass}>Secondary Birthday</label>
-                      <input type="date" value={lead.spouseDob || ''} onChange={e => updateField('spouseDob', e.target.value)} className={inputClass} />
-                    </div>
-                  </div>
-                </div>
-              </section>
+              {/* RELATIONSHIPS SECTION */}
+              <LeadRelationshipsPanel
+                lead={lead}
+                leads={leads}
+                related={related}
+                onAddRelatedLeads={onAddRelatedLeads}
+                onRemoveRelationship={onRemoveRelationship}
+                onSelectLead={onSelectLead}
+                inputClass={inputClass}
+                labelClass={labelClass}
+                isDarkMode={isDarkMode}
+              />
 
               {/* FAMILY & PETS NOTES SECTION */}
               <section className="space-y-6">
@@ -405,6 +409,29 @@ const LeadDetail: React.FC<LeadDetailProps> = ({
                 </div>
               </section>
 
+              {/* BROKERAGE CUSTOM FIELDS SECTION */}
+              {leadCustomFields.length > 0 && (
+                <section className="space-y-6">
+                  <div className="flex items-center space-x-4 px-2">
+                    <div className="w-10 h-10 bg-teal-50 text-teal-600 rounded-xl flex items-center justify-center text-base shadow-md">
+                      <i className="fas fa-sliders"></i>
+                    </div>
+                    <h4 className={`text-base font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Additional Details</h4>
+                  </div>
+
+                  <div className={`rounded-[3rem] p-10 border ${isDarkMode ? 'bg-slate-800/40 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+                    <CustomFieldInputs
+                      definitions={leadCustomFields}
+                      values={lead.customFields}
+                      onChange={values => updateField('customFields', values)}
+                      inputClass={inputClass}
+                      labelClass={labelClass}
+                      isDarkMode={isDarkMode}
+                    />
+                  </div>
+                </section>
+              )}
+
               {/* STATUS SECTION */}
               <section className="space-y-6">
                 <div className="flex items-center space-x-4 px-2">
@@ -430,9 +457,37 @@ const LeadDetail: React.FC<LeadDetailProps> = ({
                         </div>
                      </div>
                    </div>
+
+                   <div className="flex items-center justify-between gap-4 px-1">
+                     <div>
+                       <p className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Time in Stage</p>
+                       <p className={`text-2xl font-black tabular-nums ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>{formatStageDuration(getTimeInStage(lead))}</p>
+                     </div>
+                     <StageAgingBadge lead={lead} />
+                   </div>
+
+                   <div className="space-y-2">
+                     <p className="text-[10px] font-black text-indigo-400 uppercase tracking-widest ml-1">Total Time by Stage</p>
+                     <div className="grid grid-cols-5 gap-2">
+                       {Object.values(LeadStatus).map(s => (
+                         <div key={s} className={`rounded-xl px-2 py-3 text-center border ${s === lead.status ? 'border-indigo-400' : isDarkMode ? 'border-slate-800' : 'border-indigo-100'} ${isDarkMode ? 'bg-slate-900' : 'bg-white'}`}>
+                           <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest truncate">{s.replace('_', ' ')}</p>
+                           <p className={`text-sm font-black tabular-nums ${timeByStage[s] ? (isDarkMode ? 'text-slate-100' : 'text-slate-800') : 'text-slate-300'}`}>
+                             {timeByStage[s] ? formatStageDuration(timeByStage[s]!) : '—'}
+                           </p>
+                         </div>
+                       ))}
+                     </div>
+                   </div>
                 </div>
               </section>
 
+              {/* LEAD SCORE SECTION */}
+              <LeadScoreCard lead={lead} isDarkMode={isDarkMode} />
+
+              {/* DRIP CAMPAIGNS SECTION */}
+              <DripEnrollmentsCard lead={lead} user={user} isDarkMode={isDarkMode} />
+
               {/* CLASSIFICATION TAGS SECTION */}
               <section className="space-y-6">
                 <div className="flex items-center space-x-4 px-2">
@@ -486,7 +541,7 @@ const LeadDetail: React.FC<LeadDetailProps> = ({
               </div>
             </div>
 
-            {/* RIGHT COLUMN: CLIENT NOTES & AI STRATEGIST */}
+            {/* RIGHT COLUMN: CLIENT NOTES, ACTIVITY & AI STRATEGIST */}
             <div className="lg:col-span-5 space-y-12">
               
               {/* CLIENT NOTES */}
@@ -582,6 +637,9 @@ const LeadDetail: React.FC<LeadDetailProps> = ({
                 </div>
               </section>
 
+              {/* ACTIVITY TIMELINE */}
+              <LeadActivityTimeline lead={lead} isDarkMode={isDarkMode} />
+
               {/* AI STRATEGIC ADVISORY SECTION */}
               <section className="space-y-6">
                 <div className={`bg-slate-900 rounded-[2.5rem] p-10 text-white shadow-2xl relative overflow-hidden`}>
@@ -643,4 +701,3 @@ const LeadDetail: React.FC<LeadDetailProps> = ({
 };
 
 export default LeadDetail;
-const RELATIONSHIP_OPTIONS = ['Spouse', 'Sister', 'Brother', 'Friend', 'Partner', 'Other'];
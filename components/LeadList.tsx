@@ -1,16 +1,39 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Lead, LeadStatus, LeadTemperature } from '../types.ts';
+import { AssignmentOrigin, CustomFieldDefinition, Lead, LeadRelationshipType, LeadStatus, LeadTemperature, SearchResult, SmartList, User, UserRole } from '../types.ts';
+import DuplicateWarning from './DuplicateWarning.tsx';
+import ImportWizard from './ImportWizard.tsx';
+import { XLSX_MIME_TYPE, xlsxBlob } from '../lib/xlsx.ts';
+import SlaBadge from './SlaBadge.tsx';
+import StageAgingBadge from './StageAgingBadge.tsx';
+import { getStageEnteredAt } from '../lib/stageAging.ts';
+import { buildLeadQuery, compileLeadQuery } from '../lib/leadQuery.ts';
+import { smartListService } from '../services/smartListService.ts';
+import { searchService } from '../services/searchService.ts';
+import SearchSnippet from './SearchSnippet.tsx';
+import { fieldsFor, formatCustomFieldValue, hasOptions, toXlsxValue, xlsxCellType } from '../lib/customFields.ts';
+import { RELATIONSHIP_TYPES, RelatedContact, RelatedLeadDraft, householdOf, newRelatedLead } from '../lib/relationships.ts';
+import { MapColoring, MapRecord } from '../lib/recordMap.ts';
+import RecordMap from './RecordMap.tsx';
 
 interface LeadListProps {
+  brokerageId: string;
+  currentUser: User;
   leads: Lead[];
   onSelectLead: (lead: Lead) => void;
-  onAddLeads: (newLeads: Lead[]) => void;
+  onAddLeads: (newLeads: Lead[], origin: AssignmentOrigin) => Promise<Lead[]> | void;
   onUpdateLead: (lead: Lead) => void;
   onBulkUpdateLeads?: (updatedLeads: Lead[]) => void;
   availableSources: string[];
   availableTags: string[];
   onUpdateSources: (sources: string[]) => void;
   onUpdateTags: (tags: string[]) => void;
+  duplicateCount?: number;
+  onReviewDuplicates?: () => void;
+  customFields?: CustomFieldDefinition[];
+  relatedByLead?: Map<string, RelatedContact[]>;
+  onAddRelatedLeads?: (drafts: RelatedLeadDraft[]) => Promise<unknown> | void;
+  // Lead scoring sets temperature, so the form shows it read-only
+  isTemperatureScored?: boolean;
   isDarkMode?: boolean;
 }
 
@@ -18,12 +41,12 @@ type SortOption =
   | 'TEMP_DESC' | 'WARM_FIRST' | 'NORMAL_FIRST' | 'TEMP_ASC' 
   | 'NAME_ASC' | 'NAME_DESC'
   | 'BUDGET_ASC' | 'BUDGET_DESC'
-  | 'NEWEST_ADDED' | 'OLDEST_ADDED' | 'RECENTLY_UPDATED' 
+  | 'NEWEST_ADDED' | 'OLDEST_ADDED' | 'RECENTLY_UPDATED' | 'LONGEST_IN_STAGE'
   | 'SOURCE_ASC' | 'SOURCE_DESC' 
   | 'STATUS_ASC' | 'STATUS_DESC' 
   | 'BUYERS_FIRST' | 'SELLERS_FIRST' | 'INVESTORS_FIRST' | 'PAST_CLIENTS_FIRST';
 
-type DisplayMode = 'tile' | 'list';
+type DisplayMode = 'tile' | 'list' | 'map';
 type ColumnId = 'selection' | 'hotness' | 'stage' | 'name' | 'address' | 'secondary' | 'budget' | 'source' | 'updated' | 'actions';
 type TabId = string; // Status strings
 
@@ -41,6 +64,7 @@ const sortLabels: Record<SortOption, string> = {
   NEWEST_ADDED: 'Newest Added',
   OLDEST_ADDED: 'Oldest Added',
   RECENTLY_UPDATED: 'Recently Updated',
+  LONGEST_IN_STAGE: 'Longest in Stage',
   SOURCE_ASC: 'Source (A-Z)',
   SOURCE_DESC: 'Source (Z-A)',
   STATUS_ASC: 'Stage (A-Z)',
@@ -63,6 +87,30 @@ const statusLabels: Record<string, string> = {
   [LeadStatus.CLOSED]: 'Sold'
 };
 
+const MAP_COLORINGS: MapColoring[] = [
+  {
+    id: 'temperature',
+    label: 'Temperature',
+    legend: [
+      { value: LeadTemperature.HOT, label: 'Hot', color: '#ef4444' },
+      { value: LeadTemperature.WARM, label: 'Warm', color: '#f97316' },
+      { value: LeadTemperature.COLD, label: 'Cold', color: '#3b82f6' },
+      { value: LeadTemperature.NORMAL, label: 'Normal', color: '#cbd5e1' }
+    ]
+  },
+  {
+    id: 'status',
+    label: 'Stage',
+    legend: [
+      { value: LeadStatus.NEW, label: statusLabels[LeadStatus.NEW], color: '#2563eb' },
+      { value: LeadStatus.CONTACTED, label: statusLabels[LeadStatus.CONTACTED], color: '#9333ea' },
+      { value: LeadStatus.ACTIVE, label: statusLabels[LeadStatus.ACTIVE], color: '#059669' },
+      { value: LeadStatus.IN_ESCROW, label: statusLabels[LeadStatus.IN_ESCROW], color: '#d97706' },
+      { value: LeadStatus.CLOSED, label: statusLabels[LeadStatus.CLOSED], color: '#0f172a' }
+    ]
+  }
+];
+
 const columnLabels: Record<ColumnId, string> = {
   selection: '',
   hotness: 'Hotness',
@@ -76,9 +124,24 @@ const columnLabels: Record<ColumnId, string> = {
   actions: 'Actions'
 };
 
-const RELATIONSHIP_OPTIONS = ['Spouse', 'Sister', 'Brother', 'Friend', 'Partner', 'Other'];
+const SEARCH_DEBOUNCE_MS = 250;
+
+const QUERY_EXAMPLES = [
+  'dob in next 30 days',
+  'no note in 14 days',
+  'status = NEW and budget >= 500k',
+  'tag in [Buyer, Investor] and createdAt in last 2 weeks',
+];
+
+// The open smart list and query live in the URL so a view can be bookmarked or shared
+const readListParams = () => {
+  const params = new URLSearchParams(window.location.search);
+  return { listId: params.get('list') || '', query: params.get('q') };
+};
 
 const LeadList: React.FC<LeadListProps> = ({ 
+  brokerageId,
+  currentUser,
   leads, 
   onSelectLead, 
   onAddLeads, 
@@ -88,13 +151,29 @@ const LeadList: React.FC<LeadListProps> = ({
   availableTags,
   onUpdateSources,
   onUpdateTags,
+  duplicateCount = 0,
+  onReviewDuplicates,
+  customFields = [],
+  relatedByLead = new Map(),
+  onAddRelatedLeads,
+  isTemperatureScored = false,
   isDarkMode
 }) => {
   const [filterStatus, setFilterStatus] = useState<string>('ALL');
   const [isExpanded, setIsExpanded] = useState(false);
   const [selectedSources, setSelectedSources] = useState<string[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedCustomOptions, setSelectedCustomOptions] = useState<Record<string, string[]>>({});
   const [searchTerm, setSearchTerm] = useState<string>('');
+  const [serverHits, setServerHits] = useState<Map<string, SearchResult>>(new Map());
+  const [smartLists, setSmartLists] = useState<SmartList[]>([]);
+  const [activeListId, setActiveListId] = useState<string>(() => readListParams().listId);
+  const [query, setQuery] = useState<string>(() => readListParams().query || '');
+  const [isSaveListOpen, setIsSaveListOpen] = useState(false);
+  const [saveListName, setSaveListName] = useState('');
+  const [saveListShared, setSaveListShared] = useState(false);
+  const [isSavingList, setIsSavingList] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
   const [sortBy, setSortBy] = useState<SortOption>('TEMP_DESC');
   const [displayMode, setDisplayMode] = useState<DisplayMode>('tile');
   const [isSortOpen, setIsSortOpen] = useState(false);
@@ -102,6 +181,7 @@ const LeadList: React.FC<LeadListProps> = ({
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
   const [isNewLeadModalOpen, setIsNewLeadModalOpen] = useState(false);
+  const [isImportWizardOpen, setIsImportWizardOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
   const [leadToDelete, setLeadToDelete] = useState<Lead | null>(null);
@@ -125,7 +205,6 @@ const LeadList: React.FC<LeadListProps> = ({
   const [draggedItem, setDraggedItem] = useState<{ type: 'tab' | 'column'; index: number } | null>(null);
   const [dragOverIdx, setDragOverIdx] = useState<number | null>(null);
 
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const topRef = useRef<HTMLDivElement>(null);
 
   const isFullPage = filterStatus !== 'ALL';
@@ -145,16 +224,14 @@ const LeadList: React.FC<LeadListProps> = ({
     dob: '',
     weddingAnniversary: '',
     homeAnniversary: '',
-    spouseFirstName: '',
-    spouseLastName: '',
-    spouseEmail: '',
-    spousePhone: '',
-    spouseDob: '',
-    secondaryContactRelationship: 'Spouse',
     familyNotes: ''
   };
 
+  const emptyHousehold = { type: 'SPOUSE' as LeadRelationshipType, firstName: '', lastName: '', email: '', phone: '', dob: '' };
+
   const [leadFormData, setLeadFormData] = useState<Partial<Lead>>(emptyLead);
+  // Second person entered with a new lead; saved as a linked lead of their own
+  const [householdDraft, setHouseholdDraft] = useState(emptyHousehold);
 
   // Stats calculation
   const stats = useMemo(() => {
@@ -171,7 +248,40 @@ const LeadList: React.FC<LeadListProps> = ({
   useEffect(() => {
     setCurrentPage(1);
     setSelectedIds([]); // Clear selection when filters change
-  }, [filterStatus, selectedSources, selectedTags, searchTerm, sortBy, itemsPerPage]);
+  }, [filterStatus, selectedSources, selectedTags, selectedCustomOptions, searchTerm, query, sortBy, itemsPerPage]);
+
+  useEffect(() => {
+    let cancelled = false;
+    smartListService.getLists(brokerageId).then(lists => {
+      if (cancelled) return;
+      setSmartLists(lists);
+      // A shared link may carry only the list id; its saved query fills in
+      const { listId, query: urlQuery } = readListParams();
+      const opened = lists.find(l => l.id === listId);
+      if (opened && urlQuery === null) setQuery(opened.query);
+      if (listId && !opened) setActiveListId('');
+    });
+    return () => { cancelled = true; };
+  }, [brokerageId]);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const activeList = smartLists.find(l => l.id === activeListId);
+    if (activeListId) params.set('list', activeListId); else params.delete('list');
+    if (query.trim() && query !== activeList?.query) params.set('q', query); else params.delete('q');
+    const search = params.toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}`;
+    if (url !== `${window.location.pathname}${window.location.search}`) window.history.replaceState(null, '', url);
+  }, [activeListId, query, smartLists]);
+
+  const leadCustomFields = useMemo(() => fieldsFor(customFields, 'lead'), [customFields]);
+  const filterableCustomFields = leadCustomFields.filter(d => hasOptions(d.type));
+  const activeFilterCount = selectedSources.length + selectedTags.length
+    + Object.keys(selectedCustomOptions).reduce((sum, key) => sum + selectedCustomOptions[key].length, 0);
+  const compiledQuery = useMemo(() => compileLeadQuery(query, customFields), [query, customFields]);
+  const activeList = smartLists.find(l => l.id === activeListId) || null;
+  const canEditList = (list: SmartList | null) =>
+    !!list && (list.createdBy === currentUser.id || (list.isShared && currentUser.role === UserRole.BROKER));
 
   const scrollToTop = () => {
     topRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -199,8 +309,8 @@ const LeadList: React.FC<LeadListProps> = ({
     }
   };
 
-  const downloadBlob = (content: string, fileName: string, mimeType: string) => {
-    const blob = new Blob([content], { type: mimeType });
+  const downloadBlob = (content: string | Blob, fileName: string, mimeType: string) => {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
@@ -212,7 +322,7 @@ const LeadList: React.FC<LeadListProps> = ({
   };
 
   const exportLeadsToCSV = () => {
-    const headers = ['First Name', 'Last Name', 'Email', 'Phone', 'Source', 'Status', 'Temperature', 'Budget', 'Address', 'Tags', 'Created At'];
+    const headers = ['First Name', 'Last Name', 'Email', 'Phone', 'Source', 'Status', 'Temperature', 'Budget', 'Address', 'Tags', 'Created At', ...leadCustomFields.map(d => d.label)];
     const rows = filteredAndSortedLeads.map(l => [
       l.firstName,
       l.lastName,
@@ -224,7 +334,8 @@ const LeadList: React.FC<LeadListProps> = ({
       l.budget,
       l.propertyAddress || '',
       (l.tags || []).join('; '),
-      l.createdAt
+      l.createdAt,
+      ...leadCustomFields.map(d => formatCustomFieldValue(d, l.customFields?.[d.key]))
     ]);
 
     const csvContent = [
@@ -237,91 +348,41 @@ const LeadList: React.FC<LeadListProps> = ({
   };
 
   const exportLeadsToExcel = () => {
-    const headers = ['First Name', 'Last Name', 'Email', 'Phone', 'Source', 'Status', 'Temperature', 'Budget', 'Address', 'Tags', 'Created At'];
-    const rows = filteredAndSortedLeads.map(l => `
-      <tr>
-        <td>${l.firstName}</td>
-        <td>${l.lastName}</td>
-        <td>${l.email}</td>
-        <td>${l.phone}</td>
-        <td>${l.source}</td>
-        <td>${l.status}</td>
-        <td>${l.temperature}</td>
-        <td>${l.budget}</td>
-        <td>${l.propertyAddress || ''}</td>
-        <td>${(l.tags || []).join(', ')}</td>
-        <td>${new Date(l.createdAt).toLocaleDateString()}</td>
-      </tr>`).join('');
-
-    const excelContent = `
-      <html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel" xmlns="http://www.w3.org/TR/REC-html40">
-      <head><meta charset="UTF-8"></head>
-      <body>
-        <table border="1">
-          <tr style="background-color:#f3f4f6; font-weight:bold;">${headers.map(h => `<td>${h}</td>`).join('')}</tr>
-          ${rows}
-        </table>
-      </body>
-      </html>
-    `;
-    downloadBlob(excelContent, `agent_desk_leads_${new Date().toISOString().split('T')[0]}.xls`, 'application/vnd.ms-excel');
+    const workbook = xlsxBlob([{
+      name: 'Leads',
+      columns: [
+        { header: 'First Name' },
+        { header: 'Last Name' },
+        { header: 'Email' },
+        { header: 'Phone' },
+        { header: 'Source' },
+        { header: 'Status' },
+        { header: 'Temperature' },
+        { header: 'Budget', type: 'currency' },
+        { header: 'Address' },
+        { header: 'Tags' },
+        { header: 'Created At', type: 'datetime' },
+        ...leadCustomFields.map(d => ({ header: d.label, type: xlsxCellType(d.type) }))
+      ],
+      rows: filteredAndSortedLeads.map(l => [
+        l.firstName,
+        l.lastName,
+        l.email,
+        l.phone,
+        l.source,
+        l.status,
+        l.temperature,
+        l.budget,
+        l.propertyAddress || '',
+        (l.tags || []).join('; '),
+        l.createdAt,
+        ...leadCustomFields.map(d => toXlsxValue(d, l.customFields?.[d.key]))
+      ])
+    }]);
+    downloadBlob(workbook, `agent_desk_leads_${new Date().toISOString().split('T')[0]}.xlsx`, XLSX_MIME_TYPE);
     setIsExportMenuOpen(false);
   };
 
-  const handleImportCSV = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const lines = text.split('\n');
-      const newLeads: Lead[] = [];
-      
-      const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, '').toLowerCase());
-      
-      for (let i = 1; i < lines.length; i++) {
-        if (!lines[i].trim()) continue;
-        const values = lines[i].split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(v => v.trim().replace(/"/g, ''));
-        
-        const leadObj: any = {};
-        headers.forEach((h, idx) => {
-          const key = h.replace(/ /g, '');
-          leadObj[key] = values[idx];
-        });
-
-        const leadToAdd: Lead = {
-          id: `lead_imp_${Date.now()}`,
-          brokerageId: 'brk_7721',
-          assignedAgentId: 'agent_1',
-          firstName: leadObj.firstname || leadObj.name?.split(' ')[0] || 'Imported',
-          lastName: leadObj.lastname || leadObj.name?.split(' ').slice(1).join(' ') || 'Lead',
-          email: leadObj.email || `imported.${Date.now()}.${i}@example.com`,
-          phone: leadObj.phone || '000-000-0000',
-          status: (leadObj.status as any) || LeadStatus.NEW,
-          temperature: (leadObj.temperature as any) || LeadTemperature.NORMAL,
-          source: leadObj.source || 'CSV Import',
-          tags: leadObj.tags ? leadObj.tags.split(';').map((t: string) => t.trim()) : ['Imported'],
-          propertyType: 'PRIMARY',
-          propertyAddress: leadObj.address || leadObj.propertyaddress || '',
-          budget: parseInt(leadObj.budget) || 0,
-          notes: [],
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          estimatedDealValue: (parseInt(leadObj.budget) || 0) * 0.03
-        };
-        newLeads.push(leadToAdd);
-      }
-      
-      if (newLeads.length > 0) {
-        onAddLeads(newLeads);
-        alert(`Successfully imported ${newLeads.length} leads.`);
-      }
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    };
-    reader.readAsText(file);
-  };
-
   const executeDeleteLead = () => {
     if (leadToDelete) {
       onUpdateLead({ 
@@ -351,6 +412,13 @@ const LeadList: React.FC<LeadListProps> = ({
     setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
   };
 
+  const handleToggleCustomFilter = (key: string, option: string) => {
+    setSelectedCustomOptions(prev => {
+      const current = prev[key] || [];
+      return { ...prev, [key]: current.includes(option) ? current.filter(o => o !== option) : [...current, option] };
+    });
+  };
+
   const handleAddNewSource = (e: React.FormEvent) => {
     e.preventDefault();
     const val = newSourceInput.trim();
@@ -384,24 +452,50 @@ const LeadList: React.FC<LeadListProps> = ({
     }
   };
 
+  // Full-text search on the server also finds leads by note content and phone digits
+  useEffect(() => {
+    const term = searchTerm.trim();
+    if (term.length < 2) {
+      setServerHits(new Map());
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const results = await searchService.search(term, ['LEAD', 'NOTE'], 100);
+      if (cancelled) return;
+      const hits = new Map<string, SearchResult>();
+      results.forEach(r => { if (r.leadId && !hits.has(r.leadId)) hits.set(r.leadId, r); });
+      setServerHits(hits);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => { cancelled = true; window.clearTimeout(timer); };
+  }, [searchTerm]);
+
   const filteredAndSortedLeads = useMemo(() => {
+    const now = new Date();
     return [...leads]
       .filter(l => !l.isDeleted)
       .filter(l => {
         const matchesStatus = filterStatus === 'ALL' || l.status === filterStatus;
         const matchesSource = selectedSources.length === 0 || selectedSources.includes(l.source);
         const matchesTags = selectedTags.length === 0 || (l.tags && selectedTags.some(tag => l.tags.includes(tag)));
+        const matchesCustom = Object.keys(selectedCustomOptions).every(key => {
+          const options = selectedCustomOptions[key];
+          if (options.length === 0) return true;
+          const value = l.customFields?.[key];
+          const chosen = Array.isArray(value) ? value : value === undefined ? [] : [String(value)];
+          return options.some(o => chosen.includes(o));
+        });
         const search = searchTerm.toLowerCase().trim();
         let matchesSearch = true;
         if (search) {
           const fullName = `${l.firstName} ${l.lastName}`.toLowerCase();
           const email = (l.email || '').toLowerCase();
           const address = (l.propertyAddress || '').toLowerCase();
-          const spouseName = `${l.spouseFirstName || ''} ${l.spouseLastName || ''}`.toLowerCase();
-          const spouseEmail = (l.spouseEmail || '').toLowerCase();
-          matchesSearch = fullName.includes(search) || email.includes(search) || spouseName.includes(search) || spouseEmail.includes(search) || address.includes(search);
+          const household = householdOf(relatedByLead.get(l.id)).map(r => `${r.lead.firstName} ${r.lead.lastName} ${r.lead.email || ''}`).join(' ').toLowerCase();
+          matchesSearch = fullName.includes(search) || email.includes(search) || household.includes(search) || address.includes(search) || serverHits.has(l.id);
         }
-        return matchesStatus && matchesSource && matchesTags && matchesSearch;
+        const matchesQuery = !compiledQuery.ok || compiledQuery.matches(l, now, relatedByLead.get(l.id));
+        return matchesStatus && matchesSource && matchesTags && matchesCustom && matchesSearch && matchesQuery;
       })
       .sort((a, b) => {
         const isBuyer = (l: Lead) => l.tags?.some(t => t.toLowerCase() === 'buyer');
@@ -443,6 +537,7 @@ const LeadList: React.FC<LeadListProps> = ({
           case 'NEWEST_ADDED': return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
           case 'OLDEST_ADDED': return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
           case 'RECENTLY_UPDATED': return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+          case 'LONGEST_IN_STAGE': return new Date(getStageEnteredAt(a)).getTime() - new Date(getStageEnteredAt(b)).getTime();
           case 'SOURCE_ASC': return a.source.localeCompare(b.source);
           case 'SOURCE_DESC': return b.source.localeCompare(a.source);
           case 'STATUS_ASC': return a.status.localeCompare(b.status);
@@ -450,9 +545,80 @@ const LeadList: React.FC<LeadListProps> = ({
           default: return 0;
         }
       });
-  }, [leads, filterStatus, selectedSources, selectedTags, searchTerm, sortBy]);
+  }, [leads, filterStatus, selectedSources, selectedTags, selectedCustomOptions, searchTerm, serverHits, compiledQuery, relatedByLead, sortBy]);
+
+  // The quick filters are folded into the saved query so the list matches what is on screen
+  const currentListQuery = buildLeadQuery({ status: filterStatus, sources: selectedSources, tags: selectedTags, custom: selectedCustomOptions, search: searchTerm, query });
+  const canSaveList = !!currentListQuery && compileLeadQuery(currentListQuery, customFields).ok;
+
+  const resetQuickFilters = () => {
+    setFilterStatus('ALL');
+    setIsExpanded(false);
+    setSelectedSources([]);
+    setSelectedTags([]);
+    setSelectedCustomOptions({});
+    setSearchTerm('');
+  };
+
+  const handleOpenList = (listId: string) => {
+    const list = smartLists.find(l => l.id === listId);
+    resetQuickFilters();
+    setActiveListId(list ? list.id : '');
+    setQuery(list ? list.query : '');
+  };
+
+  const openSaveList = () => {
+    setSaveListName(canEditList(activeList) ? activeList!.name : '');
+    setSaveListShared(canEditList(activeList) ? activeList!.isShared : false);
+    setIsSaveListOpen(true);
+  };
+
+  const handleSaveList = async (asNew: boolean) => {
+    const name = saveListName.trim();
+    if (!name || !canSaveList) return;
+    setIsSavingList(true);
+    const saved = !asNew && canEditList(activeList)
+      ? await smartListService.updateList(activeList!.id, { name, query: currentListQuery, isShared: saveListShared })
+      : await smartListService.createList(brokerageId, currentUser.id, { name, query: currentListQuery, isShared: saveListShared });
+    setIsSavingList(false);
+    if (!saved) {
+      alert('Failed to save smart list. Please try again.');
+      return;
+    }
+    setSmartLists(prev => [...prev.filter(l => l.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    resetQuickFilters();
+    setActiveListId(saved.id);
+    setQuery(saved.query);
+    setIsSaveListOpen(false);
+  };
+
+  const handleDeleteList = async () => {
+    if (!activeList || !window.confirm(`Delete the smart list "${activeList.name}"?`)) return;
+    if (await smartListService.deleteList(activeList.id)) {
+      setSmartLists(prev => prev.filter(l => l.id !== activeList.id));
+      setActiveListId('');
+    }
+  };
+
+  const handleCopyListLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying smart list link:', error);
+    }
+  };
 
   const totalPages = Math.ceil(filteredAndSortedLeads.length / itemsPerPage);
+  const mapRecords = useMemo(() => filteredAndSortedLeads.map((lead): MapRecord => ({
+    id: lead.id,
+    title: `${lead.firstName} ${lead.lastName}`.trim() || lead.email,
+    subtitle: lead.propertyAddress,
+    address: lead.propertyAddress,
+    location: lead.propertyLocation,
+    groups: { temperature: lead.temperature, status: lead.status }
+  })), [filteredAndSortedLeads]);
   const paginatedLeads = filteredAndSortedLeads.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
 
   const toggleLeadSelection = (id: string) => {
@@ -531,6 +697,7 @@ const LeadList: React.FC<LeadListProps> = ({
   const openNewLeadModal = () => {
     setEditingLead(null);
     setLeadFormData(emptyLead);
+    setHouseholdDraft(emptyHousehold);
     setIsNewLeadModalOpen(true);
     setIsEditModalOpen(false);
     setIsTagDropdownOpen(false);
@@ -545,7 +712,7 @@ const LeadList: React.FC<LeadListProps> = ({
     setIsTagDropdownOpen(false);
   };
 
-  const handleLeadSubmit = (e: React.FormEvent) => {
+  const handleLeadSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isEditModalOpen && editingLead) {
       const updatedLead: Lead = {
@@ -567,8 +734,12 @@ const LeadList: React.FC<LeadListProps> = ({
         brokerageId: 'brk_7721', // Fallback defaults
         assignedAgentId: 'agent_1'
       };
-      onAddLeads([leadToAdd]);
       setIsNewLeadModalOpen(false);
+      const created = await onAddLeads([leadToAdd], 'MANUAL');
+      if (created && created[0] && onAddRelatedLeads && householdDraft.firstName.trim()) {
+        const { type, ...person } = householdDraft;
+        onAddRelatedLeads([{ lead: created[0], related: newRelatedLead(created[0], person), isNew: true, type }]);
+      }
     }
   };
 
@@ -683,29 +854,38 @@ const LeadList: React.FC<LeadListProps> = ({
               'bg-slate-300'
             }`}></div>
             <span className="text-sm font-black text-slate-600 uppercase tracking-tighter">{lead.temperature}</span>
+            {lead.score !== undefined && (
+              <span className="text-[10px] font-black text-slate-400 tabular-nums" title="Lead score">{lead.score}</span>
+            )}
           </div>
         );
       case 'stage':
         return (
-          <span className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border shadow-sm ${getStatusBadgeClass(lead.status)}`}>
-            {statusLabels[lead.status] || lead.status}
-          </span>
+          <div className="flex flex-col items-start gap-1.5">
+            <span className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border shadow-sm ${getStatusBadgeClass(lead.status)}`}>
+              {statusLabels[lead.status] || lead.status}
+            </span>
+            <SlaBadge lead={lead} />
+            <StageAgingBadge lead={lead} />
+          </div>
         );
       case 'name':
         return (
           <div className="flex items-center space-x-3">
             <div className="overflow-hidden">
               <p className="text-lg font-bold text-slate-800 truncate">{lead.firstName} {lead.lastName}</p>
+              {serverHits.get(lead.id)?.kind === 'NOTE' && <SearchSnippet snippet={serverHits.get(lead.id)!.snippet} className="block text-[11px] font-semibold text-slate-500 truncate" />}
             </div>
           </div>
         );
       case 'address':
         return <span className="text-base font-semibold text-slate-500 truncate block max-w-[200px]">{lead.propertyAddress || 'N/A'}</span>;
       case 'secondary':
-        return lead.spouseFirstName ? (
+        const [member] = householdOf(relatedByLead.get(lead.id));
+        return member ? (
           <div className="flex flex-col min-w-0">
-             <span className="text-base font-bold text-slate-700 truncate">{lead.spouseFirstName} {lead.spouseLastName}</span>
-             <span className="text-[11px] font-black uppercase text-slate-400 tracking-tighter">{lead.secondaryContactRelationship}</span>
+             <span className="text-base font-bold text-slate-700 truncate">{member.lead.firstName} {member.lead.lastName}</span>
+             <span className="text-[11px] font-black uppercase text-slate-400 tracking-tighter">{member.label}</span>
           </div>
         ) : <span className="text-[11px] font-black uppercase tracking-widest text-slate-300 italic">None</span>;
       case 'budget':
@@ -778,24 +958,18 @@ const LeadList: React.FC<LeadListProps> = ({
           <div className={`flex p-1.5 rounded-xl shrink-0 ${isDarkMode ? 'bg-slate-800' : 'bg-slate-100'}`}>
             <button onClick={() => setDisplayMode('tile')} className={`w-11 h-11 flex items-center justify-center rounded-xl transition-all ${displayMode === 'tile' ? (isDarkMode ? 'bg-indigo-600 text-white shadow-md' : 'bg-white shadow-md text-indigo-600') : 'text-slate-400 hover:text-slate-600'}`} title="Grid View"><i className="fas fa-th-large"></i></button>
             <button onClick={() => setDisplayMode('list')} className={`w-11 h-11 flex items-center justify-center rounded-xl transition-all ${displayMode === 'list' ? (isDarkMode ? 'bg-indigo-600 text-white shadow-md' : 'bg-white shadow-md text-indigo-600') : 'text-slate-400 hover:text-slate-600'}`} title="List View"><i className="fas fa-list"></i></button>
+            <button onClick={() => setDisplayMode('map')} className={`w-11 h-11 flex items-center justify-center rounded-xl transition-all ${displayMode === 'map' ? (isDarkMode ? 'bg-indigo-600 text-white shadow-md' : 'bg-white shadow-md text-indigo-600') : 'text-slate-400 hover:text-slate-600'}`} title="Map View"><i className="fas fa-map-location-dot"></i></button>
           </div>
           
           <div className="flex items-center space-x-2">
             <div className={`flex items-center p-1 rounded-xl ${isDarkMode ? 'bg-slate-800' : 'bg-slate-100'}`}>
                <button 
-                  onClick={() => fileInputRef.current?.click()}
+                  onClick={() => setIsImportWizardOpen(true)}
                   className="w-12 h-12 flex items-center justify-center rounded-xl hover:bg-white hover:text-indigo-600 text-slate-400 transition-all" 
-                  title="Import Pipeline (CSV)"
+                  title="Import Pipeline (CSV or Excel)"
                >
                  <i className="fas fa-upload"></i>
                </button>
-               <input 
-                  type="file" 
-                  ref={fileInputRef} 
-                  onChange={handleImportCSV} 
-                  accept=".csv" 
-                  className="hidden" 
-               />
                <div className="relative">
                   <button 
                     onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
@@ -811,7 +985,7 @@ const LeadList: React.FC<LeadListProps> = ({
                         <p className="px-5 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-50 mb-1">Download As</p>
                         <button onClick={exportLeadsToExcel} className={`w-full text-left px-6 py-4 transition-colors flex items-center space-x-3 group ${isDarkMode ? 'hover:bg-slate-700' : 'hover:bg-indigo-50'}`}>
                           <i className="fas fa-file-excel text-emerald-500 text-sm"></i>
-                          <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>Excel (.xls)</span>
+                          <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>Excel (.xlsx)</span>
                         </button>
                         <button onClick={exportLeadsToCSV} className={`w-full text-left px-6 py-4 transition-colors flex items-center space-x-3 group ${isDarkMode ? 'hover:bg-slate-700' : 'hover:bg-indigo-50'}`}>
                           <i className="fas fa-file-csv text-blue-500 text-sm"></i>
@@ -830,6 +1004,16 @@ const LeadList: React.FC<LeadListProps> = ({
             >
               <i className="fas fa-cog text-xl"></i>
             </button>
+            {onReviewDuplicates && duplicateCount > 0 && (
+              <button
+                onClick={onReviewDuplicates}
+                className="flex items-center space-x-3 px-6 py-4 bg-amber-50 text-amber-600 border border-amber-200 rounded-2xl text-base font-black uppercase tracking-widest hover:bg-amber-100 transition-all shadow-sm whitespace-nowrap"
+                title="Review possible duplicates"
+              >
+                <i className="fas fa-clone"></i>
+                <span>Duplicates ({duplicateCount})</span>
+              </button>
+            )}
             <button onClick={openNewLeadModal} className="flex items-center space-x-3 px-8 py-4 bg-indigo-600 text-white rounded-2xl text-base font-black uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-100 whitespace-nowrap">
               <i className="fas fa-plus"></i>
               <span>New Lead</span>
@@ -878,7 +1062,7 @@ const LeadList: React.FC<LeadListProps> = ({
         <div className="relative group flex-1 w-full">
           <i className="fas fa-search absolute left-6 top-1/2 -translate-y-1/2 text-slate-400 text-lg transition-colors group-focus-within:text-indigo-500"></i>
           <input
-            type="text" placeholder={`Search ${isFullPage ? statusLabels[filterStatus] : ''} leads (names, email, spouses, address)...`} value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)}
+            type="text" placeholder={`Search ${isFullPage ? statusLabels[filterStatus] : ''} leads (names, email, phone, household, address, notes)...`} value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)}
             className={`w-full pl-14 pr-12 py-4 border rounded-xl text-base focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all shadow-sm font-bold ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`}
           />
         </div>
@@ -904,12 +1088,12 @@ const LeadList: React.FC<LeadListProps> = ({
           )}
 
           <div className="relative">
-            <button onClick={() => setIsFilterPanelOpen(!isFilterPanelOpen)} className={`h-[52px] px-6 border rounded-xl text-sm font-black uppercase tracking-widest shadow-sm transition-all flex items-center space-x-3 min-w-[140px] ${ (selectedSources.length + selectedTags.length) > 0 ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : isDarkMode ? 'bg-slate-900 border-slate-800 text-slate-400 hover:bg-slate-800' : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'}`}>
+            <button onClick={() => setIsFilterPanelOpen(!isFilterPanelOpen)} className={`h-[52px] px-6 border rounded-xl text-sm font-black uppercase tracking-widest shadow-sm transition-all flex items-center space-x-3 min-w-[140px] ${ activeFilterCount > 0 ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : isDarkMode ? 'bg-slate-900 border-slate-800 text-slate-400 hover:bg-slate-800' : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'}`}>
               <i className="fas fa-filter"></i>
               <span>Filters</span>
-              {(selectedSources.length + selectedTags.length) > 0 && (
+              {activeFilterCount > 0 && (
                 <span className="ml-1 w-6 h-6 bg-indigo-600 text-white rounded-full flex items-center justify-center text-[11px] scale-90 leading-none">
-                  {selectedSources.length + selectedTags.length}
+                  {activeFilterCount}
                 </span>
               )}
             </button>
@@ -919,7 +1103,7 @@ const LeadList: React.FC<LeadListProps> = ({
                 <div className={`absolute right-0 mt-2 w-[340px] border rounded-2xl shadow-2xl z-[100] overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
                   <div className={`p-5 border-b flex items-center justify-between ${isDarkMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50/50 border-slate-100'}`}>
                     <h4 className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Filter Pipeline</h4>
-                    <button onClick={() => { setSelectedSources([]); setSelectedTags([]); }} className="text-[11px] font-black text-indigo-600 uppercase tracking-widest hover:underline">Reset</button>
+                    <button onClick={() => { setSelectedSources([]); setSelectedTags([]); setSelectedCustomOptions({}); }} className="text-[11px] font-black text-indigo-600 uppercase tracking-widest hover:underline">Reset</button>
                   </div>
                   <div className="p-5 max-h-[450px] overflow-y-auto scrollbar-hide space-y-8">
                     <div>
@@ -938,6 +1122,16 @@ const LeadList: React.FC<LeadListProps> = ({
                         ))}
                       </div>
                     </div>
+                    {filterableCustomFields.map(definition => (
+                      <div key={definition.id}>
+                        <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest mb-4">{definition.label}</p>
+                        <div className="flex flex-wrap gap-2.5">
+                          {definition.options.map(option => (
+                            <button key={option} onClick={() => handleToggleCustomFilter(definition.key, option)} className={`px-4 py-2 rounded-lg text-xs font-bold border transition-all ${(selectedCustomOptions[definition.key] || []).includes(option) ? 'bg-teal-600 border-teal-600 text-white shadow-md' : isDarkMode ? 'bg-slate-900 border-slate-800 text-slate-400 hover:border-indigo-500' : 'bg-white border-slate-200 text-slate-600 hover:border-slate-300'}`}>{option}</button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </>
@@ -965,8 +1159,94 @@ const LeadList: React.FC<LeadListProps> = ({
         </div>
       </div>
 
+      {/* Smart Lists & Query */}
+      <div className={`p-5 rounded-[2rem] border shadow-sm space-y-3 ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className="flex flex-col lg:flex-row gap-3 lg:items-center">
+          <div className="flex items-center space-x-3 shrink-0">
+            <i className="fas fa-wand-magic-sparkles text-indigo-500"></i>
+            <select
+              value={activeListId}
+              onChange={e => handleOpenList(e.target.value)}
+              className={`h-[46px] px-4 border rounded-xl text-xs font-black uppercase tracking-widest outline-none min-w-[200px] ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-200' : 'bg-slate-50 border-slate-200 text-slate-700'}`}
+            >
+              <option value="">All Leads</option>
+              {smartLists.some(l => l.createdBy === currentUser.id && !l.isShared) && (
+                <optgroup label="My Lists">
+                  {smartLists.filter(l => l.createdBy === currentUser.id && !l.isShared).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </optgroup>
+              )}
+              {smartLists.some(l => l.isShared) && (
+                <optgroup label="Shared">
+                  {smartLists.filter(l => l.isShared).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </optgroup>
+              )}
+            </select>
+          </div>
+          <div className="relative flex-1">
+            <i className="fas fa-code absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 text-xs"></i>
+            <input
+              type="text"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder={`Filter query, e.g. ${QUERY_EXAMPLES[0]}`}
+              spellCheck={false}
+              className={`w-full h-[46px] pl-10 pr-10 border rounded-xl text-sm font-mono outline-none transition-all ${!compiledQuery.ok ? 'border-rose-300 focus:ring-4 focus:ring-rose-500/10' : 'focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500'} ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-200'}`}
+            />
+            {query && (
+              <button onClick={() => setQuery('')} className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600" title="Clear query">
+                <i className="fas fa-times"></i>
+              </button>
+            )}
+          </div>
+          <div className="flex items-center space-x-2 shrink-0">
+            <button
+              onClick={openSaveList}
+              disabled={!canSaveList}
+              className="h-[46px] px-5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all disabled:opacity-40"
+            >
+              <i className="fas fa-floppy-disk mr-2"></i>Save List
+            </button>
+            {activeList && (
+              <button onClick={handleCopyListLink} className={`h-[46px] w-[46px] rounded-xl border transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-400' : 'bg-white border-slate-200 text-slate-500 hover:text-indigo-600'}`} title="Copy link to this list">
+                <i className={`fas ${linkCopied ? 'fa-check text-emerald-500' : 'fa-link'}`}></i>
+              </button>
+            )}
+            {canEditList(activeList) && (
+              <button onClick={handleDeleteList} className={`h-[46px] w-[46px] rounded-xl border transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-400' : 'bg-white border-slate-200 text-slate-500 hover:text-rose-600'}`} title="Delete this list">
+                <i className="fas fa-trash-can"></i>
+              </button>
+            )}
+          </div>
+        </div>
+        {!compiledQuery.ok ? (
+          <p className="text-[11px] font-bold text-rose-500 ml-1">
+            <i className="fas fa-triangle-exclamation mr-2"></i>{compiledQuery.error} at character {(compiledQuery.position || 0) + 1}
+          </p>
+        ) : !query && (
+          <p className="text-[10px] font-bold text-slate-400 ml-1">
+            Try {QUERY_EXAMPLES.map((example, i) => (
+              <React.Fragment key={example}>
+                {i > 0 && ', '}
+                <button onClick={() => setQuery(example)} className="font-mono text-indigo-500 hover:underline">{example}</button>
+              </React.Fragment>
+            ))}
+          </p>
+        )}
+      </div>
+
       {/* Main Content Area */}
-      {displayMode === 'tile' ? (
+      {displayMode === 'map' ? (
+        <RecordMap
+          records={mapRecords}
+          colorings={MAP_COLORINGS}
+          noun="leads"
+          isDarkMode={isDarkMode}
+          onSelect={(id: string) => {
+            const lead = leads.find(l => l.id === id);
+            if (lead) onSelectLead(lead);
+          }}
+        />
+      ) : displayMode === 'tile' ? (
         <div className={`grid gap-5 transition-all duration-500 ${isExpanded ? 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-4 xl:grid-cols-5'}`}>
           {paginatedLeads.map(lead => (
             <div key={lead.id} className={`border rounded-[1.75rem] p-6 hover:border-indigo-300 hover:shadow-xl transition-all cursor-pointer group relative overflow-hidden flex flex-col justify-between ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'} ${isExpanded ? 'min-h-[400px]' : 'min-h-[300px]'}`}>
@@ -994,6 +1274,10 @@ const LeadList: React.FC<LeadListProps> = ({
                       <i className={`${getSourceIcon(lead.source).icon} ${getSourceIcon(lead.source).color} text-[11px]`}></i>
                       <p className="text-[11px] text-slate-500 font-bold">{lead.source}</p>
                     </div>
+                    <div className="mt-2 flex flex-wrap gap-1.5 empty:hidden"><SlaBadge lead={lead} /><StageAgingBadge lead={lead} /></div>
+                    {serverHits.get(lead.id)?.kind === 'NOTE' && (
+                      <p className="mt-2 text-[11px] font-semibold text-slate-500 line-clamp-2"><i className="fas fa-sticky-note mr-1.5 text-amber-400"></i><SearchSnippet snippet={serverHits.get(lead.id)!.snippet} /></p>
+                    )}
                   </div>
                 </div>
                 <div className={`px-1 space-y-4 ${isExpanded ? 'mb-8' : 'mb-4'}`}>
@@ -1022,17 +1306,17 @@ const LeadList: React.FC<LeadListProps> = ({
                       {lead.homeAnniversary && <i className="fas fa-house-chimney-user text-xs text-emerald-400" title="Home Anniversary"></i>}
                     </div>
                   )}
-                  {lead.spouseFirstName && (
-                    <div className={`p-3 rounded-lg border flex items-center space-x-3 shadow-inner ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+                  {householdOf(relatedByLead.get(lead.id)).slice(0, 1).map(member => (
+                    <div key={member.relationship.id} className={`p-3 rounded-lg border flex items-center space-x-3 shadow-inner ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
                        <div className="w-7 h-7 rounded-md bg-indigo-100 text-indigo-600 flex items-center justify-center shrink-0">
                          <i className="fas fa-user-plus text-[10px]"></i>
                        </div>
                        <div className="overflow-hidden">
-                          <p className={`text-[12px] font-black truncate ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{lead.spouseFirstName} {lead.spouseLastName}</p>
-                          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{lead.secondaryContactRelationship}</p>
+                          <p className={`text-[12px] font-black truncate ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{member.lead.firstName} {member.lead.lastName}</p>
+                          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{member.label}</p>
                        </div>
                     </div>
-                  )}
+                  ))}
                 </div>
               </div>
               <div className="flex items-center justify-between text-[11px] text-slate-400 pt-5 border-t border-slate-100 dark:border-slate-800">
@@ -1106,24 +1390,26 @@ const LeadList: React.FC<LeadListProps> = ({
       )}
 
       {/* Pagination Controls */}
-      <div className={`flex flex-col md:flex-row items-center justify-between border rounded-[2rem] p-8 shadow-sm gap-8 mt-6 ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
-        <div className={`flex items-center space-x-4 border rounded-xl px-6 py-3 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
-          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Show:</span>
-          <select value={itemsPerPage} onChange={(e) => setItemsPerPage(Number(e.target.value))} className={`bg-transparent border-none text-sm font-black outline-none cursor-pointer ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>
-            {[10, 20, 30, 40, 50, 100].map(n => <option key={n} value={n} className={isDarkMode ? 'bg-slate-900' : ''}>{n}</option>)}
-          </select>
-          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">per page</span>
-        </div>
-        <div className="flex flex-col items-center space-y-3">
-           <div className="flex items-center space-x-6">
-              <button disabled={currentPage === 1} onClick={() => { setCurrentPage(p => Math.max(1, p - 1)); scrollToTop(); }} className={`w-12 h-12 flex items-center justify-center rounded-xl border disabled:opacity-30 shadow-sm transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}><i className="fas fa-chevron-left"></i></button>
-              <div className={`text-sm font-black uppercase tracking-[0.2em] px-4 ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Page {currentPage} of {totalPages || 1}</div>
-              <button disabled={currentPage >= totalPages} onClick={() => { setCurrentPage(p => Math.min(totalPages, p + 1)); scrollToTop(); }} className={`w-12 h-12 flex items-center justify-center rounded-xl bg-white border border-slate-200 text-slate-600 disabled:opacity-30 hover:bg-slate-50 shadow-sm transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}><i className="fas fa-chevron-right"></i></button>
-           </div>
-           <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Showing {paginatedLeads.length} of {filteredAndSortedLeads.length} leads</p>
+      {displayMode !== 'map' && (
+        <div className={`flex flex-col md:flex-row items-center justify-between border rounded-[2rem] p-8 shadow-sm gap-8 mt-6 ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+          <div className={`flex items-center space-x-4 border rounded-xl px-6 py-3 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Show:</span>
+            <select value={itemsPerPage} onChange={(e) => setItemsPerPage(Number(e.target.value))} className={`bg-transparent border-none text-sm font-black outline-none cursor-pointer ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>
+              {[10, 20, 30, 40, 50, 100].map(n => <option key={n} value={n} className={isDarkMode ? 'bg-slate-900' : ''}>{n}</option>)}
+            </select>
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">per page</span>
+          </div>
+          <div className="flex flex-col items-center space-y-3">
+             <div className="flex items-center space-x-6">
+                <button disabled={currentPage === 1} onClick={() => { setCurrentPage(p => Math.max(1, p - 1)); scrollToTop(); }} className={`w-12 h-12 flex items-center justify-center rounded-xl border disabled:opacity-30 shadow-sm transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}><i className="fas fa-chevron-left"></i></button>
+                <div className={`text-sm font-black uppercase tracking-[0.2em] px-4 ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Page {currentPage} of {totalPages || 1}</div>
+                <button disabled={currentPage >= totalPages} onClick={() => { setCurrentPage(p => Math.min(totalPages, p + 1)); scrollToTop(); }} className={`w-12 h-12 flex items-center justify-center rounded-xl bg-white border border-slate-200 text-slate-600 disabled:opacity-30 hover:bg-slate-50 shadow-sm transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}><i className="fas fa-chevron-right"></i></button>
+             </div>
+             <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Showing {paginatedLeads.length} of {filteredAndSortedLeads.length} leads</p>
+          </div>
+          <button onClick={scrollToTop} className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-xl text-[11px] font-black uppercase tracking-widest shadow-xl shadow-slate-200 hover:bg-slate-800 transition-all"><i className="fas fa-arrow-up"></i><span>Back to Top</span></button>
         </div>
-        <button onClick={scrollToTop} className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-xl text-[11px] font-black uppercase tracking-widest shadow-xl shadow-slate-200 hover:bg-slate-800 transition-all"><i className="fas fa-arrow-up"></i><span>Back to Top</span></button>
-      </div>
+      )}
 
       {/* Config/Settings Modal */}
       {isSettingsOpen && (
@@ -1242,6 +1528,44 @@ const LeadList: React.FC<LeadListProps> = ({
         </div>
       )}
 
+      {/* Save Smart List Modal */}
+      {isSaveListOpen && (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={() => setIsSaveListOpen(false)}></div>
+          <div className={`rounded-[2rem] shadow-2xl border w-full max-w-lg p-10 relative z-10 animate-in zoom-in-95 duration-200 space-y-6 ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+            <h3 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Save Smart List</h3>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Name</label>
+              <input
+                type="text"
+                autoFocus
+                value={saveListName}
+                onChange={e => setSaveListName(e.target.value)}
+                placeholder="e.g. Birthdays this month"
+                className={`w-full border rounded-xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-200'}`}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Query</label>
+              <p className={`font-mono text-xs p-4 rounded-xl break-words ${isDarkMode ? 'bg-slate-800 text-slate-300' : 'bg-slate-50 text-slate-600'}`}>{currentListQuery}</p>
+            </div>
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input type="checkbox" checked={saveListShared} onChange={e => setSaveListShared(e.target.checked)} className="w-5 h-5 accent-indigo-600" />
+              <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>Share with everyone in the brokerage</span>
+            </label>
+            <div className="flex space-x-3">
+              <button onClick={() => setIsSaveListOpen(false)} className={`flex-1 py-4 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${isDarkMode ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>Cancel</button>
+              {canEditList(activeList) && (
+                <button onClick={() => handleSaveList(true)} disabled={!saveListName.trim() || isSavingList} className={`flex-1 py-4 rounded-xl text-xs font-black uppercase tracking-widest border transition-all disabled:opacity-40 ${isDarkMode ? 'border-slate-700 text-slate-300' : 'border-indigo-200 text-indigo-600 hover:bg-indigo-50'}`}>Save As New</button>
+              )}
+              <button onClick={() => handleSaveList(false)} disabled={!saveListName.trim() || isSavingList} className="flex-1 py-4 bg-indigo-600 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition-all disabled:opacity-40">
+                {isSavingList ? 'Saving...' : canEditList(activeList) ? 'Update List' : 'Save List'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Bulk Delete Modal */}
       {isBulkDeleteModalOpen && (
         <div className="fixed inset-0 z-[300] flex items-center justify-center p-4">
@@ -1417,8 +1741,8 @@ const LeadList: React.FC<LeadListProps> = ({
 
                 <div className="grid grid-cols-2 gap-8">
                   <div className="space-y-2.5">
-                    <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Temperature</label>
-                    <select value={leadFormData.temperature} onChange={e => setLeadFormData({...leadFormData, temperature: e.target.value as any})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-black focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all shadow-sm cursor-pointer ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`}>
+                    <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Temperature{isTemperatureScored && ' · Set by lead scoring'}</label>
+                    <select value={leadFormData.temperature} onChange={e => setLeadFormData({...leadFormData, temperature: e.target.value as any})} disabled={isTemperatureScored} title={isTemperatureScored ? 'Lead scoring sets temperature from the score' : undefined} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-black focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all shadow-sm cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`}>
                       {Object.values(LeadTemperature).map(t => <option key={t} value={t} className={isDarkMode ? 'bg-slate-900 text-white' : ''}>{t}</option>)}
                     </select>
                   </div>
@@ -1445,40 +1769,48 @@ const LeadList: React.FC<LeadListProps> = ({
                   <h4 className={`text-lg font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>Secondary Contact Details</h4>
                 </div>
 
-                <div className="grid grid-cols-3 gap-8">
-                  <div className="space-y-2.5">
-                    <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Relationship</label>
-                    <select value={leadFormData.secondaryContactRelationship} onChange={e => setLeadFormData({...leadFormData, secondaryContactRelationship: e.target.value as any})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm cursor-pointer ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`}>
-                      {RELATIONSHIP_OPTIONS.map(opt => <option key={opt} value={opt} className={isDarkMode ? 'bg-slate-900 text-white' : ''}>{opt}</option>)}
-                    </select>
-                  </div>
-                  <div className="space-y-2.5">
-                    <label className="text-[12px] font-black text-slate-400 uppercase ml-1">First Name</label>
-                    <input type="text" value={leadFormData.spouseFirstName} onChange={e => setLeadFormData({...leadFormData, spouseFirstName: e.target.value})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
-                  </div>
-                  <div className="space-y-2.5">
-                    <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Last Name</label>
-                    <input type="text" value={leadFormData.spouseLastName} onChange={e => setLeadFormData({...leadFormData, spouseLastName: e.target.value})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
-                  </div>
-                </div>
+                {isEditModalOpen ? (
+                  <p className="text-[12px] font-black text-slate-400 uppercase tracking-widest ml-1">
+                    {householdOf(relatedByLead.get(editingLead?.id || '')).map(r => `${r.label}: ${r.lead.firstName} ${r.lead.lastName}`).join(' · ') || 'No linked contacts'} — manage relationships from the lead profile
+                  </p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-3 gap-8">
+                      <div className="space-y-2.5">
+                        <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Relationship</label>
+                        <select value={householdDraft.type} onChange={e => setHouseholdDraft({...householdDraft, type: e.target.value as LeadRelationshipType})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm cursor-pointer ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`}>
+                          {RELATIONSHIP_TYPES.map(opt => <option key={opt.type} value={opt.type} className={isDarkMode ? 'bg-slate-900 text-white' : ''}>{opt.label}</option>)}
+                        </select>
+                      </div>
+                      <div className="space-y-2.5">
+                        <label className="text-[12px] font-black text-slate-400 uppercase ml-1">First Name</label>
+                        <input type="text" value={householdDraft.firstName} onChange={e => setHouseholdDraft({...householdDraft, firstName: e.target.value})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
+                      </div>
+                      <div className="space-y-2.5">
+                        <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Last Name</label>
+                        <input type="text" value={householdDraft.lastName} onChange={e => setHouseholdDraft({...householdDraft, lastName: e.target.value})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder={leadFormData.lastName} />
+                      </div>
+                    </div>
 
-                <div className="grid grid-cols-2 gap-8">
-                  <div className="space-y-2.5">
-                    <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Secondary Email</label>
-                    <input type="email" value={leadFormData.spouseEmail} onChange={e => setLeadFormData({...leadFormData, spouseEmail: e.target.value})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder="email@example.com" />
-                  </div>
-                  <div className="space-y-2.5">
-                    <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Secondary Phone</label>
-                    <input type="tel" value={leadFormData.spousePhone} onChange={e => setLeadFormData({...leadFormData, spousePhone: formatPhone(e.target.value)})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder="(555) 000-0000" />
-                  </div>
-                </div>
+                    <div className="grid grid-cols-2 gap-8">
+                      <div className="space-y-2.5">
+                        <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Secondary Email</label>
+                        <input type="email" value={householdDraft.email} onChange={e => setHouseholdDraft({...householdDraft, email: e.target.value})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder="email@example.com" />
+                      </div>
+                      <div className="space-y-2.5">
+                        <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Secondary Phone</label>
+                        <input type="tel" value={householdDraft.phone} onChange={e => setHouseholdDraft({...householdDraft, phone: formatPhone(e.target.value)})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} placeholder="(555) 000-0000" />
+                      </div>
+                    </div>
 
-                <div className="grid grid-cols-3 gap-8">
-                  <div className="space-y-2.5">
-                    <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Secondary Birthday</label>
-                    <input type="date" value={leadFormData.spouseDob} onChange={e => setLeadFormData({...leadFormData, spouseDob: e.target.value})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
-                  </div>
-                </div>
+                    <div className="grid grid-cols-3 gap-8">
+                      <div className="space-y-2.5">
+                        <label className="text-[12px] font-black text-slate-400 uppercase ml-1">Secondary Birthday</label>
+                        <input type="date" value={householdDraft.dob} onChange={e => setHouseholdDraft({...householdDraft, dob: e.target.value})} className={`w-full border rounded-[1.5rem] px-6 py-5 text-lg font-semibold focus:ring-4 focus:ring-indigo-500/10 outline-none shadow-sm ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200'}`} />
+                      </div>
+                    </div>
+                  </>
+                )}
 
                 {/* FAMILY NOTES IN FORM */}
                 <div className="space-y-2.5">
@@ -1492,6 +1824,15 @@ const LeadList: React.FC<LeadListProps> = ({
                 </div>
               </div>
 
+              <DuplicateWarning
+                draft={leadFormData}
+                leads={leads}
+                editingId={isEditModalOpen ? editingLead?.id : undefined}
+                relatedByLead={relatedByLead}
+                onOpenLead={lead => { setIsNewLeadModalOpen(false); setIsEditModalOpen(false); onSelectLead(lead); }}
+                isDarkMode={isDarkMode}
+              />
+
               <div className="pt-10 flex items-center space-x-8">
                 <button type="button" onClick={() => { setIsNewLeadModalOpen(false); setIsEditModalOpen(false); }} className={`flex-1 py-6 rounded-[2rem] text-lg font-black uppercase tracking-widest transition-all ${isDarkMode ? 'bg-slate-800 text-slate-400 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>Cancel</button>
                 <button type="submit" className="flex-1 py-6 bg-indigo-600 text-white rounded-[2rem] text-lg font-black uppercase tracking-widest shadow-2xl shadow-indigo-100 hover:bg-indigo-700 transition-all">{isEditModalOpen ? 'Save Changes' : 'Create Profile'}</button>
@@ -1500,6 +1841,27 @@ const LeadList: React.FC<LeadListProps> = ({
           </div>
         </div>
       )}
+
+      {isImportWizardOpen && (
+        <ImportWizard
+          brokerageId={brokerageId}
+          currentUser={currentUser}
+          leads={leads}
+          entityLabel="Leads"
+          defaults={{
+            status: LeadStatus.NEW,
+            source: 'CSV Import',
+            tags: ['Imported'],
+            assignedAgentId: '', // Assigned by the lead routing engine
+            dealValueRate: 0.03
+          }}
+          customFields={customFields}
+          onImport={imported => onAddLeads(imported, 'IMPORT')}
+          onAddRelatedLeads={onAddRelatedLeads}
+          onClose={() => setIsImportWizardOpen(false)}
+          isDarkMode={isDarkMode}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Deal, Lead, LeadNote, Task, User } from '../types.ts';
+import { MERGEABLE_FIELDS, MergeSide, MergeableLeadField, defaultMergePicks, mergeChanges } from '../lib/leadDuplicates.ts';
+
+interface LeadMergeModalProps {
+  first: Lead;
+  second: Lead;
+  agents: User[];
+  tasks: Task[];
+  deals: Deal[];
+  currentUser: User;
+  onMerge: (survivorId: string, duplicateId: string, changes: Partial<Lead>, note: LeadNote) => Promise<void>;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+const LeadMergeModal: React.FC<LeadMergeModalProps> = ({
+  first,
+  second,
+  agents,
+  tasks,
+  deals,
+  currentUser,
+  onMerge,
+  onClose,
+  isDarkMode
+}) => {
+  // The older record survives by default so its id stays in links and history
+  const [survivor, setSurvivor] = useState(first);
+  const duplicate = survivor.id === first.id ? second : first;
+  const [picks, setPicks] = useState<Record<MergeableLeadField, MergeSide>>(() => defaultMergePicks(first, second));
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const swapSurvivor = () => {
+    setSurvivor(duplicate);
+    // Keep each chosen value on screen; only which record it belongs to changes
+    setPicks(prev => Object.fromEntries(
+      Object.entries(prev).map(([field, side]) => [field, side === 'survivor' ? 'duplicate' : 'survivor'])
+    ) as Record<MergeableLeadField, MergeSide>);
+  };
+
+  const formatValue = (field: MergeableLeadField, lead: Lead): string => {
+    const value = lead[field];
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'budget') return `$${Number(value).toLocaleString()}`;
+    if (field === 'assignedAgentId') {
+      const agent = agents.find(a => a.id === value);
+      return agent ? `${agent.firstName} ${agent.lastName}` : 'Former agent';
+    }
+    return String(value);
+  };
+
+  const movingTasks = tasks.filter(t => t.leadId === duplicate.id).length;
+  const movingDeals = deals.filter(d => d.leadId === duplicate.id).length;
+  const combinedTags = Array.from(new Set([...survivor.tags, ...duplicate.tags]));
+
+  const handleMerge = async () => {
+    const mergeNote: LeadNote = {
+      id: `note_merge_${Date.now()}`,
+      content: `Merged duplicate record ${duplicate.firstName} ${duplicate.lastName} (${duplicate.source}) into this lead.`,
+      createdAt: new Date().toISOString(),
+      authorId: 'SYSTEM',
+      authorName: `${currentUser.firstName} ${currentUser.lastName}`
+    };
+
+    setIsMerging(true);
+    setError(null);
+    try {
+      await onMerge(survivor.id, duplicate.id, mergeChanges(survivor, duplicate, picks), mergeNote);
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || 'Unable to merge these leads. Please try again.');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const sideClass = (isOn: boolean) => `w-full text-left px-4 py-3 rounded-xl border font-bold truncate transition-all ${
+    isOn
+      ? 'bg-indigo-50 border-indigo-300 text-indigo-700 ring-2 ring-indigo-500/20'
+      : isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-400 hover:border-indigo-500' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-300'
+  }`;
+
+  const header = (lead: Lead, label: string) => (
+    <div className="min-w-0">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+      <p className={`text-lg font-black truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{lead.firstName} {lead.lastName}</p>
+      <p className="text-[10px] font-bold text-slate-400">{lead.source} · added {new Date(lead.createdAt).toLocaleDateString()}</p>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[220] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}></div>
+      <div className={`rounded-[2.5rem] shadow-2xl border w-full max-w-4xl max-h-[92vh] flex flex-col p-10 relative z-10 animate-in zoom-in-95 duration-200 text-[12px] ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h3 className={`text-2xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Merge Leads</h3>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pick the value to keep for each field</p>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 rounded-xl text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-all">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-[160px_1fr_40px_1fr] items-end gap-3 mb-4">
+          <span></span>
+          {header(survivor, 'Keep this record')}
+          <button onClick={swapSurvivor} title="Keep the other record instead" className="w-10 h-10 rounded-xl text-indigo-500 hover:bg-indigo-50 transition-all">
+            <i className="fas fa-right-left"></i>
+          </button>
+          {header(duplicate, 'Merge and retire')}
+        </div>
+
+        <div className="flex-1 overflow-y-auto pr-2 space-y-2">
+          {MERGEABLE_FIELDS.map(({ field, label }) => {
+            const survivorValue = formatValue(field, survivor);
+            const duplicateValue = formatValue(field, duplicate);
+            return (
+              <div key={field} className="grid grid-cols-[160px_1fr_40px_1fr] items-center gap-3">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+                <button onClick={() => setPicks(prev => ({ ...prev, [field]: 'survivor' }))} className={sideClass(picks[field] === 'survivor')}>
+                  {survivorValue}
+                </button>
+                <span className="text-center text-slate-300">{survivorValue === duplicateValue ? '=' : ''}</span>
+                <button onClick={() => setPicks(prev => ({ ...prev, [field]: 'duplicate' }))} className={sideClass(picks[field] === 'duplicate')}>
+                  {duplicateValue}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={`mt-6 p-5 rounded-2xl border grid grid-cols-2 md:grid-cols-4 gap-4 ${isDarkMode ? 'bg-slate-800/50 border-slate-800' : 'bg-slate-50 border-slate-100'}`}>
+          {[
+            { label: 'Notes', value: survivor.notes.length + duplicate.notes.length },
+            { label: 'Tags', value: combinedTags.length },
+            { label: 'Tasks Moved', value: movingTasks },
+            { label: 'Deals Moved', value: movingDeals }
+          ].map(stat => (
+            <div key={stat.label}>
+              <p className={`text-xl font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{stat.value}</p>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{stat.label}</p>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="mt-4 rounded-xl px-4 py-3 bg-rose-50 text-rose-600 font-semibold">{error}</p>}
+
+        <div className="mt-6 flex items-center justify-end space-x-3">
+          <button onClick={onClose} className={`px-6 py-4 rounded-2xl text-xs font-black uppercase tracking-widest transition-all ${isDarkMode ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={isMerging}
+            className="px-8 py-4 bg-indigo-600 text-white rounded-2xl text-xs font-black uppercase tracking-widest shadow-xl shadow-indigo-200 hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50"
+          >
+            <i className={`fas ${isMerging ? 'fa-circle-notch fa-spin' : 'fa-code-merge'} mr-2`}></i>Merge Leads
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeadMergeModal;
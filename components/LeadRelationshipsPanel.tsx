@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { Lead, LeadRelationshipType } from '../types.ts';
+import { RELATIONSHIP_TYPES, RelatedContact, RelatedLeadDraft, newRelatedLead } from '../lib/relationships.ts';
+import { toTelUri } from '../lib/phone.ts';
+
+interface LeadRelationshipsPanelProps {
+  lead: Lead;
+  leads: Lead[];
+  related: RelatedContact[];
+  onAddRelatedLeads: (drafts: RelatedLeadDraft[]) => Promise<unknown> | void;
+  onRemoveRelationship: (id: string) => void;
+  onSelectLead: (lead: Lead) => void;
+  inputClass: string;
+  labelClass: string;
+  isDarkMode?: boolean;
+}
+
+const MAX_MATCHES = 6;
+
+const emptyPerson = { firstName: '', lastName: '', email: '', phone: '', dob: '' };
+
+const formatPhone = (value: string) => {
+  if (!value) return value;
+  const phoneNumber = value.replace(/[^\d]/g, '');
+  const length = phoneNumber.length;
+  if (length < 4) return `(${phoneNumber}`;
+  if (length < 7) return `(${phoneNumber.slice(0, 3)}) ${phoneNumber.slice(3)}`;
+  return `(${phoneNumber.slice(0, 3)}) ${phoneNumber.slice(3, 6)}-${phoneNumber.slice(6, 10)}`;
+};
+
+const formatBirthday = (dob: string) =>
+  new Date(`${dob.slice(0, 10)}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const LeadRelationshipsPanel: React.FC<LeadRelationshipsPanelProps> = ({
+  lead,
+  leads,
+  related,
+  onAddRelatedLeads,
+  onRemoveRelationship,
+  onSelectLead,
+  inputClass,
+  labelClass,
+  isDarkMode
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [mode, setMode] = useState<'existing' | 'new'>('existing');
+  const [type, setType] = useState<LeadRelationshipType>('SPOUSE');
+  const [search, setSearch] = useState('');
+  const [person, setPerson] = useState(emptyPerson);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const matches = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    const linked = new Set(related.map(r => r.lead.id));
+    return leads
+      .filter(l => !l.isDeleted && l.id !== lead.id && !linked.has(l.id))
+      .filter(l => `${l.firstName} ${l.lastName}`.toLowerCase().includes(term) || (l.email || '').toLowerCase().includes(term))
+      .slice(0, MAX_MATCHES);
+  }, [search, leads, lead.id, related]);
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setSearch('');
+    setPerson(emptyPerson);
+  };
+
+  const link = async (draft: RelatedLeadDraft) => {
+    setIsSaving(true);
+    await onAddRelatedLeads([draft]);
+    setIsSaving(false);
+    resetForm();
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!person.firstName.trim()) return;
+    link({ lead, related: newRelatedLead(lead, person), isNew: true, type });
+  };
+
+  const handleRemove = (contact: RelatedContact) => {
+    if (window.confirm(`Unlink ${contact.lead.firstName} ${contact.lead.lastName}? Both contacts are kept.`)) {
+      onRemoveRelationship(contact.relationship.id);
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between px-2">
+        <div className="flex items-center space-x-4">
+          <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center text-base shadow-md">
+            <i className="fas fa-people-group"></i>
+          </div>
+          <h4 className={`text-base font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Relationships</h4>
+        </div>
+        {!isAdding && (
+          <button onClick={() => setIsAdding(true)} className="px-5 py-2.5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-indigo-700 transition-all">
+            <i className="fas fa-link mr-2"></i>Link Contact
+          </button>
+        )}
+      </div>
+
+      <div className={`rounded-[3rem] p-10 border space-y-6 ${isDarkMode ? 'bg-slate-800/40 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+        {related.length === 0 && !isAdding && (
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-center py-4">No household members, referrers or advisors linked yet</p>
+        )}
+
+        {related.map(contact => (
+          <div key={contact.relationship.id} className={`flex items-center gap-4 p-4 rounded-2xl border group ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-100'}`}>
+            <div className={`w-10 h-10 rounded-xl flex items-center justify-center shrink-0 ${contact.household ? 'bg-pink-50 text-pink-500' : 'bg-indigo-50 text-indigo-500'}`}>
+              <i className={`fas ${contact.icon}`}></i>
+            </div>
+            <div className="flex-1 min-w-0">
+              <button onClick={() => onSelectLead(contact.lead)} className={`text-base font-black truncate hover:text-indigo-600 transition-colors text-left ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>
+                {contact.lead.firstName} {contact.lead.lastName}
+              </button>
+              <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <span>{contact.label}</span>
+                {contact.lead.dob && <span><i className="fas fa-cake-candles mr-1"></i>{formatBirthday(contact.lead.dob)}</span>}
+              </div>
+            </div>
+            {contact.lead.email && <a href={`mailto:${contact.lead.email}`} title={contact.lead.email} className="w-8 h-8 rounded-lg flex items-center justify-center text-indigo-400 hover:bg-indigo-50 hover:text-indigo-600 transition-all"><i className="fas fa-envelope text-xs"></i></a>}
+            {contact.lead.phone && <a href={toTelUri(contact.lead.phone)} title={contact.lead.phone} className="w-8 h-8 rounded-lg flex items-center justify-center text-indigo-400 hover:bg-indigo-50 hover:text-indigo-600 transition-all"><i className="fas fa-phone text-xs"></i></a>}
+            <button onClick={() => handleRemove(contact)} title="Unlink" className="w-8 h-8 rounded-lg flex items-center justify-center text-slate-300 opacity-0 group-hover:opacity-100 hover:bg-rose-50 hover:text-rose-500 transition-all"><i className="fas fa-link-slash text-xs"></i></button>
+          </div>
+        ))}
+
+        {isAdding && (
+          <div className={`space-y-6 ${related.length > 0 ? 'pt-6 border-t border-slate-200/50' : ''}`}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-1">
+                <label className={labelClass}>{lead.firstName}'s...</label>
+                <select value={type} onChange={e => setType(e.target.value as LeadRelationshipType)} className={inputClass}>
+                  {RELATIONSHIP_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Contact</label>
+                <div className={`flex p-1 rounded-2xl border ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+                  {(['existing', 'new'] as const).map(m => (
+                    <button key={m} type="button" onClick={() => setMode(m)} className={`flex-1 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>
+                      {m === 'existing' ? 'Existing Contact' : 'New Contact'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {mode === 'existing' ? (
+              <div className="space-y-3">
+                <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search by name or email..." className={inputClass} autoFocus />
+                {matches.map(match => (
+                  <button
+                    key={match.id}
+                    disabled={isSaving}
+                    onClick={() => link({ lead, related: match, isNew: false, type })}
+                    className={`w-full flex items-center justify-between p-4 rounded-2xl border text-left transition-all disabled:opacity-50 ${isDarkMode ? 'bg-slate-900 border-slate-700 hover:border-indigo-500' : 'bg-white border-slate-100 hover:border-indigo-300'}`}
+                  >
+                    <span className={`font-bold ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{match.firstName} {match.lastName}</span>
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{match.email || match.phone}</span>
+                  </button>
+                ))}
+                {search.trim() && matches.length === 0 && (
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">No matching contacts; add them as a new contact instead</p>
+                )}
+              </div>
+            ) : (
+              <form onSubmit={handleCreate} className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label className={labelClass}>First Name</label>
+                    <input type="text" required value={person.firstName} onChange={e => setPerson({ ...person, firstName: e.target.value })} className={inputClass} placeholder="Jane" />
+                  </div>
+                  <div className="space-y-1">
+                    <label className={labelClass}>Last Name</label>
+                    <input type="text" value={person.lastName} onChange={e => setPerson({ ...person, lastName: e.target.value })} className={inputClass} placeholder={lead.lastName} />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <label className={labelClass}>Email</label>
+                    <input type="email" value={person.email} onChange={e => setPerson({ ...person, email: e.target.value })} className={inputClass} placeholder="email@address.com" />
+                  </div>
+                  <div className="space-y-1">
+                    <label className={labelClass}>Phone</label>
+                    <input type="tel" value={person.phone} onChange={e => setPerson({ ...person, phone: formatPhone(e.target.value) })} className={inputClass} placeholder="(555) 000-0000" />
+                  </div>
+                  <div className="space-y-1">
+                    <label className={labelClass}>Birthday</label>
+                    <input type="date" value={person.dob} onChange={e => setPerson({ ...person, dob: e.target.value })} className={inputClass} />
+                  </div>
+                </div>
+                <button type="submit" disabled={isSaving || !person.firstName.trim()} className="px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-indigo-700 transition-all disabled:opacity-40">
+                  {isSaving ? 'Saving...' : 'Create & Link'}
+                </button>
+              </form>
+            )}
+
+            <button onClick={resetForm} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-600">Cancel</button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default LeadRelationshipsPanel;
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { Brokerage, User, LeadRoutingConfig, LeadRoutingRule, LeadAssignment, AgentAvailability, RoutingStrategy, SlaPolicy } from '../types.ts';
+import { leadRoutingService } from '../services/leadRoutingService.ts';
+import { DEFAULT_ROUTING_CONFIG } from '../lib/leadRouting.ts';
+import { buildPath, navigate } from '../lib/router.ts';
+
+interface LeadRoutingSettingsProps {
+  brokerage: Brokerage;
+  teamMembers: User[];
+  availableSources: string[];
+  isDarkMode?: boolean;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const STRATEGY_LABELS: Record<RoutingStrategy, string> = {
+  ROUND_ROBIN: 'Round Robin',
+  WEIGHTED: 'Weighted'
+};
+
+const ORIGIN_LABELS: Record<LeadAssignment['origin'], string> = {
+  INGESTION: 'Portal',
+  IMPORT: 'Import',
+  MANUAL: 'Manual',
+  SLA_ESCALATION: 'SLA Escalation'
+};
+
+const ALWAYS_AVAILABLE: AgentAvailability = { isAvailable: true, days: [], startTime: '', endTime: '' };
+
+const parseList = (value: string) => value.split(/[,\s]+/).map(v => v.trim()).filter(Boolean);
+
+const parsePrice = (value: string) => value.trim() === '' ? undefined : Math.max(0, Number(value) || 0);
+
+const LeadRoutingSettings: React.FC<LeadRoutingSettingsProps> = ({ brokerage, teamMembers, availableSources, isDarkMode }) => {
+  const [config, setConfig] = useState<LeadRoutingConfig>(DEFAULT_ROUTING_CONFIG);
+  const [assignments, setAssignments] = useState<LeadAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all([
+      leadRoutingService.getConfig(brokerage.id),
+      leadRoutingService.getAssignments(brokerage.id, 20)
+    ]).then(([loadedConfig, loadedAssignments]) => {
+      if (cancelled) return;
+      setConfig(loadedConfig);
+      setAssignments(loadedAssignments);
+      setIsDirty(false);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [brokerage.id]);
+
+  const update = (patch: Partial<LeadRoutingConfig>) => {
+    setConfig(prev => ({ ...prev, ...patch }));
+    setIsDirty(true);
+  };
+
+  const updateRule = (ruleId: string, patch: Partial<LeadRoutingRule>) => {
+    update({ rules: config.rules.map(r => r.id === ruleId ? { ...r, ...patch } : r) });
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const rules = [...config.rules];
+    const [rule] = rules.splice(index, 1);
+    rules.splice(index + offset, 0, rule);
+    update({ rules });
+  };
+
+  const addRule = () => {
+    update({
+      rules: [...config.rules, {
+        id: `rule_${Date.now()}`,
+        name: `Rule ${config.rules.length + 1}`,
+        isActive: true,
+        sources: [],
+        zipPrefixes: [],
+        agentIds: [],
+        strategy: 'ROUND_ROBIN'
+      }]
+    });
+  };
+
+  const updateAvailability = (agentId: string, patch: Partial<AgentAvailability>) => {
+    const current = config.agentAvailability[agentId] || ALWAYS_AVAILABLE;
+    update({ agentAvailability: { ...config.agentAvailability, [agentId]: { ...current, ...patch } } });
+  };
+
+  const updateSlaPolicy = (source: string, patch: Partial<SlaPolicy>) => {
+    const current = config.slaPolicies[source] || { minutes: 0, reassignOnBreach: false };
+    update({ slaPolicies: { ...config.slaPolicies, [source]: { ...current, ...patch } } });
+  };
+
+  // Policies for sources since removed from the list stay editable
+  const slaSources = Array.from(new Set([...availableSources, ...Object.keys(config.slaPolicies)]));
+
+  const toggleId = (ids: string[], id: string) => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id];
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      setConfig(await leadRoutingService.saveConfig(brokerage.id, config));
+      setIsDirty(false);
+    } catch (error) {
+      alert('Failed to save routing settings. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const agentName = (agentId: string) => {
+    const agent = teamMembers.find(u => u.id === agentId);
+    return agent ? `${agent.firstName} ${agent.lastName}` : 'Former agent';
+  };
+
+  const cardClass = `border rounded-[2rem] p-8 shadow-sm space-y-6 ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`;
+  const inputClass = `w-full border rounded-xl px-4 py-3 font-bold text-xs outline-none transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-200 focus:bg-white'}`;
+  const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1';
+  const chipClass = (isOn: boolean) => `px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+    isOn ? 'bg-indigo-600 text-white border-indigo-600' : isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:border-indigo-500' : 'bg-slate-50 text-slate-500 border-slate-200 hover:border-indigo-300'
+  }`;
+
+  const renderAgentChips = (selected: string[], onToggle: (agentId: string) => void) => (
+    <div className="flex flex-wrap gap-2">
+      {teamMembers.map(agent => (
+        <button key={agent.id} onClick={() => onToggle(agent.id)} className={chipClass(selected.includes(agent.id))}>
+          {agent.firstName} {agent.lastName}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderStrategySelect = (value: RoutingStrategy, onChange: (strategy: RoutingStrategy) => void) => (
+    <select className={`${inputClass} appearance-none cursor-pointer`} value={value} onChange={e => onChange(e.target.value as RoutingStrategy)}>
+      {(Object.keys(STRATEGY_LABELS) as RoutingStrategy[]).map(s => <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>)}
+    </select>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="py-10 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">
+        <i className="fas fa-circle-notch fa-spin mr-2"></i>Loading routing
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-8 animate-in fade-in duration-500 ${isDarkMode ? 'dark' : ''}`}>
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="flex flex-col space-y-1">
+          <h3 className={`text-xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Lead Routing</h3>
+          <p className="text-sm text-slate-500 font-medium">Assign portal and imported leads automatically. Rules run top to bottom; the first match with an available agent wins.</p>
+        </div>
+        <div className="flex items-center space-x-3 shrink-0">
+          <button
+            onClick={() => update({ isEnabled: !config.isEnabled })}
+            className={`px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${config.isEnabled ? 'bg-emerald-50 text-emerald-600 border-emerald-100' : isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700' : 'bg-slate-100 text-slate-500 border-slate-200'}`}
+          >
+            {config.isEnabled ? 'Routing On' : 'Routing Off'}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all disabled:opacity-40"
+          >
+            {isSaving ? 'Saving...' : 'Save Routing'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+        <div className="space-y-6">
+          {config.rules.map((rule, index) => (
+            <div key={rule.id} className={`${cardClass} ${rule.isActive ? '' : 'opacity-60'}`}>
+              <div className="flex items-center space-x-3">
+                <span className="w-8 h-8 rounded-xl bg-indigo-50 text-indigo-600 flex items-center justify-center text-xs font-black shrink-0">{index + 1}</span>
+                <input className={inputClass} value={rule.name} onChange={e => updateRule(rule.id, { name: e.target.value })} />
+                <button onClick={() => updateRule(rule.id, { isActive: !rule.isActive })} className={chipClass(rule.isActive)}>
+                  {rule.isActive ? 'On' : 'Off'}
+                </button>
+                <button disabled={index === 0} onClick={() => moveRule(index, -1)} className="w-8 h-8 text-slate-400 hover:text-indigo-500 disabled:opacity-30"><i className="fas fa-arrow-up"></i></button>
+                <button disabled={index === config.rules.length - 1} onClick={() => moveRule(index, 1)} className="w-8 h-8 text-slate-400 hover:text-indigo-500 disabled:opacity-30"><i className="fas fa-arrow-down"></i></button>
+                <button onClick={() => update({ rules: config.rules.filter(r => r.id !== rule.id) })} className="w-8 h-8 text-slate-400 hover:text-rose-500"><i className="fas fa-trash-alt"></i></button>
+              </div>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Lead Source</label>
+                <div className="flex flex-wrap gap-2">
+                  {availableSources.map(source => (
+                    <button key={source} onClick={() => updateRule(rule.id, { sources: toggleId(rule.sources, source) })} className={chipClass(rule.sources.includes(source))}>
+                      {source}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className={labelClass}>ZIP Prefixes</label>
+                  <input
+                    key={`${rule.id}-zips`}
+                    className={inputClass}
+                    placeholder="Any"
+                    defaultValue={rule.zipPrefixes.join(', ')}
+                    onBlur={e => updateRule(rule.id, { zipPrefixes: parseList(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>Min Budget</label>
+                  <input type="number" className={inputClass} placeholder="Any" value={rule.minPrice ?? ''} onChange={e => updateRule(rule.id, { minPrice: parsePrice(e.target.value) })} />
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>Max Budget</label>
+                  <input type="number" className={inputClass} placeholder="Any" value={rule.maxPrice ?? ''} onChange={e => updateRule(rule.id, { maxPrice: parsePrice(e.target.value) })} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Assign To</label>
+                {renderAgentChips(rule.agentIds, agentId => updateRule(rule.id, { agentIds: toggleId(rule.agentIds, agentId) }))}
+              </div>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Strategy</label>
+                {renderStrategySelect(rule.strategy, strategy => updateRule(rule.id, { strategy }))}
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={addRule}
+            className={`w-full border-2 border-dashed rounded-[2rem] p-6 text-[10px] font-black uppercase tracking-widest transition-all ${isDarkMode ? 'border-slate-800 text-slate-500 hover:border-indigo-500' : 'border-slate-200 text-slate-400 hover:border-indigo-300 hover:text-indigo-500'}`}
+          >
+            <i className="fas fa-plus mr-2"></i>Add Routing Rule
+          </button>
+
+          <div className={cardClass}>
+            <div>
+              <h4 className={`text-base font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Default Pool</h4>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Used when no rule matches; the broker receives anything left over</p>
+            </div>
+            {renderAgentChips(config.defaultAgentIds, agentId => update({ defaultAgentIds: toggleId(config.defaultAgentIds, agentId) }))}
+            {renderStrategySelect(config.defaultStrategy, defaultStrategy => update({ defaultStrategy }))}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className={cardClass}>
+            <div>
+              <h4 className={`text-base font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Speed-to-Lead SLA</h4>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Minutes an agent has to contact or note a new ingested lead; blank means no SLA</p>
+            </div>
+            <div className={`divide-y ${isDarkMode ? 'divide-slate-800' : 'divide-slate-100'}`}>
+              {slaSources.map(source => {
+                const policy = config.slaPolicies[source];
+                return (
+                  <div key={source} className="py-3 flex items-center justify-between gap-3">
+                    <span className={`font-black truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{source}</span>
+                    <div className="flex items-center space-x-2 shrink-0">
+                      <input
+                        type="number"
+                        min={0}
+                        placeholder="—"
+                        className={`${inputClass} w-20`}
+                        value={policy?.minutes || ''}
+                        onChange={e => updateSlaPolicy(source, { minutes: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                      />
+                      <label className={labelClass}>Min</label>
+                      <button
+                        onClick={() => updateSlaPolicy(source, { reassignOnBreach: !policy?.reassignOnBreach })}
+                        disabled={!policy?.minutes}
+                        className={`${chipClass(!!policy?.reassignOnBreach)} disabled:opacity-40`}
+                      >
+                        {policy?.reassignOnBreach ? 'Reassign on Breach' : 'Escalate Only'}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className={cardClass}>
+            <div>
+              <h4 className={`text-base font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Agent Availability & Weights</h4>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Hours are in {config.timeZone}; weights apply to weighted pools</p>
+            </div>
+            <div className={`divide-y ${isDarkMode ? 'divide-slate-800' : 'divide-slate-100'}`}>
+              {teamMembers.map(agent => {
+                const availability = config.agentAvailability[agent.id] || ALWAYS_AVAILABLE;
+                return (
+                  <div key={agent.id} className="py-4 space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className={`font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>{agent.firstName} {agent.lastName}</span>
+                      <div className="flex items-center space-x-2">
+                        <label className={labelClass}>Weight</label>
+                        <input
+                          type="number"
+                          min={0}
+                          className={`${inputClass} w-20`}
+                          value={config.agentWeights[agent.id] ?? 1}
+                          onChange={e => update({ agentWeights: { ...config.agentWeights, [agent.id]: Math.max(0, Number(e.target.value) || 0) } })}
+                        />
+                        <button onClick={() => updateAvailability(agent.id, { isAvailable: !availability.isAvailable })} className={chipClass(availability.isAvailable)}>
+                          {availability.isAvailable ? 'Available' : 'Away'}
+                        </button>
+                      </div>
+                    </div>
+                    {availability.isAvailable && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <button
+                            key={day}
+                            onClick={() => updateAvailability(agent.id, {
+                              days: availability.days.includes(day) ? availability.days.filter(d => d !== day) : [...availability.days, day].sort()
+                            })}
+                            className={`w-8 h-8 ${chipClass(availability.days.includes(day))} !px-0`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                        <input type="time" className={`${inputClass} w-28`} value={availability.startTime} onChange={e => updateAvailability(agent.id, { startTime: e.target.value })} />
+                        <span className="text-slate-400 font-black">–</span>
+                        <input type="time" className={`${inputClass} w-28`} value={availability.endTime} onChange={e => updateAvailability(agent.id, { endTime: e.target.value })} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className={cardClass}>
+            <h4 className={`text-base font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Recent Assignments</h4>
+            {assignments.length === 0 ? (
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">No leads routed yet</p>
+            ) : (
+              <div className={`divide-y ${isDarkMode ? 'divide-slate-800' : 'divide-slate-100'}`}>
+                {assignments.map(assignment => (
+                  <div key={assignment.id} className="py-3 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className={`font-black truncate ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>
+                        {agentName(assignment.agentId)} <span className="text-slate-400 font-bold">via {assignment.ruleName}</span>
+                      </p>
+                      <p className="text-[11px] text-slate-500 font-medium truncate">{assignment.reason}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{ORIGIN_LABELS[assignment.origin]} · {new Date(assignment.createdAt).toLocaleString()}</p>
+                      <button onClick={() => navigate(buildPath('lead-detail', { id: assignment.leadId }))} className="text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:text-indigo-600">
+                        Open Lead
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeadRoutingSettings;
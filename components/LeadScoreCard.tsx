@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { Lead, LeadTemperature } from '../types.ts';
+import { leadScoringService } from '../services/leadScoringService.ts';
+import { LeadScore } from '../lib/leadScoring.ts';
+
+interface LeadScoreCardProps {
+  lead: Lead;
+  isDarkMode?: boolean;
+}
+
+const TEMPERATURE_STYLES: Record<LeadTemperature, string> = {
+  [LeadTemperature.HOT]: 'bg-red-50 text-red-600 border-red-100',
+  [LeadTemperature.WARM]: 'bg-orange-50 text-orange-600 border-orange-100',
+  [LeadTemperature.COLD]: 'bg-blue-50 text-blue-600 border-blue-100',
+  [LeadTemperature.NORMAL]: 'bg-slate-50 text-slate-600 border-slate-100',
+};
+
+const LeadScoreCard: React.FC<LeadScoreCardProps> = ({ lead, isDarkMode }) => {
+  const [result, setResult] = useState<LeadScore | null>(null);
+  const [isEnabled, setIsEnabled] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    leadScoringService.getConfig(lead.brokerageId).then(async config => {
+      const scored = await leadScoringService.scoreLead(lead, config);
+      if (cancelled) return;
+      setIsEnabled(config.isEnabled);
+      setResult(scored);
+    });
+    return () => { cancelled = true; };
+  }, [lead.id, lead.budget, lead.source, lead.notes.length, lead.temperature]);
+
+  if (!result) return null;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between px-2">
+        <div className="flex items-center space-x-4">
+          <div className="w-10 h-10 bg-rose-50 text-rose-500 rounded-xl flex items-center justify-center text-base shadow-md">
+            <i className="fas fa-fire"></i>
+          </div>
+          <h4 className={`text-base font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Lead Score</h4>
+        </div>
+        {!isEnabled && (
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Preview · scoring off</span>
+        )}
+      </div>
+
+      <div className={`rounded-[2.5rem] p-8 border space-y-6 ${isDarkMode ? 'bg-slate-800/40 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className={`text-5xl font-black tabular-nums tracking-tighter ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>{result.score}</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{result.summary}</p>
+          </div>
+          <span className={`text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-full border ${TEMPERATURE_STYLES[result.temperature]}`}>
+            {result.temperature}
+          </span>
+        </div>
+
+        <div className="space-y-4">
+          {result.factors.filter(f => f.weight > 0).map(f => (
+            <div key={f.factor} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-4">
+                <p className={`text-[11px] font-black uppercase tracking-widest ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>{f.label}</p>
+                <p className="text-[10px] font-black text-slate-400 tabular-nums">{Math.round(f.points)} / {Math.round(f.maxPoints)}</p>
+              </div>
+              <div className={`h-1.5 rounded-full overflow-hidden ${isDarkMode ? 'bg-slate-700' : 'bg-slate-200'}`}>
+                <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${Math.round(f.value * 100)}%` }}></div>
+              </div>
+              <p className="text-[11px] font-medium text-slate-400">{f.explanation}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default LeadScoreCard;
@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { Brokerage, LeadScoringConfig, ScoringFactor } from '../types.ts';
+import { leadScoringService } from '../services/leadScoringService.ts';
+import { DEFAULT_SCORING_CONFIG, SCORING_FACTORS } from '../lib/leadScoring.ts';
+
+interface LeadScoringSettingsProps {
+  brokerage: Brokerage;
+  availableSources: string[];
+  onSaved?: (config: LeadScoringConfig) => void;
+  isDarkMode?: boolean;
+}
+
+const clampScore = (value: string) => Math.min(100, Math.max(0, Math.round(Number(value) || 0)));
+
+const LeadScoringSettings: React.FC<LeadScoringSettingsProps> = ({ brokerage, availableSources, onSaved, isDarkMode }) => {
+  const [config, setConfig] = useState<LeadScoringConfig>(DEFAULT_SCORING_CONFIG);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    leadScoringService.getConfig(brokerage.id).then(loaded => {
+      if (cancelled) return;
+      setConfig(loaded);
+      setIsDirty(false);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [brokerage.id]);
+
+  const update = (patch: Partial<LeadScoringConfig>) => {
+    setConfig(prev => ({ ...prev, ...patch }));
+    setIsDirty(true);
+  };
+
+  const updateWeight = (factor: ScoringFactor, weight: number) => {
+    update({ weights: { ...config.weights, [factor]: weight } });
+  };
+
+  // Ratings for sources since removed from the list stay editable
+  const ratedSources = Array.from(new Set([...availableSources, ...Object.keys(config.sourceScores)]));
+
+  const totalWeight = SCORING_FACTORS.reduce((sum, { factor }) => sum + (config.weights[factor] || 0), 0);
+  const thresholdsValid = config.hotThreshold > config.warmThreshold;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await leadScoringService.saveConfig(brokerage.id, config);
+      setConfig(saved);
+      setIsDirty(false);
+      onSaved?.(saved);
+    } catch (error) {
+      alert('Failed to save scoring settings. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const cardClass = `border rounded-[2rem] p-8 shadow-sm space-y-6 ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`;
+  const inputClass = `w-full border rounded-xl px-4 py-3 font-bold text-xs outline-none transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-200 focus:bg-white'}`;
+  const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1';
+
+  if (isLoading) {
+    return (
+      <div className="py-10 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">
+        <i className="fas fa-circle-notch fa-spin mr-2"></i>Loading scoring
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-8 animate-in fade-in duration-500 ${isDarkMode ? 'dark' : ''}`}>
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="flex flex-col space-y-1">
+          <h3 className={`text-xl font-black tracking-tight ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Lead Scoring</h3>
+          <p className="text-sm text-slate-500 font-medium">Score leads 0-100 from engagement and fit. While scoring is on, each lead's temperature follows its score and hand-set temperatures are overwritten.</p>
+        </div>
+        <div className="flex items-center space-x-3 shrink-0">
+          <button
+            onClick={() => update({ isEnabled: !config.isEnabled })}
+            className={`px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${config.isEnabled ? 'bg-emerald-50 text-emerald-600 border-emerald-100' : isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700' : 'bg-slate-100 text-slate-500 border-slate-200'}`}
+          >
+            {config.isEnabled ? 'Scoring On' : 'Scoring Off'}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving || !thresholdsValid}
+            className="px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all disabled:opacity-40"
+          >
+            {isSaving ? 'Saving...' : 'Save Scoring'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+        <div className={cardClass}>
+          <div>
+            <h4 className={`text-base font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Factor Weights</h4>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">0 leaves a factor out; shares are of the 100-point score</p>
+          </div>
+          <div className="space-y-5">
+            {SCORING_FACTORS.map(({ factor, label, description }) => {
+              const weight = config.weights[factor] || 0;
+              return (
+                <div key={factor} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className={`text-sm font-black ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{label}</p>
+                      <p className="text-[10px] font-bold text-slate-400">{description}</p>
+                    </div>
+                    <span className="text-[10px] font-black text-indigo-500 uppercase tracking-widest tabular-nums whitespace-nowrap">
+                      {weight} · {totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0} pts
+                    </span>
+                  </div>
+                  <input type="range" min={0} max={10} step={1} value={weight} onChange={e => updateWeight(factor, Number(e.target.value))} className="w-full accent-indigo-600" />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className={cardClass}>
+            <div>
+              <h4 className={`text-base font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Temperature Thresholds</h4>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Minimum score for each temperature; lower scores are cold</p>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Hot From</label>
+                <input type="number" min={0} max={100} className={inputClass} value={config.hotThreshold} onChange={e => update({ hotThreshold: clampScore(e.target.value) })} />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Warm From</label>
+                <input type="number" min={0} max={100} className={inputClass} value={config.warmThreshold} onChange={e => update({ warmThreshold: clampScore(e.target.value) })} />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Budget Target</label>
+                <input type="number" min={0} className={inputClass} value={config.budgetTarget} onChange={e => update({ budgetTarget: Math.max(0, Number(e.target.value) || 0) })} />
+              </div>
+            </div>
+            {!thresholdsValid && (
+              <p className="text-[10px] font-black text-rose-500 uppercase tracking-widest">The hot threshold must be above the warm threshold</p>
+            )}
+          </div>
+
+          <div className={cardClass}>
+            <div>
+              <h4 className={`text-base font-black ${isDarkMode ? 'text-white' : 'text-slate-800'}`}>Source Quality</h4>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Rating out of 100; unrated sources use the default</p>
+            </div>
+            <div className={`divide-y ${isDarkMode ? 'divide-slate-800' : 'divide-slate-100'}`}>
+              {ratedSources.map(source => (
+                <div key={source} className="py-3 flex items-center justify-between gap-3">
+                  <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{source}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    className={`${inputClass} w-24`}
+                    placeholder={String(config.defaultSourceScore)}
+                    value={config.sourceScores[source] ?? ''}
+                    onChange={e => {
+                      const { [source]: _removed, ...rest } = config.sourceScores;
+                      update({ sourceScores: e.target.value === '' ? rest : { ...rest, [source]: clampScore(e.target.value) } });
+                    }}
+                  />
+                </div>
+              ))}
+              <div className="py-3 flex items-center justify-between gap-3">
+                <span className="text-sm font-black text-slate-400 uppercase tracking-widest">Default</span>
+                <input type="number" min={0} max={100} className={`${inputClass} w-24`} value={config.defaultSourceScore} onChange={e => update({ defaultSourceScore: clampScore(e.target.value) })} />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeadScoringSettings;
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { openHouseService, PublicOpenHouse, PublicSignIn } from '../services/openHouseService.ts';
+import OpenHousePublicForm from './OpenHousePublicForm.tsx';
+
+interface OpenHouseCheckInProps {
+  token: string;
+}
+
+// Public entry point behind the QR code: visitors sign in from their own device without logging in.
+const OpenHouseCheckIn: React.FC<OpenHouseCheckInProps> = ({ token }) => {
+  const [event, setEvent] = useState<PublicOpenHouse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    openHouseService.getPublicOpenHouse(token).then(result => {
+      setEvent(result);
+      setIsLoading(false);
+    });
+  }, [token]);
+
+  const handleSubmit = async (signIn: PublicSignIn) => {
+    await openHouseService.submitPublicSignIn(token, signIn);
+  };
+
+  if (isLoading) {
+    return <div className="fixed inset-0 bg-slate-900 flex items-center justify-center text-white">Loading open house...</div>;
+  }
+
+  if (!event) {
+    return (
+      <div className="fixed inset-0 bg-slate-50 flex items-center justify-center p-10 text-[12px]">
+        <div className="text-center max-w-md bg-white p-12 rounded-[3rem] shadow-2xl border border-slate-200">
+          <div className="w-20 h-20 bg-rose-50 text-rose-500 rounded-[2rem] flex items-center justify-center text-3xl mx-auto mb-8 border border-rose-100">
+            <i className="fas fa-link-slash"></i>
+          </div>
+          <h2 className="text-2xl font-black text-slate-900 tracking-tight mb-2">Sign-In Link Unavailable</h2>
+          <p className="text-slate-500 font-medium leading-relaxed">This open house has ended or the link is no longer valid. Please ask your host for a new QR code.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <OpenHousePublicForm openHouse={event.openHouse} hostAgent={event.host} onSubmit={handleSubmit} />;
+};
+
+export default OpenHouseCheckIn;
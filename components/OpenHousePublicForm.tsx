@@ -1,17 +1,20 @@
 import React, { useState } from 'react';
-import { OpenHouse, Lead, LeadStatus, LeadTemperature, Task, User } from '../types.ts';
+import { OpenHouse, User } from '../types.ts';
+import { PublicSignIn } from '../services/openHouseService.ts';
+import { buildPath } from '../lib/router.ts';
 
 interface OpenHousePublicFormProps {
   openHouse: OpenHouse;
-  onSubmit: (lead: Lead, task: Task) => void;
-  onExit: () => void;
-  hostAgent?: User;
+  onSubmit: (signIn: PublicSignIn) => Promise<void>;
+  onExit?: () => void;
+  hostAgent?: Pick<User, 'phone' | 'licenseNumber'>;
 }
 
 type FormMode = 'VISITOR' | 'AGENT';
 
 const OpenHousePublicForm: React.FC<OpenHousePublicFormProps> = ({ openHouse, onSubmit, onExit, hostAgent }) => {
   const [submitted, setSubmitted] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [formMode, setFormMode] = useState<FormMode>('VISITOR');
   const [formData, setFormData] = useState({
     fullName: '',
@@ -37,74 +40,42 @@ const OpenHousePublicForm: React.FC<OpenHousePublicFormProps> = ({ openHouse, on
     return `(${phoneNumber.slice(0, 3)}) ${phoneNumber.slice(3, 6)}-${phoneNumber.slice(6, 10)}`;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isSubmitting) return;
     
-    const names = formData.fullName.split(' ');
-    const firstName = names[0];
-    const lastName = names.slice(1).join(' ') || (formMode === 'AGENT' ? 'Agent' : 'Visitor');
+    // The lead, its note and the host's follow-up task are built on the server
+    const signIn: PublicSignIn = formMode === 'AGENT'
+      ? {
+          visitorType: 'AGENT',
+          fullName: formData.fullName,
+          email: formData.email,
+          phone: formData.phone,
+          agentBrokerage: formData.agentBrokerage,
+          clientName: formData.clientName,
+          notes: formData.notes,
+        }
+      : {
+          visitorType: 'VISITOR',
+          fullName: formData.fullName,
+          email: formData.email,
+          phone: formData.phone,
+          interest: formData.type,
+          timeline: formData.timeline,
+          priceRange: formData.priceRange,
+          workingWithAgent: formData.workingWithAgent === 'YES' ? 'YES' : 'NO',
+          notes: formData.notes,
+        };
 
-    // Map internal UI strings to the data types expected by Lead
-    const leadTypeMap: Record<string, string> = {
-      'Buying': 'BUYER',
-      'Selling': 'SELLER',
-      'Both': 'BOTH'
-    };
-
-    const tags = ['Open House'];
-    if (formMode === 'AGENT') {
-      tags.push('Real Estate Agent');
-      if (formData.clientName) tags.push('Agent Accompanied');
-    } else {
-      tags.push(leadTypeMap[formData.type] || 'BUYER');
+    setIsSubmitting(true);
+    try {
+      await onSubmit(signIn);
+    } catch (error) {
+      alert('We could not record your sign-in. Please try again or see your host.');
+      return;
+    } finally {
+      setIsSubmitting(false);
     }
-
-    const newLead: Lead = {
-      id: `lead_oh_${Date.now()}`,
-      brokerageId: openHouse.brokerageId,
-      assignedAgentId: openHouse.assignedAgentId,
-      firstName,
-      lastName,
-      email: formData.email,
-      phone: formData.phone,
-      status: LeadStatus.NEW,
-      temperature: formMode === 'AGENT' ? LeadTemperature.NORMAL : LeadTemperature.HOT,
-      source: 'Open House',
-      tags: tags,
-      propertyType: 'PRIMARY',
-      propertyAddress: openHouse.address,
-      budget: formMode === 'AGENT' ? 0 : (parseInt(formData.priceRange.replace(/[^0-9]/g, '')) || 0),
-      notes: [{
-        id: `n_initial_${Date.now()}`,
-        content: formMode === 'AGENT' 
-          ? `Agent Signed In: ${formData.fullName} from ${formData.agentBrokerage}. Client: ${formData.clientName || 'Not specified'}. Notes: ${formData.notes}`
-          : `Visitor Checked In: ${openHouse.address}. Working with Agent: ${formData.workingWithAgent}. Timeline: ${formData.timeline}. Notes: ${formData.notes}`,
-        createdAt: new Date().toISOString(),
-        authorId: 'system',
-        authorName: 'System Automation'
-      }],
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      estimatedDealValue: formMode === 'AGENT' ? 0 : (parseInt(formData.priceRange.replace(/[^0-9]/g, '')) || 0) * 0.03,
-      openHouseId: openHouse.id,
-      checkInTime: new Date().toISOString()
-    };
-
-    const followUpTask: Task = {
-      id: `task_oh_${Date.now()}`,
-      brokerageId: openHouse.brokerageId,
-      assignedUserId: openHouse.assignedAgentId,
-      leadId: newLead.id,
-      title: formMode === 'AGENT' ? `Thank Agent: ${formData.fullName}` : `OH Follow-up: ${formData.fullName}`,
-      description: formMode === 'AGENT' 
-        ? `Agent from ${formData.agentBrokerage} visited with client ${formData.clientName || 'Unknown'}.`
-        : `Visitor from ${openHouse.address}. Timeline: ${formData.timeline}.`,
-      dueDate: new Date(Date.now() + 86400000).toISOString(),
-      isCompleted: false,
-      priority: formMode === 'AGENT' ? 'MEDIUM' : 'HIGH'
-    };
-
-    onSubmit(newLead, followUpTask);
     setSubmitted(true);
     
     setTimeout(() => {
@@ -119,7 +90,9 @@ const OpenHousePublicForm: React.FC<OpenHousePublicFormProps> = ({ openHouse, on
 
   const getQRUrl = () => {
     const baseUrl = window.location.origin;
-    const checkInUrl = `${baseUrl}?openhouse=${openHouse.id}`;
+    const checkInUrl = openHouse.signInToken
+      ? `${baseUrl}${buildPath('open-house-check-in', { token: openHouse.signInToken })}`
+      : window.location.href;
     return `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(checkInUrl)}`;
   };
 
@@ -156,9 +129,9 @@ const OpenHousePublicForm: React.FC<OpenHousePublicFormProps> = ({ openHouse, on
       <div className="fixed inset-0 bg-[radial-gradient(circle_at_top_right,_var(--tw-gradient-stops))] from-indigo-50 via-white to-blue-50 pointer-events-none"></div>
       <div className="fixed top-0 inset-x-0 h-[50vh] bg-gradient-to-b from-indigo-600/5 to-transparent pointer-events-none"></div>
       
-      <button onClick={onExit} className="fixed top-8 right-8 w-16 h-16 flex items-center justify-center text-slate-400 hover:text-rose-500 transition-all bg-white/90 backdrop-blur rounded-[2rem] shadow-2xl shadow-slate-200/50 z-[310] group active:scale-90 border border-slate-100">
+      {onExit && <button onClick={onExit} className="fixed top-8 right-8 w-16 h-16 flex items-center justify-center text-slate-400 hover:text-rose-500 transition-all bg-white/90 backdrop-blur rounded-[2rem] shadow-2xl shadow-slate-200/50 z-[310] group active:scale-90 border border-slate-100">
         <i className="fas fa-times text-2xl group-hover:rotate-90 transition-transform"></i>
-      </button>
+      </button>}
 
       <div className="w-full max-w-5xl px-6 py-20 flex flex-col items-center relative z-10">
         <div className="text-center mb-12 space-y-8 animate-in fade-in slide-in-from-top-10 duration-700">
@@ -295,7 +268,7 @@ const OpenHousePublicForm: React.FC<OpenHousePublicFormProps> = ({ openHouse, on
             </div>
 
             <div className="pt-10 flex justify-center">
-              <button type="submit" className="w-full max-w-md bg-gradient-to-r from-indigo-600 via-purple-600 to-blue-600 text-white py-5 rounded-2xl font-black text-lg uppercase tracking-widest shadow-2xl shadow-indigo-100 hover:shadow-indigo-400 hover:scale-[1.02] active:scale-[0.98] transition-all flex items-center justify-center space-x-4 group">
+              <button type="submit" disabled={isSubmitting} className="w-full max-w-md bg-gradient-to-r from-indigo-600 via-purple-600 to-blue-600 text-white py-5 rounded-2xl font-black text-lg uppercase tracking-widest shadow-2xl shadow-indigo-100 hover:shadow-indigo-400 hover:scale-[1.02] active:scale-[0.98] transition-all flex items-center justify-center space-x-4 group">
                 <span>{formMode === 'AGENT' ? 'Submit Registration' : 'Check-IN'}</span>
                 <i className="fas fa-chevron-right text-base group-hover:translate-x-1 transition-transform"></i>
               </button>
@@ -1,5 +1,8 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { OpenHouse, User, UserRole } from '../types.ts';
+import { FocusRequest } from '../lib/commandPalette.ts';
+import { MapColoring, MapRecord } from '../lib/recordMap.ts';
+import RecordMap from './RecordMap.tsx';
 
 interface OpenHouseViewProps {
   openHouses: OpenHouse[];
@@ -9,8 +12,22 @@ interface OpenHouseViewProps {
   onUpdate: (oh: OpenHouse) => void;
   onDelete: (id: string) => void;
   onPreviewPublic: (oh: OpenHouse) => void;
+  // An open house picked in the command palette, opened for editing
+  focus?: FocusRequest;
 }
 
+const MAP_COLORINGS: MapColoring[] = [
+  {
+    id: 'status',
+    label: 'Status',
+    legend: [
+      { value: 'LIVE', label: 'Live', color: '#10b981' },
+      { value: 'UPCOMING', label: 'Upcoming', color: '#6366f1' },
+      { value: 'PAST', label: 'Past', color: '#94a3b8' }
+    ]
+  }
+];
+
 const OpenHouseView: React.FC<OpenHouseViewProps> = ({ 
   openHouses, 
   agents, 
@@ -18,11 +35,12 @@ const OpenHouseView: React.FC<OpenHouseViewProps> = ({
   onCreate, 
   onUpdate, 
   onDelete, 
-  onPreviewPublic 
+  onPreviewPublic,
+  focus
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [displayMode, setDisplayMode] = useState<'tile' | 'list'>('tile');
+  const [displayMode, setDisplayMode] = useState<'tile' | 'list' | 'map'>('tile');
   const [ohToDelete, setOhToDelete] = useState<OpenHouse | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   
@@ -66,6 +84,15 @@ const OpenHouseView: React.FC<OpenHouseViewProps> = ({
       });
   }, [openHouses, searchTerm]);
 
+  const mapRecords = useMemo(() => activeEvents.map((oh): MapRecord => ({
+    id: oh.id,
+    title: oh.address,
+    subtitle: `${new Date(oh.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} · ${oh.assignedAgentName}`,
+    address: oh.address,
+    location: oh.location,
+    groups: { status: oh.status }
+  })), [activeEvents]);
+
   const handleOpenCreate = () => {
     setEditingId(null);
     setFormData(initialForm);
@@ -78,6 +105,11 @@ const OpenHouseView: React.FC<OpenHouseViewProps> = ({
     setIsModalOpen(true);
   };
 
+  useEffect(() => {
+    const oh = focus && openHouses.find(o => o.id === focus.id);
+    if (oh) handleOpenEdit(oh);
+  }, [focus?.at]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -137,6 +169,7 @@ const OpenHouseView: React.FC<OpenHouseViewProps> = ({
             <div className="flex bg-slate-100 p-1 rounded-xl border border-slate-200 shadow-inner">
               <button onClick={() => setDisplayMode('tile')} className={`w-10 h-10 flex items-center justify-center rounded-lg transition-all ${displayMode === 'tile' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`} title="Tile View"><i className="fas fa-th-large"></i></button>
               <button onClick={() => setDisplayMode('list')} className={`w-10 h-10 flex items-center justify-center rounded-lg transition-all ${displayMode === 'list' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`} title="List View"><i className="fas fa-list-ul"></i></button>
+              <button onClick={() => setDisplayMode('map')} className={`w-10 h-10 flex items-center justify-center rounded-lg transition-all ${displayMode === 'map' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`} title="Map View"><i className="fas fa-map-location-dot"></i></button>
             </div>
             <button 
               onClick={handleOpenCreate}
@@ -149,7 +182,19 @@ const OpenHouseView: React.FC<OpenHouseViewProps> = ({
       </div>
 
       {/* Main Content Render */}
-      {displayMode === 'tile' ? (
+      {displayMode === 'map' ? (
+        activeEvents.length > 0 && (
+          <RecordMap
+            records={mapRecords}
+            colorings={MAP_COLORINGS}
+            noun="open houses"
+            onSelect={(id: string) => {
+              const oh = openHouses.find(o => o.id === id);
+              if (oh) handleOpenEdit(oh);
+            }}
+          />
+        )
+      ) : displayMode === 'tile' ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
           {activeEvents.map(oh => (
             <div key={oh.id} className="bg-white border border-slate-200 rounded-[2.5rem] p-6 hover:border-indigo-500 hover:shadow-xl transition-all group relative flex flex-col justify-between min-h-[360px]">
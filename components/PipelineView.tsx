@@ -1,5 +1,13 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Deal, Lead, DealNote } from '../types.ts';
+import { Deal, Lead, DealNote, CustomFieldDefinition, CustomFieldValue, SearchResult } from '../types.ts';
+import { XLSX_MIME_TYPE, xlsxBlob } from '../lib/xlsx.ts';
+import { fieldsFor, toXlsxValue, xlsxCellType } from '../lib/customFields.ts';
+import CustomFieldInputs from './CustomFieldInputs.tsx';
+import SearchSnippet from './SearchSnippet.tsx';
+import { searchService } from '../services/searchService.ts';
+import { FocusRequest } from '../lib/commandPalette.ts';
+import { MapColoring, MapRecord } from '../lib/recordMap.ts';
+import RecordMap from './RecordMap.tsx';
 
 interface PipelineViewProps {
   deals: Deal[];
@@ -8,6 +16,9 @@ interface PipelineViewProps {
   onUpdateDeal: (id: string, updates: Partial<Deal>) => void;
   onDeleteDeal: (id: string) => void;
   availableSources: string[];
+  customFields?: CustomFieldDefinition[];
+  // A deal picked in the command palette, opened for editing
+  focus?: FocusRequest;
 }
 
 type YearFilter = 'CURRENT' | 'ALL' | number;
@@ -15,9 +26,31 @@ type StatusFilter = Deal['status'] | 'ALL';
 type SortKey = 'leadName' | 'date' | 'salePrice' | 'side' | 'source';
 type SortDirection = 'asc' | 'desc';
 type ColumnId = 'client' | 'closing' | 'price' | 'side' | 'source' | 'actions';
-type DisplayMode = 'tile' | 'list';
+type DisplayMode = 'tile' | 'list' | 'map';
 
 const TZ = 'America/Los_Angeles';
+const SEARCH_DEBOUNCE_MS = 250;
+
+const MAP_COLORINGS: MapColoring[] = [
+  {
+    id: 'status',
+    label: 'Status',
+    legend: [
+      { value: 'ACTIVE', label: 'Active', color: '#2563eb' },
+      { value: 'PENDING', label: 'Pending', color: '#d97706' },
+      { value: 'CLOSED', label: 'Sold', color: '#059669' }
+    ]
+  },
+  {
+    id: 'side',
+    label: 'Side',
+    legend: [
+      { value: 'BUYER', label: 'Buyer', color: '#6366f1' },
+      { value: 'SELLER', label: 'Seller', color: '#f43f5e' },
+      { value: 'BOTH', label: 'Both Sides', color: '#0ea5e9' }
+    ]
+  }
+];
 
 const Highlight = ({ text, query }: { text: string; query: string }) => {
   if (!query.trim() || !text) return <>{text}</>;
@@ -35,7 +68,8 @@ const Highlight = ({ text, query }: { text: string; query: string }) => {
   );
 };
 
-const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, onUpdateDeal, onDeleteDeal, availableSources }) => {
+const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, onUpdateDeal, onDeleteDeal, availableSources, customFields = [], focus }) => {
+  const dealCustomFields = fieldsFor(customFields, 'deal');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingDealId, setEditingDealId] = useState<string | null>(null);
   const [draggedDealId, setDraggedDealId] = useState<string | null>(null);
@@ -43,6 +77,8 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
   const [yearFilter, setYearFilter] = useState<YearFilter>('CURRENT');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('ALL');
   const [searchTerm, setSearchTerm] = useState('');
+  // Deals the server's full-text search matched, e.g. by escrow file number
+  const [serverHits, setServerHits] = useState<Map<string, SearchResult>>(new Map());
   const [isYearDropdownOpen, setIsYearDropdownOpen] = useState(false);
   const [dealToDelete, setDealToDelete] = useState<Deal | null>(null);
   const [displayMode, setDisplayMode] = useState<DisplayMode>('list');
@@ -111,6 +147,7 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
     inspectionDueDate: '',
     appraisalDueDate: '',
     loanDueDate: '',
+    customFields: {} as Record<string, CustomFieldValue>,
     dealNotes: [] as DealNote[]
   };
 
@@ -202,6 +239,7 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
       inspectionDueDate: deal.inspectionDueDate ? new Date(deal.inspectionDueDate).toLocaleDateString('en-CA', { timeZone: TZ }) : '',
       appraisalDueDate: deal.appraisalDueDate ? new Date(deal.appraisalDueDate).toLocaleDateString('en-CA', { timeZone: TZ }) : '',
       loanDueDate: deal.loanDueDate ? new Date(deal.loanDueDate).toLocaleDateString('en-CA', { timeZone: TZ }) : '',
+      customFields: deal.customFields || {},
       dealNotes: deal.dealNotes || []
     });
     setIsModalOpen(true);
@@ -305,6 +343,7 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
       inspectionDueDate: formData.inspectionDueDate || undefined,
       appraisalDueDate: formData.appraisalDueDate || undefined,
       loanDueDate: formData.loanDueDate || undefined,
+      customFields: formData.customFields,
       dealNotes: formData.dealNotes
     };
 
@@ -358,9 +397,28 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
     if (!term) return true;
     const nameMatch = (deal.leadName || '').toLowerCase().includes(term);
     const addressMatch = (deal.address || '').toLowerCase().includes(term);
-    return nameMatch || addressMatch;
+    return nameMatch || addressMatch || serverHits.has(deal.id);
   };
 
+  useEffect(() => {
+    const deal = focus && deals.find(d => d.id === focus.id);
+    if (deal) handleOpenEdit(deal);
+  }, [focus?.at]);
+
+  useEffect(() => {
+    const term = searchTerm.trim();
+    if (term.length < 2) {
+      setServerHits(new Map());
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const results = await searchService.search(term, ['DEAL'], 100);
+      if (!cancelled) setServerHits(new Map(results.map(r => [r.id, r])));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => { cancelled = true; window.clearTimeout(timer); };
+  }, [searchTerm]);
+
   const applyYearFilter = (list: Deal[]) => {
     if (yearFilter === 'CURRENT') return list.filter(d => d.date && new Date(d.date).getFullYear() === currentYear);
     if (typeof yearFilter === 'number') return list.filter(d => d.date && new Date(d.date).getFullYear() === yearFilter);
@@ -400,7 +458,7 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
       if (valA > valB) return sortDirection === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [deals, statusFilter, yearFilter, sortKey, sortDirection, searchTerm, startDate, endDate]);
+  }, [deals, statusFilter, yearFilter, sortKey, sortDirection, searchTerm, serverHits, startDate, endDate]);
 
   const totalPages = Math.ceil(filteredDealsBase.length / itemsPerPage);
   const paginatedDeals = useMemo(() => {
@@ -408,6 +466,15 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
     return filteredDealsBase.slice(start, start + itemsPerPage);
   }, [filteredDealsBase, currentPage, itemsPerPage]);
 
+  const mapRecords = useMemo(() => filteredDealsBase.map((d): MapRecord => ({
+    id: d.id,
+    title: d.address || d.leadName,
+    subtitle: `${d.leadName} · $${(d.salePrice || 0).toLocaleString()}`,
+    address: d.address,
+    location: d.location,
+    groups: { status: d.status, side: d.side }
+  })), [filteredDealsBase]);
+
   const totalFilteredVolume = useMemo(() => filteredDealsBase.reduce((sum, d) => sum + d.salePrice, 0), [filteredDealsBase]);
   const totalFilteredGCI = useMemo(() => filteredDealsBase.reduce((sum, d) => sum + d.commissionAmount, 0), [filteredDealsBase]);
 
@@ -479,6 +546,9 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
                    <i className={`fas fa-location-dot ${isSummary ? 'text-[9px]' : 'text-[10px]'}`}></i>
                    <p className={`font-semibold truncate ${isSummary ? 'text-[10px]' : 'text-[11px]'}`}><Highlight text={deal.address} query={searchTerm} /></p>
                 </div>
+                {serverHits.has(deal.id) && !`${deal.leadName} ${deal.address}`.toLowerCase().includes(searchTerm.toLowerCase().trim()) && (
+                  <SearchSnippet snippet={serverHits.get(deal.id)!.snippet} className={`block mt-1 font-semibold text-slate-500 truncate ${isSummary ? 'text-[10px]' : 'text-[11px]'}`} />
+                )}
               </div>
            </div>
            <div className="flex items-center space-x-1.5 shrink-0" onClick={e => e.stopPropagation()}>
@@ -529,6 +599,59 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
     topRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const handleExportExcel = () => {
+    const workbook = xlsxBlob([{
+      name: 'Transactions',
+      columns: [
+        { header: 'Client' },
+        { header: 'Status' },
+        { header: 'Side' },
+        { header: 'Address' },
+        { header: 'Sale Price', type: 'currency' },
+        // Stored as a whole percentage (2.5 = 2.5%)
+        { header: 'Commission %', type: 'percent' },
+        { header: 'Commission', type: 'currency' },
+        { header: 'Closing Date', type: 'date' },
+        { header: 'Source' },
+        { header: 'Escrow Company' },
+        { header: 'Escrow File #' },
+        { header: 'Lender' },
+        { header: 'Title Company' },
+        { header: 'Inspection Due', type: 'date' },
+        { header: 'Appraisal Due', type: 'date' },
+        { header: 'Loan Due', type: 'date' },
+        ...dealCustomFields.map(def => ({ header: def.label, type: xlsxCellType(def.type) }))
+      ],
+      rows: filteredDealsBase.map(d => [
+        d.leadName,
+        d.status,
+        d.side,
+        d.address,
+        d.salePrice,
+        d.commissionPercentage / 100,
+        d.commissionAmount,
+        d.date ? new Date(d.date).toLocaleDateString('en-CA', { timeZone: TZ }) : '',
+        d.source || '',
+        d.escrowCompany || '',
+        d.escrowFileNumber || '',
+        d.lenderCompany || '',
+        d.titleCompany || '',
+        d.inspectionDueDate || '',
+        d.appraisalDueDate || '',
+        d.loanDueDate || '',
+        ...dealCustomFields.map(def => toXlsxValue(def, d.customFields?.[def.key]))
+      ])
+    }]);
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(workbook);
+    link.download = `transactions_${new Date().toISOString().split('T')[0]}.xlsx`;
+    link.type = XLSX_MIME_TYPE;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
   return (
     <div className="space-y-8 animate-in fade-in duration-500 text-[12px] pb-40" ref={topRef}>
       
@@ -540,6 +663,7 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
              <p className="text-[12px] text-slate-500 font-medium">Full view of transaction flow and unit production.</p>
           </div>
           <div className="flex items-center space-x-3">
+            <button onClick={handleExportExcel} title="Export to Excel (.xlsx)" className="w-14 h-14 flex items-center justify-center rounded-[1.25rem] bg-slate-100 text-slate-400 hover:bg-indigo-50 hover:text-indigo-600 transition-all shrink-0"><i className="fas fa-file-excel"></i></button>
             <button onClick={handleOpenCreate} className="bg-indigo-600 text-white px-8 py-4 rounded-[1.25rem] font-black uppercase tracking-widest shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition-all flex items-center space-x-3 shrink-0 active:scale-95"><i className="fas fa-plus"></i><span>New Transaction</span></button>
           </div>
         </div>
@@ -579,7 +703,7 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
               <i className="fas fa-search absolute left-6 top-1/2 -translate-y-1/2 text-slate-400 text-lg transition-colors group-focus-within:text-indigo-500"></i>
               <input 
                 type="text" 
-                placeholder="Search by client name, property address, or phone..." 
+                placeholder="Search by client name, property address, or escrow file #..." 
                 value={searchTerm} 
                 onChange={(e) => setSearchTerm(e.target.value)} 
                 className="w-full pl-16 pr-10 py-5 bg-slate-50 border-2 border-slate-200 rounded-[1.5rem] text-sm outline-none focus:ring-8 focus:ring-indigo-500/5 focus:border-indigo-500 transition-all shadow-inner font-bold"
@@ -664,6 +788,7 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
                 <div className="flex bg-slate-100 p-1 rounded-2xl border border-slate-200 shadow-inner">
                   <button onClick={() => setDisplayMode('tile')} className={`w-11 h-11 flex items-center justify-center rounded-xl transition-all ${displayMode === 'tile' ? 'bg-white shadow-md text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`} title="Tile View"><i className="fas fa-th-large"></i></button>
                   <button onClick={() => setDisplayMode('list')} className={`w-11 h-11 flex items-center justify-center rounded-xl transition-all ${displayMode === 'list' ? 'bg-white shadow-md text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`} title="List View"><i className="fas fa-list-ul"></i></button>
+                  <button onClick={() => setDisplayMode('map')} className={`w-11 h-11 flex items-center justify-center rounded-xl transition-all ${displayMode === 'map' ? 'bg-white shadow-md text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`} title="Map View"><i className="fas fa-map-location-dot"></i></button>
                 </div>
 
                 <button 
@@ -675,7 +800,17 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
              </div>
           </div>
 
-          {displayMode === 'list' ? (
+          {displayMode === 'map' ? (
+            <RecordMap
+              records={mapRecords}
+              colorings={MAP_COLORINGS}
+              noun="transactions"
+              onSelect={(id: string) => {
+                const deal = deals.find(d => d.id === id);
+                if (deal) handleOpenEdit(deal);
+              }}
+            />
+          ) : displayMode === 'list' ? (
             <div className="bg-white rounded-[3rem] border border-slate-200 shadow-sm overflow-hidden overflow-x-auto transition-all">
               <table className="w-full text-left">
                 <thead>
@@ -754,48 +889,50 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
           )}
 
           {/* PAGINATION FOOTER */}
-          <div className="flex flex-col md:flex-row items-center justify-between border rounded-[2rem] p-8 shadow-sm gap-8 mt-6 bg-white">
-            <div className="flex items-center space-x-4 border rounded-xl px-6 py-3 bg-slate-50 border-slate-200">
-              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Show:</span>
-              <select 
-                value={itemsPerPage} 
-                onChange={(e) => { setItemsPerPage(Number(e.target.value)); setCurrentPage(1); }} 
-                className="bg-transparent border-none text-sm font-black outline-none cursor-pointer text-slate-700"
-              >
-                {[10, 20, 30, 40, 50, 100].map(n => <option key={n} value={n}>{n}</option>)}
-              </select>
-              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">per page</span>
-            </div>
-            
-            <div className="flex flex-col items-center space-y-3">
-              <div className="flex items-center space-x-6">
-                <button 
-                  disabled={currentPage === 1} 
-                  onClick={() => { setCurrentPage(p => Math.max(1, p - 1)); scrollToTop(); }} 
-                  className="w-12 h-12 flex items-center justify-center rounded-xl border disabled:opacity-30 shadow-sm transition-all bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
-                >
-                  <i className="fas fa-chevron-left"></i>
-                </button>
-                <div className="text-sm font-black uppercase tracking-[0.2em] px-4 text-slate-700">Page {currentPage} of {totalPages || 1}</div>
-                <button 
-                  disabled={currentPage >= totalPages} 
-                  onClick={() => { setCurrentPage(p => Math.min(totalPages, p + 1)); scrollToTop(); }} 
-                  className="w-12 h-12 flex items-center justify-center rounded-xl bg-white border border-slate-200 text-slate-600 disabled:opacity-30 hover:bg-slate-50 shadow-sm transition-all"
+          {displayMode !== 'map' && (
+            <div className="flex flex-col md:flex-row items-center justify-between border rounded-[2rem] p-8 shadow-sm gap-8 mt-6 bg-white">
+              <div className="flex items-center space-x-4 border rounded-xl px-6 py-3 bg-slate-50 border-slate-200">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Show:</span>
+                <select 
+                  value={itemsPerPage} 
+                  onChange={(e) => { setItemsPerPage(Number(e.target.value)); setCurrentPage(1); }} 
+                  className="bg-transparent border-none text-sm font-black outline-none cursor-pointer text-slate-700"
                 >
-                  <i className="fas fa-chevron-right"></i>
-                </button>
+                  {[10, 20, 30, 40, 50, 100].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">per page</span>
               </div>
-              <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Showing {paginatedDeals.length} of {filteredDealsBase.length} items</p>
-            </div>
             
-            <button 
-              onClick={scrollToTop} 
-              className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-xl text-[11px] font-black uppercase tracking-widest shadow-xl shadow-slate-200 hover:bg-slate-800 transition-all"
-            >
-              <i className="fas fa-arrow-up"></i>
-              <span>Back to Top</span>
-            </button>
-          </div>
+              <div className="flex flex-col items-center space-y-3">
+                <div className="flex items-center space-x-6">
+                  <button 
+                    disabled={currentPage === 1} 
+                    onClick={() => { setCurrentPage(p => Math.max(1, p - 1)); scrollToTop(); }} 
+                    className="w-12 h-12 flex items-center justify-center rounded-xl border disabled:opacity-30 shadow-sm transition-all bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
+                  >
+                    <i className="fas fa-chevron-left"></i>
+                  </button>
+                  <div className="text-sm font-black uppercase tracking-[0.2em] px-4 text-slate-700">Page {currentPage} of {totalPages || 1}</div>
+                  <button 
+                    disabled={currentPage >= totalPages} 
+                    onClick={() => { setCurrentPage(p => Math.min(totalPages, p + 1)); scrollToTop(); }} 
+                    className="w-12 h-12 flex items-center justify-center rounded-xl bg-white border border-slate-200 text-slate-600 disabled:opacity-30 hover:bg-slate-50 shadow-sm transition-all"
+                  >
+                    <i className="fas fa-chevron-right"></i>
+                  </button>
+                </div>
+                <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Showing {paginatedDeals.length} of {filteredDealsBase.length} items</p>
+              </div>
+            
+              <button 
+                onClick={scrollToTop} 
+                className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-xl text-[11px] font-black uppercase tracking-widest shadow-xl shadow-slate-200 hover:bg-slate-800 transition-all"
+              >
+                <i className="fas fa-arrow-up"></i>
+                <span>Back to Top</span>
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -827,6 +964,7 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
                <button onClick={() => scrollToSection('sec-title')} className="px-4 py-2 bg-blue-50 text-blue-600 rounded-xl font-black uppercase tracking-widest text-[9px] hover:bg-blue-100 transition-all whitespace-nowrap">Title Info</button>
                <button onClick={() => scrollToSection('sec-tc')} className="px-4 py-2 bg-purple-50 text-purple-600 rounded-xl font-black uppercase tracking-widest text-[9px] hover:bg-purple-100 transition-all whitespace-nowrap">TC Info</button>
                <button onClick={() => scrollToSection('sec-timeline')} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl font-black uppercase tracking-widest text-[9px] hover:bg-slate-200 transition-all whitespace-nowrap">Timeline</button>
+               {dealCustomFields.length > 0 && <button onClick={() => scrollToSection('sec-custom')} className="px-4 py-2 bg-teal-50 text-teal-600 rounded-xl font-black uppercase tracking-widest text-[9px] hover:bg-teal-100 transition-all whitespace-nowrap">Details</button>}
                <button onClick={() => scrollToSection('sec-notes')} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-black uppercase tracking-widest text-[9px] hover:bg-indigo-700 transition-all whitespace-nowrap">Notes</button>
             </div>
 
@@ -945,11 +1083,28 @@ const PipelineView: React.FC<PipelineViewProps> = ({ deals, leads, onAddDeal, on
                    </div>
                 </div>
 
-                {/* 7. NOTES INFORMATION */}
+                {/* 7. BROKERAGE CUSTOM FIELDS */}
+                {dealCustomFields.length > 0 && (
+                  <div id="sec-custom" className="bg-white border-2 border-teal-100 rounded-[2.5rem] p-10 shadow-sm space-y-10">
+                     <div className="flex items-center space-x-4 border-b border-teal-50 pb-6">
+                        <div className="w-10 h-10 bg-teal-600 text-white rounded-xl flex items-center justify-center text-base shadow-lg"><i className="fas fa-sliders"></i></div>
+                        <h4 className="text-lg font-black text-teal-800 uppercase tracking-widest">7. Additional Details</h4>
+                     </div>
+                     <CustomFieldInputs
+                       definitions={dealCustomFields}
+                       values={formData.customFields}
+                       onChange={values => setFormData({...formData, customFields: values})}
+                       inputClass={inputClass}
+                       labelClass="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1 mb-2.5 block"
+                     />
+                  </div>
+                )}
+
+                {/* NOTES INFORMATION */}
                 <div id="sec-notes" className="bg-white border-2 border-indigo-200 rounded-[2.5rem] p-10 shadow-sm space-y-8 pb-12">
                    <div className="flex items-center space-x-4 border-b border-indigo-100 pb-6">
                       <div className="w-10 h-10 bg-indigo-600 text-white rounded-xl flex items-center justify-center text-base shadow-lg"><i className="fas fa-pen-nib"></i></div>
-                      <h4 className="text-lg font-black text-indigo-800 uppercase tracking-widest">7. Notes Information</h4>
+                      <h4 className="text-lg font-black text-indigo-800 uppercase tracking-widest">{dealCustomFields.length > 0 ? 8 : 7}. Notes Information</h4>
                    </div>
                    <div className="space-y-6">
                       <div className="flex gap-4">
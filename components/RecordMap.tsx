@@ -0,0 +1,433 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { GeoPoint } from '../types.ts';
+import { locateAddress } from '../lib/geocoding.ts';
+import {
+  MapColoring,
+  MapRecord,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  PixelPoint,
+  TILE_SIZE,
+  clusterPoints,
+  colorFor,
+  fitBounds,
+  isInsidePolygon,
+  project,
+  unproject
+} from '../lib/recordMap.ts';
+
+interface RecordMapProps {
+  records: MapRecord[];
+  colorings: MapColoring[];
+  onSelect: (id: string) => void;
+  // Noun for the records, e.g. "leads"
+  noun: string;
+  isDarkMode?: boolean;
+}
+
+interface LocatedRecord {
+  record: MapRecord;
+  location: GeoPoint;
+}
+
+interface MapView {
+  center: GeoPoint;
+  zoom: number;
+}
+
+// Continental US, until there is something to fit
+const DEFAULT_VIEW: MapView = { center: { lat: 39.8, lng: -98.6 }, zoom: 4 };
+const MAP_HEIGHT = 640;
+
+const RecordMap: React.FC<RecordMapProps> = ({ records, colorings, onSelect, noun, isDarkMode }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: MAP_HEIGHT });
+  // Null follows the records; set once the user pans or zooms
+  const [view, setView] = useState<MapView | null>(null);
+  const [coloringId, setColoringId] = useState(colorings[0]?.id || '');
+  // Locations geocoded here for records saved before addresses were located
+  const [located, setLocated] = useState<Record<string, GeoPoint | null>>({});
+  const [isLassoMode, setIsLassoMode] = useState(false);
+  const [lassoDraft, setLassoDraft] = useState<PixelPoint[]>([]);
+  const [lasso, setLasso] = useState<GeoPoint[] | null>(null);
+  const [openCluster, setOpenCluster] = useState<{ position: PixelPoint; items: LocatedRecord[] } | null>(null);
+  const dragRef = useRef<{ x: number; y: number; center: PixelPoint } | null>(null);
+  const lastWheelRef = useRef(0);
+
+  const coloring = colorings.find(c => c.id === coloringId) || colorings[0];
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const measure = () => setSize({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const unlocated = records.filter(r => !r.location && r.address && !(r.id in located));
+  const unlocatedKey = unlocated.map(r => r.id).join(',');
+
+  useEffect(() => {
+    if (unlocated.length === 0) return;
+    let cancelled = false;
+    Promise.all(unlocated.map(r => locateAddress(r.address).then(result => [r.id, result.location] as const)))
+      .then(results => {
+        if (cancelled) return;
+        setLocated(prev => {
+          const next = { ...prev };
+          results.forEach(([id, location]) => { next[id] = location; });
+          return next;
+        });
+      });
+    return () => { cancelled = true; };
+  }, [unlocatedKey]);
+
+  const points = useMemo(() => {
+    const list: LocatedRecord[] = [];
+    records.forEach(record => {
+      const location = record.location || located[record.id];
+      if (location) list.push({ record, location });
+    });
+    return list;
+  }, [records, located]);
+
+  const lassoed = useMemo(() => {
+    if (!lasso) return points;
+    const polygon = lasso.map(p => project(p, 0));
+    return points.filter(p => isInsidePolygon(project(p.location, 0), polygon));
+  }, [points, lasso]);
+
+  const fitted = useMemo(
+    () => fitBounds(lassoed.map(p => p.location), size.width, size.height),
+    [lassoed, size.width, size.height]
+  );
+  const current: MapView = view || fitted || DEFAULT_VIEW;
+  const currentRef = useRef(current);
+  currentRef.current = current;
+
+  const centerPixel = project(current.center, current.zoom);
+  const origin = { x: centerPixel.x - size.width / 2, y: centerPixel.y - size.height / 2 };
+  const toScreen = (point: PixelPoint) => ({ x: point.x - origin.x, y: point.y - origin.y });
+  const toGeo = (screen: PixelPoint) => unproject({ x: screen.x + origin.x, y: screen.y + origin.y }, current.zoom);
+
+  const tiles = useMemo(() => {
+    const count = 2 ** current.zoom;
+    const list: { key: string; src: string; x: number; y: number }[] = [];
+    if (size.width === 0) return list;
+    for (let ty = Math.max(0, Math.floor(origin.y / TILE_SIZE)); ty <= Math.min(count - 1, Math.floor((origin.y + size.height) / TILE_SIZE)); ty++) {
+      for (let tx = Math.floor(origin.x / TILE_SIZE); tx <= Math.floor((origin.x + size.width) / TILE_SIZE); tx++) {
+        const wrapped = ((tx % count) + count) % count;
+        list.push({
+          key: `${current.zoom}/${tx}/${ty}`,
+          src: `https://tile.openstreetmap.org/${current.zoom}/${wrapped}/${ty}.png`,
+          x: tx * TILE_SIZE - origin.x,
+          y: ty * TILE_SIZE - origin.y
+        });
+      }
+    }
+    return list;
+  }, [current.zoom, Math.round(origin.x), Math.round(origin.y), size.width, size.height]);
+
+  const clusters = useMemo(
+    () => clusterPoints(lassoed, (p: LocatedRecord) => p.location, current.zoom),
+    [lassoed, current.zoom]
+  );
+
+  const zoomAround = (screen: PixelPoint, delta: number) => {
+    const { zoom } = currentRef.current;
+    const nextZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom + delta));
+    if (nextZoom === zoom) return;
+    const anchor = toGeo(screen);
+    const anchorPixel = project(anchor, nextZoom);
+    setView({
+      center: unproject({ x: anchorPixel.x - screen.x + size.width / 2, y: anchorPixel.y - screen.y + size.height / 2 }, nextZoom),
+      zoom: nextZoom
+    });
+    setOpenCluster(null);
+  };
+  const zoomAroundRef = useRef(zoomAround);
+  zoomAroundRef.current = zoomAround;
+
+  // React's wheel listener is passive, so the page would scroll along with the zoom
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const now = Date.now();
+      if (now - lastWheelRef.current < 250 || e.deltaY === 0) return;
+      lastWheelRef.current = now;
+      const rect = el.getBoundingClientRect();
+      zoomAroundRef.current({ x: e.clientX - rect.left, y: e.clientY - rect.top }, e.deltaY < 0 ? 1 : -1);
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setOpenCluster(null);
+    const position = pointerPosition(e);
+    if (isLassoMode) {
+      setLassoDraft([position]);
+    } else {
+      dragRef.current = { ...position, center: project(current.center, current.zoom) };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const position = pointerPosition(e);
+    if (isLassoMode && lassoDraft.length > 0) {
+      const last = lassoDraft[lassoDraft.length - 1];
+      if (Math.hypot(position.x - last.x, position.y - last.y) > 4) setLassoDraft([...lassoDraft, position]);
+    } else if (dragRef.current) {
+      const drag = dragRef.current;
+      setView({
+        center: unproject({ x: drag.center.x - (position.x - drag.x), y: drag.center.y - (position.y - drag.y) }, current.zoom),
+        zoom: current.zoom
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (isLassoMode && lassoDraft.length > 0) {
+      if (lassoDraft.length >= 3) {
+        setLasso(lassoDraft.map(toGeo));
+        setIsLassoMode(false);
+        setView(current);
+      }
+      setLassoDraft([]);
+    }
+    dragRef.current = null;
+  };
+
+  const handleClusterClick = (items: LocatedRecord[], position: PixelPoint) => {
+    if (items.length === 1) {
+      onSelect(items[0].record.id);
+      return;
+    }
+    const first = items[0].location;
+    const isOneSpot = items.every(p => p.location.lat === first.lat && p.location.lng === first.lng);
+    const bounds = fitBounds(items.map(p => p.location), size.width, size.height);
+    if (!isOneSpot && bounds && bounds.zoom > current.zoom) {
+      setView(bounds);
+    } else {
+      // Records geocoded to the same spot never separate, so list them instead
+      setOpenCluster({ position, items });
+    }
+  };
+
+  const clearLasso = () => {
+    setLasso(null);
+    setView(null);
+  };
+
+  const unplaced = records.length - points.length;
+  const lassoPath = (lasso ? lasso.map(p => toScreen(project(p, current.zoom))) : lassoDraft)
+    .map(p => `${p.x},${p.y}`)
+    .join(' ');
+
+  const panelClass = isDarkMode ? 'bg-slate-900/95 border-slate-700 text-slate-200' : 'bg-white/95 border-slate-200 text-slate-700';
+  const controlClass = `w-10 h-10 flex items-center justify-center rounded-xl border shadow-md transition-all ${isDarkMode ? 'bg-slate-900 border-slate-700 text-slate-300 hover:text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-indigo-600'}`;
+
+  return (
+    <div className={`rounded-[2.5rem] border shadow-sm overflow-hidden ${isDarkMode ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+      <div
+        ref={containerRef}
+        className={`relative overflow-hidden select-none touch-none ${isLassoMode ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'} ${isDarkMode ? 'bg-slate-800' : 'bg-slate-100'}`}
+        style={{ height: MAP_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div className="absolute inset-0 pointer-events-none" style={isDarkMode ? { filter: 'invert(1) hue-rotate(180deg) brightness(0.85)' } : undefined}>
+          {tiles.map(tile => (
+            <img key={tile.key} src={tile.src} alt="" draggable={false} className="absolute max-w-none" style={{ left: tile.x, top: tile.y, width: TILE_SIZE, height: TILE_SIZE }} />
+          ))}
+        </div>
+
+        <svg className="absolute inset-0 w-full h-full">
+          {lassoPath && (
+            <polygon
+              points={lassoPath}
+              fill={lasso ? 'rgba(99, 102, 241, 0.08)' : 'rgba(99, 102, 241, 0.15)'}
+              stroke="#6366f1"
+              strokeWidth={2}
+              strokeDasharray={lasso ? undefined : '6 4'}
+              className="pointer-events-none"
+            />
+          )}
+          {clusters.map(cluster => {
+            const position = toScreen(cluster.center);
+            if (position.x < -40 || position.y < -40 || position.x > size.width + 40 || position.y > size.height + 40) return null;
+            const items = cluster.items;
+            const key = items.map(p => p.record.id).join(',');
+
+            if (items.length === 1) {
+              const record = items[0].record;
+              return (
+                <g
+                  key={key}
+                  transform={`translate(${position.x}, ${position.y})`}
+                  className="cursor-pointer"
+                  onPointerDown={e => e.stopPropagation()}
+                  onClick={() => handleClusterClick(items, position)}
+                >
+                  <title>{record.subtitle ? `${record.title}\n${record.subtitle}` : record.title}</title>
+                  <circle r={9} fill={colorFor(record, coloring)} stroke="#fff" strokeWidth={3} className="drop-shadow" />
+                </g>
+              );
+            }
+
+            // A ring split by color, so a cluster still shows its mix of statuses
+            const radius = 16 + Math.min(10, Math.log2(items.length) * 3);
+            const circumference = 2 * Math.PI * radius;
+            const counts = new Map<string, number>();
+            items.forEach(p => {
+              const color = colorFor(p.record, coloring);
+              counts.set(color, (counts.get(color) || 0) + 1);
+            });
+            let offset = 0;
+            return (
+              <g
+                key={key}
+                transform={`translate(${position.x}, ${position.y})`}
+                className="cursor-pointer"
+                onPointerDown={e => e.stopPropagation()}
+                onClick={() => handleClusterClick(items, position)}
+              >
+                <title>{`${items.length} ${noun}`}</title>
+                <circle r={radius + 4} fill={isDarkMode ? '#0f172a' : '#fff'} className="drop-shadow" />
+                {Array.from(counts.entries()).map(([color, count]) => {
+                  const length = count / items.length * circumference;
+                  const segment = (
+                    <circle
+                      key={color}
+                      r={radius}
+                      fill="none"
+                      stroke={color}
+                      strokeWidth={6}
+                      strokeDasharray={`${length} ${circumference - length}`}
+                      strokeDashoffset={-offset}
+                      transform="rotate(-90)"
+                    />
+                  );
+                  offset += length;
+                  return segment;
+                })}
+                <text textAnchor="middle" dominantBaseline="central" className={`text-[11px] font-black ${isDarkMode ? 'fill-white' : 'fill-slate-800'}`}>{items.length}</text>
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Controls */}
+        <div className="absolute top-4 left-4 flex flex-col gap-2" onPointerDown={e => e.stopPropagation()}>
+          <button onClick={() => zoomAround({ x: size.width / 2, y: size.height / 2 }, 1)} className={controlClass} title="Zoom In"><i className="fas fa-plus"></i></button>
+          <button onClick={() => zoomAround({ x: size.width / 2, y: size.height / 2 }, -1)} className={controlClass} title="Zoom Out"><i className="fas fa-minus"></i></button>
+          <button onClick={() => { setView(null); setOpenCluster(null); }} className={controlClass} title={`Fit All ${noun}`}><i className="fas fa-expand"></i></button>
+          <button
+            onClick={() => { setIsLassoMode(!isLassoMode); setLassoDraft([]); }}
+            className={isLassoMode ? 'w-10 h-10 flex items-center justify-center rounded-xl border shadow-md bg-indigo-600 border-indigo-500 text-white' : controlClass}
+            title="Draw a lasso to filter"
+          >
+            <i className="fas fa-draw-polygon"></i>
+          </button>
+        </div>
+
+        {/* Legend */}
+        {coloring && (
+          <div className={`absolute top-4 right-4 w-56 rounded-2xl border shadow-lg p-4 backdrop-blur ${panelClass}`} onPointerDown={e => e.stopPropagation()}>
+            {colorings.length > 1 ? (
+              <div className={`flex p-1 rounded-xl mb-3 ${isDarkMode ? 'bg-slate-800' : 'bg-slate-100'}`}>
+                {colorings.map(c => (
+                  <button
+                    key={c.id}
+                    onClick={() => setColoringId(c.id)}
+                    className={`flex-1 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${c.id === coloring.id ? (isDarkMode ? 'bg-indigo-600 text-white' : 'bg-white shadow-sm text-indigo-600') : 'text-slate-400'}`}
+                  >
+                    {c.label}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-3">{coloring.label}</p>
+            )}
+            <div className="space-y-1.5">
+              {coloring.legend.map(entry => (
+                <div key={entry.value} className="flex items-center text-[10px] font-bold">
+                  <span className="w-2.5 h-2.5 rounded-full mr-2 shrink-0" style={{ backgroundColor: entry.color }}></span>
+                  <span className="truncate">{entry.label}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isLassoMode && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 rounded-full bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest shadow-lg pointer-events-none">
+            Drag around the {noun} to keep
+          </div>
+        )}
+
+        {/* Lasso results */}
+        {lasso && (
+          <div className={`absolute bottom-10 right-4 w-72 max-h-[360px] flex flex-col rounded-2xl border shadow-lg backdrop-blur ${panelClass}`} onPointerDown={e => e.stopPropagation()}>
+            <div className={`flex items-center justify-between px-4 py-3 border-b ${isDarkMode ? 'border-slate-700' : 'border-slate-100'}`}>
+              <p className="text-[10px] font-black uppercase tracking-widest">{lassoed.length} {noun} in area</p>
+              <button onClick={clearLasso} className="text-[9px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700">Clear</button>
+            </div>
+            <div className="overflow-y-auto p-2">
+              {lassoed.map(p => (
+                <button key={p.record.id} onClick={() => onSelect(p.record.id)} className={`w-full flex items-center text-left px-2 py-2 rounded-xl transition-colors ${isDarkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-50'}`}>
+                  <span className="w-2.5 h-2.5 rounded-full mr-3 shrink-0" style={{ backgroundColor: colorFor(p.record, coloring) }}></span>
+                  <span className="min-w-0">
+                    <span className="block text-[11px] font-black truncate">{p.record.title}</span>
+                    {p.record.subtitle && <span className="block text-[9px] font-bold text-slate-400 truncate">{p.record.subtitle}</span>}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Records sharing one spot */}
+        {openCluster && (
+          <div
+            className={`absolute w-64 max-h-64 overflow-y-auto rounded-2xl border shadow-xl p-2 ${panelClass}`}
+            style={{ left: Math.min(openCluster.position.x + 20, size.width - 272), top: Math.max(8, Math.min(openCluster.position.y - 20, size.height - 264)) }}
+            onPointerDown={e => e.stopPropagation()}
+          >
+            {openCluster.items.map(p => (
+              <button key={p.record.id} onClick={() => onSelect(p.record.id)} className={`w-full flex items-center text-left px-2 py-2 rounded-xl transition-colors ${isDarkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-50'}`}>
+                <span className="w-2.5 h-2.5 rounded-full mr-3 shrink-0" style={{ backgroundColor: colorFor(p.record, coloring) }}></span>
+                <span className="min-w-0">
+                  <span className="block text-[11px] font-black truncate">{p.record.title}</span>
+                  {p.record.subtitle && <span className="block text-[9px] font-bold text-slate-400 truncate">{p.record.subtitle}</span>}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className={`absolute bottom-0 left-0 right-0 flex items-center justify-between px-4 py-2 text-[9px] font-bold ${isDarkMode ? 'bg-slate-900/80 text-slate-400' : 'bg-white/80 text-slate-500'}`} onPointerDown={e => e.stopPropagation()}>
+          <span>
+            {points.length} of {records.length} {noun} on map
+            {unplaced > 0 && <span className="ml-2 opacity-70">· {unplaced} without a mappable address</span>}
+          </span>
+          <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer" className="hover:underline">© OpenStreetMap contributors</a>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordMap;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { RECURRENCE_PRESETS, isValidRRule, describeRRule } from '../lib/recurrence.ts';
+
+interface RecurrenceSelectProps {
+  value: string;
+  onChange: (rule: string) => void;
+  isDarkMode?: boolean;
+}
+
+const CUSTOM = 'CUSTOM';
+
+const RecurrenceSelect: React.FC<RecurrenceSelectProps> = ({ value, onChange, isDarkMode }) => {
+  const isPreset = RECURRENCE_PRESETS.some(p => p.value === value);
+  const [isCustom, setIsCustom] = useState(!isPreset);
+
+  const inputClass = `w-full border rounded-[1.25rem] px-6 py-5 font-bold text-base outline-none transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-slate-50 border-slate-200 focus:bg-white'}`;
+  const showError = isCustom && value.trim() !== '' && !isValidRRule(value);
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Repeat</label>
+      <select
+        className={`${inputClass} appearance-none cursor-pointer`}
+        value={isCustom ? CUSTOM : value}
+        onChange={e => {
+          if (e.target.value === CUSTOM) {
+            setIsCustom(true);
+            onChange(value || 'FREQ=WEEKLY;INTERVAL=2');
+          } else {
+            setIsCustom(false);
+            onChange(e.target.value);
+          }
+        }}
+      >
+        {RECURRENCE_PRESETS.map(p => <option key={p.label} value={p.value}>{p.label}</option>)}
+        <option value={CUSTOM}>Custom (RRULE)</option>
+      </select>
+      {isCustom && (
+        <>
+          <input
+            type="text"
+            className={`${inputClass} font-mono text-sm ${showError ? 'border-rose-400' : ''}`}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+            value={value}
+            onChange={e => onChange(e.target.value.toUpperCase())}
+          />
+          <p className={`text-[10px] font-bold uppercase tracking-widest ml-1 ${showError ? 'text-rose-500' : 'text-slate-400'}`}>
+            {showError ? 'Unsupported rule: use FREQ, INTERVAL, BYDAY, COUNT or UNTIL' : describeRRule(value)}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceSelect;
@@ -1,5 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { Lead, Deal, User, UserRole } from '../types.ts';
+import { XLSX_MIME_TYPE, xlsxBlob } from '../lib/xlsx.ts';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, Cell as PieCell } from 'recharts';
 
 interface ReportsViewProps {
@@ -164,6 +165,82 @@ const ReportsView: React.FC<ReportsViewProps> = ({ leads, deals, agents, current
     return Object.entries(sources).map(([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value).slice(0, 5);
   }, [baseLeads, currentYear]);
 
+  const handleExportExcel = () => {
+    const reportName = reportType === 'TEAM' ? 'Brokerage' : `${selectedAgent?.firstName || ''} ${selectedAgent?.lastName || ''}`.trim();
+    const closedDeals = baseDeals
+      .filter(d => d.status === 'CLOSED' && getLAPart(d.date, 'year') === currentYear)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const sources: Record<string, number> = {};
+    baseLeads.filter(l => getLAPart(l.createdAt, 'year') === currentYear).forEach(l => { sources[l.source] = (sources[l.source] || 0) + 1; });
+
+    const workbook = xlsxBlob([
+      {
+        name: 'Summary',
+        columns: [{ header: 'Metric', width: 24 }, { header: String(currentYear), type: 'number' }, { header: String(prevYear), type: 'number' }],
+        rows: [
+          ['Report', reportName, sideFilter === 'ALL' ? 'All sides' : sideFilter],
+          ['Total Volume', stats.totalVolume, prevYearStats.totalVolume],
+          ['Average Deal', Math.round(stats.averageDeal), Math.round(prevYearStats.averageDeal)],
+          ['Gross GCI', stats.totalGCI, prevYearStats.totalGCI],
+          ['Transactions', stats.totalTransactions, prevYearStats.totalTransactions],
+          ['Buyer Units', stats.buyerUnits, prevYearStats.buyerUnits],
+          ['Seller Units', stats.sellerUnits, prevYearStats.sellerUnits]
+        ]
+      },
+      {
+        name: 'Monthly Production',
+        columns: [
+          { header: 'Month' },
+          { header: `${currentYear} Volume`, type: 'currency' },
+          { header: `${currentYear} Units`, type: 'number' },
+          { header: `${prevYear} Volume`, type: 'currency' },
+          { header: `${prevYear} Units`, type: 'number' }
+        ],
+        rows: monthlyProduction.map(m => [m.month, m.current, m.curUnits, m.previous, m.preUnits])
+      },
+      {
+        name: 'Lead Sources',
+        columns: [{ header: 'Source' }, { header: `${currentYear} Leads`, type: 'number' }],
+        rows: Object.entries(sources).sort((a, b) => b[1] - a[1])
+      },
+      {
+        name: 'Closed Deals',
+        columns: [
+          { header: 'Closing Date', type: 'date' },
+          { header: 'Client' },
+          { header: 'Side' },
+          { header: 'Address' },
+          { header: 'Agent' },
+          { header: 'Sale Price', type: 'currency' },
+          { header: 'Commission', type: 'currency' },
+          { header: 'Source' }
+        ],
+        rows: closedDeals.map(d => {
+          const agent = agents.find(a => a.id === d.assignedUserId);
+          return [
+            new Date(d.date).toLocaleDateString('en-CA', { timeZone: TZ }),
+            d.leadName,
+            d.side,
+            d.address,
+            agent ? `${agent.firstName} ${agent.lastName}` : '',
+            d.salePrice,
+            d.commissionAmount,
+            d.source || ''
+          ];
+        })
+      }
+    ]);
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(workbook);
+    link.download = `performance_report_${currentYear}_${new Date().toISOString().split('T')[0]}.xlsx`;
+    link.type = XLSX_MIME_TYPE;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setIsDownloadMenuOpen(false);
+  };
+
   const COLORS = ['#6366f1', '#4ade80', '#fbbf24', '#f87171', '#a78bfa'];
 
   return (
@@ -193,12 +270,22 @@ const ReportsView: React.FC<ReportsViewProps> = ({ leads, deals, agents, current
               </select>
            )}
 
-           <button 
-              className={`w-12 h-12 flex items-center justify-center rounded-2xl transition-all shadow-xl active:scale-95 ${isDarkMode ? 'bg-slate-800 text-white' : 'bg-slate-900 text-white hover:bg-black'}`}
-              onClick={() => setIsDownloadMenuOpen(!isDownloadMenuOpen)}
-           >
-             <i className="fas fa-download text-sm"></i>
-           </button>
+           <div className="relative">
+             <button 
+                className={`w-12 h-12 flex items-center justify-center rounded-2xl transition-all shadow-xl active:scale-95 ${isDarkMode ? 'bg-slate-800 text-white' : 'bg-slate-900 text-white hover:bg-black'}`}
+                onClick={() => setIsDownloadMenuOpen(!isDownloadMenuOpen)}
+             >
+               <i className="fas fa-download text-sm"></i>
+             </button>
+             {isDownloadMenuOpen && (
+               <div className={`absolute right-0 mt-3 w-56 rounded-2xl shadow-2xl border overflow-hidden z-50 animate-in fade-in zoom-in-95 duration-150 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+                 <button onClick={handleExportExcel} className={`w-full text-left px-5 py-4 transition-colors flex items-center space-x-3 ${isDarkMode ? 'hover:bg-slate-700' : 'hover:bg-indigo-50'}`}>
+                   <i className="fas fa-file-excel text-emerald-500"></i>
+                   <span className={`text-sm font-bold ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>Excel (.xlsx)</span>
+                 </button>
+               </div>
+             )}
+           </div>
         </div>
       </div>
 
@@ -0,0 +1,28 @@
+import React from 'react';
+import { SNIPPET_END, SNIPPET_START } from '../services/searchService.ts';
+
+interface SearchSnippetProps {
+  snippet: string;
+  className?: string;
+}
+
+// Renders a search_crm snippet with its marked matches highlighted
+const SearchSnippet: React.FC<SearchSnippetProps> = ({ snippet, className = '' }) => {
+  const parts = snippet.split(SNIPPET_START);
+  return (
+    <span className={className}>
+      {parts.map((part, i) => {
+        if (i === 0) return <React.Fragment key={i}>{part}</React.Fragment>;
+        const [match, rest = ''] = part.split(SNIPPET_END);
+        return (
+          <React.Fragment key={i}>
+            <mark className="bg-yellow-200 text-slate-900 rounded-sm px-0.5 font-bold shadow-sm">{match}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </span>
+  );
+};
+
+export default SearchSnippet;
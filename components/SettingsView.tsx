@@ -1,6 +1,10 @@
 import React, { useState, useRef } from 'react';
 import { NavItemConfig } from '../App.tsx';
-import { Brokerage } from '../types.ts';
+import { Brokerage, CustomFieldDefinition, Lead, LeadScoringConfig, User } from '../types.ts';
+import IntegrationsSettings from './IntegrationsSettings.tsx';
+import LeadRoutingSettings from './LeadRoutingSettings.tsx';
+import LeadScoringSettings from './LeadScoringSettings.tsx';
+import CustomFieldsSettings from './CustomFieldsSettings.tsx';
 
 interface SettingsViewProps {
   availableSources: string[];
@@ -14,6 +18,13 @@ interface SettingsViewProps {
   brokerage: Brokerage;
   isDarkMode?: boolean;
   toggleDarkMode?: () => void;
+  canManageIntegrations?: boolean;
+  currentUserId: string;
+  teamMembers: User[];
+  onLeadIngested?: (lead: Lead) => void;
+  onScoringSaved?: (config: LeadScoringConfig) => void;
+  customFields: CustomFieldDefinition[];
+  onUpdateCustomFields: (definitions: CustomFieldDefinition[]) => void;
 }
 
 const SettingsView: React.FC<SettingsViewProps> = ({ 
@@ -25,7 +36,15 @@ const SettingsView: React.FC<SettingsViewProps> = ({
   onTrashTag,
   navItems,
   onUpdateNavItems,
-  isDarkMode
+  brokerage,
+  isDarkMode,
+  canManageIntegrations,
+  currentUserId,
+  teamMembers,
+  onLeadIngested,
+  onScoringSaved,
+  customFields,
+  onUpdateCustomFields
 }) => {
   const [newSource, setNewSource] = useState('');
   const [newTag, setNewTag] = useState('');
@@ -284,6 +303,36 @@ const SettingsView: React.FC<SettingsViewProps> = ({
         </section>
       </div>
 
+      {canManageIntegrations && (
+        <>
+          <IntegrationsSettings
+            brokerage={brokerage}
+            currentUserId={currentUserId}
+            activeAgentIds={teamMembers.map(u => u.id)}
+            onLeadIngested={onLeadIngested}
+            isDarkMode={isDarkMode}
+          />
+          <LeadRoutingSettings
+            brokerage={brokerage}
+            teamMembers={teamMembers}
+            availableSources={availableSources}
+            isDarkMode={isDarkMode}
+          />
+          <LeadScoringSettings
+            brokerage={brokerage}
+            availableSources={availableSources}
+            onSaved={onScoringSaved}
+            isDarkMode={isDarkMode}
+          />
+          <CustomFieldsSettings
+            brokerage={brokerage}
+            definitions={customFields}
+            onChange={onUpdateCustomFields}
+            isDarkMode={isDarkMode}
+          />
+        </>
+      )}
+
       {/* Delete Confirmation Modal */}
       {confirmDelete && (
         <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
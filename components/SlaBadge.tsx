@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+import { Lead } from '../types.ts';
+import { SlaState, formatSlaDuration, getSlaStatus } from '../lib/speedToLead.ts';
+
+interface SlaBadgeProps {
+  lead: Pick<Lead, 'status' | 'notes' | 'slaDueAt'>;
+  // Met SLAs are hidden unless asked for, so lists only flag leads still on the clock
+  showMet?: boolean;
+}
+
+const STATE_STYLES: Record<Exclude<SlaState, 'NONE'>, { className: string; icon: string }> = {
+  ON_TRACK: { className: 'bg-sky-50 text-sky-600 border-sky-100', icon: 'fa-stopwatch' },
+  AT_RISK: { className: 'bg-amber-50 text-amber-600 border-amber-200 animate-pulse', icon: 'fa-hourglass-half' },
+  BREACHED: { className: 'bg-rose-50 text-rose-600 border-rose-200', icon: 'fa-triangle-exclamation' },
+  MET: { className: 'bg-emerald-50 text-emerald-600 border-emerald-100', icon: 'fa-check' },
+};
+
+const SlaBadge: React.FC<SlaBadgeProps> = ({ lead, showMet }) => {
+  const [now, setNow] = useState(() => new Date());
+  const { state, remainingMs } = getSlaStatus(lead, now);
+  const isTicking = state === 'ON_TRACK' || state === 'AT_RISK' || state === 'BREACHED';
+
+  useEffect(() => {
+    if (!isTicking) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [isTicking]);
+
+  if (state === 'NONE' || (state === 'MET' && !showMet)) return null;
+
+  const style = STATE_STYLES[state];
+  const label = state === 'MET'
+    ? 'SLA met'
+    : state === 'BREACHED'
+      ? `SLA -${formatSlaDuration(remainingMs)}`
+      : formatSlaDuration(remainingMs);
+
+  return (
+    <span
+      title={`First response due ${new Date(lead.slaDueAt!).toLocaleString()}`}
+      className={`inline-flex items-center text-[9px] font-black uppercase tracking-widest px-2.5 py-1 rounded-full border tabular-nums ${style.className}`}
+    >
+      <i className={`fas ${style.icon} mr-1.5`}></i>{label}
+    </span>
+  );
+};
+
+export default SlaBadge;
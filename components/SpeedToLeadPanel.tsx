@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Lead, SlaBreach, User } from '../types.ts';
+import { slaService } from '../services/slaService.ts';
+import { getSlaStatus } from '../lib/speedToLead.ts';
+import { buildPath, navigate } from '../lib/router.ts';
+import SlaBadge from './SlaBadge.tsx';
+
+interface SpeedToLeadPanelProps {
+  brokerageId: string;
+  leads: Lead[];
+  agents: User[];
+  viewingAgentId: string;
+  isDarkMode?: boolean;
+}
+
+const REPORT_DAYS = 30;
+
+const SpeedToLeadPanel: React.FC<SpeedToLeadPanelProps> = ({ brokerageId, leads, agents, viewingAgentId, isDarkMode }) => {
+  const [breaches, setBreaches] = useState<SlaBreach[]>([]);
+  const [reportBy, setReportBy] = useState<'AGENT' | 'SOURCE'>('AGENT');
+
+  useEffect(() => {
+    let cancelled = false;
+    slaService.getBreaches(brokerageId, new Date(Date.now() - REPORT_DAYS * 86400000)).then(rows => {
+      if (!cancelled) setBreaches(rows);
+    });
+    return () => { cancelled = true; };
+  }, [brokerageId]);
+
+  // Leads still waiting on a first response, most urgent first
+  const onTheClock = useMemo(() => leads
+    .filter(l => {
+      const { state } = getSlaStatus(l);
+      return state === 'ON_TRACK' || state === 'AT_RISK' || state === 'BREACHED';
+    })
+    .sort((a, b) => a.slaDueAt!.localeCompare(b.slaDueAt!)),
+  [leads]);
+
+  const visibleBreaches = viewingAgentId === 'TEAM' ? breaches : breaches.filter(b => b.agentId === viewingAgentId);
+
+  const report = useMemo(() => {
+    const counts: Record<string, { breached: number; reassigned: number }> = {};
+    visibleBreaches.forEach(b => {
+      const key = reportBy === 'AGENT' ? b.agentId : b.source || 'Unknown';
+      const row = counts[key] || (counts[key] = { breached: 0, reassigned: 0 });
+      row.breached++;
+      if (b.reassignedToAgentId) row.reassigned++;
+    });
+    return Object.entries(counts)
+      .map(([key, row]) => {
+        const agent = reportBy === 'AGENT' ? agents.find(a => a.id === key) : undefined;
+        return { key, label: reportBy === 'AGENT' ? (agent ? `${agent.firstName} ${agent.lastName}` : 'Former agent') : key, ...row };
+      })
+      .sort((a, b) => b.breached - a.breached);
+  }, [visibleBreaches, reportBy, agents]);
+
+  const maxBreached = Math.max(1, ...report.map(r => r.breached));
+  const agentName = (agentId: string) => {
+    const agent = agents.find(a => a.id === agentId);
+    return agent ? `${agent.firstName} ${agent.lastName}` : 'Unassigned';
+  };
+
+  const cardClass = `p-8 rounded-[3rem] border shadow-sm flex flex-col ${isDarkMode ? 'bg-slate-900 border-slate-800 text-white' : 'bg-white border-slate-200 text-slate-900'}`;
+  const rowClass = `p-3.5 rounded-2xl border flex items-center justify-between ${isDarkMode ? 'bg-slate-800/50 border-slate-800' : 'bg-slate-50 border-slate-100'}`;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center space-x-3 text-slate-800 px-2">
+        <div className="w-1 h-4 bg-rose-500 rounded-full"></div>
+        <h2 className="text-[10px] font-black tracking-[0.2em] text-slate-400 uppercase">Speed to Lead</h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className={cardClass}>
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-black tracking-tight">Awaiting First Response</h3>
+            <span className="text-[8px] font-black text-rose-500 uppercase tracking-[0.2em] bg-rose-50 px-2 py-1 rounded-lg">{onTheClock.length} On The Clock</span>
+          </div>
+          <div className="flex flex-col gap-3 max-h-[360px] overflow-y-auto">
+            {onTheClock.length === 0 && (
+              <p className="py-10 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">Every new lead has been contacted</p>
+            )}
+            {onTheClock.map(lead => (
+              <div
+                key={lead.id}
+                onClick={() => navigate(buildPath('lead-detail', { id: lead.id }))}
+                className={`${rowClass} cursor-pointer transition-all ${isDarkMode ? 'hover:bg-slate-800' : 'hover:bg-white hover:shadow-md'}`}
+              >
+                <div className="overflow-hidden">
+                  <p className="text-sm font-black truncate">{lead.firstName} {lead.lastName}</p>
+                  <p className="text-[10px] font-bold text-slate-400 truncate">{lead.source} · {agentName(lead.assignedAgentId)}</p>
+                </div>
+                <div className="ml-4 shrink-0"><SlaBadge lead={lead} /></div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className={cardClass}>
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className="text-xl font-black tracking-tight">SLA Breaches</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Last {REPORT_DAYS} days · {visibleBreaches.length} total</p>
+            </div>
+            <div className={`flex p-1 rounded-xl border ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-100 border-slate-200'}`}>
+              {(['AGENT', 'SOURCE'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setReportBy(mode)}
+                  className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${reportBy === mode ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                  By {mode === 'AGENT' ? 'Agent' : 'Source'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-col gap-3 max-h-[360px] overflow-y-auto">
+            {report.length === 0 && (
+              <p className="py-10 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">No breaches recorded</p>
+            )}
+            {report.map(row => (
+              <div key={row.key} className={rowClass}>
+                <div className="overflow-hidden flex-1">
+                  <p className="text-sm font-black truncate">{row.label}</p>
+                  <div className={`mt-2 h-1 rounded-full overflow-hidden ${isDarkMode ? 'bg-slate-700' : 'bg-slate-200'}`}>
+                    <div className="h-full bg-rose-500 rounded-full" style={{ width: `${(row.breached / maxBreached) * 100}%` }}></div>
+                  </div>
+                </div>
+                <div className="text-right ml-6 shrink-0">
+                  <p className="text-base font-black text-rose-600">{row.breached}</p>
+                  <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{row.reassigned} Reassigned</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default SpeedToLeadPanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Lead } from '../types.ts';
+import { StageAgingState, formatStageDuration, getStageAging, getStageEnteredAt } from '../lib/stageAging.ts';
+
+interface StageAgingBadgeProps {
+  lead: Pick<Lead, 'status' | 'createdAt' | 'statusChangedAt'>;
+  // Fresh leads are hidden unless asked for, so lists only flag leads that are stuck
+  showFresh?: boolean;
+}
+
+const STATE_STYLES: Record<StageAgingState, { className: string; icon: string }> = {
+  FRESH: { className: 'bg-slate-50 text-slate-500 border-slate-100', icon: 'fa-clock' },
+  AGING: { className: 'bg-amber-50 text-amber-600 border-amber-200', icon: 'fa-hourglass-half' },
+  STALE: { className: 'bg-rose-50 text-rose-600 border-rose-200', icon: 'fa-hourglass-end' },
+};
+
+const StageAgingBadge: React.FC<StageAgingBadgeProps> = ({ lead, showFresh }) => {
+  const aging = getStageAging(lead);
+  if (!aging || (aging.state === 'FRESH' && !showFresh)) return null;
+
+  const style = STATE_STYLES[aging.state];
+  return (
+    <span
+      title={`In ${lead.status.replace('_', ' ')} since ${new Date(getStageEnteredAt(lead)).toLocaleString()}`}
+      className={`inline-flex items-center text-[9px] font-black uppercase tracking-widest px-2.5 py-1 rounded-full border tabular-nums ${style.className}`}
+    >
+      <i className={`fas ${style.icon} mr-1.5`}></i>{formatStageDuration(aging.timeInStageMs)} in stage
+    </span>
+  );
+};
+
+export default StageAgingBadge;
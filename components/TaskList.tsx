@@ -1,5 +1,8 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Task, Lead, User } from '../types.ts';
+import { isValidRRule, describeRRule } from '../lib/recurrence.ts';
+import RecurrenceSelect from './RecurrenceSelect.tsx';
+import { FocusRequest } from '../lib/commandPalette.ts';
 
 interface TaskListProps {
   tasks: Task[];
@@ -8,6 +11,8 @@ interface TaskListProps {
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
   onAddTask: (task: Task) => void;
   onDeleteTask: (taskId: string) => void;
+  // A task picked in the command palette, opened for editing
+  focus?: FocusRequest;
 }
 
 const TZ = 'America/Los_Angeles';
@@ -17,7 +22,7 @@ interface UndoState {
   tasks: Task[];
 }
 
-const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, onAddTask, onDeleteTask }) => {
+const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, onAddTask, onDeleteTask, focus }) => {
   const [taskToComplete, setTaskToComplete] = useState<string | null>(null);
   const [taskToDelete, setTaskToDelete] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
@@ -52,7 +57,8 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, o
     startTime: '10:00',
     endTime: '11:00',
     priority: 'MEDIUM' as Task['priority'],
-    leadId: ''
+    leadId: '',
+    recurrenceRule: ''
   });
 
   const topRef = useRef<HTMLDivElement>(null);
@@ -201,6 +207,7 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, o
   const handleTaskSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title.trim()) return;
+    if (formData.recurrenceRule && !isValidRRule(formData.recurrenceRule)) return;
 
     const baseDate = formData.dueDate || getLAToday();
     const startIso = new Date(`${baseDate}T${formData.startTime || '10:00'}:00`).toISOString();
@@ -214,6 +221,7 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, o
         endDate: endIso,
         priority: formData.priority,
         leadId: formData.leadId || undefined,
+        recurrenceRule: formData.recurrenceRule || undefined,
       });
     } else {
       onAddTask({
@@ -226,7 +234,8 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, o
         dueDate: startIso,
         endDate: endIso,
         isCompleted: false,
-        priority: formData.priority
+        priority: formData.priority,
+        recurrenceRule: formData.recurrenceRule || undefined
       });
     }
     
@@ -246,12 +255,18 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, o
       startTime: start.toTimeString().split(' ')[0].substring(0, 5),
       endTime: end.toTimeString().split(' ')[0].substring(0, 5),
       priority: task.priority,
-      leadId: task.leadId || ''
+      leadId: task.leadId || '',
+      recurrenceRule: task.recurrenceRule || ''
     });
     setClientSearchTerm('');
     setIsModalOpen(true);
   };
 
+  useEffect(() => {
+    const task = focus && tasks.find(t => t.id === focus.id);
+    if (task) handleEditTask(task);
+  }, [focus?.at]);
+
   const resetFormData = () => {
     setEditingTaskId(null);
     setFormData({
@@ -261,7 +276,8 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, o
       startTime: '10:00',
       endTime: '11:00',
       priority: 'MEDIUM',
-      leadId: ''
+      leadId: '',
+      recurrenceRule: ''
     });
     setClientSearchTerm('');
   };
@@ -419,6 +435,11 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, o
                         {task.title}
                       </p>
                       <div className="flex items-center space-x-2 mt-1.5">
+                        {task.recurrenceRule && (
+                          <span className="text-[9px] font-black text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded border border-emerald-100 uppercase tracking-tighter shrink-0" title={task.recurrenceRule}>
+                            <i className="fas fa-repeat mr-1"></i>{describeRRule(task.recurrenceRule)}
+                          </span>
+                        )}
                         {associatedLead && (
                           <span className="text-[9px] font-black text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded border border-indigo-100 uppercase tracking-tighter shrink-0">
                             {associatedLead.firstName} {associatedLead.lastName}
@@ -565,6 +586,7 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, o
             <h3 className="text-2xl font-black text-slate-900 tracking-tight mb-2">Finalize Task?</h3>
             <p className="text-slate-500 mb-10 font-medium leading-relaxed">
               Confirming will mark this item as completed in your operational log.
+              {tasks.find(t => t.id === taskToComplete)?.recurrenceRule && ' The next occurrence will be scheduled automatically.'}
             </p>
             <div className="flex items-center space-x-4 w-full">
               <button onClick={() => setTaskToComplete(null)} className="flex-1 py-4 bg-slate-100 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all">Cancel</button>
@@ -666,6 +688,11 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, leads, user, onUpdateTask, o
                 </div>
               </div>
 
+              <RecurrenceSelect
+                value={formData.recurrenceRule}
+                onChange={rule => setFormData({...formData, recurrenceRule: rule})}
+              />
+
               <div className="space-y-3 relative">
                 <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Associate with Client (Optional)</label>
                 {!selectedLeadInForm ? (
@@ -0,0 +1,147 @@
+// Matching for the Ctrl/Cmd-K command palette: fuzzy ranking of records and commands,
+// parsing of typed lead commands ("new task for jim", "log note pam") and recent items.
+
+export type PaletteItemKind = 'LEAD' | 'DEAL' | 'TASK' | 'OPEN_HOUSE' | 'DOCUMENT' | 'VIEW' | 'COMMAND';
+
+export interface PaletteItem {
+  // `${kind}:${id}`; stable across sessions so recents survive a reload
+  key: string;
+  kind: PaletteItemKind;
+  id: string;
+  title: string;
+  subtitle?: string;
+  icon: string;
+  // Matched like the title, but worth less
+  keywords?: string;
+}
+
+/**
+ * Asks `view` to open one of its records (for the calendar, a MONTH / WEEK / DAY mode).
+ * `at` keeps repeat requests for the same id distinct.
+ */
+export interface FocusRequest {
+  view: string;
+  id: string;
+  at: number;
+}
+
+export type LeadCommandType = 'NEW_TASK' | 'LOG_NOTE';
+
+export const LEAD_COMMANDS: { type: LeadCommandType; label: string; icon: string; prefix: string; pattern: RegExp }[] = [
+  { type: 'NEW_TASK', label: 'New task for', icon: 'fa-circle-plus', prefix: 'new task for ', pattern: /^(?:new |add |create )?task(?:\s+for)?(?:\s+(.*))?$/i },
+  { type: 'LOG_NOTE', label: 'Log note for', icon: 'fa-note-sticky', prefix: 'log note for ', pattern: /^(?:log |add )?note(?:\s+(?:for|on|to))?(?:\s+(.*))?$/i },
+];
+
+/**
+ * A lead command typed into the palette, with whatever names the lead. Null when the
+ * text is not a lead command.
+ */
+export const parseLeadCommand = (query: string): { type: LeadCommandType; leadQuery: string } | null => {
+  const text = query.trim();
+  for (const command of LEAD_COMMANDS) {
+    const match = text.match(command.pattern);
+    if (match) return { type: command.type, leadQuery: (match[1] || '').trim() };
+  }
+  return null;
+};
+
+const isWordStart = (text: string, i: number) => i === 0 || /[\s\-_.@,/(]/.test(text[i - 1]);
+
+const isSubsequence = (chars: string, text: string, from: number) => {
+  let at = from;
+  for (const ch of chars) {
+    at = text.indexOf(ch, at) + 1;
+    if (at === 0) return false;
+  }
+  return true;
+};
+
+/**
+ * How well `query` matches `text` as an in-order subsequence, or null if it does not.
+ * Prefixes, word starts and runs of consecutive characters score higher; gaps cost.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.toLowerCase().replace(/\s+/g, ' ').trim();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+  if (!t) return null;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (let qi = 0; qi < q.length; qi++) {
+    const ch = q[qi];
+    if (ch === ' ') {
+      // A space in the query prefers the next match to start a word
+      previous = -2;
+      continue;
+    }
+    let index = t.indexOf(ch, from);
+    if (index < 0) return null;
+    if (previous !== index - 1) {
+      // Jump ahead to a word start with this character, if the rest still matches after it
+      const rest = q.slice(qi + 1).replace(/ /g, '');
+      for (let i = index; i < t.length; i++) {
+        if (t[i] === ch && isWordStart(t, i) && isSubsequence(rest, t, i + 1)) {
+          index = i;
+          break;
+        }
+      }
+    }
+    score += 1;
+    if (index === previous + 1) score += 4;
+    if (isWordStart(t, index)) score += 6;
+    score -= Math.min(index - from, 10) * 0.2;
+    previous = index;
+    from = index + 1;
+  }
+
+  if (t.startsWith(q)) score += 15;
+  else if (t.includes(q)) score += 8;
+  // Among equal matches, shorter text is the closer one
+  return score - t.length * 0.01;
+};
+
+const RECENT_BOOST = 5;
+
+/**
+ * Items matching `query`, best first. Recent items get a small boost; an empty query
+ * returns the recent items in the order they were used.
+ */
+export const rankItems = (query: string, items: PaletteItem[], recentKeys: string[] = [], limit = 12): PaletteItem[] => {
+  if (!query.trim()) {
+    const byKey = new Map(items.map(item => [item.key, item]));
+    return recentKeys.flatMap(key => byKey.get(key) || []).slice(0, limit);
+  }
+
+  return items
+    .flatMap(item => {
+      const title = fuzzyScore(query, item.title);
+      const keywords = item.keywords ? fuzzyScore(query, item.keywords) : null;
+      if (title === null && keywords === null) return [];
+      const best = Math.max(title ?? -Infinity, keywords === null ? -Infinity : keywords * 0.7);
+      return [{ item, score: best + (recentKeys.includes(item.key) ? RECENT_BOOST : 0) }];
+    })
+    .sort((a, b) => b.score - a.score || a.item.title.localeCompare(b.item.title))
+    .slice(0, limit)
+    .map(({ item }) => item);
+};
+
+const MAX_RECENT = 8;
+const recentStorageKey = (userId: string) => `palette-recent:${userId}`;
+
+export const loadRecentKeys = (userId: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(recentStorageKey(userId)) || '[]');
+    return Array.isArray(stored) ? stored.filter(k => typeof k === 'string') : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+// Moves `key` to the front of the user's recent items and returns the new list
+export const rememberRecentKey = (userId: string, key: string): string[] => {
+  const next = [key, ...loadRecentKeys(userId).filter(k => k !== key)].slice(0, MAX_RECENT);
+  localStorage.setItem(recentStorageKey(userId), JSON.stringify(next));
+  return next;
+};
@@ -0,0 +1,207 @@
+// Google Contacts and Outlook CSV export layouts. Both spread one person across many
+// columns (numbered label/value pairs, split address parts), so recognized files are
+// rewritten into import records before the column mapping step, and contacts can be
+// exported back in the same layouts.
+
+import { ImportField, Lead } from '../types.ts';
+import { parseImportDate } from './leadImport.ts';
+import { RelatedContact, householdOf } from './relationships.ts';
+
+type ImportRecord = Partial<Record<ImportField, string>>;
+
+export interface ContactLayout {
+  id: 'google' | 'outlook';
+  name: string;
+  matches: (headers: string[]) => boolean;
+  toRecords: (headers: string[], rows: string[][]) => ImportRecord[];
+  // Each lead's related contacts fill the spouse columns
+  fromLeads: (leads: Lead[], relatedByLead?: Map<string, RelatedContact[]>) => string[][];
+}
+
+const SPOUSE_LABEL = /spouse|partner|husband|wife/i;
+
+// Case-insensitive column lookup for one row
+const rowReader = (headers: string[], row: string[]) => {
+  const index = new Map(headers.map((h, i) => [h.trim().toLowerCase(), i]));
+  return (header: string) => {
+    const i = index.get(header.toLowerCase());
+    return i === undefined ? '' : (row[i] || '').trim();
+  };
+};
+
+// Numbered "<Kind> N - Label" / "<Kind> N - Value" pairs, e.g. "Phone 2 - Value"
+const numberedPairs = (headers: string[], kind: string, labelSuffixes: string[]) => {
+  const numbers = headers
+    .map(h => h.match(new RegExp(`^${kind} (\\d+) - Value$`, 'i'))?.[1])
+    .filter((n): n is string => !!n);
+  return (get: (header: string) => string) => numbers.flatMap(n => {
+    const label = labelSuffixes.map(suffix => get(`${kind} ${n} - ${suffix}`)).find(Boolean) || '';
+    // Google joins several values for one label with " ::: "
+    return get(`${kind} ${n} - Value`).split(' ::: ').filter(Boolean).map(value => ({ label, value: value.trim() }));
+  });
+};
+
+const splitName = (full: string): [string, string] => {
+  const [first, ...rest] = full.trim().split(/\s+/);
+  return [first || '', rest.join(' ')];
+};
+
+// Exports can carry dates without a year or placeholder dates; keep only storable ones
+const storableDate = (value: string) => parseImportDate(value) || '';
+
+const joinAddress = (street: string, city: string, region: string, postal: string, country = '') =>
+  [street.replace(/\n/g, ', '), city, [region, postal].filter(Boolean).join(' '), country].filter(Boolean).join(', ');
+
+const compact = (record: ImportRecord): ImportRecord =>
+  Object.fromEntries(Object.entries(record).filter(([, value]) => value)) as ImportRecord;
+
+// The first household member, named and labelled for the spouse columns
+const spouseOf = (lead: Lead, relatedByLead: Map<string, RelatedContact[]> = new Map()) => {
+  const [household] = householdOf(relatedByLead.get(lead.id));
+  return household
+    ? { name: `${household.lead.firstName} ${household.lead.lastName}`.trim(), label: household.label }
+    : { name: '', label: '' };
+};
+
+const usDate = (value?: string) => {
+  if (!value) return '';
+  const [year, month, day] = value.slice(0, 10).split('-');
+  return `${Number(month)}/${Number(day)}/${year}`;
+};
+
+const GOOGLE_EXPORT_HEADERS = [
+  'First Name', 'Last Name', 'Birthday', 'Notes', 'Labels',
+  'E-mail 1 - Label', 'E-mail 1 - Value', 'Phone 1 - Label', 'Phone 1 - Value',
+  'Address 1 - Label', 'Address 1 - Formatted',
+  'Relation 1 - Label', 'Relation 1 - Value',
+  'Event 1 - Label', 'Event 1 - Value', 'Event 2 - Label', 'Event 2 - Value'
+];
+
+const GOOGLE_LAYOUT: ContactLayout = {
+  id: 'google',
+  name: 'Google Contacts',
+  // Current exports use "First Name" + "Labels"; older ones "Given Name" + "Group Membership"
+  matches: headers => {
+    const set = new Set(headers.map(h => h.trim().toLowerCase()));
+    return set.has('e-mail 1 - value') && (set.has('labels') || set.has('group membership'));
+  },
+  toRecords: (headers, rows) => {
+    const emails = numberedPairs(headers, 'E-mail', ['Label', 'Type']);
+    const phones = numberedPairs(headers, 'Phone', ['Label', 'Type']);
+    const relations = numberedPairs(headers, 'Relation', ['Label', 'Type']);
+    const events = numberedPairs(headers, 'Event', ['Label', 'Type']);
+    const addressNumbers = headers
+      .map(h => h.match(/^Address (\d+) - (?:Formatted|Street)$/i)?.[1])
+      .filter((n, i, all): n is string => !!n && all.indexOf(n) === i);
+
+    return rows.map(row => {
+      const get = rowReader(headers, row);
+      const [nameFirst, nameLast] = splitName(get('Name'));
+      const phoneList = phones(get);
+      const mobile = phoneList.find(p => /mobile|cell/i.test(p.label)) || phoneList[0];
+      const spouse = relations(get).find(r => SPOUSE_LABEL.test(r.label));
+      const [spouseFirst, spouseLast] = spouse ? splitName(spouse.value) : ['', ''];
+      const eventList = events(get);
+      const address = addressNumbers
+        .map(n => get(`Address ${n} - Formatted`).replace(/\n/g, ', ') || joinAddress(
+          get(`Address ${n} - Street`), get(`Address ${n} - City`), get(`Address ${n} - Region`), get(`Address ${n} - Postal Code`)
+        ))
+        .find(Boolean) || '';
+
+      return compact({
+        firstName: get('First Name') || get('Given Name') || nameFirst,
+        lastName: get('Last Name') || get('Family Name') || nameLast,
+        email: emails(get)[0]?.value || '',
+        phone: mobile?.value || '',
+        propertyAddress: address,
+        dob: storableDate(get('Birthday')),
+        weddingAnniversary: storableDate(eventList.find(e => /anniversary/i.test(e.label) && !/home/i.test(e.label))?.value || ''),
+        homeAnniversary: storableDate(eventList.find(e => /home/i.test(e.label))?.value || ''),
+        spouseFirstName: spouseFirst,
+        spouseLastName: spouseLast,
+        familyNotes: get('Notes'),
+        tags: (get('Labels') || get('Group Membership'))
+          .split(' ::: ')
+          .map(label => label.replace(/^\*\s*/, '').trim())
+          .filter(label => label && !/^my ?contacts$/i.test(label) && label.toLowerCase() !== 'starred')
+          .join('; '),
+        source: 'Google Contacts'
+      });
+    });
+  },
+  fromLeads: (leads, relatedByLead) => [
+    GOOGLE_EXPORT_HEADERS,
+    ...leads.map(l => {
+      const spouse = spouseOf(l, relatedByLead);
+      return [
+        l.firstName,
+        l.lastName,
+        l.dob?.slice(0, 10) || '',
+        l.familyNotes || '',
+        ['* myContacts', ...l.tags].join(' ::: '),
+        l.email ? '* Home' : '', l.email,
+        l.phone ? 'Mobile' : '', l.phone,
+        l.propertyAddress ? 'Home' : '', l.propertyAddress || '',
+        spouse.label, spouse.name,
+        l.weddingAnniversary ? 'Anniversary' : '', l.weddingAnniversary?.slice(0, 10) || '',
+        l.homeAnniversary ? 'Home Anniversary' : '', l.homeAnniversary?.slice(0, 10) || ''
+      ];
+    })
+  ]
+};
+
+const OUTLOOK_EXPORT_HEADERS = [
+  'First Name', 'Last Name', 'E-mail Address', 'Mobile Phone', 'Home Street',
+  'Birthday', 'Anniversary', 'Spouse', 'Categories', 'Notes'
+];
+
+const OUTLOOK_LAYOUT: ContactLayout = {
+  id: 'outlook',
+  name: 'Outlook',
+  matches: headers => {
+    const set = new Set(headers.map(h => h.trim().toLowerCase()));
+    return set.has('e-mail address') && (set.has('mobile phone') || set.has('business phone') || set.has('home phone'));
+  },
+  toRecords: (headers, rows) => rows.map(row => {
+    const get = rowReader(headers, row);
+    const [spouseFirst, spouseLast] = splitName(get('Spouse'));
+    const home = joinAddress(get('Home Street'), get('Home City'), get('Home State'), get('Home Postal Code'));
+    const business = joinAddress(get('Business Street'), get('Business City'), get('Business State'), get('Business Postal Code'));
+
+    return compact({
+      firstName: get('First Name'),
+      lastName: get('Last Name'),
+      email: get('E-mail Address') || get('E-mail 2 Address'),
+      phone: get('Mobile Phone') || get('Primary Phone') || get('Home Phone') || get('Business Phone'),
+      propertyAddress: home || business,
+      // Outlook writes 0/0/00 for empty dates
+      dob: storableDate(get('Birthday')),
+      weddingAnniversary: storableDate(get('Anniversary')),
+      spouseFirstName: spouseFirst,
+      spouseLastName: spouseLast,
+      familyNotes: get('Notes'),
+      tags: get('Categories').split(';').map(c => c.trim()).filter(Boolean).join('; '),
+      source: 'Outlook'
+    });
+  }),
+  fromLeads: (leads, relatedByLead) => [
+    OUTLOOK_EXPORT_HEADERS,
+    ...leads.map(l => [
+      l.firstName,
+      l.lastName,
+      l.email,
+      l.phone,
+      l.propertyAddress || '',
+      usDate(l.dob),
+      usDate(l.weddingAnniversary),
+      spouseOf(l, relatedByLead).name,
+      l.tags.join(';'),
+      l.familyNotes || ''
+    ])
+  ]
+};
+
+export const CONTACT_LAYOUTS: ContactLayout[] = [GOOGLE_LAYOUT, OUTLOOK_LAYOUT];
+
+export const detectContactLayout = (headers: string[]): ContactLayout | null =>
+  CONTACT_LAYOUTS.find(layout => layout.matches(headers)) || null;
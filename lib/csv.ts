@@ -0,0 +1,71 @@
+// RFC 4180 CSV reading and writing. Quoted fields may contain delimiters, doubled quotes
+// and line breaks, which is how spreadsheets export multi-line notes and addresses.
+
+/**
+ * Parses CSV text into rows of raw cell strings. Blank lines are dropped; a byte order
+ * mark and CRLF line endings are handled.
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      // Whitespace before an opening quote is not part of the value
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+/**
+ * Picks comma, semicolon or tab by which one splits the header line into the most columns.
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+};
+
+const escapeCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: (string | number | undefined | null)[][]): string =>
+  rows.map(row => row.map(cell => escapeCell(cell === undefined || cell === null ? '' : String(cell))).join(',')).join('\r\n');
@@ -0,0 +1,78 @@
+// Brokerage-defined fields on leads and deals: key generation, display formatting and the
+// cell types used when exporting values.
+
+import { CustomFieldDefinition, CustomFieldEntity, CustomFieldType, CustomFieldValue } from '../types.ts';
+import { XlsxCellType, XlsxValue } from './xlsx.ts';
+
+export const CUSTOM_FIELD_TYPES: { type: CustomFieldType; label: string; icon: string }[] = [
+  { type: 'text', label: 'Text', icon: 'fa-font' },
+  { type: 'number', label: 'Number', icon: 'fa-hashtag' },
+  { type: 'date', label: 'Date', icon: 'fa-calendar' },
+  { type: 'select', label: 'Select', icon: 'fa-list' },
+  { type: 'multiSelect', label: 'Multi-select', icon: 'fa-list-check' },
+];
+
+export const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multiSelect';
+
+export const fieldsFor = (definitions: CustomFieldDefinition[], entity: CustomFieldEntity) =>
+  definitions.filter(d => d.entity === entity).sort((a, b) => a.position - b.position);
+
+/**
+ * camelCase key from a label ("Pre-Approval Amount" -> "preApprovalAmount"), numbered when
+ * another field already uses it.
+ */
+export const customFieldKey = (label: string, existingKeys: string[]): string => {
+  const words = label.replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  let base = words
+    .map((word, i) => i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+  if (!/^[A-Za-z]/.test(base)) base = `field${base}`;
+
+  const taken = new Set(existingKeys.map(k => k.toLowerCase()));
+  let key = base;
+  for (let n = 2; taken.has(key.toLowerCase()); n++) key = `${base}${n}`;
+  return key;
+};
+
+export const isEmptyValue = (value: CustomFieldValue | undefined | null) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Human-readable value for lists, detail views and CSV cells.
+ */
+export const formatCustomFieldValue = (definition: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (isEmptyValue(value)) return '';
+  switch (definition.type) {
+    case 'multiSelect':
+      return (Array.isArray(value) ? value : [String(value)]).join('; ');
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value);
+    case 'date': {
+      const date = new Date(`${String(value).slice(0, 10)}T00:00:00`);
+      return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+    }
+    default:
+      return String(value);
+  }
+};
+
+export const xlsxCellType = (type: CustomFieldType): XlsxCellType =>
+  type === 'number' ? 'number' : type === 'date' ? 'date' : 'text';
+
+export const toXlsxValue = (definition: CustomFieldDefinition, value: CustomFieldValue | undefined): XlsxValue => {
+  if (isEmptyValue(value)) return '';
+  if (definition.type === 'number' || definition.type === 'date') return Array.isArray(value) ? value.join('; ') : value;
+  return formatCustomFieldValue(definition, value);
+};
+
+/**
+ * Sets or clears one value, returning a new map.
+ */
+export const setCustomFieldValue = (
+  values: Record<string, CustomFieldValue> | undefined,
+  key: string,
+  value: CustomFieldValue | undefined,
+): Record<string, CustomFieldValue> => {
+  const { [key]: _previous, ...rest } = values || {};
+  return isEmptyValue(value) ? rest : { ...rest, [key]: value! };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { mergeChanges, scoreDuplicate } from './leadDuplicates.ts';
+import { Lead, LeadStatus, LeadTemperature } from '../types.ts';
+
+const lead = (overrides: Partial<Lead>): Lead => ({
+  id: 'lead-1',
+  brokerageId: 'brokerage-1',
+  assignedAgentId: 'agent-1',
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  status: LeadStatus.NEW,
+  temperature: LeadTemperature.WARM,
+  source: 'Website',
+  tags: [],
+  propertyType: 'PRIMARY',
+  budget: 0,
+  notes: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  estimatedDealValue: 0,
+  ...overrides
+});
+
+describe('scoreDuplicate', () => {
+  const nameMatch = (first: string, other: string) =>
+    scoreDuplicate(
+      lead({ id: 'a', firstName: first, lastName: 'Smith' }),
+      lead({ id: 'b', firstName: other, lastName: 'Smith' })
+    ).reasons.includes('Similar name');
+
+  it('matches common short forms of a first name', () => {
+    expect(nameMatch('Bob', 'Robert')).toBe(true);
+    expect(nameMatch('Jon', 'Jonathan')).toBe(true);
+    expect(nameMatch('Johnny', 'John')).toBe(true);
+  });
+
+  it('does not treat John as short for Jonathan', () => {
+    expect(nameMatch('John', 'Jonathan')).toBe(false);
+  });
+
+  it('flags a shared email as a duplicate', () => {
+    const { score, reasons } = scoreDuplicate(
+      lead({ id: 'a', firstName: 'Dana', lastName: 'Whitfield', email: 'dana.whitfield@gmail.com' }),
+      lead({ id: 'b', firstName: 'D', lastName: 'W', email: 'DanaWhitfield+zillow@gmail.com' })
+    );
+    expect(reasons).toEqual(['Same email']);
+    expect(score).toBe(60);
+  });
+});
+
+describe('mergeChanges', () => {
+  const survivor = lead({ id: 'a', firstName: 'Bob', lastName: 'Smith', phone: '', budget: 0, customFields: { beds: 3 } });
+  const duplicate = lead({
+    id: 'b',
+    firstName: 'Robert',
+    lastName: 'Smith',
+    phone: '555-0100',
+    budget: 500000,
+    estimatedDealValue: 15000,
+    customFields: { beds: 4, baths: 2 }
+  });
+
+  it('takes only the picked fields whose values differ, with the deal value following the budget', () => {
+    expect(mergeChanges(survivor, duplicate, { firstName: 'survivor', lastName: 'duplicate', phone: 'duplicate', budget: 'duplicate' })).toEqual({
+      phone: '555-0100',
+      budget: 500000,
+      estimatedDealValue: 15000,
+      customFields: { beds: 3, baths: 2 }
+    });
+  });
+
+  it('leaves custom fields alone when the duplicate adds none', () => {
+    expect(mergeChanges(duplicate, survivor, {})).toEqual({});
+  });
+});
@@ -0,0 +1,297 @@
+// Fuzzy duplicate detection and merging for leads. Matching uses normalized email, phone and
+// name (with linked spouses and household members as further identities), so the same
+// household entered at an open house, imported from a CSV and ingested from a portal is
+// recognised as one contact.
+
+import { Lead } from '../types.ts';
+import { RelatedContact, householdOf } from './relationships.ts';
+
+export interface DuplicateMatch {
+  lead: Lead;
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicatePair {
+  key: string;
+  a: Lead;
+  b: Lead;
+  score: number;
+  reasons: string[];
+}
+
+// Pairs scoring below this are not reported; a shared name alone never reaches it
+export const DUPLICATE_THRESHOLD = 50;
+
+const NAME_MATCH = 0.92;
+
+// Common short forms, so "Bob Smith" and "Robert Smith" compare as the same first name
+const NICKNAMES: Record<string, string> = {
+  abby: 'abigail', alex: 'alexander', andy: 'andrew', ben: 'benjamin', beth: 'elizabeth',
+  bill: 'william', billy: 'william', bob: 'robert', bobby: 'robert', cathy: 'catherine',
+  chris: 'christopher', dan: 'daniel', danny: 'daniel', dave: 'david', deb: 'deborah',
+  debbie: 'deborah', don: 'donald', ed: 'edward', eddie: 'edward', jen: 'jennifer',
+  jenny: 'jennifer', jim: 'james', jimmy: 'james', joe: 'joseph', johnny: 'john',
+  jon: 'jonathan', kate: 'katherine', katie: 'katherine', kathy: 'katherine', liz: 'elizabeth',
+  matt: 'matthew', meg: 'margaret', mike: 'michael', nick: 'nicholas', pat: 'patricia',
+  peggy: 'margaret', rich: 'richard', rick: 'richard', rob: 'robert', sam: 'samuel',
+  steve: 'steven', sue: 'susan', ted: 'theodore', tom: 'thomas', tony: 'anthony', will: 'william',
+};
+
+export const normalizeEmail = (email?: string): string => {
+  const value = (email || '').trim().toLowerCase();
+  const [local, domain] = value.split('@');
+  if (!local || !domain) return '';
+  // Gmail ignores dots and +tags, so j.doe+zillow@gmail.com is jdoe@gmail.com
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    return `${local.split('+')[0].replace(/\./g, '')}@gmail.com`;
+  }
+  return `${local.split('+')[0]}@${domain}`;
+};
+
+export const normalizePhone = (phone?: string): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return national.length >= 7 ? national : '';
+};
+
+export const normalizeName = (name?: string): string =>
+  (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+
+const canonicalFirstName = (name?: string) => {
+  const normalized = normalizeName(name);
+  return NICKNAMES[normalized] || normalized;
+};
+
+/**
+ * Jaro-Winkler similarity between 0 and 1; forgiving of typos and transpositions in short names.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+interface Person {
+  first: string;
+  last: string;
+}
+
+const primaryPerson = (lead: Lead): Person => ({ first: canonicalFirstName(lead.firstName), last: normalizeName(lead.lastName) });
+
+// The people linked to a lead as its spouse, partner or household
+const householdPeople = (lead: Lead, relatedByLead?: Map<string, RelatedContact[]>): Person[] =>
+  householdOf(relatedByLead?.get(lead.id)).map(member => ({
+    first: canonicalFirstName(member.lead.firstName),
+    // Members without their own last name usually share the lead's
+    last: normalizeName(member.lead.lastName || lead.lastName),
+  }));
+
+const samePerson = (a: Person | null, b: Person | null) =>
+  !!a && !!b && !!a.first && !!a.last &&
+  nameSimilarity(a.first, b.first) >= NAME_MATCH &&
+  nameSimilarity(a.last, b.last) >= NAME_MATCH;
+
+const identities = (lead: Lead) => ({
+  emails: [normalizeEmail(lead.email)].filter(Boolean),
+  phones: [normalizePhone(lead.phone)].filter(Boolean),
+});
+
+/**
+ * Scores how likely two leads are the same contact, 0-100, with the signals that matched.
+ * Pass the leads' related contacts to also compare their linked households.
+ */
+export const scoreDuplicate = (
+  a: Lead,
+  b: Lead,
+  relatedByLead?: Map<string, RelatedContact[]>,
+): { score: number; reasons: string[] } => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const idsA = identities(a);
+  const idsB = identities(b);
+  if (idsA.emails.some(email => idsB.emails.includes(email))) {
+    score += 60;
+    reasons.push('Same email');
+  }
+  if (idsA.phones.some(phone => idsB.phones.includes(phone))) {
+    score += 50;
+    reasons.push('Same phone');
+  }
+
+  const householdA = householdPeople(a, relatedByLead);
+  const householdB = householdPeople(b, relatedByLead);
+  if (samePerson(primaryPerson(a), primaryPerson(b))) {
+    score += 35;
+    reasons.push('Similar name');
+    if (householdA.some(member => householdB.some(other => samePerson(member, other)))) {
+      score += 25;
+      reasons.push('Same spouse');
+    }
+  } else if (
+    householdB.some(member => samePerson(primaryPerson(a), member)) ||
+    householdA.some(member => samePerson(member, primaryPerson(b)))
+  ) {
+    // The household was entered once under each spouse
+    score += 45;
+    reasons.push('Same household');
+  }
+
+  return { score: Math.min(100, score), reasons };
+};
+
+export const pairKey = (idA: string, idB: string) => idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+
+/**
+ * Existing leads that look like the given (possibly unsaved) lead, best match first.
+ */
+export const findDuplicatesOf = (
+  lead: Lead,
+  leads: Lead[],
+  relatedByLead?: Map<string, RelatedContact[]>,
+): DuplicateMatch[] =>
+  leads
+    .filter(other => other.id !== lead.id && !other.isDeleted)
+    .map(other => ({ lead: other, ...scoreDuplicate(lead, other, relatedByLead) }))
+    .filter(match => match.score >= DUPLICATE_THRESHOLD)
+    .sort((x, y) => y.score - x.score);
+
+// Leads are only compared when they share a block, which keeps the queue from being O(n²)
+const blockingKeys = (lead: Lead, relatedByLead?: Map<string, RelatedContact[]>): string[] => {
+  const { emails, phones } = identities(lead);
+  const people = [primaryPerson(lead), ...householdPeople(lead, relatedByLead)].filter(p => !!p.last);
+  return [
+    ...emails.map(email => `e:${email}`),
+    ...phones.map(phone => `p:${phone.slice(-7)}`),
+    ...people.map(person => `n:${person.last.slice(0, 2)}:${person.first.slice(0, 1)}`),
+  ];
+};
+
+/**
+ * Every likely duplicate pair among the leads, skipping pairs already marked as distinct.
+ */
+export const findDuplicatePairs = (
+  leads: Lead[],
+  dismissedKeys: Set<string> = new Set(),
+  relatedByLead?: Map<string, RelatedContact[]>,
+): DuplicatePair[] => {
+  const active = leads.filter(l => !l.isDeleted);
+  const blocks = new Map<string, Lead[]>();
+  active.forEach(lead => {
+    new Set(blockingKeys(lead, relatedByLead)).forEach(key => {
+      const members = blocks.get(key);
+      if (members) members.push(lead);
+      else blocks.set(key, [lead]);
+    });
+  });
+
+  const pairs = new Map<string, DuplicatePair>();
+  blocks.forEach(members => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = pairKey(members[i].id, members[j].id);
+        if (pairs.has(key) || dismissedKeys.has(key)) continue;
+        const { score, reasons } = scoreDuplicate(members[i], members[j], relatedByLead);
+        if (score >= DUPLICATE_THRESHOLD) {
+          // The older record is shown first and survives by default
+          const [a, b] = members[i].createdAt <= members[j].createdAt ? [members[i], members[j]] : [members[j], members[i]];
+          pairs.set(key, { key, a, b, score, reasons });
+        }
+      }
+    }
+  });
+
+  return [...pairs.values()].sort((x, y) => y.score - x.score);
+};
+
+// Fields the merge screen lets the user take from either side
+export const MERGEABLE_FIELDS = [
+  { field: 'firstName', label: 'First Name' },
+  { field: 'lastName', label: 'Last Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'assignedAgentId', label: 'Assigned Agent' },
+  { field: 'status', label: 'Status' },
+  { field: 'temperature', label: 'Temperature' },
+  { field: 'source', label: 'Source' },
+  { field: 'propertyType', label: 'Property Type' },
+  { field: 'propertyAddress', label: 'Property Address' },
+  { field: 'budget', label: 'Budget' },
+  { field: 'dob', label: 'Birthday' },
+  { field: 'weddingAnniversary', label: 'Wedding Anniversary' },
+  { field: 'homeAnniversary', label: 'Home Anniversary' },
+  { field: 'familyNotes', label: 'Family Notes' },
+] as const;
+
+export type MergeableLeadField = typeof MERGEABLE_FIELDS[number]['field'];
+
+export type MergeSide = 'survivor' | 'duplicate';
+
+/**
+ * Default picks: keep the survivor's value unless it is empty and the duplicate has one.
+ */
+export const defaultMergePicks = (survivor: Lead, duplicate: Lead): Record<MergeableLeadField, MergeSide> =>
+  MERGEABLE_FIELDS.reduce((picks, { field }) => {
+    const isEmpty = (value: unknown) => value === undefined || value === null || value === '' || value === 0;
+    picks[field] = isEmpty(survivor[field]) && !isEmpty(duplicate[field]) ? 'duplicate' : 'survivor';
+    return picks;
+  }, {} as Record<MergeableLeadField, MergeSide>);
+
+/**
+ * What the survivor takes from the duplicate: every picked field whose value differs, and
+ * custom fields the survivor left blank. Tags and notes from both records are combined by
+ * the server when the merge is saved.
+ */
+export const mergeChanges = (
+  survivor: Lead,
+  duplicate: Lead,
+  picks: Partial<Record<MergeableLeadField, MergeSide>>,
+): Partial<Lead> => {
+  const changes: Partial<Lead> = {};
+  const take = <K extends MergeableLeadField>(field: K) => {
+    changes[field] = duplicate[field];
+  };
+  MERGEABLE_FIELDS.forEach(({ field }) => {
+    if (picks[field] === 'duplicate' && duplicate[field] !== survivor[field]) take(field);
+  });
+  // Deal value is derived from the budget, so it follows whichever budget was kept
+  if ('budget' in changes) changes.estimatedDealValue = duplicate.estimatedDealValue;
+
+  const survivorFields = survivor.customFields || {};
+  const customFields = { ...(duplicate.customFields || {}), ...survivorFields };
+  if (Object.keys(customFields).length > Object.keys(survivorFields).length) changes.customFields = customFields;
+
+  return changes;
+};
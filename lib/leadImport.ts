@@ -0,0 +1,365 @@
+// Spreadsheet import for leads and contacts: column mapping, row validation and a dry-run
+// preview that flags duplicates against the CRM and earlier rows of the same file.
+
+import { CustomFieldDefinition, CustomFieldValue, ImportField, ImportMapping, Lead, LeadNote, LeadStatus, LeadTemperature } from '../types.ts';
+import { findDuplicatesOf } from './leadDuplicates.ts';
+import { toCsv } from './csv.ts';
+import { formatPhone, toE164, toStoredPhone } from './phone.ts';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'fullName', label: 'Full Name', aliases: ['name', 'fullname', 'contactname', 'clientname'] },
+  { field: 'firstName', label: 'First Name', aliases: ['firstname', 'first', 'givenname', 'fname'] },
+  { field: 'lastName', label: 'Last Name', aliases: ['lastname', 'last', 'surname', 'familyname', 'lname'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'emailaddress', 'email1', 'primaryemail', 'e-mail'] },
+  { field: 'phone', label: 'Phone', aliases: ['phone', 'phonenumber', 'mobile', 'cell', 'cellphone', 'mobilephone', 'primaryphone', 'telephone'] },
+  { field: 'status', label: 'Status', aliases: ['status', 'stage', 'leadstatus'] },
+  { field: 'temperature', label: 'Temperature', aliases: ['temperature', 'temp', 'rating'] },
+  { field: 'source', label: 'Source', aliases: ['source', 'leadsource', 'origin'] },
+  { field: 'tags', label: 'Tags', aliases: ['tags', 'tag', 'labels', 'groups'] },
+  { field: 'propertyType', label: 'Property Type', aliases: ['propertytype'] },
+  { field: 'propertyAddress', label: 'Property Address', aliases: ['address', 'propertyaddress', 'streetaddress', 'homeaddress', 'mailingaddress'] },
+  { field: 'budget', label: 'Budget', aliases: ['budget', 'price', 'pricerange', 'maxprice', 'listprice'] },
+  { field: 'dob', label: 'Birthday', aliases: ['dob', 'birthday', 'birthdate', 'dateofbirth'] },
+  { field: 'weddingAnniversary', label: 'Wedding Anniversary', aliases: ['weddinganniversary', 'anniversary'] },
+  { field: 'homeAnniversary', label: 'Home Anniversary', aliases: ['homeanniversary', 'closedate', 'purchasedate'] },
+  { field: 'spouseFirstName', label: 'Spouse First Name', aliases: ['spousefirstname', 'spousename', 'spouse'] },
+  { field: 'spouseLastName', label: 'Spouse Last Name', aliases: ['spouselastname'] },
+  { field: 'spouseEmail', label: 'Spouse Email', aliases: ['spouseemail'] },
+  { field: 'spousePhone', label: 'Spouse Phone', aliases: ['spousephone'] },
+  { field: 'familyNotes', label: 'Family Notes', aliases: ['familynotes', 'family'] },
+  { field: 'note', label: 'Note', aliases: ['note', 'notes', 'comments', 'message', 'description'] },
+];
+
+export const customImportField = (definition: CustomFieldDefinition): ImportField => `custom:${definition.key}`;
+
+// Built-in fields followed by the brokerage's lead custom fields
+export const importFieldsFor = (customFields: CustomFieldDefinition[] = []): { field: ImportField; label: string; aliases: string[] }[] => [
+  ...IMPORT_FIELDS,
+  ...customFields
+    .filter(d => d.entity === 'lead')
+    .map(d => ({ field: customImportField(d), label: d.label, aliases: [normalizeHeader(d.label), normalizeHeader(d.key)] })),
+];
+
+export type ImportRowStatus = 'READY' | 'DUPLICATE' | 'INVALID';
+
+export interface ImportPreviewRow {
+  rowNumber: number; // 1-based line in the spreadsheet, counting the header
+  cells: string[];
+  status: ImportRowStatus;
+  errors: string[];
+  lead?: Lead;
+  // Spouse columns on the row; saved as a lead of their own and linked to `lead`
+  householdMember?: HouseholdMemberImport;
+  duplicateOf?: string;
+}
+
+export type HouseholdMemberImport = Pick<Lead, 'firstName' | 'lastName' | 'email' | 'phone'>;
+
+export interface ImportDefaults {
+  status: LeadStatus;
+  source: string;
+  tags: string[];
+  assignedAgentId: string;
+  authorId: string;
+  authorName: string;
+  // Share of the budget booked as estimated commission; contacts import with none
+  dealValueRate: number;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Maps each header to the field its name most likely means. Preset mappings win where
+ * they name a header in this file.
+ */
+export const guessMapping = (headers: string[], preset: ImportMapping = {}, customFields: CustomFieldDefinition[] = []): ImportMapping => {
+  const mapping: ImportMapping = {};
+  const used = new Set<ImportField>();
+  const fields = importFieldsFor(customFields);
+
+  headers.forEach(header => {
+    const key = normalizeHeader(header);
+    const field = preset[key] || fields.find(f => f.aliases.includes(key) && !used.has(f.field))?.field;
+    if (field && !used.has(field)) {
+      mapping[key] = field;
+      used.add(field);
+    }
+  });
+
+  return mapping;
+};
+
+// Null for numbers that are not dialable, e.g. `000-000-0000` placeholders, so the row is
+// flagged for review instead of importing them
+const importPhone = (value: string): string | null => {
+  const { phone, extension } = toStoredPhone(value);
+  return toE164(phone) ? formatPhone(phone, extension) : null;
+};
+
+/**
+ * Reads `$450,000`, `450k` or `1.2M`; returns null for anything else.
+ */
+export const parseBudget = (value: string): number | null => {
+  const match = value.replace(/[$,\s]/g, '').toLowerCase().match(/^(\d+(?:\.\d+)?)([km]?)$/);
+  if (!match) return null;
+  const multiplier = match[2] === 'm' ? 1000000 : match[2] === 'k' ? 1000 : 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+};
+
+/**
+ * Accepts ISO dates and US month/day/year; returns YYYY-MM-DD or null.
+ */
+export const parseImportDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (year < 100) year += year > new Date().getFullYear() % 100 ? 1900 : 2000;
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Reads a spreadsheet cell into a custom field value; returns an error for values the field
+ * cannot hold. Select options match case-insensitively and are stored as defined.
+ */
+export const parseCustomFieldValue = (definition: CustomFieldDefinition, raw: string): { value?: CustomFieldValue; error?: string } => {
+  const matchOption = (value: string) => definition.options.find(o => o.toLowerCase() === value.trim().toLowerCase());
+  switch (definition.type) {
+    case 'number': {
+      // Like budgets, but decimals are kept (HOA dues, rates)
+      const match = raw.replace(/[$,\s]/g, '').toLowerCase().match(/^(-?\d+(?:\.\d+)?)([km]?)$/);
+      if (!match) return { error: `Invalid number "${raw}" for ${definition.label}` };
+      return { value: parseFloat(match[1]) * (match[2] === 'm' ? 1000000 : match[2] === 'k' ? 1000 : 1) };
+    }
+    case 'date': {
+      const parsed = parseImportDate(raw);
+      return parsed ? { value: parsed } : { error: `Invalid date "${raw}" for ${definition.label}` };
+    }
+    case 'select': {
+      const option = matchOption(raw);
+      return option ? { value: option } : { error: `"${raw}" is not an option for ${definition.label}` };
+    }
+    case 'multiSelect': {
+      const parts = raw.split(/[;,|]/).map(p => p.trim()).filter(Boolean);
+      const unknown = parts.filter(p => !matchOption(p));
+      if (unknown.length > 0) return { error: `Not an option for ${definition.label}: "${unknown.join('", "')}"` };
+      return { value: Array.from(new Set(parts.map(p => matchOption(p)!))) };
+    }
+    default:
+      return { value: raw };
+  }
+};
+
+const matchEnum = <T extends string>(value: string, options: T[]): T | null => {
+  const key = value.toUpperCase().replace(/[\s-]+/g, '_');
+  return options.find(option => option === key) || null;
+};
+
+/**
+ * Validates one spreadsheet row and builds the lead it describes.
+ */
+export const buildLeadFromRow = (
+  cells: string[],
+  headers: string[],
+  mapping: ImportMapping,
+  defaults: ImportDefaults,
+  rowNumber: number,
+  customFields: CustomFieldDefinition[] = [],
+): { lead?: Lead; householdMember?: HouseholdMemberImport; errors: string[] } => {
+  const values: Partial<Record<ImportField, string>> = {};
+  headers.forEach((header, i) => {
+    const field = mapping[normalizeHeader(header)];
+    const value = (cells[i] || '').trim();
+    if (field && value) values[field] = value;
+  });
+
+  const errors: string[] = [];
+  const now = new Date().toISOString();
+
+  const [fullFirst, ...fullRest] = (values.fullName || '').split(/\s+/);
+  const firstName = values.firstName || fullFirst || '';
+  const lastName = values.lastName || fullRest.join(' ');
+  if (!firstName) errors.push('Missing first name');
+
+  const email = values.email || '';
+  if (email && !EMAIL_PATTERN.test(email)) errors.push(`Invalid email "${email}"`);
+
+  let phone = '';
+  if (values.phone) {
+    phone = importPhone(values.phone) || '';
+    if (!phone) errors.push(`Invalid phone "${values.phone}"`);
+  }
+  if (!values.email && !values.phone) errors.push('Needs an email or a phone number');
+
+  let status = defaults.status;
+  if (values.status) {
+    const matched = matchEnum(values.status, Object.values(LeadStatus));
+    if (matched) status = matched;
+    else errors.push(`Unknown status "${values.status}"`);
+  }
+
+  let temperature = LeadTemperature.NORMAL;
+  if (values.temperature) {
+    const matched = matchEnum(values.temperature, Object.values(LeadTemperature));
+    if (matched) temperature = matched;
+    else errors.push(`Unknown temperature "${values.temperature}"`);
+  }
+
+  let propertyType: Lead['propertyType'] = 'PRIMARY';
+  if (values.propertyType) {
+    const matched = matchEnum(values.propertyType, ['PRIMARY', 'SECONDARY', 'INVESTMENT'] as Lead['propertyType'][]);
+    if (matched) propertyType = matched;
+    else errors.push(`Unknown property type "${values.propertyType}"`);
+  }
+
+  let budget = 0;
+  if (values.budget) {
+    const parsed = parseBudget(values.budget);
+    if (parsed === null) errors.push(`Invalid budget "${values.budget}"`);
+    else budget = parsed;
+  }
+
+  const dates: Partial<Record<'dob' | 'weddingAnniversary' | 'homeAnniversary', string>> = {};
+  (['dob', 'weddingAnniversary', 'homeAnniversary'] as const).forEach(field => {
+    if (!values[field]) return;
+    const parsed = parseImportDate(values[field]!);
+    if (parsed) dates[field] = parsed;
+    else errors.push(`Invalid date "${values[field]}" for ${IMPORT_FIELDS.find(f => f.field === field)!.label}`);
+  });
+
+  if (values.spouseEmail && !EMAIL_PATTERN.test(values.spouseEmail)) errors.push(`Invalid spouse email "${values.spouseEmail}"`);
+  const spousePhone = values.spousePhone ? importPhone(values.spousePhone) : undefined;
+  if (values.spousePhone && !spousePhone) errors.push(`Invalid spouse phone "${values.spousePhone}"`);
+
+  const custom: Record<string, CustomFieldValue> = {};
+  customFields.filter(d => d.entity === 'lead').forEach(definition => {
+    const raw = values[customImportField(definition)];
+    if (!raw) return;
+    const { value, error } = parseCustomFieldValue(definition, raw);
+    if (error) errors.push(error);
+    else custom[definition.key] = value!;
+  });
+
+  if (errors.length > 0) return { errors };
+
+  const householdMember: HouseholdMemberImport | undefined = values.spouseFirstName || values.spouseEmail || spousePhone
+    ? {
+        firstName: values.spouseFirstName || (values.spouseEmail || '').split('@')[0],
+        lastName: values.spouseLastName || lastName,
+        email: values.spouseEmail || '',
+        phone: spousePhone || '',
+      }
+    : undefined;
+
+  const notes: LeadNote[] = values.note ? [{
+    id: `note_imp_${Date.now()}_${rowNumber}`,
+    content: values.note,
+    createdAt: now,
+    authorId: defaults.authorId,
+    authorName: defaults.authorName
+  }] : [];
+
+  return {
+    errors,
+    householdMember,
+    lead: {
+      id: `lead_imp_${Date.now()}_${rowNumber}`,
+      brokerageId: '',
+      assignedAgentId: defaults.assignedAgentId,
+      firstName,
+      lastName,
+      email,
+      phone,
+      status,
+      temperature,
+      source: values.source || defaults.source,
+      tags: values.tags
+        ? Array.from(new Set(values.tags.split(/[;,|]/).map(t => t.trim()).filter(Boolean)))
+        : defaults.tags,
+      propertyType,
+      propertyAddress: values.propertyAddress || '',
+      budget,
+      estimatedDealValue: budget * defaults.dealValueRate,
+      notes,
+      createdAt: now,
+      updatedAt: now,
+      ...dates,
+      familyNotes: values.familyNotes,
+      customFields: custom,
+    }
+  };
+};
+
+/**
+ * Dry run: validates every row and flags likely duplicates without creating anything.
+ */
+export const previewImport = (
+  rows: string[][],
+  headers: string[],
+  mapping: ImportMapping,
+  defaults: ImportDefaults,
+  existingLeads: Lead[],
+  customFields: CustomFieldDefinition[] = [],
+): ImportPreviewRow[] => {
+  const accepted: Lead[] = [];
+  const acceptedRows = new Map<string, number>();
+
+  return rows.map((cells, i) => {
+    const rowNumber = i + 2;
+    const { lead, householdMember, errors } = buildLeadFromRow(cells, headers, mapping, defaults, rowNumber, customFields);
+    if (!lead) return { rowNumber, cells, status: 'INVALID', errors };
+
+    const [existing] = findDuplicatesOf(lead, existingLeads);
+    const [earlier] = existing ? [] : findDuplicatesOf(lead, accepted);
+    accepted.push(lead);
+    acceptedRows.set(lead.id, rowNumber);
+
+    if (existing) {
+      return {
+        rowNumber, cells, status: 'DUPLICATE', lead, householdMember,
+        errors: [`Looks like existing ${existing.lead.firstName} ${existing.lead.lastName} (${existing.reasons.join(', ')})`],
+        duplicateOf: existing.lead.id,
+      };
+    }
+    if (earlier) {
+      return {
+        rowNumber, cells, status: 'DUPLICATE', lead, householdMember,
+        errors: [`Repeats row ${acceptedRows.get(earlier.lead.id)} of this file (${earlier.reasons.join(', ')})`],
+        duplicateOf: earlier.lead.id,
+      };
+    }
+    return { rowNumber, cells, status: 'READY', errors: [], lead, householdMember };
+  });
+};
+
+/**
+ * CSV of every row that was not imported, with the original cells and the reasons.
+ */
+export const buildErrorReport = (headers: string[], rows: ImportPreviewRow[]): string =>
+  toCsv([
+    ['Row', 'Status', 'Problems', ...headers],
+    ...rows.map(row => [row.rowNumber, row.status, row.errors.join('; '), ...row.cells]),
+  ]);
+
+/**
+ * Lays out already-interpreted records (from vCards or a recognized contacts export) as a
+ * header row of field labels plus data rows, so `guessMapping` maps every column and the
+ * records go through the same validation and dry run as a spreadsheet.
+ */
+export const toImportRows = (records: Partial<Record<ImportField, string>>[]): string[][] => {
+  const fields = IMPORT_FIELDS.filter(f => records.some(record => record[f.field]));
+  return [
+    fields.map(f => f.label),
+    ...records.map(record => fields.map(f => record[f.field] || ''))
+  ];
+};
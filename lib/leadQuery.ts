@@ -0,0 +1,487 @@
+// Filter language for smart lists. A query is a boolean expression over lead fields:
+//
+//   status = NEW and (source in ["Zillow", "Referral"] or tag = Buyer)
+//   budget >= 500k and not tag = "Past Client"
+//   dob in next 30 days                 birthdays and anniversaries recur every year
+//   createdAt in last 2 weeks
+//   no note in 14 days                  no note written by a person in that window
+//   householdEmail is empty             household fields look at linked spouses and members
+//   relationship = "Referred By"
+//   custom.hoa > 200                    brokerage custom fields, by key
+//
+// Comparisons on text are case-insensitive. `and` binds tighter than `or`.
+
+import { CustomFieldDefinition, CustomFieldType, Lead } from '../types.ts';
+import { RelatedContact, householdOf } from './relationships.ts';
+
+type FieldType = 'text' | 'enum' | 'list' | 'number' | 'date' | 'annual';
+
+interface FieldDefinition {
+  name: string;
+  type: FieldType;
+  get: (lead: Lead, related: RelatedContact[]) => string | number | string[] | undefined;
+}
+
+type Value = string | number;
+type CompareOp = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains';
+
+export type LeadQueryNode =
+  | { kind: 'and' | 'or'; children: LeadQueryNode[] }
+  | { kind: 'not'; child: LeadQueryNode }
+  | { kind: 'compare'; field: string; op: CompareOp; value: Value }
+  | { kind: 'in'; field: string; values: Value[] }
+  | { kind: 'within'; field: string; direction: 'next' | 'last'; days: number }
+  | { kind: 'empty'; field: string; negate: boolean }
+  | { kind: 'noNote'; days: number };
+
+// An invalid query has `ok: false`, the error and its character offset, and matches nothing
+export interface LeadQueryResult {
+  ok: boolean;
+  node: LeadQueryNode | null;
+  // `related` is the lead's linked contacts, used by the household and relationship fields
+  matches: (lead: Lead, now?: Date, related?: RelatedContact[]) => boolean;
+  error?: string;
+  position?: number;
+}
+
+const personNotes = (lead: Lead) => (lead.notes || []).filter(n => (n.authorId || '').toLowerCase() !== 'system');
+
+const FIELD_LIST: (FieldDefinition & { aliases?: string[] })[] = [
+  { name: 'name', type: 'text', get: l => `${l.firstName} ${l.lastName}`.trim() },
+  { name: 'firstName', type: 'text', get: l => l.firstName },
+  { name: 'lastName', type: 'text', get: l => l.lastName },
+  { name: 'email', type: 'text', get: l => l.email },
+  { name: 'phone', type: 'text', get: l => l.phone },
+  { name: 'status', type: 'enum', aliases: ['stage'], get: l => l.status },
+  { name: 'temperature', type: 'enum', aliases: ['temp'], get: l => l.temperature },
+  { name: 'source', type: 'text', get: l => l.source },
+  { name: 'tag', type: 'list', aliases: ['tags'], get: l => l.tags || [] },
+  { name: 'propertyType', type: 'enum', get: l => l.propertyType },
+  { name: 'address', type: 'text', aliases: ['propertyAddress'], get: l => l.propertyAddress },
+  { name: 'budget', type: 'number', get: l => l.budget },
+  { name: 'score', type: 'number', get: l => l.score },
+  { name: 'dealValue', type: 'number', aliases: ['estimatedDealValue'], get: l => l.estimatedDealValue },
+  { name: 'agent', type: 'text', aliases: ['assignedAgentId'], get: l => l.assignedAgentId },
+  { name: 'createdAt', type: 'date', aliases: ['created'], get: l => l.createdAt },
+  { name: 'updatedAt', type: 'date', aliases: ['updated'], get: l => l.updatedAt },
+  { name: 'statusChangedAt', type: 'date', aliases: ['stageChanged'], get: l => l.statusChangedAt || l.createdAt },
+  { name: 'lastNoteAt', type: 'date', aliases: ['lastNote'], get: l => personNotes(l).map(n => n.createdAt).sort().pop() },
+  { name: 'checkInTime', type: 'date', aliases: ['checkIn'], get: l => l.checkInTime },
+  { name: 'dob', type: 'annual', aliases: ['birthday'], get: l => l.dob },
+  { name: 'weddingAnniversary', type: 'annual', aliases: ['anniversary'], get: l => l.weddingAnniversary },
+  { name: 'homeAnniversary', type: 'annual', get: l => l.homeAnniversary },
+  { name: 'householdName', type: 'list', aliases: ['spouseName'], get: (_, r) => householdOf(r).map(c => `${c.lead.firstName} ${c.lead.lastName}`.trim()) },
+  { name: 'householdEmail', type: 'list', aliases: ['spouseEmail'], get: (_, r) => householdOf(r).map(c => c.lead.email).filter(Boolean) },
+  { name: 'householdPhone', type: 'list', aliases: ['spousePhone'], get: (_, r) => householdOf(r).map(c => c.lead.phone).filter(Boolean) },
+  { name: 'householdDob', type: 'annual', aliases: ['spouseDob', 'spouseBirthday'], get: (_, r) => householdOf(r).find(c => c.lead.dob)?.lead.dob },
+  { name: 'relationship', type: 'list', aliases: ['relationships'], get: (_, r) => r.map(c => c.label) },
+  { name: 'relatedName', type: 'list', aliases: ['related'], get: (_, r) => r.map(c => `${c.lead.firstName} ${c.lead.lastName}`.trim()) },
+  { name: 'familyNotes', type: 'text', get: l => l.familyNotes },
+  { name: 'integrationSource', type: 'text', get: l => l.integrationSource },
+];
+
+// Field names and aliases, lowercased, for lookups
+const FIELDS = new Map<string, FieldDefinition>(
+  FIELD_LIST.flatMap(f => [f.name, ...(f.aliases || [])].map(key => [key.toLowerCase(), f] as [string, FieldDefinition]))
+);
+
+const CUSTOM_FIELD_TYPES: Record<CustomFieldType, FieldType> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  select: 'text',
+  multiSelect: 'list',
+};
+
+// Custom fields answer to `custom.<key>`, and to the bare key where no built-in field has it
+const withCustomFields = (customFields: CustomFieldDefinition[]): Map<string, FieldDefinition> => {
+  const fields = new Map(FIELDS);
+  customFields.filter(d => d.entity === 'lead').forEach(d => {
+    const field: FieldDefinition = {
+      name: `custom.${d.key}`,
+      type: CUSTOM_FIELD_TYPES[d.type],
+      get: lead => {
+        const value = lead.customFields?.[d.key];
+        return d.type === 'multiSelect' ? (Array.isArray(value) ? value : []) : value as string | number | undefined;
+      },
+    };
+    fields.set(field.name.toLowerCase(), field);
+    if (!FIELDS.has(d.key.toLowerCase())) fields.set(d.key.toLowerCase(), field);
+  });
+  return fields;
+};
+
+export const LEAD_QUERY_FIELDS = FIELD_LIST.map(f => ({ name: f.name, type: f.type }));
+
+// ---- Tokenizer ----
+
+type TokenType = 'word' | 'string' | 'number' | 'date' | 'op' | '(' | ')' | '[' | ']' | ',' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: Value;
+  position: number;
+}
+
+class QueryError {
+  constructor(public message: string, public position: number) {}
+}
+
+const NUMBER_SUFFIX: Record<string, number> = { k: 1e3, m: 1e6 };
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if ('()[],'.includes(ch)) {
+      tokens.push({ type: ch as TokenType, text: ch, position: i });
+      i++;
+      continue;
+    }
+
+    const op = text.slice(i).match(/^(!=|>=|<=|==|=|>|<)/);
+    if (op) {
+      tokens.push({ type: 'op', text: op[1] === '==' ? '=' : op[1], position: i });
+      i += op[1].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < text.length && text[j] !== ch) {
+        if (text[j] === '\\' && j + 1 < text.length) j++;
+        value += text[j];
+        j++;
+      }
+      if (j >= text.length) throw new QueryError('Unclosed quote', i);
+      tokens.push({ type: 'string', text: text.slice(i, j + 1), value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    const date = text.slice(i).match(/^\d{4}-\d{2}-\d{2}(?![\w-])/);
+    if (date) {
+      tokens.push({ type: 'date', text: date[0], value: date[0], position: i });
+      i += date[0].length;
+      continue;
+    }
+
+    const number = text.slice(i).match(/^-?\d+(?:\.\d+)?([km])?(?![\w.])/i);
+    if (number) {
+      const suffix = number[1]?.toLowerCase();
+      const value = parseFloat(number[0]) * (suffix ? NUMBER_SUFFIX[suffix] : 1);
+      tokens.push({ type: 'number', text: number[0], value, position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = text.slice(i).match(/^[A-Za-z_][\w.]*/);
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new QueryError(`Unexpected character "${ch}"`, i);
+  }
+
+  tokens.push({ type: 'end', text: '', position: text.length });
+  return tokens;
+};
+
+// ---- Parser ----
+
+const UNIT_DAYS: Record<string, number> = { day: 1, days: 1, week: 7, weeks: 7, month: 30, months: 30 };
+
+const parse = (text: string, fields: Map<string, FieldDefinition>): LeadQueryNode | null => {
+  const tokens = tokenize(text);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isWord = (token: Token, ...words: string[]) => token.type === 'word' && words.includes(token.text.toLowerCase());
+  const expectWord = (...words: string[]) => {
+    const token = next();
+    if (!isWord(token, ...words)) throw new QueryError(`Expected "${words[0]}"`, token.position);
+    return token;
+  };
+
+  const parseDuration = (): number => {
+    const amount = next();
+    if (amount.type !== 'number' || (amount.value as number) < 0) throw new QueryError('Expected a number of days', amount.position);
+    const unit = next();
+    const factor = unit.type === 'word' ? UNIT_DAYS[unit.text.toLowerCase()] : undefined;
+    if (!factor) throw new QueryError('Expected days, weeks or months', unit.position);
+    return (amount.value as number) * factor;
+  };
+
+  const parseValue = (field: FieldDefinition): Value => {
+    const token = next();
+    if (token.type === 'string' || token.type === 'word' || token.type === 'date') return String(token.value);
+    if (token.type === 'number') return field.type === 'number' ? token.value as number : token.text;
+    throw new QueryError('Expected a value', token.position);
+  };
+
+  const parseCondition = (): LeadQueryNode => {
+    const start = peek();
+
+    if (isWord(start, 'no')) {
+      next();
+      expectWord('note', 'notes');
+      if (isWord(peek(), 'in', 'for')) next();
+      if (isWord(peek(), 'last')) next();
+      return { kind: 'noNote', days: parseDuration() };
+    }
+
+    if (start.type !== 'word') throw new QueryError('Expected a field name', start.position);
+    next();
+    const field = fields.get(start.text.toLowerCase());
+    if (!field) throw new QueryError(`Unknown field "${start.text}"`, start.position);
+
+    const operator = next();
+
+    if (isWord(operator, 'is')) {
+      const negate = isWord(peek(), 'not');
+      if (negate) next();
+      expectWord('empty');
+      return { kind: 'empty', field: field.name, negate };
+    }
+
+    if (isWord(operator, 'in')) {
+      const direction = peek();
+      if (isWord(direction, 'next', 'last')) {
+        if (field.type !== 'date' && field.type !== 'annual') {
+          throw new QueryError(`"${field.name}" is not a date`, direction.position);
+        }
+        next();
+        return { kind: 'within', field: field.name, direction: direction.text.toLowerCase() as 'next' | 'last', days: parseDuration() };
+      }
+
+      const open = next();
+      if (open.type !== '[') throw new QueryError('Expected "[" or "next" / "last"', open.position);
+      const values: Value[] = [];
+      while (peek().type !== ']') {
+        values.push(parseValue(field));
+        if (peek().type === ',') next();
+        else if (peek().type !== ']') throw new QueryError('Expected "," or "]"', peek().position);
+      }
+      next();
+      return { kind: 'in', field: field.name, values };
+    }
+
+    const op = operator.type === 'op' ? operator.text as CompareOp : isWord(operator, 'contains') ? 'contains' : null;
+    if (!op) throw new QueryError('Expected an operator such as =, !=, >, contains, in or is', operator.position);
+
+    const isOrdered = op === '>' || op === '>=' || op === '<' || op === '<=';
+    if (isOrdered && !['number', 'date', 'annual'].includes(field.type)) {
+      throw new QueryError(`"${op}" needs a number or date field`, operator.position);
+    }
+
+    const valueToken = peek();
+    const value = parseValue(field);
+    if (field.type === 'number' && op !== 'contains' && typeof value !== 'number') {
+      throw new QueryError(`"${field.name}" needs a number`, valueToken.position);
+    }
+    if ((field.type === 'date' || field.type === 'annual') && isOrdered && valueToken.type !== 'date') {
+      throw new QueryError('Dates are written as YYYY-MM-DD', valueToken.position);
+    }
+    return { kind: 'compare', field: field.name, op, value };
+  };
+
+  const parseUnary = (): LeadQueryNode => {
+    if (isWord(peek(), 'not')) {
+      next();
+      return { kind: 'not', child: parseUnary() };
+    }
+    if (peek().type === '(') {
+      next();
+      const node = parseOr();
+      const close = next();
+      if (close.type !== ')') throw new QueryError('Expected ")"', close.position);
+      return node;
+    }
+    return parseCondition();
+  };
+
+  const parseAnd = (): LeadQueryNode => {
+    const children = [parseUnary()];
+    while (isWord(peek(), 'and')) {
+      next();
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseOr = (): LeadQueryNode => {
+    const children = [parseAnd()];
+    while (isWord(peek(), 'or')) {
+      next();
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  if (peek().type === 'end') return null;
+  const node = parseOr();
+  if (peek().type !== 'end') throw new QueryError(`Unexpected "${peek().text}"`, peek().position);
+  return node;
+};
+
+// ---- Evaluation ----
+
+const DAY_MS = 86400000;
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+const normalizeEnum = (value: unknown) => normalize(value).replace(/\s+/g, '_');
+
+const localDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Days from today to the nearest yearly occurrence of a date, forwards or backwards
+const daysToOccurrence = (value: string, now: Date, direction: 'next' | 'last'): number => {
+  const [, month, day] = value.slice(0, 10).split('-').map(Number);
+  const today = localDay(now);
+  const candidate = new Date(today.getFullYear(), month - 1, day);
+  if (direction === 'next' && candidate < today) candidate.setFullYear(candidate.getFullYear() + 1);
+  if (direction === 'last' && candidate > today) candidate.setFullYear(candidate.getFullYear() - 1);
+  return Math.round(Math.abs(candidate.getTime() - today.getTime()) / DAY_MS);
+};
+
+const compareOrdered = (a: number | string, b: number | string, op: CompareOp): boolean => {
+  switch (op) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    default: return false;
+  }
+};
+
+const evaluate = (node: LeadQueryNode, lead: Lead, now: Date, fields: Map<string, FieldDefinition>, related: RelatedContact[]): boolean => {
+  switch (node.kind) {
+    case 'and': return node.children.every(child => evaluate(child, lead, now, fields, related));
+    case 'or': return node.children.some(child => evaluate(child, lead, now, fields, related));
+    case 'not': return !evaluate(node.child, lead, now, fields, related);
+    case 'noNote': {
+      const since = now.getTime() - node.days * DAY_MS;
+      return !personNotes(lead).some(n => new Date(n.createdAt).getTime() >= since);
+    }
+  }
+
+  const field = fields.get(node.field.toLowerCase())!;
+  const raw = field.get(lead, related);
+
+  if (node.kind === 'empty') {
+    const isEmpty = Array.isArray(raw) ? raw.length === 0 : raw === undefined || raw === null || String(raw).trim() === '';
+    return node.negate ? !isEmpty : isEmpty;
+  }
+
+  if (node.kind === 'within') {
+    if (!raw) return false;
+    const value = String(raw);
+    if (field.type === 'annual') return daysToOccurrence(value, now, node.direction) <= node.days;
+    const diff = new Date(value).getTime() - now.getTime();
+    return node.direction === 'next' ? diff >= 0 && diff <= node.days * DAY_MS : diff <= 0 && -diff <= node.days * DAY_MS;
+  }
+
+  if (node.kind === 'in') {
+    return node.values.some(value => evaluate({ kind: 'compare', field: node.field, op: '=', value }, lead, now, fields, related));
+  }
+
+  const { op, value } = node;
+
+  switch (field.type) {
+    case 'list': {
+      const items = (raw as string[]).map(normalize);
+      const target = normalize(value);
+      if (op === 'contains') return items.some(item => item.includes(target));
+      const has = items.includes(target);
+      return op === '!=' ? !has : has;
+    }
+    case 'number': {
+      if (raw === undefined || raw === null) return op === '!=';
+      const n = Number(raw);
+      if (op === 'contains') return String(n).includes(String(value));
+      if (op === '=') return n === value;
+      if (op === '!=') return n !== value;
+      return compareOrdered(n, value as number, op);
+    }
+    case 'date':
+    case 'annual': {
+      if (!raw) return op === '!=';
+      const day = String(raw).slice(0, 10);
+      const target = String(value).slice(0, 10);
+      if (op === 'contains') return String(raw).includes(String(value));
+      if (op === '=') return day === target;
+      if (op === '!=') return day !== target;
+      return compareOrdered(day, target, op);
+    }
+    case 'enum': {
+      const equal = normalizeEnum(raw) === normalizeEnum(value);
+      if (op === 'contains') return normalize(raw).includes(normalize(value));
+      return op === '!=' ? !equal : equal;
+    }
+    default: {
+      const text = normalize(raw);
+      if (op === 'contains') return text.includes(normalize(value));
+      return op === '!=' ? text !== normalize(value) : text === normalize(value);
+    }
+  }
+};
+
+/**
+ * Parses a query once and returns a reusable matcher. An empty query matches every lead.
+ * Pass the brokerage's custom field definitions to allow filtering on them.
+ */
+export const compileLeadQuery = (text: string, customFields: CustomFieldDefinition[] = []): LeadQueryResult => {
+  const fields = customFields.length > 0 ? withCustomFields(customFields) : FIELDS;
+  try {
+    const node = parse(text, fields);
+    return {
+      ok: true,
+      node,
+      matches: (lead, now = new Date(), related = []) => node === null || evaluate(node, lead, now, fields, related),
+    };
+  } catch (error) {
+    if (error instanceof QueryError) {
+      return { ok: false, node: null, matches: () => false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+};
+
+const quote = (value: string) => /^[A-Za-z_][\w.]*$/.test(value) && !/^(and|or|not|in|is|no|contains)$/i.test(value)
+  ? value
+  : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Writes the list's quick filters as a query, so the current view can be saved as a smart list.
+ */
+export const buildLeadQuery = ({ status, sources, tags, custom, search, query }: {
+  status?: string;
+  sources?: string[];
+  tags?: string[];
+  // Chosen options per custom field key
+  custom?: Record<string, string[]>;
+  search?: string;
+  query?: string;
+}): string => {
+  const parts: string[] = [];
+  if (status && status !== 'ALL') parts.push(`status = ${quote(status)}`);
+  if (sources && sources.length > 0) parts.push(`source in [${sources.map(quote).join(', ')}]`);
+  if (tags && tags.length > 0) parts.push(`tag in [${tags.map(quote).join(', ')}]`);
+  Object.entries(custom || {}).forEach(([key, options]) => {
+    if (options.length > 0) parts.push(`custom.${key} in [${options.map(quote).join(', ')}]`);
+  });
+  if (search && search.trim()) {
+    const term = quote(search.trim());
+    parts.push(`(name contains ${term} or email contains ${term} or address contains ${term} or householdName contains ${term})`);
+  }
+  if (query && query.trim()) parts.push(parts.length > 0 ? `(${query.trim()})` : query.trim());
+  return parts.join(' and ');
+};
@@ -0,0 +1,2 @@
+// Shared with the edge functions, which can only bundle code under supabase/functions
+export * from '../supabase/functions/_shared/leadScoring.ts';
@@ -0,0 +1,150 @@
+import { GeoPoint } from '../types.ts';
+
+// Records shown on the map mode of the lead, pipeline and open house views, and the
+// Web Mercator math behind it: the same projection and 256px tile grid as
+// OpenStreetMap, so pins line up with the tiles drawn underneath them.
+
+export interface MapRecord {
+  id: string;
+  title: string;
+  subtitle?: string;
+  // Geocoded on the fly when the record has no stored location
+  address?: string;
+  location?: GeoPoint | null;
+  // The record's value for each coloring, keyed by coloring id
+  groups: Record<string, string>;
+}
+
+export interface MapColoring {
+  id: string;
+  label: string;
+  legend: { value: string; label: string; color: string }[];
+}
+
+export const UNGROUPED_COLOR = '#94a3b8';
+
+export const colorFor = (record: MapRecord, coloring?: MapColoring): string =>
+  coloring?.legend.find(entry => entry.value === record.groups[coloring.id])?.color || UNGROUPED_COLOR;
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 18;
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+// Mercator is undefined at the poles; tiles stop at this latitude
+const MAX_LATITUDE = 85.0511;
+
+const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom;
+
+/**
+ * Position of a point on the world map at `zoom`, in pixels from the top-left corner.
+ */
+export const project = (point: GeoPoint, zoom: number): PixelPoint => {
+  const size = worldSize(zoom);
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.lat)) * Math.PI / 180;
+  return {
+    x: (point.lng + 180) / 360 * size,
+    y: (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2 * size,
+  };
+};
+
+/**
+ * Inverse of `project`.
+ */
+export const unproject = (pixel: PixelPoint, zoom: number): GeoPoint => {
+  const size = worldSize(zoom);
+  return {
+    lat: Math.atan(Math.sinh(Math.PI * (1 - 2 * pixel.y / size))) * 180 / Math.PI,
+    lng: pixel.x / size * 360 - 180,
+  };
+};
+
+/**
+ * The center and highest whole zoom at which every point fits in a `width` x `height`
+ * viewport with `padding` pixels to spare on each side. Null for no points.
+ */
+export const fitBounds = (
+  points: GeoPoint[],
+  width: number,
+  height: number,
+  padding = 48
+): { center: GeoPoint; zoom: number } | null => {
+  if (points.length === 0) return null;
+  const world = points.map(p => project(p, 0));
+  const minX = Math.min(...world.map(p => p.x));
+  const maxX = Math.max(...world.map(p => p.x));
+  const minY = Math.min(...world.map(p => p.y));
+  const maxY = Math.max(...world.map(p => p.y));
+
+  let zoom = MAX_ZOOM;
+  const spanX = maxX - minX;
+  const spanY = maxY - minY;
+  if (spanX > 0 || spanY > 0) {
+    const scale = Math.min(
+      spanX > 0 ? Math.max(1, width - padding * 2) / spanX : Infinity,
+      spanY > 0 ? Math.max(1, height - padding * 2) / spanY : Infinity
+    );
+    zoom = Math.floor(Math.log2(scale));
+  } else {
+    // A single place: close enough to see the neighborhood
+    zoom = 12;
+  }
+
+  return {
+    center: unproject({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, 0),
+    zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom)),
+  };
+};
+
+export interface Cluster<T> {
+  // Mean position of the members, in world pixels at the zoom it was built for
+  center: PixelPoint;
+  items: T[];
+}
+
+/**
+ * Groups points that would overlap at `zoom` by bucketing them into `cellSize`
+ * pixel squares. Cheap enough to rerun on every zoom for a few thousand records.
+ */
+export const clusterPoints = <T>(
+  items: T[],
+  locate: (item: T) => GeoPoint,
+  zoom: number,
+  cellSize = 56
+): Cluster<T>[] => {
+  const cells = new Map<string, { sumX: number; sumY: number; items: T[] }>();
+  items.forEach(item => {
+    const pixel = project(locate(item), zoom);
+    const key = `${Math.floor(pixel.x / cellSize)}:${Math.floor(pixel.y / cellSize)}`;
+    const cell = cells.get(key) || { sumX: 0, sumY: 0, items: [] };
+    cell.sumX += pixel.x;
+    cell.sumY += pixel.y;
+    cell.items.push(item);
+    cells.set(key, cell);
+  });
+
+  return Array.from(cells.values()).map(cell => ({
+    center: { x: cell.sumX / cell.items.length, y: cell.sumY / cell.items.length },
+    items: cell.items,
+  }));
+};
+
+/**
+ * Whether a point lies inside a closed polygon (ray casting). Both must be in the
+ * same pixel space; an edge shared by the point counts as inside for one side only.
+ */
+export const isInsidePolygon = (point: PixelPoint, polygon: PixelPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
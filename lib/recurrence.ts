@@ -0,0 +1,164 @@
+// Minimal RFC 5545 RRULE support for task follow-up cadences.
+// Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (weekly only),
+// BYMONTHDAY (a single day, monthly and yearly only), COUNT, UNTIL.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: number[]; // 0 = Sunday
+  byMonthDay?: number; // 1-31
+  count?: number;
+  until?: Date;
+}
+
+export const RECURRENCE_PRESETS = [
+  { label: 'Does not repeat', value: '' },
+  { label: 'Daily', value: 'FREQ=DAILY' },
+  { label: 'Weekly', value: 'FREQ=WEEKLY' },
+  { label: 'Monthly', value: 'FREQ=MONTHLY' },
+];
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const parseUntil = (value: string): Date | undefined => {
+  // Accepts 20260131, 20260131T170000Z or an ISO date
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  const date = compact
+    ? new Date(Date.UTC(+compact[1], +compact[2] - 1, +compact[3], +(compact[4] || 23), +(compact[5] || 59), +(compact[6] || 59)))
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+export const parseRRule = (rule: string): RecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  rule.trim().replace(/^RRULE:/i, '').split(';').forEach(part => {
+    const [key, value] = part.split('=');
+    if (key && value) parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  });
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1;
+  if (!interval || interval < 1) return null;
+
+  const parsed: RecurrenceRule = { freq, interval };
+
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(',').map(d => WEEKDAYS.indexOf(d.slice(-2)));
+    if (days.some(d => d < 0)) return null;
+    parsed.byDay = days.sort();
+  }
+  if (parts.BYMONTHDAY) {
+    const day = parseInt(parts.BYMONTHDAY, 10);
+    if (!/^\d+$/.test(parts.BYMONTHDAY) || day < 1 || day > 31) return null;
+    parsed.byMonthDay = day;
+  }
+  if (parts.COUNT) {
+    const count = parseInt(parts.COUNT, 10);
+    if (!count || count < 1) return null;
+    parsed.count = count;
+  }
+  if (parts.UNTIL) {
+    const until = parseUntil(parts.UNTIL);
+    if (!until) return null;
+    parsed.until = until;
+  }
+
+  return parsed;
+};
+
+export const isValidRRule = (rule: string): boolean => parseRRule(rule) !== null;
+
+// `day` is the series' own day of month, not the previous occurrence's, so a task on the
+// 31st clamps to the 28th in February and goes back to the 31st in March
+const addMonths = (date: Date, months: number, day: number): Date => {
+  const next = new Date(date);
+  next.setDate(1);
+  next.setMonth(next.getMonth() + months);
+  // Clamp the 29th-31st to the last day of shorter months
+  const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(Math.min(day, lastDay));
+  return next;
+};
+
+const nextWeeklyByDay = (date: Date, interval: number, byDay: number[]): Date => {
+  const laterThisWeek = byDay.find(d => d > date.getDay());
+  const next = new Date(date);
+  if (laterThisWeek !== undefined) {
+    next.setDate(date.getDate() + (laterThisWeek - date.getDay()));
+  } else {
+    // Jump to the first listed weekday of the next active week
+    next.setDate(date.getDate() - date.getDay() + interval * 7 + byDay[0]);
+  }
+  return next;
+};
+
+/**
+ * Returns the due date following `from`, or null when the series has ended.
+ * Local wall-clock time is preserved across DST changes.
+ */
+export const getNextOccurrence = (from: string, rule: string): string | null => {
+  const parsed = parseRRule(rule);
+  if (!parsed) return null;
+  if (parsed.count !== undefined && parsed.count <= 1) return null;
+
+  const date = new Date(from);
+  let next: Date;
+
+  switch (parsed.freq) {
+    case 'DAILY':
+      next = new Date(date);
+      next.setDate(date.getDate() + parsed.interval);
+      break;
+    case 'WEEKLY':
+      if (parsed.byDay && parsed.byDay.length > 0) {
+        next = nextWeeklyByDay(date, parsed.interval, parsed.byDay);
+      } else {
+        next = new Date(date);
+        next.setDate(date.getDate() + parsed.interval * 7);
+      }
+      break;
+    case 'MONTHLY':
+      next = addMonths(date, parsed.interval, parsed.byMonthDay ?? date.getDate());
+      break;
+    case 'YEARLY':
+      next = addMonths(date, parsed.interval * 12, parsed.byMonthDay ?? date.getDate());
+      break;
+  }
+
+  if (parsed.until && next > parsed.until) return null;
+  return next.toISOString();
+};
+
+/**
+ * The rule carried by the next occurrence. COUNT counts the occurrences left
+ * in the series, so it is decremented each time a task is rolled forward.
+ * Monthly and yearly rules are pinned to the day of month of `from` (the series
+ * start on the first roll) so clamped months don't shift later occurrences.
+ */
+export const advanceRRule = (rule: string, from: string): string => {
+  const advanced = rule.replace(/COUNT=(\d+)/i, (_, count) => `COUNT=${Math.max(parseInt(count, 10) - 1, 1)}`);
+  const parsed = parseRRule(rule);
+  if (!parsed || parsed.byMonthDay || (parsed.freq !== 'MONTHLY' && parsed.freq !== 'YEARLY')) return advanced;
+  return `${advanced};BYMONTHDAY=${new Date(from).getDate()}`;
+};
+
+export const describeRRule = (rule?: string): string => {
+  if (!rule) return '';
+  const parsed = parseRRule(rule);
+  if (!parsed) return 'Custom';
+
+  const units: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+  const labels: Record<RecurrenceFrequency, string> = { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' };
+
+  let text = parsed.interval === 1 ? labels[parsed.freq] : `Every ${parsed.interval} ${units[parsed.freq]}s`;
+  if (parsed.byDay) text += ` on ${parsed.byDay.map(d => WEEKDAYS[d]).join(', ')}`;
+  if (parsed.byMonthDay) text += ` on day ${parsed.byMonthDay}`;
+  if (parsed.count) text += `, ${parsed.count} left`;
+  if (parsed.until) text += ` until ${parsed.until.toLocaleDateString()}`;
+  return text;
+};
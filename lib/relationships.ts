@@ -0,0 +1,123 @@
+// Links between lead records. A relationship reads "the related lead is the lead's <type>";
+// most kinds read the same from either side, while REFERRED_BY and ATTORNEY show their
+// inverse ("Referred", "Client") on the related lead.
+
+import { Lead, LeadRelationship, LeadRelationshipType } from '../types.ts';
+
+export const RELATIONSHIP_TYPES: {
+  type: LeadRelationshipType;
+  label: string;
+  inverseLabel: string;
+  icon: string;
+  household: boolean;
+}[] = [
+  { type: 'SPOUSE', label: 'Spouse', inverseLabel: 'Spouse', icon: 'fa-heart', household: true },
+  { type: 'PARTNER', label: 'Partner', inverseLabel: 'Partner', icon: 'fa-heart', household: true },
+  { type: 'HOUSEHOLD', label: 'Household Member', inverseLabel: 'Household Member', icon: 'fa-house-user', household: true },
+  { type: 'SIBLING', label: 'Sibling', inverseLabel: 'Sibling', icon: 'fa-people-arrows', household: false },
+  { type: 'FRIEND', label: 'Friend', inverseLabel: 'Friend', icon: 'fa-user-group', household: false },
+  { type: 'REFERRED_BY', label: 'Referred By', inverseLabel: 'Referred', icon: 'fa-handshake', household: false },
+  { type: 'ATTORNEY', label: 'Attorney', inverseLabel: 'Client', icon: 'fa-scale-balanced', household: false },
+  { type: 'OTHER', label: 'Other', inverseLabel: 'Other', icon: 'fa-link', household: false },
+];
+
+// One side of a relationship as seen from a lead
+export interface RelatedContact {
+  relationship: LeadRelationship;
+  lead: Lead;
+  label: string;
+  icon: string;
+  household: boolean;
+}
+
+// A link to make from a saved lead, to an existing lead or to a new one saved first
+export interface RelatedLeadDraft {
+  lead: Lead;
+  related: Lead;
+  isNew: boolean;
+  type: LeadRelationshipType;
+}
+
+const typeInfo = (type: LeadRelationshipType) =>
+  RELATIONSHIP_TYPES.find(t => t.type === type) || RELATIONSHIP_TYPES[RELATIONSHIP_TYPES.length - 1];
+
+/**
+ * Related contacts for every lead, both directions, household members first. Links to
+ * deleted leads are left out.
+ */
+export const groupRelatedContacts = (relationships: LeadRelationship[], leads: Lead[]): Map<string, RelatedContact[]> => {
+  const byId = new Map(leads.filter(l => !l.isDeleted).map(l => [l.id, l]));
+  const grouped = new Map<string, RelatedContact[]>();
+  const add = (leadId: string, contact: RelatedContact) => {
+    const list = grouped.get(leadId);
+    if (list) list.push(contact);
+    else grouped.set(leadId, [contact]);
+  };
+
+  relationships.forEach(relationship => {
+    const lead = byId.get(relationship.leadId);
+    const related = byId.get(relationship.relatedLeadId);
+    if (!lead || !related) return;
+    const info = typeInfo(relationship.type);
+    add(lead.id, { relationship, lead: related, label: info.label, icon: info.icon, household: info.household });
+    add(related.id, { relationship, lead, label: info.inverseLabel, icon: info.icon, household: info.household });
+  });
+
+  const rank = (contact: RelatedContact) => RELATIONSHIP_TYPES.findIndex(t => t.type === contact.relationship.type);
+  grouped.forEach(list => list.sort((a, b) =>
+    rank(a) - rank(b) || a.relationship.createdAt.localeCompare(b.relationship.createdAt)
+  ));
+  return grouped;
+};
+
+export const householdOf = (related: RelatedContact[] = []) => related.filter(r => r.household);
+
+/**
+ * A new lead for someone entered alongside `lead`. They share its agent, stage, source,
+ * tags and address, but carry no budget so pipeline value is not counted twice.
+ */
+export const newRelatedLead = (
+  lead: Lead,
+  person: Pick<Lead, 'firstName' | 'lastName' | 'email' | 'phone'> & { dob?: string }
+): Lead => {
+  const now = new Date().toISOString();
+  return {
+    id: `lead_${Date.now()}`,
+    brokerageId: lead.brokerageId,
+    assignedAgentId: lead.assignedAgentId,
+    firstName: person.firstName.trim(),
+    lastName: person.lastName.trim() || lead.lastName,
+    email: person.email.trim(),
+    phone: person.phone,
+    dob: person.dob || undefined,
+    status: lead.status,
+    temperature: lead.temperature,
+    source: lead.source,
+    tags: [...(lead.tags || [])],
+    propertyType: lead.propertyType,
+    propertyAddress: lead.propertyAddress,
+    budget: 0,
+    estimatedDealValue: 0,
+    notes: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+type Link = Pick<LeadRelationship, 'leadId' | 'relatedLeadId' | 'type'>;
+
+const sameLink = (a: Link, b: Link) => a.type === b.type && (
+  (a.leadId === b.leadId && a.relatedLeadId === b.relatedLeadId) ||
+  (a.leadId === b.relatedLeadId && a.relatedLeadId === b.leadId)
+);
+
+/**
+ * Drops self-links and links the pair already has (of the same kind, either direction),
+ * including repeats within `links`.
+ */
+export const newLinksOnly = <T extends Link>(links: T[], existing: LeadRelationship[]): T[] =>
+  links.filter((link, i) =>
+    link.leadId !== link.relatedLeadId &&
+    !existing.some(r => sameLink(r, link)) &&
+    !links.slice(0, i).some(earlier => sameLink(earlier, link))
+  );
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+
+export interface Route {
+  view: string;
+  params: Record<string, string>;
+}
+
+interface RouteDefinition {
+  pattern: string;
+  view: string;
+}
+
+// Most sidebar views map 1:1 to `/<view-id>`; only views with params need an entry here.
+// More specific patterns must come first.
+const ROUTES: RouteDefinition[] = [
+  { pattern: '/leads/:id', view: 'lead-detail' },
+  { pattern: '/open-house/:id/sign-in', view: 'open-house-sign-in' },
+  // Public, no session required
+  { pattern: '/check-in/:token', view: 'open-house-check-in' },
+  { pattern: '/:view', view: ':view' },
+];
+
+const DEFAULT_VIEW = 'dashboard';
+
+const matchPattern = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+export const matchRoute = (pathname: string): Route => {
+  for (const route of ROUTES) {
+    const params = matchPattern(route.pattern, pathname);
+    if (!params) continue;
+    if (route.view === ':view') {
+      const { view, ...rest } = params;
+      return { view, params: rest };
+    }
+    return { view: route.view, params };
+  }
+  return { view: DEFAULT_VIEW, params: {} };
+};
+
+export const buildPath = (view: string, params: Record<string, string> = {}): string => {
+  const route = ROUTES.find(r => r.view === view) || ROUTES[ROUTES.length - 1];
+  return route.pattern
+    .split('/')
+    .map(part => {
+      if (part === ':view') return encodeURIComponent(view);
+      if (part.startsWith(':')) return encodeURIComponent(params[part.slice(1)] || '');
+      return part;
+    })
+    .join('/');
+};
+
+export const navigate = (path: string, options: { replace?: boolean } = {}) => {
+  if (path === window.location.pathname) return;
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  // pushState does not fire popstate, so notify listeners ourselves
+  window.dispatchEvent(new PopStateEvent('popstate'));
+};
+
+/**
+ * Subscribes to the browser location so back/forward buttons re-render the app.
+ */
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState<Route>(() => matchRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(matchRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return route;
+};
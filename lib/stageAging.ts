@@ -0,0 +1,89 @@
+// Time-in-stage helpers. A lead's current stint starts at `statusChangedAt` (stamped by
+// the database); earlier stints come from the recorded status history. Leads that sit in
+// an early stage past its limit are flagged as aging, then stale.
+
+import { Lead, LeadStatus, LeadStatusChange } from '../types.ts';
+
+export type StageAgingState = 'FRESH' | 'AGING' | 'STALE';
+
+export interface StageAging {
+  state: StageAgingState;
+  timeInStageMs: number;
+}
+
+export interface StageStint {
+  status: LeadStatus;
+  enteredAt: string;
+  leftAt?: string;
+  durationMs: number;
+}
+
+const DAY_MS = 86400000;
+
+// Days before a lead in the stage counts as aging, and as stale
+export const STAGE_AGING_LIMITS: Partial<Record<LeadStatus, { agingDays: number; staleDays: number }>> = {
+  [LeadStatus.NEW]: { agingDays: 2, staleDays: 5 },
+  [LeadStatus.CONTACTED]: { agingDays: 7, staleDays: 14 },
+};
+
+type StageLead = Pick<Lead, 'status' | 'createdAt' | 'statusChangedAt'>;
+
+export const getStageEnteredAt = (lead: StageLead): string => lead.statusChangedAt || lead.createdAt;
+
+export const getTimeInStage = (lead: StageLead, now: Date = new Date()): number =>
+  Math.max(0, now.getTime() - new Date(getStageEnteredAt(lead)).getTime());
+
+/**
+ * Aging state for stages with a limit, or null for stages that are not tracked.
+ */
+export const getStageAging = (lead: StageLead, now: Date = new Date()): StageAging | null => {
+  const limits = STAGE_AGING_LIMITS[lead.status];
+  if (!limits) return null;
+
+  const timeInStageMs = getTimeInStage(lead, now);
+  const state = timeInStageMs >= limits.staleDays * DAY_MS
+    ? 'STALE'
+    : timeInStageMs >= limits.agingDays * DAY_MS ? 'AGING' : 'FRESH';
+  return { state, timeInStageMs };
+};
+
+/**
+ * Splits a lead's status history into stints, oldest first. The last stint is the
+ * current one and runs until `now`. Leads with no history get a single stint.
+ */
+export const getStageStints = (lead: StageLead, history: LeadStatusChange[], now: Date = new Date()): StageStint[] => {
+  const changes = history
+    .filter(change => change.field === 'status')
+    .sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+
+  if (changes.length === 0) {
+    return [{ status: lead.status, enteredAt: getStageEnteredAt(lead), durationMs: getTimeInStage(lead, now) }];
+  }
+
+  return changes.map((change, i) => {
+    const leftAt = changes[i + 1]?.changedAt;
+    const end = leftAt ? new Date(leftAt).getTime() : now.getTime();
+    return {
+      status: change.toValue as LeadStatus,
+      enteredAt: change.changedAt,
+      leftAt,
+      durationMs: Math.max(0, end - new Date(change.changedAt).getTime()),
+    };
+  });
+};
+
+// Total time spent in each stage across all stints, including repeat visits
+export const getTimeByStage = (stints: StageStint[]): Partial<Record<LeadStatus, number>> =>
+  stints.reduce<Partial<Record<LeadStatus, number>>>((totals, stint) => {
+    totals[stint.status] = (totals[stint.status] || 0) + stint.durationMs;
+    return totals;
+  }, {});
+
+/**
+ * Coarse duration such as `45m`, `6h` or `12d`.
+ */
+export const formatStageDuration = (ms: number): string => {
+  if (ms >= DAY_MS) return `${Math.floor(ms / DAY_MS)}d`;
+  if (ms >= 3600000) return `${Math.floor(ms / 3600000)}h`;
+  return `${Math.max(1, Math.floor(ms / 60000))}m`;
+};
@@ -0,0 +1,335 @@
+// vCard 3.0 / 4.0 (RFC 2426 / RFC 6350) interchange for contacts, so agents can move
+// records between their phones and the CRM.
+//
+// Spouses (a lead's first linked household member) travel as related contacts: 4.0 links
+// the two cards with RELATED;TYPE=spouse in both directions, 3.0 uses the Apple
+// X-ABRELATEDNAMES convention. Wedding anniversaries use ANNIVERSARY (4.0) or X-ANNIVERSARY (3.0); home
+// anniversaries are a labelled X-ABDATE in both.
+
+import { ImportField, Lead, LeadRelationshipType } from '../types.ts';
+import { RelatedContact, householdOf } from './relationships.ts';
+import { toTelUri } from './phone.ts';
+
+export type VCardVersion = '3.0' | '4.0';
+
+export const VCARD_MIME_TYPE = 'text/vcard;charset=utf-8';
+
+interface VCardProperty {
+  group?: string;
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/\r?\n/g, '\\n')
+  .replace(/,/g, '\\,')
+  .replace(/;/g, '\\;');
+
+const unescapeText = (value: string) => value.replace(/\\([\\,;nN])/g, (_, ch) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+// Splits on unescaped separators; components keep their escapes until unescaped
+const splitEscaped = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+// Lines are folded at 75 octets; continuation lines start with a single space
+const foldLine = (line: string): string => {
+  const chars = Array.from(line);
+  if (chars.length <= 75) return line;
+  const pieces: string[] = [];
+  for (let i = 0; i < chars.length; i += i === 0 ? 75 : 74) {
+    pieces.push(chars.slice(i, i + (i === 0 ? 75 : 74)).join(''));
+  }
+  return pieces.join('\r\n ');
+};
+
+const compactDate = (value: string | undefined, version: VCardVersion) => {
+  if (!value) return undefined;
+  const day = value.slice(0, 10);
+  return version === '4.0' ? day.replace(/-/g, '') : day;
+};
+
+/**
+ * Reads vCard date values: 19800304, 1980-03-04 and timestamps. Dates without a year
+ * (--0304) cannot be stored on a lead and come back empty.
+ */
+export const parseVCardDate = (value: string): string => {
+  const match = value.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+};
+
+const newUid = () => typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+
+const buildCard = (version: VCardVersion, lines: (string | false | undefined)[]): string =>
+  ['BEGIN:VCARD', `VERSION:${version}`, ...lines.filter((line): line is string => !!line), 'END:VCARD']
+    .map(foldLine)
+    .join('\r\n');
+
+// RFC 6350 has no "partner"; sweetheart is the closest registered type
+const RELATED_TYPES: Record<LeadRelationshipType, string> = {
+  SPOUSE: 'spouse',
+  PARTNER: 'sweetheart',
+  HOUSEHOLD: 'kin',
+  SIBLING: 'sibling',
+  FRIEND: 'friend',
+  REFERRED_BY: 'contact',
+  ATTORNEY: 'contact',
+  OTHER: 'contact',
+};
+
+/**
+ * Serializes leads as a .vcf file. Deleted leads are skipped. Pass each lead's related
+ * contacts to carry spouses along; in 4.0 a spouse who is not exported gets a card too.
+ */
+export const leadsToVCard = (
+  leads: Lead[],
+  version: VCardVersion = '3.0',
+  relatedByLead: Map<string, RelatedContact[]> = new Map()
+): string => {
+  const rev = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const isV4 = version === '4.0';
+  const exported = leads.filter(l => !l.isDeleted);
+  const uids = new Map(exported.map(l => [l.id, `urn:uuid:${newUid()}`]));
+  const cards: string[] = [];
+
+  const extraCard = (spouse: Lead, relatedType: string, partnerUid: string) => buildCard(version, [
+    'PRODID:-//Agent Desk 360//CRM//EN',
+    `UID:${uids.get(spouse.id)}`,
+    'KIND:individual',
+    `FN:${escapeText(`${spouse.firstName} ${spouse.lastName}`.trim())}`,
+    `N:${escapeText(spouse.lastName)};${escapeText(spouse.firstName)};;;`,
+    spouse.email && `EMAIL;TYPE=home:${spouse.email}`,
+    spouse.phone && `TEL;VALUE=uri;TYPE=cell:${toTelUri(spouse.phone)}`,
+    spouse.dob && `BDAY:${compactDate(spouse.dob, version)}`,
+    `RELATED;TYPE=${relatedType}:${partnerUid}`,
+    `REV:${rev.replace(/[-:]/g, '')}`
+  ]);
+
+  exported.forEach(lead => {
+    const uid = uids.get(lead.id)!;
+    const [household] = householdOf(relatedByLead.get(lead.id));
+    const spouse = household?.lead;
+    const spouseName = spouse ? `${spouse.firstName} ${spouse.lastName}`.trim() : '';
+    const relatedType = household ? RELATED_TYPES[household.relationship.type] : '';
+    const isSpouse = relatedType === 'spouse';
+
+    // A spouse outside the export still gets a card in 4.0, written once
+    const needsExtraCard = isV4 && !!spouse && !uids.has(spouse.id);
+    if (needsExtraCard) uids.set(spouse!.id, `urn:uuid:${newUid()}`);
+
+    cards.push(buildCard(version, [
+      'PRODID:-//Agent Desk 360//CRM//EN',
+      isV4 ? `UID:${uid}` : `UID:${uid.replace('urn:uuid:', '')}`,
+      `FN:${escapeText(`${lead.firstName} ${lead.lastName}`.trim())}`,
+      `N:${escapeText(lead.lastName)};${escapeText(lead.firstName)};;;`,
+      lead.email && (isV4 ? `EMAIL;TYPE=home;PREF=1:${lead.email}` : `EMAIL;TYPE=INTERNET,HOME,pref:${lead.email}`),
+      lead.phone && (isV4 ? `TEL;VALUE=uri;TYPE=cell;PREF=1:${toTelUri(lead.phone)}` : `TEL;TYPE=CELL,pref:${lead.phone}`),
+      lead.propertyAddress && `ADR;TYPE=${isV4 ? 'home' : 'HOME'}:;;${escapeText(lead.propertyAddress)};;;;`,
+      lead.dob && `BDAY:${compactDate(lead.dob, version)}`,
+      lead.weddingAnniversary && (isV4 ? `ANNIVERSARY:${compactDate(lead.weddingAnniversary, version)}` : `X-ANNIVERSARY:${lead.weddingAnniversary.slice(0, 10)}`),
+      lead.homeAnniversary && `item1.X-ABDATE:${lead.homeAnniversary.slice(0, 10)}`,
+      lead.homeAnniversary && 'item1.X-ABLabel:Home Anniversary',
+      spouse && isV4 && `RELATED;TYPE=${relatedType}:${uids.get(spouse.id)}`,
+      spouse && !isV4 && `item2.X-ABRELATEDNAMES:${escapeText(spouseName)}`,
+      spouse && !isV4 && `item2.X-ABLabel:${isSpouse ? '_$!<Spouse>!$_' : household!.label}`,
+      spouse && !isV4 && isSpouse && `X-SPOUSE:${escapeText(spouseName)}`,
+      // 3.0 has no way to link a second card, so the spouse's details ride along
+      spouse && !isV4 && spouse.email && `X-SPOUSE-EMAIL:${spouse.email}`,
+      spouse && !isV4 && spouse.phone && `X-SPOUSE-TEL:${spouse.phone}`,
+      lead.tags.length > 0 && `CATEGORIES:${lead.tags.map(escapeText).join(',')}`,
+      lead.familyNotes && `NOTE:${escapeText(lead.familyNotes)}`,
+      `REV:${isV4 ? rev.replace(/[-:]/g, '') : rev}`
+    ]));
+
+    if (needsExtraCard) cards.push(extraCard(spouse!, relatedType, uid));
+  });
+
+  return cards.join('\r\n') + '\r\n';
+};
+
+const parseProperty = (line: string): VCardProperty | null => {
+  // The value starts after the first colon that is not inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [nameWithGroup, ...rawParams] = line.slice(0, colon).split(';');
+  const dot = nameWithGroup.lastIndexOf('.');
+  const params: Record<string, string[]> = {};
+  rawParams.forEach(param => {
+    const [key, rawValue] = param.includes('=') ? param.split(/=(.*)/s) : ['TYPE', param];
+    const values = rawValue.replace(/^"|"$/g, '').split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+    params[key.toUpperCase()] = [...(params[key.toUpperCase()] || []), ...values];
+  });
+
+  return {
+    group: dot >= 0 ? nameWithGroup.slice(0, dot).toLowerCase() : undefined,
+    name: (dot >= 0 ? nameWithGroup.slice(dot + 1) : nameWithGroup).toUpperCase(),
+    params,
+    value: line.slice(colon + 1)
+  };
+};
+
+const isPreferred = (prop: VCardProperty) =>
+  (prop.params.TYPE || []).includes('pref') || (prop.params.PREF || []).length > 0;
+
+// Preferred entries first, then the listed types in order
+const pickValue = (props: VCardProperty[], name: string, types: string[] = []): string => {
+  const candidates = props.filter(p => p.name === name);
+  const rank = (p: VCardProperty) => {
+    const typeRank = types.findIndex(t => (p.params.TYPE || []).includes(t));
+    return (isPreferred(p) ? 0 : 100) + (typeRank < 0 ? types.length : typeRank);
+  };
+  const best = [...candidates].sort((a, b) => rank(a) - rank(b))[0];
+  return best ? unescapeText(best.value).replace(/^(tel|mailto):/i, '').trim() : '';
+};
+
+const labelFor = (props: VCardProperty[], group?: string) =>
+  group ? unescapeText(props.find(p => p.group === group && p.name === 'X-ABLABEL')?.value || '').toLowerCase() : '';
+
+const splitName = (full: string): [string, string] => {
+  const [first, ...rest] = full.trim().split(/\s+/);
+  return [first || '', rest.join(' ')];
+};
+
+interface ParsedCard {
+  uid: string;
+  props: VCardProperty[];
+}
+
+const readCards = (text: string): ParsedCard[] => {
+  const unfolded = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n[ \t]/g, '');
+  const cards: ParsedCard[] = [];
+  let current: VCardProperty[] | null = null;
+
+  unfolded.split('\n').forEach(line => {
+    if (!line.trim()) return;
+    const prop = parseProperty(line);
+    if (!prop) return;
+    if (prop.name === 'BEGIN' && prop.value.toUpperCase() === 'VCARD') {
+      current = [];
+    } else if (prop.name === 'END' && prop.value.toUpperCase() === 'VCARD') {
+      if (current) {
+        const uid = current.find(p => p.name === 'UID')?.value.trim() || '';
+        cards.push({ uid: uid.replace(/^urn:uuid:/i, ''), props: current });
+      }
+      current = null;
+    } else if (current) {
+      current.push(prop);
+    }
+  });
+
+  return cards;
+};
+
+const SPOUSE_TYPES = ['spouse', 'sweetheart', 'partner'];
+
+/**
+ * Parses a .vcf file into import records keyed by import field. A card that another card
+ * in the file names as its spouse (RELATED with a UID) is folded into that card's spouse
+ * fields instead of becoming a contact of its own.
+ */
+export const parseVCard = (text: string): Partial<Record<ImportField, string>>[] => {
+  const cards = readCards(text);
+  const byUid = new Map(cards.filter(c => c.uid).map(c => [c.uid.toLowerCase(), c]));
+  const folded = new Set<ParsedCard>();
+  const seen = new Set<ParsedCard>();
+  const records: Partial<Record<ImportField, string>>[] = [];
+
+  cards.forEach(card => {
+    if (folded.has(card)) return;
+    seen.add(card);
+    const { props } = card;
+
+    const fn = pickValue(props, 'FN');
+    const n = props.find(p => p.name === 'N');
+    const [family = '', given = ''] = n ? splitEscaped(n.value, ';').map(part => unescapeText(part).trim()) : [];
+    const [fnFirst, fnLast] = splitName(fn);
+
+    const record: Partial<Record<ImportField, string>> = {
+      firstName: given || fnFirst,
+      lastName: family || (given ? '' : fnLast),
+      email: pickValue(props, 'EMAIL', ['home', 'internet', 'work']),
+      phone: pickValue(props, 'TEL', ['cell', 'mobile', 'iphone', 'home', 'voice', 'work']),
+      dob: parseVCardDate(pickValue(props, 'BDAY')),
+      weddingAnniversary: parseVCardDate(pickValue(props, 'ANNIVERSARY') || pickValue(props, 'X-ANNIVERSARY') || pickValue(props, 'X-MS-ANNIVERSARY')),
+      familyNotes: pickValue(props, 'NOTE'),
+      spouseEmail: pickValue(props, 'X-SPOUSE-EMAIL'),
+      spousePhone: pickValue(props, 'X-SPOUSE-TEL'),
+      source: 'vCard Import'
+    };
+
+    const adr = props.find(p => p.name === 'ADR' && ((p.params.TYPE || []).includes('home') || isPreferred(p))) || props.find(p => p.name === 'ADR');
+    if (adr) {
+      const [, extended = '', street = '', city = '', region = '', postal = '', country = ''] = splitEscaped(adr.value, ';').map(part => unescapeText(part).replace(/\n/g, ', ').trim());
+      const line = [street, extended].filter(Boolean).join(' ');
+      record.propertyAddress = [line, city, [region, postal].filter(Boolean).join(' '), country].filter(Boolean).join(', ');
+    }
+
+    const categories = props.filter(p => p.name === 'CATEGORIES').flatMap(p => splitEscaped(p.value, ',').map(unescapeText));
+    if (categories.length > 0) record.tags = categories.map(c => c.trim()).filter(Boolean).join('; ');
+
+    // Apple-style labelled dates and related names
+    props.filter(p => p.name === 'X-ABDATE').forEach(p => {
+      const label = labelFor(props, p.group);
+      if (label.includes('home')) record.homeAnniversary = parseVCardDate(p.value);
+      else if (label.includes('anniversary') && !record.weddingAnniversary) record.weddingAnniversary = parseVCardDate(p.value);
+    });
+
+    let spouseName = pickValue(props, 'X-SPOUSE') || pickValue(props, 'X-MS-SPOUSE');
+    props.filter(p => p.name === 'X-ABRELATEDNAMES').forEach(p => {
+      const label = labelFor(props, p.group);
+      if (!spouseName && /spouse|partner|husband|wife/.test(label)) spouseName = unescapeText(p.value).trim();
+    });
+
+    const related = props.find(p => p.name === 'RELATED' && SPOUSE_TYPES.some(t => (p.params.TYPE || []).includes(t)));
+    if (related) {
+      const linked = byUid.get(related.value.trim().replace(/^urn:uuid:/i, '').toLowerCase());
+      if (linked && !seen.has(linked)) {
+        folded.add(linked);
+        const linkedN = linked.props.find(p => p.name === 'N');
+        const [linkedFamily = '', linkedGiven = ''] = linkedN ? splitEscaped(linkedN.value, ';').map(part => unescapeText(part).trim()) : [];
+        const [linkedFirst, linkedLast] = splitName(pickValue(linked.props, 'FN'));
+        record.spouseFirstName = linkedGiven || linkedFirst;
+        record.spouseLastName = linkedFamily || linkedLast;
+        record.spouseEmail = pickValue(linked.props, 'EMAIL', ['home', 'internet']);
+        record.spousePhone = pickValue(linked.props, 'TEL', ['cell', 'mobile', 'home']);
+      } else if (!spouseName && !/^urn:|^https?:/i.test(related.value)) {
+        spouseName = unescapeText(related.value).trim();
+      }
+    }
+
+    if (spouseName && !record.spouseFirstName) {
+      [record.spouseFirstName, record.spouseLastName] = splitName(spouseName);
+    }
+
+    records.push(Object.fromEntries(Object.entries(record).filter(([, value]) => value)) as Partial<Record<ImportField, string>>);
+  });
+
+  return records;
+};
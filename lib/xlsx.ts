@@ -0,0 +1,271 @@
+// Office Open XML spreadsheet (.xlsx) export and import. Exports write typed cells
+// (numbers, currency, percentages, real dates) with a bold, frozen and filterable header
+// row; imports return the first worksheet as raw cell strings, the same shape `parseCsv`
+// returns, so spreadsheets go through the same import pipeline as CSV files.
+
+import { createZip, readZip } from './zip.ts';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export type XlsxCellType = 'text' | 'number' | 'currency' | 'percent' | 'date' | 'datetime';
+
+export interface XlsxColumn {
+  header: string;
+  type?: XlsxCellType;
+  // Width in characters; defaults to fit the header and the first rows
+  width?: number;
+}
+
+export type XlsxValue = string | number | Date | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxValue[][];
+}
+
+// Indexes into the cellXfs list in styles.xml
+const STYLE_INDEX: Record<XlsxCellType | 'header', number> = {
+  text: 0,
+  header: 1,
+  number: 2,
+  currency: 3,
+  percent: 4,
+  date: 5,
+  datetime: 6
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd"/><numFmt numFmtId="166" formatCode="yyyy-mm-dd hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFF3F4F6"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="7">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const escapeXml = (value: string) => value
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const unescapeXml = (value: string) => value
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+export const columnLetter = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+const columnIndex = (letters: string): number =>
+  letters.split('').reduce((sum, ch) => sum * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 86400000;
+
+// Excel stores dates as days since 1899-12-30 in local wall-clock time
+const toExcelSerial = (value: XlsxValue, withTime: boolean): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return value;
+  const dateOnly = typeof value === 'string' && value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) return (Date.UTC(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3]) - EXCEL_EPOCH) / DAY_MS;
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return null;
+  const wallClock = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    withTime ? date.getHours() : 0, withTime ? date.getMinutes() : 0
+  );
+  return (wallClock - EXCEL_EPOCH) / DAY_MS;
+};
+
+const fromExcelSerial = (serial: number): string => {
+  const date = new Date(EXCEL_EPOCH + Math.round(serial * DAY_MS));
+  const day = date.toISOString().slice(0, 10);
+  return serial % 1 === 0 ? day : `${day} ${date.toISOString().slice(11, 16)}`;
+};
+
+const cellXml = (ref: string, value: XlsxValue, type: XlsxCellType): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (type === 'date' || type === 'datetime') {
+    const serial = toExcelSerial(value, type === 'datetime');
+    if (serial !== null) return `<c r="${ref}" s="${STYLE_INDEX[type]}"><v>${serial}</v></c>`;
+  } else if (type !== 'text') {
+    const number = typeof value === 'number' ? value : Number(String(value).replace(/[$,%\s]/g, ''));
+    if (!isNaN(number)) return `<c r="${ref}" s="${STYLE_INDEX[type]}"><v>${number}</v></c>`;
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+// Characters the cell shows, for sizing its column: dates in a date column display in
+// the column's format however they were passed in
+const displayLength = (value: XlsxValue, type: XlsxCellType): number => {
+  if (value === null || value === undefined) return 0;
+  if ((type === 'date' || type === 'datetime') && toExcelSerial(value, type === 'datetime') !== null) {
+    return type === 'date' ? 'yyyy-mm-dd'.length : 'yyyy-mm-dd hh:mm'.length;
+  }
+  return value instanceof Date ? value.toISOString().length : String(value).length;
+};
+
+const worksheetXml = (sheet: XlsxSheet): string => {
+  const lastColumn = columnLetter(Math.max(sheet.columns.length - 1, 0));
+  const lastRow = sheet.rows.length + 1;
+  const widths = sheet.columns.map((column, i) => column.width || Math.min(60, Math.max(
+    10,
+    column.header.length + 2,
+    ...sheet.rows.slice(0, 50).map(row => displayLength(row[i], column.type || 'text') + 2)
+  )));
+
+  const header = `<row r="1">${sheet.columns.map((column, i) =>
+    `<c r="${columnLetter(i)}1" t="inlineStr" s="${STYLE_INDEX.header}"><is><t>${escapeXml(column.header)}</t></is></c>`
+  ).join('')}</row>`;
+  const body = sheet.rows.map((row, r) => `<row r="${r + 2}">${sheet.columns.map((column, i) =>
+    cellXml(`${columnLetter(i)}${r + 2}`, row[i], column.type || 'text')
+  ).join('')}</row>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<dimension ref="A1:${lastColumn}${lastRow}"/>
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>
+<sheetData>${header}${body}</sheetData>
+<autoFilter ref="A1:${lastColumn}${lastRow}"/>
+</worksheet>`;
+};
+
+// Sheet names are limited to 31 characters and may not contain : \ / ? * [ ]
+const sheetName = (name: string, index: number) => (name.replace(/[:\\/?*[\]]/g, ' ').trim() || `Sheet${index + 1}`).slice(0, 31);
+
+export const buildXlsx = (sheets: XlsxSheet[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const names = sheets.map((sheet, i) => sheetName(sheet.name, i));
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+<definedNames>${sheets.map((sheet, i) =>
+  `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">'${escapeXml(names[i].replace(/'/g, "''"))}'!$A$1:$${columnLetter(Math.max(sheet.columns.length - 1, 0))}$${sheet.rows.length + 1}</definedName>`
+).join('')}</definedNames>
+</workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    'xl/styles.xml': STYLES_XML
+  };
+  sheets.forEach((sheet, i) => { files[`xl/worksheets/sheet${i + 1}.xml`] = worksheetXml(sheet); });
+
+  return createZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+};
+
+export const xlsxBlob = (sheets: XlsxSheet[]): Blob => new Blob([buildXlsx(sheets)], { type: XLSX_MIME_TYPE });
+
+// Text of every <t> run inside an element, which covers plain and rich-text strings
+const textRuns = (xml: string): string =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(m => unescapeXml(m[1])).join('');
+
+const attribute = (attrs: string, name: string): string | undefined =>
+  attrs.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+
+// Built-in number formats that display dates; custom formats are checked by their code
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const dateStyleIndexes = (stylesXml: string): Set<number> => {
+  const customDateFormats = new Set(
+    Array.from(stylesXml.matchAll(/<numFmt\s([^>]*)\/?>/g))
+      .filter(m => /[dmyhs]/i.test((attribute(m[1], 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map(m => Number(attribute(m[1], 'numFmtId')))
+  );
+  const cellXfs = stylesXml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+  const indexes = new Set<number>();
+  Array.from(cellXfs.matchAll(/<xf\s([^>]*?)\/?>/g)).forEach((m, i) => {
+    const id = Number(attribute(m[1], 'numFmtId') || 0);
+    if (BUILTIN_DATE_FORMATS.has(id) || customDateFormats.has(id)) indexes.add(i);
+  });
+  return indexes;
+};
+
+/**
+ * Reads the first worksheet of an .xlsx file into rows of cell strings. Date cells come
+ * back as YYYY-MM-DD; empty rows are dropped.
+ */
+export const readXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const decoder = new TextDecoder();
+  const files = new Map((await readZip(buffer)).map(entry => [entry.name.replace(/^\//, ''), decoder.decode(entry.data)]));
+
+  const workbook = files.get('xl/workbook.xml');
+  if (!workbook) throw new Error('Not a valid .xlsx file (workbook not found).');
+  const firstSheetId = attribute(workbook.match(/<sheet\s([^>]*)\/?>/)?.[1] || '', 'r:id');
+  const rels = files.get('xl/_rels/workbook.xml.rels') || '';
+  const target = Array.from(rels.matchAll(/<Relationship\s([^>]*)\/?>/g))
+    .map(m => m[1])
+    .find(attrs => attribute(attrs, 'Id') === firstSheetId);
+  const targetPath = target ? attribute(target, 'Target')! : 'worksheets/sheet1.xml';
+  const sheetPath = targetPath.startsWith('/') ? targetPath.slice(1) : `xl/${targetPath}`;
+  const sheet = files.get(sheetPath);
+  if (!sheet) throw new Error('The workbook has no readable worksheet.');
+
+  const sharedStrings = Array.from((files.get('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)).map(m => textRuns(m[1]));
+  const dateStyles = dateStyleIndexes(files.get('xl/styles.xml') || '');
+
+  const rows: string[][] = [];
+  Array.from(sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)).forEach(rowMatch => {
+    const row: string[] = [];
+    Array.from((rowMatch[1] || '').matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)).forEach((cellMatch, position) => {
+      const attrs = cellMatch[1];
+      const inner = cellMatch[2] || '';
+      const ref = attribute(attrs, 'r');
+      const col = ref ? columnIndex(ref.replace(/\d+/g, '')) : position;
+      const type = attribute(attrs, 't');
+      const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = textRuns(inner.match(/<is>([\s\S]*?)<\/is>/)?.[1] || '');
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined && (type === 'n' || !type) && dateStyles.has(Number(attribute(attrs, 's') || 0))) value = fromExcelSerial(Number(raw));
+      else if (raw !== undefined) value = unescapeXml(raw);
+
+      while (row.length < col) row.push('');
+      row[col] = value;
+    });
+    if (row.some(cell => cell.trim() !== '')) rows.push(row);
+  });
+
+  return rows;
+};
@@ -126,12 +126,7 @@ const NEW_HIGH_FIDELITY_LEADS: Lead[] = [
     updatedAt: new Date('2026-12-28').toISOString(),
     estimatedDealValue: 25500,
     dob: '1965-03-15T12:00:00.000Z',
-    weddingAnniversary: '2026-02-14T12:00:00.000Z',
-    spouseFirstName: 'Jan',
-    spouseLastName: 'Levinson',
-    spouseEmail: 'jan@whitepages.com',
-    spousePhone: '(555) 999-8888',
-    secondaryContactRelationship: 'Partner'
+    weddingAnniversary: '2026-02-14T12:00:00.000Z'
   },
   {
     id: 'lead_hf_2',
@@ -153,12 +148,7 @@ const NEW_HIGH_FIDELITY_LEADS: Lead[] = [
     updatedAt: new Date('2026-12-28').toISOString(),
     estimatedDealValue: 13500,
     dob: '1979-10-01T12:00:00.000Z',
-    weddingAnniversary: '2026-10-08T12:00:00.000Z',
-    spouseFirstName: 'Pam',
-    spouseLastName: 'Beesly',
-    spouseEmail: 'pam.b@art.com',
-    spousePhone: '(555) 222-3333',
-    secondaryContactRelationship: 'Spouse'
+    weddingAnniversary: '2026-10-08T12:00:00.000Z'
   },
   {
     id: 'lead_hf_3',
@@ -180,12 +170,7 @@ const NEW_HIGH_FIDELITY_LEADS: Lead[] = [
     updatedAt: new Date('2026-12-28').toISOString(),
     estimatedDealValue: 36000,
     dob: '1970-01-20T12:00:00.000Z',
-    weddingAnniversary: '2026-11-20T12:00:00.000Z',
-    spouseFirstName: 'Angela',
-    spouseLastName: 'Martin',
-    spouseEmail: 'angela.m@cats.com',
-    spousePhone: '(555) 444-5555',
-    secondaryContactRelationship: 'Spouse'
+    weddingAnniversary: '2026-11-20T12:00:00.000Z'
   },
   {
     id: 'lead_hf_4',
@@ -207,12 +192,7 @@ const NEW_HIGH_FIDELITY_LEADS: Lead[] = [
     updatedAt: new Date('2026-12-28').toISOString(),
     estimatedDealValue: 18000,
     dob: '1958-02-12T12:00:00.000Z',
-    weddingAnniversary: '2026-06-12T12:00:00.000Z',
-    spouseFirstName: 'Teri',
-    spouseLastName: 'Hudson',
-    spouseEmail: 'teri.h@example.com',
-    spousePhone: '(555) 666-7777',
-    secondaryContactRelationship: 'Spouse'
+    weddingAnniversary: '2026-06-12T12:00:00.000Z'
   },
   {
     id: 'lead_hf_5',
@@ -234,12 +214,7 @@ const NEW_HIGH_FIDELITY_LEADS: Lead[] = [
     updatedAt: new Date('2026-12-28').toISOString(),
     estimatedDealValue: 28500,
     dob: '1961-07-10T12:00:00.000Z',
-    weddingAnniversary: '2026-12-25T12:00:00.000Z',
-    spouseFirstName: 'Bob',
-    spouseLastName: 'Vance',
-    spouseEmail: 'bobv@vancerefrig.com',
-    spousePhone: '(555) 888-9999',
-    secondaryContactRelationship: 'Partner'
+    weddingAnniversary: '2026-12-25T12:00:00.000Z'
   },
   {
     id: 'lead_today_milestone',
@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase.ts';
+import { formatPhone, toStoredPhone } from '../lib/phone.ts';
 import { User, Brokerage, UserRole } from '../types.ts';
 
 interface UserProfile {
@@ -9,6 +10,7 @@ interface UserProfile {
   last_name: string;
   role: string;
   phone: string | null;
+  phone_extension: string | null;
   license_number: string | null;
   avatar_url: string | null;
   is_deleted: boolean;
@@ -59,7 +61,8 @@ export const authService = {
           first_name: profile.firstName,
           last_name: profile.lastName,
           role: profile.role,
-          phone: profile.phone,
+          phone: toStoredPhone(profile.phone).phone,
+          phone_extension: toStoredPhone(profile.phone).extension,
           license_number: profile.licenseNumber,
           avatar_url: profile.avatarUrl,
           is_deleted: false,
@@ -104,7 +107,7 @@ export const authService = {
         lastName: userProfile.last_name,
         email: userProfile.email,
         role: userProfile.role as UserRole,
-        phone: userProfile.phone || undefined,
+        phone: userProfile.phone ? formatPhone(userProfile.phone, userProfile.phone_extension) : undefined,
         licenseNumber: userProfile.license_number || undefined,
         avatar: userProfile.avatar_url || undefined,
         isDeleted: userProfile.is_deleted,
@@ -148,9 +151,16 @@ export const authService = {
       if (updates.firstName !== undefined) updateData.first_name = updates.firstName;
       if (updates.lastName !== undefined) updateData.last_name = updates.lastName;
       if (updates.email !== undefined) updateData.email = updates.email;
-      if (updates.phone !== undefined) updateData.phone = updates.phone;
+      if (updates.phone !== undefined) {
+        const { phone, extension } = toStoredPhone(updates.phone);
+        updateData.phone = phone;
+        updateData.phone_extension = extension;
+      }
       if (updates.licenseNumber !== undefined) updateData.license_number = updates.licenseNumber;
       if (updates.avatar !== undefined) updateData.avatar_url = updates.avatar;
+      if (updates.role !== undefined) updateData.role = updates.role;
+      if (updates.isDeleted !== undefined) updateData.is_deleted = updates.isDeleted;
+      if (updates.deletedAt !== undefined) updateData.deleted_at = updates.deletedAt || null;
 
       const { error } = await supabase
         .from('user_profiles')
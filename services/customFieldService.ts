@@ -0,0 +1,115 @@
+import { supabase } from '../lib/supabase.ts';
+import { CustomFieldDefinition, CustomFieldEntity, CustomFieldType } from '../types.ts';
+
+interface CustomFieldRow {
+  id: string;
+  brokerage_id: string;
+  entity: CustomFieldEntity;
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string[] | null;
+  position: number;
+}
+
+const toDefinition = (row: CustomFieldRow): CustomFieldDefinition => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  entity: row.entity,
+  key: row.key,
+  label: row.label,
+  type: row.field_type,
+  options: row.options || [],
+  position: row.position,
+});
+
+export const customFieldService = {
+  async getDefinitions(brokerageId: string): Promise<CustomFieldDefinition[]> {
+    try {
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('position');
+
+      if (error) {
+        console.error('Error fetching custom fields:', error);
+        return [];
+      }
+
+      return (data as CustomFieldRow[] || []).map(toDefinition);
+    } catch (error) {
+      console.error('Error in getDefinitions:', error);
+      return [];
+    }
+  },
+
+  async createDefinition(definition: Omit<CustomFieldDefinition, 'id'>): Promise<CustomFieldDefinition | null> {
+    try {
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .insert({
+          brokerage_id: definition.brokerageId,
+          entity: definition.entity,
+          key: definition.key,
+          label: definition.label,
+          field_type: definition.type,
+          options: definition.options,
+          position: definition.position,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating custom field:', error);
+        return null;
+      }
+
+      return toDefinition(data as CustomFieldRow);
+    } catch (error) {
+      console.error('Error in createDefinition:', error);
+      return null;
+    }
+  },
+
+  // The key and type are fixed once values exist, so only these can change
+  async updateDefinition(id: string, updates: Partial<Pick<CustomFieldDefinition, 'label' | 'options' | 'position'>>): Promise<CustomFieldDefinition | null> {
+    try {
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating custom field:', error);
+        return null;
+      }
+
+      return toDefinition(data as CustomFieldRow);
+    } catch (error) {
+      console.error('Error in updateDefinition:', error);
+      return null;
+    }
+  },
+
+  async deleteDefinition(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('custom_field_definitions')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting custom field:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteDefinition:', error);
+      return false;
+    }
+  },
+};
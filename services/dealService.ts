@@ -0,0 +1,345 @@
+import { supabase } from '../lib/supabase.ts';
+import { formatPhone, toStoredPhone } from '../lib/phone.ts';
+import { locateAddress } from '../lib/geocoding.ts';
+import { AddressComponents, CustomFieldValue, Deal, DealNote, GeoLocation } from '../types.ts';
+
+interface DealNoteRow {
+  id: string;
+  deal_id: string;
+  content: string;
+  author_id: string | null;
+  created_at: string;
+}
+
+interface DealRow {
+  id: string;
+  brokerage_id: string;
+  assigned_user_id: string;
+  lead_id: string | null;
+  lead_name: string;
+  client_phone: string | null;
+  client_email: string | null;
+  status: string;
+  side: string;
+  address: string;
+  address_components: AddressComponents | null;
+  location: GeoLocation | null;
+  sale_price: number | string;
+  commission_percentage: number | string;
+  commission_amount: number | string;
+  date: string;
+  source: string | null;
+  escrow_company: string | null;
+  escrow_address: string | null;
+  escrow_officer: string | null;
+  escrow_phone: string | null;
+  escrow_email: string | null;
+  escrow_file_number: string | null;
+  lender_company: string | null;
+  lender_phone: string | null;
+  lender_cell_phone: string | null;
+  lender_email: string | null;
+  lender_loan_officer: string | null;
+  title_company: string | null;
+  title_officer: string | null;
+  title_phone: string | null;
+  title_email: string | null;
+  tc_name: string | null;
+  tc_phone: string | null;
+  tc_email: string | null;
+  client_phone_extension: string | null;
+  escrow_phone_extension: string | null;
+  lender_phone_extension: string | null;
+  lender_cell_phone_extension: string | null;
+  title_phone_extension: string | null;
+  tc_phone_extension: string | null;
+  inspection_due_date: string | null;
+  appraisal_due_date: string | null;
+  loan_due_date: string | null;
+  custom_fields: Record<string, CustomFieldValue> | null;
+  is_deleted: boolean;
+  deleted_at: string | null;
+  deal_notes?: DealNoteRow[];
+}
+
+// Keys holding plain strings, so the shared mapping below can read and write them by key
+type TextKey<T> = { [K in keyof T]-?: T[K] extends string ? (string extends T[K] ? K : never) : never }[keyof T];
+
+// Optional text columns share one mapping so the ~20 transaction contacts stay in sync
+const OPTIONAL_TEXT_FIELDS: [TextKey<Deal>, TextKey<DealRow>][] = [
+  ['clientPhone', 'client_phone'],
+  ['clientEmail', 'client_email'],
+  ['source', 'source'],
+  ['escrowCompany', 'escrow_company'],
+  ['escrowAddress', 'escrow_address'],
+  ['escrowOfficer', 'escrow_officer'],
+  ['escrowPhone', 'escrow_phone'],
+  ['escrowEmail', 'escrow_email'],
+  ['escrowFileNumber', 'escrow_file_number'],
+  ['lenderCompany', 'lender_company'],
+  ['lenderPhone', 'lender_phone'],
+  ['lenderCellPhone', 'lender_cell_phone'],
+  ['lenderEmail', 'lender_email'],
+  ['lenderLoanOfficer', 'lender_loan_officer'],
+  ['titleCompany', 'title_company'],
+  ['titleOfficer', 'title_officer'],
+  ['titlePhone', 'title_phone'],
+  ['titleEmail', 'title_email'],
+  ['tcName', 'tc_name'],
+  ['tcPhone', 'tc_phone'],
+  ['tcEmail', 'tc_email'],
+  ['inspectionDueDate', 'inspection_due_date'],
+  ['appraisalDueDate', 'appraisal_due_date'],
+  ['loanDueDate', 'loan_due_date'],
+];
+
+// Stored as E.164 when they can be (otherwise as typed) and formatted for display when
+// read; each keeps its extension in its own column
+const PHONE_EXTENSION_COLUMNS = new Map<keyof Deal, TextKey<DealRow>>([
+  ['clientPhone', 'client_phone_extension'],
+  ['escrowPhone', 'escrow_phone_extension'],
+  ['lenderPhone', 'lender_phone_extension'],
+  ['lenderCellPhone', 'lender_cell_phone_extension'],
+  ['titlePhone', 'title_phone_extension'],
+  ['tcPhone', 'tc_phone_extension'],
+]);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const toDealNote = (row: DealNoteRow): DealNote => ({
+  id: row.id,
+  content: row.content,
+  createdAt: row.created_at,
+});
+
+const toDeal = (row: DealRow): Deal => {
+  const deal: Deal = {
+    id: row.id,
+    brokerageId: row.brokerage_id,
+    assignedUserId: row.assigned_user_id,
+    leadId: row.lead_id || undefined,
+    leadName: row.lead_name,
+    status: row.status as Deal['status'],
+    side: row.side as Deal['side'],
+    address: row.address,
+    addressComponents: row.address_components || undefined,
+    location: row.location || undefined,
+    salePrice: Number(row.sale_price) || 0,
+    commissionPercentage: Number(row.commission_percentage) || 0,
+    commissionAmount: Number(row.commission_amount) || 0,
+    date: row.date,
+    customFields: row.custom_fields || {},
+    isDeleted: row.is_deleted,
+    deletedAt: row.deleted_at || undefined,
+    dealNotes: (row.deal_notes || [])
+      .map(toDealNote)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+  };
+
+  OPTIONAL_TEXT_FIELDS.forEach(([field, column]) => {
+    const value = row[column];
+    const extensionColumn = PHONE_EXTENSION_COLUMNS.get(field);
+    if (value) deal[field] = extensionColumn ? formatPhone(value, row[extensionColumn]) : value;
+  });
+
+  return deal;
+};
+
+const toDealRow = (deal: Partial<Deal>): Partial<DealRow> => {
+  const row: Partial<DealRow> = {};
+
+  if (deal.brokerageId !== undefined) row.brokerage_id = deal.brokerageId;
+  if (deal.assignedUserId !== undefined) row.assigned_user_id = deal.assignedUserId;
+  if (deal.leadId !== undefined) row.lead_id = deal.leadId || null;
+  if (deal.leadName !== undefined) row.lead_name = deal.leadName;
+  if (deal.status !== undefined) row.status = deal.status;
+  if (deal.side !== undefined) row.side = deal.side;
+  if (deal.address !== undefined) row.address = deal.address;
+  if (deal.salePrice !== undefined) row.sale_price = deal.salePrice;
+  if (deal.commissionPercentage !== undefined) row.commission_percentage = deal.commissionPercentage;
+  if (deal.commissionAmount !== undefined) row.commission_amount = deal.commissionAmount;
+  if (deal.date !== undefined) row.date = deal.date;
+  if (deal.customFields !== undefined) row.custom_fields = deal.customFields;
+  if (deal.isDeleted !== undefined) row.is_deleted = deal.isDeleted;
+  if (deal.deletedAt !== undefined) row.deleted_at = deal.deletedAt || null;
+
+  // Empty strings become NULL because the due-date columns reject ''
+  OPTIONAL_TEXT_FIELDS.forEach(([field, column]) => {
+    if (!(field in deal)) return;
+    const value = deal[field];
+    const extensionColumn = PHONE_EXTENSION_COLUMNS.get(field);
+    if (extensionColumn) {
+      const { phone, extension } = toStoredPhone(value);
+      row[column] = phone;
+      row[extensionColumn] = extension;
+    } else {
+      row[column] = value || null;
+    }
+  });
+
+  return row;
+};
+
+// Parsed and geocoded alongside every write of the address, so they never go stale
+const withLocatedAddress = async (row: Partial<DealRow>): Promise<Partial<DealRow>> => {
+  if (row.address === undefined) return row;
+  const { components, location } = await locateAddress(row.address);
+  return { ...row, address_components: components, location };
+};
+
+export const dealService = {
+  async getDeals(brokerageId: string): Promise<Deal[]> {
+    try {
+      const { data, error } = await supabase
+        .from('deals')
+        .select('*, deal_notes(*)')
+        .eq('brokerage_id', brokerageId)
+        .order('date', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching deals:', error);
+        return [];
+      }
+
+      return (data || []).map(row => toDeal(row as DealRow));
+    } catch (error) {
+      console.error('Error in getDeals:', error);
+      return [];
+    }
+  },
+
+  async createDeal(deal: Deal): Promise<Deal> {
+    try {
+      const { id, dealNotes, ...fields } = deal;
+
+      const { data, error } = await supabase
+        .from('deals')
+        .insert(await withLocatedAddress(toDealRow(fields)))
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating deal:', error);
+        throw error;
+      }
+
+      const notes = await this.syncDealNotes(data.id, dealNotes || []);
+      return { ...toDeal(data as DealRow), dealNotes: notes };
+    } catch (error) {
+      console.error('Error in createDeal:', error);
+      throw error;
+    }
+  },
+
+  async updateDeal(dealId: string, updates: Partial<Deal>): Promise<Deal | null> {
+    try {
+      const { id, dealNotes, ...fields } = updates;
+
+      if (dealNotes !== undefined) {
+        await this.syncDealNotes(dealId, dealNotes);
+      }
+
+      const row = await withLocatedAddress(toDealRow(fields));
+      const query = Object.keys(row).length > 0
+        ? supabase.from('deals').update(row).eq('id', dealId)
+        : supabase.from('deals').select().eq('id', dealId);
+
+      const { data, error } = await query.select('*, deal_notes(*)').single();
+
+      if (error) {
+        console.error('Error updating deal:', error);
+        return null;
+      }
+
+      return toDeal(data as DealRow);
+    } catch (error) {
+      console.error('Error in updateDeal:', error);
+      return null;
+    }
+  },
+
+  async softDeleteDeal(dealId: string): Promise<boolean> {
+    const updated = await this.updateDeal(dealId, {
+      isDeleted: true,
+      deletedAt: new Date().toISOString(),
+    });
+    return updated !== null;
+  },
+
+  async restoreDeal(dealId: string): Promise<boolean> {
+    const updated = await this.updateDeal(dealId, { isDeleted: false, deletedAt: '' });
+    return updated !== null;
+  },
+
+  async permanentlyDeleteDeal(dealId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('deals')
+        .delete()
+        .eq('id', dealId);
+
+      if (error) {
+        console.error('Error deleting deal:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in permanentlyDeleteDeal:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Reconciles the deal_notes rows with the notes edited in the deal form.
+   * Notes created in the form carry client ids (`dn_...`) and are inserted;
+   * saved notes missing from the list are deleted.
+   */
+  async syncDealNotes(dealId: string, notes: DealNote[]): Promise<DealNote[]> {
+    try {
+      const { data: existing, error: fetchError } = await supabase
+        .from('deal_notes')
+        .select('*')
+        .eq('deal_id', dealId);
+
+      if (fetchError) throw fetchError;
+
+      const existingRows = (existing || []) as DealNoteRow[];
+      const keptIds = notes.filter(n => UUID_PATTERN.test(n.id)).map(n => n.id);
+      const removedIds = existingRows.filter(r => !keptIds.includes(r.id)).map(r => r.id);
+
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('deal_notes').delete().in('id', removedIds);
+        if (error) throw error;
+      }
+
+      for (const note of notes.filter(n => UUID_PATTERN.test(n.id))) {
+        const current = existingRows.find(r => r.id === note.id);
+        if (current && current.content !== note.content) {
+          const { error } = await supabase.from('deal_notes').update({ content: note.content }).eq('id', note.id);
+          if (error) throw error;
+        }
+      }
+
+      const newNotes = notes.filter(n => !UUID_PATTERN.test(n.id));
+      if (newNotes.length > 0) {
+        const { error } = await supabase
+          .from('deal_notes')
+          .insert(newNotes.map(n => ({ deal_id: dealId, content: n.content, created_at: n.createdAt })));
+        if (error) throw error;
+      }
+
+      const { data, error } = await supabase
+        .from('deal_notes')
+        .select('*')
+        .eq('deal_id', dealId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return ((data || []) as DealNoteRow[]).map(toDealNote);
+    } catch (error) {
+      console.error('Error syncing deal notes:', error);
+      throw error;
+    }
+  },
+};
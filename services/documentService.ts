@@ -0,0 +1,203 @@
+import { supabase } from '../lib/supabase.ts';
+import { SharedDocument, SharedDocumentType, SharedFolder } from '../types.ts';
+
+interface SharedFolderRow {
+  id: string;
+  brokerage_id: string;
+  name: string;
+  icon: string;
+  shared_with_agent_id: string | null;
+  is_deleted: boolean | null;
+  deleted_at: string | null;
+  created_at: string;
+}
+
+interface SharedDocumentRow {
+  id: string;
+  brokerage_id: string;
+  folder_id: string;
+  name: string;
+  doc_type: string;
+  url: string;
+  size: string | null;
+  uploaded_by: string | null;
+  uploaded_by_name: string;
+  shared_with_agent_id: string | null;
+  is_deleted: boolean | null;
+  deleted_at: string | null;
+  created_at: string;
+}
+
+const toFolder = (row: SharedFolderRow): SharedFolder => ({
+  id: row.id,
+  name: row.name,
+  icon: row.icon || 'fa-folder',
+  createdAt: row.created_at,
+  isDeleted: row.is_deleted || false,
+  deletedAt: row.deleted_at || undefined,
+  sharedWithAgentId: row.shared_with_agent_id || undefined,
+});
+
+const toDocument = (row: SharedDocumentRow): SharedDocument => ({
+  id: row.id,
+  folderId: row.folder_id,
+  name: row.name,
+  type: row.doc_type as SharedDocumentType,
+  url: row.url,
+  createdAt: row.created_at,
+  uploadedBy: row.uploaded_by_name,
+  uploadedById: row.uploaded_by || '',
+  size: row.size || undefined,
+  isDeleted: row.is_deleted || false,
+  deletedAt: row.deleted_at || undefined,
+  sharedWithAgentId: row.shared_with_agent_id || undefined,
+});
+
+const toFolderRow = (brokerageId: string, folder: SharedFolder) => ({
+  id: folder.id,
+  brokerage_id: brokerageId,
+  name: folder.name,
+  icon: folder.icon,
+  shared_with_agent_id: folder.sharedWithAgentId || null,
+  is_deleted: folder.isDeleted || false,
+  deleted_at: folder.deletedAt || null,
+  created_at: folder.createdAt,
+});
+
+const toDocumentRow = (brokerageId: string, doc: SharedDocument) => ({
+  id: doc.id,
+  brokerage_id: brokerageId,
+  folder_id: doc.folderId,
+  name: doc.name,
+  doc_type: doc.type,
+  url: doc.url,
+  size: doc.size || null,
+  uploaded_by: doc.uploadedById || null,
+  uploaded_by_name: doc.uploadedBy,
+  shared_with_agent_id: doc.sharedWithAgentId || null,
+  is_deleted: doc.isDeleted || false,
+  deleted_at: doc.deletedAt || null,
+  created_at: doc.createdAt,
+});
+
+// Training Center folders and documents. Ids are generated client-side, so saves are upserts.
+export const documentService = {
+  async getFolders(brokerageId: string): Promise<SharedFolder[]> {
+    try {
+      const { data, error } = await supabase
+        .from('shared_folders')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching folders:', error);
+        return [];
+      }
+
+      return (data as SharedFolderRow[] || []).map(toFolder);
+    } catch (error) {
+      console.error('Error in getFolders:', error);
+      return [];
+    }
+  },
+
+  async getDocuments(brokerageId: string): Promise<SharedDocument[]> {
+    try {
+      const { data, error } = await supabase
+        .from('shared_documents')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching documents:', error);
+        return [];
+      }
+
+      return (data as SharedDocumentRow[] || []).map(toDocument);
+    } catch (error) {
+      console.error('Error in getDocuments:', error);
+      return [];
+    }
+  },
+
+  async saveFolders(brokerageId: string, folders: SharedFolder[]): Promise<boolean> {
+    if (folders.length === 0) return true;
+
+    try {
+      const { error } = await supabase
+        .from('shared_folders')
+        .upsert(folders.map(f => toFolderRow(brokerageId, f)));
+
+      if (error) {
+        console.error('Error saving folders:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in saveFolders:', error);
+      return false;
+    }
+  },
+
+  async saveDocuments(brokerageId: string, docs: SharedDocument[]): Promise<boolean> {
+    if (docs.length === 0) return true;
+
+    try {
+      const { error } = await supabase
+        .from('shared_documents')
+        .upsert(docs.map(d => toDocumentRow(brokerageId, d)));
+
+      if (error) {
+        console.error('Error saving documents:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in saveDocuments:', error);
+      return false;
+    }
+  },
+
+  // Removing a folder also removes its documents
+  async deleteFolders(ids: string[]): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('shared_folders')
+        .delete()
+        .in('id', ids);
+
+      if (error) {
+        console.error('Error deleting folders:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteFolders:', error);
+      return false;
+    }
+  },
+
+  async deleteDocuments(ids: string[]): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('shared_documents')
+        .delete()
+        .in('id', ids);
+
+      if (error) {
+        console.error('Error deleting documents:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteDocuments:', error);
+      return false;
+    }
+  },
+};
@@ -0,0 +1,283 @@
+import { supabase } from '../lib/supabase.ts';
+import { DripCampaign, DripEnrollment, DripPauseReason, DripStep, DripTriggerField } from '../types.ts';
+import { resumeDueAt, sortSteps, stepDueAt } from '../lib/dripCampaigns.ts';
+
+interface DripCampaignRow {
+  id: string;
+  brokerage_id: string;
+  created_by: string | null;
+  name: string;
+  description: string | null;
+  steps: DripStep[] | null;
+  trigger_field: DripTriggerField | null;
+  trigger_value: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+interface DripEnrollmentRow {
+  id: string;
+  campaign_id: string;
+  lead_id: string;
+  status: DripEnrollment['status'];
+  origin: DripEnrollment['origin'];
+  current_step: number;
+  next_send_at: string | null;
+  last_sent_at: string | null;
+  last_error: string | null;
+  paused_at: string | null;
+  pause_reason: DripPauseReason | null;
+  completed_at: string | null;
+  enrolled_at: string;
+}
+
+export interface DripTemplate {
+  id: string;
+  name: string;
+  subject: string;
+}
+
+export type DripCampaignInput = Pick<DripCampaign, 'name' | 'description' | 'steps' | 'trigger' | 'isActive'>;
+
+const toCampaign = (row: DripCampaignRow): DripCampaign => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  createdBy: row.created_by || undefined,
+  name: row.name,
+  description: row.description || undefined,
+  steps: sortSteps(row.steps || []),
+  trigger: row.trigger_field && row.trigger_value ? { field: row.trigger_field, value: row.trigger_value } : undefined,
+  isActive: row.is_active,
+  createdAt: row.created_at,
+});
+
+const toCampaignRow = (campaign: Partial<DripCampaignInput>) => {
+  const row: Record<string, unknown> = {};
+  if (campaign.name !== undefined) row.name = campaign.name;
+  if (campaign.description !== undefined) row.description = campaign.description || null;
+  if (campaign.steps !== undefined) row.steps = sortSteps(campaign.steps);
+  if ('trigger' in campaign) {
+    row.trigger_field = campaign.trigger?.value ? campaign.trigger.field : null;
+    row.trigger_value = campaign.trigger?.value || null;
+  }
+  if (campaign.isActive !== undefined) row.is_active = campaign.isActive;
+  return row;
+};
+
+const toEnrollment = (row: DripEnrollmentRow): DripEnrollment => ({
+  id: row.id,
+  campaignId: row.campaign_id,
+  leadId: row.lead_id,
+  status: row.status,
+  origin: row.origin,
+  currentStep: row.current_step,
+  nextSendAt: row.next_send_at || undefined,
+  lastSentAt: row.last_sent_at || undefined,
+  lastError: row.last_error || undefined,
+  pausedAt: row.paused_at || undefined,
+  pauseReason: row.pause_reason || undefined,
+  completedAt: row.completed_at || undefined,
+  enrolledAt: row.enrolled_at,
+});
+
+const updateEnrollment = async (id: string, row: Record<string, unknown>): Promise<DripEnrollment | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('drip_enrollments')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating drip enrollment:', error);
+      return null;
+    }
+
+    return toEnrollment(data as DripEnrollmentRow);
+  } catch (error) {
+    console.error('Error in updateEnrollment:', error);
+    return null;
+  }
+};
+
+export const dripCampaignService = {
+  async getCampaigns(brokerageId: string): Promise<DripCampaign[]> {
+    try {
+      const { data, error } = await supabase
+        .from('drip_campaigns')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching drip campaigns:', error);
+        return [];
+      }
+
+      return (data as DripCampaignRow[] || []).map(toCampaign);
+    } catch (error) {
+      console.error('Error in getCampaigns:', error);
+      return [];
+    }
+  },
+
+  async createCampaign(brokerageId: string, userId: string, campaign: DripCampaignInput): Promise<DripCampaign | null> {
+    try {
+      const { data, error } = await supabase
+        .from('drip_campaigns')
+        .insert({ ...toCampaignRow(campaign), brokerage_id: brokerageId, created_by: userId })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating drip campaign:', error);
+        return null;
+      }
+
+      return toCampaign(data as DripCampaignRow);
+    } catch (error) {
+      console.error('Error in createCampaign:', error);
+      return null;
+    }
+  },
+
+  async updateCampaign(id: string, updates: Partial<DripCampaignInput>): Promise<DripCampaign | null> {
+    try {
+      const { data, error } = await supabase
+        .from('drip_campaigns')
+        .update(toCampaignRow(updates))
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating drip campaign:', error);
+        return null;
+      }
+
+      return toCampaign(data as DripCampaignRow);
+    } catch (error) {
+      console.error('Error in updateCampaign:', error);
+      return null;
+    }
+  },
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('drip_campaigns')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting drip campaign:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteCampaign:', error);
+      return false;
+    }
+  },
+
+  // Templates a step can send: the caller's own plus shared ones
+  async getTemplates(): Promise<DripTemplate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('id, name, subject')
+        .eq('is_deleted', false)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching email templates:', error);
+        return [];
+      }
+
+      return (data as DripTemplate[]) || [];
+    } catch (error) {
+      console.error('Error in getTemplates:', error);
+      return [];
+    }
+  },
+
+  async getEnrollments(leadId: string): Promise<DripEnrollment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('drip_enrollments')
+        .select('*')
+        .eq('lead_id', leadId)
+        .order('enrolled_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching drip enrollments:', error);
+        return [];
+      }
+
+      return (data as DripEnrollmentRow[] || []).map(toEnrollment);
+    } catch (error) {
+      console.error('Error in getEnrollments:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Starts the campaign for a lead from its first step. Enrolling a lead that already
+   * finished or stopped the campaign starts it over.
+   */
+  async enrollLead(campaign: DripCampaign, leadId: string, userId: string): Promise<DripEnrollment | null> {
+    try {
+      const now = new Date();
+      const { data, error } = await supabase
+        .from('drip_enrollments')
+        .upsert({
+          brokerage_id: campaign.brokerageId,
+          campaign_id: campaign.id,
+          lead_id: leadId,
+          status: 'ACTIVE',
+          origin: 'MANUAL',
+          current_step: 0,
+          next_send_at: stepDueAt(campaign.steps, 0, now)?.toISOString() || null,
+          last_sent_at: null,
+          last_error: null,
+          paused_at: null,
+          pause_reason: null,
+          completed_at: null,
+          enrolled_by: userId,
+          enrolled_at: now.toISOString(),
+        }, { onConflict: 'campaign_id,lead_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error enrolling lead in drip campaign:', error);
+        return null;
+      }
+
+      return toEnrollment(data as DripEnrollmentRow);
+    } catch (error) {
+      console.error('Error in enrollLead:', error);
+      return null;
+    }
+  },
+
+  async pauseEnrollment(id: string, reason: DripPauseReason = 'MANUAL'): Promise<DripEnrollment | null> {
+    return updateEnrollment(id, { status: 'PAUSED', paused_at: new Date().toISOString(), pause_reason: reason });
+  },
+
+  async resumeEnrollment(enrollment: DripEnrollment): Promise<DripEnrollment | null> {
+    return updateEnrollment(enrollment.id, {
+      status: 'ACTIVE',
+      next_send_at: resumeDueAt(enrollment, new Date()).toISOString(),
+      paused_at: null,
+      pause_reason: null,
+      last_error: null,
+    });
+  },
+
+  async stopEnrollment(id: string): Promise<DripEnrollment | null> {
+    return updateEnrollment(id, { status: 'STOPPED', next_send_at: null });
+  },
+};
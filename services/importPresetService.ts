@@ -0,0 +1,83 @@
+import { supabase } from '../lib/supabase.ts';
+import { ImportMapping, LeadImportPreset } from '../types.ts';
+
+interface ImportPresetRow {
+  id: string;
+  brokerage_id: string;
+  name: string;
+  mapping: ImportMapping;
+  created_at: string;
+}
+
+const toPreset = (row: ImportPresetRow): LeadImportPreset => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  name: row.name,
+  mapping: row.mapping || {},
+  createdAt: row.created_at,
+});
+
+export const importPresetService = {
+  async getPresets(brokerageId: string): Promise<LeadImportPreset[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_import_presets')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching import presets:', error);
+        return [];
+      }
+
+      return (data as ImportPresetRow[] || []).map(toPreset);
+    } catch (error) {
+      console.error('Error in getPresets:', error);
+      return [];
+    }
+  },
+
+  // Saving under an existing name overwrites that preset's mapping
+  async savePreset(brokerageId: string, name: string, mapping: ImportMapping, userId: string): Promise<LeadImportPreset | null> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_import_presets')
+        .upsert(
+          { brokerage_id: brokerageId, name, mapping, created_by: userId, updated_at: new Date().toISOString() },
+          { onConflict: 'brokerage_id,name' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving import preset:', error);
+        return null;
+      }
+
+      return toPreset(data as ImportPresetRow);
+    } catch (error) {
+      console.error('Error in savePreset:', error);
+      return null;
+    }
+  },
+
+  async deletePreset(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('lead_import_presets')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting import preset:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deletePreset:', error);
+      return false;
+    }
+  },
+};
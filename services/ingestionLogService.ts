@@ -0,0 +1,181 @@
+import { supabase } from '../lib/supabase.ts';
+import { IngestionLogEntry, IngestionStatus, Lead, LeadFieldMapping } from '../types.ts';
+import { LEAD_TRANSFORMERS } from './leadIngestionService.ts';
+import { leadService } from './leadService.ts';
+import { leadRoutingService } from './leadRoutingService.ts';
+import { leadScoringService } from './leadScoringService.ts';
+import { RouteOptions } from '../lib/leadRouting.ts';
+import { scoreIngestedLead } from '../lib/leadScoring.ts';
+
+interface IngestionLogRow {
+  id: string;
+  brokerage_id: string;
+  integration_id: string | null;
+  provider: string;
+  payload: unknown;
+  status: string;
+  error: string | null;
+  lead_id: string | null;
+  external_id: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReplayResult {
+  entry: IngestionLogEntry;
+  lead?: Lead;
+}
+
+const toIngestionLogEntry = (row: IngestionLogRow): IngestionLogEntry => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  integrationId: row.integration_id || undefined,
+  provider: row.provider,
+  payload: row.payload,
+  status: row.status as IngestionStatus,
+  error: row.error || undefined,
+  leadId: row.lead_id || undefined,
+  externalId: row.external_id || undefined,
+  attempts: row.attempts,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const ingestionLogService = {
+  async getLogs(brokerageId: string, provider?: string, limit = 100): Promise<IngestionLogEntry[]> {
+    try {
+      let query = supabase
+        .from('lead_ingestion_logs')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (provider) query = query.eq('provider', provider);
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching ingestion logs:', error);
+        return [];
+      }
+
+      return (data || []).map(row => toIngestionLogEntry(row as IngestionLogRow));
+    } catch (error) {
+      console.error('Error in getLogs:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Counts dead-lettered payloads per provider, for the badges on the integration cards.
+   */
+  async getFailureCounts(brokerageId: string): Promise<Record<string, number>> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_ingestion_logs')
+        .select('provider')
+        .eq('brokerage_id', brokerageId)
+        .eq('status', 'FAILED');
+
+      if (error) {
+        console.error('Error fetching ingestion failures:', error);
+        return {};
+      }
+
+      return (data || []).reduce<Record<string, number>>((counts, row: { provider: string }) => {
+        counts[row.provider] = (counts[row.provider] || 0) + 1;
+        return counts;
+      }, {});
+    } catch (error) {
+      console.error('Error in getFailureCounts:', error);
+      return {};
+    }
+  },
+
+  /**
+   * Re-runs a logged payload (optionally corrected by the broker) through the provider's
+   * transformer, then routes, scores and creates the lead the same way ingest-lead does.
+   * The entry keeps the payload that was actually replayed.
+   */
+  async replay(
+    entry: IngestionLogEntry,
+    payload: unknown,
+    routeOptions: Omit<RouteOptions, 'at'>,
+    fieldMapping?: LeadFieldMapping,
+  ): Promise<ReplayResult> {
+    const transform = LEAD_TRANSFORMERS[entry.provider];
+    let outcome: { status: IngestionStatus; error: string | null; leadId: string | null; externalId: string | null };
+    let lead: Lead | undefined;
+
+    try {
+      if (!transform) throw new Error(`No transformer registered for provider "${entry.provider}"`);
+      const transformed = transform(payload, entry.brokerageId, routeOptions.fallbackAgentId, fieldMapping);
+      const { leads: [routed], decisions: [decision] } = await leadRoutingService.routeLeads(
+        entry.brokerageId,
+        [transformed],
+        routeOptions,
+        { startSla: true },
+      );
+      const scoringConfig = await leadScoringService.getConfig(entry.brokerageId);
+      lead = await leadService.createLead(scoreIngestedLead(routed, scoringConfig));
+      await leadRoutingService.recordAssignments(entry.brokerageId, [{ leadId: lead.id, decision, origin: 'INGESTION' }]);
+      outcome = { status: 'SUCCESS', error: null, leadId: lead.id, externalId: lead.externalId || null };
+    } catch (error: any) {
+      // The unique index on (brokerage, source, external id) means the lead already exists
+      const isDuplicate = error?.code === '23505';
+      outcome = {
+        status: isDuplicate ? 'DUPLICATE' : 'FAILED',
+        error: isDuplicate ? 'Duplicate lead' : error?.message || String(error),
+        leadId: null,
+        externalId: entry.externalId || null,
+      };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('lead_ingestion_logs')
+        .update({
+          payload,
+          status: outcome.status,
+          error: outcome.error,
+          lead_id: outcome.leadId,
+          external_id: outcome.externalId,
+          attempts: entry.attempts + 1,
+        })
+        .eq('id', entry.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating ingestion log:', error);
+        throw error;
+      }
+
+      return { entry: toIngestionLogEntry(data as IngestionLogRow), lead };
+    } catch (error) {
+      console.error('Error in replay:', error);
+      throw error;
+    }
+  },
+
+  async deleteLog(logId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('lead_ingestion_logs')
+        .delete()
+        .eq('id', logId);
+
+      if (error) {
+        console.error('Error deleting ingestion log:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteLog:', error);
+      return false;
+    }
+  },
+};
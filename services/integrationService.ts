@@ -0,0 +1,126 @@
+import { supabase, supabaseUrl } from '../lib/supabase.ts';
+import { LeadIntegration, LeadFieldMapping } from '../types.ts';
+
+interface LeadIntegrationRow {
+  id: string;
+  brokerage_id: string;
+  provider: string;
+  status: string;
+  api_key: string;
+  field_mapping: LeadFieldMapping | null;
+  last_ingestion_at: string | null;
+}
+
+const toLeadIntegration = (row: LeadIntegrationRow): LeadIntegration => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  provider: row.provider,
+  status: row.status as LeadIntegration['status'],
+  apiKey: row.api_key,
+  fieldMapping: row.field_mapping || undefined,
+  lastIngestionAt: row.last_ingestion_at || undefined,
+});
+
+const generateApiKey = () => (crypto.randomUUID() + crypto.randomUUID()).replace(/-/g, '');
+
+export const integrationService = {
+  /**
+   * Endpoint a provider posts leads to; requests must carry the connection's key in `X-Api-Key`.
+   */
+  getWebhookUrl(provider: string, brokerageId: string): string {
+    return `${supabaseUrl}/functions/v1/ingest-lead/${provider}/${brokerageId}`;
+  },
+
+  async getIntegrations(brokerageId: string): Promise<LeadIntegration[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_integrations')
+        .select('*')
+        .eq('brokerage_id', brokerageId);
+
+      if (error) {
+        console.error('Error fetching integrations:', error);
+        return [];
+      }
+
+      return (data || []).map(row => toLeadIntegration(row as LeadIntegrationRow));
+    } catch (error) {
+      console.error('Error in getIntegrations:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Turns a provider connection on or off, creating it with a fresh API key the first time.
+   */
+  async setStatus(brokerageId: string, provider: string, status: LeadIntegration['status']): Promise<LeadIntegration> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_integrations')
+        .upsert(
+          { brokerage_id: brokerageId, provider, status },
+          { onConflict: 'brokerage_id,provider' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating integration status:', error);
+        throw error;
+      }
+
+      return toLeadIntegration(data as LeadIntegrationRow);
+    } catch (error) {
+      console.error('Error in setStatus:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Saves the field mapping the Custom Website Hook applies to incoming payloads.
+   */
+  async updateFieldMapping(integrationId: string, fieldMapping: LeadFieldMapping): Promise<LeadIntegration> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_integrations')
+        .update({ field_mapping: fieldMapping })
+        .eq('id', integrationId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating field mapping:', error);
+        throw error;
+      }
+
+      return toLeadIntegration(data as LeadIntegrationRow);
+    } catch (error) {
+      console.error('Error in updateFieldMapping:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Replaces a connection's API key. The old key stops working immediately.
+   */
+  async regenerateApiKey(integrationId: string): Promise<LeadIntegration> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_integrations')
+        .update({ api_key: generateApiKey() })
+        .eq('id', integrationId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error regenerating API key:', error);
+        throw error;
+      }
+
+      return toLeadIntegration(data as LeadIntegrationRow);
+    } catch (error) {
+      console.error('Error in regenerateApiKey:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,92 @@
+import { supabase } from '../lib/supabase.ts';
+import { LeadActivity, LeadActivityType } from '../types.ts';
+
+interface LeadActivityRow {
+  id: string;
+  activity_type: LeadActivityType;
+  occurred_at: string;
+  title: string | null;
+  detail: string | null;
+  actor_name: string | null;
+  meta: Record<string, unknown> | null;
+}
+
+export interface ActivityCursor {
+  at: string;
+  id: string;
+}
+
+export interface ActivityPage {
+  items: LeadActivity[];
+  hasMore: boolean;
+}
+
+// Tables feeding the timeline, and the column that points each one at the lead
+const ACTIVITY_SOURCES: { table: string; column: string }[] = [
+  { table: 'leads', column: 'id' },
+  { table: 'tasks', column: 'lead_id' },
+  { table: 'deals', column: 'lead_id' },
+  { table: 'open_house_visits', column: 'lead_id' },
+  { table: 'email_recipients', column: 'contact_id' },
+  { table: 'lead_status_history', column: 'lead_id' },
+];
+
+const toActivity = (row: LeadActivityRow): LeadActivity => ({
+  id: row.id,
+  type: row.activity_type,
+  occurredAt: row.occurred_at,
+  title: row.title || '',
+  detail: row.detail || undefined,
+  actorName: row.actor_name || undefined,
+  meta: row.meta || {},
+});
+
+export const leadActivityService = {
+  /**
+   * Newest-first page of a lead's timeline. Pass the last item of the previous page as
+   * `before` to continue; an empty `types` list means every type.
+   */
+  async getActivity(
+    leadId: string,
+    { types = [], before, limit = 25 }: { types?: LeadActivityType[]; before?: ActivityCursor; limit?: number } = {},
+  ): Promise<ActivityPage> {
+    try {
+      // Ask for one extra row to learn whether an older page exists
+      const { data, error } = await supabase.rpc('get_lead_activity', {
+        p_lead_id: leadId,
+        p_types: types.length > 0 ? types : null,
+        p_before_at: before?.at ?? null,
+        p_before_id: before?.id ?? null,
+        p_limit: limit + 1,
+      });
+
+      if (error) {
+        console.error('Error fetching lead activity:', error);
+        return { items: [], hasMore: false };
+      }
+
+      const rows = (data as LeadActivityRow[]) || [];
+      return { items: rows.slice(0, limit).map(toActivity), hasMore: rows.length > limit };
+    } catch (error) {
+      console.error('Error in getActivity:', error);
+      return { items: [], hasMore: false };
+    }
+  },
+
+  // Calls `onChange` whenever a row behind the lead's timeline changes; returns the unsubscribe
+  subscribe(leadId: string, onChange: () => void): () => void {
+    const channel = ACTIVITY_SOURCES.reduce(
+      (ch, { table, column }) => ch.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: `${column}=eq.${leadId}` },
+        () => onChange(),
+      ),
+      supabase.channel(`lead-activity-${leadId}`),
+    );
+
+    channel.subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
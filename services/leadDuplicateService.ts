@@ -0,0 +1,52 @@
+import { supabase } from '../lib/supabase.ts';
+import { pairKey } from '../lib/leadDuplicates.ts';
+
+interface DismissalRow {
+  lead_id: string;
+  other_lead_id: string;
+}
+
+export const leadDuplicateService = {
+  // Pairs marked "not a duplicate", keyed the same way as `findDuplicatePairs`
+  async getDismissedKeys(brokerageId: string): Promise<Set<string>> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_duplicate_dismissals')
+        .select('lead_id, other_lead_id')
+        .eq('brokerage_id', brokerageId);
+
+      if (error) {
+        console.error('Error fetching duplicate dismissals:', error);
+        return new Set();
+      }
+
+      return new Set((data as DismissalRow[] || []).map(row => pairKey(row.lead_id, row.other_lead_id)));
+    } catch (error) {
+      console.error('Error in getDismissedKeys:', error);
+      return new Set();
+    }
+  },
+
+  async dismiss(brokerageId: string, leadId: string, otherLeadId: string, userId: string): Promise<boolean> {
+    const [first, second] = leadId < otherLeadId ? [leadId, otherLeadId] : [otherLeadId, leadId];
+
+    try {
+      const { error } = await supabase
+        .from('lead_duplicate_dismissals')
+        .upsert(
+          { brokerage_id: brokerageId, lead_id: first, other_lead_id: second, dismissed_by: userId },
+          { onConflict: 'lead_id,other_lead_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        console.error('Error dismissing duplicate:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in dismiss:', error);
+      return false;
+    }
+  },
+};
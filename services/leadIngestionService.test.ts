@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest';
+import { LEAD_TRANSFORMERS, leadIngestionService } from './leadIngestionService.ts';
+import { LeadStatus, LeadTemperature } from '../types.ts';
+
+const BROKERAGE_ID = 'brokerage-1';
+const AGENT_ID = 'agent-1';
+const NO_CONTACT = 'Payload has no email or phone number';
+
+describe('transformZillow', () => {
+  const payload = {
+    inquiry_id: 'zq_88213',
+    contact_info: { first_name: 'Dana', last_name: 'Whitfield', email: 'dana.whitfield@example.com', phone: '(512) 555-0148' },
+    property_info: { address: '4410 Ridgeview Dr, Austin, TX 78731', price: '$845,000' }
+  };
+
+  it('maps a Tech Connect inquiry onto a lead', () => {
+    const lead = leadIngestionService.transformZillow(payload, BROKERAGE_ID, AGENT_ID);
+
+    expect(lead).toMatchObject({
+      brokerageId: BROKERAGE_ID,
+      assignedAgentId: AGENT_ID,
+      firstName: 'Dana',
+      lastName: 'Whitfield',
+      email: 'dana.whitfield@example.com',
+      phone: '(512) 555-0148',
+      status: LeadStatus.NEW,
+      temperature: LeadTemperature.HOT,
+      source: 'Zillow',
+      tags: ['Zillow Lead', 'Buyer'],
+      propertyAddress: '4410 Ridgeview Dr, Austin, TX 78731',
+      budget: 845000,
+      estimatedDealValue: 845000 * 0.03,
+      externalId: 'zq_88213',
+      integrationSource: 'ZILLOW_TECH_CONNECT'
+    });
+    expect(lead.notes).toHaveLength(1);
+    expect(lead.notes[0].content).toContain('4410 Ridgeview Dr');
+  });
+
+  it('rejects an inquiry without an email or phone number', () => {
+    const contact_info = { first_name: 'Dana', last_name: 'Whitfield' };
+    expect(() => leadIngestionService.transformZillow({ ...payload, contact_info }, BROKERAGE_ID, AGENT_ID)).toThrow(NO_CONTACT);
+    expect(() => leadIngestionService.transformZillow({ property_info: payload.property_info }, BROKERAGE_ID, AGENT_ID)).toThrow(NO_CONTACT);
+  });
+});
+
+describe('transformRealtor', () => {
+  const payload = {
+    lead_id: 'rdc-5521907',
+    lead_type: 'BUY',
+    consumer: { first_name: 'Marcus', last_name: 'Oyelaran', email: 'marcus.o@example.com', phone: '415-555-0192' },
+    listing: {
+      mls_id: 'ML81977310',
+      list_price: 1295000,
+      address: { line: '28 Lupine Ct', city: 'San Mateo', state_code: 'CA', postal_code: '94402' }
+    },
+    message: 'Is the seller open to a rent-back?'
+  };
+
+  it('maps a listing inquiry onto a lead', () => {
+    const lead = leadIngestionService.transformRealtor(payload, BROKERAGE_ID, AGENT_ID);
+
+    expect(lead).toMatchObject({
+      firstName: 'Marcus',
+      lastName: 'Oyelaran',
+      email: 'marcus.o@example.com',
+      phone: '415-555-0192',
+      temperature: LeadTemperature.HOT,
+      source: 'Realtor.com',
+      tags: ['Realtor.com Lead', 'Buyer'],
+      propertyAddress: '28 Lupine Ct, San Mateo, CA 94402',
+      budget: 1295000,
+      externalId: 'rdc-5521907',
+      integrationSource: 'REALTOR_COM'
+    });
+    expect(lead.notes[0].content).toContain('Message: Is the seller open to a rent-back?');
+  });
+
+  it('tags sellers', () => {
+    const lead = leadIngestionService.transformRealtor({ ...payload, lead_type: 'SELL' }, BROKERAGE_ID, AGENT_ID);
+    expect(lead.tags).toEqual(['Realtor.com Lead', 'Seller']);
+  });
+
+  it('rejects a consumer without an email or phone number', () => {
+    const consumer = { first_name: 'Marcus', last_name: 'Oyelaran' };
+    expect(() => leadIngestionService.transformRealtor({ ...payload, consumer }, BROKERAGE_ID, AGENT_ID)).toThrow(NO_CONTACT);
+  });
+});
+
+describe('transformUpNest', () => {
+  const payload = {
+    id: 'un_330871',
+    type: 'SELLER',
+    client: { name: 'Priya Raman Iyer', email: 'priya.iyer@example.com', phone: '+1 303 555 0117' },
+    property: { address: '912 Aspen Way, Boulder, CO 80304', estimated_value: '$1,050,000' },
+    timeline: '1-3 months',
+    notes: 'Wants a pre-listing inspection'
+  };
+
+  it('maps a seller referral onto a lead, splitting the client name', () => {
+    const lead = leadIngestionService.transformUpNest(payload, BROKERAGE_ID, AGENT_ID);
+
+    expect(lead).toMatchObject({
+      firstName: 'Priya',
+      lastName: 'Raman Iyer',
+      email: 'priya.iyer@example.com',
+      phone: '+1 303 555 0117',
+      temperature: LeadTemperature.WARM,
+      source: 'UpNest',
+      tags: ['UpNest Lead', 'Seller'],
+      propertyAddress: '912 Aspen Way, Boulder, CO 80304',
+      budget: 1050000,
+      externalId: 'un_330871',
+      integrationSource: 'UPNEST'
+    });
+    expect(lead.notes[0].content).toContain('Timeline: 1-3 months. Wants a pre-listing inspection');
+  });
+
+  it('uses the top of the price range for buyers', () => {
+    const lead = leadIngestionService.transformUpNest(
+      { ...payload, type: 'BUYER', property: { price_range: { min: 400000, max: 550000 } } },
+      BROKERAGE_ID,
+      AGENT_ID
+    );
+    expect(lead.tags).toEqual(['UpNest Lead', 'Buyer']);
+    expect(lead.budget).toBe(550000);
+  });
+
+  it('rejects a client without an email or phone number', () => {
+    const client = { name: 'Priya Raman Iyer' };
+    expect(() => leadIngestionService.transformUpNest({ ...payload, client }, BROKERAGE_ID, AGENT_ID)).toThrow(NO_CONTACT);
+  });
+});
+
+describe('transformFastExpert', () => {
+  const payload = {
+    leadId: 'FE-209341',
+    firstName: 'Lena',
+    lastName: 'Kowalczyk',
+    email: 'lena.k@example.com',
+    phone: '206-555-0163',
+    leadType: 'Buyer',
+    propertyAddress: 'Capitol Hill, Seattle, WA',
+    priceRange: '$500,000 - $750,000',
+    comments: 'Looking for a 2BR condo near the light rail'
+  };
+
+  it('maps a lead notification onto a lead, budgeting the top of the price range', () => {
+    const lead = leadIngestionService.transformFastExpert(payload, BROKERAGE_ID, AGENT_ID);
+
+    expect(lead).toMatchObject({
+      firstName: 'Lena',
+      lastName: 'Kowalczyk',
+      email: 'lena.k@example.com',
+      phone: '206-555-0163',
+      temperature: LeadTemperature.WARM,
+      source: 'FastExpert',
+      tags: ['FastExpert Lead', 'Buyer'],
+      propertyAddress: 'Capitol Hill, Seattle, WA',
+      budget: 750000,
+      externalId: 'FE-209341',
+      integrationSource: 'FASTEXPERT'
+    });
+  });
+
+  it('rejects a lead without an email or phone number', () => {
+    expect(() => leadIngestionService.transformFastExpert({ ...payload, email: '', phone: ' ' }, BROKERAGE_ID, AGENT_ID)).toThrow(NO_CONTACT);
+  });
+});
+
+describe('transformCustom', () => {
+  it('reads a flat form post with the default mapping', () => {
+    const lead = leadIngestionService.transformCustom({
+      id: 'web-1042',
+      first_name: 'Theo',
+      last_name: 'Marchetti',
+      email: 'theo.marchetti@example.com',
+      phone: '555-0100',
+      budget: '650000',
+      message: 'Requested a home valuation'
+    }, BROKERAGE_ID, AGENT_ID);
+
+    expect(lead).toMatchObject({
+      firstName: 'Theo',
+      lastName: 'Marchetti',
+      email: 'theo.marchetti@example.com',
+      phone: '555-0100',
+      temperature: LeadTemperature.WARM,
+      source: 'Website',
+      tags: ['Website Lead'],
+      budget: 650000,
+      externalId: 'web-1042',
+      integrationSource: 'CUSTOM_WEBHOOK'
+    });
+  });
+
+  it('follows a broker mapping into nested fields and splits a full name', () => {
+    const lead = leadIngestionService.transformCustom({
+      submission: { uid: 'f_77120' },
+      contact: { name: 'Ana Lucia Ortega', emails: ['ana.ortega@example.com'], mobile: '(305) 555-0199' },
+      fields: { home_address: '77 Bayshore Dr, Miami, FL', max_price: '$2,100,000' }
+    }, BROKERAGE_ID, AGENT_ID, {
+      fullName: 'contact.name',
+      firstName: '',
+      lastName: '',
+      email: 'contact.emails.0',
+      phone: 'contact.mobile',
+      propertyAddress: 'fields.home_address',
+      budget: 'fields.max_price',
+      externalId: 'submission.uid'
+    });
+
+    expect(lead).toMatchObject({
+      firstName: 'Ana',
+      lastName: 'Lucia Ortega',
+      email: 'ana.ortega@example.com',
+      phone: '(305) 555-0199',
+      propertyAddress: '77 Bayshore Dr, Miami, FL',
+      budget: 2100000,
+      externalId: 'f_77120'
+    });
+  });
+
+  it('rejects a post whose mapped fields hold no email or phone number', () => {
+    expect(() => leadIngestionService.transformCustom({ first_name: 'Theo' }, BROKERAGE_ID, AGENT_ID)).toThrow(NO_CONTACT);
+    expect(() => leadIngestionService.transformCustom(
+      { contact: { email: 'theo.marchetti@example.com' } },
+      BROKERAGE_ID,
+      AGENT_ID,
+      { email: 'contact.emails.0' }
+    )).toThrow(NO_CONTACT);
+  });
+});
+
+describe('LEAD_TRANSFORMERS', () => {
+  it('registers a transformer for every provider the endpoint accepts', () => {
+    expect(Object.keys(LEAD_TRANSFORMERS).sort()).toEqual(['custom', 'fastexpert', 'realtor', 'upnest', 'zillow']);
+  });
+});
@@ -0,0 +1,94 @@
+import { supabase } from '../lib/supabase.ts';
+import { LeadRelationship, LeadRelationshipType } from '../types.ts';
+
+interface LeadRelationshipRow {
+  id: string;
+  brokerage_id: string;
+  lead_id: string;
+  related_lead_id: string;
+  relationship_type: LeadRelationshipType;
+  created_by: string | null;
+  created_at: string;
+}
+
+const toLeadRelationship = (row: LeadRelationshipRow): LeadRelationship => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  leadId: row.lead_id,
+  relatedLeadId: row.related_lead_id,
+  type: row.relationship_type,
+  createdBy: row.created_by || undefined,
+  createdAt: row.created_at,
+});
+
+export const leadRelationshipService = {
+  async getRelationships(brokerageId: string): Promise<LeadRelationship[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_relationships')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching lead relationships:', error);
+        return [];
+      }
+
+      return (data as LeadRelationshipRow[] || []).map(toLeadRelationship);
+    } catch (error) {
+      console.error('Error in getRelationships:', error);
+      return [];
+    }
+  },
+
+  async createRelationships(
+    brokerageId: string,
+    userId: string,
+    links: Pick<LeadRelationship, 'leadId' | 'relatedLeadId' | 'type'>[]
+  ): Promise<LeadRelationship[]> {
+    if (links.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('lead_relationships')
+        .insert(links.map(link => ({
+          brokerage_id: brokerageId,
+          lead_id: link.leadId,
+          related_lead_id: link.relatedLeadId,
+          relationship_type: link.type,
+          created_by: userId,
+        })))
+        .select();
+
+      if (error) {
+        console.error('Error creating lead relationships:', error);
+        return [];
+      }
+
+      return (data as LeadRelationshipRow[] || []).map(toLeadRelationship);
+    } catch (error) {
+      console.error('Error in createRelationships:', error);
+      return [];
+    }
+  },
+
+  async deleteRelationship(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('lead_relationships')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting lead relationship:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteRelationship:', error);
+      return false;
+    }
+  },
+};
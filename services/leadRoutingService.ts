@@ -0,0 +1,193 @@
+import { supabase } from '../lib/supabase.ts';
+import { AssignmentOrigin, Lead, LeadAssignment, LeadRoutingConfig, RoutingStrategy } from '../types.ts';
+import {
+  DEFAULT_ROUTING_CONFIG,
+  RouteOptions,
+  RoutingDecision,
+  RoutingStats,
+  buildRoutingStats,
+  recordDecision,
+  routeLead,
+} from '../lib/leadRouting.ts';
+import { getSlaDueAt } from '../lib/speedToLead.ts';
+
+interface LeadAssignmentRow {
+  id: string;
+  brokerage_id: string;
+  lead_id: string;
+  agent_id: string;
+  rule_id: string | null;
+  rule_name: string;
+  strategy: string | null;
+  reason: string;
+  origin: string;
+  created_at: string;
+}
+
+interface RoutingHistoryRow {
+  rule_id: string | null;
+  agent_id: string;
+  created_at: string;
+}
+
+export interface RoutedLeads {
+  leads: Lead[];
+  decisions: RoutingDecision[];
+}
+
+// Round-robin and weighted pools balance against this much recent history
+const ROUTING_HISTORY_DAYS = 30;
+
+const toLeadAssignment = (row: LeadAssignmentRow): LeadAssignment => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  leadId: row.lead_id,
+  agentId: row.agent_id,
+  ruleId: row.rule_id || undefined,
+  ruleName: row.rule_name,
+  strategy: (row.strategy as RoutingStrategy) || undefined,
+  reason: row.reason,
+  origin: row.origin as AssignmentOrigin,
+  createdAt: row.created_at,
+});
+
+export const leadRoutingService = {
+  async getConfig(brokerageId: string): Promise<LeadRoutingConfig> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_routing_configs')
+        .select('config')
+        .eq('brokerage_id', brokerageId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching routing config:', error);
+        return DEFAULT_ROUTING_CONFIG;
+      }
+
+      return { ...DEFAULT_ROUTING_CONFIG, ...(data?.config || {}) };
+    } catch (error) {
+      console.error('Error in getConfig:', error);
+      return DEFAULT_ROUTING_CONFIG;
+    }
+  },
+
+  async saveConfig(brokerageId: string, config: LeadRoutingConfig): Promise<LeadRoutingConfig> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_routing_configs')
+        .upsert({ brokerage_id: brokerageId, config })
+        .select('config')
+        .single();
+
+      if (error) {
+        console.error('Error saving routing config:', error);
+        throw error;
+      }
+
+      return { ...DEFAULT_ROUTING_CONFIG, ...data.config };
+    } catch (error) {
+      console.error('Error in saveConfig:', error);
+      throw error;
+    }
+  },
+
+  async getRoutingStats(): Promise<RoutingStats> {
+    try {
+      const since = new Date(Date.now() - ROUTING_HISTORY_DAYS * 86400000).toISOString();
+      const { data, error } = await supabase.rpc('get_lead_routing_history', { p_since: since });
+
+      if (error) {
+        console.error('Error fetching routing history:', error);
+        return buildRoutingStats([]);
+      }
+
+      return buildRoutingStats((data as RoutingHistoryRow[] || []).map(row => ({
+        ruleId: row.rule_id || undefined,
+        agentId: row.agent_id,
+        createdAt: row.created_at,
+      })));
+    } catch (error) {
+      console.error('Error in getRoutingStats:', error);
+      return buildRoutingStats([]);
+    }
+  },
+
+  /**
+   * Assigns each lead an agent with the brokerage's routing rules. Leads in the same batch
+   * see each other's assignments, so an import is spread across the pool. Ingested leads
+   * pass `startSla` to start the speed-to-lead clock for their source.
+   */
+  async routeLeads(
+    brokerageId: string,
+    leads: Lead[],
+    options: Omit<RouteOptions, 'at'>,
+    { startSla = false }: { startSla?: boolean } = {},
+  ): Promise<RoutedLeads> {
+    const [config, stats] = await Promise.all([this.getConfig(brokerageId), this.getRoutingStats()]);
+
+    const decisions = leads.map(lead => {
+      const decision = routeLead(lead, config, stats, options);
+      recordDecision(stats, decision);
+      return decision;
+    });
+
+    return {
+      leads: leads.map((lead, i) => ({
+        ...lead,
+        assignedAgentId: decisions[i].agentId,
+        ...(startSla ? { slaDueAt: getSlaDueAt(config, lead.source) } : {}),
+      })),
+      decisions,
+    };
+  },
+
+  async recordAssignments(
+    brokerageId: string,
+    assignments: { leadId: string; decision: RoutingDecision; origin: AssignmentOrigin }[],
+  ): Promise<void> {
+    if (assignments.length === 0) return;
+
+    try {
+      const { error } = await supabase
+        .from('lead_assignments')
+        .insert(assignments.map(({ leadId, decision, origin }) => ({
+          brokerage_id: brokerageId,
+          lead_id: leadId,
+          agent_id: decision.agentId,
+          rule_id: decision.ruleId || null,
+          rule_name: decision.ruleName,
+          strategy: decision.strategy || null,
+          reason: decision.reason,
+          origin,
+        })));
+
+      if (error) {
+        console.error('Error recording lead assignments:', error);
+      }
+    } catch (error) {
+      console.error('Error in recordAssignments:', error);
+    }
+  },
+
+  async getAssignments(brokerageId: string, limit = 50): Promise<LeadAssignment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_assignments')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching lead assignments:', error);
+        return [];
+      }
+
+      return (data || []).map(row => toLeadAssignment(row as LeadAssignmentRow));
+    } catch (error) {
+      console.error('Error in getAssignments:', error);
+      return [];
+    }
+  },
+};
@@ -0,0 +1,102 @@
+import { supabase } from '../lib/supabase.ts';
+import { Lead, LeadScoringConfig } from '../types.ts';
+import { DEFAULT_SCORING_CONFIG, LeadScore, LeadScoringSignals, NO_SIGNALS, scoreLead, withScoringDefaults } from '../lib/leadScoring.ts';
+
+interface ScoringSignalsRow {
+  lead_id: string;
+  last_contact_at: string | null;
+  email_opens: number;
+  open_house_visits: number;
+  timeline: string | null;
+}
+
+const toSignals = (row: ScoringSignalsRow): LeadScoringSignals => ({
+  lastContactAt: row.last_contact_at || undefined,
+  emailOpens: row.email_opens || 0,
+  openHouseVisits: row.open_house_visits || 0,
+  timeline: row.timeline || undefined,
+});
+
+export const leadScoringService = {
+  async getConfig(brokerageId: string): Promise<LeadScoringConfig> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_scoring_configs')
+        .select('config')
+        .eq('brokerage_id', brokerageId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching scoring config:', error);
+        return DEFAULT_SCORING_CONFIG;
+      }
+
+      return withScoringDefaults(data?.config);
+    } catch (error) {
+      console.error('Error in getConfig:', error);
+      return DEFAULT_SCORING_CONFIG;
+    }
+  },
+
+  async saveConfig(brokerageId: string, config: LeadScoringConfig): Promise<LeadScoringConfig> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_scoring_configs')
+        .upsert({ brokerage_id: brokerageId, config })
+        .select('config')
+        .single();
+
+      if (error) {
+        console.error('Error saving scoring config:', error);
+        throw error;
+      }
+
+      return withScoringDefaults(data.config);
+    } catch (error) {
+      console.error('Error in saveConfig:', error);
+      throw error;
+    }
+  },
+
+  // Signals for one lead, or every visible lead when `leadId` is omitted
+  async getSignals(leadId?: string): Promise<Map<string, LeadScoringSignals>> {
+    try {
+      const { data, error } = await supabase.rpc('get_lead_scoring_signals', { p_lead_id: leadId ?? null });
+
+      if (error) {
+        console.error('Error fetching scoring signals:', error);
+        return new Map();
+      }
+
+      return new Map((data as ScoringSignalsRow[] || []).map(row => [row.lead_id, toSignals(row)]));
+    } catch (error) {
+      console.error('Error in getSignals:', error);
+      return new Map();
+    }
+  },
+
+  async scoreLead(lead: Lead, config: LeadScoringConfig): Promise<LeadScore> {
+    const signals = await this.getSignals(lead.id);
+    return scoreLead(lead, signals.get(lead.id) || NO_SIGNALS, config);
+  },
+
+  /**
+   * Asks the rescore-leads function to rescore the brokerage now, e.g. after the settings
+   * change. Scores are saved there as a system change. Brokers only.
+   */
+  async rescoreLeads(): Promise<boolean> {
+    try {
+      const { error } = await supabase.functions.invoke('rescore-leads', { method: 'POST' });
+
+      if (error) {
+        console.error('Error rescoring leads:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in rescoreLeads:', error);
+      return false;
+    }
+  },
+};
@@ -0,0 +1,345 @@
+import { supabase } from '../lib/supabase.ts';
+import { formatPhone, toStoredPhone } from '../lib/phone.ts';
+import { locateAddress } from '../lib/geocoding.ts';
+import { AddressComponents, CustomFieldValue, GeoLocation, Lead, LeadStatus, LeadTemperature, LeadNote, LeadStatusChange } from '../types.ts';
+
+interface LeadRow {
+  id: string;
+  brokerage_id: string;
+  assigned_agent_id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  phone_extension: string | null;
+  status: string;
+  temperature: string;
+  source: string;
+  tags: string[] | null;
+  property_type: string;
+  property_address: string | null;
+  property_address_components: AddressComponents | null;
+  property_location: GeoLocation | null;
+  budget: number | string;
+  estimated_deal_value: number | string;
+  notes: LeadNote[] | null;
+  dob: string | null;
+  wedding_anniversary: string | null;
+  home_anniversary: string | null;
+  family_notes: string | null;
+  open_house_id: string | null;
+  check_in_time: string | null;
+  external_id: string | null;
+  integration_source: string | null;
+  sla_due_at: string | null;
+  merged_into_id: string | null;
+  status_changed_at: string | null;
+  score: number | null;
+  custom_fields: Record<string, CustomFieldValue> | null;
+  is_deleted: boolean;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StatusChangeRow {
+  id: string;
+  lead_id: string;
+  field: LeadStatusChange['field'];
+  from_value: string | null;
+  to_value: string;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+const toLead = (row: LeadRow): Lead => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  assignedAgentId: row.assigned_agent_id,
+  firstName: row.first_name,
+  lastName: row.last_name,
+  email: row.email,
+  phone: formatPhone(row.phone, row.phone_extension),
+  status: row.status as LeadStatus,
+  temperature: row.temperature as LeadTemperature,
+  source: row.source,
+  tags: row.tags || [],
+  propertyType: row.property_type as Lead['propertyType'],
+  propertyAddress: row.property_address || undefined,
+  propertyAddressComponents: row.property_address_components || undefined,
+  propertyLocation: row.property_location || undefined,
+  budget: Number(row.budget) || 0,
+  notes: row.notes || [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  estimatedDealValue: Number(row.estimated_deal_value) || 0,
+  dob: row.dob || undefined,
+  weddingAnniversary: row.wedding_anniversary || undefined,
+  homeAnniversary: row.home_anniversary || undefined,
+  familyNotes: row.family_notes || undefined,
+  isDeleted: row.is_deleted,
+  deletedAt: row.deleted_at || undefined,
+  openHouseId: row.open_house_id || undefined,
+  checkInTime: row.check_in_time || undefined,
+  externalId: row.external_id || undefined,
+  integrationSource: row.integration_source || undefined,
+  slaDueAt: row.sla_due_at || undefined,
+  mergedIntoId: row.merged_into_id || undefined,
+  statusChangedAt: row.status_changed_at || undefined,
+  score: row.score ?? undefined,
+  customFields: row.custom_fields || {},
+});
+
+// Only fields present on `lead` are written, so this doubles as a patch builder.
+// Empty strings are stored as NULL because date columns reject ''. Phones are stored
+// as E.164 when they can be, otherwise as typed, with the extension split off.
+const toLeadRow = (lead: Partial<Lead>): Partial<LeadRow> => {
+  const row: Partial<LeadRow> = {};
+
+  if (lead.brokerageId !== undefined) row.brokerage_id = lead.brokerageId;
+  if (lead.assignedAgentId !== undefined) row.assigned_agent_id = lead.assignedAgentId;
+  if (lead.firstName !== undefined) row.first_name = lead.firstName;
+  if (lead.lastName !== undefined) row.last_name = lead.lastName;
+  if (lead.email !== undefined) row.email = lead.email;
+  if (lead.phone !== undefined) {
+    const { phone, extension } = toStoredPhone(lead.phone);
+    row.phone = phone || '';
+    row.phone_extension = extension;
+  }
+  if (lead.status !== undefined) row.status = lead.status;
+  if (lead.temperature !== undefined) row.temperature = lead.temperature;
+  if (lead.source !== undefined) row.source = lead.source;
+  if (lead.tags !== undefined) row.tags = lead.tags;
+  if (lead.propertyType !== undefined) row.property_type = lead.propertyType;
+  if (lead.propertyAddress !== undefined) row.property_address = lead.propertyAddress || null;
+  if (lead.budget !== undefined) row.budget = lead.budget;
+  if (lead.estimatedDealValue !== undefined) row.estimated_deal_value = lead.estimatedDealValue;
+  if (lead.notes !== undefined) row.notes = lead.notes;
+  if (lead.dob !== undefined) row.dob = lead.dob || null;
+  if (lead.weddingAnniversary !== undefined) row.wedding_anniversary = lead.weddingAnniversary || null;
+  if (lead.homeAnniversary !== undefined) row.home_anniversary = lead.homeAnniversary || null;
+  if (lead.familyNotes !== undefined) row.family_notes = lead.familyNotes || null;
+  if (lead.openHouseId !== undefined) row.open_house_id = lead.openHouseId || null;
+  if (lead.checkInTime !== undefined) row.check_in_time = lead.checkInTime || null;
+  if (lead.externalId !== undefined) row.external_id = lead.externalId || null;
+  if (lead.integrationSource !== undefined) row.integration_source = lead.integrationSource || null;
+  if (lead.slaDueAt !== undefined) row.sla_due_at = lead.slaDueAt || null;
+  if (lead.score !== undefined) row.score = lead.score;
+  if (lead.customFields !== undefined) row.custom_fields = lead.customFields;
+  if (lead.isDeleted !== undefined) row.is_deleted = lead.isDeleted;
+  if (lead.deletedAt !== undefined) row.deleted_at = lead.deletedAt || null;
+
+  return row;
+};
+
+// Parsed and geocoded alongside every write of the address, so they never go stale
+const withLocatedAddress = async (row: Partial<LeadRow>): Promise<Partial<LeadRow>> => {
+  if (row.property_address === undefined) return row;
+  const { components, location } = await locateAddress(row.property_address);
+  return { ...row, property_address_components: components, property_location: location };
+};
+
+export const leadService = {
+  async getLeads(brokerageId: string): Promise<Lead[]> {
+    try {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching leads:', error);
+        return [];
+      }
+
+      return (data || []).map(row => toLead(row as LeadRow));
+    } catch (error) {
+      console.error('Error in getLeads:', error);
+      return [];
+    }
+  },
+
+  async getLead(leadId: string): Promise<Lead | null> {
+    try {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .eq('id', leadId)
+        .maybeSingle();
+
+      if (error || !data) {
+        console.error('Error fetching lead:', error);
+        return null;
+      }
+
+      return toLead(data as LeadRow);
+    } catch (error) {
+      console.error('Error in getLead:', error);
+      return null;
+    }
+  },
+
+  async createLeads(leads: Lead[]): Promise<Lead[]> {
+    if (leads.length === 0) return [];
+
+    try {
+      // Client-side ids (e.g. `lead_171...`) are placeholders; the database assigns the uuid.
+      const rows = await Promise.all(leads.map(({ id, createdAt, updatedAt, ...lead }) => withLocatedAddress(toLeadRow(lead))));
+
+      const { data, error } = await supabase
+        .from('leads')
+        .insert(rows)
+        .select();
+
+      if (error) {
+        console.error('Error creating leads:', error);
+        throw error;
+      }
+
+      return (data || []).map(row => toLead(row as LeadRow));
+    } catch (error) {
+      console.error('Error in createLeads:', error);
+      throw error;
+    }
+  },
+
+  async createLead(lead: Lead): Promise<Lead> {
+    const [created] = await this.createLeads([lead]);
+    return created;
+  },
+
+  async updateLead(leadId: string, updates: Partial<Lead>): Promise<Lead | null> {
+    try {
+      const { id, createdAt, updatedAt, ...patch } = updates;
+
+      const { data, error } = await supabase
+        .from('leads')
+        .update(await withLocatedAddress(toLeadRow(patch)))
+        .eq('id', leadId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating lead:', error);
+        return null;
+      }
+
+      return toLead(data as LeadRow);
+    } catch (error) {
+      console.error('Error in updateLead:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Adds a note to the top of a lead's notes without rewriting the rest, so notes
+   * written meanwhile by teammates or the SLA enforcer are kept.
+   */
+  async addNote(leadId: string, note: LeadNote): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('append_lead_note', { p_lead_id: leadId, p_note: note });
+
+      if (error) {
+        console.error('Error adding lead note:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in addNote:', error);
+      return false;
+    }
+  },
+
+  async softDeleteLead(leadId: string): Promise<boolean> {
+    const updated = await this.updateLead(leadId, {
+      isDeleted: true,
+      deletedAt: new Date().toISOString(),
+    });
+    return updated !== null;
+  },
+
+  async restoreLead(leadId: string): Promise<boolean> {
+    const updated = await this.updateLead(leadId, { isDeleted: false, deletedAt: '' });
+    return updated !== null;
+  },
+
+  /**
+   * Applies the fields picked from the duplicate to the survivor, combines both leads' tags
+   * and notes under `note`, moves the duplicate's tasks, deals and history onto the survivor
+   * and soft-deletes the duplicate in one transaction. Returns the saved survivor.
+   */
+  async mergeLeads(survivorId: string, duplicateId: string, changes: Partial<Lead>, note: LeadNote): Promise<Lead> {
+    try {
+      const { id, createdAt, updatedAt, ...patch } = changes;
+
+      const { error } = await supabase.rpc('merge_leads', {
+        p_survivor_id: survivorId,
+        p_duplicate_id: duplicateId,
+        p_changes: await withLocatedAddress(toLeadRow(patch)),
+        p_note: note,
+      });
+
+      if (error) {
+        console.error('Error merging leads:', error);
+        throw error;
+      }
+
+      const saved = await this.getLead(survivorId);
+      if (!saved) throw new Error('Could not load the merged lead');
+      return saved;
+    } catch (error) {
+      console.error('Error in mergeLeads:', error);
+      throw error;
+    }
+  },
+
+  // Oldest first, so consecutive entries bound each stint in a stage
+  async getStatusHistory(leadId: string): Promise<LeadStatusChange[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_status_history')
+        .select('*')
+        .eq('lead_id', leadId)
+        .order('changed_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching status history:', error);
+        return [];
+      }
+
+      return (data as StatusChangeRow[] || []).map(row => ({
+        id: row.id,
+        leadId: row.lead_id,
+        field: row.field,
+        fromValue: row.from_value || undefined,
+        toValue: row.to_value,
+        changedBy: row.changed_by || undefined,
+        changedAt: row.changed_at,
+      }));
+    } catch (error) {
+      console.error('Error in getStatusHistory:', error);
+      return [];
+    }
+  },
+
+  async permanentlyDeleteLead(leadId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('leads')
+        .delete()
+        .eq('id', leadId);
+
+      if (error) {
+        console.error('Error deleting lead:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in permanentlyDeleteLead:', error);
+      return false;
+    }
+  },
+};
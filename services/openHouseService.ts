@@ -0,0 +1,281 @@
+import { supabase } from '../lib/supabase.ts';
+import { formatPhone, toStoredPhone } from '../lib/phone.ts';
+import { locateAddress } from '../lib/geocoding.ts';
+import { AddressComponents, GeoLocation, OpenHouse, OpenHouseVisit, User } from '../types.ts';
+
+interface OpenHouseRow {
+  id: string;
+  brokerage_id: string;
+  assigned_agent_id: string;
+  assigned_agent_name: string;
+  address: string;
+  address_components?: AddressComponents | null;
+  location?: GeoLocation | null;
+  date: string;
+  start_time: string;
+  end_time: string;
+  date2: string | null;
+  start_time2: string | null;
+  end_time2: string | null;
+  status: string;
+  visitor_count: number;
+  is_manual_agent: boolean | null;
+  manual_agent_phone: string | null;
+  manual_agent_phone_extension: string | null;
+  manual_agent_license: string | null;
+  sign_in_token?: string;
+  is_deleted?: boolean;
+  deleted_at?: string | null;
+}
+
+interface PublicOpenHouseRow extends OpenHouseRow {
+  host_phone: string | null;
+  host_license: string | null;
+}
+
+export interface PublicOpenHouse {
+  openHouse: OpenHouse;
+  host: Pick<User, 'phone' | 'licenseNumber'>;
+}
+
+// What a visitor types on the public check-in form. The lead, note and follow-up
+// task are built from these in submit_open_house_sign_in.
+export interface PublicSignIn {
+  visitorType: OpenHouseVisit['visitorType'];
+  fullName: string;
+  email: string;
+  phone: string;
+  interest?: 'Buying' | 'Selling' | 'Both';
+  timeline?: string;
+  priceRange?: string;
+  workingWithAgent?: 'YES' | 'NO';
+  agentBrokerage?: string;
+  clientName?: string;
+  notes?: string;
+}
+
+// Postgres returns `time` as HH:MM:SS; the forms work in HH:MM
+const toTimeString = (value: string | null): string | undefined => value ? value.slice(0, 5) : undefined;
+
+const toOpenHouse = (row: OpenHouseRow): OpenHouse => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  assignedAgentId: row.assigned_agent_id,
+  assignedAgentName: row.assigned_agent_name,
+  address: row.address,
+  addressComponents: row.address_components || undefined,
+  location: row.location || undefined,
+  date: row.date,
+  startTime: toTimeString(row.start_time) || '',
+  endTime: toTimeString(row.end_time) || '',
+  date2: row.date2 || undefined,
+  startTime2: toTimeString(row.start_time2),
+  endTime2: toTimeString(row.end_time2),
+  status: row.status as OpenHouse['status'],
+  visitorCount: row.visitor_count,
+  isManualAgent: row.is_manual_agent || false,
+  manualAgentPhone: row.manual_agent_phone ? formatPhone(row.manual_agent_phone, row.manual_agent_phone_extension) : undefined,
+  manualAgentLicense: row.manual_agent_license || undefined,
+  signInToken: row.sign_in_token,
+  isDeleted: row.is_deleted,
+  deletedAt: row.deleted_at || undefined,
+});
+
+const toOpenHouseRow = (oh: Partial<OpenHouse>): Partial<OpenHouseRow> => {
+  const row: Partial<OpenHouseRow> = {};
+
+  if (oh.brokerageId !== undefined) row.brokerage_id = oh.brokerageId;
+  if (oh.assignedAgentId !== undefined) row.assigned_agent_id = oh.assignedAgentId;
+  if (oh.assignedAgentName !== undefined) row.assigned_agent_name = oh.assignedAgentName;
+  if (oh.address !== undefined) row.address = oh.address;
+  if (oh.date !== undefined) row.date = oh.date;
+  if (oh.startTime !== undefined) row.start_time = oh.startTime;
+  if (oh.endTime !== undefined) row.end_time = oh.endTime;
+  // The optional second session is cleared when its date is blanked in the form
+  if (oh.date2 !== undefined) {
+    row.date2 = oh.date2 || null;
+    row.start_time2 = oh.date2 ? oh.startTime2 || null : null;
+    row.end_time2 = oh.date2 ? oh.endTime2 || null : null;
+  }
+  if (oh.status !== undefined) row.status = oh.status;
+  if (oh.visitorCount !== undefined) row.visitor_count = oh.visitorCount;
+  if (oh.isManualAgent !== undefined) row.is_manual_agent = oh.isManualAgent;
+  if (oh.manualAgentPhone !== undefined) {
+    const { phone, extension } = toStoredPhone(oh.manualAgentPhone);
+    row.manual_agent_phone = phone;
+    row.manual_agent_phone_extension = extension;
+  }
+  if (oh.manualAgentLicense !== undefined) row.manual_agent_license = oh.manualAgentLicense || null;
+  if (oh.isDeleted !== undefined) row.is_deleted = oh.isDeleted;
+  if (oh.deletedAt !== undefined) row.deleted_at = oh.deletedAt || null;
+
+  return row;
+};
+
+// Parsed and geocoded alongside every write of the address, so they never go stale
+const withLocatedAddress = async (row: Partial<OpenHouseRow>): Promise<Partial<OpenHouseRow>> => {
+  if (row.address === undefined) return row;
+  const { components, location } = await locateAddress(row.address);
+  return { ...row, address_components: components, location };
+};
+
+export const openHouseService = {
+  async getOpenHouses(brokerageId: string): Promise<OpenHouse[]> {
+    try {
+      const { data, error } = await supabase
+        .from('open_houses')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('date', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching open houses:', error);
+        return [];
+      }
+
+      return (data || []).map(row => toOpenHouse(row as OpenHouseRow));
+    } catch (error) {
+      console.error('Error in getOpenHouses:', error);
+      return [];
+    }
+  },
+
+  async createOpenHouse(oh: OpenHouse): Promise<OpenHouse> {
+    try {
+      // The visitor count and sign-in token are owned by the database
+      const { id, visitorCount, signInToken, ...fields } = oh;
+
+      const { data, error } = await supabase
+        .from('open_houses')
+        .insert(await withLocatedAddress(toOpenHouseRow(fields)))
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating open house:', error);
+        throw error;
+      }
+
+      return toOpenHouse(data as OpenHouseRow);
+    } catch (error) {
+      console.error('Error in createOpenHouse:', error);
+      throw error;
+    }
+  },
+
+  async updateOpenHouse(ohId: string, updates: Partial<OpenHouse>): Promise<OpenHouse | null> {
+    try {
+      const { id, visitorCount, signInToken, ...patch } = updates;
+
+      const { data, error } = await supabase
+        .from('open_houses')
+        .update(await withLocatedAddress(toOpenHouseRow(patch)))
+        .eq('id', ohId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating open house:', error);
+        return null;
+      }
+
+      return toOpenHouse(data as OpenHouseRow);
+    } catch (error) {
+      console.error('Error in updateOpenHouse:', error);
+      return null;
+    }
+  },
+
+  async softDeleteOpenHouse(ohId: string): Promise<boolean> {
+    const updated = await this.updateOpenHouse(ohId, {
+      isDeleted: true,
+      deletedAt: new Date().toISOString(),
+    });
+    return updated !== null;
+  },
+
+  async restoreOpenHouse(ohId: string): Promise<boolean> {
+    const updated = await this.updateOpenHouse(ohId, { isDeleted: false, deletedAt: '' });
+    return updated !== null;
+  },
+
+  async permanentlyDeleteOpenHouse(ohId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('open_houses')
+        .delete()
+        .eq('id', ohId);
+
+      if (error) {
+        console.error('Error deleting open house:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in permanentlyDeleteOpenHouse:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Looks up an open house from its public sign-in token. Works without a session.
+   */
+  async getPublicOpenHouse(token: string): Promise<PublicOpenHouse | null> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_open_house_by_token', { p_token: token })
+        .maybeSingle();
+
+      if (error || !data) {
+        if (error) console.error('Error fetching open house by token:', error);
+        return null;
+      }
+
+      const row = data as PublicOpenHouseRow;
+      return {
+        openHouse: toOpenHouse(row),
+        host: {
+          phone: row.host_phone ? formatPhone(row.host_phone) : undefined,
+          licenseNumber: row.host_license || undefined,
+        },
+      };
+    } catch (error) {
+      console.error('Error in getPublicOpenHouse:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Records a public sign-in. Only the form fields are sent; the database creates the
+   * lead and follow-up task for the open house host.
+   */
+  async submitPublicSignIn(token: string, signIn: PublicSignIn): Promise<string> {
+    try {
+      const { data, error } = await supabase.rpc('submit_open_house_sign_in', {
+        p_token: token,
+        p_visitor_type: signIn.visitorType,
+        p_full_name: signIn.fullName,
+        p_email: signIn.email,
+        p_phone: signIn.phone,
+        p_interest: signIn.interest ?? null,
+        p_timeline: signIn.timeline ?? null,
+        p_price_range: signIn.priceRange ?? null,
+        p_working_with_agent: signIn.workingWithAgent ?? null,
+        p_agent_brokerage: signIn.agentBrokerage ?? null,
+        p_client_name: signIn.clientName ?? null,
+        p_notes: signIn.notes ?? null,
+      });
+
+      if (error) {
+        console.error('Error submitting open house sign-in:', error);
+        throw error;
+      }
+
+      return data as string;
+    } catch (error) {
+      console.error('Error in submitPublicSignIn:', error);
+      throw error;
+    }
+  },
+};
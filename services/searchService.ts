@@ -0,0 +1,54 @@
+import { supabase } from '../lib/supabase.ts';
+import { SearchResult, SearchResultKind } from '../types.ts';
+
+interface SearchRow {
+  kind: SearchResultKind;
+  record_id: string;
+  lead_id: string | null;
+  title: string | null;
+  subtitle: string | null;
+  snippet: string | null;
+  rank: number | string;
+}
+
+// Markers search_crm puts around each match in a snippet
+export const SNIPPET_START = '\u0002';
+export const SNIPPET_END = '\u0003';
+
+const toSearchResult = (row: SearchRow): SearchResult => ({
+  kind: row.kind,
+  id: row.record_id,
+  leadId: row.lead_id || undefined,
+  title: row.title || '',
+  subtitle: row.subtitle || undefined,
+  snippet: row.snippet || '',
+  rank: Number(row.rank) || 0,
+});
+
+export const searchService = {
+  /**
+   * Ranked hits across everything the caller can see, best first. Every word must
+   * prefix-match; an empty query returns nothing.
+   */
+  async search(query: string, kinds: SearchResultKind[] = [], limit = 20): Promise<SearchResult[]> {
+    if (!query.trim()) return [];
+
+    try {
+      const { data, error } = await supabase.rpc('search_crm', {
+        p_query: query,
+        p_kinds: kinds.length > 0 ? kinds : null,
+        p_limit: limit,
+      });
+
+      if (error) {
+        console.error('Error searching:', error);
+        return [];
+      }
+
+      return ((data as SearchRow[]) || []).map(toSearchResult);
+    } catch (error) {
+      console.error('Error in search:', error);
+      return [];
+    }
+  },
+};
@@ -0,0 +1,49 @@
+import { supabase } from '../lib/supabase.ts';
+import { SlaBreach } from '../types.ts';
+
+interface SlaBreachRow {
+  id: string;
+  brokerage_id: string;
+  lead_id: string;
+  agent_id: string;
+  source: string;
+  due_at: string;
+  breached_at: string;
+  reassigned_to_agent_id: string | null;
+  created_at: string;
+}
+
+const toSlaBreach = (row: SlaBreachRow): SlaBreach => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  leadId: row.lead_id,
+  agentId: row.agent_id,
+  source: row.source,
+  dueAt: row.due_at,
+  breachedAt: row.breached_at,
+  reassignedToAgentId: row.reassigned_to_agent_id || undefined,
+});
+
+export const slaService = {
+  // Breaches are written by the enforce-lead-sla edge function; the app only reports on them
+  async getBreaches(brokerageId: string, since: Date): Promise<SlaBreach[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_sla_breaches')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .gte('breached_at', since.toISOString())
+        .order('breached_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching SLA breaches:', error);
+        return [];
+      }
+
+      return (data || []).map(row => toSlaBreach(row as SlaBreachRow));
+    } catch (error) {
+      console.error('Error in getBreaches:', error);
+      return [];
+    }
+  },
+};
@@ -0,0 +1,116 @@
+import { supabase } from '../lib/supabase.ts';
+import { SmartList } from '../types.ts';
+
+interface SmartListRow {
+  id: string;
+  brokerage_id: string;
+  created_by: string | null;
+  name: string;
+  query: string;
+  is_shared: boolean;
+  created_at: string;
+}
+
+const toSmartList = (row: SmartListRow): SmartList => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  createdBy: row.created_by || undefined,
+  name: row.name,
+  query: row.query || '',
+  isShared: row.is_shared,
+  createdAt: row.created_at,
+});
+
+export const smartListService = {
+  // The caller's own lists plus lists shared in the brokerage
+  async getLists(brokerageId: string): Promise<SmartList[]> {
+    try {
+      const { data, error } = await supabase
+        .from('smart_lists')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching smart lists:', error);
+        return [];
+      }
+
+      return (data as SmartListRow[] || []).map(toSmartList);
+    } catch (error) {
+      console.error('Error in getLists:', error);
+      return [];
+    }
+  },
+
+  async createList(brokerageId: string, userId: string, list: Pick<SmartList, 'name' | 'query' | 'isShared'>): Promise<SmartList | null> {
+    try {
+      const { data, error } = await supabase
+        .from('smart_lists')
+        .insert({
+          brokerage_id: brokerageId,
+          created_by: userId,
+          name: list.name,
+          query: list.query,
+          is_shared: list.isShared,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating smart list:', error);
+        return null;
+      }
+
+      return toSmartList(data as SmartListRow);
+    } catch (error) {
+      console.error('Error in createList:', error);
+      return null;
+    }
+  },
+
+  async updateList(id: string, updates: Partial<Pick<SmartList, 'name' | 'query' | 'isShared'>>): Promise<SmartList | null> {
+    try {
+      const row: Record<string, unknown> = {};
+      if (updates.name !== undefined) row.name = updates.name;
+      if (updates.query !== undefined) row.query = updates.query;
+      if (updates.isShared !== undefined) row.is_shared = updates.isShared;
+
+      const { data, error } = await supabase
+        .from('smart_lists')
+        .update(row)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating smart list:', error);
+        return null;
+      }
+
+      return toSmartList(data as SmartListRow);
+    } catch (error) {
+      console.error('Error in updateList:', error);
+      return null;
+    }
+  },
+
+  async deleteList(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('smart_lists')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting smart list:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteList:', error);
+      return false;
+    }
+  },
+};
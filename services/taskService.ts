@@ -0,0 +1,216 @@
+import { supabase } from '../lib/supabase.ts';
+import { Task } from '../types.ts';
+import { getNextOccurrence, advanceRRule } from '../lib/recurrence.ts';
+
+interface TaskRow {
+  id: string;
+  brokerage_id: string;
+  assigned_user_id: string;
+  lead_id: string | null;
+  title: string;
+  description: string;
+  due_date: string;
+  end_date: string | null;
+  is_completed: boolean;
+  completed_at: string | null;
+  priority: string;
+  recurrence_rule: string | null;
+  previous_occurrence_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const toTask = (row: TaskRow): Task => ({
+  id: row.id,
+  brokerageId: row.brokerage_id,
+  assignedUserId: row.assigned_user_id,
+  leadId: row.lead_id || undefined,
+  title: row.title,
+  description: row.description,
+  dueDate: row.due_date,
+  endDate: row.end_date || undefined,
+  isCompleted: row.is_completed,
+  completedAt: row.completed_at || undefined,
+  priority: row.priority as Task['priority'],
+  recurrenceRule: row.recurrence_rule || undefined,
+  previousOccurrenceId: row.previous_occurrence_id || undefined,
+});
+
+const toTaskRow = (task: Partial<Task>): Partial<TaskRow> => {
+  const row: Partial<TaskRow> = {};
+
+  if (task.brokerageId !== undefined) row.brokerage_id = task.brokerageId;
+  if (task.assignedUserId !== undefined) row.assigned_user_id = task.assignedUserId;
+  if ('leadId' in task) row.lead_id = task.leadId || null;
+  if (task.title !== undefined) row.title = task.title;
+  if (task.description !== undefined) row.description = task.description;
+  if (task.dueDate !== undefined) row.due_date = task.dueDate;
+  if ('endDate' in task) row.end_date = task.endDate || null;
+  if (task.isCompleted !== undefined) row.is_completed = task.isCompleted;
+  if ('completedAt' in task) row.completed_at = task.completedAt || null;
+  if (task.priority !== undefined) row.priority = task.priority;
+  if ('recurrenceRule' in task) row.recurrence_rule = task.recurrenceRule || null;
+  if ('previousOccurrenceId' in task) row.previous_occurrence_id = task.previousOccurrenceId || null;
+
+  return row;
+};
+
+export const taskService = {
+  async getTasks(brokerageId: string): Promise<Task[]> {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('brokerage_id', brokerageId)
+        .order('due_date', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching tasks:', error);
+        return [];
+      }
+
+      return (data || []).map(row => toTask(row as TaskRow));
+    } catch (error) {
+      console.error('Error in getTasks:', error);
+      return [];
+    }
+  },
+
+  async createTask(task: Task): Promise<Task> {
+    try {
+      // Client ids (`task_...`) are placeholders, but undoing a delete re-inserts the original uuid
+      const row = { ...toTaskRow(task), ...(UUID_PATTERN.test(task.id) ? { id: task.id } : {}) };
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert(row)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating task:', error);
+        throw error;
+      }
+
+      return toTask(data as TaskRow);
+    } catch (error) {
+      console.error('Error in createTask:', error);
+      throw error;
+    }
+  },
+
+  async updateTask(taskId: string, updates: Partial<Task>): Promise<Task | null> {
+    try {
+      const { id, ...patch } = updates;
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .update(toTaskRow(patch))
+        .eq('id', taskId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating task:', error);
+        return null;
+      }
+
+      return toTask(data as TaskRow);
+    } catch (error) {
+      console.error('Error in updateTask:', error);
+      return null;
+    }
+  },
+
+  async deleteTask(taskId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('id', taskId);
+
+      if (error) {
+        console.error('Error deleting task:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteTask:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Builds the follow-up occurrence for a recurring task, keeping the same
+   * time of day and duration. Returns null when the task does not repeat or
+   * its series has ended.
+   */
+  buildNextOccurrence(task: Task): Task | null {
+    if (!task.recurrenceRule) return null;
+
+    const nextDue = getNextOccurrence(task.dueDate, task.recurrenceRule);
+    if (!nextDue) return null;
+
+    const duration = task.endDate ? new Date(task.endDate).getTime() - new Date(task.dueDate).getTime() : null;
+
+    return {
+      ...task,
+      id: `task_${Date.now()}`,
+      dueDate: nextDue,
+      endDate: duration !== null ? new Date(new Date(nextDue).getTime() + duration).toISOString() : undefined,
+      isCompleted: false,
+      completedAt: undefined,
+      recurrenceRule: advanceRRule(task.recurrenceRule, task.dueDate),
+      previousOccurrenceId: task.id,
+    };
+  },
+
+  /**
+   * Marks a task complete and, for recurring tasks, inserts the next occurrence.
+   */
+  async completeTask(task: Task): Promise<{ task: Task | null; nextTask: Task | null }> {
+    const completed = await this.updateTask(task.id, { isCompleted: true, completedAt: new Date().toISOString() });
+    const next = completed ? this.buildNextOccurrence(completed) : null;
+
+    let nextTask: Task | null = null;
+    if (next) {
+      try {
+        nextTask = await this.createTask(next);
+      } catch (error) {
+        nextTask = null;
+      }
+    }
+
+    return { task: completed, nextTask };
+  },
+
+  /**
+   * Reverts a completion. The occurrence it generated is removed as long as
+   * nobody has completed it yet, so undo does not leave a duplicate behind.
+   */
+  async reopenTask(task: Task): Promise<{ task: Task | null; removedTaskIds: string[] }> {
+    const reopened = await this.updateTask(task.id, { isCompleted: false, completedAt: '' });
+
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('previous_occurrence_id', task.id)
+        .eq('is_completed', false)
+        .select('id');
+
+      if (error) {
+        console.error('Error removing generated occurrence:', error);
+        return { task: reopened, removedTaskIds: [] };
+      }
+
+      return { task: reopened, removedTaskIds: (data || []).map(row => row.id as string) };
+    } catch (error) {
+      console.error('Error in reopenTask:', error);
+      return { task: reopened, removedTaskIds: [] };
+    }
+  },
+};
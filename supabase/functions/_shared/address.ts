@@ -0,0 +1,134 @@
+import { AddressComponents, GeoPoint } from './types.ts';
+
+// Parsing of free-text US street addresses ("123 Main St Apt 4, Los Angeles, CA 90012")
+// into components, plus the distance math the map and radius features build on.
+
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
+  CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida',
+  GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana',
+  IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine',
+  MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi',
+  MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island',
+  SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah',
+  VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin',
+  WY: 'Wyoming',
+};
+
+const STATE_BY_NAME = new Map(Object.keys(US_STATES).map(code => [US_STATES[code].toLowerCase(), code]));
+
+// Abbreviations used by addressKey, so "12 Oak Street" and "12 Oak St." are one address
+const STREET_SUFFIXES: Record<string, string> = {
+  avenue: 'ave', boulevard: 'blvd', circle: 'cir', court: 'ct', drive: 'dr', highway: 'hwy',
+  lane: 'ln', parkway: 'pkwy', place: 'pl', road: 'rd', square: 'sq', street: 'st',
+  terrace: 'ter', trail: 'trl', north: 'n', south: 's', east: 'e', west: 'w',
+};
+
+const COUNTRY_PATTERN = /,?\s*\b(?:usa|u\.s\.a\.?|us|united states(?: of america)?)\s*$/i;
+const POSTAL_CODE_PATTERN = /[\s,]*\b(\d{5})(?:-\d{4})?\s*$/;
+const UNIT_PATTERN = /^(?:apt|apartment|unit|suite|ste|#)\.?\s*#?\s*([\w-]+)$/i;
+const TRAILING_UNIT_PATTERN = /[\s,]+((?:apt|apartment|unit|suite|ste)\.?\s*#?\s*[\w-]+|#\s*[\w-]+)$/i;
+
+// "123 Oak Ct" ends in a state code too, so a state needs a ZIP after it or a comma before it
+const matchState = (text: string, hasPostalCode: boolean): { code: string; rest: string } | null => {
+  const trimmed = text.replace(/[\s,]+$/, '');
+  if (!hasPostalCode && !trimmed.includes(',')) return null;
+  const code = trimmed.match(/(?:^|[\s,])([A-Za-z]{2})$/);
+  if (code && US_STATES[code[1].toUpperCase()]) {
+    return { code: code[1].toUpperCase(), rest: trimmed.slice(0, trimmed.length - 2) };
+  }
+  const lower = trimmed.toLowerCase();
+  for (const [name, stateCode] of STATE_BY_NAME) {
+    if (lower === name || lower.endsWith(` ${name}`) || lower.endsWith(`,${name}`)) {
+      return { code: stateCode, rest: trimmed.slice(0, trimmed.length - name.length) };
+    }
+  }
+  return null;
+};
+
+const normalizeUnit = (unit: string) => {
+  const match = unit.trim().match(UNIT_PATTERN);
+  if (!match) return unit.trim();
+  const label = unit.trim().startsWith('#') ? '#' : unit.trim().split(/[\s.#]/)[0].toLowerCase();
+  const prefix = label === '#' ? '#' : label.startsWith('ap') ? 'Apt ' : label.startsWith('s') ? 'Suite ' : 'Unit ';
+  return `${prefix}${match[1]}`;
+};
+
+/**
+ * Splits a one-line address into street, unit, city, state and ZIP. Parts that
+ * cannot be told apart are left empty rather than guessed; an address without
+ * commas keeps everything before the state in `street`. Null for blank input.
+ */
+export const parseAddress = (text?: string | null): AddressComponents | null => {
+  let rest = (text || '').replace(/\s+/g, ' ').trim();
+  if (!rest) return null;
+
+  rest = rest.replace(COUNTRY_PATTERN, '');
+
+  let postalCode = '';
+  const zip = rest.match(POSTAL_CODE_PATTERN);
+  if (zip) {
+    postalCode = zip[1];
+    rest = rest.slice(0, zip.index);
+  }
+
+  let state = '';
+  const stateMatch = matchState(rest, Boolean(postalCode));
+  if (stateMatch) {
+    state = stateMatch.code;
+    rest = stateMatch.rest;
+  }
+
+  const parts = rest.split(',').map(p => p.trim()).filter(Boolean);
+  let unit = '';
+  const unitIndex = parts.findIndex((p, i) => i > 0 && UNIT_PATTERN.test(p));
+  if (unitIndex > 0) unit = normalizeUnit(parts.splice(unitIndex, 1)[0]);
+
+  // A city needs a street before it and a state after it; otherwise it is part of the street
+  const city = parts.length > 1 && state ? parts.pop()! : '';
+  let street = parts.join(', ');
+
+  const trailingUnit = street.match(TRAILING_UNIT_PATTERN);
+  if (!unit && trailingUnit) {
+    unit = normalizeUnit(trailingUnit[1]);
+    street = street.slice(0, trailingUnit.index);
+  }
+
+  return { street, unit: unit || undefined, city, state, postalCode, country: 'US' };
+};
+
+/**
+ * The components back as one line: "123 Main St Apt 4, Los Angeles, CA 90012".
+ */
+export const formatAddress = (address: AddressComponents): string => {
+  const street = [address.street, address.unit].filter(Boolean).join(' ');
+  const region = [address.state, address.postalCode].filter(Boolean).join(' ');
+  return [street, address.city, region].filter(Boolean).join(', ');
+};
+
+/**
+ * A comparison key that ignores case, punctuation and street suffix spelling.
+ */
+export const addressKey = (address: AddressComponents): string =>
+  formatAddress(address)
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => STREET_SUFFIXES[word] || word)
+    .join(' ');
+
+const EARTH_RADIUS_MILES = 3958.8;
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance between two points, in miles.
+ */
+export const distanceMiles = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+};
@@ -0,0 +1,53 @@
+import { DripEnrollment, DripPauseReason, DripStep, DripTriggerField } from './types.ts';
+
+// Scheduling and merge rules for drip campaigns, shared by the app and the
+// send-drip-emails function so both agree on when each step is due.
+
+export const DRIP_TRIGGER_LABELS: Record<DripTriggerField, string> = {
+  source: 'Lead source is',
+  tag: 'Tagged',
+  status: 'Status becomes',
+};
+
+export const DRIP_PAUSE_LABELS: Record<DripPauseReason, string> = {
+  REPLIED: 'Lead replied',
+  STATUS_CHANGED: 'Status changed',
+  MANUAL: 'Paused by agent',
+};
+
+// Placeholders a drip template can use; anything else is removed before sending
+export const DRIP_PLACEHOLDERS = ['firstName', 'lastName', 'email', 'propertyAddress'];
+
+const DAY_MS = 86400000;
+
+export const sortSteps = (steps: DripStep[]): DripStep[] =>
+  [...steps].sort((a, b) => a.delayDays - b.delayDays);
+
+/**
+ * When step `index` is due, counting from when the step before it went out (or from
+ * enrollment for the first step). Null once the campaign has no steps left.
+ */
+export const stepDueAt = (steps: DripStep[], index: number, from: Date): Date | null => {
+  const step = steps[index];
+  if (!step) return null;
+  const previousDelay = index > 0 ? steps[index - 1].delayDays : 0;
+  return new Date(from.getTime() + Math.max(0, step.delayDays - previousDelay) * DAY_MS);
+};
+
+/**
+ * A resumed enrollment waits out whatever was left of the delay when it was paused,
+ * rather than sending every overdue step at once.
+ */
+export const resumeDueAt = (enrollment: Pick<DripEnrollment, 'nextSendAt' | 'pausedAt'>, now: Date): Date => {
+  const remaining = enrollment.nextSendAt && enrollment.pausedAt
+    ? Math.max(0, Date.parse(enrollment.nextSendAt) - Date.parse(enrollment.pausedAt))
+    : 0;
+  return new Date(now.getTime() + remaining);
+};
+
+/**
+ * Fills `{{firstName}}`-style placeholders. Unknown placeholders are dropped so a
+ * lead never receives a literal `{{price}}`.
+ */
+export const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key] ?? '');
@@ -0,0 +1,94 @@
+import { GeoPoint } from './types.ts';
+
+// Approximate centers used by the offline geocoder. Accurate to a few miles, which
+// is enough to cluster pins by city; a street-level geocoder replaces them.
+
+export const STATE_CENTROIDS: Record<string, GeoPoint> = {
+  AL: { lat: 32.8, lng: -86.8 }, AK: { lat: 64.2, lng: -149.5 }, AZ: { lat: 34.3, lng: -111.7 },
+  AR: { lat: 34.9, lng: -92.4 }, CA: { lat: 37.2, lng: -119.5 }, CO: { lat: 39.0, lng: -105.5 },
+  CT: { lat: 41.6, lng: -72.7 }, DE: { lat: 39.0, lng: -75.5 }, DC: { lat: 38.9, lng: -77.0 },
+  FL: { lat: 28.6, lng: -82.4 }, GA: { lat: 32.7, lng: -83.4 }, HI: { lat: 20.8, lng: -156.3 },
+  ID: { lat: 44.4, lng: -114.6 }, IL: { lat: 40.0, lng: -89.2 }, IN: { lat: 39.9, lng: -86.3 },
+  IA: { lat: 42.1, lng: -93.5 }, KS: { lat: 38.5, lng: -98.4 }, KY: { lat: 37.5, lng: -85.3 },
+  LA: { lat: 31.1, lng: -92.0 }, ME: { lat: 45.4, lng: -69.2 }, MD: { lat: 39.0, lng: -76.8 },
+  MA: { lat: 42.3, lng: -71.8 }, MI: { lat: 44.3, lng: -85.4 }, MN: { lat: 46.3, lng: -94.3 },
+  MS: { lat: 32.7, lng: -89.7 }, MO: { lat: 38.4, lng: -92.5 }, MT: { lat: 47.0, lng: -109.6 },
+  NE: { lat: 41.5, lng: -99.8 }, NV: { lat: 39.3, lng: -116.6 }, NH: { lat: 43.7, lng: -71.6 },
+  NJ: { lat: 40.2, lng: -74.7 }, NM: { lat: 34.4, lng: -106.1 }, NY: { lat: 42.9, lng: -75.5 },
+  NC: { lat: 35.6, lng: -79.4 }, ND: { lat: 47.5, lng: -100.5 }, OH: { lat: 40.3, lng: -82.8 },
+  OK: { lat: 35.6, lng: -97.5 }, OR: { lat: 43.9, lng: -120.6 }, PA: { lat: 40.9, lng: -77.8 },
+  RI: { lat: 41.7, lng: -71.5 }, SC: { lat: 33.9, lng: -80.9 }, SD: { lat: 44.4, lng: -100.2 },
+  TN: { lat: 35.9, lng: -86.4 }, TX: { lat: 31.5, lng: -99.3 }, UT: { lat: 39.3, lng: -111.7 },
+  VT: { lat: 44.1, lng: -72.7 }, VA: { lat: 37.5, lng: -78.9 }, WA: { lat: 47.4, lng: -120.5 },
+  WV: { lat: 38.6, lng: -80.6 }, WI: { lat: 44.6, lng: -89.9 }, WY: { lat: 43.0, lng: -107.6 },
+};
+
+// Keyed by lower-case "city|ST"
+export const CITY_CENTROIDS: Record<string, GeoPoint> = {
+  // Southern California
+  'los angeles|CA': { lat: 34.052, lng: -118.244 },
+  'beverly hills|CA': { lat: 34.074, lng: -118.4 },
+  'burbank|CA': { lat: 34.181, lng: -118.309 },
+  'culver city|CA': { lat: 34.021, lng: -118.396 },
+  'encino|CA': { lat: 34.159, lng: -118.501 },
+  'glendale|CA': { lat: 34.143, lng: -118.255 },
+  'long beach|CA': { lat: 33.77, lng: -118.194 },
+  'malibu|CA': { lat: 34.026, lng: -118.78 },
+  'manhattan beach|CA': { lat: 33.885, lng: -118.411 },
+  'pasadena|CA': { lat: 34.148, lng: -118.144 },
+  'redondo beach|CA': { lat: 33.849, lng: -118.388 },
+  'santa monica|CA': { lat: 34.019, lng: -118.491 },
+  'sherman oaks|CA': { lat: 34.151, lng: -118.449 },
+  'studio city|CA': { lat: 34.149, lng: -118.396 },
+  'torrance|CA': { lat: 33.836, lng: -118.341 },
+  'west hollywood|CA': { lat: 34.09, lng: -118.362 },
+  'thousand oaks|CA': { lat: 34.171, lng: -118.838 },
+  'ventura|CA': { lat: 34.275, lng: -119.229 },
+  'santa barbara|CA': { lat: 34.42, lng: -119.698 },
+  'anaheim|CA': { lat: 33.837, lng: -117.914 },
+  'huntington beach|CA': { lat: 33.66, lng: -117.999 },
+  'irvine|CA': { lat: 33.684, lng: -117.827 },
+  'newport beach|CA': { lat: 33.619, lng: -117.929 },
+  'santa ana|CA': { lat: 33.746, lng: -117.868 },
+  'riverside|CA': { lat: 33.953, lng: -117.396 },
+  'san bernardino|CA': { lat: 34.108, lng: -117.29 },
+  'palm springs|CA': { lat: 33.83, lng: -116.545 },
+  'san diego|CA': { lat: 32.716, lng: -117.161 },
+  // Central and Northern California
+  'bakersfield|CA': { lat: 35.373, lng: -119.019 },
+  'fresno|CA': { lat: 36.738, lng: -119.787 },
+  'sacramento|CA': { lat: 38.582, lng: -121.494 },
+  'san francisco|CA': { lat: 37.775, lng: -122.419 },
+  'oakland|CA': { lat: 37.804, lng: -122.271 },
+  'berkeley|CA': { lat: 37.872, lng: -122.273 },
+  'palo alto|CA': { lat: 37.442, lng: -122.143 },
+  'san jose|CA': { lat: 37.338, lng: -121.886 },
+  // Pennsylvania
+  'scranton|PA': { lat: 41.409, lng: -75.662 },
+  'honesdale|PA': { lat: 41.577, lng: -75.259 },
+  'wilkes-barre|PA': { lat: 41.246, lng: -75.881 },
+  'allentown|PA': { lat: 40.608, lng: -75.49 },
+  'bethlehem|PA': { lat: 40.626, lng: -75.37 },
+  'reading|PA': { lat: 40.336, lng: -75.927 },
+  'philadelphia|PA': { lat: 39.953, lng: -75.165 },
+  'pittsburgh|PA': { lat: 40.441, lng: -79.996 },
+  // Other large metros
+  'phoenix|AZ': { lat: 33.448, lng: -112.074 },
+  'denver|CO': { lat: 39.739, lng: -104.99 },
+  'stamford|CT': { lat: 41.053, lng: -73.539 },
+  'washington|DC': { lat: 38.907, lng: -77.037 },
+  'miami|FL': { lat: 25.762, lng: -80.192 },
+  'atlanta|GA': { lat: 33.749, lng: -84.388 },
+  'chicago|IL': { lat: 41.878, lng: -87.63 },
+  'boston|MA': { lat: 42.36, lng: -71.059 },
+  'nashua|NH': { lat: 42.765, lng: -71.468 },
+  'las vegas|NV': { lat: 36.17, lng: -115.14 },
+  'new york|NY': { lat: 40.713, lng: -74.006 },
+  'portland|OR': { lat: 45.515, lng: -122.679 },
+  'nashville|TN': { lat: 36.163, lng: -86.781 },
+  'austin|TX': { lat: 30.267, lng: -97.743 },
+  'dallas|TX': { lat: 32.777, lng: -96.797 },
+  'houston|TX': { lat: 29.76, lng: -95.37 },
+  'san antonio|TX': { lat: 29.424, lng: -98.494 },
+  'seattle|WA': { lat: 47.606, lng: -122.332 },
+};
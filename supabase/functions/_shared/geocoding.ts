@@ -0,0 +1,68 @@
+import { AddressComponents, GeoLocation } from './types.ts';
+import { addressKey, parseAddress } from './address.ts';
+import { CITY_CENTROIDS, STATE_CENTROIDS } from './geoCentroids.ts';
+
+/**
+ * Turns parsed addresses into coordinates. Implementations may call a network
+ * service; they resolve to null for addresses they cannot place rather than throw.
+ */
+export interface Geocoder {
+  // Stored on every location it produces, so points can be re-geocoded after a switch
+  name: string;
+  geocode(address: AddressComponents): Promise<GeoLocation | null>;
+}
+
+/**
+ * Stand-in that works without a network or API key: places an address at the
+ * center of its city when the city is known, otherwise of its state.
+ */
+export const offlineGeocoder: Geocoder = {
+  name: 'offline',
+  async geocode(address) {
+    const city = CITY_CENTROIDS[`${address.city.toLowerCase()}|${address.state}`];
+    if (city) return { ...city, precision: 'CITY', provider: 'offline' };
+    const state = STATE_CENTROIDS[address.state];
+    if (state) return { ...state, precision: 'STATE', provider: 'offline' };
+    return null;
+  },
+};
+
+let activeGeocoder: Geocoder = offlineGeocoder;
+// One lookup per distinct address, shared by concurrent saves
+const cache = new Map<string, Promise<GeoLocation | null>>();
+
+export const getGeocoder = (): Geocoder => activeGeocoder;
+
+/**
+ * Swaps the geocoder used by `locateAddress`, e.g. for a hosted one once a key is configured.
+ */
+export const setGeocoder = (geocoder: Geocoder) => {
+  activeGeocoder = geocoder;
+  cache.clear();
+};
+
+export interface LocatedAddress {
+  components: AddressComponents | null;
+  location: GeoLocation | null;
+}
+
+/**
+ * Parses and geocodes a free-text address. A geocoder failure leaves the location
+ * empty; it never blocks the save that asked for it.
+ */
+export const locateAddress = async (text?: string | null): Promise<LocatedAddress> => {
+  const components = parseAddress(text);
+  if (!components) return { components: null, location: null };
+
+  const geocoder = activeGeocoder;
+  const key = `${geocoder.name}:${addressKey(components)}`;
+  if (!cache.has(key)) {
+    cache.set(key, geocoder.geocode(components).catch(error => {
+      console.error('Error geocoding address:', error);
+      cache.delete(key);
+      return null;
+    }));
+  }
+
+  return { components, location: await cache.get(key)! };
+};
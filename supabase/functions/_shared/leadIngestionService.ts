@@ -0,0 +1,273 @@
+import { Lead, LeadStatus, LeadTemperature, LeadNote, LeadFieldMapping } from './types.ts';
+
+export type LeadTransformer = (payload: any, brokerageId: string, agentId: string, fieldMapping?: LeadFieldMapping) => Lead;
+
+/**
+ * Mapping used by the Custom Website Hook until a broker configures their own.
+ * Matches a flat JSON body such as `{ "first_name": "...", "email": "..." }`.
+ */
+export const DEFAULT_FIELD_MAPPING: LeadFieldMapping = {
+  firstName: 'first_name',
+  lastName: 'last_name',
+  email: 'email',
+  phone: 'phone',
+  propertyAddress: 'property_address',
+  budget: 'budget',
+  message: 'message',
+  externalId: 'id'
+};
+
+interface IngestedLeadFields {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  propertyAddress?: string;
+  budget: number;
+  message?: string;
+  externalId?: string;
+  source: string;
+  integrationSource: string;
+  integrationName: string;
+  temperature: LeadTemperature;
+  tags: string[];
+}
+
+// Accepts numbers or display strings like "$1,250,000"
+const parseAmount = (value: unknown): number => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  if (typeof value !== 'string') return 0;
+  return parseFloat(value.replace(/[^0-9.]/g, '')) || 0;
+};
+
+const splitFullName = (fullName: string): [string, string] => {
+  const parts = fullName.trim().split(/\s+/);
+  return [parts[0] || '', parts.slice(1).join(' ')];
+};
+
+const asText = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+};
+
+// Resolves a dot-separated path such as `contact.email` or `answers.0.value`
+const readPath = (payload: any, path?: string): unknown => {
+  if (!path) return undefined;
+  return path.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), payload);
+};
+
+const buildIngestedLead = (fields: IngestedLeadFields, brokerageId: string, agentId: string): Lead => {
+  if (!fields.email && !fields.phone) {
+    throw new Error('Payload has no email or phone number');
+  }
+
+  const timestamp = new Date().toISOString();
+  const interest = [fields.propertyAddress, fields.budget ? `$${fields.budget.toLocaleString()}` : '']
+    .filter(Boolean)
+    .join(' - ');
+
+  const notes: LeadNote[] = [{
+    id: `n_${fields.integrationSource.toLowerCase()}_${Date.now()}`,
+    content: [
+      `Automated Lead Ingestion from ${fields.integrationName}.`,
+      interest ? `Property Interest: ${interest}` : '',
+      fields.message ? `Message: ${fields.message}` : ''
+    ].filter(Boolean).join(' '),
+    createdAt: timestamp,
+    authorId: 'SYSTEM',
+    authorName: fields.integrationName
+  }];
+
+  return {
+    id: `l_${fields.integrationSource.toLowerCase()}_${Date.now()}`,
+    brokerageId,
+    assignedAgentId: agentId,
+    firstName: fields.firstName || fields.source,
+    lastName: fields.lastName || 'Lead',
+    email: fields.email || '',
+    phone: fields.phone || '',
+    status: LeadStatus.NEW,
+    temperature: fields.temperature,
+    source: fields.source,
+    tags: fields.tags,
+    propertyType: 'PRIMARY',
+    propertyAddress: fields.propertyAddress,
+    budget: fields.budget,
+    notes,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    estimatedDealValue: fields.budget * 0.03,
+    externalId: fields.externalId,
+    integrationSource: fields.integrationSource
+  };
+};
+
+export const leadIngestionService = {
+  /**
+   * Transforms a mock Zillow Tech Connect JSON payload into a CRM Lead object.
+   */
+  transformZillow: (payload: any, brokerageId: string, agentId: string): Lead => {
+    const { contact_info, property_info, inquiry_id } = payload;
+    if (!contact_info?.email && !contact_info?.phone) {
+      throw new Error('Payload has no email or phone number');
+    }
+
+    const leadId = `l_zillow_${Date.now()}`;
+    const timestamp = new Date().toISOString();
+
+    const note: LeadNote = {
+      id: `n_z_${Date.now()}`,
+      content: `Automated Lead Ingestion from Zillow. Property Interest: ${property_info.address} (${property_info.price})`,
+      createdAt: timestamp,
+      authorId: 'SYSTEM',
+      authorName: 'Zillow Tech Connect'
+    };
+
+    return {
+      id: leadId,
+      brokerageId: brokerageId,
+      assignedAgentId: agentId,
+      firstName: contact_info.first_name || 'Zillow',
+      lastName: contact_info.last_name || 'Lead',
+      email: contact_info.email || '',
+      phone: contact_info.phone || '',
+      status: LeadStatus.NEW,
+      temperature: LeadTemperature.HOT,
+      source: 'Zillow',
+      tags: ['Zillow Lead', 'Buyer'],
+      propertyType: 'PRIMARY',
+      propertyAddress: property_info.address,
+      budget: parseInt(property_info.price.replace(/[$,]/g, '')) || 0,
+      notes: [note],
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      estimatedDealValue: (parseInt(property_info.price.replace(/[$,]/g, '')) || 0) * 0.03,
+      externalId: inquiry_id,
+      integrationSource: 'ZILLOW_TECH_CONNECT'
+    };
+  },
+
+  /**
+   * Transforms a Realtor.com lead delivery (consumer + listing blocks) into a CRM Lead object.
+   */
+  transformRealtor: (payload: any, brokerageId: string, agentId: string): Lead => {
+    const { lead_id, consumer = {}, listing = {}, message, lead_type } = payload;
+    const address = listing.address || {};
+    const isSeller = String(lead_type || '').toUpperCase() === 'SELL';
+
+    return buildIngestedLead({
+      firstName: asText(consumer.first_name),
+      lastName: asText(consumer.last_name),
+      email: asText(consumer.email),
+      phone: asText(consumer.phone),
+      propertyAddress: asText([address.line, address.city, [address.state_code, address.postal_code].filter(Boolean).join(' ')].filter(Boolean).join(', ')),
+      budget: parseAmount(listing.list_price),
+      message: asText(message),
+      externalId: asText(lead_id),
+      source: 'Realtor.com',
+      integrationSource: 'REALTOR_COM',
+      integrationName: 'Realtor.com Leads',
+      temperature: LeadTemperature.HOT,
+      tags: ['Realtor.com Lead', isSeller ? 'Seller' : 'Buyer']
+    }, brokerageId, agentId);
+  },
+
+  /**
+   * Transforms an UpNest agent-match referral into a CRM Lead object. UpNest sends a single
+   * client name and, for sellers, an estimated home value instead of a price range.
+   */
+  transformUpNest: (payload: any, brokerageId: string, agentId: string): Lead => {
+    const { id, type, client = {}, property = {}, timeline, notes } = payload;
+    const [firstName, lastName] = splitFullName(client.name || '');
+    const isSeller = String(type || '').toUpperCase() === 'SELLER';
+    const budget = isSeller
+      ? parseAmount(property.estimated_value)
+      : parseAmount(property.price_range?.max ?? property.price_range?.min);
+
+    return buildIngestedLead({
+      firstName: asText(firstName),
+      lastName: asText(lastName),
+      email: asText(client.email),
+      phone: asText(client.phone),
+      propertyAddress: asText(property.address),
+      budget,
+      message: asText([timeline ? `Timeline: ${timeline}` : '', notes].filter(Boolean).join('. ')),
+      externalId: asText(id),
+      source: 'UpNest',
+      integrationSource: 'UPNEST',
+      integrationName: 'UpNest Integration',
+      temperature: LeadTemperature.WARM,
+      tags: ['UpNest Lead', isSeller ? 'Seller' : 'Buyer']
+    }, brokerageId, agentId);
+  },
+
+  /**
+   * Transforms a FastExpert lead notification (flat camelCase body) into a CRM Lead object.
+   * The price range arrives as text, e.g. "$500,000 - $750,000"; the upper bound becomes the budget.
+   */
+  transformFastExpert: (payload: any, brokerageId: string, agentId: string): Lead => {
+    const { leadId, firstName, lastName, email, phone, leadType, propertyAddress, priceRange, comments } = payload;
+    const bounds = String(priceRange || '').split('-');
+    const isSeller = String(leadType || '').toLowerCase() === 'seller';
+
+    return buildIngestedLead({
+      firstName: asText(firstName),
+      lastName: asText(lastName),
+      email: asText(email),
+      phone: asText(phone),
+      propertyAddress: asText(propertyAddress),
+      budget: parseAmount(bounds[bounds.length - 1]),
+      message: asText(comments),
+      externalId: asText(leadId),
+      source: 'FastExpert',
+      integrationSource: 'FASTEXPERT',
+      integrationName: 'FastExpert',
+      temperature: LeadTemperature.WARM,
+      tags: ['FastExpert Lead', isSeller ? 'Seller' : 'Buyer']
+    }, brokerageId, agentId);
+  },
+
+  /**
+   * Transforms an arbitrary JSON body from a brokerage website using the broker's field mapping.
+   * Falls back to `DEFAULT_FIELD_MAPPING`, which covers a flat generic JSON form post.
+   */
+  transformCustom: (payload: any, brokerageId: string, agentId: string, fieldMapping?: LeadFieldMapping): Lead => {
+    const mapping = { ...DEFAULT_FIELD_MAPPING, ...fieldMapping };
+    const read = (field: keyof LeadFieldMapping) => asText(readPath(payload, mapping[field]));
+
+    let firstName = read('firstName');
+    let lastName = read('lastName');
+    const fullName = read('fullName');
+    if (fullName && !firstName && !lastName) {
+      [firstName, lastName] = splitFullName(fullName);
+    }
+
+    return buildIngestedLead({
+      firstName,
+      lastName,
+      email: read('email'),
+      phone: read('phone'),
+      propertyAddress: read('propertyAddress'),
+      budget: parseAmount(readPath(payload, mapping.budget)),
+      message: read('message'),
+      externalId: read('externalId'),
+      source: 'Website',
+      integrationSource: 'CUSTOM_WEBHOOK',
+      integrationName: 'Custom Website Hook',
+      temperature: LeadTemperature.WARM,
+      tags: ['Website Lead']
+    }, brokerageId, agentId);
+  }
+};
+
+/**
+ * Transformers keyed by the provider id used in the ingest-lead URL and `lead_integrations.provider`.
+ */
+export const LEAD_TRANSFORMERS: Record<string, LeadTransformer> = {
+  zillow: leadIngestionService.transformZillow,
+  realtor: leadIngestionService.transformRealtor,
+  upnest: leadIngestionService.transformUpNest,
+  fastexpert: leadIngestionService.transformFastExpert,
+  custom: leadIngestionService.transformCustom
+};
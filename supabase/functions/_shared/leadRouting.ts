@@ -0,0 +1,180 @@
+// Lead routing engine shared by the ingest-lead edge function and in-app imports.
+// Rules are evaluated in order; the first active rule whose conditions match and that has an
+// available agent wins. Otherwise the default pool is used, then the fallback agent.
+
+import { AgentAvailability, Lead, LeadRoutingConfig, LeadRoutingRule, RoutingStrategy } from './types.ts';
+
+export const DEFAULT_POOL_ID = 'default';
+
+export const DEFAULT_ROUTING_CONFIG: LeadRoutingConfig = {
+  isEnabled: false,
+  timeZone: 'America/Los_Angeles',
+  rules: [],
+  defaultAgentIds: [],
+  defaultStrategy: 'ROUND_ROBIN',
+  agentWeights: {},
+  agentAvailability: {},
+  slaPolicies: {},
+};
+
+export interface RoutingDecision {
+  agentId: string;
+  ruleId?: string;
+  ruleName: string;
+  strategy?: RoutingStrategy;
+  reason: string;
+}
+
+// Per-pool history the round-robin and weighted strategies balance against
+export interface RoutingStats {
+  lastAgentByPool: Record<string, string>;
+  countsByPool: Record<string, Record<string, number>>;
+}
+
+export interface RoutingHistoryEntry {
+  ruleId?: string;
+  agentId: string;
+  createdAt: string;
+}
+
+export interface RouteOptions {
+  fallbackAgentId: string;
+  activeAgentIds: string[];
+  at?: Date;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export const buildRoutingStats = (history: RoutingHistoryEntry[]): RoutingStats => {
+  const stats: RoutingStats = { lastAgentByPool: {}, countsByPool: {} };
+  [...history]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach(entry => recordDecision(stats, { agentId: entry.agentId, ruleId: entry.ruleId }));
+  return stats;
+};
+
+/**
+ * Adds a decision to the stats so the next lead in the same batch sees it.
+ */
+export const recordDecision = (stats: RoutingStats, decision: Pick<RoutingDecision, 'agentId' | 'ruleId'>): RoutingStats => {
+  const poolId = decision.ruleId || DEFAULT_POOL_ID;
+  stats.lastAgentByPool[poolId] = decision.agentId;
+  const counts = stats.countsByPool[poolId] || (stats.countsByPool[poolId] = {});
+  counts[decision.agentId] = (counts[decision.agentId] || 0) + 1;
+  return stats;
+};
+
+/**
+ * Pulls the last US ZIP code out of a free-form address.
+ */
+export const extractZip = (address?: string): string | undefined => {
+  const matches = (address || '').match(/\b\d{5}(?:-\d{4})?\b/g);
+  return matches ? matches[matches.length - 1].slice(0, 5) : undefined;
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const isAgentAvailable = (availability: AgentAvailability | undefined, at: Date, timeZone: string): boolean => {
+  if (!availability) return true;
+  if (!availability.isAvailable) return false;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  if (availability.days.length > 0 && !availability.days.includes(WEEKDAY_INDEX[part('weekday')])) return false;
+  if (!availability.startTime || !availability.endTime) return true;
+
+  const now = toMinutes(`${part('hour')}:${part('minute')}`);
+  const start = toMinutes(availability.startTime);
+  const end = toMinutes(availability.endTime);
+  // Windows such as 18:00-02:00 wrap past midnight
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+export const matchesRule = (rule: LeadRoutingRule, lead: Pick<Lead, 'source' | 'propertyAddress' | 'budget'>): boolean => {
+  if (rule.sources.length > 0) {
+    const source = (lead.source || '').toLowerCase();
+    if (!rule.sources.some(s => s.toLowerCase() === source)) return false;
+  }
+  if (rule.zipPrefixes.length > 0) {
+    const zip = extractZip(lead.propertyAddress);
+    if (!zip || !rule.zipPrefixes.some(prefix => zip.startsWith(prefix.trim()))) return false;
+  }
+  if (rule.minPrice !== undefined && lead.budget < rule.minPrice) return false;
+  if (rule.maxPrice !== undefined && lead.budget > rule.maxPrice) return false;
+  return true;
+};
+
+const describeRule = (rule: LeadRoutingRule): string => {
+  const conditions = [
+    rule.sources.length ? `source is ${rule.sources.join(' or ')}` : '',
+    rule.zipPrefixes.length ? `ZIP starts with ${rule.zipPrefixes.join(' or ')}` : '',
+    rule.minPrice !== undefined ? `budget ≥ $${rule.minPrice.toLocaleString()}` : '',
+    rule.maxPrice !== undefined ? `budget ≤ $${rule.maxPrice.toLocaleString()}` : '',
+  ].filter(Boolean);
+  return conditions.length ? conditions.join(', ') : 'matches every lead';
+};
+
+const pickAgent = (
+  poolId: string,
+  agentIds: string[],
+  strategy: RoutingStrategy,
+  config: LeadRoutingConfig,
+  stats: RoutingStats,
+): string | undefined => {
+  if (agentIds.length === 0) return undefined;
+
+  if (strategy === 'WEIGHTED') {
+    // Smallest share of its weight so far goes next; ties keep the configured order
+    const counts = stats.countsByPool[poolId] || {};
+    const weighted = agentIds
+      .map(id => ({ id, weight: config.agentWeights[id] ?? 1 }))
+      .filter(a => a.weight > 0);
+    if (weighted.length === 0) return undefined;
+    return weighted.reduce((best, a) =>
+      ((counts[a.id] || 0) + 1) / a.weight < ((counts[best.id] || 0) + 1) / best.weight ? a : best
+    ).id;
+  }
+
+  const lastIndex = agentIds.indexOf(stats.lastAgentByPool[poolId]);
+  return agentIds[(lastIndex + 1) % agentIds.length];
+};
+
+export const routeLead = (
+  lead: Pick<Lead, 'source' | 'propertyAddress' | 'budget'>,
+  config: LeadRoutingConfig,
+  stats: RoutingStats,
+  { fallbackAgentId, activeAgentIds, at = new Date() }: RouteOptions,
+): RoutingDecision => {
+  if (!config.isEnabled) {
+    return { agentId: fallbackAgentId, ruleName: 'Routing disabled', reason: 'Lead routing is turned off' };
+  }
+
+  const available = (agentIds: string[]) => agentIds.filter(id =>
+    activeAgentIds.includes(id) && isAgentAvailable(config.agentAvailability[id], at, config.timeZone)
+  );
+
+  for (const rule of config.rules) {
+    if (!rule.isActive || !matchesRule(rule, lead)) continue;
+    const agentId = pickAgent(rule.id, available(rule.agentIds), rule.strategy, config, stats);
+    if (agentId) {
+      return { agentId, ruleId: rule.id, ruleName: rule.name, strategy: rule.strategy, reason: describeRule(rule) };
+    }
+  }
+
+  const agentId = pickAgent(DEFAULT_POOL_ID, available(config.defaultAgentIds), config.defaultStrategy, config, stats);
+  if (agentId) {
+    return { agentId, ruleName: 'Default pool', strategy: config.defaultStrategy, reason: 'No rule matched' };
+  }
+
+  return { agentId: fallbackAgentId, ruleName: 'Fallback', reason: 'No available agent in any matching pool' };
+};
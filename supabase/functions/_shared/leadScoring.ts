@@ -0,0 +1,188 @@
+// Lead scoring engine shared by the app and the ingest-lead edge function. Each factor
+// yields a value between 0 and 1; the score is the weighted average scaled to 0-100 and
+// maps to HOT, WARM or COLD through the broker's thresholds. Every factor carries a
+// sentence explaining its value so agents can see how a score was reached.
+
+import { Lead, LeadScoringConfig, LeadTemperature, ScoringFactor } from './types.ts';
+
+// Engagement gathered from other tables; see get_lead_scoring_signals
+export interface LeadScoringSignals {
+  // Most recent note, email or completed task by an agent
+  lastContactAt?: string;
+  emailOpens: number;
+  openHouseVisits: number;
+  // Moving timeline from the latest open house sign-in, e.g. "0-3 months"
+  timeline?: string;
+}
+
+export interface LeadScoreFactor {
+  factor: ScoringFactor;
+  label: string;
+  weight: number;
+  value: number;
+  // Share of the 0-100 score this factor earned, and could have earned
+  points: number;
+  maxPoints: number;
+  explanation: string;
+}
+
+export interface LeadScore {
+  score: number;
+  temperature: LeadTemperature;
+  factors: LeadScoreFactor[];
+  summary: string;
+}
+
+export const SCORING_FACTORS: { factor: ScoringFactor; label: string; description: string }[] = [
+  { factor: 'recency', label: 'Recent Contact', description: 'Full points within 3 days of the last touch, none after 30' },
+  { factor: 'emailOpens', label: 'Email Opens', description: 'Full points at 3 opened emails' },
+  { factor: 'openHouseVisits', label: 'Open House Visits', description: 'Full points at 2 check-ins' },
+  { factor: 'budget', label: 'Budget', description: 'Scaled against the budget target' },
+  { factor: 'source', label: 'Lead Source', description: 'Uses the quality rating of the source' },
+  { factor: 'timeline', label: 'Moving Timeline', description: 'From open house sign-in answers' },
+];
+
+export const NO_SIGNALS: LeadScoringSignals = { emailOpens: 0, openHouseVisits: 0 };
+
+export const DEFAULT_SCORING_CONFIG: LeadScoringConfig = {
+  isEnabled: false,
+  weights: { recency: 8, emailOpens: 5, openHouseVisits: 6, budget: 4, source: 5, timeline: 7 },
+  hotThreshold: 70,
+  warmThreshold: 40,
+  sourceScores: {
+    'Referral': 90,
+    'Past Client': 90,
+    'Open House': 70,
+    'Zillow': 60,
+    'Realtor.com': 60,
+    'Google': 50,
+    'Facebook': 40,
+  },
+  defaultSourceScore: 50,
+  budgetTarget: 1000000,
+};
+
+const DAY_MS = 86400000;
+const FRESH_CONTACT_DAYS = 3;
+const STALE_CONTACT_DAYS = 30;
+const FULL_EMAIL_OPENS = 3;
+const FULL_OPEN_HOUSE_VISITS = 2;
+
+// Answers offered by the open house sign-in form
+const TIMELINE_VALUES: Record<string, number> = {
+  '0-3 months': 1,
+  '3-6 months': 0.6,
+  '6+ months': 0.25,
+  'just browsing': 0,
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Stored configs predate newer factors, so weights are merged rather than replaced
+export const withScoringDefaults = (config: Partial<LeadScoringConfig> | null | undefined): LeadScoringConfig => ({
+  ...DEFAULT_SCORING_CONFIG,
+  ...(config || {}),
+  weights: { ...DEFAULT_SCORING_CONFIG.weights, ...(config?.weights || {}) },
+});
+
+export const getSourceScore = (config: LeadScoringConfig, source: string): number => {
+  const match = Object.entries(config.sourceScores || {})
+    .find(([name]) => name.toLowerCase() === (source || '').toLowerCase());
+  return Math.min(100, Math.max(0, match ? match[1] : config.defaultSourceScore));
+};
+
+export const temperatureForScore = (config: LeadScoringConfig, score: number): LeadTemperature =>
+  score >= config.hotThreshold ? LeadTemperature.HOT
+    : score >= config.warmThreshold ? LeadTemperature.WARM
+    : LeadTemperature.COLD;
+
+const evaluate = (
+  factor: ScoringFactor,
+  lead: Pick<Lead, 'budget' | 'source' | 'createdAt'>,
+  signals: LeadScoringSignals,
+  config: LeadScoringConfig,
+  now: Date,
+): { value: number; explanation: string } => {
+  switch (factor) {
+    case 'recency': {
+      const since = signals.lastContactAt || lead.createdAt;
+      const days = Math.max(0, (now.getTime() - new Date(since).getTime()) / DAY_MS);
+      const value = days <= FRESH_CONTACT_DAYS ? 1
+        : days >= STALE_CONTACT_DAYS ? 0
+        : 1 - (days - FRESH_CONTACT_DAYS) / (STALE_CONTACT_DAYS - FRESH_CONTACT_DAYS);
+      const ago = days < 1 ? 'today' : `${plural(Math.floor(days), 'day')} ago`;
+      return { value, explanation: signals.lastContactAt ? `Last contact ${ago}` : `No contact yet; added ${ago}` };
+    }
+    case 'emailOpens':
+      return {
+        value: Math.min(1, signals.emailOpens / FULL_EMAIL_OPENS),
+        explanation: signals.emailOpens > 0 ? `Opened ${plural(signals.emailOpens, 'email')}` : 'No email opens',
+      };
+    case 'openHouseVisits':
+      return {
+        value: Math.min(1, signals.openHouseVisits / FULL_OPEN_HOUSE_VISITS),
+        explanation: signals.openHouseVisits > 0 ? `Checked in at ${plural(signals.openHouseVisits, 'open house')}` : 'No open house visits',
+      };
+    case 'budget':
+      return lead.budget > 0 && config.budgetTarget > 0
+        ? {
+            value: Math.min(1, lead.budget / config.budgetTarget),
+            explanation: `$${lead.budget.toLocaleString()} budget against a $${config.budgetTarget.toLocaleString()} target`,
+          }
+        : { value: 0, explanation: 'No budget given' };
+    case 'source': {
+      const sourceScore = getSourceScore(config, lead.source);
+      return { value: sourceScore / 100, explanation: `${lead.source || 'Unknown source'} is rated ${sourceScore}/100` };
+    }
+    case 'timeline': {
+      const value = signals.timeline ? TIMELINE_VALUES[signals.timeline.trim().toLowerCase()] : undefined;
+      return value === undefined
+        ? { value: 0, explanation: signals.timeline ? `Timeline "${signals.timeline}" not recognized` : 'No moving timeline given' }
+        : { value, explanation: `Moving timeline: ${signals.timeline}` };
+    }
+  }
+};
+
+/**
+ * Scores a lead. Factors with a weight of 0 are listed with no points so the
+ * explanation still shows every input.
+ */
+export const scoreLead = (
+  lead: Pick<Lead, 'budget' | 'source' | 'createdAt'>,
+  signals: LeadScoringSignals,
+  config: LeadScoringConfig,
+  now: Date = new Date(),
+): LeadScore => {
+  const totalWeight = SCORING_FACTORS.reduce((sum, { factor }) => sum + Math.max(0, config.weights[factor] || 0), 0);
+
+  const factors = SCORING_FACTORS.map(({ factor, label }) => {
+    const weight = Math.max(0, config.weights[factor] || 0);
+    const { value, explanation } = evaluate(factor, lead, signals, config, now);
+    const maxPoints = totalWeight > 0 ? (weight / totalWeight) * 100 : 0;
+    return { factor, label, weight, value, points: value * maxPoints, maxPoints, explanation };
+  });
+
+  const score = Math.round(factors.reduce((sum, f) => sum + f.points, 0));
+  const temperature = temperatureForScore(config, score);
+  const summary = temperature === LeadTemperature.HOT
+    ? `${score} meets the HOT threshold of ${config.hotThreshold}`
+    : temperature === LeadTemperature.WARM
+      ? `${score} meets the WARM threshold of ${config.warmThreshold} but not HOT at ${config.hotThreshold}`
+      : `${score} is below the WARM threshold of ${config.warmThreshold}`;
+
+  return { score, temperature, factors, summary };
+};
+
+/**
+ * Sets the score and temperature of a lead arriving from an integration, before it is
+ * saved. A brand-new lead has no engagement yet, so only budget, source and recency
+ * count. Leaves the lead unscored while scoring is disabled.
+ */
+export const scoreIngestedLead = <T extends Pick<Lead, 'budget' | 'source' | 'createdAt' | 'score' | 'temperature'>>(
+  lead: T,
+  config: LeadScoringConfig,
+): T => {
+  if (!config.isEnabled) return lead;
+  const { score, temperature } = scoreLead(lead, NO_SIGNALS, config);
+  return { ...lead, score, temperature };
+};
@@ -0,0 +1,70 @@
+// Phone numbers are stored as E.164 (`+15551234567`) and formatted for display on read.
+// Numbers written without a country code are read as North American (+1). Anything that
+// can't be turned into E.164 (a 7-digit local number, a foreign number typed without its
+// "+") is stored exactly as typed rather than dropped, and extensions are kept in their
+// own column. Mirrors normalize_phone() in the database, which applies the same rules to
+// writes that do not go through the services.
+
+// "555-123-4567 x12", "ext. 12", "#12"
+const EXTENSION_PATTERN = /\s*(?:x|ext\.?|extension|#)\s*(\d+)\s*$/i;
+
+export interface StoredPhone {
+  phone: string | null;
+  extension: string | null;
+}
+
+/**
+ * The E.164 form of a typed or imported number, or null when it is not a dialable
+ * number (too short, ambiguous, or a placeholder such as `000-000-0000`). Any
+ * extension is ignored.
+ */
+export const toE164 = (value?: string | null): string | null => {
+  const text = (value || '').replace(EXTENSION_PATTERN, '').trim();
+  const international = /^(?:\+|00)/.test(text);
+  let digits = text.replace(/\D/g, '');
+  if (international && text.startsWith('00')) digits = digits.slice(2);
+
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  if ((!international || digits.startsWith('1')) && national.length === 10) {
+    // North American area codes never start with 0 or 1
+    return /^[2-9]/.test(national) ? `+1${national}` : null;
+  }
+  // Anything longer is taken to carry its own country code
+  return digits.length >= (international ? 8 : 11) && digits.length <= 15 && !digits.startsWith('0') ? `+${digits}` : null;
+};
+
+/**
+ * Splits a typed number into what is stored: the E.164 number, or the text as typed when
+ * it has no E.164 form, and the extension. Only an empty value stores no number.
+ */
+export const toStoredPhone = (value?: string | null): StoredPhone => {
+  const text = (value || '').trim();
+  const extension = text.match(EXTENSION_PATTERN)?.[1] || null;
+  const number = text.replace(EXTENSION_PATTERN, '').trim();
+  return { phone: toE164(number) || number || null, extension };
+};
+
+/**
+ * How a stored number is shown: `(555) 123-4567` for North America, E.164 for the rest,
+ * followed by the extension. Values that are not E.164 are shown as written.
+ */
+export const formatPhone = (value?: string | null, extension?: string | null): string => {
+  const e164 = toE164(value);
+  let text = (value || '').trim();
+  if (e164 && e164.startsWith('+1')) {
+    const national = e164.slice(2);
+    text = `(${national.slice(0, 3)}) ${national.slice(3, 6)}-${national.slice(6)}`;
+  } else if (e164) {
+    text = e164;
+  }
+  return text && extension ? `${text} ext. ${extension}` : text;
+};
+
+/**
+ * A `tel:` URI (RFC 3966) for a displayed number, keeping the extension as `;ext=`.
+ */
+export const toTelUri = (value?: string | null): string => {
+  const { phone, extension } = toStoredPhone(value);
+  const dialable = (phone || '').replace(/[^\d+]/g, '');
+  return `tel:${dialable}${extension ? `;ext=${extension}` : ''}`;
+};
@@ -0,0 +1,57 @@
+// Speed-to-lead SLA helpers shared by the app and the enforce-lead-sla edge function.
+// An ingested lead starts with a deadline; it is met once the agent moves it out of NEW
+// or writes a note of their own (system notes from ingestion do not count).
+
+import { Lead, LeadRoutingConfig, LeadStatus, SlaPolicy } from './types.ts';
+
+export type SlaState = 'NONE' | 'MET' | 'ON_TRACK' | 'AT_RISK' | 'BREACHED';
+
+export interface SlaStatus {
+  state: SlaState;
+  remainingMs: number;
+}
+
+// With this little time left the badge turns amber
+const AT_RISK_MS = 5 * 60000;
+
+export const isFirstResponseMade = (lead: Pick<Lead, 'status' | 'notes'>): boolean =>
+  lead.status !== LeadStatus.NEW || (lead.notes || []).some(note => note.authorId !== 'SYSTEM');
+
+export const getSlaPolicy = (config: LeadRoutingConfig, source: string): SlaPolicy | undefined => {
+  const policy = Object.entries(config.slaPolicies || {})
+    .find(([policySource]) => policySource.toLowerCase() === (source || '').toLowerCase())?.[1];
+  return policy && policy.minutes > 0 ? policy : undefined;
+};
+
+/**
+ * Deadline for a lead from the source's policy, or undefined when the source has no SLA.
+ */
+export const getSlaDueAt = (config: LeadRoutingConfig, source: string, from: Date = new Date()): string | undefined => {
+  const policy = getSlaPolicy(config, source);
+  if (!policy) return undefined;
+  return new Date(from.getTime() + policy.minutes * 60000).toISOString();
+};
+
+export const getSlaStatus = (lead: Pick<Lead, 'status' | 'notes' | 'slaDueAt'>, now: Date = new Date()): SlaStatus => {
+  if (!lead.slaDueAt) return { state: 'NONE', remainingMs: 0 };
+  if (isFirstResponseMade(lead)) return { state: 'MET', remainingMs: 0 };
+
+  const remainingMs = new Date(lead.slaDueAt).getTime() - now.getTime();
+  if (remainingMs <= 0) return { state: 'BREACHED', remainingMs };
+  return { state: remainingMs <= AT_RISK_MS ? 'AT_RISK' : 'ON_TRACK', remainingMs };
+};
+
+/**
+ * Compact countdown such as `4:05`, `1h 12m` or `2d 3h`.
+ */
+export const formatSlaDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
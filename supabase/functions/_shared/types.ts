@@ -0,0 +1,216 @@
+// Domain types used by both the app and the edge functions. Edge functions can only
+// bundle code under supabase/functions, so these live here and types.ts re-exports them.
+
+export enum LeadStatus {
+  NEW = 'NEW',
+  CONTACTED = 'CONTACTED',
+  ACTIVE = 'ACTIVE',
+  IN_ESCROW = 'IN_ESCROW',
+  CLOSED = 'CLOSED'
+}
+
+export enum LeadTemperature {
+  HOT = 'HOT',
+  WARM = 'WARM',
+  COLD = 'COLD',
+  NORMAL = 'NORMAL'
+}
+
+export interface LeadNote {
+  id: string;
+  content: string;
+  createdAt: string;
+  authorId: string;
+  authorName: string;
+}
+
+// A street address split into parts; `street` keeps whatever could not be split further
+export interface AddressComponents {
+  street: string;
+  unit?: string;
+  city: string;
+  state: string; // Two-letter code
+  postalCode: string;
+  country: string; // ISO 3166 alpha-2
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// How closely a geocoded point matches its address, most exact first
+export type GeocodePrecision = 'ADDRESS' | 'POSTAL_CODE' | 'CITY' | 'STATE';
+
+export interface GeoLocation extends GeoPoint {
+  precision: GeocodePrecision;
+  provider: string; // Name of the geocoder that placed it
+}
+
+export interface Lead {
+  id: string;
+  brokerageId: string;
+  assignedAgentId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  status: LeadStatus;
+  temperature: LeadTemperature;
+  source: string;
+  tags: string[];
+  propertyType: 'PRIMARY' | 'SECONDARY' | 'INVESTMENT';
+  propertyAddress?: string;
+  // Derived from propertyAddress when it is saved
+  propertyAddressComponents?: AddressComponents;
+  propertyLocation?: GeoLocation;
+  budget: number;
+  notes: LeadNote[];
+  createdAt: string;
+  updatedAt: string;
+  estimatedDealValue: number;
+  dob?: string;
+  weddingAnniversary?: string;
+  homeAnniversary?: string;
+  familyNotes?: string;
+  isDeleted?: boolean;
+  deletedAt?: string;
+  openHouseId?: string;
+  checkInTime?: string;
+  // API Integration Meta
+  externalId?: string;
+  integrationSource?: string;
+  // Speed-to-lead deadline for the first response; cleared once met or escalated
+  slaDueAt?: string;
+  // Set on a soft-deleted lead that was merged into another
+  mergedIntoId?: string;
+  // When the lead entered its current status; maintained by the database
+  statusChangedAt?: string;
+  // 0-100 from the scoring engine; unset until the lead is first scored
+  score?: number;
+  // Values of brokerage-defined custom fields, keyed by definition key
+  customFields?: Record<string, CustomFieldValue>;
+}
+
+// Lead fields a Custom Website Hook payload can be mapped onto
+export type MappableLeadField =
+  | 'firstName'
+  | 'lastName'
+  | 'fullName'
+  | 'email'
+  | 'phone'
+  | 'propertyAddress'
+  | 'budget'
+  | 'message'
+  | 'externalId';
+
+// Dot-separated paths into the incoming JSON, e.g. `contact.email` or `answers.0.value`
+export type LeadFieldMapping = Partial<Record<MappableLeadField, string>>;
+
+export type RoutingStrategy = 'ROUND_ROBIN' | 'WEIGHTED';
+
+export interface AgentAvailability {
+  isAvailable: boolean;
+  days: number[]; // 0 = Sunday; empty means every day
+  startTime: string; // HH:MM in the routing time zone; blank means all day
+  endTime: string;
+}
+
+export interface LeadRoutingRule {
+  id: string;
+  name: string;
+  isActive: boolean;
+  // Every condition that is set must match; an empty list or unset bound matches anything
+  sources: string[];
+  zipPrefixes: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  agentIds: string[];
+  strategy: RoutingStrategy;
+}
+
+export interface SlaPolicy {
+  minutes: number;
+  reassignOnBreach: boolean;
+}
+
+export interface LeadRoutingConfig {
+  isEnabled: boolean;
+  timeZone: string;
+  rules: LeadRoutingRule[];
+  defaultAgentIds: string[];
+  defaultStrategy: RoutingStrategy;
+  agentWeights: Record<string, number>;
+  agentAvailability: Record<string, AgentAvailability>;
+  // Speed-to-lead policies for ingested leads, keyed by lead source
+  slaPolicies: Record<string, SlaPolicy>;
+}
+
+export type ScoringFactor = 'recency' | 'emailOpens' | 'openHouseVisits' | 'budget' | 'source' | 'timeline';
+
+export interface LeadScoringConfig {
+  // When on, computed temperatures replace hand-set ones
+  isEnabled: boolean;
+  // Relative importance of each factor, 0-10; a weight of 0 leaves the factor out
+  weights: Record<ScoringFactor, number>;
+  // Minimum scores (0-100) for HOT and WARM; anything lower is COLD
+  hotThreshold: number;
+  warmThreshold: number;
+  // Quality of each lead source, 0-100, keyed by source name
+  sourceScores: Record<string, number>;
+  defaultSourceScore: number;
+  // Budget that earns the budget factor's full points
+  budgetTarget: number;
+}
+
+// Dates are stored as YYYY-MM-DD; multi-select values as the chosen options
+export type CustomFieldValue = string | number | string[];
+
+// Lead field whose new value enrolls a lead in a drip campaign
+export type DripTriggerField = 'source' | 'tag' | 'status';
+
+export interface DripTrigger {
+  field: DripTriggerField;
+  value: string;
+}
+
+export interface DripStep {
+  id: string;
+  // Days after enrollment, e.g. 0, 3, 10
+  delayDays: number;
+  templateId: string;
+}
+
+export interface DripCampaign {
+  id: string;
+  brokerageId: string;
+  createdBy?: string;
+  name: string;
+  description?: string;
+  // Sorted by delay
+  steps: DripStep[];
+  // Without a trigger, leads are only enrolled by hand
+  trigger?: DripTrigger;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export type DripEnrollmentStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'STOPPED';
+export type DripPauseReason = 'REPLIED' | 'STATUS_CHANGED' | 'MANUAL';
+
+export interface DripEnrollment {
+  id: string;
+  campaignId: string;
+  leadId: string;
+  status: DripEnrollmentStatus;
+  origin: 'MANUAL' | 'TRIGGER';
+  // Index of the next step to send
+  currentStep: number;
+  nextSendAt?: string;
+  lastSentAt?: string;
+  lastError?: string;
+  pausedAt?: string;
+  pauseReason?: DripPauseReason;
+  completedAt?: string;
+  enrolledAt: string;
+}
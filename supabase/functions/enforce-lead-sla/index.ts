@@ -0,0 +1,225 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.89.0";
+import { DEFAULT_ROUTING_CONFIG, buildRoutingStats, recordDecision, routeLead } from "../_shared/leadRouting.ts";
+import { getSlaDueAt, getSlaPolicy, isFirstResponseMade } from "../_shared/speedToLead.ts";
+import type { LeadNote, LeadRoutingConfig, LeadStatus } from "../_shared/types.ts";
+
+// Run every minute from pg_cron (or any scheduler) with the service role key:
+//   select net.http_post(
+//     url := '<project-url>/functions/v1/enforce-lead-sla',
+//     headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+//   );
+// Leads whose first-response deadline has passed are either cleared (the agent responded)
+// or recorded as a breach, escalated to the broker and optionally reassigned.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// Matches the window the in-app router balances against
+const ROUTING_HISTORY_DAYS = 30;
+// Overdue leads handled per run, oldest deadline first; the rest wait for the next one
+const BATCH_SIZE = 200;
+
+interface OverdueLeadRow {
+  id: string;
+  brokerage_id: string;
+  assigned_agent_id: string;
+  first_name: string;
+  last_name: string;
+  status: LeadStatus;
+  source: string;
+  property_address: string | null;
+  budget: number;
+  notes: LeadNote[];
+  sla_due_at: string;
+}
+
+interface TeamMemberRow {
+  id: string;
+  role: string;
+  first_name: string;
+  last_name: string;
+}
+
+const jsonResponse = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(405, { success: false, error: "Method not allowed" });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse(401, { success: false, error: "Unauthorized" });
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const now = new Date();
+
+    const { data: overdue, error: overdueError } = await supabase
+      .from("leads")
+      .select("id, brokerage_id, assigned_agent_id, first_name, last_name, status, source, property_address, budget, notes, sla_due_at")
+      .eq("is_deleted", false)
+      .lte("sla_due_at", now.toISOString())
+      .order("sla_due_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (overdueError) {
+      console.error("Error loading overdue leads:", overdueError);
+      return jsonResponse(500, { success: false, error: overdueError.message });
+    }
+
+    const byBrokerage = new Map<string, OverdueLeadRow[]>();
+    (overdue as OverdueLeadRow[] || []).forEach(row => {
+      byBrokerage.set(row.brokerage_id, [...(byBrokerage.get(row.brokerage_id) || []), row]);
+    });
+
+    let met = 0;
+    let breached = 0;
+    let reassigned = 0;
+
+    for (const [brokerageId, leads] of byBrokerage) {
+      const [{ data: routing }, { data: team }, { data: history }] = await Promise.all([
+        supabase.from("lead_routing_configs").select("config").eq("brokerage_id", brokerageId).maybeSingle(),
+        supabase
+          .from("user_profiles")
+          .select("id, role, first_name, last_name")
+          .eq("brokerage_id", brokerageId)
+          .eq("is_deleted", false)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("lead_assignments")
+          .select("rule_id, agent_id, created_at")
+          .eq("brokerage_id", brokerageId)
+          .neq("origin", "MANUAL")
+          .gte("created_at", new Date(now.getTime() - ROUTING_HISTORY_DAYS * 86400000).toISOString()),
+      ]);
+
+      const config: LeadRoutingConfig = { ...DEFAULT_ROUTING_CONFIG, ...(routing?.config || {}) };
+      const members = (team || []) as TeamMemberRow[];
+      const broker = members.find(member => member.role === "BROKER");
+      const stats = buildRoutingStats((history || []).map((row: { rule_id: string | null; agent_id: string; created_at: string }) => ({
+        ruleId: row.rule_id || undefined,
+        agentId: row.agent_id,
+        createdAt: row.created_at,
+      })));
+      const nameOf = (agentId: string) => {
+        const member = members.find(m => m.id === agentId);
+        return member ? `${member.first_name} ${member.last_name}`.trim() : "Unassigned agent";
+      };
+
+      for (const lead of leads) {
+        if (isFirstResponseMade(lead)) {
+          await supabase.from("leads").update({ sla_due_at: null }).eq("id", lead.id);
+          met++;
+          continue;
+        }
+
+        const policy = getSlaPolicy(config, lead.source);
+        const fallbackAgentId = broker?.id || lead.assigned_agent_id;
+        let newAgentId: string | null = null;
+
+        if (policy?.reassignOnBreach) {
+          // The agent who missed the deadline is left out of every pool
+          const decision = routeLead(
+            { source: lead.source, propertyAddress: lead.property_address || undefined, budget: lead.budget },
+            config,
+            stats,
+            {
+              fallbackAgentId,
+              activeAgentIds: members.map(member => member.id).filter(id => id !== lead.assigned_agent_id),
+              at: now,
+            },
+          );
+
+          if (decision.agentId !== lead.assigned_agent_id) {
+            newAgentId = decision.agentId;
+            recordDecision(stats, decision);
+            await supabase.from("lead_assignments").insert({
+              brokerage_id: brokerageId,
+              lead_id: lead.id,
+              agent_id: decision.agentId,
+              rule_id: decision.ruleId || null,
+              rule_name: decision.ruleName,
+              strategy: decision.strategy || null,
+              reason: `SLA breached by ${nameOf(lead.assigned_agent_id)}; ${decision.reason}`,
+              origin: "SLA_ESCALATION",
+            });
+          }
+        }
+
+        await supabase.from("lead_sla_breaches").insert({
+          brokerage_id: brokerageId,
+          lead_id: lead.id,
+          agent_id: lead.assigned_agent_id,
+          source: lead.source,
+          due_at: lead.sla_due_at,
+          breached_at: now.toISOString(),
+          reassigned_to_agent_id: newAgentId,
+        });
+
+        const leadName = `${lead.first_name} ${lead.last_name}`.trim();
+        const note: LeadNote = {
+          id: `n_sla_${now.getTime()}`,
+          content: newAgentId
+            ? `Speed-to-lead SLA missed by ${nameOf(lead.assigned_agent_id)}. Lead reassigned to ${nameOf(newAgentId)}.`
+            : `Speed-to-lead SLA missed by ${nameOf(lead.assigned_agent_id)}. Escalated to the broker.`,
+          createdAt: now.toISOString(),
+          authorId: "SYSTEM",
+          authorName: "Speed-to-Lead SLA",
+        };
+
+        // A reassigned lead starts a fresh clock for the new agent
+        await supabase
+          .from("leads")
+          .update(newAgentId
+            ? { assigned_agent_id: newAgentId, sla_due_at: getSlaDueAt(config, lead.source, now) || null }
+            : { sla_due_at: null })
+          .eq("id", lead.id);
+        // Appended in the database so notes the agent added since this run read the lead are kept
+        await supabase.rpc("append_lead_note", { p_lead_id: lead.id, p_note: note });
+
+        if (broker) {
+          await supabase.from("tasks").insert({
+            brokerage_id: brokerageId,
+            assigned_user_id: broker.id,
+            lead_id: lead.id,
+            title: `SLA breach: ${leadName || "New lead"}`,
+            description: `${nameOf(lead.assigned_agent_id)} did not respond to this ${lead.source} lead by ${new Date(lead.sla_due_at).toLocaleString("en-US", { timeZone: config.timeZone })}.`
+              + (newAgentId ? ` Reassigned to ${nameOf(newAgentId)}.` : ""),
+            due_date: now.toISOString(),
+            priority: "HIGH",
+          });
+        }
+
+        breached++;
+        if (newAgentId) reassigned++;
+      }
+    }
+
+    console.log(`SLA check: ${met} met, ${breached} breached, ${reassigned} reassigned`);
+
+    return jsonResponse(200, { success: true, met, breached, reassigned });
+  } catch (error: any) {
+    console.error("Error in enforce-lead-sla function:", error);
+    return jsonResponse(500, { success: false, error: error?.message || "Failed to enforce lead SLAs" });
+  }
+});
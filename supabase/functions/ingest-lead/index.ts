@@ -0,0 +1,276 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.89.0";
+import { LEAD_TRANSFORMERS } from "../_shared/leadIngestionService.ts";
+import { DEFAULT_ROUTING_CONFIG, buildRoutingStats, routeLead } from "../_shared/leadRouting.ts";
+import { getSlaDueAt } from "../_shared/speedToLead.ts";
+import { scoreIngestedLead, withScoringDefaults } from "../_shared/leadScoring.ts";
+import { toStoredPhone } from "../_shared/phone.ts";
+import { LocatedAddress, locateAddress } from "../_shared/geocoding.ts";
+import type { Lead } from "../_shared/types.ts";
+
+// Portals call this without a Supabase session, so deploy with:
+//   supabase functions deploy ingest-lead --no-verify-jwt
+// Requests are authenticated by the per-integration key in X-Api-Key instead.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, X-Api-Key",
+};
+
+// Matches the window the in-app router balances against
+const ROUTING_HISTORY_DAYS = 30;
+
+const jsonResponse = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+
+// Constant-time comparison so the key cannot be guessed from response timing
+const keysMatch = (expected: string, provided: string) => {
+  if (expected.length !== provided.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ provided.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+const toLeadInsert = (lead: Lead, address: LocatedAddress) => ({
+  brokerage_id: lead.brokerageId,
+  assigned_agent_id: lead.assignedAgentId,
+  first_name: lead.firstName,
+  last_name: lead.lastName,
+  email: lead.email,
+  phone: toStoredPhone(lead.phone).phone || "",
+  phone_extension: toStoredPhone(lead.phone).extension,
+  status: lead.status,
+  temperature: lead.temperature,
+  source: lead.source,
+  tags: lead.tags,
+  property_type: lead.propertyType,
+  property_address: lead.propertyAddress || null,
+  property_address_components: address.components,
+  property_location: address.location,
+  budget: lead.budget,
+  estimated_deal_value: lead.estimatedDealValue,
+  notes: lead.notes,
+  external_id: lead.externalId || null,
+  integration_source: lead.integrationSource || null,
+  sla_due_at: lead.slaDueAt || null,
+  score: lead.score ?? null,
+});
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(405, { success: false, error: "Method not allowed" });
+  }
+
+  try {
+    // Path: /ingest-lead/:provider/:brokerageId
+    const segments = new URL(req.url).pathname.split("/").filter(Boolean);
+    const base = segments.indexOf("ingest-lead");
+    const provider = segments[base + 1];
+    const brokerageId = segments[base + 2];
+
+    if (base === -1 || !provider || !brokerageId) {
+      return jsonResponse(404, { success: false, error: "Expected /ingest-lead/:provider/:brokerageId" });
+    }
+
+    const apiKey = req.headers.get("X-Api-Key");
+    if (!apiKey) {
+      return jsonResponse(401, { success: false, error: "Missing X-Api-Key header" });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+
+    const { data: integration, error: integrationError } = await supabase
+      .from("lead_integrations")
+      .select("id, api_key, status, field_mapping")
+      .eq("brokerage_id", brokerageId)
+      .eq("provider", provider)
+      .maybeSingle();
+
+    if (integrationError) {
+      console.error("Error loading integration:", integrationError);
+      return jsonResponse(404, { success: false, error: "Unknown integration" });
+    }
+
+    if (!integration || !keysMatch(integration.api_key, apiKey)) {
+      return jsonResponse(401, { success: false, error: "Invalid API key" });
+    }
+
+    if (integration.status !== "ACTIVE") {
+      return jsonResponse(403, { success: false, error: "Integration is disabled" });
+    }
+
+    // Every authenticated payload is logged so failures can be fixed and replayed from Integrations
+    const rawBody = await req.text();
+    let payload: unknown = rawBody;
+    let parseError: string | null = null;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch (error: any) {
+      parseError = `Body is not valid JSON: ${error?.message || String(error)}`;
+    }
+
+    const { data: logEntry, error: logError } = await supabase
+      .from("lead_ingestion_logs")
+      .insert({ brokerage_id: brokerageId, integration_id: integration.id, provider, payload, status: "PENDING" })
+      .select("id")
+      .single();
+
+    if (logError) {
+      console.error("Error writing ingestion log:", logError);
+    }
+
+    const finish = async (
+      status: number,
+      outcome: "SUCCESS" | "FAILED" | "DUPLICATE",
+      fields: { error?: string; leadId?: string; externalId?: string },
+    ) => {
+      if (logEntry) {
+        await supabase
+          .from("lead_ingestion_logs")
+          .update({
+            status: outcome,
+            error: fields.error || null,
+            lead_id: fields.leadId || null,
+            external_id: fields.externalId || null,
+          })
+          .eq("id", logEntry.id);
+      }
+      return jsonResponse(status, {
+        success: outcome === "SUCCESS",
+        ...(fields.error ? { error: fields.error } : {}),
+        ...(fields.leadId ? { leadId: fields.leadId } : {}),
+        ...(logEntry ? { logId: logEntry.id } : {}),
+      });
+    };
+
+    if (parseError) {
+      return await finish(400, "FAILED", { error: parseError });
+    }
+
+    const transform = LEAD_TRANSFORMERS[provider];
+    if (!transform) {
+      return await finish(422, "FAILED", { error: `No transformer registered for provider "${provider}"` });
+    }
+
+    const { data: team, error: teamError } = await supabase
+      .from("user_profiles")
+      .select("id, role")
+      .eq("brokerage_id", brokerageId)
+      .eq("is_deleted", false)
+      .order("created_at", { ascending: true });
+
+    // Leads no routing rule can place go to the broker
+    const broker = (team || []).find((member: { role: string }) => member.role === "BROKER");
+    if (teamError || !broker) {
+      console.error("No broker found for brokerage:", brokerageId, teamError);
+      return await finish(422, "FAILED", { error: "Brokerage has no broker to assign leads to" });
+    }
+
+    let lead: Lead;
+    try {
+      lead = transform(payload, brokerageId, broker.id, integration.field_mapping || undefined);
+    } catch (error: any) {
+      console.error("Payload rejected:", error);
+      return await finish(400, "FAILED", { error: `Invalid payload: ${error?.message || String(error)}` });
+    }
+
+    if (lead.externalId) {
+      const { data: existing } = await supabase
+        .from("leads")
+        .select("id")
+        .eq("brokerage_id", brokerageId)
+        .eq("integration_source", lead.integrationSource)
+        .eq("external_id", lead.externalId)
+        .maybeSingle();
+
+      if (existing) {
+        return await finish(409, "DUPLICATE", { error: "Duplicate lead", leadId: existing.id, externalId: lead.externalId });
+      }
+    }
+
+    const [{ data: routing }, { data: history }, { data: scoring }] = await Promise.all([
+      supabase.from("lead_routing_configs").select("config").eq("brokerage_id", brokerageId).maybeSingle(),
+      supabase
+        .from("lead_assignments")
+        .select("rule_id, agent_id, created_at")
+        .eq("brokerage_id", brokerageId)
+        .neq("origin", "MANUAL")
+        .gte("created_at", new Date(Date.now() - ROUTING_HISTORY_DAYS * 86400000).toISOString()),
+      supabase.from("lead_scoring_configs").select("config").eq("brokerage_id", brokerageId).maybeSingle(),
+    ]);
+
+    const routingConfig = { ...DEFAULT_ROUTING_CONFIG, ...(routing?.config || {}) };
+    const decision = routeLead(
+      lead,
+      routingConfig,
+      buildRoutingStats((history || []).map((row: { rule_id: string | null; agent_id: string; created_at: string }) => ({
+        ruleId: row.rule_id || undefined,
+        agentId: row.agent_id,
+        createdAt: row.created_at,
+      }))),
+      { fallbackAgentId: broker.id, activeAgentIds: (team || []).map((member: { id: string }) => member.id) },
+    );
+    lead.assignedAgentId = decision.agentId;
+    lead.slaDueAt = getSlaDueAt(routingConfig, lead.source);
+
+    lead = scoreIngestedLead(lead, withScoringDefaults(scoring?.config));
+
+    const { data: created, error: insertError } = await supabase
+      .from("leads")
+      .insert(toLeadInsert(lead, await locateAddress(lead.propertyAddress)))
+      .select("id")
+      .single();
+
+    if (insertError) {
+      // A concurrent retry can still hit the unique index between the check and the insert
+      if (insertError.code === "23505") {
+        return await finish(409, "DUPLICATE", { error: "Duplicate lead", externalId: lead.externalId });
+      }
+      console.error("Error inserting lead:", insertError);
+      return await finish(500, "FAILED", { error: insertError.message, externalId: lead.externalId });
+    }
+
+    await Promise.all([
+      supabase
+        .from("lead_integrations")
+        .update({ last_ingestion_at: new Date().toISOString() })
+        .eq("id", integration.id),
+      supabase.from("lead_assignments").insert({
+        brokerage_id: brokerageId,
+        lead_id: created.id,
+        agent_id: decision.agentId,
+        rule_id: decision.ruleId || null,
+        rule_name: decision.ruleName,
+        strategy: decision.strategy || null,
+        reason: decision.reason,
+        origin: "INGESTION",
+      }),
+    ]);
+
+    console.log(`Ingested ${provider} lead ${created.id} for brokerage ${brokerageId}, assigned by "${decision.ruleName}"`);
+
+    return await finish(201, "SUCCESS", { leadId: created.id, externalId: lead.externalId });
+  } catch (error: any) {
+    console.error("Error in ingest-lead function:", error);
+    return jsonResponse(500, { success: false, error: error?.message || "Failed to ingest lead" });
+  }
+});
@@ -0,0 +1,145 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.89.0";
+
+// Inbound mail webhook. Point the email provider's inbound route for the sending domain
+// (replies to drip and one-off emails) at this function and deploy with:
+//   supabase functions deploy receive-email --no-verify-jwt
+// The provider authenticates with `Authorization: Bearer <INBOUND_EMAIL_SECRET>`.
+// Each message is filed in the INBOX of the user it was addressed to, or else of the
+// agents whose leads sent it; the pause_drips_on_reply trigger then pauses the sender's
+// running drip enrollments.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// Flat JSON, or wrapped in `data` as in Resend-style webhook events
+interface InboundEmail {
+  from?: string;
+  to?: string | string[];
+  subject?: string;
+  text?: string;
+  html?: string;
+  date?: string;
+}
+
+const jsonResponse = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+
+// Constant-time comparison so the secret cannot be guessed from response timing
+const keysMatch = (expected: string, provided: string) => {
+  if (expected.length !== provided.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ provided.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// "Jane Doe <jane@example.com>" -> "jane@example.com"
+const addressOf = (value: string) => (value.match(/<([^>]+)>/)?.[1] || value).trim().toLowerCase();
+
+// ilike treats these as wildcards, and `_` is common in addresses
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, "\\$&");
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(405, { success: false, error: "Method not allowed" });
+  }
+
+  try {
+    const secret = Deno.env.get("INBOUND_EMAIL_SECRET");
+    if (!secret) {
+      return jsonResponse(500, { success: false, error: "INBOUND_EMAIL_SECRET is not configured" });
+    }
+    if (!keysMatch(`Bearer ${secret}`, req.headers.get("Authorization") || "")) {
+      return jsonResponse(401, { success: false, error: "Unauthorized" });
+    }
+
+    const payload = await req.json();
+    const message: InboundEmail = payload?.data && typeof payload.data === "object" ? payload.data : payload;
+    const sender = typeof message.from === "string" ? message.from.trim() : "";
+    const senderAddress = addressOf(sender);
+    if (!senderAddress) {
+      return jsonResponse(400, { success: false, error: "Missing sender address" });
+    }
+
+    const recipients = (Array.isArray(message.to) ? message.to : [message.to || ""])
+      .map(value => addressOf(String(value)))
+      .filter(Boolean);
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+
+    // Mail addressed to a user directly goes to them; replies to the shared sender go to
+    // the agents of the leads that wrote in
+    let ownerIds: string[] = [];
+    if (recipients.length > 0) {
+      const { data: users, error: usersError } = await supabase
+        .from("user_profiles")
+        .select("id")
+        .in("email", recipients)
+        .eq("is_deleted", false);
+      if (usersError) throw usersError;
+      ownerIds = (users || []).map((u: { id: string }) => u.id);
+    }
+
+    if (ownerIds.length === 0) {
+      const { data: leads, error: leadsError } = await supabase
+        .from("leads")
+        .select("assigned_agent_id")
+        .ilike("email", escapeLike(senderAddress))
+        .eq("is_deleted", false);
+      if (leadsError) throw leadsError;
+      ownerIds = Array.from(new Set((leads || []).map((l: { assigned_agent_id: string }) => l.assigned_agent_id)));
+    }
+
+    // Nobody to deliver to; acknowledged so the provider does not keep retrying
+    if (ownerIds.length === 0) {
+      return jsonResponse(200, { success: true, stored: 0 });
+    }
+
+    const receivedAt = message.date && !Number.isNaN(Date.parse(message.date))
+      ? new Date(message.date).toISOString()
+      : new Date().toISOString();
+
+    const { error: insertError } = await supabase
+      .from("emails")
+      .insert(ownerIds.map(userId => ({
+        user_id: userId,
+        subject: message.subject || "(no subject)",
+        body: message.text || message.html || "",
+        sender_email: sender,
+        folder: "INBOX",
+        is_bulk: false,
+        sent_at: receivedAt,
+      })));
+
+    if (insertError) {
+      console.error("Error storing inbound email:", insertError);
+      return jsonResponse(500, { success: false, error: insertError.message });
+    }
+
+    return jsonResponse(200, { success: true, stored: ownerIds.length });
+  } catch (error: any) {
+    console.error("Error in receive-email function:", error);
+    return jsonResponse(500, { success: false, error: error?.message || "Failed to receive email" });
+  }
+});
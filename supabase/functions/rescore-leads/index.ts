@@ -0,0 +1,170 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.89.0";
+import { NO_SIGNALS, scoreLead, withScoringDefaults } from "../_shared/leadScoring.ts";
+import type { LeadScoringSignals } from "../_shared/leadScoring.ts";
+import type { LeadScoringConfig, LeadTemperature } from "../_shared/types.ts";
+
+// Run hourly from pg_cron (or any scheduler) with the service role key, since recency
+// decays even when nothing else changes:
+//   select net.http_post(
+//     url := '<project-url>/functions/v1/rescore-leads',
+//     headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+//   );
+// Brokers can also call it with their own session after changing the scoring settings;
+// that rescores their brokerage only. Scores are always saved with the service role, so
+// temperature changes show in lead history as system changes rather than as the caller's.
+// The app makes temperature read-only while scoring is on, so this owns it outright.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Leads scored per query; keeps each signals lookup and response small
+const PAGE_SIZE = 500;
+
+interface ScoredLeadRow {
+  id: string;
+  budget: number;
+  source: string;
+  created_at: string;
+  score: number | null;
+  temperature: LeadTemperature;
+}
+
+interface SignalsRow {
+  lead_id: string;
+  last_contact_at: string | null;
+  email_opens: number;
+  open_house_visits: number;
+  timeline: string | null;
+}
+
+const toSignals = (row: SignalsRow): LeadScoringSignals => ({
+  lastContactAt: row.last_contact_at || undefined,
+  emailOpens: row.email_opens || 0,
+  openHouseVisits: row.open_house_visits || 0,
+  timeline: row.timeline || undefined,
+});
+
+const jsonResponse = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(405, { success: false, error: "Method not allowed" });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse(401, { success: false, error: "Unauthorized" });
+    }
+
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    let configQuery = supabase.from("lead_scoring_configs").select("brokerage_id, config");
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace(/^Bearer\s+/i, ""));
+      if (authError || !user) {
+        return jsonResponse(401, { success: false, error: "Unauthorized" });
+      }
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("brokerage_id, role")
+        .eq("id", user.id)
+        .eq("is_deleted", false)
+        .maybeSingle();
+      if (!profile || profile.role !== "BROKER") {
+        return jsonResponse(403, { success: false, error: "Only brokers can rescore leads" });
+      }
+      configQuery = configQuery.eq("brokerage_id", profile.brokerage_id);
+    }
+
+    const { data: configs, error: configError } = await configQuery;
+    if (configError) {
+      console.error("Error loading scoring configs:", configError);
+      return jsonResponse(500, { success: false, error: configError.message });
+    }
+
+    const now = new Date();
+    let scored = 0;
+    let updated = 0;
+
+    for (const row of (configs || []) as { brokerage_id: string; config: Partial<LeadScoringConfig> | null }[]) {
+      const config = withScoringDefaults(row.config);
+      if (!config.isEnabled) continue;
+
+      // Keyset paging by id, so leads updated along the way are neither skipped nor repeated
+      let afterId: string | null = null;
+      for (;;) {
+        let leadQuery = supabase
+          .from("leads")
+          .select("id, budget, source, created_at, score, temperature")
+          .eq("brokerage_id", row.brokerage_id)
+          .eq("is_deleted", false)
+          .order("id", { ascending: true })
+          .limit(PAGE_SIZE);
+        if (afterId) leadQuery = leadQuery.gt("id", afterId);
+
+        const { data: page, error: pageError } = await leadQuery;
+        if (pageError) throw pageError;
+        const leads = (page || []) as ScoredLeadRow[];
+        if (leads.length === 0) break;
+        afterId = leads[leads.length - 1].id;
+
+        const { data: signalRows, error: signalsError } = await supabase.rpc("lead_scoring_signals", {
+          p_brokerage_id: row.brokerage_id,
+          p_lead_ids: leads.map(lead => lead.id),
+        });
+        if (signalsError) throw signalsError;
+        const signals = new Map(((signalRows || []) as SignalsRow[]).map(s => [s.lead_id, toSignals(s)]));
+
+        for (const lead of leads) {
+          const result = scoreLead(
+            { budget: lead.budget, source: lead.source, createdAt: lead.created_at },
+            signals.get(lead.id) || NO_SIGNALS,
+            config,
+            now,
+          );
+          scored++;
+          if (result.score === lead.score && result.temperature === lead.temperature) continue;
+
+          const { error: updateError } = await supabase
+            .from("leads")
+            .update({ score: result.score, temperature: result.temperature })
+            .eq("id", lead.id);
+          if (updateError) {
+            console.error(`Error saving score for lead ${lead.id}:`, updateError);
+            continue;
+          }
+          updated++;
+        }
+
+        if (leads.length < PAGE_SIZE) break;
+      }
+    }
+
+    console.log(`Lead scoring: ${scored} scored, ${updated} updated`);
+
+    return jsonResponse(200, { success: true, scored, updated });
+  } catch (error: any) {
+    console.error("Error in rescore-leads function:", error);
+    return jsonResponse(500, { success: false, error: error?.message || "Failed to rescore leads" });
+  }
+});
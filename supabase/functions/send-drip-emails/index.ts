@@ -0,0 +1,243 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.89.0";
+import { Resend } from "npm:resend@3.2.0";
+import { fillPlaceholders, sortSteps, stepDueAt } from "../_shared/dripCampaigns.ts";
+import type { DripStep } from "../_shared/types.ts";
+
+// Run every few minutes from pg_cron (or any scheduler) with the service role key:
+//   select net.http_post(
+//     url := '<project-url>/functions/v1/send-drip-emails',
+//     headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+//   );
+// Sends the next step of every running drip enrollment that is due and schedules the
+// one after it. Pausing on status changes happens in the database, and on replies once
+// receive-email files them in the agent's inbox.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// Same verified sender as send-email
+const SENDER_EMAIL = "Josephine Sharma <josephine@legacyhomesre.com>";
+// Enrollments handled per run; the rest wait for the next one
+const BATCH_SIZE = 100;
+// Held while a step is being sent so an overlapping run skips it; also the retry delay
+const CLAIM_MINUTES = 60;
+
+interface DueEnrollmentRow {
+  id: string;
+  lead_id: string;
+  current_step: number;
+  next_send_at: string;
+  drip_campaigns: { name: string; steps: DripStep[]; is_active: boolean };
+  leads: {
+    first_name: string;
+    last_name: string;
+    email: string;
+    property_address: string | null;
+    assigned_agent_id: string;
+    is_deleted: boolean;
+  };
+}
+
+interface TemplateRow {
+  id: string;
+  subject: string;
+  body: string;
+}
+
+const jsonResponse = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(405, { success: false, error: "Method not allowed" });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse(401, { success: false, error: "Unauthorized" });
+    }
+
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+    if (!resendApiKey) {
+      return jsonResponse(500, { success: false, error: "RESEND_API_KEY is not configured" });
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const resend = new Resend(resendApiKey);
+    const now = new Date();
+
+    const { data: due, error: dueError } = await supabase
+      .from("drip_enrollments")
+      .select("id, lead_id, current_step, next_send_at, drip_campaigns!inner(name, steps, is_active), leads!inner(first_name, last_name, email, property_address, assigned_agent_id, is_deleted)")
+      .eq("status", "ACTIVE")
+      .eq("drip_campaigns.is_active", true)
+      .lte("next_send_at", now.toISOString())
+      .order("next_send_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) {
+      console.error("Error loading due drip enrollments:", dueError);
+      return jsonResponse(500, { success: false, error: dueError.message });
+    }
+
+    const enrollments = (due || []) as unknown as DueEnrollmentRow[];
+    const templateIds = new Set<string>();
+    enrollments.forEach(row => {
+      const step = sortSteps(row.drip_campaigns.steps || [])[row.current_step];
+      if (step) templateIds.add(step.templateId);
+    });
+
+    const { data: templateRows } = templateIds.size > 0
+      ? await supabase.from("email_templates").select("id, subject, body").in("id", Array.from(templateIds)).eq("is_deleted", false)
+      : { data: [] };
+    const templates = new Map(((templateRows || []) as TemplateRow[]).map(t => [t.id, t]));
+
+    let sent = 0;
+    let failed = 0;
+    let stopped = 0;
+
+    for (const row of enrollments) {
+      const steps = sortSteps(row.drip_campaigns.steps || []);
+      const step = steps[row.current_step];
+      const lead = row.leads;
+
+      const stop = async (status: "COMPLETED" | "STOPPED", lastError: string | null) => {
+        await supabase
+          .from("drip_enrollments")
+          .update({
+            status,
+            next_send_at: null,
+            last_error: lastError,
+            completed_at: status === "COMPLETED" ? now.toISOString() : null,
+          })
+          .eq("id", row.id);
+      };
+
+      // Steps removed from the campaign after the lead was enrolled
+      if (!step) {
+        await stop("COMPLETED", null);
+        continue;
+      }
+      if (lead.is_deleted || !lead.email) {
+        await stop("STOPPED", lead.is_deleted ? "Lead was deleted" : "Lead has no email address");
+        stopped++;
+        continue;
+      }
+      const template = templates.get(step.templateId);
+      if (!template) {
+        await stop("STOPPED", `Template for step ${row.current_step + 1} was deleted`);
+        stopped++;
+        continue;
+      }
+
+      // Claim the step; an overlapping run that got here first has moved next_send_at
+      const claimUntil = new Date(now.getTime() + CLAIM_MINUTES * 60000).toISOString();
+      const { data: claimed } = await supabase
+        .from("drip_enrollments")
+        .update({ next_send_at: claimUntil })
+        .eq("id", row.id)
+        .eq("status", "ACTIVE")
+        .eq("next_send_at", row.next_send_at)
+        .select("id");
+      if (!claimed || claimed.length === 0) continue;
+
+      const values = {
+        firstName: lead.first_name,
+        lastName: lead.last_name,
+        email: lead.email,
+        propertyAddress: lead.property_address || "",
+      };
+      const subject = fillPlaceholders(template.subject, values);
+      const body = fillPlaceholders(template.body, values);
+
+      let sendError: string | null = null;
+      try {
+        const result = await resend.emails.send({
+          from: SENDER_EMAIL,
+          to: [lead.email],
+          subject,
+          html: escapeHtml(body).replace(/\n/g, "<br>"),
+        });
+        if (result.error) sendError = result.error.message;
+      } catch (error: any) {
+        sendError = error?.message || String(error);
+      }
+
+      // Recorded as the lead's agent sending it, so it shows in their sent mail and on the timeline
+      const { data: email } = await supabase
+        .from("emails")
+        .insert({
+          user_id: lead.assigned_agent_id,
+          subject,
+          body,
+          sender_email: SENDER_EMAIL,
+          folder: "SENT",
+          is_bulk: false,
+          template_id: template.id,
+        })
+        .select("id")
+        .single();
+
+      if (email) {
+        await supabase.from("email_recipients").insert({
+          email_id: email.id,
+          recipient_email: lead.email,
+          recipient_name: `${lead.first_name} ${lead.last_name}`.trim(),
+          contact_id: row.lead_id,
+          recipient_type: "to",
+          status: sendError ? "failed" : "sent",
+        });
+      }
+
+      if (sendError) {
+        // Left claimed, so the step is retried once the claim runs out
+        console.error(`Drip step ${row.current_step + 1} of "${row.drip_campaigns.name}" failed for lead ${row.lead_id}:`, sendError);
+        await supabase.from("drip_enrollments").update({ last_error: sendError }).eq("id", row.id);
+        failed++;
+        continue;
+      }
+
+      const nextStep = row.current_step + 1;
+      const nextSendAt = stepDueAt(steps, nextStep, now);
+      await supabase
+        .from("drip_enrollments")
+        .update({
+          current_step: nextStep,
+          last_sent_at: now.toISOString(),
+          last_error: null,
+          next_send_at: nextSendAt?.toISOString() || null,
+          ...(nextSendAt ? {} : { status: "COMPLETED", completed_at: now.toISOString() }),
+        })
+        .eq("id", row.id);
+      sent++;
+    }
+
+    console.log(`Drip run: ${sent} sent, ${failed} failed, ${stopped} stopped`);
+
+    return jsonResponse(200, { success: true, sent, failed, stopped });
+  } catch (error: any) {
+    console.error("Error in send-drip-emails function:", error);
+    return jsonResponse(500, { success: false, error: error?.message || "Failed to send drip emails" });
+  }
+});
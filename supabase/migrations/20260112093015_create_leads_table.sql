@@ -0,0 +1,151 @@
+/*
+  # Leads Table with Brokerage-Scoped Access
+
+  ## Overview
+  Moves CRM leads out of client-side mock data and into the database so that
+  records entered through the Leads and Contacts views survive a reload.
+
+  ## New Tables
+
+  ### 1. `leads`
+  - `id` (uuid, primary key) - Unique lead identifier
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `assigned_agent_id` (uuid) - Agent responsible for the lead
+  - `first_name`, `last_name`, `email`, `phone` (text) - Primary contact
+  - `status` (text) - Pipeline stage (NEW, CONTACTED, ACTIVE, IN_ESCROW, CLOSED)
+  - `temperature` (text) - HOT, WARM, COLD, NORMAL
+  - `source` (text) - Lead source label
+  - `tags` (text[]) - Classification tags
+  - `property_type` (text) - PRIMARY, SECONDARY, INVESTMENT
+  - `property_address` (text, nullable)
+  - `budget`, `estimated_deal_value` (numeric)
+  - `notes` (jsonb) - Array of LeadNote objects, newest first
+  - `dob`, `wedding_anniversary`, `home_anniversary` (date, nullable)
+  - `spouse_*`, `secondary_contact_relationship`, `family_notes` - Secondary contact
+  - `open_house_id` (uuid, nullable), `check_in_time` (timestamptz, nullable)
+  - `external_id`, `integration_source` (text, nullable) - API ingestion metadata
+  - `is_deleted` (boolean), `deleted_at` (timestamptz, nullable) - Soft delete
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled
+  - Brokers can access every lead in their brokerage
+  - Agents can only access leads assigned to them
+  - Only brokers can permanently delete leads (trash bin purge)
+
+  ## Notes
+  - `is_broker()` mirrors `get_my_brokerage_id()` and uses SECURITY DEFINER to
+    avoid recursive user_profiles lookups inside policies
+  - Soft-deleted rows stay visible so the trash bin can restore them
+*/
+
+-- Helper to check the current user's role without RLS recursion
+CREATE OR REPLACE FUNCTION is_broker()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_profiles
+    WHERE id = auth.uid()
+    AND role = 'BROKER'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_broker() TO authenticated;
+
+-- Create leads table
+CREATE TABLE IF NOT EXISTS leads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  assigned_agent_id uuid NOT NULL REFERENCES user_profiles(id),
+  first_name text NOT NULL,
+  last_name text NOT NULL DEFAULT '',
+  email text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'NEW' CHECK (status IN ('NEW', 'CONTACTED', 'ACTIVE', 'IN_ESCROW', 'CLOSED')),
+  temperature text NOT NULL DEFAULT 'NORMAL' CHECK (temperature IN ('HOT', 'WARM', 'COLD', 'NORMAL')),
+  source text NOT NULL DEFAULT '',
+  tags text[] NOT NULL DEFAULT '{}',
+  property_type text NOT NULL DEFAULT 'PRIMARY' CHECK (property_type IN ('PRIMARY', 'SECONDARY', 'INVESTMENT')),
+  property_address text,
+  budget numeric NOT NULL DEFAULT 0,
+  estimated_deal_value numeric NOT NULL DEFAULT 0,
+  notes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  dob date,
+  wedding_anniversary date,
+  home_anniversary date,
+  spouse_first_name text,
+  spouse_last_name text,
+  spouse_email text,
+  spouse_phone text,
+  spouse_dob date,
+  secondary_contact_relationship text CHECK (secondary_contact_relationship IN ('Spouse', 'Sister', 'Brother', 'Friend', 'Partner', 'Other')),
+  family_notes text,
+  open_house_id uuid,
+  check_in_time timestamptz,
+  external_id text,
+  integration_source text,
+  is_deleted boolean DEFAULT false,
+  deleted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_leads_brokerage_id ON leads(brokerage_id);
+CREATE INDEX IF NOT EXISTS idx_leads_assigned_agent_id ON leads(assigned_agent_id);
+CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
+CREATE INDEX IF NOT EXISTS idx_leads_email ON leads(lower(email));
+CREATE INDEX IF NOT EXISTS idx_leads_external_id ON leads(external_id);
+CREATE INDEX IF NOT EXISTS idx_leads_created_at ON leads(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for leads table
+CREATE POLICY "Users can view leads in their brokerage"
+  ON leads FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_agent_id = auth.uid())
+  );
+
+CREATE POLICY "Users can insert leads in their brokerage"
+  ON leads FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_agent_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update leads in their brokerage"
+  ON leads FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_agent_id = auth.uid())
+  )
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_agent_id = auth.uid())
+  );
+
+CREATE POLICY "Brokers can delete leads in their brokerage"
+  ON leads FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+-- Trigger to auto-update updated_at on leads
+DROP TRIGGER IF EXISTS update_leads_updated_at ON leads;
+CREATE TRIGGER update_leads_updated_at
+  BEFORE UPDATE ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
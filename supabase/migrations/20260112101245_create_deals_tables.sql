@@ -0,0 +1,195 @@
+/*
+  # Deals and Transaction Management
+
+  ## Overview
+  Persists the Transactions pipeline, including escrow, lender, title and
+  transaction coordinator contacts plus contingency due dates.
+
+  ## New Tables
+
+  ### 1. `deals`
+  - `id` (uuid, primary key) - Unique deal identifier
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `assigned_user_id` (uuid) - Agent on the transaction
+  - `lead_id` (uuid, nullable) - Linked lead, cleared if the lead is purged
+  - `lead_name`, `client_phone`, `client_email` (text) - Client snapshot
+  - `status` (text) - ACTIVE, PENDING, CLOSED
+  - `side` (text) - BUYER, SELLER, BOTH
+  - `address` (text) - Property address
+  - `sale_price`, `commission_percentage`, `commission_amount` (numeric)
+  - `date` (timestamptz) - Expected or actual closing date
+  - `source` (text, nullable)
+  - `escrow_*`, `lender_*`, `title_*`, `tc_*` (text, nullable) - Transaction contacts
+  - `inspection_due_date`, `appraisal_due_date`, `loan_due_date` (date, nullable) - Contingencies
+  - `is_deleted` (boolean), `deleted_at` (timestamptz, nullable) - Soft delete
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 2. `deal_notes`
+  - `id` (uuid, primary key)
+  - `deal_id` (uuid) - Parent deal
+  - `content` (text)
+  - `author_id` (uuid) - User who wrote the note
+  - `created_at` (timestamptz)
+
+  ## Security
+  - RLS enabled on both tables
+  - Brokers can access every deal in their brokerage, agents only their own
+  - Deal notes inherit access from their parent deal
+  - Only brokers can permanently delete deals
+*/
+
+-- Create deals table
+CREATE TABLE IF NOT EXISTS deals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  assigned_user_id uuid NOT NULL REFERENCES user_profiles(id),
+  lead_id uuid REFERENCES leads(id) ON DELETE SET NULL,
+  lead_name text NOT NULL DEFAULT '',
+  client_phone text,
+  client_email text,
+  status text NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'PENDING', 'CLOSED')),
+  side text NOT NULL DEFAULT 'BUYER' CHECK (side IN ('BUYER', 'SELLER', 'BOTH')),
+  address text NOT NULL DEFAULT '',
+  sale_price numeric NOT NULL DEFAULT 0,
+  commission_percentage numeric NOT NULL DEFAULT 0,
+  commission_amount numeric NOT NULL DEFAULT 0,
+  date timestamptz DEFAULT now(),
+  source text,
+  escrow_company text,
+  escrow_address text,
+  escrow_officer text,
+  escrow_phone text,
+  escrow_email text,
+  escrow_file_number text,
+  lender_company text,
+  lender_phone text,
+  lender_cell_phone text,
+  lender_email text,
+  lender_loan_officer text,
+  title_company text,
+  title_officer text,
+  title_phone text,
+  title_email text,
+  tc_name text,
+  tc_phone text,
+  tc_email text,
+  inspection_due_date date,
+  appraisal_due_date date,
+  loan_due_date date,
+  is_deleted boolean DEFAULT false,
+  deleted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create deal_notes table
+CREATE TABLE IF NOT EXISTS deal_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id uuid NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  author_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_deals_brokerage_id ON deals(brokerage_id);
+CREATE INDEX IF NOT EXISTS idx_deals_assigned_user_id ON deals(assigned_user_id);
+CREATE INDEX IF NOT EXISTS idx_deals_lead_id ON deals(lead_id);
+CREATE INDEX IF NOT EXISTS idx_deals_status ON deals(status);
+CREATE INDEX IF NOT EXISTS idx_deals_date ON deals(date DESC);
+CREATE INDEX IF NOT EXISTS idx_deal_notes_deal_id ON deal_notes(deal_id);
+
+-- Enable RLS on all tables
+ALTER TABLE deals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deal_notes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for deals table
+CREATE POLICY "Users can view deals in their brokerage"
+  ON deals FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can insert deals in their brokerage"
+  ON deals FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update deals in their brokerage"
+  ON deals FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_user_id = auth.uid())
+  )
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_user_id = auth.uid())
+  );
+
+CREATE POLICY "Brokers can delete deals in their brokerage"
+  ON deals FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+-- RLS Policies for deal_notes table
+CREATE POLICY "Users can view notes on accessible deals"
+  ON deal_notes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM deals
+      WHERE deals.id = deal_notes.deal_id
+    )
+  );
+
+CREATE POLICY "Users can insert notes on accessible deals"
+  ON deal_notes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM deals
+      WHERE deals.id = deal_notes.deal_id
+    )
+  );
+
+CREATE POLICY "Users can update notes on accessible deals"
+  ON deal_notes FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM deals
+      WHERE deals.id = deal_notes.deal_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM deals
+      WHERE deals.id = deal_notes.deal_id
+    )
+  );
+
+CREATE POLICY "Users can delete notes on accessible deals"
+  ON deal_notes FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM deals
+      WHERE deals.id = deal_notes.deal_id
+    )
+  );
+
+-- Trigger to auto-update updated_at on deals
+DROP TRIGGER IF EXISTS update_deals_updated_at ON deals;
+CREATE TRIGGER update_deals_updated_at
+  BEFORE UPDATE ON deals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,100 @@
+/*
+  # Tasks with Recurring Follow-Ups
+
+  ## Overview
+  Persists the Tasks and Calendar views. A task may carry an RRULE; completing
+  it creates the next occurrence, linked back through `previous_occurrence_id`.
+
+  ## New Tables
+
+  ### 1. `tasks`
+  - `id` (uuid, primary key) - Unique task identifier
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `assigned_user_id` (uuid) - Agent responsible for the task
+  - `lead_id` (uuid, nullable) - Related lead, cleared if the lead is purged
+  - `title`, `description` (text)
+  - `due_date` (timestamptz) - Scheduled start
+  - `end_date` (timestamptz, nullable) - Scheduled finish
+  - `is_completed` (boolean), `completed_at` (timestamptz, nullable)
+  - `priority` (text) - LOW, MEDIUM, HIGH
+  - `recurrence_rule` (text, nullable) - RFC 5545 RRULE, e.g. FREQ=WEEKLY;INTERVAL=2
+  - `previous_occurrence_id` (uuid, nullable) - Task whose completion generated this one
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled
+  - Brokers can access every task in their brokerage, agents only their own
+*/
+
+-- Create tasks table
+CREATE TABLE IF NOT EXISTS tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  assigned_user_id uuid NOT NULL REFERENCES user_profiles(id),
+  lead_id uuid REFERENCES leads(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  due_date timestamptz NOT NULL,
+  end_date timestamptz,
+  is_completed boolean NOT NULL DEFAULT false,
+  completed_at timestamptz,
+  priority text NOT NULL DEFAULT 'MEDIUM' CHECK (priority IN ('LOW', 'MEDIUM', 'HIGH')),
+  recurrence_rule text,
+  previous_occurrence_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_tasks_brokerage_id ON tasks(brokerage_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_assigned_user_id ON tasks(assigned_user_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_lead_id ON tasks(lead_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date);
+CREATE INDEX IF NOT EXISTS idx_tasks_previous_occurrence_id ON tasks(previous_occurrence_id);
+
+-- Enable RLS
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for tasks table
+CREATE POLICY "Users can view tasks in their brokerage"
+  ON tasks FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can insert tasks in their brokerage"
+  ON tasks FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update tasks in their brokerage"
+  ON tasks FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_user_id = auth.uid())
+  )
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete tasks in their brokerage"
+  ON tasks FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_user_id = auth.uid())
+  );
+
+-- Trigger to auto-update updated_at on tasks
+DROP TRIGGER IF EXISTS update_tasks_updated_at ON tasks;
+CREATE TRIGGER update_tasks_updated_at
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
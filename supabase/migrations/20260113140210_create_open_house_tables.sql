@@ -0,0 +1,379 @@
+/*
+  # Open Houses, Visits and Public Sign-In
+
+  ## Overview
+  Persists open house events and their visitor log, and lets visitors sign in
+  from their own phone without an account. Each open house carries an
+  unguessable `sign_in_token`; the public check-in page only ever talks to the
+  two SECURITY DEFINER functions below, which resolve everything from the token.
+
+  ## New Tables
+
+  ### 1. `open_houses`
+  - `id` (uuid, primary key) - Unique open house identifier
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `assigned_agent_id` (uuid) - Hosting agent, receives the visitor leads
+  - `assigned_agent_name` (text) - Display name, also used for manual hosts
+  - `address` (text) - Property address
+  - `date`, `start_time`, `end_time` - First session
+  - `date2`, `start_time2`, `end_time2` (nullable) - Optional second session
+  - `status` (text) - UPCOMING, LIVE, PAST
+  - `visitor_count` (integer) - Incremented on every sign-in
+  - `is_manual_agent`, `manual_agent_phone`, `manual_agent_license` - Outside host details
+  - `sign_in_token` (text, unique) - Capability token used in the public check-in URL
+  - `is_deleted` (boolean), `deleted_at` (timestamptz, nullable) - Soft delete
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 2. `open_house_visits`
+  - `id` (uuid, primary key)
+  - `open_house_id` (uuid) - Event the visitor signed in to
+  - `lead_id` (uuid, nullable) - Lead created from the sign-in
+  - `visitor_type` (text) - VISITOR or AGENT
+  - `full_name`, `email`, `phone` (text)
+  - `details` (jsonb) - Timeline, price range, accompanying agent, notes
+  - `check_in_time` (timestamptz)
+
+  ## Functions
+  - `open_house_accepts_sign_ins(open_house)` - False once the event is marked past
+    or 12 hours after its last session ends
+  - `get_open_house_by_token(token)` - Public event details for the check-in page
+  - `submit_open_house_sign_in(token, form fields...)` - Records the visit, builds
+    the lead, its sign-in note and the follow-up task for the host from the typed
+    form fields
+
+  ## Security
+  - RLS enabled on both tables
+  - Brokers can access every open house in their brokerage, agents only their own
+  - Visits inherit access from their open house
+  - Anonymous users can only reach the two token functions, and only while the
+    event accepts sign-ins
+
+  ## Notes
+  - `leads.open_house_id` now references `open_houses`
+*/
+
+-- Create open_houses table
+CREATE TABLE IF NOT EXISTS open_houses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  assigned_agent_id uuid NOT NULL REFERENCES user_profiles(id),
+  assigned_agent_name text NOT NULL DEFAULT '',
+  address text NOT NULL,
+  date date NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  date2 date,
+  start_time2 time,
+  end_time2 time,
+  status text NOT NULL DEFAULT 'UPCOMING' CHECK (status IN ('UPCOMING', 'LIVE', 'PAST')),
+  visitor_count integer NOT NULL DEFAULT 0,
+  is_manual_agent boolean DEFAULT false,
+  manual_agent_phone text,
+  manual_agent_license text,
+  sign_in_token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  is_deleted boolean DEFAULT false,
+  deleted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create open_house_visits table
+CREATE TABLE IF NOT EXISTS open_house_visits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  open_house_id uuid NOT NULL REFERENCES open_houses(id) ON DELETE CASCADE,
+  lead_id uuid REFERENCES leads(id) ON DELETE SET NULL,
+  visitor_type text NOT NULL DEFAULT 'VISITOR' CHECK (visitor_type IN ('VISITOR', 'AGENT')),
+  full_name text NOT NULL,
+  email text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  check_in_time timestamptz DEFAULT now()
+);
+
+-- Link leads captured at an open house
+ALTER TABLE leads
+  DROP CONSTRAINT IF EXISTS leads_open_house_id_fkey;
+ALTER TABLE leads
+  ADD CONSTRAINT leads_open_house_id_fkey
+  FOREIGN KEY (open_house_id) REFERENCES open_houses(id) ON DELETE SET NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_open_houses_brokerage_id ON open_houses(brokerage_id);
+CREATE INDEX IF NOT EXISTS idx_open_houses_assigned_agent_id ON open_houses(assigned_agent_id);
+CREATE INDEX IF NOT EXISTS idx_open_houses_date ON open_houses(date DESC);
+CREATE INDEX IF NOT EXISTS idx_open_house_visits_open_house_id ON open_house_visits(open_house_id);
+CREATE INDEX IF NOT EXISTS idx_leads_open_house_id ON leads(open_house_id);
+
+-- Enable RLS on all tables
+ALTER TABLE open_houses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE open_house_visits ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for open_houses table
+CREATE POLICY "Users can view open houses in their brokerage"
+  ON open_houses FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_agent_id = auth.uid())
+  );
+
+CREATE POLICY "Users can insert open houses in their brokerage"
+  ON open_houses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_agent_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update open houses in their brokerage"
+  ON open_houses FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_agent_id = auth.uid())
+  )
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR assigned_agent_id = auth.uid())
+  );
+
+CREATE POLICY "Brokers can delete open houses in their brokerage"
+  ON open_houses FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+-- RLS Policies for open_house_visits table
+CREATE POLICY "Users can view visits on accessible open houses"
+  ON open_house_visits FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM open_houses
+      WHERE open_houses.id = open_house_visits.open_house_id
+    )
+  );
+
+CREATE POLICY "Users can delete visits on accessible open houses"
+  ON open_house_visits FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM open_houses
+      WHERE open_houses.id = open_house_visits.open_house_id
+    )
+  );
+
+-- Sign-ins close when the host marks the event past, or 12 hours after the last
+-- session ends. Session times are local to the property, so the grace period also
+-- absorbs the difference from UTC.
+CREATE OR REPLACE FUNCTION open_house_accepts_sign_ins(oh open_houses)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT oh.is_deleted = false
+    AND oh.status <> 'PAST'
+    AND now() < ((
+      CASE WHEN oh.date2 IS NOT NULL AND oh.end_time2 IS NOT NULL
+        THEN oh.date2 + oh.end_time2
+        ELSE oh.date + oh.end_time
+      END
+    ) AT TIME ZONE 'UTC') + interval '12 hours';
+$$;
+
+-- Public: event details for the check-in page, only while sign-ins are open
+CREATE OR REPLACE FUNCTION get_open_house_by_token(p_token text)
+RETURNS TABLE (
+  id uuid,
+  brokerage_id uuid,
+  assigned_agent_id uuid,
+  assigned_agent_name text,
+  address text,
+  date date,
+  start_time time,
+  end_time time,
+  date2 date,
+  start_time2 time,
+  end_time2 time,
+  status text,
+  visitor_count integer,
+  is_manual_agent boolean,
+  manual_agent_phone text,
+  manual_agent_license text,
+  host_phone text,
+  host_license text
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT
+    oh.id, oh.brokerage_id, oh.assigned_agent_id, oh.assigned_agent_name,
+    oh.address, oh.date, oh.start_time, oh.end_time,
+    oh.date2, oh.start_time2, oh.end_time2,
+    oh.status, oh.visitor_count,
+    oh.is_manual_agent, oh.manual_agent_phone, oh.manual_agent_license,
+    up.phone, up.license_number
+  FROM open_houses oh
+  LEFT JOIN user_profiles up ON up.id = oh.assigned_agent_id
+  WHERE oh.sign_in_token = p_token
+  AND open_house_accepts_sign_ins(oh);
+$$;
+
+-- Public: record a sign-in as a lead plus a follow-up task for the host. Only the
+-- form fields are accepted; tags, scoring inputs, the note and the task are built
+-- here so an anonymous caller cannot write anything else onto the lead.
+CREATE OR REPLACE FUNCTION submit_open_house_sign_in(
+  p_token text,
+  p_visitor_type text,
+  p_full_name text,
+  p_email text,
+  p_phone text,
+  p_interest text DEFAULT NULL,
+  p_timeline text DEFAULT NULL,
+  p_price_range text DEFAULT NULL,
+  p_working_with_agent text DEFAULT NULL,
+  p_agent_brokerage text DEFAULT NULL,
+  p_client_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_open_house open_houses%ROWTYPE;
+  v_lead_id uuid;
+  v_is_agent boolean := p_visitor_type = 'AGENT';
+  v_full_name text := left(trim(coalesce(p_full_name, '')), 200);
+  v_first_name text := left(split_part(v_full_name, ' ', 1), 100);
+  v_last_name text := left(trim(substr(v_full_name, length(split_part(v_full_name, ' ', 1)) + 1)), 100);
+  v_email text := left(trim(coalesce(p_email, '')), 255);
+  v_phone text := left(trim(coalesce(p_phone, '')), 50);
+  v_interest text := CASE WHEN p_interest IN ('Buying', 'Selling', 'Both') THEN p_interest ELSE 'Buying' END;
+  v_timeline text := left(trim(coalesce(p_timeline, '')), 50);
+  v_price_range text := left(trim(coalesce(p_price_range, '')), 50);
+  v_working_with_agent text := CASE WHEN p_working_with_agent = 'YES' THEN 'YES' ELSE 'NO' END;
+  v_agent_brokerage text := left(trim(coalesce(p_agent_brokerage, '')), 200);
+  v_client_name text := left(trim(coalesce(p_client_name, '')), 200);
+  v_notes text := left(trim(coalesce(p_notes, '')), 2000);
+  v_budget numeric;
+  v_tags text[];
+  v_note_content text;
+BEGIN
+  SELECT * INTO v_open_house
+  FROM open_houses
+  WHERE sign_in_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT open_house_accepts_sign_ins(v_open_house) THEN
+    RAISE EXCEPTION 'Invalid or expired sign-in link';
+  END IF;
+
+  IF v_first_name = '' THEN
+    RAISE EXCEPTION 'Name is required';
+  END IF;
+
+  IF v_is_agent THEN
+    v_budget := 0;
+    v_tags := ARRAY['Open House', 'Real Estate Agent']
+      || CASE WHEN v_client_name <> '' THEN ARRAY['Agent Accompanied'] ELSE '{}'::text[] END;
+    v_note_content := format('Agent Signed In: %s from %s. Client: %s. Notes: %s',
+      v_full_name, v_agent_brokerage, coalesce(nullif(v_client_name, ''), 'Not specified'), v_notes);
+  ELSE
+    -- Lower bound of the range picked on the form
+    v_budget := CASE v_price_range
+      WHEN '$250k - $500k' THEN 250000
+      WHEN '$500k - $750k' THEN 500000
+      WHEN '$750k - $1M' THEN 750000
+      WHEN '$1M+' THEN 1000000
+      ELSE 0
+    END;
+    v_tags := ARRAY['Open House', CASE v_interest WHEN 'Selling' THEN 'SELLER' WHEN 'Both' THEN 'BOTH' ELSE 'BUYER' END];
+    v_note_content := format('Visitor Checked In: %s. Working with Agent: %s. Timeline: %s. Notes: %s',
+      v_open_house.address, v_working_with_agent, v_timeline, v_notes);
+  END IF;
+
+  -- Ownership always comes from the open house, never from the caller
+  INSERT INTO leads (
+    brokerage_id, assigned_agent_id, first_name, last_name, email, phone,
+    status, temperature, source, tags, property_type, property_address,
+    budget, estimated_deal_value, notes, open_house_id, check_in_time
+  ) VALUES (
+    v_open_house.brokerage_id,
+    v_open_house.assigned_agent_id,
+    v_first_name,
+    coalesce(nullif(v_last_name, ''), CASE WHEN v_is_agent THEN 'Agent' ELSE 'Visitor' END),
+    v_email,
+    v_phone,
+    'NEW',
+    CASE WHEN v_is_agent THEN 'NORMAL' ELSE 'HOT' END,
+    'Open House',
+    v_tags,
+    'PRIMARY',
+    v_open_house.address,
+    v_budget,
+    v_budget * 0.03,
+    jsonb_build_array(jsonb_build_object(
+      'id', 'n_oh_' || (extract(epoch FROM now()) * 1000)::bigint,
+      'content', v_note_content,
+      'createdAt', now(),
+      'authorId', 'SYSTEM',
+      'authorName', 'Open House Sign-In'
+    )),
+    v_open_house.id,
+    now()
+  )
+  RETURNING id INTO v_lead_id;
+
+  INSERT INTO tasks (brokerage_id, assigned_user_id, lead_id, title, description, due_date, priority)
+  VALUES (
+    v_open_house.brokerage_id,
+    v_open_house.assigned_agent_id,
+    v_lead_id,
+    CASE WHEN v_is_agent THEN 'Thank Agent: ' ELSE 'OH Follow-up: ' END || v_full_name,
+    CASE WHEN v_is_agent
+      THEN format('Agent from %s visited with client %s.', v_agent_brokerage, coalesce(nullif(v_client_name, ''), 'Unknown'))
+      ELSE format('Visitor from %s. Timeline: %s.', v_open_house.address, v_timeline)
+    END,
+    now() + interval '1 day',
+    CASE WHEN v_is_agent THEN 'MEDIUM' ELSE 'HIGH' END
+  );
+
+  INSERT INTO open_house_visits (open_house_id, lead_id, visitor_type, full_name, email, phone, details)
+  VALUES (
+    v_open_house.id,
+    v_lead_id,
+    CASE WHEN v_is_agent THEN 'AGENT' ELSE 'VISITOR' END,
+    v_full_name,
+    v_email,
+    v_phone,
+    CASE WHEN v_is_agent
+      THEN jsonb_build_object('agentBrokerage', v_agent_brokerage, 'clientName', v_client_name, 'notes', v_notes)
+      ELSE jsonb_build_object('type', v_interest, 'workingWithAgent', v_working_with_agent,
+        'timeline', v_timeline, 'priceRange', v_price_range, 'notes', v_notes)
+    END
+  );
+
+  UPDATE open_houses
+  SET visitor_count = visitor_count + 1
+  WHERE id = v_open_house.id;
+
+  RETURN v_lead_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_open_house_by_token(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_open_house_sign_in(text, text, text, text, text, text, text, text, text, text, text, text) TO anon, authenticated;
+
+-- Trigger to auto-update updated_at on open_houses
+DROP TRIGGER IF EXISTS update_open_houses_updated_at ON open_houses;
+CREATE TRIGGER update_open_houses_updated_at
+  BEFORE UPDATE ON open_houses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
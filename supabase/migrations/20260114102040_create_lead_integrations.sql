@@ -0,0 +1,95 @@
+/*
+  # Lead Integrations for Webhook Ingestion
+
+  ## Overview
+  Backs the Integrations settings with real provider connections. Portals post
+  leads to the `ingest-lead` edge function at
+  `/functions/v1/ingest-lead/:provider/:brokerageId`, authenticated with the
+  connection's API key in the `X-Api-Key` header.
+
+  ## New Tables
+
+  ### 1. `lead_integrations`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `provider` (text) - Provider id (zillow, realtor, upnest, fastexpert, custom)
+  - `status` (text) - ACTIVE or INACTIVE; inactive connections reject requests
+  - `api_key` (text, unique) - Shared secret expected in the `X-Api-Key` header
+  - `last_ingestion_at` (timestamptz, nullable) - Last successfully ingested lead
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+  - Unique index on `leads (brokerage_id, integration_source, external_id)` so a
+    portal retrying the same inquiry cannot create a duplicate lead
+
+  ## Security
+  - RLS enabled
+  - Only brokers can view or manage their brokerage's connections and keys
+  - The edge function uses the service role and checks the key itself
+*/
+
+-- Create lead_integrations table
+CREATE TABLE IF NOT EXISTS lead_integrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  status text NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'INACTIVE')),
+  api_key text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  last_ingestion_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (brokerage_id, provider)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_lead_integrations_brokerage_id ON lead_integrations(brokerage_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leads_unique_external_id
+  ON leads(brokerage_id, integration_source, external_id)
+  WHERE external_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE lead_integrations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lead_integrations table
+CREATE POLICY "Brokers can view integrations in their brokerage"
+  ON lead_integrations FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+CREATE POLICY "Brokers can insert integrations in their brokerage"
+  ON lead_integrations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+CREATE POLICY "Brokers can update integrations in their brokerage"
+  ON lead_integrations FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  )
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+CREATE POLICY "Brokers can delete integrations in their brokerage"
+  ON lead_integrations FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+-- Trigger to auto-update updated_at on lead_integrations
+DROP TRIGGER IF EXISTS update_lead_integrations_updated_at ON lead_integrations;
+CREATE TRIGGER update_lead_integrations_updated_at
+  BEFORE UPDATE ON lead_integrations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
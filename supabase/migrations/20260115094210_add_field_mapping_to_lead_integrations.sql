@@ -0,0 +1,22 @@
+/*
+  # Add Field Mapping to Lead Integrations
+
+  1. Changes
+    - Add `field_mapping` column to `lead_integrations` table
+      - JSON object of lead field -> dot-separated path into the incoming payload
+      - Only read for the `custom` provider (Custom Website Hook)
+
+  2. Notes
+    - NULL means the default generic JSON mapping (`first_name`, `email`, ...)
+    - Existing RLS policies already limit reads and writes to brokers
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'lead_integrations' AND column_name = 'field_mapping'
+  ) THEN
+    ALTER TABLE lead_integrations ADD COLUMN field_mapping jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,88 @@
+/*
+  # Lead Ingestion Log and Dead-Letter Queue
+
+  ## Overview
+  Every authenticated payload posted to the `ingest-lead` edge function is stored
+  before it is transformed, so a payload that fails (bad shape, missing fields,
+  wrong custom mapping) is kept instead of lost. Brokers review failures under
+  Integrations, fix the payload or mapping, and replay them.
+
+  ## New Tables
+
+  ### 1. `lead_ingestion_logs`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `integration_id` (uuid, nullable) - Connection the payload arrived on
+  - `provider` (text) - Provider id from the endpoint path
+  - `payload` (jsonb) - Request body as received (a JSON string when it was not valid JSON)
+  - `status` (text) - PENDING, SUCCESS, FAILED or DUPLICATE
+  - `error` (text, nullable) - Why the payload was rejected
+  - `lead_id` (uuid, nullable) - Lead created (or matched, for duplicates)
+  - `external_id` (text, nullable) - Provider's inquiry id, when the transformer found one
+  - `attempts` (integer) - Processing attempts, including replays
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled
+  - Only brokers can view, replay or delete their brokerage's log entries
+  - The edge function writes entries with the service role
+*/
+
+-- Create lead_ingestion_logs table
+CREATE TABLE IF NOT EXISTS lead_ingestion_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  integration_id uuid REFERENCES lead_integrations(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  payload jsonb,
+  status text NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SUCCESS', 'FAILED', 'DUPLICATE')),
+  error text,
+  lead_id uuid REFERENCES leads(id) ON DELETE SET NULL,
+  external_id text,
+  attempts integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_lead_ingestion_logs_brokerage_created ON lead_ingestion_logs(brokerage_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_ingestion_logs_status ON lead_ingestion_logs(brokerage_id, status);
+
+-- Enable RLS
+ALTER TABLE lead_ingestion_logs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lead_ingestion_logs table
+CREATE POLICY "Brokers can view ingestion logs in their brokerage"
+  ON lead_ingestion_logs FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+CREATE POLICY "Brokers can update ingestion logs in their brokerage"
+  ON lead_ingestion_logs FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  )
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+CREATE POLICY "Brokers can delete ingestion logs in their brokerage"
+  ON lead_ingestion_logs FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+-- Trigger to auto-update updated_at on lead_ingestion_logs
+DROP TRIGGER IF EXISTS update_lead_ingestion_logs_updated_at ON lead_ingestion_logs;
+CREATE TRIGGER update_lead_ingestion_logs_updated_at
+  BEFORE UPDATE ON lead_ingestion_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
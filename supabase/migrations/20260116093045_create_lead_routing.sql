@@ -0,0 +1,134 @@
+/*
+  # Lead Routing Configuration and Assignment History
+
+  ## Overview
+  Replaces the hardwired agent on ingested and imported leads with a configurable
+  routing engine (round-robin, weighted, by source, by ZIP / price range and agent
+  availability). Brokers edit the configuration in Settings; every assignment is
+  recorded together with the rule that fired.
+
+  ## New Tables
+
+  ### 1. `lead_routing_configs`
+  - `brokerage_id` (uuid, primary key) - One configuration per brokerage
+  - `config` (jsonb) - Rules, default pool, agent weights and availability windows
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 2. `lead_assignments`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `lead_id` (uuid) - Lead that was assigned
+  - `agent_id` (uuid) - Agent the lead went to
+  - `rule_id` (text, nullable) - Rule id from the configuration; NULL for the default pool
+  - `rule_name` (text) - Rule name at the time it fired
+  - `strategy` (text, nullable) - ROUND_ROBIN or WEIGHTED
+  - `reason` (text) - Why the rule matched
+  - `origin` (text) - INGESTION, IMPORT or MANUAL
+  - `created_at` (timestamptz)
+
+  ## Security
+  - RLS enabled on both tables
+  - Everyone in the brokerage can read the routing configuration (imports route
+    client-side); only brokers can change it
+  - Brokers see every assignment; agents see assignments made to them
+  - Any brokerage member can record an assignment; history is never edited
+  - `get_lead_routing_history` exposes only pool, agent and time of recent
+    assignments so agents' imports balance against the whole brokerage
+  - The edge function reads and writes with the service role
+*/
+
+-- Create lead_routing_configs table
+CREATE TABLE IF NOT EXISTS lead_routing_configs (
+  brokerage_id uuid PRIMARY KEY REFERENCES brokerages(id) ON DELETE CASCADE,
+  config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create lead_assignments table
+CREATE TABLE IF NOT EXISTS lead_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  agent_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  rule_id text,
+  rule_name text NOT NULL,
+  strategy text CHECK (strategy IN ('ROUND_ROBIN', 'WEIGHTED')),
+  reason text NOT NULL DEFAULT '',
+  origin text NOT NULL CHECK (origin IN ('INGESTION', 'IMPORT', 'MANUAL')),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_lead_assignments_brokerage_created ON lead_assignments(brokerage_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_assignments_lead_id ON lead_assignments(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_assignments_agent_id ON lead_assignments(agent_id);
+
+-- Enable RLS
+ALTER TABLE lead_routing_configs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_assignments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lead_routing_configs table
+CREATE POLICY "Users can view routing config in their brokerage"
+  ON lead_routing_configs FOR SELECT
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Brokers can insert routing config in their brokerage"
+  ON lead_routing_configs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+CREATE POLICY "Brokers can update routing config in their brokerage"
+  ON lead_routing_configs FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  )
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+-- RLS Policies for lead_assignments table
+CREATE POLICY "Users can view assignments in their brokerage"
+  ON lead_assignments FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR agent_id = auth.uid())
+  );
+
+CREATE POLICY "Users can record assignments in their brokerage"
+  ON lead_assignments FOR INSERT
+  TO authenticated
+  WITH CHECK (brokerage_id = get_my_brokerage_id());
+
+-- Recent assignments for the caller's brokerage, used to balance round-robin and weighted pools
+CREATE OR REPLACE FUNCTION get_lead_routing_history(p_since timestamptz)
+RETURNS TABLE (rule_id text, agent_id uuid, created_at timestamptz)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT a.rule_id, a.agent_id, a.created_at
+  FROM lead_assignments a
+  WHERE a.brokerage_id = get_my_brokerage_id()
+    AND a.origin <> 'MANUAL'
+    AND a.created_at >= p_since
+  ORDER BY a.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_lead_routing_history(timestamptz) TO authenticated;
+
+-- Trigger to auto-update updated_at on lead_routing_configs
+DROP TRIGGER IF EXISTS update_lead_routing_configs_updated_at ON lead_routing_configs;
+CREATE TRIGGER update_lead_routing_configs_updated_at
+  BEFORE UPDATE ON lead_routing_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,103 @@
+/*
+  # Speed-to-Lead SLA
+
+  ## Overview
+  Ingested leads get a first-response deadline from the broker's per-source SLA
+  policy (stored in the routing configuration). The `enforce-lead-sla` edge function
+  runs on a schedule, records a breach when the assigned agent has neither moved the
+  lead out of NEW nor added a note in time, escalates to the broker and optionally
+  reassigns the lead through the routing rules.
+
+  ## Changes
+
+  ### 1. `leads`
+  - Add `sla_due_at` (timestamptz, nullable) - First-response deadline; NULL once
+    the SLA is met, enforced, or when the source has no policy
+
+  ### 2. `lead_assignments`
+  - `origin` also accepts SLA_ESCALATION for leads reassigned after a breach
+
+  ## New Tables
+
+  ### 1. `lead_sla_breaches`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `lead_id` (uuid) - Lead whose SLA was breached
+  - `agent_id` (uuid) - Agent who held the lead when the deadline passed
+  - `source` (text) - Lead source at the time, for reporting by source
+  - `due_at` (timestamptz) - Deadline that was missed
+  - `breached_at` (timestamptz) - When the breach was recorded
+  - `reassigned_to_agent_id` (uuid, nullable) - New agent when the policy reassigns
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `append_lead_note(lead_id, note)` - Prepends a note in a single statement, so
+    notes written concurrently by agents and the enforcer are never lost
+
+  ## Security
+  - RLS enabled on `lead_sla_breaches`
+  - Brokers see every breach in their brokerage; agents see their own
+  - Breaches are written only by the edge function with the service role
+  - `append_lead_note` runs as the caller, so lead RLS still decides who can write
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'sla_due_at'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN sla_due_at timestamptz;
+  END IF;
+END $$;
+
+-- The enforcer only scans leads that are still on the clock
+CREATE INDEX IF NOT EXISTS idx_leads_sla_due_at ON leads(sla_due_at) WHERE sla_due_at IS NOT NULL;
+
+ALTER TABLE lead_assignments DROP CONSTRAINT IF EXISTS lead_assignments_origin_check;
+ALTER TABLE lead_assignments ADD CONSTRAINT lead_assignments_origin_check
+  CHECK (origin IN ('INGESTION', 'IMPORT', 'MANUAL', 'SLA_ESCALATION'));
+
+-- Create lead_sla_breaches table
+CREATE TABLE IF NOT EXISTS lead_sla_breaches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  agent_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  source text NOT NULL DEFAULT '',
+  due_at timestamptz NOT NULL,
+  breached_at timestamptz NOT NULL DEFAULT now(),
+  reassigned_to_agent_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_lead_sla_breaches_brokerage_breached ON lead_sla_breaches(brokerage_id, breached_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_sla_breaches_lead_id ON lead_sla_breaches(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_sla_breaches_agent_id ON lead_sla_breaches(agent_id);
+
+-- Enable RLS
+ALTER TABLE lead_sla_breaches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lead_sla_breaches table
+CREATE POLICY "Users can view SLA breaches in their brokerage"
+  ON lead_sla_breaches FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR agent_id = auth.uid())
+  );
+
+-- Appends in place instead of rewriting the array the caller last read
+CREATE OR REPLACE FUNCTION append_lead_note(p_lead_id uuid, p_note jsonb)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE leads
+  SET notes = jsonb_build_array(p_note) || coalesce(notes, '[]'::jsonb)
+  WHERE id = p_lead_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION append_lead_note(uuid, jsonb) TO authenticated, service_role;
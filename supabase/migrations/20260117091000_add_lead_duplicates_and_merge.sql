@@ -0,0 +1,169 @@
+/*
+  # Duplicate Lead Detection and Merge
+
+  ## Overview
+  Open houses, CSV imports and portal ingestion all create leads without checking for
+  existing ones. Duplicates are detected in the app (fuzzy email / phone / name + spouse
+  matching); this migration stores the pairs a user has ruled out and adds an atomic
+  merge that moves every related record onto the surviving lead.
+
+  ## Changes
+
+  ### 1. `leads`
+  - Add `merged_into_id` (uuid, nullable) - Surviving lead this record was merged into;
+    merged leads are soft-deleted so they can still be found in the trash
+
+  ## New Tables
+
+  ### 1. `lead_duplicate_dismissals`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `lead_id`, `other_lead_id` (uuid) - The pair marked as distinct people; stored with
+    `lead_id < other_lead_id` so each pair has one row
+  - `dismissed_by` (uuid, nullable) - User who dismissed the pair
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `merge_leads(p_survivor_id, p_duplicate_id, p_changes, p_note)` - Applies the fields
+    picked from the duplicate in the merge screen (`p_changes`, in column names) to the
+    survivor, combines both leads' tags and notes with `p_note` on top, re-points tasks,
+    deals, open house visits, ingestion logs, assignments and SLA breaches from the
+    duplicate to the survivor, then soft-deletes the duplicate, all in one transaction
+
+  ## Security
+  - RLS enabled on `lead_duplicate_dismissals`; brokerage members can read, add and
+    remove dismissals in their brokerage
+  - `merge_leads` runs as SECURITY DEFINER so related rows owned by other agents move
+    too, but only after checking the caller can update both leads
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'merged_into_id'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN merged_into_id uuid REFERENCES leads(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Create lead_duplicate_dismissals table
+CREATE TABLE IF NOT EXISTS lead_duplicate_dismissals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  other_lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  dismissed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (lead_id < other_lead_id),
+  UNIQUE (lead_id, other_lead_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_dismissals_brokerage_id ON lead_duplicate_dismissals(brokerage_id);
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_dismissals_other_lead_id ON lead_duplicate_dismissals(other_lead_id);
+
+-- Enable RLS
+ALTER TABLE lead_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lead_duplicate_dismissals table
+CREATE POLICY "Users can view duplicate dismissals in their brokerage"
+  ON lead_duplicate_dismissals FOR SELECT
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Users can dismiss duplicates in their brokerage"
+  ON lead_duplicate_dismissals FOR INSERT
+  TO authenticated
+  WITH CHECK (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Users can remove duplicate dismissals in their brokerage"
+  ON lead_duplicate_dismissals FOR DELETE
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id());
+
+-- Moves everything linked to the duplicate onto the survivor and retires the duplicate
+CREATE OR REPLACE FUNCTION merge_leads(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_changes jsonb DEFAULT '{}'::jsonb,
+  p_note jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignments text;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  -- Same visibility rule as the leads UPDATE policy, applied to both sides
+  IF (
+    SELECT count(*) FROM leads
+    WHERE id IN (p_survivor_id, p_duplicate_id)
+      AND brokerage_id = get_my_brokerage_id()
+      AND is_deleted = false
+      AND (is_broker() OR assigned_agent_id = auth.uid())
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Both leads must exist and be editable by the current user';
+  END IF;
+
+  -- Fields picked from the duplicate arrive as a patch in leads column names
+  SELECT string_agg(format('%I = c.%I', col.column_name, col.column_name), ', ')
+  INTO assignments
+  FROM information_schema.columns col
+  WHERE col.table_schema = 'public'
+    AND col.table_name = 'leads'
+    AND p_changes ? col.column_name
+    AND col.column_name NOT IN ('id', 'brokerage_id', 'notes', 'tags', 'is_deleted', 'deleted_at', 'merged_into_id', 'created_at', 'updated_at');
+
+  IF assignments IS NOT NULL THEN
+    EXECUTE format('UPDATE leads l SET %s FROM jsonb_populate_record(NULL::leads, $1) c WHERE l.id = $2', assignments)
+    USING p_changes, p_survivor_id;
+  END IF;
+
+  -- Tags and notes are combined from the rows as they are now, so nothing written since
+  -- the merge screen opened is lost
+  UPDATE leads s
+  SET tags = ARRAY(
+        SELECT t FROM unnest(s.tags || d.tags) WITH ORDINALITY AS u(t, n)
+        GROUP BY t
+        ORDER BY min(n)
+      ),
+      notes = CASE WHEN p_note IS NULL THEN '[]'::jsonb ELSE jsonb_build_array(p_note) END || COALESCE((
+        SELECT jsonb_agg(note ORDER BY note->>'createdAt' DESC)
+        FROM (
+          SELECT DISTINCT ON (note->>'id') note
+          FROM jsonb_array_elements(COALESCE(s.notes, '[]'::jsonb) || COALESCE(d.notes, '[]'::jsonb)) AS note
+        ) combined
+      ), '[]'::jsonb),
+      updated_at = now()
+  FROM leads d
+  WHERE s.id = p_survivor_id
+    AND d.id = p_duplicate_id;
+
+  UPDATE tasks SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE deals SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE open_house_visits SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_ingestion_logs SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_assignments SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_sla_breaches SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE leads SET merged_into_id = p_survivor_id WHERE merged_into_id = p_duplicate_id;
+
+  DELETE FROM lead_duplicate_dismissals
+  WHERE p_duplicate_id IN (lead_id, other_lead_id);
+
+  UPDATE leads
+  SET is_deleted = true,
+      deleted_at = now(),
+      merged_into_id = p_survivor_id,
+      sla_due_at = NULL
+  WHERE id = p_duplicate_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_leads(uuid, uuid, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,59 @@
+/*
+  # Lead Import Mapping Presets
+
+  ## Overview
+  The import wizard maps spreadsheet columns to lead fields. Exports from the same system
+  (another CRM, a portal, an open house sheet) always use the same headers, so a mapping
+  can be saved under a name and reused by everyone in the brokerage.
+
+  ## New Tables
+
+  ### 1. `lead_import_presets`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `name` (text) - Preset name, unique within the brokerage
+  - `mapping` (jsonb) - Normalized column header -> lead field
+  - `created_by` (uuid, nullable) - User who saved the preset
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled; brokerage members can read, save, overwrite and delete presets in their
+    brokerage
+*/
+
+-- Create lead_import_presets table
+CREATE TABLE IF NOT EXISTS lead_import_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (brokerage_id, name)
+);
+
+-- Enable RLS
+ALTER TABLE lead_import_presets ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lead_import_presets table
+CREATE POLICY "Users can view import presets in their brokerage"
+  ON lead_import_presets FOR SELECT
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Users can create import presets in their brokerage"
+  ON lead_import_presets FOR INSERT
+  TO authenticated
+  WITH CHECK (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Users can update import presets in their brokerage"
+  ON lead_import_presets FOR UPDATE
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id())
+  WITH CHECK (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Users can delete import presets in their brokerage"
+  ON lead_import_presets FOR DELETE
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id());
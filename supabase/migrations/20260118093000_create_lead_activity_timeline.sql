@@ -0,0 +1,240 @@
+/*
+  # Lead Activity Timeline
+
+  ## Overview
+  A lead's history is spread across notes, emails, tasks, deals and open house
+  check-ins. This migration adds one paged, filterable feed over every source for the
+  lead detail screen. The source tables are added to the realtime publication so an
+  open timeline refreshes when any of them change.
+
+  ## Functions
+  - `get_lead_activity(p_lead_id, p_types, p_before_at, p_before_id, p_limit)` - Newest
+    first feed of NOTE, EMAIL, TASK, DEAL and OPEN_HOUSE entries for one lead.
+    Pages by passing the last entry's `occurred_at` and `id` back as the cursor.
+  - `merge_leads` - Also moves email recipients onto the survivor
+
+  ## Security
+  - `get_lead_activity` runs as SECURITY DEFINER so emails other agents sent to the
+    lead are included, but returns nothing unless the caller can see the lead under
+    the same rule as the leads SELECT policy
+*/
+
+-- Unified activity feed for one lead
+CREATE OR REPLACE FUNCTION get_lead_activity(
+  p_lead_id uuid,
+  p_types text[] DEFAULT NULL,
+  p_before_at timestamptz DEFAULT NULL,
+  p_before_id text DEFAULT NULL,
+  p_limit integer DEFAULT 25
+)
+RETURNS TABLE (
+  id text,
+  activity_type text,
+  occurred_at timestamptz,
+  title text,
+  detail text,
+  actor_name text,
+  meta jsonb
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  WITH visible_lead AS (
+    SELECT l.id, l.notes
+    FROM leads l
+    WHERE l.id = p_lead_id
+      AND l.brokerage_id = get_my_brokerage_id()
+      AND (is_broker() OR l.assigned_agent_id = auth.uid())
+  ),
+  activity AS (
+    SELECT
+      'note:' || (n->>'id') AS id,
+      'NOTE' AS activity_type,
+      (n->>'createdAt')::timestamptz AS occurred_at,
+      CASE WHEN n->>'authorId' = 'SYSTEM' THEN 'System note' ELSE 'Note added' END AS title,
+      n->>'content' AS detail,
+      n->>'authorName' AS actor_name,
+      '{}'::jsonb AS meta
+    FROM visible_lead vl, jsonb_array_elements(vl.notes) n
+
+    UNION ALL
+    SELECT
+      'email:' || r.id,
+      'EMAIL',
+      COALESCE(r.sent_at, e.sent_at),
+      e.subject,
+      left(btrim(regexp_replace(regexp_replace(e.body, '<[^>]*>', ' ', 'g'), '\s+', ' ', 'g')), 280),
+      NULLIF(btrim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      jsonb_build_object('emailId', e.id, 'status', r.status, 'openedAt', r.opened_at, 'recipient', r.recipient_email, 'isBulk', e.is_bulk)
+    FROM visible_lead vl
+    JOIN email_recipients r ON r.contact_id = vl.id::text
+    JOIN emails e ON e.id = r.email_id AND e.is_deleted = false
+    LEFT JOIN user_profiles p ON p.id = e.user_id
+
+    UNION ALL
+    SELECT
+      'task:' || t.id,
+      'TASK',
+      t.created_at,
+      t.title,
+      NULLIF(t.description, ''),
+      NULLIF(btrim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      jsonb_build_object('taskId', t.id, 'event', 'CREATED', 'dueDate', t.due_date, 'priority', t.priority, 'isCompleted', t.is_completed)
+    FROM visible_lead vl
+    JOIN tasks t ON t.lead_id = vl.id
+    LEFT JOIN user_profiles p ON p.id = t.assigned_user_id
+
+    UNION ALL
+    SELECT
+      'task-done:' || t.id,
+      'TASK',
+      t.completed_at,
+      t.title,
+      NULL,
+      NULLIF(btrim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      jsonb_build_object('taskId', t.id, 'event', 'COMPLETED', 'priority', t.priority)
+    FROM visible_lead vl
+    JOIN tasks t ON t.lead_id = vl.id AND t.is_completed AND t.completed_at IS NOT NULL
+    LEFT JOIN user_profiles p ON p.id = t.assigned_user_id
+
+    UNION ALL
+    SELECT
+      'deal:' || d.id,
+      'DEAL',
+      d.created_at,
+      d.address,
+      NULL,
+      NULLIF(btrim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      jsonb_build_object('dealId', d.id, 'status', d.status, 'side', d.side, 'salePrice', d.sale_price, 'closingDate', d.date)
+    FROM visible_lead vl
+    JOIN deals d ON d.lead_id = vl.id AND COALESCE(d.is_deleted, false) = false
+    LEFT JOIN user_profiles p ON p.id = d.assigned_user_id
+
+    UNION ALL
+    SELECT
+      'visit:' || v.id,
+      'OPEN_HOUSE',
+      v.check_in_time,
+      o.address,
+      NULL,
+      o.assigned_agent_name,
+      jsonb_build_object('openHouseId', o.id, 'visitorType', v.visitor_type, 'details', v.details)
+    FROM visible_lead vl
+    JOIN open_house_visits v ON v.lead_id = vl.id
+    JOIN open_houses o ON o.id = v.open_house_id
+
+  )
+  SELECT a.id, a.activity_type, a.occurred_at, a.title, a.detail, a.actor_name, a.meta
+  FROM activity a
+  WHERE a.occurred_at IS NOT NULL
+    AND (p_types IS NULL OR a.activity_type = ANY (p_types))
+    AND (p_before_at IS NULL OR (a.occurred_at, a.id) < (p_before_at, p_before_id))
+  ORDER BY a.occurred_at DESC, a.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_lead_activity(uuid, text[], timestamptz, text, integer) TO authenticated;
+
+-- Merging also carries emails over to the surviving lead
+CREATE OR REPLACE FUNCTION merge_leads(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_changes jsonb DEFAULT '{}'::jsonb,
+  p_note jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignments text;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  -- Same visibility rule as the leads UPDATE policy, applied to both sides
+  IF (
+    SELECT count(*) FROM leads
+    WHERE id IN (p_survivor_id, p_duplicate_id)
+      AND brokerage_id = get_my_brokerage_id()
+      AND is_deleted = false
+      AND (is_broker() OR assigned_agent_id = auth.uid())
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Both leads must exist and be editable by the current user';
+  END IF;
+
+  -- Fields picked from the duplicate arrive as a patch in leads column names
+  SELECT string_agg(format('%I = c.%I', col.column_name, col.column_name), ', ')
+  INTO assignments
+  FROM information_schema.columns col
+  WHERE col.table_schema = 'public'
+    AND col.table_name = 'leads'
+    AND p_changes ? col.column_name
+    AND col.column_name NOT IN ('id', 'brokerage_id', 'notes', 'tags', 'is_deleted', 'deleted_at', 'merged_into_id', 'created_at', 'updated_at');
+
+  IF assignments IS NOT NULL THEN
+    EXECUTE format('UPDATE leads l SET %s FROM jsonb_populate_record(NULL::leads, $1) c WHERE l.id = $2', assignments)
+    USING p_changes, p_survivor_id;
+  END IF;
+
+  -- Tags and notes are combined from the rows as they are now, so nothing written since
+  -- the merge screen opened is lost
+  UPDATE leads s
+  SET tags = ARRAY(
+        SELECT t FROM unnest(s.tags || d.tags) WITH ORDINALITY AS u(t, n)
+        GROUP BY t
+        ORDER BY min(n)
+      ),
+      notes = CASE WHEN p_note IS NULL THEN '[]'::jsonb ELSE jsonb_build_array(p_note) END || COALESCE((
+        SELECT jsonb_agg(note ORDER BY note->>'createdAt' DESC)
+        FROM (
+          SELECT DISTINCT ON (note->>'id') note
+          FROM jsonb_array_elements(COALESCE(s.notes, '[]'::jsonb) || COALESCE(d.notes, '[]'::jsonb)) AS note
+        ) combined
+      ), '[]'::jsonb),
+      updated_at = now()
+  FROM leads d
+  WHERE s.id = p_survivor_id
+    AND d.id = p_duplicate_id;
+
+  UPDATE tasks SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE deals SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE open_house_visits SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_ingestion_logs SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_assignments SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_sla_breaches SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE email_recipients SET contact_id = p_survivor_id::text WHERE contact_id = p_duplicate_id::text;
+  UPDATE leads SET merged_into_id = p_survivor_id WHERE merged_into_id = p_duplicate_id;
+
+  DELETE FROM lead_duplicate_dismissals
+  WHERE p_duplicate_id IN (lead_id, other_lead_id);
+
+  UPDATE leads
+  SET is_deleted = true,
+      deleted_at = now(),
+      merged_into_id = p_survivor_id,
+      sla_due_at = NULL
+  WHERE id = p_duplicate_id;
+END;
+$$;
+
+-- Publish the timeline sources for realtime updates
+DO $$
+DECLARE
+  source_table text;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH source_table IN ARRAY ARRAY['leads', 'tasks', 'deals', 'open_house_visits', 'email_recipients'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = source_table
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', source_table);
+      END IF;
+    END LOOP;
+  END IF;
+END $$;
@@ -0,0 +1,390 @@
+/*
+  # Lead Stage Tracking
+
+  ## Overview
+  Changing a lead's status or temperature overwrote the old value with no record, and
+  nothing on the lead row said when it entered its current stage, so lists could not
+  show how long a lead has been sitting in NEW or CONTACTED. Every status and
+  temperature transition is now recorded with who made it and when, each lead carries
+  the time it entered its current status, and the transitions appear in the activity
+  timeline.
+
+  ## New Tables
+
+  ### 1. `lead_status_history`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `lead_id` (uuid) - Lead that changed
+  - `field` (text) - Which value changed (status or temperature)
+  - `from_value` (text, nullable) - Previous value; NULL for the lead's first value
+  - `to_value` (text) - New value
+  - `changed_by` (uuid, nullable) - User who made the change; NULL for integrations,
+    scheduled jobs and rows backfilled by this migration
+  - `changed_at` (timestamptz)
+
+  Rows are written by a trigger on `leads`, so every code path that changes a status
+  or temperature is covered. Existing leads get one backfilled row per field with their
+  current value at their creation time.
+
+  ## Changes
+
+  ### 1. `leads`
+  - Add `status_changed_at` (timestamptz) - When the lead entered its current status.
+    Maintained by a trigger; backfilled from `created_at`
+
+  ## Functions
+  - `record_lead_status_change` - Records status and temperature changes
+  - `set_lead_status_changed_at` - Stamps `status_changed_at` whenever status changes
+  - `get_lead_activity` - Adds STATUS entries from the history
+  - `merge_leads` - Also moves status history onto the survivor
+
+  ## Security
+  - RLS enabled on `lead_status_history`; users can read history for leads they can
+    see. Rows are only written by the trigger.
+*/
+
+-- Create lead_status_history table
+CREATE TABLE IF NOT EXISTS lead_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  field text NOT NULL DEFAULT 'status' CHECK (field IN ('status', 'temperature')),
+  from_value text,
+  to_value text NOT NULL,
+  changed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_lead_status_history_lead_id ON lead_status_history(lead_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_status_history_brokerage_id ON lead_status_history(brokerage_id);
+
+-- Enable RLS
+ALTER TABLE lead_status_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lead_status_history table
+CREATE POLICY "Users can view status history for leads they can view"
+  ON lead_status_history FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_status_history.lead_id)
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'status_changed_at'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN status_changed_at timestamptz;
+  END IF;
+END $$;
+
+UPDATE leads
+SET status_changed_at = COALESCE(created_at, now())
+WHERE status_changed_at IS NULL;
+
+ALTER TABLE leads ALTER COLUMN status_changed_at SET DEFAULT now();
+ALTER TABLE leads ALTER COLUMN status_changed_at SET NOT NULL;
+
+-- Aging lists look for leads that entered an early stage long ago
+CREATE INDEX IF NOT EXISTS idx_leads_status_changed_at ON leads(brokerage_id, status, status_changed_at);
+
+-- Stamp the stage entry time server-side so every client agrees on it
+CREATE OR REPLACE FUNCTION set_lead_status_changed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at = now();
+  ELSE
+    NEW.status_changed_at = OLD.status_changed_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_lead_status_changed_at ON leads;
+CREATE TRIGGER set_lead_status_changed_at
+  BEFORE UPDATE ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION set_lead_status_changed_at();
+
+-- Record every status and temperature change, whichever client or function made it
+CREATE OR REPLACE FUNCTION record_lead_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO lead_status_history (brokerage_id, lead_id, field, from_value, to_value, changed_by)
+    VALUES (
+      NEW.brokerage_id,
+      NEW.id,
+      'status',
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      auth.uid()
+    );
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.temperature IS DISTINCT FROM OLD.temperature THEN
+    INSERT INTO lead_status_history (brokerage_id, lead_id, field, from_value, to_value, changed_by)
+    VALUES (
+      NEW.brokerage_id,
+      NEW.id,
+      'temperature',
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.temperature END,
+      NEW.temperature,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_lead_status_change ON leads;
+CREATE TRIGGER record_lead_status_change
+  AFTER INSERT OR UPDATE OF status, temperature ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION record_lead_status_change();
+
+-- Backfill the current status and temperature of existing leads
+INSERT INTO lead_status_history (brokerage_id, lead_id, field, from_value, to_value, changed_by, changed_at)
+SELECT l.brokerage_id, l.id, f.field, NULL, f.value, NULL, COALESCE(l.created_at, now())
+FROM leads l
+CROSS JOIN LATERAL (VALUES ('status', l.status), ('temperature', l.temperature)) AS f(field, value)
+WHERE NOT EXISTS (
+  SELECT 1 FROM lead_status_history h WHERE h.lead_id = l.id AND h.field = f.field
+);
+
+-- Show the transitions in the activity timeline
+CREATE OR REPLACE FUNCTION get_lead_activity(
+  p_lead_id uuid,
+  p_types text[] DEFAULT NULL,
+  p_before_at timestamptz DEFAULT NULL,
+  p_before_id text DEFAULT NULL,
+  p_limit integer DEFAULT 25
+)
+RETURNS TABLE (
+  id text,
+  activity_type text,
+  occurred_at timestamptz,
+  title text,
+  detail text,
+  actor_name text,
+  meta jsonb
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  WITH visible_lead AS (
+    SELECT l.id, l.notes
+    FROM leads l
+    WHERE l.id = p_lead_id
+      AND l.brokerage_id = get_my_brokerage_id()
+      AND (is_broker() OR l.assigned_agent_id = auth.uid())
+  ),
+  activity AS (
+    SELECT
+      'note:' || (n->>'id') AS id,
+      'NOTE' AS activity_type,
+      (n->>'createdAt')::timestamptz AS occurred_at,
+      CASE WHEN n->>'authorId' = 'SYSTEM' THEN 'System note' ELSE 'Note added' END AS title,
+      n->>'content' AS detail,
+      n->>'authorName' AS actor_name,
+      '{}'::jsonb AS meta
+    FROM visible_lead vl, jsonb_array_elements(vl.notes) n
+
+    UNION ALL
+    SELECT
+      'email:' || r.id,
+      'EMAIL',
+      COALESCE(r.sent_at, e.sent_at),
+      e.subject,
+      left(btrim(regexp_replace(regexp_replace(e.body, '<[^>]*>', ' ', 'g'), '\s+', ' ', 'g')), 280),
+      NULLIF(btrim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      jsonb_build_object('emailId', e.id, 'status', r.status, 'openedAt', r.opened_at, 'recipient', r.recipient_email, 'isBulk', e.is_bulk)
+    FROM visible_lead vl
+    JOIN email_recipients r ON r.contact_id = vl.id::text
+    JOIN emails e ON e.id = r.email_id AND e.is_deleted = false
+    LEFT JOIN user_profiles p ON p.id = e.user_id
+
+    UNION ALL
+    SELECT
+      'task:' || t.id,
+      'TASK',
+      t.created_at,
+      t.title,
+      NULLIF(t.description, ''),
+      NULLIF(btrim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      jsonb_build_object('taskId', t.id, 'event', 'CREATED', 'dueDate', t.due_date, 'priority', t.priority, 'isCompleted', t.is_completed)
+    FROM visible_lead vl
+    JOIN tasks t ON t.lead_id = vl.id
+    LEFT JOIN user_profiles p ON p.id = t.assigned_user_id
+
+    UNION ALL
+    SELECT
+      'task-done:' || t.id,
+      'TASK',
+      t.completed_at,
+      t.title,
+      NULL,
+      NULLIF(btrim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      jsonb_build_object('taskId', t.id, 'event', 'COMPLETED', 'priority', t.priority)
+    FROM visible_lead vl
+    JOIN tasks t ON t.lead_id = vl.id AND t.is_completed AND t.completed_at IS NOT NULL
+    LEFT JOIN user_profiles p ON p.id = t.assigned_user_id
+
+    UNION ALL
+    SELECT
+      'deal:' || d.id,
+      'DEAL',
+      d.created_at,
+      d.address,
+      NULL,
+      NULLIF(btrim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      jsonb_build_object('dealId', d.id, 'status', d.status, 'side', d.side, 'salePrice', d.sale_price, 'closingDate', d.date)
+    FROM visible_lead vl
+    JOIN deals d ON d.lead_id = vl.id AND COALESCE(d.is_deleted, false) = false
+    LEFT JOIN user_profiles p ON p.id = d.assigned_user_id
+
+    UNION ALL
+    SELECT
+      'visit:' || v.id,
+      'OPEN_HOUSE',
+      v.check_in_time,
+      o.address,
+      NULL,
+      o.assigned_agent_name,
+      jsonb_build_object('openHouseId', o.id, 'visitorType', v.visitor_type, 'details', v.details)
+    FROM visible_lead vl
+    JOIN open_house_visits v ON v.lead_id = vl.id
+    JOIN open_houses o ON o.id = v.open_house_id
+
+    UNION ALL
+    SELECT
+      'status:' || h.id,
+      'STATUS',
+      h.changed_at,
+      h.to_value,
+      NULL,
+      NULLIF(btrim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+      jsonb_build_object('field', h.field, 'from', h.from_value, 'to', h.to_value)
+    FROM visible_lead vl
+    JOIN lead_status_history h ON h.lead_id = vl.id
+    LEFT JOIN user_profiles p ON p.id = h.changed_by
+  )
+  SELECT a.id, a.activity_type, a.occurred_at, a.title, a.detail, a.actor_name, a.meta
+  FROM activity a
+  WHERE a.occurred_at IS NOT NULL
+    AND (p_types IS NULL OR a.activity_type = ANY (p_types))
+    AND (p_before_at IS NULL OR (a.occurred_at, a.id) < (p_before_at, p_before_id))
+  ORDER BY a.occurred_at DESC, a.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
+
+-- Merging also carries status history over to the surviving lead
+CREATE OR REPLACE FUNCTION merge_leads(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_changes jsonb DEFAULT '{}'::jsonb,
+  p_note jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignments text;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  -- Same visibility rule as the leads UPDATE policy, applied to both sides
+  IF (
+    SELECT count(*) FROM leads
+    WHERE id IN (p_survivor_id, p_duplicate_id)
+      AND brokerage_id = get_my_brokerage_id()
+      AND is_deleted = false
+      AND (is_broker() OR assigned_agent_id = auth.uid())
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Both leads must exist and be editable by the current user';
+  END IF;
+
+  -- Fields picked from the duplicate arrive as a patch in leads column names
+  SELECT string_agg(format('%I = c.%I', col.column_name, col.column_name), ', ')
+  INTO assignments
+  FROM information_schema.columns col
+  WHERE col.table_schema = 'public'
+    AND col.table_name = 'leads'
+    AND p_changes ? col.column_name
+    AND col.column_name NOT IN ('id', 'brokerage_id', 'notes', 'tags', 'is_deleted', 'deleted_at', 'merged_into_id', 'created_at', 'updated_at');
+
+  IF assignments IS NOT NULL THEN
+    EXECUTE format('UPDATE leads l SET %s FROM jsonb_populate_record(NULL::leads, $1) c WHERE l.id = $2', assignments)
+    USING p_changes, p_survivor_id;
+  END IF;
+
+  -- Tags and notes are combined from the rows as they are now, so nothing written since
+  -- the merge screen opened is lost
+  UPDATE leads s
+  SET tags = ARRAY(
+        SELECT t FROM unnest(s.tags || d.tags) WITH ORDINALITY AS u(t, n)
+        GROUP BY t
+        ORDER BY min(n)
+      ),
+      notes = CASE WHEN p_note IS NULL THEN '[]'::jsonb ELSE jsonb_build_array(p_note) END || COALESCE((
+        SELECT jsonb_agg(note ORDER BY note->>'createdAt' DESC)
+        FROM (
+          SELECT DISTINCT ON (note->>'id') note
+          FROM jsonb_array_elements(COALESCE(s.notes, '[]'::jsonb) || COALESCE(d.notes, '[]'::jsonb)) AS note
+        ) combined
+      ), '[]'::jsonb),
+      updated_at = now()
+  FROM leads d
+  WHERE s.id = p_survivor_id
+    AND d.id = p_duplicate_id;
+
+  UPDATE tasks SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE deals SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE open_house_visits SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_ingestion_logs SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_assignments SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_sla_breaches SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_status_history SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE email_recipients SET contact_id = p_survivor_id::text WHERE contact_id = p_duplicate_id::text;
+  UPDATE leads SET merged_into_id = p_survivor_id WHERE merged_into_id = p_duplicate_id;
+
+  DELETE FROM lead_duplicate_dismissals
+  WHERE p_duplicate_id IN (lead_id, other_lead_id);
+
+  UPDATE leads
+  SET is_deleted = true,
+      deleted_at = now(),
+      merged_into_id = p_survivor_id,
+      sla_due_at = NULL
+  WHERE id = p_duplicate_id;
+END;
+$$;
+
+-- Publish status history so open timelines pick up new transitions
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'lead_status_history'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.lead_status_history;
+  END IF;
+END $$;
@@ -0,0 +1,172 @@
+/*
+  # Lead Scoring
+
+  ## Overview
+  Temperature was set by hand or hardcoded by portal transformers. A scoring engine now
+  computes a 0-100 score from contact recency, email opens, open house visits, budget,
+  source and the moving timeline given at open house sign-in, and maps it to HOT, WARM
+  or COLD. Brokers tune the factor weights, thresholds and source ratings in Settings.
+
+  ## Changes
+
+  ### 1. `leads`
+  - Add `score` (integer, nullable) - Latest score, 0-100; NULL until first scored
+
+  ## New Tables
+
+  ### 1. `lead_scoring_configs`
+  - `brokerage_id` (uuid, primary key) - One configuration per brokerage
+  - `config` (jsonb) - Enabled flag, factor weights, thresholds and source ratings
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Functions
+  - `lead_scoring_signals(p_brokerage_id, p_lead_ids)` - Engagement inputs per lead:
+    last agent contact, email opens, open house visits and latest moving timeline.
+    Used by the rescore-leads edge function, which saves scores as a system change
+  - `get_lead_scoring_signals(p_lead_id)` - The same inputs for one lead, or NULL for
+    every lead the caller can see; used to explain a score in the app
+
+  ## Security
+  - RLS enabled on `lead_scoring_configs`
+  - Everyone in the brokerage can read the configuration (the app explains scores
+    with it); only brokers can change it
+  - `lead_scoring_signals` is limited to the service role
+  - `get_lead_scoring_signals` runs as SECURITY DEFINER so email opens on messages sent
+    by other agents count, but only returns leads the caller can see
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'score'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN score integer CHECK (score BETWEEN 0 AND 100);
+  END IF;
+END $$;
+
+-- Create lead_scoring_configs table
+CREATE TABLE IF NOT EXISTS lead_scoring_configs (
+  brokerage_id uuid PRIMARY KEY REFERENCES brokerages(id) ON DELETE CASCADE,
+  config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE lead_scoring_configs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lead_scoring_configs table
+CREATE POLICY "Users can view scoring config in their brokerage"
+  ON lead_scoring_configs FOR SELECT
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Brokers can insert scoring config in their brokerage"
+  ON lead_scoring_configs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+CREATE POLICY "Brokers can update scoring config in their brokerage"
+  ON lead_scoring_configs FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  )
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+-- Engagement inputs for the scoring engine, for a brokerage's live leads (or the given
+-- ones). Not filtered by the caller, so only the service role may call it directly.
+CREATE OR REPLACE FUNCTION lead_scoring_signals(p_brokerage_id uuid, p_lead_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (
+  lead_id uuid,
+  last_contact_at timestamptz,
+  email_opens integer,
+  open_house_visits integer,
+  timeline text
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT
+    l.id,
+    GREATEST(
+      (
+        SELECT max((n->>'createdAt')::timestamptz)
+        FROM jsonb_array_elements(l.notes) n
+        WHERE lower(COALESCE(n->>'authorId', '')) <> 'system'
+      ),
+      (
+        SELECT max(r.sent_at)
+        FROM email_recipients r
+        JOIN emails e ON e.id = r.email_id AND e.is_deleted = false
+        WHERE r.contact_id = l.id::text
+      ),
+      (
+        SELECT max(t.completed_at) FROM tasks t
+        WHERE t.lead_id = l.id AND t.is_completed
+      )
+    ),
+    (
+      SELECT count(*)::integer
+      FROM email_recipients r
+      JOIN emails e ON e.id = r.email_id AND e.is_deleted = false
+      WHERE r.contact_id = l.id::text AND r.opened_at IS NOT NULL
+    ),
+    (SELECT count(*)::integer FROM open_house_visits v WHERE v.lead_id = l.id),
+    (
+      SELECT NULLIF(v.details->>'timeline', '')
+      FROM open_house_visits v
+      WHERE v.lead_id = l.id AND v.details ? 'timeline'
+      ORDER BY v.check_in_time DESC
+      LIMIT 1
+    )
+  FROM leads l
+  WHERE l.brokerage_id = p_brokerage_id
+    AND (p_lead_ids IS NULL OR l.id = ANY (p_lead_ids))
+    AND l.is_deleted = false;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lead_scoring_signals(uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION lead_scoring_signals(uuid, uuid[]) TO service_role;
+
+-- The same inputs for the leads the caller can see
+CREATE OR REPLACE FUNCTION get_lead_scoring_signals(p_lead_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  lead_id uuid,
+  last_contact_at timestamptz,
+  email_opens integer,
+  open_house_visits integer,
+  timeline text
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT s.*
+  FROM lead_scoring_signals(
+    get_my_brokerage_id(),
+    CASE WHEN p_lead_id IS NOT NULL THEN ARRAY[p_lead_id] END
+  ) s
+  JOIN leads l ON l.id = s.lead_id
+  WHERE is_broker() OR l.assigned_agent_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_lead_scoring_signals(uuid) TO authenticated;
+
+-- Trigger to auto-update updated_at on lead_scoring_configs
+DROP TRIGGER IF EXISTS update_lead_scoring_configs_updated_at ON lead_scoring_configs;
+CREATE TRIGGER update_lead_scoring_configs_updated_at
+  BEFORE UPDATE ON lead_scoring_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
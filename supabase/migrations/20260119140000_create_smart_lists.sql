@@ -0,0 +1,84 @@
+/*
+  # Smart Lists
+
+  ## Overview
+  Lead list filters lived in component state and were lost on navigation. A smart list
+  saves a named filter query (see lib/leadQuery.ts) that can be reopened from a link,
+  shared with the brokerage and used to pick bulk email recipients. Queries are
+  evaluated client-side against the leads the user can already see.
+
+  ## New Tables
+
+  ### 1. `smart_lists`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `created_by` (uuid, nullable) - User who saved the list
+  - `name` (text) - Display name
+  - `query` (text) - Filter expression, e.g. `dob in next 30 days and tag = Buyer`
+  - `is_shared` (boolean) - Visible to the whole brokerage rather than only its creator
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled on `smart_lists`
+  - Users see their own lists and lists shared in their brokerage
+  - Users create lists as themselves; creators can change or delete their lists, and
+    brokers can also change or delete shared lists
+*/
+
+-- Create smart_lists table
+CREATE TABLE IF NOT EXISTS smart_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  query text NOT NULL DEFAULT '',
+  is_shared boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_smart_lists_brokerage ON smart_lists(brokerage_id);
+
+-- Enable RLS
+ALTER TABLE smart_lists ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for smart_lists table
+CREATE POLICY "Users can view own and shared smart lists"
+  ON smart_lists FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_shared OR created_by = auth.uid())
+  );
+
+CREATE POLICY "Users can create smart lists in their brokerage"
+  ON smart_lists FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Owners and brokers can update smart lists"
+  ON smart_lists FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (created_by = auth.uid() OR (is_shared AND is_broker()))
+  )
+  WITH CHECK (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Owners and brokers can delete smart lists"
+  ON smart_lists FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (created_by = auth.uid() OR (is_shared AND is_broker()))
+  );
+
+-- Trigger to auto-update updated_at on smart_lists
+DROP TRIGGER IF EXISTS update_smart_lists_updated_at ON smart_lists;
+CREATE TRIGGER update_smart_lists_updated_at
+  BEFORE UPDATE ON smart_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,114 @@
+/*
+  # Custom Fields on Leads and Deals
+
+  ## Overview
+  Brokerages track details the built-in lead and deal columns do not cover, such as a
+  pre-approval amount, HOA dues or a referral partner. Brokers define extra fields in
+  Settings; values are stored per record in a `custom_fields` jsonb map keyed by the
+  field's key.
+
+  ## New Tables
+
+  ### 1. `custom_field_definitions`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `entity` (text) - `lead` or `deal`
+  - `key` (text) - Stable identifier used in `custom_fields` and filter queries; unique
+    per brokerage and entity and never changed after creation
+  - `label` (text) - Display name
+  - `field_type` (text) - `text`, `number`, `date`, `select` or `multiSelect`
+  - `options` (text[]) - Choices for select and multi-select fields
+  - `position` (integer) - Display order within the entity
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+
+  ### 1. `leads`
+  - Add `custom_fields` (jsonb, default `{}`) - Custom field values keyed by field key
+
+  ### 2. `deals`
+  - Add `custom_fields` (jsonb, default `{}`) - Custom field values keyed by field key
+
+  ## Security
+  - RLS enabled on `custom_field_definitions`
+  - Everyone in the brokerage can read definitions; only brokers can add, change or
+    remove them
+  - Values follow the existing lead and deal policies
+  - Removing a definition leaves stored values in place, hidden from the app
+*/
+
+-- Create custom_field_definitions table
+CREATE TABLE IF NOT EXISTS custom_field_definitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  entity text NOT NULL CHECK (entity IN ('lead', 'deal')),
+  key text NOT NULL CHECK (key ~ '^[A-Za-z][A-Za-z0-9]*$'),
+  label text NOT NULL,
+  field_type text NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'multiSelect')),
+  options text[] NOT NULL DEFAULT '{}',
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (brokerage_id, entity, key)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'custom_fields'
+  ) THEN
+    ALTER TABLE leads ADD COLUMN custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'deals' AND column_name = 'custom_fields'
+  ) THEN
+    ALTER TABLE deals ADD COLUMN custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+-- Enable RLS
+ALTER TABLE custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for custom_field_definitions table
+CREATE POLICY "Users can view custom fields in their brokerage"
+  ON custom_field_definitions FOR SELECT
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Brokers can create custom fields in their brokerage"
+  ON custom_field_definitions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+CREATE POLICY "Brokers can update custom fields in their brokerage"
+  ON custom_field_definitions FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  )
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+CREATE POLICY "Brokers can delete custom fields in their brokerage"
+  ON custom_field_definitions FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND is_broker()
+  );
+
+-- Trigger to auto-update updated_at on custom_field_definitions
+DROP TRIGGER IF EXISTS update_custom_field_definitions_updated_at ON custom_field_definitions;
+CREATE TRIGGER update_custom_field_definitions_updated_at
+  BEFORE UPDATE ON custom_field_definitions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,258 @@
+/*
+  # Lead Relationships
+
+  ## Overview
+  Leads used to carry a second person in flat `spouse_*` columns, so a spouse could not
+  have notes, emails or birthday reminders of their own. Relationships now link two
+  lead records (household members, referral sources, attorneys, ...). Every existing
+  spouse is moved into a lead of their own, linked back to the original lead, and the
+  flat columns are dropped.
+
+  ## New Tables
+
+  ### 1. `lead_relationships`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `lead_id` (uuid) - The lead the relationship is recorded on
+  - `related_lead_id` (uuid) - The other person; reads as "related lead is the lead's
+    <relationship_type>", e.g. the related lead is the lead's ATTORNEY
+  - `relationship_type` (text) - SPOUSE, PARTNER, HOUSEHOLD, SIBLING, FRIEND,
+    REFERRED_BY, ATTORNEY or OTHER
+  - `created_by` (uuid, nullable) - User who linked the two records
+  - `created_at` (timestamptz)
+
+  ## Changes
+
+  ### 1. `leads`
+  - Each lead with spouse details gets a new lead for the spouse (same brokerage, agent,
+    address and deleted state) and a relationship of the old
+    `secondary_contact_relationship` kind (Sister / Brother become SIBLING). The spouse
+    starts as a plain NEW / NORMAL contact with no source, tags or budget, so pipeline
+    counts, source reports and tag- or source-driven automations don't count them twice
+  - Drop `spouse_first_name`, `spouse_last_name`, `spouse_email`, `spouse_phone`,
+    `spouse_dob` and `secondary_contact_relationship`
+
+  ## Functions
+  - `merge_leads` - Also moves relationships onto the survivor, dropping any that would
+    link the survivor to itself or repeat an existing link
+
+  ## Security
+  - RLS enabled on `lead_relationships`; users can read, add and remove relationships
+    whose lead they can see under the leads SELECT policy
+*/
+
+-- Create lead_relationships table
+CREATE TABLE IF NOT EXISTS lead_relationships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  related_lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  relationship_type text NOT NULL CHECK (relationship_type IN ('SPOUSE', 'PARTNER', 'HOUSEHOLD', 'SIBLING', 'FRIEND', 'REFERRED_BY', 'ATTORNEY', 'OTHER')),
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (lead_id <> related_lead_id),
+  UNIQUE (lead_id, related_lead_id, relationship_type)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_lead_relationships_brokerage_id ON lead_relationships(brokerage_id);
+CREATE INDEX IF NOT EXISTS idx_lead_relationships_lead_id ON lead_relationships(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_relationships_related_lead_id ON lead_relationships(related_lead_id);
+
+-- Enable RLS
+ALTER TABLE lead_relationships ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lead_relationships table
+CREATE POLICY "Users can view relationships for leads they can view"
+  ON lead_relationships FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_relationships.lead_id)
+  );
+
+CREATE POLICY "Users can link leads they can view"
+  ON lead_relationships FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_relationships.lead_id)
+  );
+
+CREATE POLICY "Users can unlink leads they can view"
+  ON lead_relationships FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_relationships.lead_id)
+  );
+
+-- Move every flat spouse into a linked lead of their own
+DO $$
+DECLARE
+  primary_lead record;
+  spouse_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'spouse_first_name'
+  ) THEN
+    RETURN;
+  END IF;
+
+  FOR primary_lead IN
+    SELECT * FROM leads
+    WHERE coalesce(spouse_first_name, '') <> ''
+       OR coalesce(spouse_email, '') <> ''
+       OR coalesce(spouse_phone, '') <> ''
+  LOOP
+    INSERT INTO leads (
+      brokerage_id, assigned_agent_id, first_name, last_name, email, phone, dob,
+      status, temperature, source, tags, property_type, property_address,
+      is_deleted, deleted_at, created_at, updated_at
+    )
+    VALUES (
+      primary_lead.brokerage_id,
+      primary_lead.assigned_agent_id,
+      coalesce(nullif(primary_lead.spouse_first_name, ''), split_part(coalesce(primary_lead.spouse_email, ''), '@', 1), ''),
+      coalesce(nullif(primary_lead.spouse_last_name, ''), primary_lead.last_name),
+      coalesce(primary_lead.spouse_email, ''),
+      coalesce(primary_lead.spouse_phone, ''),
+      primary_lead.spouse_dob,
+      'NEW',
+      'NORMAL',
+      '',
+      '{}',
+      primary_lead.property_type,
+      primary_lead.property_address,
+      primary_lead.is_deleted,
+      primary_lead.deleted_at,
+      primary_lead.created_at,
+      now()
+    )
+    RETURNING id INTO spouse_id;
+
+    INSERT INTO lead_relationships (brokerage_id, lead_id, related_lead_id, relationship_type, created_at)
+    VALUES (
+      primary_lead.brokerage_id,
+      primary_lead.id,
+      spouse_id,
+      CASE primary_lead.secondary_contact_relationship
+        WHEN 'Partner' THEN 'PARTNER'
+        WHEN 'Sister' THEN 'SIBLING'
+        WHEN 'Brother' THEN 'SIBLING'
+        WHEN 'Friend' THEN 'FRIEND'
+        WHEN 'Other' THEN 'OTHER'
+        ELSE 'SPOUSE'
+      END,
+      primary_lead.created_at
+    );
+  END LOOP;
+END $$;
+
+ALTER TABLE leads
+  DROP COLUMN IF EXISTS spouse_first_name,
+  DROP COLUMN IF EXISTS spouse_last_name,
+  DROP COLUMN IF EXISTS spouse_email,
+  DROP COLUMN IF EXISTS spouse_phone,
+  DROP COLUMN IF EXISTS spouse_dob,
+  DROP COLUMN IF EXISTS secondary_contact_relationship;
+
+-- Merging also carries relationships over to the surviving lead
+CREATE OR REPLACE FUNCTION merge_leads(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_changes jsonb DEFAULT '{}'::jsonb,
+  p_note jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignments text;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  -- Same visibility rule as the leads UPDATE policy, applied to both sides
+  IF (
+    SELECT count(*) FROM leads
+    WHERE id IN (p_survivor_id, p_duplicate_id)
+      AND brokerage_id = get_my_brokerage_id()
+      AND is_deleted = false
+      AND (is_broker() OR assigned_agent_id = auth.uid())
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Both leads must exist and be editable by the current user';
+  END IF;
+
+  -- Fields picked from the duplicate arrive as a patch in leads column names
+  SELECT string_agg(format('%I = c.%I', col.column_name, col.column_name), ', ')
+  INTO assignments
+  FROM information_schema.columns col
+  WHERE col.table_schema = 'public'
+    AND col.table_name = 'leads'
+    AND p_changes ? col.column_name
+    AND col.column_name NOT IN ('id', 'brokerage_id', 'notes', 'tags', 'is_deleted', 'deleted_at', 'merged_into_id', 'created_at', 'updated_at');
+
+  IF assignments IS NOT NULL THEN
+    EXECUTE format('UPDATE leads l SET %s FROM jsonb_populate_record(NULL::leads, $1) c WHERE l.id = $2', assignments)
+    USING p_changes, p_survivor_id;
+  END IF;
+
+  -- Tags and notes are combined from the rows as they are now, so nothing written since
+  -- the merge screen opened is lost
+  UPDATE leads s
+  SET tags = ARRAY(
+        SELECT t FROM unnest(s.tags || d.tags) WITH ORDINALITY AS u(t, n)
+        GROUP BY t
+        ORDER BY min(n)
+      ),
+      notes = CASE WHEN p_note IS NULL THEN '[]'::jsonb ELSE jsonb_build_array(p_note) END || COALESCE((
+        SELECT jsonb_agg(note ORDER BY note->>'createdAt' DESC)
+        FROM (
+          SELECT DISTINCT ON (note->>'id') note
+          FROM jsonb_array_elements(COALESCE(s.notes, '[]'::jsonb) || COALESCE(d.notes, '[]'::jsonb)) AS note
+        ) combined
+      ), '[]'::jsonb),
+      updated_at = now()
+  FROM leads d
+  WHERE s.id = p_survivor_id
+    AND d.id = p_duplicate_id;
+
+  UPDATE tasks SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE deals SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE open_house_visits SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_ingestion_logs SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_assignments SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_sla_breaches SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_status_history SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE email_recipients SET contact_id = p_survivor_id::text WHERE contact_id = p_duplicate_id::text;
+  UPDATE leads SET merged_into_id = p_survivor_id WHERE merged_into_id = p_duplicate_id;
+
+  -- A link between the two halves of the merge, or one the survivor already has, goes away
+  DELETE FROM lead_relationships r
+  WHERE (r.lead_id = p_duplicate_id AND r.related_lead_id = p_survivor_id)
+     OR (r.lead_id = p_survivor_id AND r.related_lead_id = p_duplicate_id)
+     OR (r.lead_id = p_duplicate_id AND EXISTS (
+          SELECT 1 FROM lead_relationships s
+          WHERE s.lead_id = p_survivor_id AND s.related_lead_id = r.related_lead_id AND s.relationship_type = r.relationship_type))
+     OR (r.related_lead_id = p_duplicate_id AND EXISTS (
+          SELECT 1 FROM lead_relationships s
+          WHERE s.related_lead_id = p_survivor_id AND s.lead_id = r.lead_id AND s.relationship_type = r.relationship_type));
+  UPDATE lead_relationships SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_relationships SET related_lead_id = p_survivor_id WHERE related_lead_id = p_duplicate_id;
+
+  DELETE FROM lead_duplicate_dismissals
+  WHERE p_duplicate_id IN (lead_id, other_lead_id);
+
+  UPDATE leads
+  SET is_deleted = true,
+      deleted_at = now(),
+      merged_into_id = p_survivor_id,
+      sla_due_at = NULL
+  WHERE id = p_duplicate_id;
+END;
+$$;
@@ -0,0 +1,289 @@
+/*
+  # Full-Text Search
+
+  ## Overview
+  Lead, contact and transaction search matched substrings against whatever the client
+  had loaded. Searchable columns now carry Postgres `tsvector`s and one RPC returns
+  ranked hits across leads, lead notes, deals and training documents, each with a
+  highlighted snippet. Training Center folders and documents were client-side only;
+  they move into the database so their names can be searched with everything else.
+
+  ## New Tables
+
+  ### 1. `shared_folders`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `name` (text), `icon` (text) - Folder label and Font Awesome icon
+  - `shared_with_agent_id` (uuid, nullable) - Only this agent (and brokers) see it;
+    empty means everyone
+  - `is_deleted` (boolean), `deleted_at` (timestamptz, nullable) - Soft delete
+  - `created_at` (timestamptz)
+
+  ### 2. `shared_documents`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `folder_id` (uuid) - Parent folder
+  - `name` (text) - Display name
+  - `doc_type` (text) - PDF, IMAGE, VIDEO, LINK or DOC
+  - `url` (text) - Link or file location
+  - `size` (text, nullable) - Human readable file size
+  - `uploaded_by` (uuid, nullable), `uploaded_by_name` (text) - Uploader
+  - `shared_with_agent_id` (uuid, nullable) - As on folders
+  - `is_deleted` (boolean), `deleted_at` (timestamptz, nullable) - Soft delete
+  - `created_at` (timestamptz)
+
+  ## Changes
+
+  ### 1. `leads`
+  - `search_vector` (generated tsvector) - Name, email and phone digits (with and
+    without area code), `simple` configuration so names are not stemmed
+  - `notes_search_vector` (generated tsvector) - Every note's content, `english`
+
+  ### 2. `deals`
+  - `search_vector` (generated tsvector) - Address, escrow file number and client name
+
+  ### 3. `shared_documents`
+  - `search_vector` (generated tsvector) - Document name
+
+  GIN indexes on each vector.
+
+  ## Functions
+  - `crm_search_query(text, regconfig)` - Turns what a user typed into a prefix
+    tsquery: every word must match the start of a word, punctuation is dropped and
+    phone numbers are collapsed to their digits
+  - `search_crm(text, text[], integer)` - Ranked hits of the given kinds (LEAD, NOTE,
+    DEAL, DOCUMENT; all when null), best first. Snippets mark matches with chr(2) and
+    chr(3) so the client can highlight them without rendering HTML
+
+  ## Security
+  - RLS enabled on both new tables; everyone in the brokerage sees folders and
+    documents not limited to another agent, only brokers add, change or remove them
+  - `search_crm` runs as the caller, so every hit passes the caller's RLS policies
+*/
+
+-- Create shared_folders table
+CREATE TABLE IF NOT EXISTS shared_folders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  icon text NOT NULL DEFAULT 'fa-folder',
+  shared_with_agent_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  is_deleted boolean DEFAULT false,
+  deleted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create shared_documents table
+CREATE TABLE IF NOT EXISTS shared_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  folder_id uuid NOT NULL REFERENCES shared_folders(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  doc_type text NOT NULL DEFAULT 'PDF' CHECK (doc_type IN ('PDF', 'IMAGE', 'VIDEO', 'LINK', 'DOC')),
+  url text NOT NULL DEFAULT '#',
+  size text,
+  uploaded_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  uploaded_by_name text NOT NULL DEFAULT '',
+  shared_with_agent_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  is_deleted boolean DEFAULT false,
+  deleted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  search_vector tsvector GENERATED ALWAYS AS (to_tsvector('simple', name)) STORED
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_shared_folders_brokerage_id ON shared_folders(brokerage_id);
+CREATE INDEX IF NOT EXISTS idx_shared_documents_brokerage_id ON shared_documents(brokerage_id);
+CREATE INDEX IF NOT EXISTS idx_shared_documents_folder_id ON shared_documents(folder_id);
+CREATE INDEX IF NOT EXISTS idx_shared_documents_search ON shared_documents USING gin(search_vector);
+
+-- Enable RLS
+ALTER TABLE shared_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shared_documents ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for shared_folders table
+CREATE POLICY "Users can view folders shared with them"
+  ON shared_folders FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR shared_with_agent_id IS NULL OR shared_with_agent_id = auth.uid())
+  );
+
+CREATE POLICY "Brokers can insert folders"
+  ON shared_folders FOR INSERT
+  TO authenticated
+  WITH CHECK (brokerage_id = get_my_brokerage_id() AND is_broker());
+
+CREATE POLICY "Brokers can update folders"
+  ON shared_folders FOR UPDATE
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id() AND is_broker())
+  WITH CHECK (brokerage_id = get_my_brokerage_id() AND is_broker());
+
+CREATE POLICY "Brokers can delete folders"
+  ON shared_folders FOR DELETE
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id() AND is_broker());
+
+-- RLS Policies for shared_documents table
+CREATE POLICY "Users can view documents shared with them"
+  ON shared_documents FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (is_broker() OR shared_with_agent_id IS NULL OR shared_with_agent_id = auth.uid())
+  );
+
+CREATE POLICY "Brokers can insert documents"
+  ON shared_documents FOR INSERT
+  TO authenticated
+  WITH CHECK (brokerage_id = get_my_brokerage_id() AND is_broker());
+
+CREATE POLICY "Brokers can update documents"
+  ON shared_documents FOR UPDATE
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id() AND is_broker())
+  WITH CHECK (brokerage_id = get_my_brokerage_id() AND is_broker());
+
+CREATE POLICY "Brokers can delete documents"
+  ON shared_documents FOR DELETE
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id() AND is_broker());
+
+-- Search vectors on existing tables
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(first_name, '') || ' ' || coalesce(last_name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(email, '')), 'B') ||
+  setweight(to_tsvector('simple',
+    regexp_replace(coalesce(phone, ''), '\D', '', 'g') || ' ' ||
+    right(regexp_replace(coalesce(phone, ''), '\D', '', 'g'), 7)
+  ), 'B')
+) STORED;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS notes_search_vector tsvector GENERATED ALWAYS AS (
+  jsonb_to_tsvector('english', jsonb_path_query_array(coalesce(notes, '[]'::jsonb), '$[*].content'), '["string"]')
+) STORED;
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(address, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(escrow_file_number, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(lead_name, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_leads_search ON leads USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_leads_notes_search ON leads USING gin(notes_search_vector);
+CREATE INDEX IF NOT EXISTS idx_deals_search ON deals USING gin(search_vector);
+
+-- What the user typed, as a prefix query: "jim hal" finds "Jim Halpert", "(555) 999-88" finds 5559998888
+CREATE OR REPLACE FUNCTION crm_search_query(p_query text, p_config regconfig)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN count(*) = 0 THEN NULL ELSE
+    to_tsquery(p_config, string_agg(quote_literal(term) || ':*', ' & '))
+  END
+  FROM regexp_split_to_table(
+    -- Digits split only by phone punctuation are one number
+    regexp_replace(coalesce(p_query, ''), '(?<=\d)[\s().+-]+(?=\d)', '', 'g'),
+    '\s+'
+  ) AS raw(word),
+  LATERAL (SELECT lower(regexp_replace(raw.word, '[^[:alnum:]@._-]', '', 'g')) AS term) cleaned
+  WHERE cleaned.term <> '';
+$$;
+
+GRANT EXECUTE ON FUNCTION crm_search_query(text, regconfig) TO authenticated;
+
+CREATE OR REPLACE FUNCTION search_crm(p_query text, p_kinds text[] DEFAULT NULL, p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  kind text,
+  record_id text,
+  lead_id uuid,
+  title text,
+  subtitle text,
+  snippet text,
+  rank real
+)
+LANGUAGE sql
+SET search_path = public
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      crm_search_query(p_query, 'simple') AS simple_q,
+      crm_search_query(p_query, 'english') AS english_q,
+      format('StartSel=%s, StopSel=%s, MaxWords=18, MinWords=6, ShortWord=1, MaxFragments=2, FragmentDelimiter=" … "', chr(2), chr(3)) AS opts
+  ),
+  hits AS (
+    SELECT
+      'LEAD'::text AS kind,
+      l.id::text AS record_id,
+      l.id AS lead_id,
+      trim(l.first_name || ' ' || l.last_name) AS title,
+      l.status AS subtitle,
+      ts_headline('simple', concat_ws(' · ', trim(l.first_name || ' ' || l.last_name), nullif(l.email, ''), nullif(l.phone, '')), q.simple_q, q.opts) AS snippet,
+      ts_rank_cd(l.search_vector, q.simple_q) + 0.1 AS rank
+    FROM leads l, q
+    WHERE (p_kinds IS NULL OR 'LEAD' = ANY(p_kinds))
+      AND l.is_deleted = false
+      AND l.search_vector @@ q.simple_q
+
+    UNION ALL
+
+    SELECT
+      'NOTE',
+      n.note->>'id',
+      l.id,
+      trim(l.first_name || ' ' || l.last_name),
+      'Note',
+      ts_headline('english', n.note->>'content', q.english_q, q.opts),
+      ts_rank_cd(to_tsvector('english', n.note->>'content'), q.english_q)
+    FROM leads l
+    CROSS JOIN q
+    CROSS JOIN LATERAL jsonb_array_elements(l.notes) AS n(note)
+    WHERE (p_kinds IS NULL OR 'NOTE' = ANY(p_kinds))
+      AND l.is_deleted = false
+      AND l.notes_search_vector @@ q.english_q
+      AND to_tsvector('english', coalesce(n.note->>'content', '')) @@ q.english_q
+
+    UNION ALL
+
+    SELECT
+      'DEAL',
+      d.id::text,
+      d.lead_id,
+      d.address,
+      d.lead_name,
+      ts_headline('simple', concat_ws(' · ', d.address, nullif(d.escrow_file_number, ''), d.lead_name), q.simple_q, q.opts),
+      ts_rank_cd(d.search_vector, q.simple_q) + 0.1
+    FROM deals d, q
+    WHERE (p_kinds IS NULL OR 'DEAL' = ANY(p_kinds))
+      AND d.is_deleted = false
+      AND d.search_vector @@ q.simple_q
+
+    UNION ALL
+
+    SELECT
+      'DOCUMENT',
+      s.id::text,
+      NULL::uuid,
+      s.name,
+      f.name,
+      ts_headline('simple', s.name, q.simple_q, q.opts),
+      ts_rank_cd(s.search_vector, q.simple_q)
+    FROM shared_documents s
+    JOIN shared_folders f ON f.id = s.folder_id
+    CROSS JOIN q
+    WHERE (p_kinds IS NULL OR 'DOCUMENT' = ANY(p_kinds))
+      AND s.is_deleted = false
+      AND f.is_deleted = false
+      AND s.search_vector @@ q.simple_q
+  )
+  SELECT kind, record_id, lead_id, title, subtitle, snippet, rank::real
+  FROM hits
+  ORDER BY rank DESC, title
+  LIMIT least(greatest(coalesce(p_limit, 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_crm(text, text[], integer) TO authenticated;
@@ -0,0 +1,296 @@
+/*
+  # Phone Normalization and Address Geocoding
+
+  ## Overview
+  Phones were stored however they were typed: `(555) 123-4567` from the forms,
+  `555-123-4567` or `000-000-0000` from imports, anything at all from integrations.
+  Every phone column is now normalized to E.164 (`+15551234567`) on write and
+  formatted by the client on read. A number with no E.164 form (a 7-digit local
+  number, a foreign number typed without its "+") is kept exactly as typed, and
+  extensions move to a column of their own, so no typed digit is ever dropped.
+  Property, transaction and open house addresses keep their free text, and now also
+  carry the parsed components and a geocoded point, which the client fills in
+  through its pluggable geocoder whenever the address is saved.
+
+  ## Changes
+
+  ### 1. `leads`
+  - `phone` - Normalized to E.164 where possible; existing rows backfilled
+  - Add `phone_extension` (text, nullable) - Extension split off the number
+  - Add `property_address_components` (jsonb, nullable) - Street, unit, city, state,
+    postal code and country parsed from `property_address`
+  - Add `property_location` (jsonb, nullable) - `{ lat, lng, precision, provider }`
+  - `search_vector` - Indexes phones by their national number, so "555 123" still
+    finds `+15551234567`
+
+  ### 2. `deals`
+  - `client_phone`, `escrow_phone`, `lender_phone`, `lender_cell_phone`, `title_phone`,
+    `tc_phone` - Normalized to E.164 where possible; existing rows backfilled
+  - Add `client_phone_extension`, `escrow_phone_extension`, `lender_phone_extension`,
+    `lender_cell_phone_extension`, `title_phone_extension`, `tc_phone_extension` (text, nullable)
+  - Add `address_components` (jsonb, nullable) and `location` (jsonb, nullable)
+
+  ### 3. `open_houses`
+  - `manual_agent_phone` - Normalized to E.164 where possible; existing rows backfilled
+  - Add `manual_agent_phone_extension` (text, nullable)
+  - Add `address_components` (jsonb, nullable) and `location` (jsonb, nullable)
+
+  ### 4. `open_house_visits`, `user_profiles`
+  - `phone` - Normalized to E.164 where possible; existing rows backfilled
+  - Add `phone_extension` (text, nullable)
+
+  Backfills only reformat dialable numbers and move extensions into their column;
+  every other value is left as it was, so `updated_at` is left untouched.
+
+  ## Functions
+  - `normalize_phone_e164(text)` - E.164 form of a number, NULL when it is not
+    dialable. Numbers without a country code are read as North American; the
+    client's `toE164` applies the same rules
+  - `phone_extension(text)` - The extension typed after a number, if any
+  - `normalize_phone(text)` - What is stored: the E.164 form, or the number as typed
+    (minus its extension) when it has none; the client's `toStoredPhone`
+  - `normalize_phone_column`, `normalize_deal_phones`, `normalize_open_house_phone` -
+    Triggers that normalize every insert and phone update, including sign-ins and
+    integrations that bypass the client, and move a typed extension into its column
+  - `copy_open_house_location` - Leads captured at an open house take its address,
+    so they also take its parsed components and location
+
+  ## Security
+  - No policy changes
+*/
+
+CREATE OR REPLACE FUNCTION normalize_phone_e164(p_phone text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  -- Extensions have no E.164 form and are ignored here
+  v_text text := trim(regexp_replace(coalesce(p_phone, ''), '\s*(x|ext\.?|extension|#)\s*\d+\s*$', '', 'i'));
+  v_international boolean := v_text ~ '^(\+|00)';
+  v_digits text := regexp_replace(v_text, '\D', '', 'g');
+  v_national text;
+BEGIN
+  IF v_text LIKE '00%' THEN
+    v_digits := substr(v_digits, 3);
+  END IF;
+
+  v_national := CASE WHEN length(v_digits) = 11 AND v_digits LIKE '1%' THEN substr(v_digits, 2) ELSE v_digits END;
+  IF (NOT v_international OR v_digits LIKE '1%') AND length(v_national) = 10 THEN
+    -- North American area codes never start with 0 or 1
+    RETURN CASE WHEN v_national ~ '^[2-9]' THEN '+1' || v_national END;
+  END IF;
+
+  -- Anything longer is taken to carry its own country code
+  IF length(v_digits) BETWEEN (CASE WHEN v_international THEN 8 ELSE 11 END) AND 15 AND v_digits !~ '^0' THEN
+    RETURN '+' || v_digits;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION phone_extension(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (regexp_match(coalesce(p_phone, ''), '\s*(?:x|ext\.?|extension|#)\s*(\d+)\s*$', 'i'))[1];
+$$;
+
+-- Never loses what was typed: a number with no E.164 form is kept as written
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(normalize_phone_e164(v.number), nullif(v.number, ''))
+  FROM (
+    SELECT trim(regexp_replace(coalesce(p_phone, ''), '\s*(x|ext\.?|extension|#)\s*\d+\s*$', '', 'i')) AS number
+  ) v;
+$$;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS phone_extension text;
+ALTER TABLE open_house_visits ADD COLUMN IF NOT EXISTS phone_extension text;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS phone_extension text;
+ALTER TABLE open_houses ADD COLUMN IF NOT EXISTS manual_agent_phone_extension text;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS client_phone_extension text;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS escrow_phone_extension text;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS lender_phone_extension text;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS lender_cell_phone_extension text;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS title_phone_extension text;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS tc_phone_extension text;
+
+-- Backfill existing numbers without bumping updated_at. Only rows whose stored form
+-- changes are touched, and normalize_phone() keeps anything it can't reformat.
+ALTER TABLE leads DISABLE TRIGGER update_leads_updated_at;
+UPDATE leads
+SET
+  phone_extension = phone_extension(phone),
+  phone = coalesce(normalize_phone(phone), '')
+WHERE phone IS DISTINCT FROM coalesce(normalize_phone(phone), '');
+ALTER TABLE leads ENABLE TRIGGER update_leads_updated_at;
+
+ALTER TABLE deals DISABLE TRIGGER update_deals_updated_at;
+UPDATE deals
+SET
+  client_phone_extension = phone_extension(client_phone),
+  client_phone = normalize_phone(client_phone),
+  escrow_phone_extension = phone_extension(escrow_phone),
+  escrow_phone = normalize_phone(escrow_phone),
+  lender_phone_extension = phone_extension(lender_phone),
+  lender_phone = normalize_phone(lender_phone),
+  lender_cell_phone_extension = phone_extension(lender_cell_phone),
+  lender_cell_phone = normalize_phone(lender_cell_phone),
+  title_phone_extension = phone_extension(title_phone),
+  title_phone = normalize_phone(title_phone),
+  tc_phone_extension = phone_extension(tc_phone),
+  tc_phone = normalize_phone(tc_phone)
+WHERE (client_phone, escrow_phone, lender_phone, lender_cell_phone, title_phone, tc_phone) IS DISTINCT FROM (
+  normalize_phone(client_phone), normalize_phone(escrow_phone), normalize_phone(lender_phone),
+  normalize_phone(lender_cell_phone), normalize_phone(title_phone), normalize_phone(tc_phone)
+);
+ALTER TABLE deals ENABLE TRIGGER update_deals_updated_at;
+
+ALTER TABLE open_houses DISABLE TRIGGER update_open_houses_updated_at;
+UPDATE open_houses
+SET
+  manual_agent_phone_extension = phone_extension(manual_agent_phone),
+  manual_agent_phone = normalize_phone(manual_agent_phone)
+WHERE manual_agent_phone IS DISTINCT FROM normalize_phone(manual_agent_phone);
+ALTER TABLE open_houses ENABLE TRIGGER update_open_houses_updated_at;
+
+UPDATE open_house_visits
+SET
+  phone_extension = phone_extension(phone),
+  phone = coalesce(normalize_phone(phone), '')
+WHERE phone IS DISTINCT FROM coalesce(normalize_phone(phone), '');
+
+ALTER TABLE user_profiles DISABLE TRIGGER update_user_profiles_updated_at;
+UPDATE user_profiles
+SET
+  phone_extension = phone_extension(phone),
+  phone = normalize_phone(phone)
+WHERE phone IS DISTINCT FROM normalize_phone(phone);
+ALTER TABLE user_profiles ENABLE TRIGGER update_user_profiles_updated_at;
+
+-- Tables with a single `phone` column and its `phone_extension`. An extension typed
+-- into the number replaces the stored one; otherwise the stored one is left as written.
+CREATE OR REPLACE FUNCTION normalize_phone_column()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.phone IS NOT NULL THEN
+    NEW.phone_extension := coalesce(phone_extension(NEW.phone), NEW.phone_extension);
+    NEW.phone := coalesce(normalize_phone(NEW.phone), '');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION normalize_deal_phones()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.client_phone_extension := coalesce(phone_extension(NEW.client_phone), NEW.client_phone_extension);
+  NEW.client_phone := normalize_phone(NEW.client_phone);
+  NEW.escrow_phone_extension := coalesce(phone_extension(NEW.escrow_phone), NEW.escrow_phone_extension);
+  NEW.escrow_phone := normalize_phone(NEW.escrow_phone);
+  NEW.lender_phone_extension := coalesce(phone_extension(NEW.lender_phone), NEW.lender_phone_extension);
+  NEW.lender_phone := normalize_phone(NEW.lender_phone);
+  NEW.lender_cell_phone_extension := coalesce(phone_extension(NEW.lender_cell_phone), NEW.lender_cell_phone_extension);
+  NEW.lender_cell_phone := normalize_phone(NEW.lender_cell_phone);
+  NEW.title_phone_extension := coalesce(phone_extension(NEW.title_phone), NEW.title_phone_extension);
+  NEW.title_phone := normalize_phone(NEW.title_phone);
+  NEW.tc_phone_extension := coalesce(phone_extension(NEW.tc_phone), NEW.tc_phone_extension);
+  NEW.tc_phone := normalize_phone(NEW.tc_phone);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION normalize_open_house_phone()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.manual_agent_phone_extension := coalesce(phone_extension(NEW.manual_agent_phone), NEW.manual_agent_phone_extension);
+  NEW.manual_agent_phone := normalize_phone(NEW.manual_agent_phone);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_lead_phone ON leads;
+CREATE TRIGGER normalize_lead_phone
+  BEFORE INSERT OR UPDATE OF phone ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_phone_column();
+
+DROP TRIGGER IF EXISTS normalize_open_house_visit_phone ON open_house_visits;
+CREATE TRIGGER normalize_open_house_visit_phone
+  BEFORE INSERT OR UPDATE OF phone ON open_house_visits
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_phone_column();
+
+DROP TRIGGER IF EXISTS normalize_user_profile_phone ON user_profiles;
+CREATE TRIGGER normalize_user_profile_phone
+  BEFORE INSERT OR UPDATE OF phone ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_phone_column();
+
+DROP TRIGGER IF EXISTS normalize_deal_phones ON deals;
+CREATE TRIGGER normalize_deal_phones
+  BEFORE INSERT OR UPDATE OF client_phone, escrow_phone, lender_phone, lender_cell_phone, title_phone, tc_phone ON deals
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_deal_phones();
+
+DROP TRIGGER IF EXISTS normalize_open_house_phone ON open_houses;
+CREATE TRIGGER normalize_open_house_phone
+  BEFORE INSERT OR UPDATE OF manual_agent_phone ON open_houses
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_open_house_phone();
+
+-- Phones are indexed by their national number and its last 7 digits
+DROP INDEX IF EXISTS idx_leads_search;
+ALTER TABLE leads DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE leads ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(first_name, '') || ' ' || coalesce(last_name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(email, '')), 'B') ||
+  setweight(to_tsvector('simple',
+    regexp_replace(regexp_replace(coalesce(phone, ''), '^\+1', ''), '\D', '', 'g') || ' ' ||
+    right(regexp_replace(coalesce(phone, ''), '\D', '', 'g'), 7)
+  ), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS idx_leads_search ON leads USING gin(search_vector);
+
+-- Parsed address and geocoded point, written by the client with the address
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS property_address_components jsonb;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS property_location jsonb;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS address_components jsonb;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS location jsonb;
+ALTER TABLE open_houses ADD COLUMN IF NOT EXISTS address_components jsonb;
+ALTER TABLE open_houses ADD COLUMN IF NOT EXISTS location jsonb;
+
+-- Sign-ins copy the open house address, so they can copy where it is as well
+CREATE OR REPLACE FUNCTION copy_open_house_location()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.open_house_id IS NOT NULL AND NEW.property_location IS NULL THEN
+    SELECT oh.address_components, oh.location
+    INTO NEW.property_address_components, NEW.property_location
+    FROM open_houses oh
+    WHERE oh.id = NEW.open_house_id
+    AND oh.address = NEW.property_address;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS copy_open_house_location ON leads;
+CREATE TRIGGER copy_open_house_location
+  BEFORE INSERT ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION copy_open_house_location();
@@ -0,0 +1,415 @@
+/*
+  # Drip Campaigns
+
+  ## Overview
+  Follow-ups were sent one email at a time. A drip campaign is an ordered list of
+  `email_templates` sent on a schedule counted from enrollment ("day 0 welcome, day 3
+  market update, day 10 check-in"). Leads are enrolled by hand or automatically when
+  their source, tags or status match the campaign's trigger. An enrollment pauses
+  itself when the lead replies or changes status, so nobody keeps receiving a
+  sequence written for a conversation that has already moved on.
+
+  Due steps are sent by the `send-drip-emails` function, run every few minutes by a
+  scheduler. Each send is recorded in `emails` / `email_recipients` like any other
+  email, so it also appears on the lead's activity timeline.
+
+  ## New Tables
+
+  ### 1. `drip_campaigns`
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid) - Owning brokerage
+  - `created_by` (uuid, nullable) - User who built the campaign
+  - `name` (text), `description` (text, nullable)
+  - `steps` (jsonb) - `[{ id, delayDays, templateId }]`, sorted by `delayDays`
+  - `trigger_field` (text, nullable) - `source`, `tag` or `status`; NULL for manual only
+  - `trigger_value` (text, nullable) - Value that enrolls a lead, e.g. `Zillow`
+  - `is_active` (boolean) - Inactive campaigns enroll no one and send nothing
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 2. `drip_enrollments`
+  One row per lead and campaign
+  - `id` (uuid, primary key)
+  - `brokerage_id` (uuid), `campaign_id` (uuid), `lead_id` (uuid)
+  - `status` (text) - `ACTIVE`, `PAUSED`, `COMPLETED` or `STOPPED`
+  - `origin` (text) - `MANUAL` or `TRIGGER`
+  - `current_step` (integer) - Index of the next step to send
+  - `next_send_at` (timestamptz, nullable) - When that step is due
+  - `last_sent_at` (timestamptz, nullable), `last_error` (text, nullable)
+  - `paused_at` (timestamptz, nullable), `pause_reason` (text, nullable) - `REPLIED`,
+    `STATUS_CHANGED` or `MANUAL`
+  - `completed_at` (timestamptz, nullable)
+  - `enrolled_by` (uuid, nullable) - NULL when a trigger enrolled the lead
+  - `enrolled_at`, `updated_at` (timestamptz)
+
+  ## Functions
+  - `enroll_lead_in_drip_campaigns` - Pauses running enrollments when a lead's status
+    changes, then enrolls it in active campaigns whose trigger it now matches
+  - `pause_drips_on_reply` - Pauses the sender's running enrollments when an email
+    arrives in an inbox; inbound mail is filed there by the receive-email function
+  - `merge_leads` - Also moves enrollments onto the survivor. When both leads are in the
+    same campaign, the running enrollment is kept, else the one further along. A check
+    at the end fails the migration if any table referencing `leads` is left out of it.
+
+  ## Security
+  - RLS enabled on both tables
+  - Everyone in a brokerage can see its campaigns; creators and brokers can change or
+    delete them
+  - Enrollments follow lead visibility: brokers see all, agents see their own leads'
+*/
+
+-- Create drip_campaigns table
+CREATE TABLE IF NOT EXISTS drip_campaigns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  description text,
+  steps jsonb NOT NULL DEFAULT '[]'::jsonb,
+  trigger_field text CHECK (trigger_field IN ('source', 'tag', 'status')),
+  trigger_value text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_drip_campaigns_brokerage ON drip_campaigns(brokerage_id);
+
+-- Create drip_enrollments table
+CREATE TABLE IF NOT EXISTS drip_enrollments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brokerage_id uuid NOT NULL REFERENCES brokerages(id) ON DELETE CASCADE,
+  campaign_id uuid NOT NULL REFERENCES drip_campaigns(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'PAUSED', 'COMPLETED', 'STOPPED')),
+  origin text NOT NULL DEFAULT 'MANUAL' CHECK (origin IN ('MANUAL', 'TRIGGER')),
+  current_step integer NOT NULL DEFAULT 0,
+  next_send_at timestamptz,
+  last_sent_at timestamptz,
+  last_error text,
+  paused_at timestamptz,
+  pause_reason text CHECK (pause_reason IN ('REPLIED', 'STATUS_CHANGED', 'MANUAL')),
+  completed_at timestamptz,
+  enrolled_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  enrolled_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (campaign_id, lead_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_drip_enrollments_lead ON drip_enrollments(lead_id);
+-- The sender only ever looks for running enrollments that are due
+CREATE INDEX IF NOT EXISTS idx_drip_enrollments_due ON drip_enrollments(next_send_at) WHERE status = 'ACTIVE';
+
+-- Enable RLS
+ALTER TABLE drip_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE drip_enrollments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for drip_campaigns table
+CREATE POLICY "Users can view drip campaigns in their brokerage"
+  ON drip_campaigns FOR SELECT
+  TO authenticated
+  USING (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Users can create drip campaigns in their brokerage"
+  ON drip_campaigns FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Owners and brokers can update drip campaigns"
+  ON drip_campaigns FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (created_by = auth.uid() OR is_broker())
+  )
+  WITH CHECK (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Owners and brokers can delete drip campaigns"
+  ON drip_campaigns FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND (created_by = auth.uid() OR is_broker())
+  );
+
+-- RLS Policies for drip_enrollments table
+CREATE POLICY "Users can view drip enrollments of their leads"
+  ON drip_enrollments FOR SELECT
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = drip_enrollments.lead_id
+      AND (is_broker() OR leads.assigned_agent_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can enroll their leads"
+  ON drip_enrollments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    brokerage_id = get_my_brokerage_id()
+    AND enrolled_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = drip_enrollments.lead_id
+      AND leads.brokerage_id = drip_enrollments.brokerage_id
+      AND (is_broker() OR leads.assigned_agent_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can update drip enrollments of their leads"
+  ON drip_enrollments FOR UPDATE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = drip_enrollments.lead_id
+      AND (is_broker() OR leads.assigned_agent_id = auth.uid())
+    )
+  )
+  WITH CHECK (brokerage_id = get_my_brokerage_id());
+
+CREATE POLICY "Users can delete drip enrollments of their leads"
+  ON drip_enrollments FOR DELETE
+  TO authenticated
+  USING (
+    brokerage_id = get_my_brokerage_id()
+    AND EXISTS (
+      SELECT 1 FROM leads
+      WHERE leads.id = drip_enrollments.lead_id
+      AND (is_broker() OR leads.assigned_agent_id = auth.uid())
+    )
+  );
+
+-- Triggers to auto-update updated_at
+DROP TRIGGER IF EXISTS update_drip_campaigns_updated_at ON drip_campaigns;
+CREATE TRIGGER update_drip_campaigns_updated_at
+  BEFORE UPDATE ON drip_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_drip_enrollments_updated_at ON drip_enrollments;
+CREATE TRIGGER update_drip_enrollments_updated_at
+  BEFORE UPDATE ON drip_enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Runs as the definer so an agent's edit can enroll leads and pause drips they did not start
+CREATE OR REPLACE FUNCTION enroll_lead_in_drip_campaigns()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_deleted THEN
+    RETURN NEW;
+  END IF;
+
+  -- Pause what was running before the new stage's own campaigns start
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE drip_enrollments
+    SET status = 'PAUSED', paused_at = now(), pause_reason = 'STATUS_CHANGED'
+    WHERE lead_id = NEW.id AND status = 'ACTIVE';
+  END IF;
+
+  IF NEW.email = '' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only a value the lead has just gained enrolls it, so re-saving a lead is harmless
+  INSERT INTO drip_enrollments (brokerage_id, campaign_id, lead_id, origin, next_send_at)
+  SELECT
+    c.brokerage_id,
+    c.id,
+    NEW.id,
+    'TRIGGER',
+    now() + coalesce((c.steps -> 0 ->> 'delayDays')::integer, 0) * interval '1 day'
+  FROM drip_campaigns c
+  WHERE c.brokerage_id = NEW.brokerage_id
+  AND c.is_active
+  AND jsonb_array_length(c.steps) > 0
+  AND (
+    (c.trigger_field = 'source' AND lower(c.trigger_value) = lower(NEW.source)
+      AND (TG_OP = 'INSERT' OR lower(NEW.source) IS DISTINCT FROM lower(OLD.source)))
+    OR (c.trigger_field = 'status' AND c.trigger_value = NEW.status
+      AND (TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status))
+    OR (c.trigger_field = 'tag' AND c.trigger_value = ANY(NEW.tags)
+      AND (TG_OP = 'INSERT' OR NOT (c.trigger_value = ANY(OLD.tags))))
+  )
+  ON CONFLICT (campaign_id, lead_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enroll_lead_in_drip_campaigns ON leads;
+CREATE TRIGGER enroll_lead_in_drip_campaigns
+  AFTER INSERT OR UPDATE OF source, tags, status ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION enroll_lead_in_drip_campaigns();
+
+-- A reply is any inbox email from the lead's address, matched within the owner's brokerage
+CREATE OR REPLACE FUNCTION pause_drips_on_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sender text := lower(trim(coalesce(substring(NEW.sender_email from '<([^>]+)>'), NEW.sender_email)));
+BEGIN
+  IF NEW.folder = 'INBOX' AND v_sender <> '' THEN
+    UPDATE drip_enrollments e
+    SET status = 'PAUSED', paused_at = now(), pause_reason = 'REPLIED'
+    FROM leads l
+    WHERE l.id = e.lead_id
+    AND e.status = 'ACTIVE'
+    AND lower(l.email) = v_sender
+    AND l.brokerage_id = (SELECT brokerage_id FROM user_profiles WHERE id = NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pause_drips_on_reply ON emails;
+CREATE TRIGGER pause_drips_on_reply
+  AFTER INSERT ON emails
+  FOR EACH ROW
+  EXECUTE FUNCTION pause_drips_on_reply();
+
+-- Merging also carries drip enrollments over to the surviving lead
+CREATE OR REPLACE FUNCTION merge_leads(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_changes jsonb DEFAULT '{}'::jsonb,
+  p_note jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignments text;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  -- Same visibility rule as the leads UPDATE policy, applied to both sides
+  IF (
+    SELECT count(*) FROM leads
+    WHERE id IN (p_survivor_id, p_duplicate_id)
+      AND brokerage_id = get_my_brokerage_id()
+      AND is_deleted = false
+      AND (is_broker() OR assigned_agent_id = auth.uid())
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Both leads must exist and be editable by the current user';
+  END IF;
+
+  -- Fields picked from the duplicate arrive as a patch in leads column names
+  SELECT string_agg(format('%I = c.%I', col.column_name, col.column_name), ', ')
+  INTO assignments
+  FROM information_schema.columns col
+  WHERE col.table_schema = 'public'
+    AND col.table_name = 'leads'
+    AND p_changes ? col.column_name
+    AND col.column_name NOT IN ('id', 'brokerage_id', 'notes', 'tags', 'is_deleted', 'deleted_at', 'merged_into_id', 'created_at', 'updated_at');
+
+  IF assignments IS NOT NULL THEN
+    EXECUTE format('UPDATE leads l SET %s FROM jsonb_populate_record(NULL::leads, $1) c WHERE l.id = $2', assignments)
+    USING p_changes, p_survivor_id;
+  END IF;
+
+  -- Tags and notes are combined from the rows as they are now, so nothing written since
+  -- the merge screen opened is lost
+  UPDATE leads s
+  SET tags = ARRAY(
+        SELECT t FROM unnest(s.tags || d.tags) WITH ORDINALITY AS u(t, n)
+        GROUP BY t
+        ORDER BY min(n)
+      ),
+      notes = CASE WHEN p_note IS NULL THEN '[]'::jsonb ELSE jsonb_build_array(p_note) END || COALESCE((
+        SELECT jsonb_agg(note ORDER BY note->>'createdAt' DESC)
+        FROM (
+          SELECT DISTINCT ON (note->>'id') note
+          FROM jsonb_array_elements(COALESCE(s.notes, '[]'::jsonb) || COALESCE(d.notes, '[]'::jsonb)) AS note
+        ) combined
+      ), '[]'::jsonb),
+      updated_at = now()
+  FROM leads d
+  WHERE s.id = p_survivor_id
+    AND d.id = p_duplicate_id;
+
+  UPDATE tasks SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE deals SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE open_house_visits SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_ingestion_logs SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_assignments SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_sla_breaches SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_status_history SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE email_recipients SET contact_id = p_survivor_id::text WHERE contact_id = p_duplicate_id::text;
+  UPDATE leads SET merged_into_id = p_survivor_id WHERE merged_into_id = p_duplicate_id;
+
+  -- Where both leads are in the same campaign, keep the enrollment that is still running,
+  -- else the one further along; on a tie the survivor's stays
+  DELETE FROM drip_enrollments e
+  USING drip_enrollments other
+  WHERE e.campaign_id = other.campaign_id
+    AND e.lead_id IN (p_survivor_id, p_duplicate_id)
+    AND other.lead_id IN (p_survivor_id, p_duplicate_id)
+    AND e.lead_id <> other.lead_id
+    AND (other.status = 'ACTIVE', other.current_step, other.lead_id = p_survivor_id)
+      > (e.status = 'ACTIVE', e.current_step, e.lead_id = p_survivor_id);
+  UPDATE drip_enrollments SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+
+  -- A link between the two halves of the merge, or one the survivor already has, goes away
+  DELETE FROM lead_relationships r
+  WHERE (r.lead_id = p_duplicate_id AND r.related_lead_id = p_survivor_id)
+     OR (r.lead_id = p_survivor_id AND r.related_lead_id = p_duplicate_id)
+     OR (r.lead_id = p_duplicate_id AND EXISTS (
+          SELECT 1 FROM lead_relationships s
+          WHERE s.lead_id = p_survivor_id AND s.related_lead_id = r.related_lead_id AND s.relationship_type = r.relationship_type))
+     OR (r.related_lead_id = p_duplicate_id AND EXISTS (
+          SELECT 1 FROM lead_relationships s
+          WHERE s.related_lead_id = p_survivor_id AND s.lead_id = r.lead_id AND s.relationship_type = r.relationship_type));
+  UPDATE lead_relationships SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+  UPDATE lead_relationships SET related_lead_id = p_survivor_id WHERE related_lead_id = p_duplicate_id;
+
+  DELETE FROM lead_duplicate_dismissals
+  WHERE p_duplicate_id IN (lead_id, other_lead_id);
+
+  UPDATE leads
+  SET is_deleted = true,
+      deleted_at = now(),
+      merged_into_id = p_survivor_id,
+      sla_due_at = NULL
+  WHERE id = p_duplicate_id;
+END;
+$$;
+
+-- Every table that points at a lead has to be handled by merge_leads, or merging leaves
+-- its rows on the retired duplicate
+DO $$
+DECLARE
+  v_merge_source text := pg_get_functiondef('merge_leads(uuid, uuid, jsonb, jsonb)'::regprocedure);
+  v_missing text;
+BEGIN
+  SELECT string_agg(DISTINCT c.conrelid::regclass::text, ', ')
+  INTO v_missing
+  FROM pg_constraint c
+  WHERE c.contype = 'f'
+    AND c.confrelid = 'leads'::regclass
+    AND c.conrelid <> 'leads'::regclass
+    AND position(c.conrelid::regclass::text IN v_merge_source) = 0;
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'merge_leads does not move rows from: %', v_missing;
+  END IF;
+END $$;
@@ -1,32 +1,12 @@
+// Types shared with the edge functions are defined in supabase/functions/_shared/types.ts
+export * from './supabase/functions/_shared/types.ts';
+import type { AddressComponents, CustomFieldValue, GeoLocation, Lead, LeadFieldMapping, RoutingStrategy } from './supabase/functions/_shared/types.ts';
 
 export enum UserRole {
   BROKER = 'BROKER',
   AGENT = 'AGENT'
 }
 
-export enum LeadStatus {
-  NEW = 'NEW',
-  CONTACTED = 'CONTACTED',
-  ACTIVE = 'ACTIVE',
-  IN_ESCROW = 'IN_ESCROW',
-  CLOSED = 'CLOSED'
-}
-
-export enum LeadTemperature {
-  HOT = 'HOT',
-  WARM = 'WARM',
-  COLD = 'COLD',
-  NORMAL = 'NORMAL'
-}
-
-export interface LeadNote {
-  id: string;
-  content: string;
-  createdAt: string;
-  authorId: string;
-  authorName: string;
-}
-
 export interface Brokerage {
   id: string;
   name: string;
@@ -47,42 +27,17 @@ export interface User {
   deletedAt?: string;
 }
 
-export interface Lead {
+// Reads "the related lead is the lead's <type>", e.g. the related lead is the lead's ATTORNEY
+export type LeadRelationshipType = 'SPOUSE' | 'PARTNER' | 'HOUSEHOLD' | 'SIBLING' | 'FRIEND' | 'REFERRED_BY' | 'ATTORNEY' | 'OTHER';
+
+export interface LeadRelationship {
   id: string;
   brokerageId: string;
-  assignedAgentId: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  phone: string;
-  status: LeadStatus;
-  temperature: LeadTemperature;
-  source: string;
-  tags: string[];
-  propertyType: 'PRIMARY' | 'SECONDARY' | 'INVESTMENT';
-  propertyAddress?: string;
-  budget: number;
-  notes: LeadNote[];
+  leadId: string;
+  relatedLeadId: string;
+  type: LeadRelationshipType;
+  createdBy?: string;
   createdAt: string;
-  updatedAt: string;
-  estimatedDealValue: number;
-  dob?: string;
-  weddingAnniversary?: string;
-  homeAnniversary?: string;
-  spouseFirstName?: string;
-  spouseLastName?: string;
-  spouseEmail?: string;
-  spousePhone?: string;
-  spouseDob?: string;
-  secondaryContactRelationship?: 'Spouse' | 'Sister' | 'Brother' | 'Friend' | 'Partner' | 'Other';
-  familyNotes?: string;
-  isDeleted?: boolean;
-  deletedAt?: string;
-  openHouseId?: string;
-  checkInTime?: string;
-  // API Integration Meta
-  externalId?: string;
-  integrationSource?: string;
 }
 
 export interface IntegrationProvider {
@@ -95,6 +50,162 @@ export interface IntegrationProvider {
   lastIngestionAt?: string;
 }
 
+export interface LeadIntegration {
+  id: string;
+  brokerageId: string;
+  provider: string;
+  status: 'ACTIVE' | 'INACTIVE';
+  apiKey: string;
+  fieldMapping?: LeadFieldMapping;
+  lastIngestionAt?: string;
+}
+
+export type AssignmentOrigin = 'INGESTION' | 'IMPORT' | 'MANUAL' | 'SLA_ESCALATION';
+
+export interface LeadAssignment {
+  id: string;
+  brokerageId: string;
+  leadId: string;
+  agentId: string;
+  ruleId?: string;
+  ruleName: string;
+  strategy?: RoutingStrategy;
+  reason: string;
+  origin: AssignmentOrigin;
+  createdAt: string;
+}
+
+export interface SlaBreach {
+  id: string;
+  brokerageId: string;
+  leadId: string;
+  agentId: string;
+  source: string;
+  dueAt: string;
+  breachedAt: string;
+  reassignedToAgentId?: string;
+}
+
+export type IngestionStatus = 'PENDING' | 'SUCCESS' | 'FAILED' | 'DUPLICATE';
+
+export interface IngestionLogEntry {
+  id: string;
+  brokerageId: string;
+  integrationId?: string;
+  provider: string;
+  payload: unknown;
+  status: IngestionStatus;
+  error?: string;
+  leadId?: string;
+  externalId?: string;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Lead fields a spreadsheet column can be imported into
+export type ImportField =
+  | 'fullName'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'status'
+  | 'temperature'
+  | 'source'
+  | 'tags'
+  | 'propertyType'
+  | 'propertyAddress'
+  | 'budget'
+  | 'dob'
+  | 'weddingAnniversary'
+  | 'homeAnniversary'
+  // Spouse columns are imported as a linked household member
+  | 'spouseFirstName'
+  | 'spouseLastName'
+  | 'spouseEmail'
+  | 'spousePhone'
+  | 'familyNotes'
+  | 'note'
+  // A lead custom field, by definition key
+  | `custom:${string}`;
+
+// Normalized column header -> field; columns left out are ignored
+export type ImportMapping = Record<string, ImportField>;
+
+export interface LeadImportPreset {
+  id: string;
+  brokerageId: string;
+  name: string;
+  mapping: ImportMapping;
+  createdAt: string;
+}
+
+export type CustomFieldEntity = 'lead' | 'deal';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiSelect';
+
+// A field a broker added to leads or deals. `key` is fixed at creation, so renaming the
+// label keeps existing values.
+export interface CustomFieldDefinition {
+  id: string;
+  brokerageId: string;
+  entity: CustomFieldEntity;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  position: number;
+}
+
+// A saved lead filter; `query` uses the language in lib/leadQuery.ts
+export interface SmartList {
+  id: string;
+  brokerageId: string;
+  createdBy?: string;
+  name: string;
+  query: string;
+  isShared: boolean;
+  createdAt: string;
+}
+
+// A recorded status or temperature transition; `fromValue` is empty for the first value
+export interface LeadStatusChange {
+  id: string;
+  leadId: string;
+  field: 'status' | 'temperature';
+  fromValue?: string;
+  toValue: string;
+  changedBy?: string;
+  changedAt: string;
+}
+
+export type LeadActivityType = 'NOTE' | 'EMAIL' | 'TASK' | 'DEAL' | 'OPEN_HOUSE' | 'STATUS';
+
+// One entry of a lead's merged timeline; `meta` carries type-specific details
+export interface LeadActivity {
+  id: string;
+  type: LeadActivityType;
+  occurredAt: string;
+  title: string;
+  detail?: string;
+  actorName?: string;
+  meta: Record<string, unknown>;
+}
+
+export type SearchResultKind = 'LEAD' | 'NOTE' | 'DEAL' | 'DOCUMENT';
+
+// A ranked server-side search hit; `snippet` marks matches with \u0002 ... \u0003
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string;
+  leadId?: string;
+  title: string;
+  subtitle?: string;
+  snippet: string;
+  rank: number;
+}
+
 export interface Task {
   id: string;
   brokerageId: string;
@@ -106,6 +217,9 @@ export interface Task {
   endDate?: string;
   isCompleted: boolean;
   priority: 'LOW' | 'MEDIUM' | 'HIGH';
+  completedAt?: string;
+  recurrenceRule?: string; // RFC 5545 RRULE, e.g. FREQ=WEEKLY;INTERVAL=2
+  previousOccurrenceId?: string; // Task whose completion generated this one
 }
 
 export interface DealNote {
@@ -125,6 +239,9 @@ export interface Deal {
   status: 'ACTIVE' | 'PENDING' | 'CLOSED';
   side: 'BUYER' | 'SELLER' | 'BOTH';
   address: string;
+  // Derived from address when it is saved
+  addressComponents?: AddressComponents;
+  location?: GeoLocation;
   salePrice: number;
   commissionPercentage: number;
   commissionAmount: number;
@@ -155,12 +272,17 @@ export interface Deal {
   appraisalDueDate?: string;
   loanDueDate?: string;
   dealNotes?: DealNote[];
+  // Values of brokerage-defined custom fields, keyed by definition key
+  customFields?: Record<string, CustomFieldValue>;
 }
 
 export interface OpenHouse {
   id: string;
   brokerageId: string;
   address: string;
+  // Derived from address when it is saved
+  addressComponents?: AddressComponents;
+  location?: GeoLocation;
   date: string;
   startTime: string;
   endTime: string;
@@ -174,10 +296,17 @@ export interface OpenHouse {
   manualAgentPhone?: string;
   manualAgentLicense?: string;
   isManualAgent?: boolean;
+  signInToken?: string; // Keys the public check-in URL
   isDeleted?: boolean;
   deletedAt?: string;
 }
 
+export interface OpenHouseVisit {
+  visitorType: 'VISITOR' | 'AGENT';
+  fullName: string;
+  details: Record<string, string>;
+}
+
 export type EmailFolder = 'INBOX' | 'SENT' | 'DRAFTS' | 'TRASH' | 'ARCHIVE';
 
 export interface EmailMessage {